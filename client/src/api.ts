@@ -8,9 +8,22 @@
   - exports convenience wrappers + compatibility aliases for existing callsites
   - keeps react pages thin while preserving typed data access
   - requests taxonomy metadata so frontend can adopt it incrementally
+  - requests search highlights so cards can render matched fragments on search reads
+  - provides the aiAnswer fetch helper used by the assistant bridge
+  - builds /api/export download urls (csv / json) from the same filters as the connection reads
+  - requests control framework mappings so control cards can render framework badges
+  - provides the frameworkCoverage fetch helper (one aggregate read, no paging)
+  - requests control evidence metadata (download links point at /api/evidence, never the stored file or url)
+  - requests visibility + locked flags so nda teasers render locked; provides the requestAccess helper
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
-import type { ControlsConnection, FaqsConnection } from './types-frontend';
+import type {
+  AiAnswerResult,
+  ControlsConnection,
+  FaqsConnection,
+  FrameworkCoverage,
+  AccessRequest
+} from './types-frontend';
 
 // ----------  shared result types  ----------
 
@@ -55,12 +68,21 @@ type FetchAllConnectionArgs = {
   maxPages?: number; // client-side safety cap
 };
 
+type FetchFrameworkCoverageArgs = {
+  ttlMs?: number; // optional cache ttl override
+};
+
 type FetchOverviewSearchArgs = {
   search: string; // required overview search term
   firstPerKind?: number; // optional per-kind visible row cap
   ttlMs?: number; // optional cache ttl override
 };
 
+type FetchAiAnswerArgs = {
+  question: string; // required assistant question
+  ttlMs?: number; // optional cache ttl override
+};
+
 type FetchVars = {
   first: number; // always required by graphql query
   after?: string; // present only when defined
@@ -73,6 +95,19 @@ type OverviewSearchVars = {
   firstPerKind?: number; // optional grouped result cap
 }; // exactOptionalPropertyTypes-safe shape
 
+type AiAnswerVars = {
+  question: string; // normalized assistant question
+};
+
+type RequestAccessArgs = {
+  company?: string; // optional requester company
+  reason?: string; // optional free-text reason shown to the admin
+};
+
+type RequestAccessVars = {
+  input: RequestAccessArgs; // normalized request body
+}; // exactOptionalPropertyTypes-safe shape
+
 // ----------  shared constants  ----------
 
 const GRAPHQL_URL = '/graphql'; // relative path works with dev proxy + production host
@@ -152,6 +187,29 @@ export const CONTROLS_CONNECTION_QUERY = /* GraphQL */ `
           tags
           sourceUrl
           updatedAt
+          visibility
+          locked
+          highlights {
+            field
+            fragment
+          }
+          frameworks {
+            framework
+            label
+            requirementId
+            requirementTitle
+          }
+          evidence {
+            id
+            title
+            kind
+            fileName
+            effectiveDate
+            expiresOn
+            isExpired
+            visibility
+            downloadUrl
+          }
         }
       }
     }
@@ -188,6 +246,12 @@ export const FAQS_CONNECTION_QUERY = /* GraphQL */ `
           subcategory
           tags
           updatedAt
+          visibility
+          locked
+          highlights {
+            field
+            fragment
+          }
         }
       }
     }
@@ -218,6 +282,12 @@ export const OVERVIEW_SEARCH_QUERY = /* GraphQL */ `
             tags
             sourceUrl
             updatedAt
+            visibility
+            locked
+            highlights {
+              field
+              fragment
+            }
           }
         }
       }
@@ -239,6 +309,12 @@ export const OVERVIEW_SEARCH_QUERY = /* GraphQL */ `
             subcategory
             tags
             updatedAt
+            visibility
+            locked
+            highlights {
+              field
+              fragment
+            }
           }
         }
       }
@@ -246,6 +322,73 @@ export const OVERVIEW_SEARCH_QUERY = /* GraphQL */ `
   }
 `;
 
+export const AI_ANSWER_QUERY = /* GraphQL */ `
+  query AiAnswer($question: String!) {
+    aiAnswer(question: $question) {
+      question
+      answer
+      grounded
+      provider
+      model
+      requestId
+      citations {
+        ref
+        kind
+        id
+        controlKey
+        faqKey
+        title
+        category
+        sourceUrl
+      }
+    }
+  }
+`;
+
+export const FRAMEWORK_COVERAGE_QUERY = /* GraphQL */ `
+  query FrameworkCoverage {
+    frameworkCoverage {
+      totalControls
+      frameworks {
+        framework
+        label
+        controlCount
+        requirementCount
+        coveredRequirementCount
+        requirements {
+          requirementId
+          requirementTitle
+          controlCount
+          isGap
+        }
+      }
+      categories {
+        section
+        category
+        controlCount
+        cells {
+          framework
+          controlCount
+          requirementCount
+          isGap
+        }
+      }
+    }
+  }
+`;
+
+export const REQUEST_ACCESS_MUTATION = /* GraphQL */ `
+  mutation RequestAccess($input: RequestAccessInput) {
+    requestAccess(input: $input) {
+      id
+      status
+      createdAt
+      expiresAt
+      isActive
+    }
+  }
+`;
+
 // ----------  response wrapper maps  ----------
 
 type ControlsConnectionData = {
@@ -260,6 +403,18 @@ type OverviewSearchData = {
   overviewSearch: OverviewSearchResult; // root field for grouped overview search
 };
 
+type AiAnswerData = {
+  aiAnswer: AiAnswerResult; // root field for the assistant query
+};
+
+type FrameworkCoverageData = {
+  frameworkCoverage: FrameworkCoverage; // root field for the coverage matrix
+};
+
+type RequestAccessData = {
+  requestAccess: AccessRequest; // root field for the access request mutation
+};
+
 type ConnectionKind = 'controls' | 'faqs'; // supported connection families
 
 type ConnectionByKind = {
@@ -463,6 +618,99 @@ export async function fetchOverviewSearch(
   });
 }
 
+// ----------  ai answer fetch ----------
+
+export async function fetchAiAnswer(
+  args: FetchAiAnswerArgs
+): Promise<AiAnswerResult> {
+  const question = normalizeText(args.question); // same whitespace normalization as the backend
+  if (!question) {
+    throw new Error('INPUT_ERROR: assistant requires a non-empty question'); // fail fast so blank input never hits the backend
+  }
+
+  const vars: AiAnswerVars = { question };
+  const ttlMs = getTtlMs(args.ttlMs); // repeated questions reuse the cached answer
+  const cacheKey = stableRequestKey('ai-answer', vars); // question identity for cache + dedupe
+
+  return getOrCreateCached(cacheKey, ttlMs, async () => {
+    const res = await graphqlFetch<AiAnswerData, AiAnswerVars>({
+      query: AI_ANSWER_QUERY, // assistant graphql document
+      variables: vars // normalized question
+    });
+
+    return res.data.aiAnswer; // extract assistant payload
+  });
+}
+
+// ----------  framework coverage fetch ----------
+
+export async function fetchFrameworkCoverage(
+  args: FetchFrameworkCoverageArgs = {}
+): Promise<FrameworkCoverage> {
+  const ttlMs = getTtlMs(args.ttlMs); // normalized cache ttl
+  const cacheKey = stableRequestKey('framework-coverage', {}); // no variables, one matrix per backend
+
+  return getOrCreateCached(cacheKey, ttlMs, async () => {
+    const res = await graphqlFetch<
+      FrameworkCoverageData,
+      Record<string, never>
+    >({
+      query: FRAMEWORK_COVERAGE_QUERY // coverage matrix graphql document
+    });
+
+    return res.data.frameworkCoverage; // extract coverage payload
+  });
+}
+
+// ----------  nda access request ----------
+
+export async function requestNdaAccess(
+  args: RequestAccessArgs = {}
+): Promise<AccessRequest> {
+  const input: RequestAccessArgs = {};
+
+  const company = normalizeText(args.company); // optional company
+  const reason = normalizeText(args.reason); // optional reason
+
+  if (company) input.company = company; // omit key when absent
+  if (reason) input.reason = reason; // omit key when absent
+
+  const res = await graphqlFetch<RequestAccessData, RequestAccessVars>({
+    query: REQUEST_ACCESS_MUTATION, // writes are never cached or deduped
+    variables: { input }
+  });
+
+  return res.data.requestAccess; // extract the filed request
+}
+
+// ----------  export download urls ----------
+
+type ExportFormat = 'csv' | 'json'; // formats served by /api/export
+
+type ExportUrlArgs = {
+  category?: string; // same category filter as the connection reads
+  search?: string; // same search filter as the connection reads
+};
+
+const EXPORT_URL = '/api/export'; // relative path works with dev proxy + production host
+
+export function buildExportUrl(
+  kind: ConnectionKind,
+  format: ExportFormat,
+  args: ExportUrlArgs = {}
+): string {
+  const params = new URLSearchParams();
+
+  const category = normalizeText(args.category); // optional category filter
+  const search = normalizeText(args.search); // optional search filter
+
+  if (category) params.set('category', category); // omit key when absent
+  if (search) params.set('search', search); // omit key when absent
+
+  const query = params.toString();
+  return `${EXPORT_URL}/${kind}.${format}${query ? `?${query}` : ''}`; // plain link target, the browser handles the download
+}
+
 // ----------  convenience wrappers (single page)  ----------
 
 export function fetchControlsConnectionPage(
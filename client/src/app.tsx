@@ -5,12 +5,14 @@
       - passes prop-driven content into stencil layout components
       - uses shared nav/title/footer content from react bridge
       - normalizes active nav path to match trust-center-prefixed navbar hrefs
+      - mounts the framework coverage matrix under /controls/coverage
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import React from 'react';
 import { Routes, Route, useLocation, Navigate } from 'react-router-dom';
 import Overview from './components/sections/overview';
 import Controls from './components/sections/controls';
+import Coverage from './components/sections/coverage';
 import Resources from './components/sections/resources';
 import Faqs from './components/sections/faqs';
 import { navRows, titleCard, footCard } from './components/shared';
@@ -26,6 +28,7 @@ type AppRoute = {
 const routeList: AppRoute[] = [
   { path: '/overview', View: Overview }, // overview page route
   { path: '/controls', View: Controls }, // controls page route
+  { path: '/controls/coverage', View: Coverage }, // framework coverage matrix (CONTROLS nav item stays active)
   { path: '/resources', View: Resources }, // resources page route
   { path: '/faqs', View: Faqs } // faqs page route
 ]; // add/edit page routes here to keep checks + rendering in sync
@@ -3,16 +3,25 @@
 
   - react fetches controls using shared api.ts
   - react derives category subnav from fetched api data
-  - react bridges subnav clicks to shadow-dom category sections (jump-to-card)
+  - react bridges subnav + assistant citation clicks to shadow-dom category sections (jump-to-card)
   - react owns page layout (main column + sticky rail)
+  - react renders the csv / json download actions above the cards
+  - links to the framework coverage matrix (/controls/coverage)
   - stencil owns subnav rendering + controls card rendering behavior
+  - locked nda rows emit aonRequestAccess; react files the requestAccess mutation and shows the outcome
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import type { ControlsConnection } from '../../../../types-shared';
-import { fetchControlsConnectionAll } from '../../api';
+import { fetchControlsConnectionAll, requestNdaAccess } from '../../api';
 import statusCheckUrl from '../../assets/images/status-check.svg';
-import { InfoRail, makeCategoryNav, useSubnavJump } from '../shared';
+import {
+  DownloadActions,
+  InfoRail,
+  makeCategoryNav,
+  useSubnavJump
+} from '../shared';
 
 export default function Controls() {
   const [controlsConn, setControlsConn] = useState<ControlsConnection | null>(
@@ -23,7 +32,9 @@ export default function Controls() {
 
   const [errorText, setErrorText] = useState<string>('');
 
-  const { subnavRef, cardRef, jumpHash } = useSubnavJump(); // shared event + shadow jump bridge
+  const [accessText, setAccessText] = useState<string>(''); // outcome of the last access request
+
+  const { subnavRef, assistantRef, cardRef, jumpHash } = useSubnavJump(); // shared event + shadow jump bridge
 
   useEffect(() => {
     let isLive = true; // stop state writes after unmount
@@ -62,6 +73,53 @@ export default function Controls() {
     };
   }, []);
 
+  // ---------- nda access requests (locked rows + the status line button) ----------
+
+  const onRequestAccess = useCallback(async () => {
+    setAccessText('Sending access request...');
+
+    try {
+      await requestNdaAccess();
+      setAccessText(
+        'Access request sent. You will be able to read NDA controls once an admin approves it.'
+      );
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+
+      if (msg.includes('UNAUTHENTICATED')) {
+        setAccessText('Sign in to request NDA access.');
+      } else if (msg.includes('CONFLICT_ERROR')) {
+        setAccessText('Your access request is already pending review.');
+      } else {
+        console.warn('[controls] requestAccess failed:', msg);
+        setAccessText(
+          'The access request could not be sent. Please try again.'
+        );
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    const hostEl = cardRef.current; // current control card host at mount time
+
+    if (!hostEl) return; // no host yet (should be rare after mount)
+
+    function onLockedRow() {
+      void onRequestAccess(); // one request per viewer covers every nda row
+    }
+
+    hostEl.addEventListener('aonRequestAccess', onLockedRow); // native listener for stencil custom event
+
+    return () => {
+      hostEl.removeEventListener('aonRequestAccess', onLockedRow); // cleanup on unmount
+    };
+  }, [cardRef, onRequestAccess]);
+
+  const hasLocked = useMemo(
+    () => Boolean(controlsConn?.edges?.some(edge => edge.node.locked)),
+    [controlsConn]
+  ); // the status line only shows when this viewer has nda rows to unlock
+
   // ---------- honor deep links after stencil card renders categories ----------
 
   useEffect(() => {
@@ -98,12 +156,27 @@ export default function Controls() {
     <section className="info-grid">
       <InfoRail
         subRef={subnavRef}
+        askRef={assistantRef}
+        pageKind="CONTROL"
         navTitle="Categories"
         navJson={navJson}
         emptyText={emptyText}
       />
 
       <div className="info-main">
+        <DownloadActions kind="controls" label="controls">
+          <Link to="/controls/coverage">Framework coverage</Link>
+        </DownloadActions>
+        {(hasLocked || accessText) && (
+          <p className="nda-access" id="nda-access" role="status">
+            {accessText || 'Some controls are available under NDA.'}{' '}
+            {!accessText && (
+              <button type="button" onClick={() => void onRequestAccess()}>
+                Request access
+              </button>
+            )}
+          </p>
+        )}
         <aon-control-card
           ref={node => {
             cardRef.current = node as HTMLElement | null;
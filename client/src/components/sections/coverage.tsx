@@ -0,0 +1,75 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  framework coverage page section (/controls/coverage)
+
+  - react fetches the frameworkCoverage aggregate once (no controls paging)
+  - react owns page layout + the link back to the controls list
+  - stencil owns matrix rendering, gap highlighting, and requirement expand state
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { FrameworkCoverage } from '../../../../types-shared';
+import { fetchFrameworkCoverage } from '../../api';
+
+export default function Coverage() {
+  const [coverage, setCoverage] = useState<FrameworkCoverage | null>(null);
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  const [errorText, setErrorText] = useState<string>('');
+
+  useEffect(() => {
+    let isLive = true; // stop state writes after unmount
+
+    async function load() {
+      setIsLoading(true); // start fetch state
+      setErrorText(''); // clear prior error before retry
+
+      try {
+        const data = await fetchFrameworkCoverage({ ttlMs: 60_000 });
+
+        if (!isLive) return; // ignore late response after unmount
+
+        setCoverage(data); // store fetched matrix
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+
+        if (!isLive) return; // ignore late error after unmount
+
+        setCoverage(null); // clear stale data
+        setErrorText(msg); // expose readable error
+      } finally {
+        if (!isLive) return; // ignore late completion after unmount
+
+        setIsLoading(false); // stop loading state
+      }
+    }
+
+    void load(); // fire load once on mount
+
+    return () => {
+      isLive = false; // mark effect inactive on unmount
+    };
+  }, []);
+
+  const coverageJson = useMemo(() => {
+    if (!coverage) return '';
+    return JSON.stringify(coverage);
+  }, [coverage]); // stencil parses string prop
+
+  return (
+    <section className="coverage-section">
+      <div className="info-actions">
+        <Link to="/controls">Back to controls</Link>
+      </div>
+
+      <aon-coverage-matrix
+        title-text="Framework Coverage"
+        subtitle-text="Published controls mapped to each framework requirement. Gaps have no mapped control yet."
+        coverage-json={coverageJson}
+        is-loading={isLoading}
+        error-text={errorText}
+      />
+    </section>
+  );
+}
@@ -3,15 +3,21 @@
 
   - react fetches faqs using shared api.ts
   - react derives category subnav from fetched api data
-  - react bridges subnav clicks to shadow-dom category sections (jump-to-card)
+  - react bridges subnav + assistant citation clicks to shadow-dom category sections (jump-to-card)
   - react owns page layout (main column + sticky rail)
+  - react renders the csv / json download actions above the cards
   - stencil owns subnav rendering + faq card rendering behavior
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import React, { useEffect, useMemo, useState } from 'react';
 import type { FaqsConnection } from '../../../../types-shared';
 import { fetchFaqsConnectionAll } from '../../api';
-import { InfoRail, makeCategoryNav, useSubnavJump } from '../shared';
+import {
+  DownloadActions,
+  InfoRail,
+  makeCategoryNav,
+  useSubnavJump
+} from '../shared';
 
 export default function Faqs() {
   const [faqsConn, setFaqsConn] = useState<FaqsConnection | null>(null);
@@ -20,7 +26,7 @@ export default function Faqs() {
 
   const [errorText, setErrorText] = useState<string>('');
 
-  const { subnavRef, cardRef, jumpHash } = useSubnavJump(); // shared event + shadow jump bridge
+  const { subnavRef, assistantRef, cardRef, jumpHash } = useSubnavJump(); // shared event + shadow jump bridge
 
   useEffect(() => {
     let isLive = true; // stop state writes after unmount
@@ -95,12 +101,15 @@ export default function Faqs() {
     <section className="info-grid">
       <InfoRail
         subRef={subnavRef}
+        askRef={assistantRef}
+        pageKind="FAQ"
         navTitle="FAQ Categories"
         navJson={navJson}
         emptyText={emptyText}
       />
 
       <div className="info-main">
+        <DownloadActions kind="faqs" label="FAQs" />
         <aon-faq-card
           ref={node => {
             cardRef.current = node as HTMLElement | null;
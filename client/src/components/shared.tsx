@@ -1,21 +1,32 @@
 /* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
   TL;DR  -->  thin react bridge + react-owned trust center content + shared section helpers
 
-  - react owns business copy, urls, and static resource lists
+  - react owns business copy and urls; resource rows come from resources-shared.ts (also used by the pdf report)
   - stencil owns rendering behavior and visual presentation
   - wrappers only map props and serialize json for stencil
   - shared helpers keep controls/faqs subnav + jump behavior DRY
   - link-card payload shaping + static json stringification are centralized for DRY/perf
-  - shared rail + ai placeholder wrappers keep controls/faqs layout consistent
+  - shared rail + assistant bridge keep controls/faqs layout consistent
+  - assistant bridge owns aiAnswer networking through api.ts; stencil only renders the chat
+  - shared download actions link controls/faqs pages to the csv + json exports
+  - nda resource documents render as locked rows that link to the controls page access request
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
-import React, { useCallback, useEffect, useMemo, useRef } from 'react'; // react jsx runtime + shared hooks for stable json + event bridge
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState
+} from 'react'; // react jsx runtime + shared hooks for stable json + event bridge
+import type { AiCitation } from '../types-frontend'; // assistant citation contract
+import { buildExportUrl, fetchAiAnswer } from '../api'; // shared graphql data layer + export urls
 import PDF from '../assets/images/pdf-svgrepo-com.svg'; // bundled icon url for pdf rows
 import External from '../assets/images/external-link-svgrepo-com.svg'; // bundled icon url for external rows
 import ClientPrivacySummaryPDF from '../assets/PDFs/Aon Client Privacy Summary - Mock.pdf'; // bundled mock pdf
-import PenetrationTestsPDF from '../assets/PDFs/CyQuPenetrationTestReports.pdf'; // bundled mock pdf
 import PrivacyPolicyPDF from '../assets/PDFs/CyQuPrivacyPolicy.pdf'; // bundled mock pdf
 import CyberSecurityRiskManagement from '../assets/PDFs/Aon Cyber Security and Risk Management Overview - Mock.pdf'; // bundled mock pdf
+import { resourceDocuments, resourceLinks } from '../../../resources-shared'; // resource rows shared with the server report
 
 // ---------- local ui types ----------
 
@@ -55,11 +66,24 @@ type PortalProps = {
 
 type RailProps = {
   subRef: React.MutableRefObject<HTMLElement | null>; // host ref for aon-subnav-card event listener
+  askRef: React.MutableRefObject<HTMLElement | null>; // host ref for aon-assistant event listeners
+  pageKind: AiCitation['kind']; // which citations can jump in-page (others link across pages)
   navTitle: string; // subnav title text
   navJson: string; // serialized nav rows
   emptyText: string; // subnav empty/loading text
 };
 
+type DownloadProps = {
+  kind: 'controls' | 'faqs'; // which export to link
+  label: string; // accessible group label (e.g. "controls")
+  children?: React.ReactNode; // optional page links rendered before the downloads
+};
+
+type AssistantProps = {
+  hostRef: React.MutableRefObject<HTMLElement | null>; // host ref for aon-assistant event listeners
+  pageKind: AiCitation['kind']; // which citations can jump in-page
+};
+
 // ---------- shared subnav + jump types (controls/faqs reuse) ----------
 
 export type SubnavRow = {
@@ -80,8 +104,13 @@ type CategoryConn = {
 } | null;
 
 type SubnavJumpDetail = {
-  href?: string; // original href emitted by stencil subnav card
-  id?: string; // parsed target id emitted by stencil subnav card
+  href?: string; // original href emitted by stencil subnav card or assistant citation
+  id?: string; // parsed target id emitted by stencil subnav card or assistant citation
+};
+
+type AssistantAskDetail = {
+  askId?: number; // echoed back so stencil matches the reply to its turn
+  question?: string; // question typed into aon-assistant
 };
 
 // ---------- link-card payload helpers (shared resource wrappers) ----------
@@ -231,6 +260,7 @@ function readJump(event: Event): { id: string; href: string } | null {
 
 export function useSubnavJump() {
   const subnavRef = useRef<HTMLElement | null>(null); // host for aon-subnav-card (event source)
+  const assistantRef = useRef<HTMLElement | null>(null); // host for aon-assistant (citation event source)
   const cardRef = useRef<HTMLElement | null>(null); // host for aon-control-card / aon-faq-card (scroll target root)
 
   const jumpId = useCallback((id: string): boolean => {
@@ -255,8 +285,7 @@ export function useSubnavJump() {
 
   useEffect(() => {
     const subnavEl = subnavRef.current; // current subnav host at mount time
-
-    if (!subnavEl) return; // no host yet (should be rare after mount)
+    const assistantEl = assistantRef.current; // current assistant host at mount time
 
     function onJump(event: Event) {
       const detail = readJump(event); // parse typed custom event payload
@@ -266,54 +295,131 @@ export function useSubnavJump() {
       jumpId(detail.id); // scroll matching category section inside target card shadow root
     }
 
-    subnavEl.addEventListener('aonSubnavJump', onJump); // native listener for stencil custom event
+    subnavEl?.addEventListener('aonSubnavJump', onJump); // native listener for stencil custom event
+    assistantEl?.addEventListener('aonAssistantJump', onJump); // citation clicks share the same jump payload
 
     return () => {
-      subnavEl.removeEventListener('aonSubnavJump', onJump); // cleanup on unmount
+      subnavEl?.removeEventListener('aonSubnavJump', onJump); // cleanup on unmount
+      assistantEl?.removeEventListener('aonAssistantJump', onJump); // cleanup on unmount
     };
   }, [jumpId]);
 
   return {
     subnavRef, // assign to aon-subnav-card host
+    assistantRef, // assign to aon-assistant host
     cardRef, // assign to aon-control-card / aon-faq-card host
     jumpHash // call after data renders to honor deep-link fragments
   };
 }
 
-// ---------- shared rail placeholder copy (controls/faqs reuse) ----------
+// ---------- shared assistant bridge (controls/faqs reuse) ----------
 
 export const aiCard = {
   title: 'CyQu Assistant',
-  text: 'Ask a question about controls, FAQs, or resources. A future AI assistant will jump you to the best section and entry, or route you to the right area if there is no direct match.'
-}; // shared placeholder copy for controls/faqs rail
+  text: 'Ask a question about controls or FAQs. Answers cite the trust center entries they come from, and each source jumps you to the matching section.',
+  placeholder: 'Ask about controls or FAQs'
+}; // shared assistant copy for controls/faqs rail
+
+const citationTargets: Record<
+  AiCitation['kind'],
+  { path: string; idHead: string }
+> = {
+  CONTROL: { path: '/trust-center/controls', idHead: 'controls-category' },
+  FAQ: { path: '/trust-center/faqs', idHead: 'faq-category' }
+}; // keep idHead values aligned with section-id-prefix on each page
+
+export function citationHref(
+  citation: AiCitation,
+  pageKind: AiCitation['kind']
+): string {
+  const target = citationTargets[citation.kind];
+  const slug = slugText(citation.category || 'General'); // same fallback as makeCategoryNav
+  const hash = slug ? `#${target.idHead}-${slug}` : '';
 
-export function AiStub() {
-  return (
-    <section className="ai-slot" aria-label={aiCard.title}>
-      <div className="ai-head">
-        <h3 className="ai-title">{aiCard.title}</h3>
+  if (citation.kind === pageKind) return hash || target.path; // in-page citations jump inside the card shadow root
 
-        <p className="ai-text">{aiCard.text}</p>
-      </div>
+  return `${target.path}${hash}`; // cross-page citations navigate; jumpHash honors the fragment on load
+}
 
-      <div className="ai-body" aria-hidden="true">
-        <div className="ai-chip">chat placeholder</div>
+export function AssistantCard({ hostRef, pageKind }: AssistantProps) {
+  const [replyJson, setReplyJson] = useState<string>(''); // latest reply passed into stencil
 
-        <div className="ai-line" />
-        <div className="ai-line short" />
-        <div className="ai-line" />
+  useEffect(() => {
+    const hostEl = hostRef.current; // current assistant host at mount time
+
+    if (!hostEl) return; // no host yet (should be rare after mount)
+
+    let isLive = true; // stop state writes after unmount
+
+    async function onAsk(event: Event) {
+      const detail = (event as CustomEvent<AssistantAskDetail>).detail ?? {}; // tolerate malformed payloads
+      const askId = Number(detail.askId);
+      const question = (detail.question ?? '').trim();
+
+      if (!Number.isFinite(askId) || !question) return; // ignore malformed events
+
+      try {
+        const res = await fetchAiAnswer({ question, ttlMs: 60_000 });
+
+        if (!isLive) return; // ignore late response after unmount
+
+        setReplyJson(
+          JSON.stringify({
+            askId,
+            answer: res.answer,
+            grounded: res.grounded,
+            citations: res.citations.map(citation => ({
+              label: citation.title,
+              href: citationHref(citation, pageKind),
+              tag: citation.ref
+            }))
+          })
+        ); // stencil matches the reply to its pending turn
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+
+        if (!isLive) return; // ignore late error after unmount
+
+        console.warn('[assistant] aiAnswer failed:', msg);
+
+        setReplyJson(
+          JSON.stringify({
+            askId,
+            error: 'The assistant could not answer right now. Please try again.'
+          })
+        ); // keep raw error text out of the chat log
+      }
+    }
 
-        <div className="ai-note">
-          future stencil component lives here
-          <br />
-          react will provide api + connection props
-        </div>
-      </div>
-    </section>
+    hostEl.addEventListener('aonAssistantAsk', onAsk); // native listener for stencil custom event
+
+    return () => {
+      isLive = false; // mark effect inactive on unmount
+      hostEl.removeEventListener('aonAssistantAsk', onAsk); // cleanup on unmount
+    };
+  }, [hostRef, pageKind]);
+
+  return (
+    <aon-assistant
+      ref={node => {
+        hostRef.current = node as HTMLElement | null;
+      }} // native listeners attach to custom element host
+      assistant-title={aiCard.title}
+      intro-text={aiCard.text}
+      placeholder={aiCard.placeholder}
+      reply-json={replyJson}
+    />
   );
 }
 
-export function InfoRail({ subRef, navTitle, navJson, emptyText }: RailProps) {
+export function InfoRail({
+  subRef,
+  askRef,
+  pageKind,
+  navTitle,
+  navJson,
+  emptyText
+}: RailProps) {
   return (
     <aside className="info-rail" aria-label={`${navTitle} and assistant`}>
       <div className="info-stick">
@@ -325,14 +431,26 @@ export function InfoRail({ subRef, navTitle, navJson, emptyText }: RailProps) {
           items-json={navJson}
           empty-text={emptyText}
         />
-        <div className="ai-slot-wrapper">
-          <AiStub />
-        </div>
+        <AssistantCard hostRef={askRef} pageKind={pageKind} />
       </div>
     </aside>
   );
 }
 
+export function DownloadActions({ kind, label, children }: DownloadProps) {
+  return (
+    <div className="info-actions" aria-label={`Download ${label}`}>
+      {children}
+      <a href={buildExportUrl(kind, 'csv')} download>
+        Download CSV
+      </a>
+      <a href={buildExportUrl(kind, 'json')} download>
+        Download JSON
+      </a>
+    </div>
+  ); // plain links  -->  the server streams the file, no client-side buffering
+}
+
 // ---------- react-owned shared content ----------
 
 export const navRows = [
@@ -378,53 +496,39 @@ export const portalCard = {
   btnLink: 'https://www.aon.com/'
 }; // blue card props passed into <aon-blue-card>
 
-export const docRows: LinkRow[] = [
-  {
-    label: 'Aon Client Privacy Summary (Mock)',
-    href: ClientPrivacySummaryPDF,
-    iconSrc: PDF,
-    iconAlt: ''
-  },
-  {
-    label: 'CyQu Penetration Test Reports',
-    href: PenetrationTestsPDF,
-    iconSrc: PDF,
-    iconAlt: ''
-  },
-  {
-    label: 'CyQu Privacy Policy',
-    href: PrivacyPolicyPDF,
-    iconSrc: PDF,
-    iconAlt: ''
-  },
-  {
-    label: 'Aon Cyber Security and Risk Management Overview (Mock)',
-    href: CyberSecurityRiskManagement,
-    iconSrc: PDF,
-    iconAlt: ''
-  }
-]; // documents card rows
-
-export const extRows: LinkRow[] = [
-  {
-    label: 'Aon Corporate Website',
-    href: 'https://www.aon.com/',
-    iconSrc: External,
-    iconAlt: ''
-  },
-  {
-    label: 'Aon Investor Relations',
-    href: 'https://ir.aon.com/',
-    iconSrc: External,
-    iconAlt: ''
-  },
-  {
-    label: 'Aon Newsroom',
-    href: 'https://insights-north-america.aon.com/',
-    iconSrc: External,
-    iconAlt: ''
-  }
-]; // external links card rows
+const docUrlByFile: Record<string, string> = {
+  'Aon Client Privacy Summary - Mock.pdf': ClientPrivacySummaryPDF,
+  'CyQuPrivacyPolicy.pdf': PrivacyPolicyPDF,
+  'Aon Cyber Security and Risk Management Overview - Mock.pdf':
+    CyberSecurityRiskManagement
+}; // shared rows name files; vite owns the bundled urls (nda files are never bundled)
+
+export const NDA_ACCESS_HREF = '/controls#nda-access'; // controls page hosts the request-access status line
+
+export const docRows: LinkRow[] = resourceDocuments.map(doc =>
+  doc.visibility === 'nda'
+    ? {
+        label: doc.label,
+        href: NDA_ACCESS_HREF,
+        iconSrc: PDF,
+        iconAlt: '',
+        description: 'Available under NDA.',
+        ctaLabel: 'Request access'
+      }
+    : {
+        label: doc.label,
+        href: docUrlByFile[doc.file] ?? '',
+        iconSrc: PDF,
+        iconAlt: ''
+      }
+); // documents card rows (same list the server prints in the trust report)
+
+export const extRows: LinkRow[] = resourceLinks.map(link => ({
+  label: link.label,
+  href: link.href,
+  iconSrc: External,
+  iconAlt: ''
+})); // external links card rows
 
 export const docRowsJson = stringifyLinkCardItems(docRows); // one-time serialization for shared static document rows
 
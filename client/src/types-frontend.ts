@@ -6,6 +6,7 @@
   - keeps custom element prop names aligned with current stencil @Prop() APIs
   - intentionally excludes asset module declarations (see assets.d.ts)
   - keeps frontend-only JSX/custom-element typing separate from shared data contracts
+  - types the aon-coverage-matrix element used by the framework coverage route
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import React from 'react';
@@ -13,6 +14,7 @@ import React from 'react';
 export type {
   Control,
   Faq,
+  SearchHighlight,
   PageInfo,
   Edge,
   Connection,
@@ -20,7 +22,12 @@ export type {
   FaqsConnection,
   ConnectionQueryArgs,
   OverviewSearchQueryArgs,
-  OverviewSearchResult
+  OverviewSearchResult,
+  AiCitation,
+  AiAnswerResult,
+  FrameworkCoverage,
+  AccessRequest,
+  NdaAccess
 } from '../../types-shared'; // shared node + connection contracts should have exactly one source of truth
 
 // ---------- reusable link-card item types (react composition) ----------
@@ -121,6 +128,15 @@ type AonControlCardProps = HtmlElProps & {
   'section-id-prefix'?: string; // api-driven subnav anchor target prefix
 };
 
+type AonCoverageMatrixProps = HtmlElProps & {
+  'title-text'?: string;
+  'subtitle-text'?: string;
+
+  'coverage-json'?: string; // react -> stencil FrameworkCoverage payload
+  'is-loading'?: boolean; // react -> stencil loading state
+  'error-text'?: string; // react -> stencil error state
+};
+
 type AonFaqCardProps = HtmlElProps & {
   'data-mode'?: 'faqs' | 'single' | 'none' | string;
   'show-tile'?: boolean;
@@ -145,6 +161,13 @@ type AonSubnavCardProps = HtmlElProps & {
   'empty-text'?: string; // optional empty state text
 };
 
+type AonAssistantProps = HtmlElProps & {
+  'assistant-title'?: string;
+  'intro-text'?: string;
+  placeholder?: string;
+  'reply-json'?: string; // react -> stencil latest answer payload
+};
+
 type AonThemeToggleProps = HtmlElProps & {
   theme?: 'light' | 'dark' | string; // current stencil prop is optional and reflected internally
 };
@@ -161,8 +184,10 @@ interface AonStencilIntrinsicElements {
   'aon-theme-toggle': AonThemeToggleProps;
 
   'aon-control-card': AonControlCardProps;
+  'aon-coverage-matrix': AonCoverageMatrixProps;
   'aon-faq-card': AonFaqCardProps;
   'aon-subnav-card': AonSubnavCardProps;
+  'aon-assistant': AonAssistantProps;
 }
 
 // react 18 jsx runtime intrinsic element augmentation
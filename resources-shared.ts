@@ -0,0 +1,49 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  shared static resource links for FE + BE
+
+  - single list of the documents + external links shown on the resources page
+  - react maps document file names to bundled asset urls (shared.tsx)
+  - the server lists the same rows in the printable trust report
+  - plain data only (no asset imports), so node can load it without vite
+  - nda documents are listed as locked rows (no bundled file) that point at the access-request flow
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+export type SharedResourceDocument = {
+  label: string; // visible row label
+  file: string; // file name under client/src/assets/PDFs
+  visibility?: 'public' | 'nda'; // omitted  -->  public
+};
+
+export type SharedResourceLink = {
+  label: string; // visible row label
+  href: string; // absolute external url
+};
+
+export const resourceDocuments: SharedResourceDocument[] = [
+  {
+    label: 'Aon Client Privacy Summary (Mock)',
+    file: 'Aon Client Privacy Summary - Mock.pdf'
+  },
+  {
+    label: 'CyQu Penetration Test Reports',
+    file: 'CyQuPenetrationTestReports.pdf',
+    visibility: 'nda'
+  },
+  {
+    label: 'CyQu Privacy Policy',
+    file: 'CyQuPrivacyPolicy.pdf'
+  },
+  {
+    label: 'Aon Cyber Security and Risk Management Overview (Mock)',
+    file: 'Aon Cyber Security and Risk Management Overview - Mock.pdf'
+  }
+]; // documents card rows
+
+export const resourceLinks: SharedResourceLink[] = [
+  { label: 'Aon Corporate Website', href: 'https://www.aon.com/' },
+  { label: 'Aon Investor Relations', href: 'https://ir.aon.com/' },
+  {
+    label: 'Aon Newsroom',
+    href: 'https://insights-north-america.aon.com/'
+  }
+]; // external links card rows
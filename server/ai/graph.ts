@@ -2,5 +2,216 @@
   TL;DR  -->  ai orchestration (langgraph)
 
   - runs retrieve -> generate -> validate -> format
-  - central entrypoint used by graphql mutation
+  - central entrypoint used by the aiAnswer graphql query
+  - every step reads/writes one AiPipelineState so the flow stays predictable
+  - validation drops citations that do not point at retrieved sources
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~*/
+
+import type { GraphQLContext } from '../graphql/context'; // request-scoped deps
+import type {
+  AiPipelineState,
+  AiProvider,
+  AiSource,
+  AiSourceKind
+} from '../types-backend'; // pipeline state + provider contract
+import { memoizePromise } from '../services/memo'; // request-scoped promise dedupe helper
+import { normalizeText } from '../services/pagination'; // shared whitespace normalization
+import { searchKnowledgeBase } from './kb'; // retrieve step
+import {
+  buildContextBlock,
+  buildUserPrompt,
+  CITATION_PATTERN,
+  NO_ANSWER_TEXT,
+  SYSTEM_PROMPT
+} from './prompts'; // prompt + citation helpers
+import { getAiProvider } from './providers'; // env-selected provider
+
+// ---------- public shapes ----------
+
+export type AiCitation = {
+  ref: string; // citation handle used inside the answer text
+  kind: AiSourceKind; // CONTROL | FAQ
+  id: string; // row id for deep links
+  controlKey: string | null; // present for controls
+  faqKey: string | null; // present for faqs
+  title: string; // control title or faq question
+  category: string; // category used by the ui to jump to the right card
+  sourceUrl: string | null; // optional proof link
+};
+
+export type AiAnswer = {
+  question: string; // normalized question echoed back
+  answer: string; // validated answer text
+  citations: AiCitation[]; // cited sources in first-mention order
+  grounded: boolean; // true when at least one valid citation survived validation
+  provider: string; // provider name for debugging
+  model: string; // provider model id for debugging
+};
+
+// ---------- config ----------
+
+const QUESTION_MIN_LENGTH = 3; // shorter inputs cannot carry a real question
+const QUESTION_MAX_LENGTH = 500; // keeps prompts bounded
+
+function readPositiveNumberEnv(key: string, fallback: number): number {
+  const parsed = Number(process.env[key]);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback; // bad env values fall back quietly like CACHE_MAX_ITEMS
+}
+
+function getAiConfig() {
+  return {
+    maxSources: Math.floor(readPositiveNumberEnv('AI_MAX_SOURCES', 5)),
+    maxContextChars: Math.floor(
+      readPositiveNumberEnv('AI_MAX_CONTEXT_CHARS', 12_000)
+    ),
+    maxTokens: Math.floor(readPositiveNumberEnv('AI_MAX_TOKENS', 500)),
+    temperature: Number.isFinite(Number(process.env.AI_TEMPERATURE))
+      ? Number(process.env.AI_TEMPERATURE)
+      : 0.2
+  }; // read per call so tests + scripts can adjust env without a restart
+}
+
+// ---------- input validation ----------
+
+export function normalizeQuestion(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new Error('VALIDATION_ERROR: question must be a string');
+  }
+
+  const normalized = normalizeText(value); // trim + collapse internal whitespace
+
+  if (normalized.length < QUESTION_MIN_LENGTH) {
+    throw new Error(
+      `VALIDATION_ERROR: question must be at least ${QUESTION_MIN_LENGTH} characters`
+    );
+  }
+
+  if (normalized.length > QUESTION_MAX_LENGTH) {
+    throw new Error(
+      `VALIDATION_ERROR: question must be at most ${QUESTION_MAX_LENGTH} characters`
+    );
+  }
+
+  return normalized;
+}
+
+// ---------- pipeline steps ----------
+
+async function retrieve(
+  state: AiPipelineState,
+  ctx: GraphQLContext,
+  maxSources: number
+): Promise<AiPipelineState> {
+  const sources = await searchKnowledgeBase(state.question, ctx, {
+    maxSources
+  });
+  return { ...state, sources };
+}
+
+async function generate(
+  state: AiPipelineState,
+  provider: AiProvider,
+  config: ReturnType<typeof getAiConfig>
+): Promise<AiPipelineState> {
+  if (state.sources.length === 0) {
+    return { ...state, draft: { text: NO_ANSWER_TEXT, model: 'none' } }; // skip the provider entirely when there is nothing to ground on
+  }
+
+  const context = buildContextBlock(state.sources, config.maxContextChars);
+  const draft = await provider.generate({
+    question: state.question,
+    systemPrompt: SYSTEM_PROMPT,
+    userPrompt: buildUserPrompt(state.question, context),
+    sources: state.sources,
+    maxTokens: config.maxTokens,
+    temperature: config.temperature
+  });
+
+  return { ...state, draft };
+}
+
+export function validate(state: AiPipelineState): AiPipelineState {
+  const knownRefs = new Set(state.sources.map(source => source.ref)); // only retrieved sources may be cited
+  const raw = (state.draft?.text ?? '').trim();
+
+  if (raw === '') {
+    return { ...state, answer: NO_ANSWER_TEXT, citedRefs: [] }; // empty provider output is treated as "no answer"
+  }
+
+  const citedRefs: string[] = [];
+
+  const answer = raw
+    .replace(CITATION_PATTERN, (match, ref: string) => {
+      if (!knownRefs.has(ref)) return ''; // strip invented citations instead of passing them to the ui
+      if (!citedRefs.includes(ref)) citedRefs.push(ref); // first-mention order
+      return match;
+    })
+    .replace(/\s+([.,;:!?])/g, '$1') // tidy spaces left behind by stripped citations
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+  return { ...state, answer, citedRefs };
+}
+
+function toCitation(source: AiSource): AiCitation {
+  return {
+    ref: source.ref,
+    kind: source.kind,
+    id: source.id,
+    controlKey: source.controlKey,
+    faqKey: source.faqKey,
+    title: source.title,
+    category: source.category,
+    sourceUrl: source.sourceUrl
+  };
+}
+
+export function format(state: AiPipelineState, provider: AiProvider): AiAnswer {
+  const byRef = new Map(state.sources.map(source => [source.ref, source]));
+  const citations = state.citedRefs
+    .map(ref => byRef.get(ref))
+    .filter((source): source is AiSource => Boolean(source))
+    .map(toCitation);
+
+  return {
+    question: state.question,
+    answer: state.answer,
+    citations,
+    grounded: citations.length > 0, // ungrounded answers are still returned, but the ui can flag them
+    provider: provider.name,
+    model: state.draft?.model ?? 'none'
+  };
+}
+
+// ---------- main entrypoint ----------
+
+export async function runAiAnswer(
+  question: string,
+  ctx: GraphQLContext,
+  provider: AiProvider = getAiProvider()
+): Promise<AiAnswer> {
+  const normalized = normalizeQuestion(question); // fail fast before any retrieval work
+  const memoKey = `ai:answer:${provider.name}:${normalized.toLowerCase()}`; // duplicate questions in one request share work
+
+  return memoizePromise(ctx.memo, memoKey, async () => {
+    const config = getAiConfig();
+
+    let state: AiPipelineState = {
+      question: normalized,
+      sources: [],
+      draft: null,
+      citedRefs: [],
+      answer: ''
+    };
+
+    state = await retrieve(state, ctx, config.maxSources);
+    state = await generate(state, provider, config);
+    state = validate(state);
+
+    console.log(
+      `[ai] requestId=${ctx.requestId} provider=${provider.name} sources=${state.sources.length} cited=${state.citedRefs.length}`
+    ); // one structured line matches the [data]/[cache] log style
+
+    return format(state, provider);
+  });
+}
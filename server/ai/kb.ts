@@ -3,4 +3,163 @@
 
   - provides a single search(question) api
   - can start with keyword search, later add embeddings
+  - reuses controlsService/faqsService search paths (db, cache, memo, fallback)
+  - scores rows by how many question keywords matched them
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~*/
+
+import type { GraphQLContext } from '../graphql/context'; // request-scoped deps passed through to services
+import type { AiSource } from '../types-backend'; // retrieval output shape
+import {
+  getControlsPage,
+  type DbControlRow
+} from '../services/controlsService'; // existing controls read path
+import { getFaqsPage, type DbFaqRow } from '../services/faqsService'; // existing faqs read path
+import { normalizeText } from '../services/pagination'; // shared whitespace normalization
+
+// ---------- keyword extraction ----------
+
+const MAX_KEYWORDS = 6; // bounds fan-out  -->  each keyword costs one controls + one faqs read
+const MIN_KEYWORD_LENGTH = 3; // shorter fragments match almost everything with substring search
+
+const STOPWORDS = new Set([
+  'about',
+  'and',
+  'are',
+  'can',
+  'does',
+  'for',
+  'from',
+  'have',
+  'how',
+  'is',
+  'its',
+  'our',
+  'the',
+  'there',
+  'this',
+  'what',
+  'when',
+  'where',
+  'which',
+  'who',
+  'why',
+  'with',
+  'you',
+  'your'
+]); // question filler words that add noise to substring search
+
+export function extractKeywords(question: string): string[] {
+  const words = normalizeText(question)
+    .toLowerCase()
+    .split(/[^a-z0-9]+/) // split on punctuation as well as whitespace
+    .filter(word => word.length >= MIN_KEYWORD_LENGTH && !STOPWORDS.has(word));
+
+  const uniq = Array.from(new Set(words)); // dedupe before ranking so repeated words do not cost extra reads
+  uniq.sort((a, b) => b.length - a.length); // longer words are usually more specific
+  return uniq.slice(0, MAX_KEYWORDS);
+}
+
+// ---------- scoring helpers ----------
+
+type Scored<TRow> = { row: TRow; hits: number; firstRank: number };
+
+function collectHits<TRow extends { id: string }>(
+  pages: TRow[][],
+  titleOf: (row: TRow) => string,
+  keywords: string[]
+): Scored<TRow>[] {
+  const byId = new Map<string, Scored<TRow>>();
+
+  pages.forEach((rows, keywordIndex) => {
+    rows.forEach((row, rank) => {
+      const existing = byId.get(row.id);
+      const titleBonus = titleOf(row)
+        .toLowerCase()
+        .includes(keywords[keywordIndex] ?? '')
+        ? 0.5
+        : 0; // title matches are a stronger signal than body matches
+
+      if (existing) {
+        existing.hits += 1 + titleBonus;
+        existing.firstRank = Math.min(existing.firstRank, rank);
+        return;
+      }
+
+      byId.set(row.id, { row, hits: 1 + titleBonus, firstRank: rank });
+    });
+  });
+
+  return Array.from(byId.values()).sort((a, b) => {
+    if (a.hits !== b.hits) return b.hits - a.hits; // more matched keywords first
+    if (a.firstRank !== b.firstRank) return a.firstRank - b.firstRank; // then earlier service rank
+    return a.row.id.localeCompare(b.row.id); // deterministic tie-break
+  });
+}
+
+function toControlSource(scored: Scored<DbControlRow>): Omit<AiSource, 'ref'> {
+  return {
+    kind: 'CONTROL',
+    id: scored.row.id,
+    controlKey: scored.row.control_key,
+    faqKey: null,
+    title: scored.row.title,
+    body: scored.row.description,
+    category: scored.row.category,
+    sourceUrl: scored.row.source_url,
+    score: scored.hits
+  };
+}
+
+function toFaqSource(scored: Scored<DbFaqRow>): Omit<AiSource, 'ref'> {
+  return {
+    kind: 'FAQ',
+    id: scored.row.id,
+    controlKey: null,
+    faqKey: scored.row.faq_key,
+    title: scored.row.question,
+    body: scored.row.answer,
+    category: scored.row.category,
+    sourceUrl: null,
+    score: scored.hits
+  };
+}
+
+// ---------- public api ----------
+
+export async function searchKnowledgeBase(
+  question: string,
+  ctx: GraphQLContext,
+  opts: { maxSources: number }
+): Promise<AiSource[]> {
+  const keywords = extractKeywords(question);
+  if (keywords.length === 0) return []; // nothing searchable  -->  pipeline answers with NO_ANSWER_TEXT
+
+  const perKeyword = Math.max(opts.maxSources, 1); // each keyword only needs enough rows to fill the final source list
+
+  const [controlPages, faqPages] = await Promise.all([
+    Promise.all(
+      keywords.map(search =>
+        getControlsPage({ first: perKeyword, search }, ctx).then(p => p.rows)
+      )
+    ),
+    Promise.all(
+      keywords.map(search =>
+        getFaqsPage({ first: perKeyword, search }, ctx).then(p => p.rows)
+      )
+    )
+  ]); // service reads keep cache keys, memo identity, and seed fallback behavior intact
+
+  const controls = collectHits(controlPages, row => row.title, keywords).map(
+    toControlSource
+  );
+  const faqs = collectHits(faqPages, row => row.question, keywords).map(
+    toFaqSource
+  );
+
+  const merged = [...controls, ...faqs].sort((a, b) => b.score - a.score); // stable sort keeps controls ahead of faqs on equal score
+
+  return merged.slice(0, opts.maxSources).map((source, index) => ({
+    ...source,
+    ref: `S${index + 1}` // refs are assigned after ranking so S1 is always the best source
+  }));
+}
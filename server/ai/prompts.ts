@@ -3,4 +3,70 @@
 
   - keeps prompts consistent and editable
   - forces citations and "no invention"
+  - formats retrieved sources into one bounded context block
+  - owns the [S1]-style citation syntax shared by providers + validation
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~*/
+
+import type { AiSource } from '../types-backend'; // retrieval source shape
+
+// ---------- citation syntax ----------
+
+export const CITATION_PATTERN = /\[(S\d+)\]/g; // matches [S1], [S12], ... in provider output
+
+export function formatCitation(ref: string): string {
+  return `[${ref}]`; // one helper keeps prompt examples + stub output aligned
+}
+
+// ---------- fixed copy ----------
+
+export const NO_ANSWER_TEXT =
+  'I could not find trust center content that answers this question. Try rephrasing, or browse the controls and FAQs pages.'; // returned when retrieval finds nothing usable
+
+export const SYSTEM_PROMPT = [
+  'You are the CyQu Trust Center assistant.',
+  'Answer ONLY from the numbered sources provided in the user message.',
+  'Never invent controls, certifications, dates, or policies that are not in the sources.',
+  `Cite every claim with the matching source handle, for example ${formatCitation('S1')}.`,
+  'If the sources do not answer the question, say so plainly and do not guess.',
+  'Keep answers short: at most four sentences, plain text, no markdown headings.'
+].join('\n'); // joined once so providers receive a stable string
+
+// ---------- context formatting ----------
+
+function describeSource(source: AiSource): string {
+  const label = source.kind === 'CONTROL' ? 'Control' : 'FAQ'; // human-readable entity label for the model
+  const key = source.controlKey ?? source.faqKey ?? source.id; // natural key helps the model stay specific
+
+  return [
+    `${formatCitation(source.ref)} ${label} (${key}) — ${source.category}`,
+    `Title: ${source.title}`,
+    `Content: ${source.body}`
+  ].join('\n');
+}
+
+export function buildContextBlock(
+  sources: AiSource[],
+  maxChars: number
+): string {
+  const blocks: string[] = []; // accepted source blocks in retrieval order
+  let used = 0; // running character budget
+
+  for (const source of sources) {
+    const block = describeSource(source);
+    if (used + block.length > maxChars && blocks.length > 0) break; // always keep at least one source, then respect the budget
+
+    blocks.push(block.slice(0, maxChars)); // a single oversized source is truncated instead of dropped
+    used += block.length;
+  }
+
+  return blocks.join('\n\n'); // blank line between sources keeps boundaries obvious to the model
+}
+
+export function buildUserPrompt(question: string, context: string): string {
+  return [
+    'Sources:',
+    context === '' ? '(no sources found)' : context,
+    '',
+    `Question: ${question}`
+  ].join('\n');
+}
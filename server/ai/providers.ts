@@ -0,0 +1,199 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  pluggable llm providers
+
+  - every provider implements the AiProvider contract from types-backend
+  - LocalStubProvider is deterministic and offline (default + tests)
+  - OpenAiCompatibleProvider talks to openai / openrouter chat completions
+  - LLM_PROVIDER picks the provider once per process, like CACHE_ADAPTER does for cache
+  - openai gets max_completion_tokens (max_tokens is deprecated there); temperature is left out for gpt-5 / o-series models, which reject it
+  - every remote call is cut off after LLM_TIMEOUT_MS so a stalled provider cannot hang aiAnswer
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~*/
+
+import type {
+  AiGenerateInput,
+  AiGenerateOutput,
+  AiProvider
+} from '../types-backend'; // shared provider contract
+import { formatCitation, NO_ANSWER_TEXT } from './prompts'; // citation syntax + fixed copy
+import { parseNumberEnv } from '../db/index'; // shared numeric env parsing (ENV_ERROR on junk)
+
+// ---------- local stub provider ----------
+
+const STUB_MAX_SENTENCES = 3; // stub answers stay short like the real prompt asks for
+
+function firstSentence(text: string): string {
+  const normalized = text.trim().replace(/\s+/g, ' '); // collapse whitespace before sentence detection
+  const match = normalized.match(/^.*?[.!?](\s|$)/); // shortest prefix ending in sentence punctuation
+  const sentence = (match ? match[0] : normalized).trim();
+  return /[.!?]$/.test(sentence) ? sentence : `${sentence}.`; // always end cleanly so citations read naturally
+}
+
+/**
+ * Deterministic extractive provider.
+ * Quotes the lead sentence of the best sources with citations so the full
+ * pipeline (including validation) runs offline and in tests.
+ */
+export class LocalStubProvider implements AiProvider {
+  name = 'local-stub';
+
+  async generate(input: AiGenerateInput): Promise<AiGenerateOutput> {
+    if (input.sources.length === 0) {
+      return { text: NO_ANSWER_TEXT, model: 'extractive-v1' }; // nothing to quote means nothing to claim
+    }
+
+    const text = input.sources
+      .slice(0, STUB_MAX_SENTENCES)
+      .map(source => {
+        const sentence = firstSentence(source.body || source.title);
+        return `${sentence.slice(0, -1)} ${formatCitation(source.ref)}${sentence.slice(-1)}`; // place the citation before the final punctuation
+      })
+      .join(' ');
+
+    return { text, model: 'extractive-v1' };
+  }
+}
+
+// ---------- openai-compatible provider ----------
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  error?: { message?: string };
+};
+
+type TokenLimitParam = 'max_completion_tokens' | 'max_tokens';
+
+const DEFAULT_LLM_TIMEOUT_MS = 30_000; // generous for a short grounded answer, still bounded
+
+const FIXED_TEMPERATURE_MODEL = /^(openai\/)?(gpt-5|o\d)/i; // reasoning models only accept their default temperature
+
+function supportsTemperature(model: string): boolean {
+  return !FIXED_TEMPERATURE_MODEL.test(model); // openrouter ids carry an "openai/" vendor prefix
+}
+
+export class OpenAiCompatibleProvider implements AiProvider {
+  name: string;
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+  private tokenLimitParam: TokenLimitParam;
+  private timeoutMs: number;
+
+  constructor(opts: {
+    name: string;
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    tokenLimitParam: TokenLimitParam;
+    timeoutMs: number;
+  }) {
+    this.name = opts.name;
+    this.baseUrl = opts.baseUrl.replace(/\/+$/, ''); // tolerate trailing slashes in env values
+    this.apiKey = opts.apiKey;
+    this.model = opts.model;
+    this.tokenLimitParam = opts.tokenLimitParam;
+    this.timeoutMs = opts.timeoutMs;
+  }
+
+  async generate(input: AiGenerateInput): Promise<AiGenerateOutput> {
+    let res: Response;
+
+    try {
+      res = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          authorization: `Bearer ${this.apiKey}`
+        },
+        body: JSON.stringify({
+          model: this.model,
+          [this.tokenLimitParam]: input.maxTokens,
+          ...(supportsTemperature(this.model)
+            ? { temperature: input.temperature }
+            : {}), // gpt-5 answers 400 to any non-default temperature
+          messages: [
+            { role: 'system', content: input.systemPrompt },
+            { role: 'user', content: input.userPrompt }
+          ]
+        }),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (err) {
+      const msg =
+        err instanceof Error && err.name === 'TimeoutError'
+          ? `timed out after ${this.timeoutMs}ms`
+          : err instanceof Error
+            ? err.message
+            : String(err);
+      throw new Error(`AI_PROVIDER_ERROR: ${this.name} request failed: ${msg}`);
+    }
+
+    const json = (await res.json().catch(() => ({}))) as ChatCompletionResponse;
+
+    if (!res.ok) {
+      throw new Error(
+        `AI_PROVIDER_ERROR: ${this.name} http ${res.status} ${json.error?.message ?? ''}`.trim()
+      ); // keep upstream error text visible without leaking the api key
+    }
+
+    const text = json.choices?.[0]?.message?.content ?? '';
+    return { text, model: this.model };
+  }
+}
+
+// ---------- env factory ----------
+
+function requireProviderEnv(key: string): string {
+  const value = String(process.env[key] ?? '').trim();
+  if (!value) throw new Error(`ENV_ERROR: missing ${key}`);
+  return value;
+}
+
+/**
+ * Builds the provider selected by LLM_PROVIDER.
+ * Unset or "stub" keeps the assistant fully offline.
+ */
+export function createAiProviderFromEnv(): AiProvider {
+  const provider = String(process.env.LLM_PROVIDER ?? 'stub')
+    .trim()
+    .toLowerCase();
+
+  const timeoutMs = parseNumberEnv('LLM_TIMEOUT_MS', DEFAULT_LLM_TIMEOUT_MS);
+
+  if (provider === 'openai') {
+    return new OpenAiCompatibleProvider({
+      name: 'openai',
+      baseUrl: process.env.OPENAI_BASE_URL ?? 'https://api.openai.com/v1',
+      apiKey: requireProviderEnv('OPENAI_API_KEY'),
+      model: process.env.OPENAI_MODEL ?? 'gpt-5-nano',
+      tokenLimitParam: 'max_completion_tokens',
+      timeoutMs
+    });
+  }
+
+  if (provider === 'openrouter') {
+    return new OpenAiCompatibleProvider({
+      name: 'openrouter',
+      baseUrl:
+        process.env.OPENROUTER_BASE_URL ?? 'https://openrouter.ai/api/v1',
+      apiKey: requireProviderEnv('OPENROUTER_API_KEY'),
+      model:
+        process.env.OPENROUTER_MODEL ??
+        'meta-llama/llama-3.3-70b-instruct:free',
+      tokenLimitParam: 'max_tokens', // openrouter's documented name, mapped for every upstream
+      timeoutMs
+    });
+  }
+
+  return new LocalStubProvider(); // default keeps local dev + ci deterministic
+}
+
+let cachedProvider: AiProvider | null = null; // one provider per process, created lazily so env can load first
+
+export function getAiProvider(): AiProvider {
+  if (!cachedProvider) cachedProvider = createAiProviderFromEnv();
+  return cachedProvider;
+}
+
+export function setAiProviderForTests(provider: AiProvider | null): void {
+  cachedProvider = provider; // tests can inject a fake provider or reset to env selection
+}
@@ -0,0 +1,95 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  api key format, hashing, and request-time resolution
+
+  - keys look like tc_<random>; only their sha-256 hash is stored (migration 013)
+  - scopes: read:public (published reads), read:nda (nda evidence downloads), admin (the admin role)
+  - resolving a key bumps last_used_at + usage_count in the same statement that looks it up
+  - revoked or unknown keys resolve to null; the caller decides how to fail the request
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { createHash, randomBytes } from 'node:crypto'; // key generation + one-way storage hash
+import type { DbQueryAdapter } from '../graphql/context'; // pool adapter or transaction client
+
+// ---------- shapes ----------
+
+export type ApiKeyScope = 'read:public' | 'read:nda' | 'admin';
+
+export type ApiKeyIdentity = {
+  id: string; // api_keys row id
+  name: string; // who the key was issued to
+  prefix: string; // displayable start of the key
+  scopes: ApiKeyScope[];
+};
+
+type DbApiKeyIdentityRow = {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+};
+
+// ---------- config ----------
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = [
+  'read:public',
+  'read:nda',
+  'admin'
+]; // matches the api_keys scopes check constraint
+
+const API_KEY_PREFIX = 'tc_'; // makes leaked keys easy to spot in logs + secret scanners
+const API_KEY_BYTES = 32; // 256 bits of entropy, so a fast hash is enough for storage
+const DISPLAY_PREFIX_LENGTH = 11; // tc_ + 8 random characters
+
+// ---------- helpers ----------
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): {
+  key: string;
+  prefix: string;
+  hash: string;
+} {
+  const key = `${API_KEY_PREFIX}${randomBytes(API_KEY_BYTES).toString('base64url')}`;
+  return {
+    key, // plaintext  -->  returned to the admin once, never stored
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(key)
+  };
+}
+
+// ---------- public api ----------
+
+export async function resolveApiKey(
+  key: string,
+  db: DbQueryAdapter
+): Promise<ApiKeyIdentity | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null; // not one of ours  -->  skip the db round trip
+
+  const res = await db.query(
+    `
+      update public.api_keys
+      set last_used_at = now(),
+          usage_count = usage_count + 1
+      where key_hash = $1
+        and revoked_at is null
+      returning id, name, key_prefix, scopes
+    `,
+    [hashApiKey(key)]
+  ); // lookup + usage counters in one round trip
+
+  const row = res.rows?.[0] as DbApiKeyIdentityRow | undefined;
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.key_prefix,
+    scopes: row.scopes.filter(isApiKeyScope)
+  };
+}
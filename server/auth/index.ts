@@ -1,30 +1,105 @@
 /* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
-  TL;DR  -->  admin auth extraction helpers
+  TL;DR  -->  request auth extraction helpers
 
-  - derives demo-grade admin state from request headers
+  - Authorization: Bearer <jwt> is verified against AUTH_JWKS_FILE / AUTH_JWKS_URL (issuer, audience, expiry)
+  - verified claims map to userEmail + rbac roles (AUTH_EMAIL_CLAIM / AUTH_ROLES_CLAIM)
+  - a bad or expired bearer token fails the request as UNAUTHENTICATED (401) instead of silently going anonymous
+  - x-api-key resolves a stored machine-client key (./apiKeys); the key's identity + scopes ride on AuthState.apiKey
+  - role-less bearer identities look up an active nda grant (./ndaGrants); its expiry rides on AuthState.ndaAccessExpiresAt
   - keeps auth logic out of resolvers/services
-  - compares x-admin-token against ADMIN_SECRET from env
+  - x-admin-token dev mode (ADMIN_SECRET / REVIEWER_SECRET / EDITOR_SECRET) only runs when AUTH_DEV_TOKENS=true
   - returns the same auth shape the graphql context already expects
-  - intentionally stays tiny and deterministic until real auth lands
+  - re-exports the role -> permission helpers from ./permissions
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
+import { createGraphQLError } from 'graphql-yoga'; // yoga's own GraphQLError, so 401s are not masked
+import { isRole, type Role } from './permissions'; // role names handed out by tokens + demo secrets
+import { verifyJwt, type JwtClaims, type JwtKeyResolver } from './jwt'; // signature + claim checks
+import { createJwksResolver, type JwksSource } from './jwks'; // public keys from a file or url
+import { resolveApiKey, type ApiKeyIdentity } from './apiKeys'; // hashed key lookup + usage counters
+import { resolveNdaGrant } from './ndaGrants'; // approved, unexpired access requests
+import { query } from '../db'; // default key lookup when the caller has no request db adapter
+import type { DbQueryAdapter } from '../graphql/context'; // pool adapter shape
+
 // ---------- auth contract ----------
 
 export type AuthState = {
-  userEmail: string | null; // null for anonymous/non-admin requests
-  roles: string[]; // empty for anonymous requests; ['admin'] for demo admin requests
-  isAdmin: boolean; // drives admin-only mutation access
+  userEmail: string | null; // null for anonymous requests
+  roles: string[]; // empty for anonymous requests; known rbac roles from the token claims or demo secret
+  isAdmin: boolean; // true when roles include admin (kept for callers that only need the admin split)
+  apiKey?: ApiKeyIdentity; // set only when the request authenticated with an api key
+  ndaAccessExpiresAt?: string; // set only when a role-less signed-in viewer holds an active nda grant
 };
 
 // ---------- constants ----------
 
-const ADMIN_TOKEN_HEADER = 'x-admin-token'; // demo-only header used by GraphiQL and local verification
+const ADMIN_TOKEN_HEADER = 'x-admin-token'; // dev-mode header used by GraphiQL and local verification
+const API_KEY_HEADER = 'x-api-key'; // machine clients (partner portals) send their issued key here
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
+
+const DEFAULT_EMAIL_CLAIM = 'email';
+const DEFAULT_ROLES_CLAIM = 'roles';
+
+const ROLE_SECRET_ENV: ReadonlyArray<[Role, string]> = [
+  ['admin', 'ADMIN_SECRET'],
+  ['reviewer', 'REVIEWER_SECRET'],
+  ['editor', 'EDITOR_SECRET']
+]; // checked highest role first, so a secret reused across envs resolves to the broader role
 
 // ---------- helpers ----------
 
-function getAdminSecret(): string | null {
-  const raw = String(process.env.ADMIN_SECRET ?? '').trim(); // read once from env and normalize accidental whitespace
-  return raw === '' ? null : raw; // empty/missing env should never authorize admin access
+function getSecret(envName: string): string | null {
+  const raw = String(process.env[envName] ?? '').trim(); // read from env and normalize accidental whitespace
+  return raw === '' ? null : raw; // empty/missing env should never authorize access
+}
+
+function isEnabled(envName: string): boolean {
+  const raw = String(process.env[envName] ?? '').toLowerCase(); // env flags arrive as strings
+  return raw === 'true' || raw === '1' || raw === 'yes' || raw === 'on';
+}
+
+function getJwksSource(): JwksSource | null {
+  const file = getSecret('AUTH_JWKS_FILE');
+  if (file) return { kind: 'file', path: file };
+  const url = getSecret('AUTH_JWKS_URL');
+  return url ? { kind: 'url', url } : null;
+}
+
+let jwksResolver: { source: string; resolve: JwtKeyResolver } | null = null; // one cached key set per process
+
+function getJwksResolver(source: JwksSource): JwtKeyResolver {
+  const sourceKey = JSON.stringify(source);
+  if (jwksResolver?.source !== sourceKey) {
+    jwksResolver = { source: sourceKey, resolve: createJwksResolver(source) }; // env changes (tests) get a fresh cache
+  }
+  return jwksResolver.resolve;
+}
+
+function readClaim(claims: JwtClaims, claimPath: string): unknown {
+  return claimPath
+    .split('.')
+    .reduce<unknown>(
+      (value, segment) =>
+        value && typeof value === 'object'
+          ? (value as Record<string, unknown>)[segment]
+          : undefined,
+      claims
+    ); // dotted paths reach nested claims (realm_access.roles)
+}
+
+function toUnauthenticated(error: unknown): unknown {
+  if (
+    !(error instanceof Error) ||
+    !error.message.startsWith('UNAUTHENTICATED:')
+  ) {
+    return error; // config / network failures stay server errors
+  }
+  return createGraphQLError(error.message, {
+    extensions: {
+      code: 'UNAUTHENTICATED',
+      http: { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    }
+  });
 }
 
 function getHeaderValue(request: Request, headerName: string): string | null {
@@ -43,23 +118,169 @@ function buildAnonymousAuth(): AuthState {
   };
 }
 
-// ---------- public api ----------
+export function buildRoleAuth(
+  userEmail: string | null,
+  roles: string[]
+): AuthState {
+  return {
+    userEmail,
+    roles,
+    isAdmin: roles.includes('admin') // derived, never set independently of the role list
+  };
+}
 
-export function extractAuth(request: Request): AuthState {
-  const adminSecret = getAdminSecret(); // demo secret must come from env, never source code
-  const providedToken = getHeaderValue(request, ADMIN_TOKEN_HEADER); // read the request header once
+export function mapClaimsToAuth(claims: JwtClaims): AuthState {
+  const email = readClaim(
+    claims,
+    getSecret('AUTH_EMAIL_CLAIM') ?? DEFAULT_EMAIL_CLAIM
+  );
+  const rawRoles = readClaim(
+    claims,
+    getSecret('AUTH_ROLES_CLAIM') ?? DEFAULT_ROLES_CLAIM
+  );
 
-  if (!adminSecret || !providedToken) {
-    return buildAnonymousAuth(); // missing env or missing header should never elevate privileges
-  }
+  const roleList = Array.isArray(rawRoles)
+    ? rawRoles.filter((role): role is string => typeof role === 'string')
+    : typeof rawRoles === 'string'
+      ? rawRoles.split(/[\s,]+/) // "scope"-style space or comma separated claims
+      : [];
+  const roles = [
+    ...new Set(roleList.map(role => role.trim().toLowerCase()))
+  ].filter(isRole); // unknown issuer roles grant nothing here
+
+  const userEmail =
+    typeof email === 'string' && email.trim() !== ''
+      ? email.trim()
+      : typeof claims.sub === 'string'
+        ? claims.sub
+        : null; // audit actor falls back to the subject when the token has no email
+
+  return buildRoleAuth(userEmail, roles);
+}
 
-  if (providedToken !== adminSecret) {
-    return buildAnonymousAuth(); // mismatched token should stay non-admin without leaking secret details
+async function extractBearerAuth(token: string): Promise<AuthState> {
+  const source = getJwksSource();
+  if (!source) {
+    throw new Error(
+      'UNAUTHENTICATED: bearer tokens are not accepted (no AUTH_JWKS_FILE or AUTH_JWKS_URL)'
+    );
   }
 
+  const claims = await verifyJwt(token, getJwksResolver(source), {
+    issuer: getSecret('AUTH_ISSUER'),
+    audience: getSecret('AUTH_AUDIENCE')
+  });
+  return mapClaimsToAuth(claims);
+}
+
+async function extractApiKeyAuth(
+  key: string,
+  db: DbQueryAdapter
+): Promise<AuthState> {
+  const identity = await resolveApiKey(key, db);
+  if (!identity) throw new Error('UNAUTHENTICATED: api key is not valid'); // unknown + revoked keys look the same
+
   return {
-    userEmail: 'admin@local', // demo-only identity keeps debug output readable in local verification
-    roles: ['admin'], // minimal role list keeps future RBAC extension straightforward
-    isAdmin: true // matched token yields admin capability
-  };
+    ...buildRoleAuth(
+      `api-key:${identity.prefix}`, // audit actor for admin-scoped key writes
+      identity.scopes.includes('admin') ? ['admin'] : []
+    ),
+    apiKey: identity
+  }; // read scopes carry no role; hasNdaAccess reads the scopes directly
+}
+
+async function withNdaGrant(
+  auth: AuthState,
+  db: DbQueryAdapter
+): Promise<AuthState> {
+  if (auth.roles.length > 0 || auth.apiKey || !auth.userEmail) return auth; // already cleared, or nobody to match a grant to
+
+  try {
+    const expiresAt = await resolveNdaGrant(auth.userEmail, db);
+    return expiresAt ? { ...auth, ndaAccessExpiresAt: expiresAt } : auth;
+  } catch (error) {
+    console.warn(
+      `[auth] nda grant lookup failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return auth; // fail closed: a db outage hides nda content instead of failing public reads
+  }
+}
+
+function extractDevTokenAuth(providedToken: string): AuthState {
+  for (const [role, envName] of ROLE_SECRET_ENV) {
+    const secret = getSecret(envName); // demo secrets must come from env, never source code
+    if (secret && providedToken === secret) {
+      return buildRoleAuth(`${role}@local`, [role]); // demo-only identity keeps debug output readable in local verification
+    }
+  }
+
+  return buildAnonymousAuth(); // mismatched token should stay anonymous without leaking secret details
 }
+
+// ---------- public api ----------
+
+export async function extractAuth(
+  request: Request,
+  db: DbQueryAdapter = { query }
+): Promise<AuthState> {
+  const authorization = getHeaderValue(request, 'authorization');
+  const apiKey = getHeaderValue(request, API_KEY_HEADER);
+
+  if (apiKey) {
+    try {
+      if (authorization) {
+        throw new Error(
+          'UNAUTHENTICATED: send either a bearer token or an api key, not both'
+        );
+      }
+      return await extractApiKeyAuth(apiKey, db);
+    } catch (error) {
+      throw toUnauthenticated(error);
+    }
+  }
+
+  if (authorization) {
+    const bearer = BEARER_PATTERN.exec(authorization)?.[1];
+    try {
+      if (!bearer) {
+        throw new Error(
+          'UNAUTHENTICATED: authorization must be a bearer token'
+        );
+      }
+      return await withNdaGrant(await extractBearerAuth(bearer), db);
+    } catch (error) {
+      throw toUnauthenticated(error);
+    }
+  } // a presented credential either verifies or fails the request, never downgrades to anonymous
+
+  if (!isEnabled('AUTH_DEV_TOKENS')) return buildAnonymousAuth(); // shared-secret header is opt-in dev mode
+
+  const providedToken = getHeaderValue(request, ADMIN_TOKEN_HEADER); // read the request header once
+  if (!providedToken) return buildAnonymousAuth(); // missing header should never elevate privileges
+  return extractDevTokenAuth(providedToken);
+}
+
+export {
+  API_KEY_SCOPES,
+  generateApiKey,
+  hashApiKey,
+  isApiKeyScope,
+  type ApiKeyIdentity,
+  type ApiKeyScope
+} from './apiKeys';
+
+export {
+  ROLES,
+  FORBIDDEN_CODE,
+  assertCanChangePublished,
+  assertPermission,
+  assertSignedIn,
+  canChangePublished,
+  getAuthScopeForReadCache,
+  getPermissions,
+  hasNdaAccess,
+  hasPermission,
+  isRole,
+  type Permission,
+  type Role
+} from './permissions';
@@ -0,0 +1,140 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  jwks key resolver (file or url)
+
+  - loads a JSON Web Key Set from AUTH_JWKS_FILE or AUTH_JWKS_URL and turns each key into a KeyObject
+  - keeps the parsed set in memory; refreshes after JWKS_TTL_MS or when a token names an unknown kid
+  - unknown-kid refreshes are throttled so a flood of bad tokens cannot hammer the issuer
+  - private key material is never accepted (a jwks only ever needs public keys)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { createPublicKey, type JsonWebKey, type KeyObject } from 'node:crypto'; // jwk -> KeyObject
+import fsp from 'node:fs/promises'; // file-based jwks
+import type { JwtHeader, JwtKeyResolver } from './jwt'; // resolver contract used by verifyJwt
+
+// ---------- shapes ----------
+
+export type JwksSource =
+  | { kind: 'file'; path: string }
+  | { kind: 'url'; url: string };
+
+type JwksKey = {
+  kid: string | null;
+  alg: string | null; // optional jwk alg pin
+  key: KeyObject;
+};
+
+type JwksResolverOptions = {
+  fetch?: typeof fetch; // injectable for tests
+  now?: () => number; // ms clock, injectable for tests
+};
+
+// ---------- config ----------
+
+const JWKS_TTL_MS = 10 * 60 * 1000; // issuers rotate slowly; unknown kids refresh early anyway
+const JWKS_MIN_REFRESH_MS = 30 * 1000; // at most one unknown-kid refresh per 30s
+const JWKS_FETCH_TIMEOUT_MS = 5000; // a slow issuer must not hang every request
+
+// ---------- helpers ----------
+
+function parseJwks(raw: string): JwksKey[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('AUTH_CONFIG_ERROR: jwks is not valid json');
+  }
+
+  const keys = (parsed as { keys?: unknown } | null)?.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error('AUTH_CONFIG_ERROR: jwks has no keys array');
+  }
+
+  return keys.flatMap(entry => {
+    const jwk = entry as JsonWebKey & {
+      kid?: unknown;
+      alg?: unknown;
+      use?: unknown;
+    };
+    if (jwk.use !== undefined && jwk.use !== 'sig') return []; // encryption keys never verify tokens
+    if (jwk.d !== undefined) {
+      throw new Error('AUTH_CONFIG_ERROR: jwks must not contain private keys');
+    }
+
+    return [
+      {
+        kid: typeof jwk.kid === 'string' ? jwk.kid : null,
+        alg: typeof jwk.alg === 'string' ? jwk.alg : null,
+        key: createPublicKey({ key: jwk, format: 'jwk' })
+      }
+    ];
+  });
+}
+
+async function readJwks(
+  source: JwksSource,
+  fetchImpl: typeof fetch
+): Promise<JwksKey[]> {
+  if (source.kind === 'file') {
+    return parseJwks(await fsp.readFile(source.path, 'utf8'));
+  }
+
+  const res = await fetchImpl(source.url, {
+    headers: { accept: 'application/json' },
+    signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS)
+  });
+  if (!res.ok) {
+    throw new Error(
+      `AUTH_CONFIG_ERROR: jwks fetch failed with http ${res.status}`
+    );
+  }
+  return parseJwks(await res.text());
+}
+
+function findKey(keys: JwksKey[], header: JwtHeader): JwksKey | null {
+  const candidates = header.kid
+    ? keys.filter(entry => entry.kid === header.kid)
+    : keys.length === 1
+      ? keys // a single-key set may omit kid on tokens
+      : [];
+  return (
+    candidates.find(entry => entry.alg === null || entry.alg === header.alg) ??
+    null
+  );
+}
+
+// ---------- public api ----------
+
+export function createJwksResolver(
+  source: JwksSource,
+  opts: JwksResolverOptions = {}
+): JwtKeyResolver {
+  const fetchImpl = opts.fetch ?? fetch;
+  const now = opts.now ?? Date.now;
+
+  let keys: JwksKey[] | null = null;
+  let loadedAt = 0;
+  let inFlight: Promise<JwksKey[]> | null = null; // concurrent requests share one load
+
+  const load = (): Promise<JwksKey[]> => {
+    inFlight ??= readJwks(source, fetchImpl)
+      .then(next => {
+        keys = next;
+        loadedAt = now();
+        return next;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+    return inFlight;
+  };
+
+  return async header => {
+    if (!keys || now() - loadedAt > JWKS_TTL_MS) await load();
+
+    const match = findKey(keys ?? [], header);
+    if (match) return match.key;
+
+    if (now() - loadedAt < JWKS_MIN_REFRESH_MS) return null; // just refreshed  -->  the kid really is unknown
+    return findKey(await load(), header)?.key ?? null; // key rotation: refresh once, then give up
+  };
+}
@@ -0,0 +1,160 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  signed jwt verification (node:crypto, no extra dependency)
+
+  - parses compact JWS tokens and verifies the signature with a key the caller resolves (jwks.ts)
+  - asymmetric algorithms only (RS*, PS*, ES*, EdDSA)  -->  "none" and shared-secret HS* are always rejected
+  - checks exp / nbf with a small clock tolerance, then issuer + audience when configured
+  - every failure throws UNAUTHENTICATED: with a short reason (never the token itself)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { constants, verify, type KeyObject } from 'node:crypto'; // signature check against the resolved public key
+
+// ---------- shapes ----------
+
+export type JwtHeader = {
+  alg: string;
+  kid?: string;
+  typ?: string;
+};
+
+export type JwtClaims = Record<string, unknown> & {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+};
+
+export type JwtKeyResolver = (header: JwtHeader) => Promise<KeyObject | null>; // null  -->  no key for this kid
+
+export type JwtVerifyOptions = {
+  issuer: string | null; // null skips the iss check
+  audience: string | null; // null skips the aud check
+  clockToleranceSeconds?: number;
+  now?: number; // unix seconds (tests pin the clock)
+};
+
+// ---------- config ----------
+
+type AlgorithmSpec = {
+  hash: string | null; // null for EdDSA (the key type implies the hash)
+  keyType: 'rsa' | 'ec' | 'ed25519'; // ed25519 also admits ed448 keys (both are EdDSA)
+  pssSaltLength?: number; // PS* only: salt length equals the digest length (RFC 7518)
+};
+
+const ALGORITHMS: Record<string, AlgorithmSpec> = {
+  RS256: { hash: 'sha256', keyType: 'rsa' },
+  RS384: { hash: 'sha384', keyType: 'rsa' },
+  RS512: { hash: 'sha512', keyType: 'rsa' },
+  PS256: { hash: 'sha256', keyType: 'rsa', pssSaltLength: 32 },
+  PS384: { hash: 'sha384', keyType: 'rsa', pssSaltLength: 48 },
+  PS512: { hash: 'sha512', keyType: 'rsa', pssSaltLength: 64 },
+  ES256: { hash: 'sha256', keyType: 'ec' },
+  ES384: { hash: 'sha384', keyType: 'ec' },
+  ES512: { hash: 'sha512', keyType: 'ec' },
+  EdDSA: { hash: null, keyType: 'ed25519' }
+}; // asymmetric only: a public jwks must never be able to mint tokens
+
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 30; // small skew between the issuer and this server
+
+// ---------- helpers ----------
+
+function fail(reason: string): never {
+  throw new Error(`UNAUTHENTICATED: ${reason}`);
+}
+
+function decodeSegment<T>(segment: string, label: string): T {
+  try {
+    const value: unknown = JSON.parse(
+      Buffer.from(segment, 'base64url').toString('utf8')
+    );
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value as T;
+    }
+  } catch {
+    // fall through to the shared failure below
+  }
+  return fail(`token ${label} is not valid json`);
+}
+
+function isKeyCompatible(key: KeyObject, spec: AlgorithmSpec): boolean {
+  const type = key.asymmetricKeyType;
+  if (spec.keyType === 'ed25519') return type === 'ed25519' || type === 'ed448';
+  if (spec.keyType === 'rsa') return type === 'rsa' || type === 'rsa-pss';
+  return type === spec.keyType;
+}
+
+function hasAudience(claim: JwtClaims['aud'], audience: string): boolean {
+  return Array.isArray(claim) ? claim.includes(audience) : claim === audience;
+}
+
+// ---------- public api ----------
+
+export function decodeJwtHeader(token: string): JwtHeader {
+  const [headerSegment] = token.split('.');
+  const header = decodeSegment<Partial<JwtHeader>>(
+    headerSegment ?? '',
+    'header'
+  );
+  if (typeof header.alg !== 'string') fail('token header has no alg');
+  return header as JwtHeader;
+}
+
+export async function verifyJwt(
+  token: string,
+  resolveKey: JwtKeyResolver,
+  opts: JwtVerifyOptions
+): Promise<JwtClaims> {
+  const parts = token.split('.');
+  if (parts.length !== 3) fail('token is not a signed jwt');
+  const [headerSegment = '', payloadSegment = '', signatureSegment = ''] =
+    parts;
+
+  const header = decodeJwtHeader(token);
+  const spec = ALGORITHMS[header.alg];
+  if (!spec) fail(`token algorithm ${header.alg} is not accepted`);
+
+  const key = await resolveKey(header);
+  if (!key) fail('token signing key is unknown');
+  if (!isKeyCompatible(key, spec))
+    fail('token algorithm does not match its key');
+
+  const signed = Buffer.from(`${headerSegment}.${payloadSegment}`);
+  const signature = Buffer.from(signatureSegment, 'base64url');
+  const valid = verify(
+    spec.hash,
+    signed,
+    {
+      key,
+      ...(spec.keyType === 'ec' ? { dsaEncoding: 'ieee-p1363' as const } : {}), // jws carries raw r || s
+      ...(spec.pssSaltLength !== undefined
+        ? {
+            padding: constants.RSA_PKCS1_PSS_PADDING,
+            saltLength: spec.pssSaltLength
+          }
+        : {})
+    },
+    signature
+  );
+  if (!valid) fail('token signature is invalid');
+
+  const claims = decodeSegment<JwtClaims>(payloadSegment, 'payload');
+  const now = opts.now ?? Math.floor(Date.now() / 1000);
+  const tolerance =
+    opts.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+
+  if (typeof claims.exp !== 'number') fail('token has no exp claim'); // unbounded tokens are never accepted
+  if (claims.exp + tolerance < now) fail('token has expired');
+  if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+    fail('token is not valid yet');
+  }
+  if (opts.issuer !== null && claims.iss !== opts.issuer) {
+    fail('token issuer is not trusted');
+  }
+  if (opts.audience !== null && !hasAudience(claims.aud, opts.audience)) {
+    fail('token audience does not match');
+  }
+
+  return claims;
+}
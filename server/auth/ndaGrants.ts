@@ -0,0 +1,43 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  request-time nda grant lookup
+
+  - a grant is an approved nda_access_requests row whose expires_at is still ahead (migration 014)
+  - grants match the verified request email case-insensitively
+  - only role-less signed-in requests look one up; roles + read:nda api keys are already cleared
+  - returns the latest expiry so the viewer can see when access ends
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { DbQueryAdapter } from '../graphql/context'; // pool adapter or transaction client
+
+// ---------- shapes ----------
+
+type DbNdaGrantRow = {
+  expires_at: string | Date;
+};
+
+// ---------- public api ----------
+
+export async function resolveNdaGrant(
+  userEmail: string,
+  db: DbQueryAdapter
+): Promise<string | null> {
+  const res = await db.query(
+    `
+      select expires_at
+      from public.nda_access_requests
+      where lower(requester_email) = lower($1)
+        and status = 'approved'
+        and expires_at > now()
+      order by expires_at desc
+      limit 1
+    `,
+    [userEmail]
+  ); // nda_access_requests_grant_idx
+
+  const row = res.rows?.[0] as DbNdaGrantRow | undefined;
+  if (!row) return null;
+
+  return row.expires_at instanceof Date
+    ? row.expires_at.toISOString()
+    : row.expires_at; // pg hands back Date objects unless a custom parser is set
+}
@@ -0,0 +1,146 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  role -> permission model (rbac)
+
+  - roles are what auth sources hand out; permissions are what resolvers check
+  - editor writes content, reviewer also publishes + reads history, admin can do everything
+  - assertPermission is the one resolver-boundary gate; it throws a GraphQLError with extensions.code
+  - published rows are live content: changing one in place (update, revert, delete, restore, import, taxonomy cascade, evidence and framework mapping writes) also needs content:publish
+  - assertSignedIn gates self-service writes (nda access requests) on a verified person, not an api key
+  - the read cache scope comes from the role set, so every role combination gets its own cache keys
+  - non-production keeps the anonymous local-dev bypass; requests that carry roles or an api key are always enforced
+  - nda clearance: any role, a read:nda / admin api key, or an active access grant; cleared role-less viewers read under the "nda" cache scope
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { createGraphQLError } from 'graphql-yoga'; // yoga's own GraphQLError instance, so the error is not masked
+import type { AuthState } from './index'; // request-derived roles
+
+// ---------- roles + permissions ----------
+
+export type Role = 'editor' | 'reviewer' | 'admin';
+
+export type Permission =
+  | 'content:write' // create / update / delete / restore / revert, taxonomy, imports, frameworks, evidence, draft reads
+  | 'content:publish' // publish + archive workflow transitions, and any change to a published row
+  | 'cache:invalidate' // manual read-cache invalidation hooks
+  | 'audit:read' // audit log + revision history
+  | 'apikeys:manage' // issue / list / revoke machine-client api keys
+  | 'access:manage'; // review nda access requests (approve / deny / revoke grants)
+
+export const ROLES: readonly Role[] = ['editor', 'reviewer', 'admin']; // lowest to highest
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  editor: ['content:write'],
+  reviewer: ['content:write', 'content:publish', 'audit:read'],
+  admin: [
+    'content:write',
+    'content:publish',
+    'cache:invalidate',
+    'audit:read',
+    'apikeys:manage',
+    'access:manage'
+  ]
+};
+
+export const FORBIDDEN_CODE = 'FORBIDDEN'; // extensions.code clients can branch on
+
+// ---------- helpers ----------
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+export function getPermissions(auth: Pick<AuthState, 'roles'>): Permission[] {
+  const granted = new Set<Permission>();
+  for (const role of auth.roles) {
+    if (!isRole(role)) continue; // unknown roles grant nothing
+    for (const permission of ROLE_PERMISSIONS[role]) granted.add(permission);
+  }
+  return [...granted].sort();
+}
+
+export function hasPermission(
+  auth: Pick<AuthState, 'roles'>,
+  permission: Permission
+): boolean {
+  return getPermissions(auth).includes(permission);
+}
+
+function isLocalDevBypass(auth: Pick<AuthState, 'roles' | 'apiKey'>): boolean {
+  return (
+    process.env.NODE_ENV !== 'production' &&
+    auth.roles.length === 0 &&
+    !auth.apiKey
+  ); // anonymous GraphiQL verification only; a read-only api key is never anonymous
+}
+
+// ---------- public api ----------
+
+export function assertPermission(
+  auth: Pick<AuthState, 'roles' | 'apiKey'>,
+  permission: Permission
+): void {
+  if (hasPermission(auth, permission) || isLocalDevBypass(auth)) return;
+
+  throw createGraphQLError(`FORBIDDEN: ${permission} permission required`, {
+    extensions: {
+      code: FORBIDDEN_CODE,
+      requiredPermission: permission
+    }
+  }); // graphql keeps 200 + errors[]; the FORBIDDEN: prefix lets REST routes map it to 403
+}
+
+export function canChangePublished(
+  auth: Pick<AuthState, 'roles' | 'apiKey'>,
+  status: string | null | undefined
+): boolean {
+  if ((status ?? 'published') !== 'published') return true; // drafts, reviews, and archives stay editor territory
+  return hasPermission(auth, 'content:publish') || isLocalDevBypass(auth); // seed rows omit status and read as published
+}
+
+export function assertCanChangePublished(
+  auth: Pick<AuthState, 'roles' | 'apiKey'>,
+  status: string | null | undefined
+): void {
+  if (canChangePublished(auth, status)) return;
+
+  throw createGraphQLError(
+    'FORBIDDEN: content:publish permission required to change published content',
+    {
+      extensions: {
+        code: FORBIDDEN_CODE,
+        requiredPermission: 'content:publish'
+      }
+    }
+  ); // same gate as archiving: a reviewer takes the row out of published before an editor reworks it
+}
+
+export function assertSignedIn(
+  auth: Pick<AuthState, 'userEmail' | 'apiKey'>,
+  action: string
+): string {
+  if (auth.userEmail && !auth.apiKey) return auth.userEmail; // a verified person, not a machine client
+
+  throw createGraphQLError(`UNAUTHENTICATED: sign in to ${action}`, {
+    extensions: { code: 'UNAUTHENTICATED' }
+  }); // resolver-level, so the response stays 200 + errors[] like FORBIDDEN
+}
+
+export function hasNdaAccess(
+  auth: Pick<AuthState, 'roles' | 'apiKey' | 'ndaAccessExpiresAt'>
+): boolean {
+  if (auth.roles.some(isRole)) return true; // staff already see drafts; nda content is no stricter
+  if (
+    auth.apiKey?.scopes.some(scope => scope === 'read:nda' || scope === 'admin')
+  ) {
+    return true;
+  }
+  return auth.ndaAccessExpiresAt !== undefined; // only set while an approved grant is unexpired
+}
+
+export function getAuthScopeForReadCache(
+  auth: Pick<AuthState, 'roles' | 'apiKey' | 'ndaAccessExpiresAt'>
+): string {
+  const roles = ROLES.filter(role => auth.roles.includes(role)); // known roles only, in a fixed order
+  if (roles.length > 0) return roles.join('+'); // "admin", "editor+reviewer", ...
+  return hasNdaAccess(auth) ? 'nda' : 'public'; // role-less reads split on nda clearance only
+}
@@ -0,0 +1,25 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  blob store interface (the contract)
+
+  - defines what every blob adapter must be able to do (put / open / delete bytes by key)
+  - does NOT contain any logic — just method signatures
+  - lets us swap the local filesystem adapter for object storage without touching the services
+  - keys are opaque, service-generated strings (evidence/<uuid>), never user input
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { Readable } from 'node:stream'; // downloads stream bytes instead of buffering them
+
+export type BlobPutOptions = {
+  contentType: string; // stored alongside the bytes where the adapter supports metadata
+};
+
+export interface BlobStore {
+  // write bytes under a key — overwrites any existing blob with the same key
+  put(key: string, body: Buffer, opts: BlobPutOptions): Promise<void>;
+
+  // open a blob for streaming — resolves to null if the key does not exist
+  open(key: string): Promise<Readable | null>;
+
+  // remove a blob — missing keys are not an error (deletes must be safe to retry)
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,27 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  blob store entry point + singleton
+
+  - BLOB_ADAPTER picks the implementation ("local" is the only one today)
+  - BLOB_DIR sets where the local adapter keeps files (default .data/blobs under the cwd)
+  - creates ONE shared blob store for the whole server process (same pattern as server/cache)
+  - re-exports the BlobStore type so consumers only need one import
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { LocalBlobStore } from './local'; // filesystem adapter
+import type { BlobStore } from './blob'; // the interface type (import type = stripped at runtime)
+
+const BLOB_ADAPTER = process.env.BLOB_ADAPTER ?? 'local'; // swap implementations without changing callers
+
+function createBlobStoreFromEnv(): BlobStore {
+  if (BLOB_ADAPTER !== 'local') {
+    throw new Error(`ENV_ERROR: unknown BLOB_ADAPTER "${BLOB_ADAPTER}"`); // fail at boot instead of on the first upload
+  }
+
+  const dir = String(process.env.BLOB_DIR ?? '').trim() || '.data/blobs';
+  return new LocalBlobStore(dir);
+}
+
+// created once on first import  -->  every service shares the same adapter
+export const blobStore: BlobStore = createBlobStoreFromEnv();
+
+export type { BlobStore, BlobPutOptions } from './blob';
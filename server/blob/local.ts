@@ -0,0 +1,61 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  local filesystem blob adapter (default)
+
+  - implements the BlobStore interface on a directory (BLOB_DIR, default .data/blobs)
+  - keys map to relative paths; anything that could escape the root is rejected
+  - writes go to a temp file first and are renamed into place, so readers never see half a file
+  - fine for a single server instance; multi-instance deployments need a shared adapter
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import fs from 'node:fs'; // createReadStream for downloads
+import fsp from 'node:fs/promises'; // mkdir / writeFile / rename / rm
+import path from 'node:path'; // key -> path resolution
+import { randomUUID } from 'node:crypto'; // unique temp file names
+import type { Readable } from 'node:stream';
+import type { BlobPutOptions, BlobStore } from './blob'; // must implement this interface to be a valid adapter
+
+const KEY_PATTERN = /^[a-z0-9][a-z0-9/_.-]*$/i; // service-generated keys only (evidence/<uuid>)
+
+export class LocalBlobStore implements BlobStore {
+  private root: string;
+
+  constructor(rootDir: string) {
+    this.root = path.resolve(rootDir); // absolute so cwd changes cannot move the store
+  }
+
+  // every public key goes through here so the traversal check is applied exactly once
+  private toPath(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (
+      !KEY_PATTERN.test(key) ||
+      key.includes('..') ||
+      !resolved.startsWith(`${this.root}${path.sep}`)
+    ) {
+      throw new Error(`BLOB_ERROR: invalid blob key "${key}"`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, body: Buffer, _opts: BlobPutOptions): Promise<void> {
+    const target = this.toPath(key);
+    await fsp.mkdir(path.dirname(target), { recursive: true });
+
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await fsp.writeFile(temp, body);
+    await fsp.rename(temp, target); // atomic on the same filesystem
+  } // content type lives on the evidence row, so the local adapter only stores bytes
+
+  async open(key: string): Promise<Readable | null> {
+    const target = this.toPath(key);
+    try {
+      await fsp.access(target);
+    } catch {
+      return null; // missing blob  -->  caller answers 404
+    }
+    return fs.createReadStream(target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fsp.rm(this.toPath(key), { force: true }); // force: missing files are fine
+  }
+}
@@ -5,22 +5,28 @@
   - does NOT contain any logic — just method signatures
   - any class that says "implements Cache" must have all 4 methods
   - lets us swap LRU ↔ Redis without changing code that uses the cache
+  - methods may return a value OR a promise  -->  in-memory adapters stay sync, network adapters are async
+  - callers always await, so both kinds of adapter share one contract
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
+// T | Promise<T> lets LRU answer synchronously while Redis answers over the network
+// awaiting a plain value is a no-op, so callers can treat every adapter the same way
+export type MaybePromise<T> = T | Promise<T>;
+
 export interface Cache {
-  // look up a value by key — returns null if the key is missing or has expired
-  get(key: string): unknown | null;
+  // look up a value by key — resolves to null if the key is missing or has expired
+  get(key: string): MaybePromise<unknown | null>;
 
   // store a value under a key; ttlSeconds controls how long before it expires
-  set(key: string, value: unknown, ttlSeconds: number): void;
+  set(key: string, value: unknown, ttlSeconds: number): MaybePromise<void>;
 
   // immediately remove a key — used when data changes and the cached version is stale
-  del(key: string): void;
+  del(key: string): MaybePromise<void>;
 
   // remove ALL keys that start with a given prefix — used after a mutation changes an entity
   // optional (?) because not every adapter needs to support it
   // example: invalidatePrefix('controls:') wipes every controls list page from the cache at once
-  invalidatePrefix?(prefix: string): void;
+  invalidatePrefix?(prefix: string): MaybePromise<void>;
 
   // the smart combo: check cache first, only call fn() if there's a miss
   // fn is an async function that fetches the real data (e.g. a DB query)
@@ -2,13 +2,14 @@
   TL;DR  -->  cache entry point + singleton
 
   - reads CACHE_MAX_ITEMS from env to set the memory cap
+  - CACHE_ADAPTER=redis switches to the shared redis adapter (REDIS_URL required)
   - creates ONE shared cache instance for the whole server process
   - re-exports Cache type + key builders so consumers only need one import
   - never create the cache inside a request handler — that would reset it every request
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import { LruCacheAdapter } from './lru'; // the concrete implementation we're using now
-import { RedisAdapter } from './redis'; // the placeholder for production
+import { RedisAdapter } from './redis'; // shared cache for multi-instance deployments
 import type { Cache } from './cache'; // the interface type (import type = stripped at runtime)
 
 // process.env.CACHE_MAX_ITEMS is always a string (env vars are strings)
@@ -27,7 +28,19 @@ const CACHE_ADAPTER = process.env.CACHE_ADAPTER ?? 'lru';
  */
 function createCacheFromEnv(): Cache {
   if (CACHE_ADAPTER === 'redis') {
-    return new RedisAdapter();
+    const url = String(process.env.REDIS_URL ?? '').trim();
+    if (!url) throw new Error('ENV_ERROR: missing REDIS_URL'); // fail at boot instead of on the first request
+
+    const parsedTimeout = parseInt(
+      process.env.REDIS_COMMAND_TIMEOUT_MS ?? '1000',
+      10
+    );
+
+    return new RedisAdapter({
+      url,
+      keyPrefix: process.env.REDIS_KEY_PREFIX ?? 'tc:', // namespace keeps invalidation away from other apps sharing the redis
+      commandTimeoutMs: isNaN(parsedTimeout) ? 1000 : parsedTimeout
+    });
   }
   return new LruCacheAdapter(CACHE_MAX_ITEMS);
 }
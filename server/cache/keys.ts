@@ -7,13 +7,28 @@
   - undefined args are omitted so "no filter" and "filter not passed" are the same key
   - reuses shared pagination/search normalization so equivalent inputs collapse to one canonical key
   - adds overview-search key builders for request-scoped grouped-search memoization
+  - FULLTEXT reads get their own "mode=fulltext" segment; substring keys are unchanged
+  - admin includeDeleted reads get their own "deleted=include" segment; default keys are unchanged
+  - admin status reads (anything but published) get their own "status=" segment; published keys are unchanged
+  - point-in-time reads get their own "asOf=" segment; current reads are unchanged
+  - taxonomy count trees live under the entity's list prefix so write invalidation refreshes them
+  - section / subcategory / tags filters get their own segments (tags sorted, "tagMatch=all" only when it changes results)
+  - the controls framework filter gets its own "framework=" segment
+  - the framework coverage matrix lives under the controls list prefix like the taxonomy tree
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import {
   clampFirst,
+  isFullTextSearch,
   normalizeSearchInput,
-  normalizeText
+  normalizeTagFilter,
+  normalizeTaxonomyFilter,
+  normalizeText,
+  type SearchMode,
+  type TagMatch
 } from '../services/pagination'; // reuse shared input normalization so cache identity matches live search semantics
+import type { ContentStatus } from '../services/validation'; // workflow status values
+import type { ComplianceFramework } from '../services/frameworkService'; // controls framework filter values
 
 // ---------- public types ----------
 
@@ -23,18 +38,29 @@ export type ListArgs = {
   first?: number; // how many items per page
   after?: string; // pagination cursor — points to where the last page ended
   category?: string; // filter by category (e.g. "SOC2", "Privacy")
-  search?: string; // substring search term
+  search?: string; // search term
+  searchMode?: SearchMode; // SUBSTRING (default) or FULLTEXT
+  section?: string; // filter by section (e.g. "Security")
+  subcategory?: string; // filter by subcategory
+  tags?: string[]; // filter by tags
+  tagMatch?: TagMatch; // ANY (default) or ALL requested tags
+  framework?: ComplianceFramework; // controls only: mapped to a requirement of this framework
+  includeDeleted?: boolean; // admin-only: soft-deleted rows included
+  status?: ContentStatus; // admin-only workflow status filter (default published)
+  asOf?: string; // point-in-time read timestamp (iso)
 };
 
 // OverviewSearchKeyArgs mirrors the grouped overview search contract
 export type OverviewSearchKeyArgs = {
   search: string; // normalized overview search term
   firstPerKind?: number; // per-entity visible row cap
+  searchMode?: SearchMode; // SUBSTRING (default) or FULLTEXT
+  asOf?: string; // point-in-time read timestamp (iso)
 };
 
 // options for shared read-cache keys  -->  auth scope is included so future admin/private reads do not collide with public reads
 export type ReadKeyOptions = {
-  authScope?: string; // placeholder auth scope segment (e.g. "public", "admin")
+  authScope?: string; // role-set scope segment (e.g. "public", "admin", "editor+reviewer")
 };
 
 // ---------- public key builders (existing raw/memo-friendly keys) ----------
@@ -60,6 +86,14 @@ export function buildOverviewSearchKey(args: OverviewSearchKeyArgs): string {
     parts.push(`firstPerKind=${normalizedArgs.firstPerKind}`); // per-kind page size changes the grouped result shape
   }
 
+  if (normalizedArgs.searchMode === 'FULLTEXT') {
+    parts.push('mode=fulltext'); // ranked results differ from substring results for the same term
+  }
+
+  if (normalizedArgs.asOf !== undefined) {
+    parts.push(`asOf=${normalizedArgs.asOf}`); // historical results never share a key with current results
+  }
+
   return parts.join(':'); // readable deterministic grouped-search key
 }
 
@@ -81,6 +115,23 @@ export function buildFaqsReadCacheKey(
   return buildReadCacheKey('faqs', args, opts); // normalized key for cross-request shared cache
 }
 
+// public read-cache key builder for the taxonomy tree — "controls:list:taxonomy:role=public" style
+// kept under the list prefix so invalidateControls / invalidateFaqs also clear stale counts
+export function buildTaxonomyReadCacheKey(
+  entity: 'controls' | 'faqs',
+  opts: ReadKeyOptions = {}
+): string {
+  return `${entity}:list:taxonomy:role=${normalizeAuthScope(opts.authScope)}`;
+}
+
+// public read-cache key builder for the framework coverage matrix — "controls:list:coverage:role=public" style
+// controls writes and mapping attach / detach both clear it through invalidateControls
+export function buildFrameworkCoverageReadCacheKey(
+  opts: ReadKeyOptions = {}
+): string {
+  return `controls:list:coverage:role=${normalizeAuthScope(opts.authScope)}`;
+}
+
 // ---------- internal shared builders ----------
 
 // internal helper — builds the full key string from entity name + args
@@ -94,6 +145,17 @@ function buildListKey(entity: string, args: ListArgs): string {
   if (args.after !== undefined) parts.push(`after=${args.after}`);
   if (args.category !== undefined) parts.push(`category=${args.category}`);
   if (args.search !== undefined) parts.push(`search=${args.search}`);
+  if (args.searchMode !== undefined) parts.push(`mode=${args.searchMode}`);
+  if (args.section !== undefined) parts.push(`section=${args.section}`);
+  if (args.subcategory !== undefined)
+    parts.push(`subcategory=${args.subcategory}`);
+  if (args.tags !== undefined) parts.push(`tags=${args.tags.join(',')}`);
+  if (args.tagMatch !== undefined) parts.push(`tagMatch=${args.tagMatch}`);
+  if (args.framework !== undefined) parts.push(`framework=${args.framework}`);
+  if (args.includeDeleted !== undefined)
+    parts.push(`includeDeleted=${args.includeDeleted}`);
+  if (args.status !== undefined) parts.push(`status=${args.status}`);
+  if (args.asOf !== undefined) parts.push(`asOf=${args.asOf}`);
 
   // join with ":" to produce a readable key like "controls:list:first=10:category=SOC2"
   return parts.join(':');
@@ -119,6 +181,21 @@ function buildReadCacheKey(
     parts.push(`category=${normalizedArgs.category}`);
   if (normalizedArgs.search !== undefined)
     parts.push(`search=${normalizedArgs.search}`);
+  if (normalizedArgs.searchMode === 'FULLTEXT') parts.push('mode=fulltext'); // substring keys stay unchanged
+  if (normalizedArgs.section !== undefined)
+    parts.push(`section=${normalizedArgs.section}`);
+  if (normalizedArgs.subcategory !== undefined)
+    parts.push(`subcategory=${normalizedArgs.subcategory}`);
+  if (normalizedArgs.tags !== undefined)
+    parts.push(`tags=${normalizedArgs.tags.map(encodeURIComponent).join(',')}`); // encoded so a tag containing "," cannot mimic two tags
+  if (normalizedArgs.tagMatch === 'ALL') parts.push('tagMatch=all'); // ANY keys stay unchanged
+  if (normalizedArgs.framework !== undefined)
+    parts.push(`framework=${normalizedArgs.framework}`);
+  if (normalizedArgs.includeDeleted) parts.push('deleted=include'); // deleted rows change the result set, default keys stay unchanged
+  if (normalizedArgs.status !== undefined)
+    parts.push(`status=${normalizedArgs.status}`); // drafts/review/archive reads never share a key with public reads
+  if (normalizedArgs.asOf !== undefined)
+    parts.push(`asOf=${normalizedArgs.asOf}`); // each snapshot time is its own result set (cursors included)
 
   // join with ":" to produce a readable deterministic key for shared cache usage
   return parts.join(':');
@@ -146,18 +223,44 @@ function normalizeListArgsForReadCache(args: ListArgs): ListArgs {
     if (normalizedSearch !== undefined) out.search = normalizedSearch; // omit empty search filters
   }
 
+  if (isFullTextSearch(args)) out.searchMode = 'FULLTEXT'; // FULLTEXT without a search term reads like SUBSTRING, so share that key
+
+  const section = normalizeTaxonomyFilter(args.section); // same normalization as the sql predicate
+  if (section !== undefined) out.section = section;
+
+  const subcategory = normalizeTaxonomyFilter(args.subcategory);
+  if (subcategory !== undefined) out.subcategory = subcategory;
+
+  const tags = normalizeTagFilter(args.tags); // lowercased + deduped + sorted, so tag order never splits the cache
+  if (tags !== undefined) {
+    out.tags = tags;
+    if (args.tagMatch === 'ALL' && tags.length > 1) out.tagMatch = 'ALL'; // ALL with one tag reads the same as ANY
+  }
+
+  if (args.framework !== undefined) out.framework = args.framework; // resolver already maps the enum to its db value
+
+  if (args.includeDeleted === true) out.includeDeleted = true; // includeDeleted: false is the default read, so share that key
+
+  if (args.status !== undefined && args.status !== 'published')
+    out.status = args.status; // published is the default read, so share that key
+
+  if (args.asOf !== undefined) out.asOf = args.asOf; // services pass asOf already normalized to toISOString()
+
   return out; // deterministic normalized args for shared read-cache keys
 }
 
 function normalizeOverviewSearchArgsForKey(
   args: OverviewSearchKeyArgs
-): Required<OverviewSearchKeyArgs> {
+): Required<Omit<OverviewSearchKeyArgs, 'asOf'>> & { asOf?: string } {
   const search = normalizeSearchForKey(args.search) ?? ''; // grouped-search callers should already validate, but keep the key builder defensive
   const firstPerKind = clampFirst(args.firstPerKind ?? 5); // align grouped-search key identity with live page size clamp
+  const searchMode = args.searchMode === 'FULLTEXT' ? 'FULLTEXT' : 'SUBSTRING'; // omitted mode means the substring default
 
   return {
     search,
-    firstPerKind
+    firstPerKind,
+    searchMode,
+    ...(args.asOf !== undefined ? { asOf: args.asOf } : {})
   }; // canonical grouped-search args for deterministic memo identity
 }
 
@@ -168,7 +271,7 @@ function normalizeCategoryForKey(value: string): string {
 
 function normalizeSearchForKey(value: string): string | undefined {
   const normalized = normalizeSearchInput(String(value)); // shared search normalization omits blank/whitespace-only input
-  return normalized ? normalized.toLowerCase() : undefined; // case-insensitive key identity for current substring search semantics
+  return normalized ? normalized.toLowerCase() : undefined; // case-insensitive key identity (both search modes ignore case)
 }
 
 function normalizeAuthScope(value: string | undefined): string {
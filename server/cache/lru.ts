@@ -5,6 +5,7 @@
   - holds items in memory with a TTL (expiry time) per item
   - evicts the least-recently-used item when the store is full
   - used as the default adapter in prototype / single-node environments
+  - answers synchronously; the Cache contract lets callers await either way
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import { LRUCache } from 'lru-cache'; // battle-tested LRU library — handles eviction + TTL for us
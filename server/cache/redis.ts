@@ -1,39 +1,166 @@
 /* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
-  TL;DR  -->  Redis adapter stub (placeholder only)
+  TL;DR  -->  Redis cache adapter (shared cache across server instances)
 
-  - satisfies the Cache interface so TypeScript stays happy
-  - every method intentionally throws — nothing is wired to a real Redis connection
-  - swap this in via index.ts when CACHE_ADAPTER=redis in a future production setup
-  - no redis npm package needed until this stub is replaced with a real implementation
-~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ ~ */
+  - implements the Cache interface on top of ioredis
+  - values are stored as JSON strings with a per-key TTL (SET ... EX)
+  - every key is namespaced (REDIS_KEY_PREFIX) so invalidation never touches foreign keys
+  - invalidatePrefix walks matching keys with SCAN + DEL (never KEYS, which blocks redis)
+  - getOrSet has the same single-flight stampede protection as the LRU adapter
+  - redis failures degrade to cache misses + warnings so the site keeps serving from the db
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
+import Redis from 'ioredis'; // maintained redis client with reconnect + pipelining built in
 import type { Cache } from './cache'; // must implement this interface to be a valid adapter
 
+// SCAN returns keys in batches; COUNT is a hint for how much work redis does per call
+const SCAN_COUNT = 200;
+
+type RedisAdapterOptions = {
+  url: string; // redis://[:password@]host:port[/db]
+  keyPrefix?: string; // namespace for every key this adapter writes
+  commandTimeoutMs?: number; // upper bound per command so a slow redis cannot stall requests
+};
+
+// SCAN MATCH uses glob syntax  -->  escape glob metacharacters so prefixes match literally
+function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]\\]/g, match => `\\${match}`);
+}
+
+function toMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * RedisAdapter implements the Cache interface against a real Redis server.
+ * Reads and writes are JSON round-trips, so only JSON-safe values should be cached
+ * (the same rule the LRU adapter documents).
+ */
 export class RedisAdapter implements Cache {
-  // _ prefix on params = TypeScript convention for "I know this exists but I'm not using it"
-  // that silences the "unused variable" warning without needing to delete the param name
+  private client: Redis;
+  private keyPrefix: string;
+
+  // tracks in-flight fetches so concurrent misses for one key share one fn() call
+  private inFlight = new Map<string, Promise<unknown>>();
 
-  get(_key: string): unknown | null {
-    throw new Error('RedisAdapter: not implemented'); // will fail loudly if wired up too early
+  constructor(opts: RedisAdapterOptions) {
+    this.keyPrefix = opts.keyPrefix ?? '';
+    this.client = new Redis(opts.url, {
+      maxRetriesPerRequest: 1, // fail fast while disconnected instead of queueing forever
+      commandTimeout: opts.commandTimeoutMs ?? 1000 // cache reads must never be slower than the db they protect
+    });
+
+    // ioredis emits 'error' on every failed reconnect attempt; without a listener node treats it as fatal
+    this.client.on('error', err => {
+      console.warn(`[cache] redis connection error: ${toMessage(err)}`);
+    });
   }
 
-  set(_key: string, _value: unknown, _ttlSeconds: number): void {
-    throw new Error('RedisAdapter: not implemented');
+  // every public key goes through here so namespacing is applied exactly once
+  private toRedisKey(key: string): string {
+    return `${this.keyPrefix}${key}`;
   }
 
-  del(_key: string): void {
-    throw new Error('RedisAdapter: not implemented');
+  // returns the parsed value, or null on miss / parse failure / redis error
+  async get(key: string): Promise<unknown | null> {
+    let raw: string | null;
+
+    try {
+      raw = await this.client.get(this.toRedisKey(key));
+    } catch (err) {
+      console.warn(`[cache] redis get failed key=${key}: ${toMessage(err)}`);
+      return null; // behave like a miss so the caller falls through to the real data source
+    }
+
+    if (raw === null) return null; // key missing or expired
+
+    try {
+      return JSON.parse(raw) as unknown;
+    } catch {
+      await this.del(key); // drop unreadable entries so the next read repopulates them
+      return null;
+    }
   }
 
-  invalidatePrefix(_prefix: string): void {
-    throw new Error('RedisAdapter: not implemented');
+  // stores JSON with a TTL; redis expires the key for us (no background sweep needed)
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    if (value === undefined || value === null) return; // null means "miss" in this contract, so never store it
+
+    const ttl = Math.max(1, Math.ceil(ttlSeconds)); // EX only accepts positive whole seconds
+
+    try {
+      await this.client.set(
+        this.toRedisKey(key),
+        JSON.stringify(value),
+        'EX',
+        ttl
+      );
+    } catch (err) {
+      console.warn(`[cache] redis set failed key=${key}: ${toMessage(err)}`);
+    }
+  }
+
+  async del(key: string): Promise<void> {
+    try {
+      await this.client.del(this.toRedisKey(key));
+    } catch (err) {
+      console.warn(`[cache] redis del failed key=${key}: ${toMessage(err)}`);
+    }
+  }
+
+  // walks the keyspace incrementally; each SCAN batch is deleted before the next one is requested
+  async invalidatePrefix(prefix: string): Promise<void> {
+    const match = `${escapeGlob(this.toRedisKey(prefix))}*`;
+    let cursor = '0';
+
+    try {
+      do {
+        const [nextCursor, keys] = await this.client.scan(
+          cursor,
+          'MATCH',
+          match,
+          'COUNT',
+          SCAN_COUNT
+        );
+
+        if (keys.length > 0) {
+          await this.client.del(...keys); // keys are already namespaced because they came from SCAN
+        }
+
+        cursor = nextCursor; // redis signals the end of the walk with cursor "0"
+      } while (cursor !== '0');
+    } catch (err) {
+      console.warn(
+        `[cache] redis invalidatePrefix failed prefix=${prefix}: ${toMessage(err)}`
+      ); // short TTLs bound how long any missed entries stay stale
+    }
   }
 
   async getOrSet(
-    _key: string,
-    _ttlSeconds: number,
-    _fn: () => Promise<unknown>
+    key: string,
+    ttlSeconds: number,
+    fn: () => Promise<unknown>
   ): Promise<unknown> {
-    throw new Error('RedisAdapter: not implemented');
+    const existingPromise = this.inFlight.get(key); // join a fetch already running in this process
+    if (existingPromise) return existingPromise;
+
+    const promise = (async () => {
+      const cached = await this.get(key);
+      if (cached !== null) return cached; // cache hit — skip the real data source
+
+      const value = await fn(); // cache miss — run the real fetch once
+      await this.set(key, value, ttlSeconds);
+      return value;
+    })().finally(() => {
+      this.inFlight.delete(key); // clean up tracking regardless of success/fail
+    });
+
+    this.inFlight.set(key, promise); // registered before the first await so concurrent callers share it
+    return promise;
+  }
+
+  // closes the connection; used by tests and graceful shutdown
+  async close(): Promise<void> {
+    this.inFlight.clear();
+    await this.client.quit().catch(() => this.client.disconnect()); // quit politely, force-close if redis is gone
   }
 }
@@ -4,12 +4,14 @@
   what this script proves:
     - category-filtered count/page queries still look index-friendly after service refactors
     - current substring search still behaves as the chosen prototype path
+    - FULLTEXT search can use the search_vector GIN indexes while ordering by ts_rank
+    - tag filters can use the lower_tags(tags) GIN indexes from 009_taxonomy_filter_indexes.sql
     - read-path select lists now reflect the richer taxonomy-aware row shape
     - overviewSearch intentionally reuses controls/faqs search paths instead of introducing a separate explain-only query lane
 
   what this script does NOT prove:
     - production-scale plan quality on large datasets
-    - final full-text search ranking behavior
+    - full-text ranking quality (relevance is a product question, not a plan-shape question)
     - admin-write invalidation correctness
 
   usage:
@@ -148,7 +150,54 @@ ${buildSelectList(args.columns)}
       ORDER BY updated_at DESC, id DESC
       LIMIT $2
     `,
-    params: [`%${args.searchTerm}%`, 3] // mirrors current contains-search semantics instead of future full-text semantics
+    params: [`%${args.searchTerm}%`, 3] // mirrors SUBSTRING (default) contains-search semantics
+  };
+}
+
+function buildFullTextPageCase(args: {
+  name: string;
+  tableName: 'controls' | 'faqs';
+  columns: readonly string[];
+  searchTerm: string;
+}): ExplainCase {
+  return {
+    name: args.name,
+    expectation:
+      'FULLTEXT predicate can use the search_vector GIN index (bitmap scan) while ts_rank ordering sorts only matched rows',
+    sql: `
+      EXPLAIN (ANALYZE, BUFFERS, FORMAT TEXT)
+      SELECT
+${buildSelectList(args.columns)},
+          ts_rank(search_vector, websearch_to_tsquery('english', $1)) AS rank
+      FROM public.${args.tableName}
+      WHERE search_vector @@ websearch_to_tsquery('english', $1)
+      ORDER BY rank DESC, updated_at DESC, id DESC
+      LIMIT $2
+    `,
+    params: [args.searchTerm, 3] // mirrors searchMode: FULLTEXT in the service layer
+  };
+}
+
+function buildTagsPageCase(args: {
+  name: string;
+  tableName: 'controls' | 'faqs';
+  columns: readonly string[];
+  tags: string[];
+}): ExplainCase {
+  return {
+    name: args.name,
+    expectation:
+      'tag overlap predicate can use the lower_tags(tags) GIN index (bitmap scan); planner may still choose seq scan on tiny tables',
+    sql: `
+      EXPLAIN (ANALYZE, BUFFERS, FORMAT TEXT)
+      SELECT
+${buildSelectList(args.columns)}
+      FROM public.${args.tableName}
+      WHERE public.lower_tags(tags) && $1::text[]
+      ORDER BY updated_at DESC, id DESC
+      LIMIT $2
+    `,
+    params: [args.tags, 3] // mirrors tags + tagMatch: ANY in the service layer
   };
 }
 
@@ -190,6 +239,30 @@ function buildExplainCases(args: {
       tableName: 'faqs',
       columns: FAQS_READ_COLUMNS,
       searchTerm: 'encryption'
+    }),
+    buildFullTextPageCase({
+      name: 'controls_fulltext_page',
+      tableName: 'controls',
+      columns: CONTROLS_READ_COLUMNS,
+      searchTerm: 'authentication'
+    }),
+    buildFullTextPageCase({
+      name: 'faqs_fulltext_page',
+      tableName: 'faqs',
+      columns: FAQS_READ_COLUMNS,
+      searchTerm: 'encrypted data'
+    }),
+    buildTagsPageCase({
+      name: 'controls_tags_page',
+      tableName: 'controls',
+      columns: CONTROLS_READ_COLUMNS,
+      tags: ['authentication']
+    }),
+    buildTagsPageCase({
+      name: 'faqs_tags_page',
+      tableName: 'faqs',
+      columns: FAQS_READ_COLUMNS,
+      tags: ['encryption']
     })
   ];
 }
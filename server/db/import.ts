@@ -0,0 +1,184 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  bulk import cli (npm run db:import -- <file>)
+
+  - reads one csv or json file and imports it through the same service as the adminImport mutation
+  - format comes from the file extension
+  - entity comes from the csv header (controlKey -> controls, faqKey -> faqs) or the json wrapper key ("controls" / "faqs"); --entity overrides
+  - a csv header that names neither key fails with a VALIDATION_ERROR
+  - --dry-run prints the per-row report without writing
+  - exits non-zero when any row fails validation (nothing is written in that case)
+  - invalidates through the shared cache module (only reaches a running server when CACHE_ADAPTER=redis)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~*/
+
+import fs from 'node:fs/promises'; // read the import file
+import path from 'node:path'; // extension -> format
+import { randomUUID } from 'node:crypto'; // request id for audit + log correlation
+
+import { closeDbPool, ensureDbSchema, query, withTransaction } from './index'; // shared pool + transaction helper
+import { cache } from '../cache'; // same cache singleton the server uses
+import { RedisAdapter } from '../cache/redis'; // closed on exit so node can quit
+import { blobStore } from '../blob'; // part of the service context (imports never touch evidence files)
+import type { GraphQLContext } from '../graphql/context'; // service context contract
+import { parseCsvHeader } from '../services/csv'; // header row -> entity
+import {
+  importContent,
+  type ImportArgs,
+  type ImportFormat,
+  type ImportReport
+} from '../services/importService'; // shared import path (adminImport uses it too)
+import type { TaxonomyEntityName } from '../taxonomy'; // controls | faqs
+
+// ---------- args ----------
+
+type CliArgs = {
+  file: string;
+  entity: TaxonomyEntityName | null;
+  dryRun: boolean;
+};
+
+const USAGE =
+  'usage: npm run db:import -- <file.csv|file.json> [--entity controls|faqs] [--dry-run]';
+
+function parseArgs(argv: string[]): CliArgs {
+  let file: string | null = null;
+  let entity: TaxonomyEntityName | null = null;
+  let dryRun = false;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--entity') {
+      const value = argv[(index += 1)];
+      if (value !== 'controls' && value !== 'faqs') {
+        throw new Error(
+          `IMPORT_ERROR: --entity must be controls or faqs\n${USAGE}`
+        );
+      }
+      entity = value;
+    } else if (arg && !arg.startsWith('--') && file === null) {
+      file = arg;
+    } else {
+      throw new Error(`IMPORT_ERROR: unexpected argument ${arg}\n${USAGE}`);
+    }
+  }
+
+  if (!file) throw new Error(`IMPORT_ERROR: missing file\n${USAGE}`);
+  return { file, entity, dryRun };
+}
+
+function formatFromPath(file: string): ImportFormat {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === '.csv') return 'csv';
+  if (extension === '.json') return 'json';
+  throw new Error(`IMPORT_ERROR: ${file} must end in .csv or .json`);
+}
+
+function entityFromCsv(content: string): TaxonomyEntityName {
+  const columns = new Set(
+    parseCsvHeader(content).map(column =>
+      column.replace(/[_\s-]/g, '').toLowerCase()
+    )
+  ); // same column matching as the import service: controlKey, control_key, "Control Key"
+
+  const hasControlKey = columns.has('controlkey');
+  const hasFaqKey = columns.has('faqkey');
+  if (hasControlKey && !hasFaqKey) return 'controls';
+  if (hasFaqKey && !hasControlKey) return 'faqs';
+
+  throw new Error(
+    `VALIDATION_ERROR: csv header must include exactly one of controlKey (controls) or faqKey (faqs); pass --entity to override\n${USAGE}`
+  );
+}
+
+function entityFromJson(content: string): TaxonomyEntityName | null {
+  try {
+    const parsed = JSON.parse(content) as Record<string, unknown>;
+    const keys = ['controls', 'faqs'].filter(key =>
+      Array.isArray(parsed?.[key])
+    ) as TaxonomyEntityName[];
+    return keys.length === 1 ? (keys[0] ?? null) : null; // seed-file shape names its entity
+  } catch {
+    return null; // the service reports the parse error with its own message
+  }
+}
+
+export async function readImportArgs(argv: string[]): Promise<ImportArgs> {
+  const args = parseArgs(argv);
+  const format = formatFromPath(args.file);
+  const content = await fs.readFile(args.file, 'utf8');
+  const entity =
+    args.entity ??
+    (format === 'csv' ? entityFromCsv(content) : entityFromJson(content)); // --entity wins over the file
+
+  if (!entity) {
+    throw new Error(`IMPORT_ERROR: pass --entity for ${args.file}\n${USAGE}`);
+  }
+
+  return { entity, format, content, dryRun: args.dryRun };
+}
+
+// ---------- context ----------
+
+function buildCliContext(): GraphQLContext {
+  return {
+    requestId: `db-import-${randomUUID()}`, // shows up on audit rows + revisions
+    memo: new Map<string, Promise<unknown>>(),
+    cache,
+    blobs: blobStore,
+    db: {
+      query,
+      transaction: callback => withTransaction(run => callback({ query: run }))
+    },
+    auth: { userEmail: 'db:import', roles: ['admin'], isAdmin: true } // cli runs are trusted like db:seed
+  };
+}
+
+// ---------- report ----------
+
+function printReport(report: ImportReport): void {
+  console.log(`\n📦  Import ${report.dryRun ? 'Dry Run' : 'Summary'}`);
+  console.log({
+    entity: report.entity,
+    applied: report.applied,
+    totalRows: report.totalRows,
+    created: report.created,
+    updated: report.updated,
+    unchanged: report.unchanged,
+    errors: report.errors.length
+  });
+
+  for (const error of report.errors) {
+    console.log(
+      `  row ${error.row}${error.key ? ` (${error.key})` : ''}: ${error.message}`
+    );
+  }
+}
+
+// ---------- script entrypoint (db:import) ----------
+
+async function main(): Promise<void> {
+  try {
+    const args = await readImportArgs(process.argv.slice(2)); // bad args fail before any db work
+
+    await ensureDbSchema(); // same schema guarantee as db:seed
+
+    const report = await importContent(args, buildCliContext());
+    printReport(report);
+
+    if (report.errors.length > 0) process.exitCode = 1; // scripts + CI can gate on a clean file
+  } catch (error) {
+    console.error('\n❌  Import Failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closeDbPool(); // always close the pool so node exits cleanly
+    if (cache instanceof RedisAdapter) await cache.close(); // an open redis socket would keep node alive
+  }
+}
+
+const isDirectRun =
+  process.argv[1]?.endsWith('server/db/import.ts') ||
+  process.argv[1]?.endsWith('server\\db\\import.ts'); // entrypoint guard  -->  tests can import readImportArgs without running an import
+
+if (isDirectRun) main();
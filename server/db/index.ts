@@ -6,6 +6,7 @@
   - provides query() wrapper used by services/seed
   - exposes pingDb() for smoke checks (not wired into routes yet)
   - runs sql migrations from server/db/migrations (runMigrations + ensureDbSchema)
+  - runs multi-statement service writes atomically on one client (withTransaction)
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 /*
@@ -269,21 +270,29 @@ export const query = async (text: string, params?: any[]) => {
 
 // ----------  perf / observability (prototype)  ----------
 
+type QueryRunner = (text: string, params?: any[]) => Promise<pg.QueryResult>;
+
 type TimedQueryOptions = {
   requestId: string;
   enabled: boolean; // When true, logs per-request query timing
+  run?: QueryRunner; // defaults to the shared pool; transactions pass their client here
 };
 
 // createTimedQuery
 // Returns a request-scoped query function that logs execution timing when enabled.
 // Intended for per-request observability without modifying global query behavior.
-export function createTimedQuery({ requestId, enabled }: TimedQueryOptions) {
+export function createTimedQuery({
+  requestId,
+  enabled,
+  run
+}: TimedQueryOptions) {
   return async (text: string, params?: any[]) => {
     const start = Date.now();
-    const pool = getDbPool();
+    const execute: QueryRunner =
+      run ?? ((sql, values) => getDbPool().query(sql, values)); // resolve the pool lazily so env validation still happens at first query
 
     try {
-      const res = await pool.query(text, params);
+      const res = await execute(text, params);
       const durationMs = Date.now() - start;
 
       if (enabled) {
@@ -307,6 +316,30 @@ export function createTimedQuery({ requestId, enabled }: TimedQueryOptions) {
   };
 }
 
+// ----------  transactions  ----------
+
+// withTransaction
+// Runs the callback on a single pooled client between BEGIN and COMMIT.
+// Any thrown error rolls the whole unit back, so a row write and its audit event land together or not at all.
+export async function withTransaction<T>(
+  callback: (run: QueryRunner) => Promise<T>
+): Promise<T> {
+  const client = await getDbPool().connect(); // one client keeps every statement on the same transaction
+
+  try {
+    await client.query('BEGIN');
+    const result = await callback((text, params) => client.query(text, params));
+    await client.query('COMMIT');
+
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK'); // never leave half-applied writes behind
+    throw error;
+  } finally {
+    client.release(); // always return the connection to the pool
+  }
+}
+
 // ----------  scripts (dev-only helpers)  ----------
 
 // runDbMigrate
@@ -338,8 +371,16 @@ export async function cleanApplyDb(): Promise<{
   // list the exact objects we want to drop
   const targets = [
     'public.schema_migrations', // resets migration tracking  -->  ex: allows 001_init.sql re-applies
+    'public.control_frameworks', // children before parents  -->  the fk tables go before controls
+    'public.control_evidence',
+    'public.framework_requirements',
     'public.controls',
-    'public.faqs'
+    'public.faqs',
+    'public.audit_events',
+    'public.content_revisions',
+    'public.taxonomy_terms',
+    'public.api_keys',
+    'public.nda_access_requests'
   ];
 
   const pool = getDbPool(); // reuse the singleton pool
@@ -398,5 +439,6 @@ export default {
   runDbMigrate, // script runner for migrations (logs + closes pool)
   cleanApplyDb, // drops app tables + re-runs migrations + returns summary
   runCleanApplyDb, // script runner for clean apply (logs + closes pool + sets exit)
-  createTimedQuery // request-scoped db query wrapper (DEBUG_PERF)
+  createTimedQuery, // request-scoped db query wrapper (DEBUG_PERF)
+  withTransaction // BEGIN/COMMIT wrapper for multi-statement service writes
 };
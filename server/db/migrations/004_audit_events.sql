@@ -0,0 +1,58 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  append-only audit log for admin writes
+--
+--   - one row per create / update / delete on controls + faqs
+--   - stores actor, request id, entity, entity id, action, and a before/after diff
+--   - written in the same transaction as the service write it describes
+--   - update/delete on audit rows is rejected by trigger (append-only)
+--   - safe to re-run (if not exists / create or replace)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  audit_events table  ----------
+
+create table if not exists public.audit_events (
+  id uuid primary key default gen_random_uuid(),  -- stable id  -->  cursor tie-breaker
+  actor text not null,  -- same value the write stored in created_by / updated_by
+  request_id text not null,  -- graphql request id  -->  joins audit rows to [gql]/[db] logs
+  entity text not null check (entity in ('control', 'faq')),  -- which table changed
+  entity_id uuid not null,  -- changed row id (no fk  -->  deleted rows keep their history)
+  action text not null check (action in ('create', 'update', 'delete')),
+  diff jsonb not null default '{}'::jsonb,  -- { field: { before, after } } for changed fields only
+  created_at timestamptz not null default now()  -- transaction time of the write
+);
+
+
+-- ----------  read-path indexes  ----------
+
+-- per-record history  -->  auditEvents(entity, entityId) ordered newest first
+create index if not exists audit_events_entity_created_at_id_idx
+  on public.audit_events (entity, entity_id, created_at desc, id desc);
+
+-- global feed  -->  auditEvents() with no filters ordered newest first
+create index if not exists audit_events_created_at_id_idx
+  on public.audit_events (created_at desc, id desc);
+
+
+-- ----------  append-only guard  ----------
+
+create or replace function public.audit_events_reject_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_events is append-only';
+end;
+$$;
+
+drop trigger if exists audit_events_append_only on public.audit_events;
+
+create trigger audit_events_append_only
+  before update or delete on public.audit_events
+  for each row execute function public.audit_events_reject_change();
+
+
+-- ----------  notes  ----------
+
+-- entity_id intentionally has no foreign key so history survives a hard delete
+-- cleanApplyDb drops the table with cascade (drop table is not blocked by the row trigger)
@@ -0,0 +1,51 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  soft delete for controls + faqs
+--
+--   - adds deleted_at / deleted_by so admin deletes can be restored
+--   - public reads filter on deleted_at is null (buildCategorySearchWhere)
+--   - partial indexes keep the default list order index-friendly for live rows
+--   - allows 'restore' as an audit_events action
+--   - safe to re-run (if not exists / drop + re-add constraint)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  controls: soft delete columns  ----------
+
+alter table public.controls
+  add column if not exists deleted_at timestamptz null,  -- null = live row
+  add column if not exists deleted_by text null;  -- actor that soft-deleted the row (cleared on restore)
+
+
+-- ----------  faqs: soft delete columns  ----------
+
+alter table public.faqs
+  add column if not exists deleted_at timestamptz null,  -- null = live row
+  add column if not exists deleted_by text null;  -- mirrors controls
+
+
+-- ----------  live-row read indexes  ----------
+
+-- public list reads  -->  where deleted_at is null order by updated_at desc, id desc
+create index if not exists controls_live_updated_at_id_idx
+  on public.controls (updated_at desc, id desc)
+  where deleted_at is null;
+
+create index if not exists faqs_live_updated_at_id_idx
+  on public.faqs (updated_at desc, id desc)
+  where deleted_at is null;
+
+
+-- ----------  audit_events: restore action  ----------
+
+alter table public.audit_events
+  drop constraint if exists audit_events_action_check;
+
+alter table public.audit_events
+  add constraint audit_events_action_check
+  check (action in ('create', 'update', 'delete', 'restore'));
+
+
+-- ----------  notes  ----------
+
+-- soft-deleted rows keep their natural key, so re-creating the same key conflicts until the row is restored
+-- seed upserts never touch deleted_at, so reseeding does not resurrect rows an admin deleted
@@ -0,0 +1,50 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  draft / review / publish workflow for controls + faqs
+--
+--   - adds status (draft | in_review | published | archived) to both content tables
+--   - existing + seeded rows default to published so public reads do not change
+--   - admin creates insert draft explicitly (controlsService / faqsService)
+--   - public reads filter on status = 'published' (buildCategorySearchWhere)
+--   - safe to re-run (if not exists)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  controls: status column  ----------
+
+alter table public.controls
+  add column if not exists status text not null default 'published'
+  constraint controls_status_check
+  check (status in ('draft', 'in_review', 'published', 'archived'));
+
+
+-- ----------  faqs: status column  ----------
+
+alter table public.faqs
+  add column if not exists status text not null default 'published'
+  constraint faqs_status_check
+  check (status in ('draft', 'in_review', 'published', 'archived'));
+
+
+-- ----------  public read indexes  ----------
+
+-- public list reads  -->  where deleted_at is null and status = 'published' order by updated_at desc, id desc
+create index if not exists controls_published_updated_at_id_idx
+  on public.controls (updated_at desc, id desc)
+  where deleted_at is null and status = 'published';
+
+create index if not exists faqs_published_updated_at_id_idx
+  on public.faqs (updated_at desc, id desc)
+  where deleted_at is null and status = 'published';
+
+-- admin status filter  -->  where status = $1 order by updated_at desc, id desc
+create index if not exists controls_status_updated_at_id_idx
+  on public.controls (status, updated_at desc, id desc);
+
+create index if not exists faqs_status_updated_at_id_idx
+  on public.faqs (status, updated_at desc, id desc);
+
+
+-- ----------  notes  ----------
+
+-- status changes are written by the adminSubmitForReview / adminPublish / adminArchive mutations
+-- transition rules live in server/services/validation.ts (assertStatusTransition)
@@ -0,0 +1,57 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  immutable revision snapshots for controls + faqs
+--
+--   - one row per service write (create / update / delete / restore / status change / revert)
+--   - snapshot holds the full row as it stood right after that write
+--   - revision numbers count up per record (1 = first snapshot)
+--   - written in the same transaction as the write (and its audit_events row)
+--   - update/delete on revision rows is rejected by trigger (immutable)
+--   - safe to re-run (if not exists / create or replace)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  content_revisions table  ----------
+
+create table if not exists public.content_revisions (
+  id uuid primary key default gen_random_uuid(),  -- stable id  -->  adminRevert* target
+  entity text not null check (entity in ('control', 'faq')),  -- which table the snapshot came from
+  entity_id uuid not null,  -- snapshotted row id (no fk  -->  history outlives the row)
+  revision int not null check (revision > 0),  -- per-record sequence number
+  action text not null check (action in ('create', 'update', 'delete', 'restore')),  -- same vocabulary as audit_events
+  snapshot jsonb not null,  -- db row after the write (snake_case columns, search_text excluded)
+  reverted_from uuid null,  -- source revision when the write was an adminRevert*
+  actor text not null,  -- same value the write stored in created_by / updated_by
+  request_id text not null,  -- graphql request id  -->  joins revisions to audit + logs
+  created_at timestamptz not null default now(),  -- transaction time of the write
+
+  constraint content_revisions_unique_revision unique (entity, entity_id, revision)
+);
+
+
+-- ----------  read-path indexes  ----------
+
+-- no extra index needed: the content_revisions_unique_revision index on (entity, entity_id, revision)
+-- serves both Control.revisions / Faq.revisions (order by revision desc) and next-revision lookups on write
+
+
+-- ----------  immutability guard  ----------
+
+create or replace function public.content_revisions_reject_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'content_revisions is immutable';
+end;
+$$;
+
+drop trigger if exists content_revisions_immutable on public.content_revisions;
+
+create trigger content_revisions_immutable
+  before update or delete on public.content_revisions
+  for each row execute function public.content_revisions_reject_change();
+
+
+-- ----------  notes  ----------
+
+-- rows written before this migration (and seed upserts) have no revisions until their next admin write
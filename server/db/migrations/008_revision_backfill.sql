@@ -0,0 +1,70 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  baseline revisions so asOf reads cover every row
+--
+--   - asOf reads rebuild content from content_revisions (latest revision at or before asOf)
+--   - rows that have never been written through the admin mutations have no revision yet
+--   - backfill_content_revisions() gives each of them a revision 1 snapshot dated at its updated_at
+--   - runs once here; seed.ts writes its own revisions for every row it inserts or changes
+--   - safe to re-run (create or replace / only rows without revisions are touched)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  backfill function  ----------
+
+create or replace function public.backfill_content_revisions()
+returns void
+language sql
+as $$
+  insert into public.content_revisions (
+    entity, entity_id, revision, action, snapshot, actor, request_id, created_at
+  )
+  select
+    'control',
+    c.id,
+    1,
+    'create',
+    to_jsonb(c) - 'search_text' - 'search_vector',  -- same column set as service snapshots (derived search fields excluded)
+    coalesce(c.updated_by, 'backfill'),
+    'backfill',
+    c.updated_at  -- best known time this content became current
+  from public.controls c
+  where not exists (
+    select 1 from public.content_revisions r
+    where r.entity = 'control' and r.entity_id = c.id
+  );
+
+  insert into public.content_revisions (
+    entity, entity_id, revision, action, snapshot, actor, request_id, created_at
+  )
+  select
+    'faq',
+    f.id,
+    1,
+    'create',
+    to_jsonb(f) - 'search_text' - 'search_vector',
+    coalesce(f.updated_by, 'backfill'),
+    'backfill',
+    f.updated_at
+  from public.faqs f
+  where not exists (
+    select 1 from public.content_revisions r
+    where r.entity = 'faq' and r.entity_id = f.id
+  );
+$$;
+
+
+-- ----------  run once  ----------
+
+select public.backfill_content_revisions();
+
+
+-- ----------  asOf read index  ----------
+
+-- asOf reads  -->  latest revision per record with created_at <= asOf
+create index if not exists content_revisions_entity_created_at_idx
+  on public.content_revisions (entity, created_at, entity_id, revision desc);
+
+
+-- ----------  notes  ----------
+
+-- content from before a row's first revision is unknown, so asOf reads older than it skip that row
@@ -0,0 +1,57 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  indexes for section / subcategory / tags connection filters
+--
+--   - controlsConnection + faqsConnection now filter on section, subcategory, and tags (ANY | ALL)
+--   - these are the indexes 003_taxonomy.sql deliberately postponed until the query contract used them
+--   - lower(section) / lower(subcategory) expression indexes mirror the lower(category) ones from 002
+--   - tags match case-insensitively, so the gin index is on public.lower_tags(tags), not raw tags
+--   - safe to re-run (create or replace / if not exists)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  lower_tags helper  ----------
+
+-- immutable so postgres accepts it in an index expression
+-- must stay in sync with the tag predicate in buildCategorySearchWhere() (pagination.ts)
+create or replace function public.lower_tags(tags text[])
+returns text[]
+language sql
+immutable
+parallel safe
+as $$
+  select coalesce(array_agg(lower(tag)), '{}'::text[]) from unnest(tags) as tag
+$$;
+
+
+-- ----------  controls: taxonomy filter indexes  ----------
+
+-- EXPLAIN: Index Scan using controls_section_lower_idx  -->  lower(section) = $N
+create index if not exists controls_section_lower_idx
+  on public.controls (lower(section));
+
+-- EXPLAIN: Index Scan using controls_subcategory_lower_idx  -->  lower(subcategory) = $N
+create index if not exists controls_subcategory_lower_idx
+  on public.controls (lower(subcategory));
+
+-- EXPLAIN: Bitmap Index Scan on controls_tags_lower_gin  -->  lower_tags(tags) && $N (ANY) / @> $N (ALL)
+create index if not exists controls_tags_lower_gin
+  on public.controls using gin (public.lower_tags(tags));
+
+
+-- ----------  faqs: taxonomy filter indexes  ----------
+
+create index if not exists faqs_section_lower_idx
+  on public.faqs (lower(section));
+
+create index if not exists faqs_subcategory_lower_idx
+  on public.faqs (lower(subcategory));
+
+create index if not exists faqs_tags_lower_gin
+  on public.faqs using gin (public.lower_tags(tags));
+  -- mirrors the controls indexes  -->  same predicates in buildCategorySearchWhere()
+
+
+-- ----------  notes  ----------
+
+-- controls_tags_gin / faqs_tags_gin from 001_init.sql stay in place for raw tags @> ARRAY[...] queries
+-- the planner only uses these indexes when the filter is selective; tiny tables still seq scan
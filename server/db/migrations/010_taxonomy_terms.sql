@@ -0,0 +1,61 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  admin-managed taxonomy stored in postgres
+--
+--   - one row per section / category / subcategory, per entity (controls | faqs)
+--   - categories point at their section, subcategories at their category (parent_id)
+--   - position keeps manifest order; is_default marks a category's defaultSubcategory
+--   - retired terms keep their row (retired_at) so history stays readable and names can be reused
+--   - seed.ts imports taxonomy.json here once, when the table is empty
+--   - safe to re-run (if not exists)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  taxonomy_terms table  ----------
+
+create table if not exists public.taxonomy_terms (
+  id uuid primary key default gen_random_uuid(),  -- stable id  -->  admin rename / merge / retire target
+  entity text not null check (entity in ('controls', 'faqs')),  -- same buckets as taxonomy.json
+  kind text not null check (kind in ('section', 'category', 'subcategory')),
+  name text not null check (btrim(name) <> ''),  -- display label (also the value stored on controls / faqs rows)
+  parent_id uuid null references public.taxonomy_terms (id),  -- section (for categories) or category (for subcategories)
+  is_default boolean not null default false,  -- defaultSubcategory flag
+  position int not null default 0,  -- sibling order (manifest order)
+  retired_at timestamptz null,  -- null = live term
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  updated_by text null,
+
+  constraint taxonomy_terms_parent_check check ((kind = 'section') = (parent_id is null)),
+  constraint taxonomy_terms_default_check check (not is_default or kind = 'subcategory')
+);
+
+
+-- ----------  live-name uniqueness  ----------
+
+-- sections per entity, subcategories per category (case-insensitive, live terms only)
+create unique index if not exists taxonomy_terms_live_name_idx
+  on public.taxonomy_terms (
+    entity,
+    kind,
+    coalesce(parent_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    lower(name)
+  )
+  where retired_at is null;
+
+-- category names are unique across the whole entity (taxonomy.json keys categories by name)
+create unique index if not exists taxonomy_terms_live_category_idx
+  on public.taxonomy_terms (entity, lower(name))
+  where kind = 'category' and retired_at is null;
+
+
+-- ----------  read-path indexes  ----------
+
+-- manifest build + child lookups during merge / retire
+create index if not exists taxonomy_terms_parent_idx
+  on public.taxonomy_terms (parent_id, position);
+
+
+-- ----------  notes  ----------
+
+-- a section with no live categories does not appear in the exported manifest (taxonomy.json has no section list)
+-- controls / faqs rows store labels, not term ids, so renames + merges rewrite those rows in the same transaction
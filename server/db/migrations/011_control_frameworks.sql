@@ -0,0 +1,45 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  compliance framework mappings for controls (SOC 2, ISO 27001, NIST CSF)
+--
+--   - framework_requirements holds one row per framework requirement (framework + requirement id + title)
+--   - control_frameworks is the many-to-many join between controls and requirements
+--   - admins attach / detach mappings through the graphql mutations; seed.ts imports frameworks.json once
+--   - mappings follow the live control (deleting the control row removes its mappings)
+--   - safe to re-run (if not exists)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  framework_requirements table  ----------
+
+create table if not exists public.framework_requirements (
+  id uuid primary key default gen_random_uuid(),
+  framework text not null check (framework in ('soc2', 'iso27001', 'nist_csf')),  -- graphql ComplianceFramework enum, lowercased
+  requirement_id text not null check (btrim(requirement_id) <> ''),  -- framework's own id (CC6.1, A.5.15, PR.AA-01)
+  title text not null check (btrim(title) <> ''),  -- requirement title shown next to the id
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  updated_by text null
+);
+
+-- one row per requirement id per framework (case-insensitive)
+create unique index if not exists framework_requirements_unique_idx
+  on public.framework_requirements (framework, lower(requirement_id));
+
+
+-- ----------  control_frameworks join table  ----------
+
+create table if not exists public.control_frameworks (
+  control_id uuid not null references public.controls (id) on delete cascade,
+  requirement_id uuid not null references public.framework_requirements (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  created_by text null,
+
+  primary key (control_id, requirement_id)
+);
+
+
+-- ----------  read-path indexes  ----------
+
+-- framework filter + coverage reads start from the requirement side
+create index if not exists control_frameworks_requirement_idx
+  on public.control_frameworks (requirement_id, control_id);
@@ -0,0 +1,41 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  evidence records attached to controls (files + links)
+--
+--   - one row per evidence item: title, file or link, effective / expiry dates, public or nda visibility
+--   - file evidence stores a blob key; the bytes live in the blob store (server/blob), never in postgres
+--   - link evidence stores the url; downloads redirect through /api/evidence/:id so visibility is always checked
+--   - evidence follows the live control (deleting the control row removes its evidence rows)
+--   - safe to re-run (if not exists)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  control_evidence table  ----------
+
+create table if not exists public.control_evidence (
+  id uuid primary key default gen_random_uuid(),
+  control_id uuid not null references public.controls (id) on delete cascade,
+  title text not null check (btrim(title) <> ''),
+  kind text not null check (kind in ('file', 'link')),
+  url text null,  -- link evidence only
+  blob_key text null,  -- file evidence only (evidence/<uuid>)
+  file_name text null,  -- original upload name, used for Content-Disposition
+  content_type text null,
+  byte_size integer null check (byte_size is null or byte_size >= 0),
+  effective_date date not null,
+  expires_on date null check (expires_on is null or expires_on >= effective_date),
+  visibility text not null default 'public' check (visibility in ('public', 'nda')),
+  created_at timestamptz not null default now(),
+  created_by text null,
+
+  check (
+    (kind = 'link' and url is not null and blob_key is null)
+    or (kind = 'file' and blob_key is not null and url is null)
+  )
+);
+
+
+-- ----------  read-path indexes  ----------
+
+-- connection pages load evidence for every visible control in one query
+create index if not exists control_evidence_control_idx
+  on public.control_evidence (control_id, effective_date desc);
@@ -0,0 +1,36 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  api keys for machine clients of /graphql
+--
+--   - one row per issued key: name, scopes, usage counters, revocation
+--   - only the sha-256 hash of the key is stored; the plaintext is shown once, when the key is issued
+--   - key_prefix keeps the first characters so admins can tell keys apart in listings
+--   - revoked keys keep their row (revoked_at) so usage history stays readable
+--   - safe to re-run (if not exists)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  api_keys table  ----------
+
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (btrim(name) <> ''),  -- who the key was issued to (partner portal, integration)
+  key_prefix text not null,  -- first characters of the plaintext key, safe to display
+  key_hash text not null,  -- sha-256 hex of the full plaintext key
+  scopes text[] not null check (
+    cardinality(scopes) > 0
+    and scopes <@ array['read:public', 'read:nda', 'admin']::text[]
+  ),
+  usage_count bigint not null default 0,  -- authenticated requests made with this key
+  last_used_at timestamptz null,  -- null until the first request
+  created_at timestamptz not null default now(),
+  created_by text null,
+  revoked_at timestamptz null,  -- null = active key
+  revoked_by text null
+);
+
+
+-- ----------  key lookup  ----------
+
+-- every key-authenticated request resolves its key by hash
+create unique index if not exists api_keys_key_hash_idx
+  on public.api_keys (key_hash);
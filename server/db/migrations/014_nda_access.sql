@@ -0,0 +1,56 @@
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+-- TL;DR  -->  nda-gated content tier + access requests
+--
+--   - controls + faqs get a visibility column (public | nda); existing rows stay public
+--   - viewers without nda clearance see nda rows as locked teasers (title / question + taxonomy only)
+--   - nda_access_requests holds one row per request: pending -> approved (time-limited grant) or denied
+--   - an approved row with expires_at in the future is the grant; denying an approved row revokes it
+--   - one pending request per email at a time
+--   - safe to re-run (if not exists)
+-- ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+
+-- ----------  content visibility  ----------
+
+alter table public.controls
+  add column if not exists visibility text not null default 'public'
+  check (visibility in ('public', 'nda'));
+
+alter table public.faqs
+  add column if not exists visibility text not null default 'public'
+  check (visibility in ('public', 'nda'));
+
+
+-- ----------  nda_access_requests table  ----------
+
+create table if not exists public.nda_access_requests (
+  id uuid primary key default gen_random_uuid(),
+  requester_email text not null check (btrim(requester_email) <> ''),  -- verified identity that asked (grants match on it)
+  company text null,
+  reason text null,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'denied')),
+  created_at timestamptz not null default now(),
+  decided_at timestamptz null,
+  decided_by text null,
+  decision_note text null,
+  expires_at timestamptz null,  -- approved rows only: the grant ends here
+
+  constraint nda_access_requests_grant_check check ((status = 'approved') = (expires_at is not null))
+);
+
+
+-- ----------  request + grant lookups  ----------
+
+-- one open request per requester (case-insensitive)
+create unique index if not exists nda_access_requests_pending_idx
+  on public.nda_access_requests (lower(requester_email))
+  where status = 'pending';
+
+-- every signed-in request without a role checks for a live grant
+create index if not exists nda_access_requests_grant_idx
+  on public.nda_access_requests (lower(requester_email), expires_at desc)
+  where status = 'approved';
+
+-- admin queue reads newest first, optionally by status
+create index if not exists nda_access_requests_status_idx
+  on public.nda_access_requests (status, created_at desc);
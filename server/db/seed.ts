@@ -7,6 +7,9 @@
   - upserts by stable natural keys (control_key / faq_key)
   - persists taxonomy metadata into db columns once migration 003 exists
   - batches seed writes per table to reduce round-trips while keeping deterministic metrics
+  - writes a content_revisions snapshot for every row it inserts or changes (asOf history)
+  - bootstraps taxonomy_terms from taxonomy.json once (admins own the vocabulary after that)
+  - bootstraps framework requirements + control mappings from frameworks.json once (admins own them after that)
   - prints deterministic metrics for repeatable runs (+ pagination practice)
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~*/
 
@@ -14,7 +17,19 @@ import fs from 'node:fs/promises'; // read seed json files from disk
 import path from 'node:path'; // build absolute paths for data folder
 import { fileURLToPath } from 'node:url'; // resolve current file location in ESM
 
-import { ensureDbSchema, closeDbPool, getDbPool } from './index'; // schema runner + pool lifecycle
+import {
+  ensureDbSchema,
+  closeDbPool,
+  getDbPool,
+  withTransaction
+} from './index'; // schema runner + pool lifecycle + transaction helper
+import { applyTaxonomyManifest } from '../services/taxonomyService'; // same manifest import as adminImportTaxonomy
+import {
+  applyFrameworkManifest,
+  readFrameworkManifestFile,
+  type FrameworkManifest,
+  type FrameworkSeedResult
+} from '../services/frameworkService'; // frameworks.json -> framework_requirements + control_frameworks
 import {
   assertValidTaxonomyManifest,
   buildSearchText,
@@ -372,8 +387,35 @@ export async function seedControls(
           or public.controls.source_url is distinct from excluded.source_url
           or public.controls.tags is distinct from excluded.tags
           or public.controls.search_text is distinct from excluded.search_text
-        returning (xmax = 0) as inserted
-      )
+        returning *, (xmax = 0) as inserted
+      ),
+      revised as (
+        insert into public.content_revisions (
+          entity,
+          entity_id,
+          revision,
+          action,
+          snapshot,
+          actor,
+          request_id
+        )
+        select
+          'control',
+          u.id,
+          coalesce(
+            (
+              select max(r.revision)
+              from public.content_revisions r
+              where r.entity = 'control' and r.entity_id = u.id
+            ),
+            0
+          ) + 1,
+          case when u.inserted then 'create' else 'update' end,
+          to_jsonb(u) - 'inserted' - 'search_text' - 'search_vector',
+          coalesce(u.updated_by, 'seed'),
+          'seed'
+        from upserted u
+      ) -- every inserted or changed row gets a revision so asOf reads see seed history too
       select
         coalesce(count(*) filter (where inserted), 0)::int as inserted,
         coalesce(count(*) filter (where not inserted), 0)::int as updated,
@@ -485,8 +527,35 @@ export async function seedFaqs(rows: SeedFaqRow[]): Promise<SeedWriteMetrics> {
           or public.faqs.subcategory is distinct from excluded.subcategory
           or public.faqs.tags is distinct from excluded.tags
           or public.faqs.search_text is distinct from excluded.search_text
-        returning (xmax = 0) as inserted
-      )
+        returning *, (xmax = 0) as inserted
+      ),
+      revised as (
+        insert into public.content_revisions (
+          entity,
+          entity_id,
+          revision,
+          action,
+          snapshot,
+          actor,
+          request_id
+        )
+        select
+          'faq',
+          u.id,
+          coalesce(
+            (
+              select max(r.revision)
+              from public.content_revisions r
+              where r.entity = 'faq' and r.entity_id = u.id
+            ),
+            0
+          ) + 1,
+          case when u.inserted then 'create' else 'update' end,
+          to_jsonb(u) - 'inserted' - 'search_text' - 'search_vector',
+          coalesce(u.updated_by, 'seed'),
+          'seed'
+        from upserted u
+      ) -- every inserted or changed row gets a revision so asOf reads see seed history too
       select
         coalesce(count(*) filter (where inserted), 0)::int as inserted,
         coalesce(count(*) filter (where not inserted), 0)::int as updated,
@@ -512,6 +581,48 @@ export async function seedFaqs(rows: SeedFaqRow[]): Promise<SeedWriteMetrics> {
   }
 }
 
+// ---------- taxonomy terms bootstrap ----------
+
+export async function seedTaxonomyTerms(
+  manifest: TaxonomyManifest
+): Promise<number> {
+  const pool = getDbPool();
+  const existing = await pool.query<{ count: string }>(
+    'select count(*)::text as count from public.taxonomy_terms;'
+  );
+
+  if (Number(existing.rows[0]?.count ?? '0') > 0) return 0; // admin edits win over the file after the first seed
+
+  const result = await withTransaction(run =>
+    applyTaxonomyManifest({ query: run }, manifest, {
+      actor: 'seed',
+      requestId: 'seed',
+      auth: null // trusted bootstrap, not a request
+    })
+  ); // one transaction so a half-imported vocabulary never lands
+
+  return result.created;
+}
+
+// ---------- framework mappings bootstrap ----------
+
+export async function seedControlFrameworks(
+  manifest: FrameworkManifest
+): Promise<FrameworkSeedResult> {
+  const pool = getDbPool();
+  const existing = await pool.query<{ count: string }>(
+    'select count(*)::text as count from public.framework_requirements;'
+  );
+
+  if (Number(existing.rows[0]?.count ?? '0') > 0) {
+    return { requirements: 0, mappings: 0 }; // admin attach / detach wins over the file after the first seed
+  }
+
+  return withTransaction(run =>
+    applyFrameworkManifest({ query: run }, manifest, 'seed')
+  ); // runs after the controls upsert so every mapped control_key resolves
+}
+
 // ---------- deterministic metrics ----------
 
 export async function runSeed(): Promise<void> {
@@ -519,6 +630,7 @@ export async function runSeed(): Promise<void> {
   const controlsPath = path.join(dataDir, 'controls.json'); // controls json path  -->  single source of truth
   const faqsPath = path.join(dataDir, 'faqs.json');
   const taxonomyManifest = await readTaxonomyManifest(); // taxonomy must validate before any db work begins
+  const frameworkManifest = await readFrameworkManifestFile(); // same for the framework mappings
 
   const controlsRaw = await readJsonFile<any>(controlsPath).catch(err => {
     throw new Error(
@@ -539,6 +651,8 @@ export async function runSeed(): Promise<void> {
 
   const controlsResult = await seedControls(controlRows); // batched deterministic write for controls
   const faqsResult = await seedFaqs(faqRows); // batched deterministic write for faqs
+  const taxonomyTermsCreated = await seedTaxonomyTerms(taxonomyManifest); // no-op once the table has terms
+  const frameworksResult = await seedControlFrameworks(frameworkManifest); // no-op once the table has requirements
 
   const pool = getDbPool();
   const controlsCountRes = await pool.query<{ count: string }>(
@@ -567,6 +681,9 @@ export async function runSeed(): Promise<void> {
   console.log({
     controlsSkipped: controlsResult.skipped,
     faqsSkipped: faqsResult.skipped,
+    taxonomyTermsCreated,
+    frameworkRequirementsCreated: frameworksResult.requirements,
+    frameworkMappingsCreated: frameworksResult.mappings,
     controlsInputRows: controlRows.length,
     faqsInputRows: faqRows.length
   });
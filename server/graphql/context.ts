@@ -5,9 +5,13 @@
   - Constructs per-request state (requestId, memoization map, auth state)
   - Injects shared process-level dependencies (cache instance)
   - Wraps DB access with optional performance instrumentation
-  - Derives demo-grade admin auth from request headers through the auth module
-  - Exports: GraphQLContext type, createGraphQLContext()
-  - Consumed by: GraphQL server initialization (context configuration)
+  - Exposes db.transaction so service writes can commit a row + its audit event atomically
+  - Injects the shared blob store (evidence files) the same way as the cache
+  - Derives auth from the request (verified bearer jwt, or the opt-in dev header) through the auth module
+  - Context creation is async because bearer verification may fetch the issuer's jwks
+  - api keys (x-api-key) are resolved through the request's own db adapter, so the lookup shows in perf logs
+  - Exports: GraphQLContext type, createGraphQLContext(), createRequestContext()
+  - Consumed by: GraphQL server initialization (context configuration) and REST routes that call services
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 // GraphQL Yoga request context type (framework-provided per request metadata)
@@ -16,22 +20,31 @@ import type { YogaInitialContext } from 'graphql-yoga';
 import { randomUUID } from 'node:crypto';
 
 // Database access layer (raw query + optional timed instrumentation wrapper)
-import { createTimedQuery, query } from '../db';
+import { createTimedQuery, query, withTransaction } from '../db';
 // Shared in-memory or distributed cache instance (process-scoped)
 import { cache } from '../cache';
 import type { Cache } from '../cache';
-import { extractAuth, type AuthState } from '../auth'; // request-derived demo auth extraction
+// Shared blob store for uploaded evidence files (process-scoped)
+import { blobStore, type BlobStore } from '../blob';
+import { extractAuth, type AuthState } from '../auth'; // request-derived bearer / dev-mode auth extraction
 
 // Enables DB query timing instrumentation when DEBUG_PERF=true
 const DEBUG_PERF = process.env.DEBUG_PERF === 'true';
 
 // ---------- GraphQLContext contract (injected into all resolvers) ----------
 
+export type DbQueryAdapter = { query: typeof query }; // minimal query surface shared by the pool adapter and transaction clients
+
+export type DbAdapter = DbQueryAdapter & {
+  transaction: <T>(callback: (tx: DbQueryAdapter) => Promise<T>) => Promise<T>; // BEGIN/COMMIT on one client, ROLLBACK on throw
+};
+
 export type GraphQLContext = {
   requestId: string; // unique per request
   memo: Map<string, Promise<unknown>>; // request-scoped async result deduplication
   cache: Cache; // shared cache instance
-  db: { query: typeof query }; // database adapter exposed to resolvers
+  blobs: BlobStore; // shared blob store (evidence files)
+  db: DbAdapter; // database adapter exposed to resolvers
   auth: AuthState; // request-derived auth state used by admin-ready mutations
 };
 
@@ -53,26 +66,45 @@ export type GraphQLContext = {
 
 export function createGraphQLContext(
   initialContext: YogaInitialContext
-): GraphQLContext {
+): Promise<GraphQLContext> {
+  return createRequestContext(initialContext.request); // yoga hands us a fetch Request
+}
+
+/**
+ * Same per-request context for REST routes (e.g. /api/export) so they
+ * can call the services with identical db, cache, memo, and auth wiring.
+ */
+
+export async function createRequestContext(
+  request: Request
+): Promise<GraphQLContext> {
   const requestId = randomUUID(); // stable trace id for all logs produced by this request
-  const auth = extractAuth(initialContext.request); // derive demo-grade admin state from request headers once
 
   // Log request entry for trace correlation across services
   // console.log(`[request:${requestId}] Incoming GraphQL request`);
   console.log(`[gql]  requestId = ${requestId}  event = request_start`);
 
   // DB adapter: wraps base query function with request-scoped timing instrumentation
-  const dbAdapter = {
+  const dbAdapter: DbAdapter = {
     query: createTimedQuery({
       requestId,
       enabled: DEBUG_PERF
-    })
+    }),
+    transaction: callback =>
+      withTransaction(run =>
+        callback({
+          query: createTimedQuery({ requestId, enabled: DEBUG_PERF, run })
+        })
+      ) // transaction statements keep the same timing logs as pool queries
   };
 
+  const auth = await extractAuth(request, dbAdapter); // bearer jwt, api key, or dev-mode header resolved once per request
+
   return {
     requestId, // expose trace id to resolvers and debugContext
     memo: new Map<string, Promise<unknown>>(), // one memo map per request
     cache, // shared process-level cache instance
+    blobs: blobStore, // shared process-level blob store
     db: dbAdapter, // request-aware db adapter
     auth // request-derived auth replaces the old hardcoded stub
   };
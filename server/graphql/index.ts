@@ -6,6 +6,7 @@
   - injects a per-request GraphQLContext for every request
   - decorates the shared cache with request-aware logging
   - preserves the full cache contract while adding debug visibility
+  - rejects too-deep / too-costly documents during validation (./queryLimits, GRAPHQL_MAX_DEPTH / GRAPHQL_MAX_COST)
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import { createYoga, createSchema } from 'graphql-yoga'; // GraphQL Yoga runtime + schema builder
@@ -13,6 +14,7 @@ import { createYoga, createSchema } from 'graphql-yoga'; // GraphQL Yoga runtime
 import { typeDefs } from './schema'; // GraphQL SDL contract
 import { resolvers } from './resolvers'; // resolver execution map
 
+import { useQueryLimits } from './queryLimits'; // depth + cost validation plugin
 import { createGraphQLContext } from './context'; // per-request dependency injection factory
 import type { GraphQLContext } from './context'; // shared request context type
 import type { Cache } from '../cache'; // shared cache interface so the decorator preserves the full contract
@@ -38,17 +40,17 @@ function decorateCacheWithRequestLogging(
     },
 
     set(key, value, ttlSeconds) {
-      cache.set(key, value, ttlSeconds); // direct cache writes pass straight through to the underlying adapter
+      return cache.set(key, value, ttlSeconds); // direct cache writes pass straight through to the underlying adapter
     },
 
     del(key) {
-      cache.del(key); // direct cache deletes pass straight through to the underlying adapter
+      return cache.del(key); // direct cache deletes pass straight through to the underlying adapter
     },
 
     async getOrSet(key, ttlSeconds, fn) {
-      const existing = cache.get(key); // probe once here so hit/miss logging stays centralized in one place
-
       if (debugEnabled) {
+        const existing = await cache.get(key); // probe only when logging  -->  avoids an extra network round trip for redis
+
         console.log(
           `[cache] requestId=${requestId} ${
             existing !== null ? 'hit' : 'miss'
@@ -66,7 +68,7 @@ function decorateCacheWithRequestLogging(
         ); // request-aware invalidation log helps trace admin-ready cache clears
       }
 
-      cache.invalidatePrefix?.(prefix); // preserve optional prefix invalidation support from the underlying adapter
+      return cache.invalidatePrefix?.(prefix); // preserve optional prefix invalidation support (and its promise) from the underlying adapter
     }
   };
 }
@@ -80,8 +82,9 @@ export function createGraphQLHandler() {
     schema, // executable schema consumed by GraphQL Yoga
     graphqlEndpoint: '/graphql', // keep the endpoint explicit for clarity
     graphiql: process.env.NODE_ENV !== 'production', // enable GraphiQL outside production
+    plugins: [useQueryLimits()], // limits read from env once per handler
     context: async initialContext => {
-      const ctx = createGraphQLContext(initialContext); // build the per-request dependency container first
+      const ctx = await createGraphQLContext(initialContext); // build the per-request dependency container first (auth may fail with a 401)
 
       ctx.cache = decorateCacheWithRequestLogging(ctx.cache, ctx.requestId); // preserve full cache interface while adding request-aware logs
 
@@ -2,27 +2,87 @@
   TL;DR  -->  admin mutation resolvers
 
   - keeps mutation resolvers thin and service-first
-  - preserves admin/local-dev auth gating in one place
+  - every resolver declares the rbac permission it needs (assertPermission at the resolver boundary)
   - exposes safe cache invalidation hooks for pre-write verification
   - adds controls/faqs CRUD mutations that delegate to service-layer writes
+  - deletes are soft; adminRestoreControl/adminRestoreFaq bring rows back
+  - adds submit-for-review / publish / archive workflow mutations for both entities
+  - adds revert mutations that replay a stored revision
+  - adds admin taxonomy term create / rename / merge / retire / import mutations
+  - adds adminImport (csv / json bulk upsert with dry-run)
+  - adds control framework attach / detach mutations + a requirement rename (content:publish, it changes every mapped control)
+  - adds control evidence upload / attach-link / delete mutations
+  - adds api key issue / revoke mutations (apikeys:manage)
+  - adds adminSetVisibility (content:publish) + nda access request / approve / deny mutations (access:manage)
   - returns mapped node payloads and readable delete results for GraphiQL verification
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import type { GraphQLContext } from './context'; // shared GraphQL context contract
+import { assertPermission, assertSignedIn, type Permission } from '../auth'; // rbac gate (roles -> permissions) + signed-in viewer gate
 import { invalidateControls, invalidateFaqs } from '../cache/invalidation'; // domain-level invalidation helpers
 import {
   createControl,
   updateControl,
-  deleteControl
+  deleteControl,
+  restoreControl,
+  revertControl,
+  transitionControlStatus,
+  setControlVisibility,
+  attachControlFramework,
+  detachControlFramework,
+  renameFrameworkRequirement,
+  uploadControlEvidence,
+  attachControlEvidenceLink,
+  deleteControlEvidence
 } from '../services/controlsService'; // controls write methods live in the service layer
-import { createFaq, updateFaq, deleteFaq } from '../services/faqsService'; // faq write methods live in the service layer
+import {
+  createFaq,
+  updateFaq,
+  deleteFaq,
+  restoreFaq,
+  revertFaq,
+  transitionFaqStatus,
+  setFaqVisibility
+} from '../services/faqsService'; // faq write methods live in the service layer
 import {
   type CreateControlInput,
   type UpdateControlInput,
   type CreateFaqInput,
-  type UpdateFaqInput
+  type UpdateFaqInput,
+  type ContentStatus,
+  type ControlEvidenceFileInput,
+  type ControlEvidenceLinkInput,
+  type EvidenceVisibility,
+  type ContentVisibility,
+  type AccessRequestInput
 } from '../services/validation'; // shared write input contracts align resolver/service boundaries
-import { mapControlNode, mapFaqNode } from './nodeMappers'; // shared db-row -> graphql-node mappers
+import {
+  createTaxonomyTerm,
+  importTaxonomyManifest,
+  mergeTaxonomyTerms,
+  renameTaxonomyTerm,
+  retireTaxonomyTerm,
+  type TaxonomyChangeResult,
+  type TaxonomyKind
+} from '../services/taxonomyService'; // taxonomy writes + cascades live in the service layer
+import { importContent } from '../services/importService'; // bulk csv / json upsert
+import type { ComplianceFramework } from '../services/frameworkService'; // framework db values
+import { issueApiKey, revokeApiKey } from '../services/apiKeyService'; // machine-client key writes
+import {
+  approveAccessRequest,
+  createAccessRequest,
+  denyAccessRequest
+} from '../services/accessRequestService'; // nda access request writes
+import {
+  mapAccessRequestNode,
+  mapApiKeyNode,
+  mapContentStatus,
+  mapContentVisibility,
+  mapControlFrameworkNode,
+  mapControlNode,
+  mapFaqNode,
+  mapTaxonomyTermNode
+} from './nodeMappers'; // shared db-row -> graphql-node mappers
 
 // ---------- local mutation context ----------
 
@@ -46,16 +106,55 @@ type DeleteResult = {
   requestId: string; // request trace id for terminal correlation
 };
 
-// ---------- helpers ----------
+type ContentEntity = 'CONTROL' | 'FAQ'; // graphql ContentEntity enum values
 
-export function assertAdminOrLocalDev(ctx: MutationContext): void {
-  const isLocalDev = process.env.NODE_ENV !== 'production'; // local dev still allows GraphiQL mutation verification without real auth plumbing
+type ComplianceFrameworkArg = 'SOC2' | 'ISO27001' | 'NIST_CSF'; // graphql ComplianceFramework enum values
 
-  if (!ctx.auth.isAdmin && !isLocalDev) {
-    throw new Error('FORBIDDEN: admin only'); // production requires request-derived admin auth
-  }
+type StatusChangeResult = {
+  ok: boolean; // success flag for GraphQL clients and GraphiQL smoke tests
+  entity: ContentEntity; // which table changed
+  id: string; // changed record id
+  status: string; // ContentStatus enum value after the transition
+  requestId: string; // request trace id for terminal correlation
+};
+
+type ContentVisibilityArg = 'PUBLIC' | 'NDA'; // graphql ContentVisibility enum values
+
+type VisibilityChangeResult = {
+  ok: boolean; // success flag for GraphQL clients and GraphiQL smoke tests
+  entity: ContentEntity; // which table changed
+  id: string; // changed record id
+  visibility: string; // ContentVisibility enum value after the change
+  requestId: string; // request trace id for terminal correlation
+};
+
+type ControlsOrFaqs = 'CONTROLS' | 'FAQS'; // graphql ControlsOrFaqs enum values
+
+type EvidenceVisibilityArg = 'PUBLIC' | 'NDA'; // graphql EvidenceVisibility enum values
+
+function toEvidenceVisibility(
+  visibility: EvidenceVisibilityArg | null | undefined
+): EvidenceVisibility | null {
+  return visibility ? (visibility.toLowerCase() as EvidenceVisibility) : null; // null  -->  service default (public)
+}
+
+type TaxonomyKindArg = 'SECTION' | 'CATEGORY' | 'SUBCATEGORY'; // graphql TaxonomyKind enum values
+
+type ApiKeyScopeArg = 'READ_PUBLIC' | 'READ_NDA' | 'ADMIN'; // graphql ApiKeyScope enum values
+
+function toApiKeyScope(scope: ApiKeyScopeArg): string {
+  return scope.toLowerCase().replace('_', ':'); // READ_NDA -> read:nda (validation rejects anything else)
 }
 
+const STATUS_PERMISSIONS: Record<ContentStatus, Permission> = {
+  draft: 'content:write', // not a transition target today; listed so the map stays total
+  in_review: 'content:write', // editors submit their own work
+  published: 'content:publish', // going live needs a reviewer or admin
+  archived: 'content:publish' // taking content down is the same decision
+};
+
+// ---------- helpers ----------
+
 function logInvalidation(args: {
   requestId: string;
   scope: InvalidationScope;
@@ -90,6 +189,39 @@ function buildDeleteResult(args: {
   };
 }
 
+async function changeStatus(
+  args: { entity: ContentEntity; id: string },
+  to: ContentStatus,
+  ctx: GraphQLContext
+): Promise<StatusChangeResult> {
+  assertPermission(ctx.auth, STATUS_PERMISSIONS[to]); // auth stays at the resolver boundary
+
+  const row =
+    args.entity === 'CONTROL'
+      ? await transitionControlStatus(args.id, to, ctx)
+      : await transitionFaqStatus(args.id, to, ctx); // service checks the transition, writes, audits, and invalidates
+
+  return {
+    ok: true, // transition completed successfully
+    entity: args.entity, // echo the entity so one payload type serves both tables
+    id: row.id, // changed row id
+    status: mapContentStatus(row.status), // db lowercase -> graphql enum
+    requestId: ctx.requestId // trace id for GraphiQL-to-terminal matching
+  };
+}
+
+function buildTaxonomyChangeResult(
+  result: TaxonomyChangeResult,
+  requestId: string
+) {
+  return {
+    ok: true, // taxonomy write committed
+    term: mapTaxonomyTermNode(result.term), // surviving / changed term
+    affectedItems: result.affectedItems, // controls / faqs rows relabeled by the cascade
+    requestId // trace id for GraphiQL-to-terminal matching
+  };
+}
+
 // ---------- mutation resolvers ----------
 
 export const mutationResolvers = {
@@ -99,9 +231,9 @@ export const mutationResolvers = {
       _args: unknown,
       ctx: MutationContext
     ): Promise<InvalidationResult> => {
-      assertAdminOrLocalDev(ctx); // allow local verification now while keeping production restricted
+      assertPermission(ctx.auth, 'cache:invalidate'); // auth stays at the resolver boundary
 
-      const invalidatedPrefix = invalidateControls(ctx.cache); // clear all cached controls list reads
+      const invalidatedPrefix = await invalidateControls(ctx.cache); // clear all cached controls list reads
 
       logInvalidation({
         requestId: ctx.requestId, // tie invalidation log to this GraphQL request
@@ -121,9 +253,9 @@ export const mutationResolvers = {
       _args: unknown,
       ctx: MutationContext
     ): Promise<InvalidationResult> => {
-      assertAdminOrLocalDev(ctx); // allow local verification now while keeping production restricted
+      assertPermission(ctx.auth, 'cache:invalidate'); // auth stays at the resolver boundary
 
-      const invalidatedPrefix = invalidateFaqs(ctx.cache); // clear all cached faq list reads
+      const invalidatedPrefix = await invalidateFaqs(ctx.cache); // clear all cached faq list reads
 
       logInvalidation({
         requestId: ctx.requestId, // tie invalidation log to this GraphQL request
@@ -143,7 +275,7 @@ export const mutationResolvers = {
       args: { input: CreateControlInput },
       ctx: GraphQLContext
     ) => {
-      assertAdminOrLocalDev(ctx); // auth stays at the resolver boundary
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
       const row = await createControl(args.input, ctx); // service validates, writes, recomputes search_text, and invalidates
       return mapControlNode(row); // GraphQL node mapping stays centralized and symmetric
     },
@@ -153,7 +285,7 @@ export const mutationResolvers = {
       args: { id: string; input: UpdateControlInput },
       ctx: GraphQLContext
     ) => {
-      assertAdminOrLocalDev(ctx); // auth stays at the resolver boundary
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
       const row = await updateControl(args.id, args.input, ctx); // service validates, writes, recomputes search_text, and invalidates
       return mapControlNode(row); // GraphQL node mapping stays centralized and symmetric
     },
@@ -163,20 +295,170 @@ export const mutationResolvers = {
       args: { id: string },
       ctx: GraphQLContext
     ): Promise<DeleteResult> => {
-      assertAdminOrLocalDev(ctx); // auth stays at the resolver boundary
-      const deleted = await deleteControl(args.id, ctx); // service deletes and invalidates
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const deleted = await deleteControl(args.id, ctx); // service soft-deletes, audits, and invalidates
       return buildDeleteResult({
         requestId: ctx.requestId,
         id: deleted.id
       }); // delete payload stays tiny and reviewer-friendly
     },
 
+    adminRestoreControl: async (
+      _parent: unknown,
+      args: { id: string },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const row = await restoreControl(args.id, ctx); // service clears deleted_at, audits, and invalidates
+      return mapControlNode(row); // GraphQL node mapping stays centralized and symmetric
+    },
+
+    adminRevertControl: async (
+      _parent: unknown,
+      args: { id: string; revisionId: string },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const row = await revertControl(args.id, args.revisionId, ctx); // service re-validates the snapshot, writes, audits, and invalidates
+      return mapControlNode(row); // GraphQL node mapping stays centralized and symmetric
+    },
+
+    adminAttachControlFramework: async (
+      _parent: unknown,
+      args: {
+        controlId: string;
+        input: {
+          framework: ComplianceFrameworkArg;
+          requirementId: string;
+          requirementTitle: string;
+        };
+      },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const row = await attachControlFramework(
+        args.controlId,
+        {
+          ...args.input,
+          framework: args.input.framework.toLowerCase() as ComplianceFramework
+        },
+        ctx
+      ); // service upserts the requirement, maps it, audits, and invalidates
+      return mapControlNode(row);
+    },
+
+    adminDetachControlFramework: async (
+      _parent: unknown,
+      args: {
+        controlId: string;
+        framework: ComplianceFrameworkArg;
+        requirementId: string;
+      },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const row = await detachControlFramework(
+        args.controlId,
+        {
+          framework: args.framework.toLowerCase() as ComplianceFramework,
+          requirementId: args.requirementId
+        },
+        ctx
+      ); // the requirement row stays for other controls + coverage gaps
+      return mapControlNode(row);
+    },
+
+    adminRenameFrameworkRequirement: async (
+      _parent: unknown,
+      args: {
+        framework: ComplianceFrameworkArg;
+        requirementId: string;
+        title: string;
+      },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:publish'); // the title changes on every mapped control, published ones included
+      const result = await renameFrameworkRequirement(
+        {
+          framework: args.framework.toLowerCase() as ComplianceFramework,
+          requirementId: args.requirementId,
+          requirementTitle: args.title
+        },
+        ctx
+      ); // service renames, audits each mapped control, and invalidates
+
+      return {
+        ok: true, // rename committed (or the title was already in place)
+        requirement: mapControlFrameworkNode({
+          framework: result.framework,
+          requirement_id: result.requirementId,
+          requirement_title: result.requirementTitle
+        }),
+        affectedControls: result.affectedControls,
+        requestId: ctx.requestId // trace id for GraphiQL-to-terminal matching
+      };
+    },
+
+    adminUploadControlEvidence: async (
+      _parent: unknown,
+      args: {
+        controlId: string;
+        input: Omit<ControlEvidenceFileInput, 'visibility'> & {
+          visibility?: EvidenceVisibilityArg | null;
+        };
+      },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const row = await uploadControlEvidence(
+        args.controlId,
+        {
+          ...args.input,
+          visibility: toEvidenceVisibility(args.input.visibility)
+        },
+        ctx
+      ); // service validates, stores the file, writes the row, audits, and invalidates
+      return mapControlNode(row);
+    },
+
+    adminAttachControlEvidenceLink: async (
+      _parent: unknown,
+      args: {
+        controlId: string;
+        input: Omit<ControlEvidenceLinkInput, 'visibility'> & {
+          visibility?: EvidenceVisibilityArg | null;
+        };
+      },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const row = await attachControlEvidenceLink(
+        args.controlId,
+        {
+          ...args.input,
+          visibility: toEvidenceVisibility(args.input.visibility)
+        },
+        ctx
+      );
+      return mapControlNode(row);
+    },
+
+    adminDeleteControlEvidence: async (
+      _parent: unknown,
+      args: { id: string },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const row = await deleteControlEvidence(args.id, ctx); // the stored file is removed after the row commits
+      return mapControlNode(row);
+    },
+
     adminCreateFaq: async (
       _parent: unknown,
       args: { input: CreateFaqInput },
       ctx: GraphQLContext
     ) => {
-      assertAdminOrLocalDev(ctx); // auth stays at the resolver boundary
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
       const row = await createFaq(args.input, ctx); // service validates, writes, recomputes search_text, and invalidates
       return mapFaqNode(row); // GraphQL node mapping stays centralized and symmetric
     },
@@ -186,7 +468,7 @@ export const mutationResolvers = {
       args: { id: string; input: UpdateFaqInput },
       ctx: GraphQLContext
     ) => {
-      assertAdminOrLocalDev(ctx); // auth stays at the resolver boundary
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
       const row = await updateFaq(args.id, args.input, ctx); // service validates, writes, recomputes search_text, and invalidates
       return mapFaqNode(row); // GraphQL node mapping stays centralized and symmetric
     },
@@ -196,12 +478,236 @@ export const mutationResolvers = {
       args: { id: string },
       ctx: GraphQLContext
     ): Promise<DeleteResult> => {
-      assertAdminOrLocalDev(ctx); // auth stays at the resolver boundary
-      const deleted = await deleteFaq(args.id, ctx); // service deletes and invalidates
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const deleted = await deleteFaq(args.id, ctx); // service soft-deletes, audits, and invalidates
       return buildDeleteResult({
         requestId: ctx.requestId,
         id: deleted.id
       }); // delete payload stays tiny and reviewer-friendly
+    },
+
+    adminRestoreFaq: async (
+      _parent: unknown,
+      args: { id: string },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const row = await restoreFaq(args.id, ctx); // service clears deleted_at, audits, and invalidates
+      return mapFaqNode(row); // GraphQL node mapping stays centralized and symmetric
+    },
+
+    adminRevertFaq: async (
+      _parent: unknown,
+      args: { id: string; revisionId: string },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const row = await revertFaq(args.id, args.revisionId, ctx); // service re-validates the snapshot, writes, audits, and invalidates
+      return mapFaqNode(row); // GraphQL node mapping stays centralized and symmetric
+    },
+
+    adminSubmitForReview: async (
+      _parent: unknown,
+      args: { entity: ContentEntity; id: string },
+      ctx: GraphQLContext
+    ): Promise<StatusChangeResult> => changeStatus(args, 'in_review', ctx),
+
+    adminPublish: async (
+      _parent: unknown,
+      args: { entity: ContentEntity; id: string },
+      ctx: GraphQLContext
+    ): Promise<StatusChangeResult> => changeStatus(args, 'published', ctx),
+
+    adminArchive: async (
+      _parent: unknown,
+      args: { entity: ContentEntity; id: string },
+      ctx: GraphQLContext
+    ): Promise<StatusChangeResult> => changeStatus(args, 'archived', ctx),
+
+    adminSetVisibility: async (
+      _parent: unknown,
+      args: {
+        entity: ContentEntity;
+        id: string;
+        visibility: ContentVisibilityArg;
+      },
+      ctx: GraphQLContext
+    ): Promise<VisibilityChangeResult> => {
+      assertPermission(ctx.auth, 'content:publish'); // deciding who can read a row is a publishing decision
+      const visibility = args.visibility.toLowerCase() as ContentVisibility; // enum -> db value
+
+      const row =
+        args.entity === 'CONTROL'
+          ? await setControlVisibility(args.id, visibility, ctx)
+          : await setFaqVisibility(args.id, visibility, ctx); // service writes, audits, and invalidates
+
+      return {
+        ok: true, // change committed (or was already in place)
+        entity: args.entity, // echo the entity so one payload type serves both tables
+        id: row.id, // changed row id
+        visibility: mapContentVisibility(row.visibility), // db lowercase -> graphql enum
+        requestId: ctx.requestId // trace id for GraphiQL-to-terminal matching
+      };
+    },
+
+    adminCreateTaxonomyTerm: async (
+      _parent: unknown,
+      args: {
+        input: {
+          entity: ControlsOrFaqs;
+          kind: TaxonomyKindArg;
+          name: string;
+          parentId?: string | null;
+          isDefault?: boolean | null;
+        };
+      },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const result = await createTaxonomyTerm(
+        {
+          ...args.input,
+          entity: args.input.entity === 'CONTROLS' ? 'controls' : 'faqs',
+          kind: args.input.kind.toLowerCase() as TaxonomyKind
+        },
+        ctx
+      ); // service validates the parent, writes, re-checks the manifest, and invalidates
+      return buildTaxonomyChangeResult(result, ctx.requestId);
+    },
+
+    adminRenameTaxonomyTerm: async (
+      _parent: unknown,
+      args: { id: string; name: string },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const result = await renameTaxonomyTerm(args.id, args.name, ctx); // service relabels existing rows in the same transaction
+      return buildTaxonomyChangeResult(result, ctx.requestId);
+    },
+
+    adminMergeTaxonomyTerms: async (
+      _parent: unknown,
+      args: { sourceId: string; targetId: string },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const result = await mergeTaxonomyTerms(
+        args.sourceId,
+        args.targetId,
+        ctx
+      ); // source rows move onto the target, then the source retires
+      return buildTaxonomyChangeResult(result, ctx.requestId);
+    },
+
+    adminRetireTaxonomyTerm: async (
+      _parent: unknown,
+      args: { id: string },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const result = await retireTaxonomyTerm(args.id, ctx); // refuses terms still used by live items
+      return buildTaxonomyChangeResult(result, ctx.requestId);
+    },
+
+    adminImportTaxonomy: async (
+      _parent: unknown,
+      args: { manifest: string },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const result = await importTaxonomyManifest(args.manifest, ctx); // same validation as taxonomy.json on disk
+      return { ok: true, ...result, requestId: ctx.requestId };
+    },
+
+    adminImport: async (
+      _parent: unknown,
+      args: {
+        entity: ControlsOrFaqs;
+        format: 'CSV' | 'JSON';
+        content: string;
+        dryRun?: boolean | null;
+      },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // auth stays at the resolver boundary
+      const report = await importContent(
+        {
+          entity: args.entity === 'CONTROLS' ? 'controls' : 'faqs',
+          format: args.format === 'CSV' ? 'csv' : 'json',
+          content: args.content,
+          dryRun: args.dryRun === true
+        },
+        ctx
+      ); // service validates every row, then upserts in one transaction unless dry-run
+      return {
+        ...report,
+        ok: report.errors.length === 0, // dry-runs with no errors are ok too
+        entity: args.entity, // echo the graphql enum value
+        requestId: ctx.requestId // trace id for GraphiQL-to-terminal matching
+      };
+    },
+
+    adminIssueApiKey: async (
+      _parent: unknown,
+      args: { input: { name: string; scopes: ApiKeyScopeArg[] } },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'apikeys:manage'); // auth stays at the resolver boundary
+      const issued = await issueApiKey(
+        {
+          name: args.input.name,
+          scopes: args.input.scopes.map(toApiKeyScope)
+        },
+        ctx
+      ); // only the hash is stored; the plaintext goes back once
+      return {
+        ok: true,
+        apiKey: mapApiKeyNode(issued.row),
+        key: issued.key,
+        requestId: ctx.requestId
+      };
+    },
+
+    adminRevokeApiKey: async (
+      _parent: unknown,
+      args: { id: string },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'apikeys:manage'); // auth stays at the resolver boundary
+      return mapApiKeyNode(await revokeApiKey(args.id, ctx)); // soft revoke keeps counters readable
+    },
+
+    requestAccess: async (
+      _parent: unknown,
+      args: { input?: AccessRequestInput | null },
+      ctx: GraphQLContext
+    ) => {
+      const requesterEmail = assertSignedIn(ctx.auth, 'request nda access'); // grants match on the verified email, so anonymous requests are useless
+      return mapAccessRequestNode(
+        await createAccessRequest(requesterEmail, args.input ?? {}, ctx)
+      );
+    },
+
+    adminApproveAccessRequest: async (
+      _parent: unknown,
+      args: { id: string; days?: number | null },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'access:manage'); // auth stays at the resolver boundary
+      return mapAccessRequestNode(
+        await approveAccessRequest(args.id, args.days, ctx)
+      ); // grant starts now and ends after the given days
+    },
+
+    adminDenyAccessRequest: async (
+      _parent: unknown,
+      args: { id: string; note?: string | null },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'access:manage'); // auth stays at the resolver boundary
+      return mapAccessRequestNode(
+        await denyAccessRequest(args.id, args.note, ctx)
+      ); // denying an approved request revokes the grant
     }
   }
 };
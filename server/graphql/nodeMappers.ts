@@ -4,11 +4,52 @@
   - centralizes camelCase mapping for controls + faqs
   - keeps read resolvers and mutation resolvers aligned
   - prevents duplicated node-shape logic across graphql files
+  - passes service-computed search highlights through unchanged
+  - maps audit rows into AuditEvent nodes (diff jsonb -> changes list)
+  - maps lowercase workflow status values onto the ContentStatus enum
+  - maps revision rows into ControlRevision / FaqRevision nodes (snapshot -> node)
+  - maps taxonomy_terms rows into TaxonomyTerm nodes (lowercase values -> enums)
+  - maps questionnaire answers onto QuestionnaireAnswer nodes (status + source kind -> enums)
+  - maps control framework mappings onto ControlFramework nodes (lowercase framework -> enum + label)
+  - maps the framework coverage matrix onto FrameworkCoverage nodes (framework values -> enum)
+  - maps control evidence rows onto ControlEvidence nodes (download path instead of the stored url / blob key)
+  - maps api_keys rows onto ApiKey nodes (scope values -> enum, never the key hash)
+  - maps content visibility + the per-request locked flag, and nda_access_requests rows onto AccessRequest nodes
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import { toIso } from '../services/pagination'; // shared timestamp normalization
 import type { DbControlRow } from '../services/controlsService'; // controls db row contract
 import type { DbFaqRow } from '../services/faqsService'; // faqs db row contract
+import type { DbAuditEventRow } from '../services/auditService'; // audit log row contract
+import type { ContentStatus, ContentVisibility } from '../services/validation'; // workflow status + visibility values
+import type { DbRevisionRow } from '../services/revisionService'; // revision snapshot row contract
+import type { DbTaxonomyTermRow } from '../services/taxonomyService'; // admin taxonomy term row contract
+import type { QuestionnaireAnswer } from '../services/questionnaireService'; // pre-filled questionnaire answer contract
+import type { FrameworkCoverage } from '../services/coverageService'; // coverage matrix shape
+import {
+  FRAMEWORK_LABELS,
+  type ControlFrameworkMapping
+} from '../services/frameworkService'; // control <-> framework requirement contract
+import {
+  getEvidenceDownloadPath,
+  isEvidenceExpired,
+  type DbControlEvidenceRow
+} from '../services/evidenceService'; // evidence row contract + download route
+import type { DbApiKeyRow } from '../services/apiKeyService'; // api key row contract
+import {
+  isGrantActive,
+  type DbAccessRequestRow
+} from '../services/accessRequestService'; // nda access request row contract
+
+export function mapContentStatus(status: ContentStatus | undefined) {
+  return (status ?? 'published').toUpperCase(); // seed fallback rows carry no status and are always public
+}
+
+export function mapContentVisibility(
+  visibility: ContentVisibility | undefined
+) {
+  return (visibility ?? 'public').toUpperCase(); // seed fallback rows carry no visibility and are always public
+}
 
 export function mapControlNode(row: DbControlRow) {
   return {
@@ -21,7 +62,40 @@ export function mapControlNode(row: DbControlRow) {
     subcategory: row.subcategory, // expose finer taxonomy bucket when present
     tags: row.tags ?? [], // GraphQL list stays non-null even when db/fallback tags are absent
     sourceUrl: row.source_url, // db snake_case -> api camelCase
-    updatedAt: toIso(row.updated_at) // normalize db timestamp into GraphQL-friendly iso string
+    updatedAt: toIso(row.updated_at), // normalize db timestamp into GraphQL-friendly iso string
+    deletedAt: row.deleted_at ? toIso(row.deleted_at) : null, // null for live rows (only admin includeDeleted reads see deleted ones)
+    status: mapContentStatus(row.status), // db lowercase -> graphql enum
+    visibility: mapContentVisibility(row.visibility), // db lowercase -> graphql enum
+    locked: row.locked === true, // set by the read path for uncleared viewers only
+    highlights: row.highlights ?? null, // null outside search reads (mutations, plain lists)
+    frameworks: row.frameworks?.map(mapControlFrameworkNode), // unset on write payloads  -->  Control.frameworks loads them
+    evidence: row.evidence?.map(mapControlEvidenceNode) // unset on most write payloads  -->  Control.evidence loads them
+  };
+}
+
+export function mapControlEvidenceNode(row: DbControlEvidenceRow) {
+  return {
+    id: row.id,
+    title: row.title,
+    kind: row.kind.toUpperCase(), // file | link -> enum
+    fileName: row.file_name,
+    contentType: row.content_type,
+    byteSize: row.byte_size,
+    effectiveDate: row.effective_date,
+    expiresOn: row.expires_on,
+    isExpired: isEvidenceExpired(row), // computed per request, so cached pages never go stale on it
+    visibility: row.visibility.toUpperCase(), // public | nda -> enum
+    downloadUrl: getEvidenceDownloadPath(row.id), // links redirect through the route too, so nda urls never reach the page
+    createdAt: toIso(row.created_at)
+  };
+}
+
+export function mapControlFrameworkNode(mapping: ControlFrameworkMapping) {
+  return {
+    framework: mapping.framework.toUpperCase(), // soc2 | iso27001 | nist_csf -> enum
+    label: FRAMEWORK_LABELS[mapping.framework],
+    requirementId: mapping.requirement_id,
+    requirementTitle: mapping.requirement_title
   };
 }
 
@@ -35,6 +109,126 @@ export function mapFaqNode(row: DbFaqRow) {
     category: row.category, // pass through category as-is
     subcategory: row.subcategory, // expose finer taxonomy bucket when present
     tags: row.tags ?? [], // GraphQL list stays non-null even when db/fallback tags are absent
-    updatedAt: toIso(row.updated_at) // normalize db timestamp into GraphQL-friendly iso string
+    updatedAt: toIso(row.updated_at), // normalize db timestamp into GraphQL-friendly iso string
+    deletedAt: row.deleted_at ? toIso(row.deleted_at) : null, // null for live rows (only admin includeDeleted reads see deleted ones)
+    status: mapContentStatus(row.status), // db lowercase -> graphql enum
+    visibility: mapContentVisibility(row.visibility), // db lowercase -> graphql enum
+    locked: row.locked === true, // set by the read path for uncleared viewers only
+    highlights: row.highlights ?? null // null outside search reads (mutations, plain lists)
+  };
+}
+
+export function mapAuditEventNode(row: DbAuditEventRow) {
+  return {
+    id: row.id, // GraphQL node id
+    actor: row.actor, // who made the change
+    requestId: row.request_id, // db snake_case -> api camelCase
+    entity: row.entity.toUpperCase(), // db 'control' | 'faq' -> AuditEntity enum
+    entityId: row.entity_id, // db snake_case -> api camelCase
+    action: row.action.toUpperCase(), // db 'create' | 'update' | 'delete' -> AuditAction enum
+    changes: Object.entries(row.diff ?? {}).map(([field, change]) => ({
+      field, // api field name recorded by the audit service
+      before: change.before === null ? null : JSON.stringify(change.before), // JSON-encode so strings + arrays share one scalar type
+      after: change.after === null ? null : JSON.stringify(change.after)
+    })),
+    createdAt: toIso(row.created_at) // normalize db timestamp into GraphQL-friendly iso string
+  };
+}
+
+function mapRevisionMeta(row: DbRevisionRow<unknown>) {
+  return {
+    id: row.id, // revision id (adminRevert* target)
+    revision: row.revision, // per-record sequence number
+    action: row.action.toUpperCase(), // db lowercase -> AuditAction enum
+    actor: row.actor, // who made the write
+    requestId: row.request_id, // db snake_case -> api camelCase
+    createdAt: toIso(row.created_at), // normalize db timestamp into GraphQL-friendly iso string
+    revertedFrom: row.reverted_from // set only on revisions written by a revert
+  };
+}
+
+export function mapControlRevisionNode(row: DbRevisionRow<DbControlRow>) {
+  return {
+    ...mapRevisionMeta(row),
+    control: mapControlNode(row.snapshot) // snapshot columns match the live row shape
+  };
+}
+
+export function mapFaqRevisionNode(row: DbRevisionRow<DbFaqRow>) {
+  return {
+    ...mapRevisionMeta(row),
+    faq: mapFaqNode(row.snapshot) // snapshot columns match the live row shape
+  };
+}
+
+export function mapTaxonomyTermNode(row: DbTaxonomyTermRow) {
+  return {
+    id: row.id,
+    entity: row.entity.toUpperCase(), // controls | faqs -> ControlsOrFaqs enum
+    kind: row.kind.toUpperCase(), // db lowercase -> TaxonomyKind enum
+    name: row.name,
+    parentId: row.parent_id,
+    isDefault: row.is_default,
+    position: row.position,
+    retiredAt: row.retired_at ? toIso(row.retired_at) : null // null for live terms
+  };
+}
+
+export function mapQuestionnaireAnswerNode(answer: QuestionnaireAnswer) {
+  return {
+    ...answer,
+    status: answer.status.toUpperCase(), // answered | unmapped | missing_source -> enum
+    sources: answer.sources.map(source => ({
+      ...source,
+      kind: source.kind.toUpperCase() // control | faq -> ContentEntity enum
+    }))
+  };
+}
+
+export function mapFrameworkCoverageNode(coverage: FrameworkCoverage) {
+  return {
+    totalControls: coverage.totalControls,
+    frameworks: coverage.frameworks.map(column => ({
+      ...column,
+      framework: column.framework.toUpperCase() // soc2 | iso27001 | nist_csf -> enum
+    })),
+    categories: coverage.categories.map(row => ({
+      ...row,
+      cells: row.cells.map(cell => ({
+        ...cell,
+        framework: cell.framework.toUpperCase()
+      }))
+    }))
+  };
+}
+
+export function mapApiKeyNode(row: DbApiKeyRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.key_prefix,
+    scopes: row.scopes.map(scope => scope.replace(':', '_').toUpperCase()), // read:nda -> READ_NDA
+    usageCount: Number(row.usage_count), // pg bigint arrives as a string
+    lastUsedAt: row.last_used_at ? toIso(row.last_used_at) : null, // null until the first request
+    createdAt: toIso(row.created_at),
+    createdBy: row.created_by,
+    revokedAt: row.revoked_at ? toIso(row.revoked_at) : null, // null for active keys
+    revokedBy: row.revoked_by
+  };
+}
+
+export function mapAccessRequestNode(row: DbAccessRequestRow) {
+  return {
+    id: row.id,
+    requesterEmail: row.requester_email,
+    company: row.company,
+    reason: row.reason,
+    status: row.status.toUpperCase(), // pending | approved | denied -> enum
+    createdAt: toIso(row.created_at),
+    decidedAt: row.decided_at ? toIso(row.decided_at) : null, // null while pending
+    decidedBy: row.decided_by,
+    decisionNote: row.decision_note,
+    expiresAt: row.expires_at ? toIso(row.expires_at) : null, // approved rows only
+    isActive: isGrantActive(row) // computed per request, so an expired grant reads inactive without a write
   };
 }
@@ -0,0 +1,253 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  graphql query depth + cost limits (yoga plugin)
+
+  - runs as an extra validation rule, so an expensive document is rejected before any resolver or db work
+  - depth counts nested field levels per operation (root fields are depth 1), following fragments
+  - each named fragment is measured once per operation, and measuring stops as soon as a limit is passed  -->  fragment chains can't make the rule itself expensive
+  - cost adds 1 per field; paged fields (first / firstPerKind) multiply their selection by the clamped page size
+  - page sizes passed as $variables are priced at the max page size  -->  yoga caches validation per document, so the price must not depend on variables
+  - aiAnswer carries an extra flat cost because it runs the full retrieve -> generate pipeline
+  - introspection + __typename are free, so GraphiQL and codegen keep working
+  - GRAPHQL_MAX_DEPTH / GRAPHQL_MAX_COST set the limits; 0 turns a check off
+  - rejections use QUERY_TOO_DEEP / QUERY_TOO_COSTLY codes with the measured value + limit in extensions
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import {
+  Kind,
+  type GraphQLNamedType,
+  type GraphQLField,
+  type GraphQLOutputType,
+  type FieldNode,
+  type SelectionSetNode,
+  type ValidationContext,
+  type ValidationRule
+} from 'graphql'; // ast kinds + types only (yoga may load a different graphql build, so no instanceof helpers)
+import { createGraphQLError, type Plugin } from 'graphql-yoga'; // structured errors + plugin contract
+import { parseNumberEnv } from '../db/index'; // same env parsing as the DB_POOL_* settings
+import { MAX_PAGE_SIZE, clampFirst } from '../services/pagination'; // the page size the services will actually read
+
+// ---------- shapes ----------
+
+export type QueryLimits = {
+  maxDepth: number; // 0 disables the depth check
+  maxCost: number; // 0 disables the cost check
+};
+
+export type QueryMeasure = {
+  depth: number;
+  cost: number;
+};
+
+// ---------- config ----------
+
+const PAGE_SIZE_ARGS = ['first', 'firstPerKind']; // args that decide how many child nodes a field returns
+
+const FIELD_COSTS: Record<string, number> = {
+  'Query.aiAnswer': 100 // retrieval + model call per request
+};
+
+type Walk = {
+  context: ValidationContext;
+  limits: QueryLimits;
+  fragments: Map<string, QueryMeasure>; // measured once per operation, however often they are spread
+};
+
+const ZERO: QueryMeasure = { depth: 0, cost: 0 };
+
+export function getQueryLimitsFromEnv(): QueryLimits {
+  return {
+    maxDepth: parseNumberEnv('GRAPHQL_MAX_DEPTH', 10),
+    maxCost: parseNumberEnv('GRAPHQL_MAX_COST', 5_000)
+  };
+}
+
+// ---------- measuring ----------
+
+function getFieldDef(
+  parentType: GraphQLNamedType | undefined,
+  name: string
+): GraphQLField<unknown, unknown> | undefined {
+  if (!parentType || !('getFields' in parentType)) return; // unions only expose __typename directly
+  const fields = parentType.getFields() as Record<
+    string,
+    GraphQLField<unknown, unknown> | undefined
+  >; // input types never show up in a selection set
+  return fields[name];
+}
+
+function getNamedType(type: GraphQLOutputType): GraphQLNamedType {
+  let named: GraphQLOutputType = type;
+  while ('ofType' in named) named = named.ofType; // unwrap [T!]! down to T
+  return named;
+}
+
+function getPageSize(
+  fieldDef: GraphQLField<unknown, unknown>,
+  node: FieldNode
+): number {
+  const pageArg = fieldDef.args.find(arg => PAGE_SIZE_ARGS.includes(arg.name));
+  if (!pageArg) return 1; // plain field  -->  its selection is paid once
+
+  const value = node.arguments?.find(
+    arg => arg.name.value === pageArg.name
+  )?.value;
+  if (!value) return clampFirst(Number(pageArg.defaultValue)); // omitted  -->  schema default (revisions 20, firstPerKind 5)
+  if (value.kind === Kind.INT) return clampFirst(Number(value.value));
+  return MAX_PAGE_SIZE; // $variable  -->  worst case
+}
+
+function isOverLimit(walk: Walk, measure: QueryMeasure): boolean {
+  const { maxDepth, maxCost } = walk.limits;
+  return (
+    (maxDepth > 0 && measure.depth > maxDepth) ||
+    (maxCost > 0 && measure.cost > maxCost)
+  );
+}
+
+function measureFragment(
+  walk: Walk,
+  name: string,
+  fragmentPath: ReadonlySet<string>
+): QueryMeasure {
+  const known = walk.fragments.get(name);
+  if (known) return known;
+
+  const fragment = walk.context.getFragment(name);
+  if (!fragment || fragmentPath.has(name)) return ZERO; // unknown fragments + cycles are reported by the standard rules
+
+  const measure = measureSelectionSet(
+    walk,
+    fragment.selectionSet,
+    walk.context.getSchema().getType(fragment.typeCondition.name.value),
+    new Set([...fragmentPath, name])
+  );
+  walk.fragments.set(name, measure); // a fragment measures the same wherever it is spread
+  return measure;
+}
+
+function measureSelectionSet(
+  walk: Walk,
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLNamedType | undefined,
+  fragmentPath: ReadonlySet<string>
+): QueryMeasure {
+  let depth = 0;
+  let cost = 0;
+
+  for (const selection of selectionSet.selections) {
+    let measure = ZERO;
+
+    if (selection.kind === Kind.FIELD) {
+      measure = measureField(walk, selection, parentType, fragmentPath);
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const typeName = selection.typeCondition?.name.value;
+      measure = measureSelectionSet(
+        walk,
+        selection.selectionSet,
+        typeName ? walk.context.getSchema().getType(typeName) : parentType,
+        fragmentPath
+      );
+    } else {
+      measure = measureFragment(walk, selection.name.value, fragmentPath);
+    }
+
+    depth = Math.max(depth, measure.depth);
+    cost += measure.cost;
+    if (isOverLimit(walk, { depth, cost })) break; // depth + cost only grow from here  -->  the operation is already rejected
+  }
+
+  return { depth, cost };
+}
+
+function measureField(
+  walk: Walk,
+  node: FieldNode,
+  parentType: GraphQLNamedType | undefined,
+  fragmentPath: ReadonlySet<string>
+): QueryMeasure {
+  const name = node.name.value;
+  if (name.startsWith('__')) return ZERO; // introspection + __typename
+
+  const fieldDef = getFieldDef(parentType, name); // unknown fields are reported by FieldsOnCorrectType
+  const child = node.selectionSet
+    ? measureSelectionSet(
+        walk,
+        node.selectionSet,
+        fieldDef ? getNamedType(fieldDef.type) : undefined,
+        fragmentPath
+      )
+    : ZERO;
+
+  const ownCost = FIELD_COSTS[`${parentType?.name}.${name}`] ?? 1;
+  const pageSize = fieldDef ? getPageSize(fieldDef, node) : 1;
+
+  return {
+    depth: 1 + child.depth,
+    cost: ownCost + pageSize * child.cost
+  };
+}
+
+// ---------- validation rule ----------
+
+export function createQueryLimitsRule(limits: QueryLimits): ValidationRule {
+  return context => ({
+    OperationDefinition(node) {
+      const rootType =
+        context.getSchema().getRootType(node.operation) ?? undefined;
+      const { depth, cost } = measureSelectionSet(
+        { context, limits, fragments: new Map() },
+        node.selectionSet,
+        rootType,
+        new Set()
+      );
+
+      if (limits.maxDepth > 0 && depth > limits.maxDepth) {
+        context.reportError(
+          createGraphQLError(
+            `QUERY_TOO_DEEP: query depth ${depth} exceeds the limit of ${limits.maxDepth}`,
+            {
+              nodes: [node],
+              extensions: {
+                code: 'QUERY_TOO_DEEP',
+                depth,
+                maxDepth: limits.maxDepth
+              }
+            }
+          )
+        );
+      }
+
+      if (limits.maxCost > 0 && cost > limits.maxCost) {
+        context.reportError(
+          createGraphQLError(
+            `QUERY_TOO_COSTLY: query cost ${cost} exceeds the limit of ${limits.maxCost}; request smaller pages or fewer nested fields`,
+            {
+              nodes: [node],
+              extensions: {
+                code: 'QUERY_TOO_COSTLY',
+                cost,
+                maxCost: limits.maxCost
+              }
+            }
+          )
+        );
+      }
+
+      return false; // measuring already walked the whole operation
+    }
+  });
+}
+
+// ---------- yoga plugin ----------
+
+export function useQueryLimits(
+  limits: QueryLimits = getQueryLimitsFromEnv()
+): Plugin {
+  const queryLimitsRule = createQueryLimitsRule(limits);
+
+  return {
+    onValidate({ addValidationRule }) {
+      addValidationRule(queryLimitsRule); // one rule per handler; the limits never change per request
+    }
+  };
+}
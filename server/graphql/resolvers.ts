@@ -9,11 +9,30 @@
   - preserves the existing GraphQL contract for the frontend
   - exposes richer taxonomy metadata for later consumers
   - keeps overview search grouped while delegating composition to the service layer
+  - delegates aiAnswer to the ai pipeline in server/ai/graph.ts
+  - serves the auditEvents connection (audit:read) from the audit service
+  - gates unpublished status filters + includeDeleted behind content:write
+  - resolves the Control.revisions / Faq.revisions fields (audit:read)
+  - normalizes the optional asOf point-in-time arg before it reaches the services
+  - serves the taxonomy tree (manifest + counts) from the taxonomy service
+  - serves taxonomyTerms + taxonomyExport (content:write) for the taxonomy mutations
+  - serves questionnaires + pre-filled questionnaire answers from the questionnaire service
+  - maps the controlsConnection framework filter + resolves Control.frameworks (page rows carry them)
+  - serves the framework coverage matrix from the coverage service
+  - resolves Control.evidence (page rows carry it; write payloads load it on demand)
+  - serves the admin-only apiKeys list (apikeys:manage); debugContext shows the request's api key prefix
+  - serves the viewer's ndaAccess status + the admin accessRequests queue (access:manage)
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import type { GraphQLContext } from './context'; // shared request context injected by GraphQL Yoga
 import { mutationResolvers } from './mutations'; // admin-ready invalidation + CRUD mutation hooks
-import { isValidCursor, encodeCursor, toIso } from '../services/pagination'; // shared cursor + timestamp helpers
+import { assertPermission, getPermissions } from '../auth'; // rbac gate shared with the mutations
+import {
+  isValidCursor,
+  buildRowCursor,
+  type SearchMode,
+  type TagMatch
+} from '../services/pagination'; // shared cursor helpers
 import {
   getControlsPage,
   type DbControlRow,
@@ -28,7 +47,49 @@ import {
   getOverviewSearch,
   type OverviewSearchArgs
 } from '../services/searchService'; // grouped overview search service composes existing entity read paths
-import { mapControlNode, mapFaqNode } from './nodeMappers'; // shared db-row -> graphql-node mappers
+import {
+  exportTaxonomyManifest,
+  getTaxonomyTree,
+  listTaxonomyTerms
+} from '../services/taxonomyService'; // manifest tree + live counts + admin-managed terms
+import {
+  buildAuditCursor,
+  getAuditEventsPage,
+  type AuditEntity
+} from '../services/auditService'; // append-only audit log reads
+import {
+  mapAccessRequestNode,
+  mapApiKeyNode,
+  mapAuditEventNode,
+  mapControlEvidenceNode,
+  mapControlFrameworkNode,
+  mapControlNode,
+  mapControlRevisionNode,
+  mapFaqNode,
+  mapFaqRevisionNode,
+  mapFrameworkCoverageNode,
+  mapQuestionnaireAnswerNode,
+  mapTaxonomyTermNode
+} from './nodeMappers'; // shared db-row -> graphql-node mappers
+import { getRevisions } from '../services/revisionService'; // immutable revision snapshots
+import {
+  loadControlFrameworks,
+  type ComplianceFramework
+} from '../services/frameworkService'; // control <-> framework requirement mappings
+import {
+  getQuestionnaire,
+  listQuestionnaires
+} from '../services/questionnaireService'; // questionnaire mapping + pre-filled answers
+import { getFrameworkCoverage } from '../services/coverageService'; // categories x frameworks aggregate
+import { loadControlEvidence } from '../services/evidenceService'; // evidence files + links per control
+import { listApiKeys } from '../services/apiKeyService'; // machine-client api keys
+import {
+  getViewerNdaAccess,
+  listAccessRequests,
+  type AccessRequestStatus
+} from '../services/accessRequestService'; // nda clearance + access request queue
+import { runAiAnswer } from '../ai/graph'; // retrieve -> generate -> validate -> format pipeline
+import { normalizeAsOf, type ContentStatus } from '../services/validation'; // workflow status values + asOf rules
 
 // ---------- data-source logging ----------
 
@@ -52,17 +113,29 @@ function logDataSource(args: {
   ); // one structured line makes terminal scanning easier during backend verification
 }
 
+// ---------- workflow status arg ----------
+
+type ContentStatusArg = 'DRAFT' | 'IN_REVIEW' | 'PUBLISHED' | 'ARCHIVED'; // graphql ContentStatus enum values
+
+type ComplianceFrameworkArg = 'SOC2' | 'ISO27001' | 'NIST_CSF'; // graphql ComplianceFramework enum values
+
+function resolveStatusFilter(
+  status: ContentStatusArg | null | undefined,
+  ctx: GraphQLContext
+): ContentStatus | undefined {
+  if (!status) return undefined; // service defaults to published
+  if (status !== 'PUBLISHED') assertPermission(ctx.auth, 'content:write'); // drafts, reviews, and archives are content-team reads
+  return status.toLowerCase() as ContentStatus; // graphql enum -> db value
+}
+
 // ---------- connection helper ----------
 
 function buildConnectionResult<
-  T extends { id: string; updated_at: string | Date },
+  T extends { id: string; updated_at: string | Date; rank?: number },
   TNode
 >(page: ConnectionPage<T>, mapNode: (row: T) => TNode) {
   const edges = page.rows.map(row => ({
-    cursor: encodeCursor({
-      sortValue: toIso(row.updated_at), // keep cursor aligned with service/db sort order
-      id: row.id // id is the tie-breaker to keep ordering stable
-    }),
+    cursor: buildRowCursor(row), // same cursor shape as the service endCursor (rank included for FULLTEXT)
     node: mapNode(row) // convert db/service row into frontend GraphQL shape
   }));
 
@@ -85,7 +158,10 @@ export const resolvers = {
 
     debugContext: (_parent: unknown, _args: unknown, ctx: GraphQLContext) => ({
       requestId: ctx.requestId, // exposes request id so the team can match GraphiQL output to terminal logs
-      isAdmin: ctx.auth.isAdmin // exposes request-derived admin auth state for local verification
+      isAdmin: ctx.auth.isAdmin, // exposes request-derived admin auth state for local verification
+      roles: ctx.auth.roles, // request-derived rbac roles
+      permissions: getPermissions(ctx.auth), // what those roles grant
+      apiKeyPrefix: ctx.auth.apiKey?.prefix ?? null // which api key authenticated the request, if any
     }),
 
     controlsConnection: async (
@@ -95,6 +171,15 @@ export const resolvers = {
         after?: string;
         category?: string;
         search?: string;
+        searchMode?: SearchMode;
+        section?: string;
+        subcategory?: string;
+        tags?: string[];
+        tagMatch?: TagMatch;
+        framework?: ComplianceFrameworkArg | null;
+        includeDeleted?: boolean;
+        status?: ContentStatusArg | null;
+        asOf?: string | null;
       },
       ctx: GraphQLContext
     ) => {
@@ -102,7 +187,22 @@ export const resolvers = {
         throw new Error('CURSOR_ERROR: invalid after cursor'); // fail fast so bad cursors never reach the service layer
       }
 
-      const page: ControlsPage = await getControlsPage(args, ctx); // service owns db reads, filtering, pagination, cache, memo, and fallback
+      if (args.includeDeleted) assertPermission(ctx.auth, 'content:write'); // soft-deleted rows need the same permission as the writes
+      const { status, asOf, framework, ...readArgs } = args;
+      const statusFilter = resolveStatusFilter(status, ctx); // unpublished statuses are admin-only
+      const asOfFilter = normalizeAsOf(asOf); // canonical iso string or undefined for current rows
+
+      const page: ControlsPage = await getControlsPage(
+        {
+          ...readArgs,
+          ...(statusFilter ? { status: statusFilter } : {}),
+          ...(asOfFilter !== undefined ? { asOf: asOfFilter } : {}),
+          ...(framework
+            ? { framework: framework.toLowerCase() as ComplianceFramework }
+            : {}) // graphql enum -> db value
+        },
+        ctx
+      ); // service owns db reads, filtering, pagination, cache, memo, and fallback
 
       logDataSource({
         requestId: ctx.requestId, // attach the same request trace id used by cache/db logs
@@ -121,6 +221,14 @@ export const resolvers = {
         after?: string;
         category?: string;
         search?: string;
+        searchMode?: SearchMode;
+        section?: string;
+        subcategory?: string;
+        tags?: string[];
+        tagMatch?: TagMatch;
+        includeDeleted?: boolean;
+        status?: ContentStatusArg | null;
+        asOf?: string | null;
       },
       ctx: GraphQLContext
     ) => {
@@ -128,7 +236,19 @@ export const resolvers = {
         throw new Error('CURSOR_ERROR: invalid after cursor'); // fail fast so bad cursors never reach the service layer
       }
 
-      const page: FaqsPage = await getFaqsPage(args, ctx); // service owns db reads, filtering, pagination, cache, memo, and fallback
+      if (args.includeDeleted) assertPermission(ctx.auth, 'content:write'); // soft-deleted rows need the same permission as the writes
+      const { status, asOf, ...readArgs } = args;
+      const statusFilter = resolveStatusFilter(status, ctx); // unpublished statuses are admin-only
+      const asOfFilter = normalizeAsOf(asOf); // canonical iso string or undefined for current rows
+
+      const page: FaqsPage = await getFaqsPage(
+        {
+          ...readArgs,
+          ...(statusFilter ? { status: statusFilter } : {}),
+          ...(asOfFilter !== undefined ? { asOf: asOfFilter } : {})
+        },
+        ctx
+      ); // service owns db reads, filtering, pagination, cache, memo, and fallback
 
       logDataSource({
         requestId: ctx.requestId, // attach the same request trace id used by cache/db logs
@@ -140,6 +260,53 @@ export const resolvers = {
       return buildConnectionResult(page, mapFaqNode); // centralize relay connection shaping so controls/faqs stay symmetric
     },
 
+    taxonomy: async (
+      _parent: unknown,
+      args: { entity: 'CONTROLS' | 'FAQS' },
+      ctx: GraphQLContext
+    ) => {
+      const tree = await getTaxonomyTree(
+        args.entity === 'CONTROLS' ? 'controls' : 'faqs',
+        ctx
+      ); // graphql enum -> manifest entity bucket
+
+      logDataSource({
+        requestId: ctx.requestId,
+        resolverName: 'taxonomy',
+        source: tree.source,
+        returnedCount: tree.totalCount // counted rows, not tree nodes
+      });
+
+      return {
+        entity: args.entity,
+        totalCount: tree.totalCount,
+        sections: tree.sections
+      };
+    },
+
+    taxonomyTerms: async (
+      _parent: unknown,
+      args: { entity: 'CONTROLS' | 'FAQS'; includeRetired?: boolean },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // term ids + retired terms need the same permission as the writes
+      const rows = await listTaxonomyTerms(
+        args.entity === 'CONTROLS' ? 'controls' : 'faqs',
+        args.includeRetired === true,
+        ctx
+      );
+      return rows.map(mapTaxonomyTermNode);
+    },
+
+    taxonomyExport: async (
+      _parent: unknown,
+      _args: unknown,
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'content:write'); // same gate as adminImportTaxonomy
+      return exportTaxonomyManifest(ctx); // taxonomy.json file format
+    },
+
     overviewSearch: async (
       _parent: unknown,
       args: OverviewSearchArgs,
@@ -170,10 +337,200 @@ export const resolvers = {
 
       return {
         search: overview.search, // echo the normalized term actually used by the service
+        searchMode: overview.searchMode, // echo the mode actually used by the service
         controls, // grouped controls bucket for overview consumers
         faqs, // grouped faqs bucket for overview consumers
         totalCount: overview.totalCount // total remains owned by the grouped service contract
       };
+    },
+
+    frameworkCoverage: async (
+      _parent: unknown,
+      _args: unknown,
+      ctx: GraphQLContext
+    ) => {
+      const coverage = await getFrameworkCoverage(ctx);
+
+      logDataSource({
+        requestId: ctx.requestId,
+        resolverName: 'frameworkCoverage',
+        source: coverage.source,
+        returnedCount: coverage.categories.length // grid rows, not controls
+      });
+
+      return mapFrameworkCoverageNode(coverage);
+    },
+
+    questionnaires: async () => listQuestionnaires(), // manifest summaries (no content reads)
+
+    questionnaire: async (
+      _parent: unknown,
+      args: { id: string },
+      ctx: GraphQLContext
+    ) => {
+      const result = await getQuestionnaire(args.id, ctx); // published content only, same read path as the exports
+
+      return {
+        ...result,
+        answers: result.answers.map(mapQuestionnaireAnswerNode),
+        unmapped: result.unmapped.map(mapQuestionnaireAnswerNode)
+      };
+    },
+
+    aiAnswer: async (
+      _parent: unknown,
+      args: { question: string },
+      ctx: GraphQLContext
+    ) => {
+      const result = await runAiAnswer(args.question, ctx); // ai pipeline owns retrieval, provider calls, and citation validation
+
+      return {
+        ...result,
+        requestId: ctx.requestId // lets GraphiQL output be matched to the [ai] terminal log line
+      };
+    },
+
+    auditEvents: async (
+      _parent: unknown,
+      args: {
+        entity?: 'CONTROL' | 'FAQ' | null;
+        entityId?: string | null;
+        first: number;
+        after?: string | null;
+      },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'audit:read'); // audit history has its own permission
+
+      if (args.after && !isValidCursor(args.after)) {
+        throw new Error('CURSOR_ERROR: invalid after cursor'); // fail fast so bad cursors never reach the service layer
+      }
+
+      const page = await getAuditEventsPage(
+        {
+          first: args.first,
+          ...(args.entity
+            ? { entity: args.entity.toLowerCase() as AuditEntity }
+            : {}),
+          ...(args.entityId ? { entityId: args.entityId } : {}),
+          ...(args.after ? { after: args.after } : {})
+        }, // omit null/undefined props for exactOptionalPropertyTypes
+        ctx
+      ); // audit reads always hit the db (no shared cache, no seed fallback)
+
+      return {
+        edges: page.rows.map(row => ({
+          cursor: buildAuditCursor(row), // same base64url cursor shape as the entity connections
+          node: mapAuditEventNode(row)
+        })),
+        pageInfo: {
+          hasNextPage: page.hasNextPage,
+          endCursor: page.endCursor
+        },
+        totalCount: page.totalCount
+      };
+    },
+
+    apiKeys: async (
+      _parent: unknown,
+      args: { includeRevoked?: boolean | null },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'apikeys:manage'); // key inventory is admin-only
+      const rows = await listApiKeys(args.includeRevoked === true, ctx); // never cached (revocations must show immediately)
+      return rows.map(mapApiKeyNode);
+    },
+
+    ndaAccess: async (
+      _parent: unknown,
+      _args: unknown,
+      ctx: GraphQLContext
+    ) => {
+      const access = await getViewerNdaAccess(ctx); // open to everyone; anonymous viewers just read cleared=false
+      return {
+        cleared: access.cleared,
+        expiresAt: access.expiresAt,
+        request: access.request ? mapAccessRequestNode(access.request) : null
+      };
+    },
+
+    accessRequests: async (
+      _parent: unknown,
+      args: { status?: 'PENDING' | 'APPROVED' | 'DENIED' | null },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'access:manage'); // requester emails + reasons are admin-only
+      const status = args.status
+        ? (args.status.toLowerCase() as AccessRequestStatus)
+        : null; // null  -->  every status
+      const rows = await listAccessRequests(status, ctx); // never cached (decisions must show immediately)
+      return rows.map(mapAccessRequestNode);
+    }
+  },
+
+  Control: {
+    frameworks: async (
+      parent: {
+        id: string;
+        frameworks?: ReturnType<typeof mapControlFrameworkNode>[];
+      },
+      _args: unknown,
+      ctx: GraphQLContext
+    ) => {
+      if (parent.frameworks) return parent.frameworks; // connection pages load mappings with the page
+
+      const byControl = await loadControlFrameworks(ctx.db, [parent.id]); // write payloads (mutations) load on demand
+      return (byControl.get(parent.id) ?? []).map(mapControlFrameworkNode);
+    },
+
+    evidence: async (
+      parent: {
+        id: string;
+        evidence?: ReturnType<typeof mapControlEvidenceNode>[];
+      },
+      _args: unknown,
+      ctx: GraphQLContext
+    ) => {
+      if (parent.evidence) return parent.evidence; // connection pages + evidence mutations carry it
+
+      const byControl = await loadControlEvidence(ctx.db, [parent.id]); // other write payloads load on demand
+      return (byControl.get(parent.id) ?? []).map(mapControlEvidenceNode);
+    },
+
+    revisions: async (
+      parent: { id: string },
+      args: { first?: number | null },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'audit:read'); // revision history is audit history, same permission as the audit log
+
+      const rows = await getRevisions<DbControlRow>(
+        'control',
+        parent.id,
+        args.first ?? 20,
+        ctx
+      ); // newest first, straight from postgres (never cached)
+
+      return rows.map(mapControlRevisionNode);
+    }
+  },
+
+  Faq: {
+    revisions: async (
+      parent: { id: string },
+      args: { first?: number | null },
+      ctx: GraphQLContext
+    ) => {
+      assertPermission(ctx.auth, 'audit:read'); // revision history is audit history, same permission as the audit log
+
+      const rows = await getRevisions<DbFaqRow>(
+        'faq',
+        parent.id,
+        args.first ?? 20,
+        ctx
+      ); // newest first, straight from postgres (never cached)
+
+      return rows.map(mapFaqRevisionNode);
     }
   },
 
@@ -7,8 +7,27 @@
   - exposes admin-ready cache invalidation mutations
   - exposes taxonomy metadata without breaking current query args
   - adds a grouped overview search contract for later frontend consumers
+  - adds a SearchMode arg (SUBSTRING | FULLTEXT) to every search-capable query
+  - exposes optional search highlights on Control + Faq (null when the read had no search term)
   - adds backend-only admin CRUD mutation inputs + payloads for GraphiQL verification
-  - keeps future AI/query ideas as comments only until implemented
+  - exposes the grounded aiAnswer query (retrieve -> generate -> validate -> format)
+  - exposes the admin-only auditEvents connection over the append-only audit log
+  - admin-only includeDeleted arg + restore mutations for soft-deleted controls/faqs
+  - ContentStatus workflow: admin-only status filter + submit/publish/archive mutations
+  - admin-only revisions field on Control + Faq and revert mutations
+  - optional asOf (ISO timestamp) on both connections + overviewSearch for point-in-time reads
+  - section / subcategory / tags (ANY | ALL) filters on both connections
+  - taxonomy(entity) query: manifest sections -> categories -> subcategories with live counts
+  - admin-managed taxonomy terms: list / export queries + create / rename / merge / retire / import mutations
+  - adminImport: csv / json bulk upsert of controls or faqs with dry-run + per-row errors
+  - questionnaires / questionnaire(id): CAIQ / SIG-style answers pre-filled from mapped controls + faqs
+  - Control.frameworks (SOC 2 / ISO 27001 / NIST CSF requirements), a framework filter, attach / detach mutations, and a requirement rename
+  - frameworkCoverage: category x framework coverage matrix with per-requirement counts and gaps
+  - Control.evidence (files + links, public / nda) with admin upload / attach-link / delete mutations
+  - debugContext exposes the request's rbac roles + permissions
+  - machine-client api keys: admin-only apiKeys query + issue / revoke mutations (x-api-key header)
+  - ContentVisibility (PUBLIC | NDA) on Control + Faq; uncleared viewers get locked teasers
+  - nda access requests: ndaAccess + requestAccess for viewers, accessRequests + approve / deny for admins
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 export const typeDefs = /* GraphQL */ `
@@ -17,6 +36,9 @@ export const typeDefs = /* GraphQL */ `
   type DebugContext {
     requestId: String!
     isAdmin: Boolean!
+    roles: [String!]! # editor / reviewer / admin
+    permissions: [String!]! # granted by the roles (content:write, content:publish, cache:invalidate, audit:read, apikeys:manage, access:manage)
+    apiKeyPrefix: String # set when the request authenticated with an api key
   }
 
   # ----------  pagination primitives  ----------
@@ -26,8 +48,35 @@ export const typeDefs = /* GraphQL */ `
     endCursor: String
   }
 
+  # ----------  publishing workflow  ----------
+
+  # DRAFT -> IN_REVIEW -> PUBLISHED -> ARCHIVED (public reads only ever see PUBLISHED)
+  enum ContentStatus {
+    DRAFT
+    IN_REVIEW
+    PUBLISHED
+    ARCHIVED
+  }
+
+  enum ContentEntity {
+    CONTROL
+    FAQ
+  }
+
+  # PUBLIC rows read in full for everyone; NDA rows read as locked teasers until the viewer is cleared
+  enum ContentVisibility {
+    PUBLIC
+    NDA
+  }
+
   # ----------  nodes  ----------
 
+  # one matched fragment; matches are wrapped in <mark>...</mark> (field = title | description | question | answer)
+  type SearchHighlight {
+    field: String!
+    fragment: String!
+  }
+
   type Control {
     id: ID!
     controlKey: String!
@@ -39,6 +88,58 @@ export const typeDefs = /* GraphQL */ `
     tags: [String!]!
     sourceUrl: String
     updatedAt: String!
+    deletedAt: String
+    status: ContentStatus!
+    visibility: ContentVisibility!
+    locked: Boolean! # true when NDA content is hidden from this viewer (description, sourceUrl, evidence blank)
+    highlights: [SearchHighlight!]
+    frameworks: [ControlFramework!]!
+    evidence: [ControlEvidence!]!
+    revisions(first: Int = 20): [ControlRevision!]!
+  }
+
+  # ----------  control evidence  ----------
+
+  enum EvidenceKind {
+    FILE
+    LINK
+  }
+
+  # PUBLIC evidence downloads for everyone; NDA evidence is listed but only downloads for cleared viewers
+  enum EvidenceVisibility {
+    PUBLIC
+    NDA
+  }
+
+  type ControlEvidence {
+    id: ID!
+    title: String!
+    kind: EvidenceKind!
+    fileName: String # FILE only
+    contentType: String # FILE only
+    byteSize: Int # FILE only
+    effectiveDate: String! # YYYY-MM-DD
+    expiresOn: String # YYYY-MM-DD (null = no expiry)
+    isExpired: Boolean!
+    visibility: EvidenceVisibility!
+    downloadUrl: String! # /api/evidence/:id  -->  streams the file or redirects to the link after a visibility check
+    createdAt: String!
+  }
+
+  # ----------  compliance frameworks  ----------
+
+  enum ComplianceFramework {
+    SOC2
+    ISO27001
+    NIST_CSF
+  }
+
+  # one framework requirement a control is mapped to (many-to-many)
+  type ControlFramework {
+    framework: ComplianceFramework!
+    label: String! # display name (SOC 2, ISO 27001, NIST CSF)
+    requirementId: String! # the framework's own id (CC6.1, A.5.15, PR.AA-01)
+    requirementTitle: String!
   }
 
   type Faq {
@@ -51,6 +152,12 @@ export const typeDefs = /* GraphQL */ `
     subcategory: String
     tags: [String!]!
     updatedAt: String!
+    deletedAt: String
+    status: ContentStatus!
+    visibility: ContentVisibility!
+    locked: Boolean! # true when NDA content is hidden from this viewer (answer blank)
+    highlights: [SearchHighlight!]
+    revisions(first: Int = 20): [FaqRevision!]!
   }
 
   # ----------  connections  ----------
@@ -77,13 +184,307 @@ export const typeDefs = /* GraphQL */ `
     totalCount: Int!
   }
 
+  # SUBSTRING  -->  case-insensitive contains match, newest first (default)
+  # FULLTEXT   -->  stemmed websearch syntax ("phrase", or, -term), most relevant first
+  enum SearchMode {
+    SUBSTRING
+    FULLTEXT
+  }
+
+  # ANY  -->  rows carrying at least one of the requested tags (default)
+  # ALL  -->  rows carrying every requested tag
+  enum TagMatch {
+    ANY
+    ALL
+  }
+
   type OverviewSearchResult {
     search: String!
+    searchMode: SearchMode!
     controls: ControlConnection!
     faqs: FaqConnection!
     totalCount: Int!
   }
 
+  # ----------  framework coverage  ----------
+
+  # counts = live, published controls (same visibility as public connection reads)
+  type FrameworkRequirementCoverage {
+    requirementId: String!
+    requirementTitle: String!
+    controlCount: Int!
+    isGap: Boolean! # no control covers the requirement
+  }
+
+  type FrameworkCoverageColumn {
+    framework: ComplianceFramework!
+    label: String!
+    controlCount: Int! # distinct controls mapped to the framework
+    requirementCount: Int!
+    coveredRequirementCount: Int!
+    requirements: [FrameworkRequirementCoverage!]!
+  }
+
+  type FrameworkCoverageCell {
+    framework: ComplianceFramework!
+    controlCount: Int! # the category's controls mapped to the framework
+    requirementCount: Int! # distinct requirements those controls cover
+    isGap: Boolean! # none of the category's controls map to the framework
+  }
+
+  # cells follow the order of FrameworkCoverage.frameworks
+  type FrameworkCoverageRow {
+    section: String!
+    category: String!
+    controlCount: Int!
+    cells: [FrameworkCoverageCell!]!
+  }
+
+  type FrameworkCoverage {
+    totalControls: Int!
+    frameworks: [FrameworkCoverageColumn!]!
+    categories: [FrameworkCoverageRow!]!
+  }
+
+  # ----------  taxonomy  ----------
+
+  enum ControlsOrFaqs {
+    CONTROLS
+    FAQS
+  }
+
+  # counts = live, published rows (same visibility as public connection reads)
+  type TaxonomySubcategory {
+    name: String!
+    count: Int!
+  }
+
+  type TaxonomyCategory {
+    name: String!
+    count: Int!
+    subcategories: [TaxonomySubcategory!]!
+  }
+
+  type TaxonomySection {
+    name: String!
+    count: Int!
+    categories: [TaxonomyCategory!]!
+  }
+
+  type Taxonomy {
+    entity: ControlsOrFaqs!
+    totalCount: Int!
+    sections: [TaxonomySection!]!
+  }
+
+  enum TaxonomyKind {
+    SECTION
+    CATEGORY
+    SUBCATEGORY
+  }
+
+  # admin-managed vocabulary row  -->  name is the label stored on controls / faqs
+  type TaxonomyTerm {
+    id: ID!
+    entity: ControlsOrFaqs!
+    kind: TaxonomyKind!
+    name: String!
+    parentId: ID
+    isDefault: Boolean!
+    position: Int!
+    retiredAt: String
+  }
+
+  # ----------  questionnaires  ----------
+
+  # ANSWERED = at least one mapped control / faq is published
+  # UNMAPPED = no keys mapped yet; MISSING_SOURCE = mapped keys are not published
+  enum QuestionnaireAnswerStatus {
+    ANSWERED
+    UNMAPPED
+    MISSING_SOURCE
+  }
+
+  type QuestionnaireSource {
+    kind: ContentEntity!
+    key: String!
+    title: String!
+    sourceUrl: String
+  }
+
+  type QuestionnaireAnswer {
+    questionId: String!
+    domain: String!
+    question: String!
+    status: QuestionnaireAnswerStatus!
+    answer: String
+    sources: [QuestionnaireSource!]!
+    missingKeys: [String!]!
+  }
+
+  type Questionnaire {
+    id: String!
+    name: String!
+    totalQuestions: Int!
+    answeredCount: Int!
+    answers: [QuestionnaireAnswer!]!
+    unmapped: [QuestionnaireAnswer!]!
+  }
+
+  type QuestionnaireSummary {
+    id: String!
+    name: String!
+    totalQuestions: Int!
+  }
+
+  # ----------  ai assistant  ----------
+
+  enum AiCitationKind {
+    CONTROL
+    FAQ
+  }
+
+  type AiCitation {
+    ref: String!
+    kind: AiCitationKind!
+    id: ID!
+    controlKey: String
+    faqKey: String
+    title: String!
+    category: String!
+    sourceUrl: String
+  }
+
+  type AiAnswerResponse {
+    question: String!
+    answer: String!
+    citations: [AiCitation!]!
+    grounded: Boolean!
+    provider: String!
+    model: String!
+    requestId: String!
+  }
+
+  # ----------  audit log  ----------
+
+  enum AuditEntity {
+    CONTROL
+    FAQ
+  }
+
+  enum AuditAction {
+    CREATE
+    UPDATE
+    DELETE
+    RESTORE
+  }
+
+  # one changed field  -->  before/after are JSON-encoded values (null when absent)
+  type AuditChange {
+    field: String!
+    before: String
+    after: String
+  }
+
+  type AuditEvent {
+    id: ID!
+    actor: String!
+    requestId: String!
+    entity: AuditEntity!
+    entityId: ID!
+    action: AuditAction!
+    changes: [AuditChange!]!
+    createdAt: String!
+  }
+
+  type AuditEventEdge {
+    cursor: String!
+    node: AuditEvent!
+  }
+
+  type AuditEventConnection {
+    edges: [AuditEventEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  # ----------  revisions  ----------
+
+  # immutable snapshot written by every admin write  -->  node fields hold the row as it stood after that write
+  type ControlRevision {
+    id: ID!
+    revision: Int!
+    action: AuditAction!
+    actor: String!
+    requestId: String!
+    createdAt: String!
+    revertedFrom: ID
+    control: Control!
+  }
+
+  type FaqRevision {
+    id: ID!
+    revision: Int!
+    action: AuditAction!
+    actor: String!
+    requestId: String!
+    createdAt: String!
+    revertedFrom: ID
+    faq: Faq!
+  }
+
+  # ----------  api keys  ----------
+
+  enum ApiKeyScope {
+    READ_PUBLIC
+    READ_NDA
+    ADMIN
+  }
+
+  # machine-client credential  -->  the key itself is only returned once, by adminIssueApiKey
+  type ApiKey {
+    id: ID!
+    name: String!
+    prefix: String! # first characters of the key, for telling keys apart
+    scopes: [ApiKeyScope!]!
+    usageCount: Int! # requests authenticated with this key
+    lastUsedAt: String
+    createdAt: String!
+    createdBy: String
+    revokedAt: String # null for active keys
+    revokedBy: String
+  }
+
+  # ----------  nda access  ----------
+
+  # PENDING -> APPROVED (time-limited grant) or DENIED; denying an approved request revokes the grant
+  enum AccessRequestStatus {
+    PENDING
+    APPROVED
+    DENIED
+  }
+
+  type AccessRequest {
+    id: ID!
+    requesterEmail: String!
+    company: String
+    reason: String
+    status: AccessRequestStatus!
+    createdAt: String!
+    decidedAt: String
+    decidedBy: String
+    decisionNote: String
+    expiresAt: String # APPROVED only  -->  the grant ends here
+    isActive: Boolean! # APPROVED and not yet expired
+  }
+
+  # cleared = any rbac role, a READ_NDA / ADMIN api key, or an active grant
+  type NdaAccess {
+    cleared: Boolean!
+    expiresAt: String # set when clearance comes from a grant
+    request: AccessRequest # the viewer's latest request (null when anonymous or none filed)
+  }
+
   # ----------  admin mutation inputs  ----------
 
   # demo/admin-only input  -->  future rbac can enforce field-level rules later
@@ -110,6 +511,32 @@ export const typeDefs = /* GraphQL */ `
     sourceUrl: String
   }
 
+  # an existing requirement id reuses its row and keeps its stored title (adminRenameFrameworkRequirement renames it)
+  input ControlFrameworkInput {
+    framework: ComplianceFramework!
+    requirementId: String!
+    requirementTitle: String!
+  }
+
+  # the file travels base64-encoded (max 10 MB decoded); bytes go to the blob store, not postgres
+  input ControlEvidenceFileInput {
+    title: String!
+    fileName: String!
+    contentType: String
+    contentBase64: String!
+    effectiveDate: String!
+    expiresOn: String
+    visibility: EvidenceVisibility = PUBLIC
+  }
+
+  input ControlEvidenceLinkInput {
+    title: String!
+    url: String!
+    effectiveDate: String!
+    expiresOn: String
+    visibility: EvidenceVisibility = PUBLIC
+  }
+
   # demo/admin-only input  -->  future rbac can enforce field-level rules later
   input CreateFaqInput {
     faqKey: String!
@@ -132,6 +559,25 @@ export const typeDefs = /* GraphQL */ `
     tags: [String!]
   }
 
+  # parentId  -->  section for a category, category for a subcategory (omit for sections)
+  input CreateTaxonomyTermInput {
+    entity: ControlsOrFaqs!
+    kind: TaxonomyKind!
+    name: String!
+    parentId: ID
+    isDefault: Boolean = false
+  }
+
+  input IssueApiKeyInput {
+    name: String!
+    scopes: [ApiKeyScope!]!
+  }
+
+  input RequestAccessInput {
+    company: String
+    reason: String
+  }
+
   # ----------  mutation payloads  ----------
 
   type InvalidationResult {
@@ -147,6 +593,80 @@ export const typeDefs = /* GraphQL */ `
     requestId: String!
   }
 
+  type StatusChangeResult {
+    ok: Boolean!
+    entity: ContentEntity!
+    id: ID!
+    status: ContentStatus!
+    requestId: String!
+  }
+
+  type VisibilityChangeResult {
+    ok: Boolean!
+    entity: ContentEntity!
+    id: ID!
+    visibility: ContentVisibility!
+    requestId: String!
+  }
+
+  # affectedControls  -->  mapped controls whose requirement title changed (0 when the title was already in place)
+  type FrameworkRequirementRenameResult {
+    ok: Boolean!
+    requirement: ControlFramework!
+    affectedControls: Int!
+    requestId: String!
+  }
+
+  # affectedItems  -->  controls / faqs rows relabeled by a rename or merge
+  type TaxonomyChangeResult {
+    ok: Boolean!
+    term: TaxonomyTerm!
+    affectedItems: Int!
+    requestId: String!
+  }
+
+  enum ImportFormat {
+    CSV
+    JSON
+  }
+
+  # row  -->  1-based record number (csv header not counted)
+  type ImportRowError {
+    row: Int!
+    key: String
+    message: String!
+  }
+
+  # applied  -->  true only when a non-dry-run import committed (any row error blocks the write)
+  type ImportResult {
+    ok: Boolean!
+    entity: ControlsOrFaqs!
+    dryRun: Boolean!
+    applied: Boolean!
+    totalRows: Int!
+    created: Int!
+    updated: Int!
+    unchanged: Int!
+    errors: [ImportRowError!]!
+    requestId: String!
+  }
+
+  type TaxonomyImportResult {
+    ok: Boolean!
+    created: Int!
+    updated: Int!
+    affectedItems: Int!
+    requestId: String!
+  }
+
+  # key  -->  plaintext x-api-key value; store it now, it cannot be read back
+  type IssuedApiKey {
+    ok: Boolean!
+    apiKey: ApiKey!
+    key: String!
+    requestId: String!
+  }
+
   # ----------  root query  ----------
 
   type Query {
@@ -155,25 +675,81 @@ export const typeDefs = /* GraphQL */ `
     health: String!
     debugContext: DebugContext!
 
-    # mvp read-only connections  -->  frontend contract
+    # mvp read-only connections  -->  frontend contract (asOf = ISO timestamp for a point-in-time read)
     controlsConnection(
       first: Int!
       after: String
       category: String
       search: String
+      searchMode: SearchMode = SUBSTRING
+      section: String
+      subcategory: String
+      tags: [String!]
+      tagMatch: TagMatch = ANY
+      framework: ComplianceFramework
+      includeDeleted: Boolean = false
+      status: ContentStatus
+      asOf: String
     ): ControlConnection!
     faqsConnection(
       first: Int!
       after: String
       category: String
       search: String
+      searchMode: SearchMode = SUBSTRING
+      section: String
+      subcategory: String
+      tags: [String!]
+      tagMatch: TagMatch = ANY
+      includeDeleted: Boolean = false
+      status: ContentStatus
+      asOf: String
     ): FaqConnection!
 
+    # taxonomy tree with item counts  -->  subnav + filter UI can render before content loads
+    taxonomy(entity: ControlsOrFaqs!): Taxonomy!
+
+    # admin-only taxonomy terms  -->  ids for the taxonomy mutations; export = taxonomy.json format
+    taxonomyTerms(
+      entity: ControlsOrFaqs!
+      includeRetired: Boolean = false
+    ): [TaxonomyTerm!]!
+    taxonomyExport: String!
+
     # grouped overview search  -->  small backend contract for the overview page
     overviewSearch(
       search: String!
       firstPerKind: Int = 5
+      searchMode: SearchMode = SUBSTRING
+      asOf: String
     ): OverviewSearchResult!
+
+    # framework coverage matrix  -->  categories x frameworks in one aggregate read (no paging)
+    frameworkCoverage: FrameworkCoverage!
+
+    # standard questionnaires  -->  question ids mapped to controlKey / faqKey values (questionnaires.json)
+    questionnaires: [QuestionnaireSummary!]!
+    questionnaire(id: String!): Questionnaire!
+
+    # grounded assistant answer  -->  cites controlKey/faqKey sources from the existing read paths
+    aiAnswer(question: String!): AiAnswerResponse!
+
+    # admin-only audit log  -->  newest first, one event per admin create/update/delete/restore
+    auditEvents(
+      entity: AuditEntity
+      entityId: ID
+      first: Int!
+      after: String
+    ): AuditEventConnection!
+
+    # admin-only machine-client keys  -->  newest first; usage counters update on every keyed request
+    apiKeys(includeRevoked: Boolean = false): [ApiKey!]!
+
+    # the viewer's own nda clearance + latest access request
+    ndaAccess: NdaAccess!
+
+    # admin-only nda access request queue  -->  newest first, optionally one status
+    accessRequests(status: AccessRequestStatus): [AccessRequest!]!
   }
 
   # ----------  root mutation  ----------
@@ -184,17 +760,84 @@ export const typeDefs = /* GraphQL */ `
     adminInvalidateFaqsReads: InvalidationResult!
 
     # demo/admin-only crud  -->  future admin gui can sit on this backend contract
+    # deletes are soft (deletedAt)  -->  restore brings the row back into public reads
     adminCreateControl(input: CreateControlInput!): Control!
     adminUpdateControl(id: ID!, input: UpdateControlInput!): Control!
     adminDeleteControl(id: ID!): DeleteResult!
+    adminRestoreControl(id: ID!): Control!
+    adminRevertControl(id: ID!, revisionId: ID!): Control!
+    adminAttachControlFramework(
+      controlId: ID!
+      input: ControlFrameworkInput!
+    ): Control!
+    adminDetachControlFramework(
+      controlId: ID!
+      framework: ComplianceFramework!
+      requirementId: String!
+    ): Control!
+    # shared by every mapped control  -->  same permission as publishing
+    adminRenameFrameworkRequirement(
+      framework: ComplianceFramework!
+      requirementId: String!
+      title: String!
+    ): FrameworkRequirementRenameResult!
+    adminUploadControlEvidence(
+      controlId: ID!
+      input: ControlEvidenceFileInput!
+    ): Control!
+    adminAttachControlEvidenceLink(
+      controlId: ID!
+      input: ControlEvidenceLinkInput!
+    ): Control!
+    adminDeleteControlEvidence(id: ID!): Control!
 
     adminCreateFaq(input: CreateFaqInput!): Faq!
     adminUpdateFaq(id: ID!, input: UpdateFaqInput!): Faq!
     adminDeleteFaq(id: ID!): DeleteResult!
+    adminRestoreFaq(id: ID!): Faq!
+    adminRevertFaq(id: ID!, revisionId: ID!): Faq!
+
+    # publishing workflow  -->  transition rules live in services/validation.ts
+    adminSubmitForReview(entity: ContentEntity!, id: ID!): StatusChangeResult!
+    adminPublish(entity: ContentEntity!, id: ID!): StatusChangeResult!
+    adminArchive(entity: ContentEntity!, id: ID!): StatusChangeResult!
+
+    # nda tier  -->  same permission as publishing (it decides who can read the row)
+    adminSetVisibility(
+      entity: ContentEntity!
+      id: ID!
+      visibility: ContentVisibility!
+    ): VisibilityChangeResult!
+
+    # admin-managed taxonomy  -->  renames + merges relabel existing controls / faqs
+    # retire refuses terms still used by live items; import adds + updates terms but never retires
+    adminCreateTaxonomyTerm(
+      input: CreateTaxonomyTermInput!
+    ): TaxonomyChangeResult!
+    adminRenameTaxonomyTerm(id: ID!, name: String!): TaxonomyChangeResult!
+    adminMergeTaxonomyTerms(sourceId: ID!, targetId: ID!): TaxonomyChangeResult!
+    adminRetireTaxonomyTerm(id: ID!): TaxonomyChangeResult!
+    adminImportTaxonomy(manifest: String!): TaxonomyImportResult!
+
+    # bulk upsert by natural key  -->  all rows validate first, then one transaction + one invalidation
+    adminImport(
+      entity: ControlsOrFaqs!
+      format: ImportFormat!
+      content: String!
+      dryRun: Boolean = false
+    ): ImportResult!
+
+    # machine-client api keys  -->  revoke is soft and immediate (the next keyed request gets a 401)
+    adminIssueApiKey(input: IssueApiKeyInput!): IssuedApiKey!
+    adminRevokeApiKey(id: ID!): ApiKey!
+
+    # nda access  -->  signed-in viewers file a request; admins approve for a number of days or deny / revoke
+    requestAccess(input: RequestAccessInput): AccessRequest!
+    adminApproveAccessRequest(id: ID!, days: Int = 30): AccessRequest!
+    adminDenyAccessRequest(id: ID!, note: String): AccessRequest!
   }
 
   # ----------  FUTURE-ONLY NOTES (COMMENTS ONLY)  ----------
 
   # future admin writes should use: write db -> invalidate reads -> return payload
-  # future ai work may add: aiAnswer(question: String!): AiAnswerResponse!
 `;
@@ -0,0 +1,73 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  rate limit entry point (env config + store factory)
+
+  - RATE_LIMIT_STORE picks the bucket store ("memory" is the only one today; a shared store slots in here)
+  - RATE_LIMIT_MAX_KEYS caps how many clients the memory store tracks
+  - RATE_LIMIT_CAPACITY / RATE_LIMIT_REFILL_PER_SECOND set the per-ip tier
+  - RATE_LIMIT_API_KEY_CAPACITY / RATE_LIMIT_API_KEY_REFILL_PER_SECOND set the x-api-key tier
+  - numbers parse like the DB_POOL_* settings; capacity 0 switches a tier off
+  - re-exports the middleware + types so server.ts only needs one import
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { parseNumberEnv } from '../db/index'; // shared numeric env parsing (ENV_ERROR on junk)
+import { MemoryRateLimitStore } from './memory'; // per-process token buckets
+import type { RateLimitStore, TokenBucketRule } from './rateLimit'; // the interface type
+import type { RateLimitConfig } from './middleware'; // tier config shape
+
+// ---------- config ----------
+
+function parseTierEnv(
+  capacityKey: string,
+  refillKey: string,
+  defaults: TokenBucketRule
+): TokenBucketRule {
+  const capacity = parseNumberEnv(capacityKey, defaults.capacity);
+  const refillPerSecond = parseNumberEnv(refillKey, defaults.refillPerSecond);
+
+  if (capacity < 0) throw new Error(`ENV_ERROR: invalid ${capacityKey}`);
+  if (capacity > 0 && refillPerSecond <= 0) {
+    throw new Error(`ENV_ERROR: invalid ${refillKey}`); // an enabled bucket that never refills would lock clients out for good
+  }
+
+  return { capacity, refillPerSecond };
+}
+
+export function getRateLimitConfig(): RateLimitConfig {
+  return {
+    ip: parseTierEnv('RATE_LIMIT_CAPACITY', 'RATE_LIMIT_REFILL_PER_SECOND', {
+      capacity: 120,
+      refillPerSecond: 2
+    }),
+    apiKey: parseTierEnv(
+      'RATE_LIMIT_API_KEY_CAPACITY',
+      'RATE_LIMIT_API_KEY_REFILL_PER_SECOND',
+      { capacity: 600, refillPerSecond: 10 }
+    )
+  };
+}
+
+// ---------- store factory ----------
+
+export function createRateLimitStoreFromEnv(): RateLimitStore {
+  const adapter = process.env.RATE_LIMIT_STORE ?? 'memory';
+  if (adapter !== 'memory') {
+    throw new Error(`ENV_ERROR: unknown RATE_LIMIT_STORE "${adapter}"`); // fail at boot instead of on the first request
+  }
+
+  return new MemoryRateLimitStore(
+    parseNumberEnv('RATE_LIMIT_MAX_KEYS', 10_000)
+  );
+}
+
+export { MemoryRateLimitStore } from './memory';
+export {
+  createRateLimiter,
+  getRateLimitKeys,
+  type RateLimitConfig,
+  type RateLimitTier
+} from './middleware';
+export type {
+  RateLimitDecision,
+  RateLimitStore,
+  TokenBucketRule
+} from './rateLimit';
@@ -0,0 +1,78 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  in-memory token bucket store
+
+  - one { tokens, updatedMs } entry per client key, refilled lazily on each take()
+  - no timers: an idle bucket costs nothing until its client comes back
+  - maxKeys caps memory; the least recently seen key is dropped first (Map keeps insertion order)
+  - a dropped key simply starts over with a full bucket
+  - per process only  -->  several server instances each keep their own buckets
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type {
+  RateLimitDecision,
+  RateLimitStore,
+  TokenBucketRule
+} from './rateLimit'; // the contract this adapter fulfils
+
+type Bucket = {
+  tokens: number; // fractional while refilling
+  updatedMs: number; // last refill time
+};
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private readonly maxKeys: number) {}
+
+  take(key: string, rule: TokenBucketRule, nowMs: number): RateLimitDecision {
+    const existing = this.buckets.get(key);
+    const elapsedSeconds = existing
+      ? Math.max(0, nowMs - existing.updatedMs) / 1000
+      : 0; // clocks can step backwards; never refill negatively
+    const tokens = existing
+      ? Math.min(
+          rule.capacity,
+          existing.tokens + elapsedSeconds * rule.refillPerSecond
+        )
+      : rule.capacity; // first request from this client  -->  full bucket
+
+    const allowed = tokens >= 1;
+    const bucket: Bucket = {
+      tokens: allowed ? tokens - 1 : tokens,
+      updatedMs: nowMs
+    };
+
+    this.buckets.delete(key); // re-insert so the Map order tracks recency
+    this.buckets.set(key, bucket);
+    this.evictOverflow();
+
+    return {
+      allowed,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterSeconds: allowed
+        ? 0
+        : Math.ceil((1 - bucket.tokens) / rule.refillPerSecond)
+    };
+  }
+
+  has(key: string): boolean {
+    return this.buckets.has(key);
+  }
+
+  delete(key: string): void {
+    this.buckets.delete(key);
+  }
+
+  // test/debug helper  -->  how many clients are being tracked
+  size(): number {
+    return this.buckets.size;
+  }
+
+  private evictOverflow(): void {
+    while (this.buckets.size > this.maxKeys) {
+      const oldest = this.buckets.keys().next().value;
+      if (oldest === undefined) return;
+      this.buckets.delete(oldest);
+    }
+  }
+}
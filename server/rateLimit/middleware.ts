@@ -0,0 +1,140 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  express token bucket middleware
+
+  - every request spends from its client ip's bucket, until its x-api-key has authenticated
+  - a keyed request that succeeds (< 400) opens a bucket for that key in the larger api key tier; later requests with the key spend from it
+  - a 401 for a known key drops its bucket (revoked keys fall back to the ip tier)
+  - made-up keys never open a bucket, so they can't dodge the ip limit or crowd real clients out of the store
+  - the key is hashed before it reaches the store, so plaintext keys never sit in memory or a shared store
+  - every limited response carries RateLimit-Limit / RateLimit-Remaining
+  - an empty bucket answers 429 with Retry-After; /graphql gets a graphql-shaped body, /api the usual { ok, error }
+  - a failing store lets the request through (availability over strictness) and logs the error
+  - a tier with capacity 0 is switched off
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { Request, RequestHandler, Response } from 'express'; // middleware types
+import { hashApiKey } from '../auth'; // same sha-256 the api_keys table stores
+import type { MaybePromise } from '../cache/cache'; // sync-or-async store results
+import type {
+  RateLimitDecision,
+  RateLimitStore,
+  TokenBucketRule
+} from './rateLimit'; // pluggable bucket store
+
+// ---------- shapes ----------
+
+export type RateLimitConfig = {
+  ip: TokenBucketRule; // anonymous + signed-in browser traffic
+  apiKey: TokenBucketRule; // machine clients sending x-api-key
+};
+
+export type RateLimitTier = keyof RateLimitConfig;
+
+type RateLimiterOptions = {
+  config: RateLimitConfig;
+  store: RateLimitStore;
+  now?: () => number; // injectable clock for tests
+};
+
+// ---------- config ----------
+
+const API_KEY_HEADER = 'x-api-key'; // matches server/auth
+const RATE_LIMITED_CODE = 'RATE_LIMITED'; // extensions.code clients can branch on
+
+// ---------- helpers ----------
+
+export function getRateLimitKeys(req: Request): {
+  ip: string;
+  apiKey: string | null;
+} {
+  const ip = req.ip ?? req.socket.remoteAddress ?? 'unknown'; // req.ip honours the TRUST_PROXY setting
+  const apiKey = req.get(API_KEY_HEADER)?.trim();
+
+  return {
+    ip: `ip:${ip}`,
+    apiKey: apiKey ? `key:${hashApiKey(apiKey).slice(0, 32)}` : null
+  };
+}
+
+function trackApiKeyOutcome(
+  res: Response,
+  store: RateLimitStore,
+  apiKey: string,
+  known: boolean,
+  onAuthenticated: () => MaybePromise<unknown>
+): void {
+  res.on('finish', () => {
+    const settle = async () => {
+      if (known && res.statusCode === 401) await store.delete(apiKey); // revoked since its bucket was opened
+      if (!known && res.statusCode < 400) await onAuthenticated(); // the key resolved  -->  open its own bucket
+    };
+
+    settle().catch(error => {
+      console.error('[rate-limit] store error:', error); // the response is already sent
+    });
+  });
+}
+
+// ---------- middleware ----------
+
+export function createRateLimiter({
+  config,
+  store,
+  now = Date.now
+}: RateLimiterOptions): RequestHandler {
+  return async (req, res, next) => {
+    const keys = getRateLimitKeys(req);
+    let key = keys.ip;
+    let tier: RateLimitTier = 'ip';
+
+    let decision: RateLimitDecision | null = null;
+    try {
+      if (keys.apiKey && (await store.has(keys.apiKey))) {
+        key = keys.apiKey;
+        tier = 'apiKey';
+      }
+
+      const apiKey = keys.apiKey;
+      if (apiKey && config.apiKey.capacity > 0) {
+        trackApiKeyOutcome(res, store, apiKey, tier === 'apiKey', () =>
+          store.take(apiKey, config.apiKey, now())
+        ); // the first token of a new key bucket pays for this request
+      }
+
+      if (config[tier].capacity > 0) {
+        decision = await store.take(key, config[tier], now());
+      }
+    } catch (error) {
+      console.error('[rate-limit] store error:', error); // keep serving when a shared store is down
+      return next();
+    }
+
+    if (!decision) return next(); // tier switched off
+
+    const rule = config[tier];
+    res.setHeader('RateLimit-Limit', String(rule.capacity));
+    res.setHeader('RateLimit-Remaining', String(decision.remaining));
+    if (decision.allowed) return next();
+
+    const message = `${RATE_LIMITED_CODE}: too many requests, retry in ${decision.retryAfterSeconds}s`;
+    console.warn(`[rate-limit] ${tier} limited key=${key} ${req.originalUrl}`);
+
+    res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+    if (req.baseUrl === '/graphql') {
+      res.status(429).json({
+        errors: [
+          {
+            message,
+            extensions: {
+              code: RATE_LIMITED_CODE,
+              retryAfterSeconds: decision.retryAfterSeconds
+            }
+          }
+        ]
+      }); // same envelope graphql clients already parse
+      return;
+    }
+
+    res.status(429).json({ ok: false, error: message });
+  };
+}
@@ -0,0 +1,38 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  rate limit store interface (the contract)
+
+  - a store keeps one token bucket per client key (ip:... or key:...)
+  - take() refills the bucket for the elapsed time, then spends one token if it can
+  - the bucket rule travels with each call, so one store serves every limit tier
+  - has() / delete() let the middleware only keep api key buckets for keys that have authenticated
+  - methods may return a value OR a promise  -->  the memory store stays sync, a shared store can be async
+  - swapping memory ↔ a shared store never touches the middleware
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { MaybePromise } from '../cache/cache'; // same sync-or-async contract the cache adapters use
+
+export type TokenBucketRule = {
+  capacity: number; // burst size  -->  a fresh bucket starts full
+  refillPerSecond: number; // sustained request rate
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  remaining: number; // whole tokens left after this request
+  retryAfterSeconds: number; // 0 when allowed; otherwise when the next token lands
+};
+
+export interface RateLimitStore {
+  // spend one token from the bucket at key (created full on first sight)
+  take(
+    key: string,
+    rule: TokenBucketRule,
+    nowMs: number
+  ): MaybePromise<RateLimitDecision>;
+
+  // true once take() has created a bucket for key (and it has not been evicted)
+  has(key: string): MaybePromise<boolean>;
+
+  // forget a bucket  -->  e.g. an api key that stopped authenticating
+  delete(key: string): MaybePromise<void>;
+}
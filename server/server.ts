@@ -2,7 +2,13 @@
   TL;DR  -->  express bootstrap + routes
 
   - sets up express middleware
-  - mounts /api/health and /graphql
+  - mounts /api/health, /api/export/:entity.:format, /api/report.pdf, and /graphql
+  - export downloads stream published controls / faqs as csv or json with the connection filters
+  - /api/report.pdf renders the printable trust report in-process (no headless browser)
+  - /api/export/questionnaires/:id.:format downloads a pre-filled CAIQ / SIG-style questionnaire
+  - /api/evidence/:id streams an evidence file (or redirects to an evidence link) after a visibility check
+  - REST routes build the same async request context as graphql; a bad bearer token answers 401
+  - /api/* (except health) and /graphql pass a per-ip / per-api-key token bucket first (./rateLimit); TRUST_PROXY sets how many proxy hops req.ip trusts
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import 'dotenv/config'; // load once and first so middleware have access to the api keys
@@ -17,8 +23,35 @@ import type {
 } from 'express'; // express types (for middleware)
 import cors from 'cors'; // allows cross-origin requests when not using dev proxy (curl, other clients)
 import path from 'node:path'; // resolve entrypoint for ESM guard
+import { pipeline } from 'node:stream/promises'; // evidence file downloads
 import { pathToFileURL } from 'node:url'; // convert file path to file:// url for import.meta.url
 import { createGraphQLHandler } from './graphql/index'; // mounts yoga at /graphql
+import { createRequestContext } from './graphql/context'; // same per-request deps the resolvers get
+import {
+  getExportContentType,
+  getExportFileName,
+  parseExportFile,
+  parseExportFilters,
+  streamExport,
+  type ExportArgs
+} from './services/exportService'; // csv / json export of published content
+import { renderTrustReport } from './services/reportService'; // pdf trust report
+import {
+  formatQuestionnaire,
+  getQuestionnaire,
+  getQuestionnaireFileName,
+  parseQuestionnaireFile
+} from './services/questionnaireService'; // pre-filled questionnaire export
+import {
+  getEvidenceContentDisposition,
+  getEvidenceDownload
+} from './services/evidenceService'; // visibility-checked evidence downloads
+import { parseNumberEnv } from './db/index'; // shared numeric env parsing
+import {
+  createRateLimitStoreFromEnv,
+  createRateLimiter,
+  getRateLimitConfig
+} from './rateLimit/index'; // token bucket limiter + pluggable store
 
 // ---------- middleware helpers ----------
 
@@ -72,9 +105,166 @@ function mountGraphQL(app: Express): void {
   });
 }
 
+// ---------- export route helpers ----------
+
+function toFetchRequest(req: Request): globalThis.Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) value.forEach(item => headers.append(name, item));
+    else if (value !== undefined) headers.set(name, value);
+  }
+  return new globalThis.Request(`http://localhost${req.originalUrl}`, {
+    headers
+  }); // services + auth expect the fetch Request shape yoga provides
+}
+
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done); // a disconnected client never drains
+  });
+}
+
+function sendClientError(res: Response, error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = message.startsWith('VALIDATION_ERROR:')
+    ? 400
+    : message.startsWith('UNAUTHENTICATED:')
+      ? 401
+      : message.startsWith('FORBIDDEN:')
+        ? 403
+        : message.startsWith('NOT_FOUND_ERROR:')
+          ? 404
+          : null;
+
+  if (status === null) return false; // server failure  -->  caller hands it to the shared error handler
+  res.status(status).json({ ok: false, error: message });
+  return true;
+}
+
+function mountExport(app: Express): void {
+  app.get('/api/export/questionnaires/:file', async (req, res, next) => {
+    try {
+      const { id, format } = parseQuestionnaireFile(req.params.file ?? '');
+      const ctx = await createRequestContext(toFetchRequest(req));
+      const result = await getQuestionnaire(id, ctx); // small (one row per question), so no streaming
+
+      res.status(200);
+      res.setHeader('Content-Type', getExportContentType(format));
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${getQuestionnaireFileName(result.id, format)}"`
+      );
+      res.setHeader('Cache-Control', 'no-store');
+      res.end(formatQuestionnaire(result, format));
+    } catch (error) {
+      if (!sendClientError(res, error)) next(error);
+    }
+  });
+
+  app.get('/api/export/:file', async (req, res, next) => {
+    let args: ExportArgs;
+    try {
+      args = {
+        ...parseExportFile(req.params.file ?? ''),
+        filters: parseExportFilters(req.query as Record<string, unknown>)
+      };
+    } catch (error) {
+      if (!sendClientError(res, error)) next(error); // bad file name or filter is a client error, not a server failure
+      return;
+    }
+
+    try {
+      const ctx = await createRequestContext(toFetchRequest(req)); // a bad bearer token fails here, before any header
+      for await (const chunk of streamExport(args, ctx)) {
+        if (!res.headersSent) {
+          res.status(200);
+          res.setHeader('Content-Type', getExportContentType(args.format));
+          res.setHeader(
+            'Content-Disposition',
+            `attachment; filename="${getExportFileName(args)}"`
+          );
+          res.setHeader('Cache-Control', 'no-store');
+        } // headers wait for the first page so read errors can still return json
+
+        if (res.destroyed) return; // client went away mid-download
+        if (!res.write(chunk)) await waitForDrain(res); // respect backpressure on large exports
+      }
+      res.end();
+    } catch (error) {
+      if (!res.headersSent) {
+        if (!sendClientError(res, error)) next(error); // nothing sent yet  -->  json error shape (401 for bad tokens)
+        return;
+      }
+      console.error('[export] stream error:', error);
+      res.destroy(error as Error); // truncated download must not look complete
+    }
+  });
+}
+
+function mountReport(app: Express): void {
+  app.get('/api/report.pdf', async (req, res, next) => {
+    try {
+      const ctx = await createRequestContext(toFetchRequest(req));
+      const { fileName, pdf } = await renderTrustReport(ctx); // built in memory; reports are a few hundred kB at most
+
+      res.status(200);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${fileName}"`); // open in the browser viewer, save keeps the name
+      res.setHeader('Cache-Control', 'no-store');
+      res.end(pdf);
+    } catch (error) {
+      if (sendClientError(res, error)) return; // bad bearer token
+      console.error('[report] render error:', error);
+      next(error); // shared json error shape
+    }
+  });
+}
+
+function mountEvidence(app: Express): void {
+  app.get('/api/evidence/:id', async (req, res, next) => {
+    try {
+      const ctx = await createRequestContext(toFetchRequest(req));
+      const download = await getEvidenceDownload(req.params.id ?? '', ctx); // throws NOT_FOUND / FORBIDDEN before any header is sent
+
+      res.setHeader('Cache-Control', 'no-store'); // the answer depends on who is asking
+      if (download.kind === 'link') {
+        res.redirect(302, download.url);
+        return;
+      }
+
+      res.status(200);
+      res.setHeader('Content-Type', download.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        getEvidenceContentDisposition(download.fileName)
+      ); // stored names may hold any unicode; the raw header only takes latin-1
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      if (download.byteSize !== null) {
+        res.setHeader('Content-Length', String(download.byteSize));
+      }
+
+      await pipeline(download.body, res); // backpressure + cleanup when the client goes away
+    } catch (error) {
+      if (res.headersSent) {
+        console.error('[evidence] stream error:', error);
+        res.destroy(error as Error); // truncated download must not look complete
+      } else if (!sendClientError(res, error)) next(error);
+    }
+  });
+}
+
 export function createServer() {
   const app = express(); // instance returned below for testing without a listener
 
+  const trustProxy = parseNumberEnv('TRUST_PROXY', 0);
+  if (trustProxy > 0) app.set('trust proxy', trustProxy); // behind a load balancer  -->  req.ip reads x-forwarded-for
+
   // ---------- middleware ----------
 
   app.use(cors()); // allow cross-origin requests from the vite dev server
@@ -91,6 +281,22 @@ export function createServer() {
     });
   }); // should not require db  -->  endpoint must always be available
 
+  // ---------- rate limiting (after health so probes are never throttled) ----------
+
+  app.use(
+    ['/api', '/graphql'],
+    createRateLimiter({
+      config: getRateLimitConfig(),
+      store: createRateLimitStoreFromEnv()
+    })
+  ); // one store per app instance  -->  tests get fresh buckets
+
+  // ---------- content export ----------
+
+  mountExport(app); // /api/export/controls.csv, /api/export/faqs.json, /api/export/questionnaires/caiq.csv, ...
+  mountReport(app); // /api/report.pdf
+  mountEvidence(app); // /api/evidence/:id
+
   // ---------- graphql ----------
 
   mountGraphQL(app); // mount graphql after generic middleware and before not-found handling
@@ -0,0 +1,264 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> nda access requests (request / status / list / approve / deny)
+
+  - nda_access_requests rows (migration 014): pending -> approved (time-limited grant) or denied
+  - the requester is the verified request email, never an input field
+  - one pending request per email (the partial unique index answers with CONFLICT_ERROR)
+  - approving sets expires_at = now() + days; approving an approved row renews it from now
+  - denying a pending request closes it; denying an approved one revokes the grant on the next request
+  - request-time grant lookup lives in server/auth/ndaGrants.ts (it runs before the context exists)
+  - never cached (a revoked grant must apply immediately)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { GraphQLContext } from '../graphql/context'; // request-scoped deps (db + auth)
+import { hasNdaAccess } from '../auth'; // shared nda clearance rule
+import {
+  normalizeDecisionNote,
+  normalizeGrantDays,
+  normalizeId,
+  validateAccessRequestInput,
+  type AccessRequestInput
+} from './validation'; // shared id + input validation
+
+// ---------- shapes ----------
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'denied'; // matches the nda_access_requests status check constraint
+
+export type DbAccessRequestRow = {
+  id: string;
+  requester_email: string;
+  company: string | null;
+  reason: string | null;
+  status: AccessRequestStatus;
+  created_at: string | Date;
+  decided_at: string | Date | null;
+  decided_by: string | null;
+  decision_note: string | null;
+  expires_at: string | Date | null; // approved rows only
+};
+
+export type ViewerNdaAccess = {
+  cleared: boolean; // roles, a read:nda / admin api key, or an active grant
+  expiresAt: string | null; // set when clearance comes from a grant
+  request: DbAccessRequestRow | null; // the viewer's latest request
+};
+
+// ---------- config ----------
+
+const ACCESS_REQUEST_COLUMNS = `
+  id,
+  requester_email,
+  company,
+  reason,
+  status,
+  created_at,
+  decided_at,
+  decided_by,
+  decision_note,
+  expires_at
+`;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ---------- helpers ----------
+
+function getWriteActor(ctx: Pick<GraphQLContext, 'auth'>): string {
+  return ctx.auth.userEmail ?? 'local-dev'; // same actor value the content writes store
+}
+
+function normalizeAccessRequestId(id: string): string {
+  const accessRequestId = normalizeId(id);
+  if (!UUID_PATTERN.test(accessRequestId)) {
+    throw new Error(
+      `NOT_FOUND_ERROR: access request ${accessRequestId} not found`
+    ); // bad ids are a 404, not a pg cast error
+  }
+  return accessRequestId;
+}
+
+async function getAccessRequestById(
+  id: string,
+  ctx: Pick<GraphQLContext, 'db'>
+): Promise<DbAccessRequestRow> {
+  const res = await ctx.db.query(
+    `
+      select ${ACCESS_REQUEST_COLUMNS}
+      from public.nda_access_requests
+      where id = $1::uuid
+    `,
+    [id]
+  );
+
+  const row = res.rows?.[0] as DbAccessRequestRow | undefined;
+  if (!row) throw new Error(`NOT_FOUND_ERROR: access request ${id} not found`);
+  return row;
+}
+
+export function isGrantActive(
+  row: Pick<DbAccessRequestRow, 'status' | 'expires_at'>,
+  now: Date = new Date()
+): boolean {
+  return (
+    row.status === 'approved' &&
+    row.expires_at !== null &&
+    new Date(row.expires_at).getTime() > now.getTime()
+  );
+}
+
+// ---------- viewer reads + writes ----------
+
+export async function getViewerNdaAccess(
+  ctx: Pick<GraphQLContext, 'db' | 'auth'>
+): Promise<ViewerNdaAccess> {
+  const cleared = hasNdaAccess(ctx.auth);
+  const expiresAt = ctx.auth.ndaAccessExpiresAt ?? null;
+  const email = ctx.auth.apiKey ? null : ctx.auth.userEmail; // api keys never file requests
+
+  if (!email) return { cleared, expiresAt, request: null };
+
+  const res = await ctx.db.query(
+    `
+      select ${ACCESS_REQUEST_COLUMNS}
+      from public.nda_access_requests
+      where lower(requester_email) = lower($1)
+      order by created_at desc, id desc
+      limit 1
+    `,
+    [email]
+  );
+
+  return {
+    cleared,
+    expiresAt,
+    request: (res.rows?.[0] as DbAccessRequestRow | undefined) ?? null
+  };
+}
+
+export async function createAccessRequest(
+  requesterEmail: string,
+  input: AccessRequestInput,
+  ctx: Pick<GraphQLContext, 'db' | 'requestId'>
+): Promise<DbAccessRequestRow> {
+  const { company, reason } = validateAccessRequestInput(input);
+
+  let row: DbAccessRequestRow | undefined;
+  try {
+    const res = await ctx.db.query(
+      `
+        insert into public.nda_access_requests (requester_email, company, reason)
+        values ($1, $2, $3)
+        returning ${ACCESS_REQUEST_COLUMNS}
+      `,
+      [requesterEmail, company, reason]
+    );
+    row = res.rows?.[0] as DbAccessRequestRow | undefined;
+  } catch (error) {
+    const pgError = error as { code?: string; constraint?: string } | undefined; // pg errors expose code + constraint
+    if (
+      pgError?.code === '23505' &&
+      pgError.constraint === 'nda_access_requests_pending_idx'
+    ) {
+      throw new Error(
+        'CONFLICT_ERROR: an nda access request is already pending for this account'
+      );
+    }
+    throw error;
+  }
+
+  if (!row) throw new Error('WRITE_ERROR: access request was not created');
+
+  console.log(
+    `[nda-access] requestId=${ctx.requestId} request id=${row.id} email=${row.requester_email}`
+  );
+  return row;
+}
+
+// ---------- admin reads ----------
+
+export async function listAccessRequests(
+  status: AccessRequestStatus | null,
+  ctx: Pick<GraphQLContext, 'db'>
+): Promise<DbAccessRequestRow[]> {
+  const res = await ctx.db.query(
+    `
+      select ${ACCESS_REQUEST_COLUMNS}
+      from public.nda_access_requests
+      where ($1::text is null or status = $1)
+      order by created_at desc, id desc
+    `,
+    [status]
+  ); // nda_access_requests_status_idx
+
+  return (res.rows ?? []) as DbAccessRequestRow[];
+}
+
+// ---------- admin writes ----------
+
+export async function approveAccessRequest(
+  id: string,
+  days: unknown,
+  ctx: Pick<GraphQLContext, 'db' | 'auth' | 'requestId'>
+): Promise<DbAccessRequestRow> {
+  const accessRequestId = normalizeAccessRequestId(id);
+  const grantDays = normalizeGrantDays(days); // validate before any db work
+
+  const res = await ctx.db.query(
+    `
+      update public.nda_access_requests
+      set status = 'approved',
+          decided_at = now(),
+          decided_by = $3,
+          expires_at = now() + make_interval(days => $2::int)
+      where id = $1::uuid
+        and status <> 'denied'
+      returning ${ACCESS_REQUEST_COLUMNS}
+    `,
+    [accessRequestId, grantDays, getWriteActor(ctx)]
+  ); // approving an approved row renews the grant from now
+
+  const row = res.rows?.[0] as DbAccessRequestRow | undefined;
+  if (!row) {
+    await getAccessRequestById(accessRequestId, ctx); // unknown ids stay a 404
+    throw new Error(
+      `CONFLICT_ERROR: access request ${accessRequestId} was denied; the requester must file a new one`
+    );
+  }
+
+  console.log(
+    `[nda-access] requestId=${ctx.requestId} approve id=${row.id} email=${row.requester_email} days=${grantDays}`
+  );
+  return row;
+}
+
+export async function denyAccessRequest(
+  id: string,
+  note: unknown,
+  ctx: Pick<GraphQLContext, 'db' | 'auth' | 'requestId'>
+): Promise<DbAccessRequestRow> {
+  const accessRequestId = normalizeAccessRequestId(id);
+  const decisionNote = normalizeDecisionNote(note);
+
+  const res = await ctx.db.query(
+    `
+      update public.nda_access_requests
+      set status = 'denied',
+          decided_at = now(),
+          decided_by = $2,
+          decision_note = $3,
+          expires_at = null
+      where id = $1::uuid
+        and status <> 'denied'
+      returning ${ACCESS_REQUEST_COLUMNS}
+    `,
+    [accessRequestId, getWriteActor(ctx), decisionNote]
+  ); // clearing expires_at is what revokes an approved grant
+
+  const row = res.rows?.[0] as DbAccessRequestRow | undefined;
+  if (!row) return getAccessRequestById(accessRequestId, ctx); // denying twice keeps the first decision
+
+  console.log(
+    `[nda-access] requestId=${ctx.requestId} deny id=${row.id} email=${row.requester_email}`
+  );
+  return row;
+}
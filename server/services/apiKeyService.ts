@@ -0,0 +1,132 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> api key admin service (issue / list / revoke)
+
+  - api_keys rows hold the hash, scopes, and usage counters (migration 013)
+  - issuing returns the plaintext key once; only its hash is ever written
+  - revoking is a soft update (revoked_at), so counters + history stay readable
+  - request-time key resolution lives in server/auth/apiKeys.ts (it runs before the context exists)
+  - admin reads are never cached (a revoked key must show immediately)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { GraphQLContext } from '../graphql/context'; // request-scoped deps (db + auth)
+import { generateApiKey } from '../auth'; // plaintext key + display prefix + storage hash
+import { normalizeId, validateIssueApiKeyInput } from './validation'; // shared id + input validation
+import type { IssueApiKeyInput } from './validation';
+
+// ---------- shapes ----------
+
+export type DbApiKeyRow = {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  usage_count: string | number; // bigint comes back from pg as a string
+  last_used_at: string | Date | null;
+  created_at: string | Date;
+  created_by: string | null;
+  revoked_at: string | Date | null;
+  revoked_by: string | null;
+};
+
+export type IssuedApiKey = {
+  row: DbApiKeyRow;
+  key: string; // plaintext  -->  shown to the admin once
+};
+
+// ---------- config ----------
+
+const API_KEY_COLUMNS = `
+  id,
+  name,
+  key_prefix,
+  scopes,
+  usage_count,
+  last_used_at,
+  created_at,
+  created_by,
+  revoked_at,
+  revoked_by
+`; // never selects key_hash
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ---------- helpers ----------
+
+function getWriteActor(ctx: Pick<GraphQLContext, 'auth'>): string {
+  return ctx.auth.userEmail ?? 'local-dev'; // same actor value the content writes store
+}
+
+// ---------- admin reads ----------
+
+export async function listApiKeys(
+  includeRevoked: boolean,
+  ctx: Pick<GraphQLContext, 'db'>
+): Promise<DbApiKeyRow[]> {
+  const res = await ctx.db.query(
+    `
+      select ${API_KEY_COLUMNS}
+      from public.api_keys
+      where ($1::boolean or revoked_at is null)
+      order by created_at desc, id
+    `,
+    [includeRevoked]
+  );
+  return (res.rows ?? []) as DbApiKeyRow[];
+}
+
+// ---------- admin writes ----------
+
+export async function issueApiKey(
+  input: IssueApiKeyInput,
+  ctx: Pick<GraphQLContext, 'db' | 'auth' | 'requestId'>
+): Promise<IssuedApiKey> {
+  const { name, scopes } = validateIssueApiKeyInput(input);
+  const generated = generateApiKey();
+
+  const res = await ctx.db.query(
+    `
+      insert into public.api_keys (name, key_prefix, key_hash, scopes, created_by)
+      values ($1, $2, $3, $4::text[], $5)
+      returning ${API_KEY_COLUMNS}
+    `,
+    [name, generated.prefix, generated.hash, scopes, getWriteActor(ctx)]
+  );
+
+  const row = res.rows?.[0] as DbApiKeyRow | undefined;
+  if (!row) throw new Error('WRITE_ERROR: api key was not created');
+
+  console.log(
+    `[api-keys] requestId=${ctx.requestId} issue id=${row.id} prefix=${row.key_prefix} scopes=${scopes.join(',')}`
+  ); // never log the plaintext key
+  return { row, key: generated.key };
+}
+
+export async function revokeApiKey(
+  id: string,
+  ctx: Pick<GraphQLContext, 'db' | 'auth' | 'requestId'>
+): Promise<DbApiKeyRow> {
+  const keyId = normalizeId(id);
+  if (!UUID_PATTERN.test(keyId)) {
+    throw new Error(`NOT_FOUND_ERROR: api key ${keyId} not found`); // bad ids are a 404, not a pg cast error
+  }
+
+  const res = await ctx.db.query(
+    `
+      update public.api_keys
+      set revoked_at = coalesce(revoked_at, now()),
+          revoked_by = coalesce(revoked_by, $2)
+      where id = $1::uuid
+      returning ${API_KEY_COLUMNS}
+    `,
+    [keyId, getWriteActor(ctx)]
+  ); // revoking twice keeps the first revocation
+
+  const row = res.rows?.[0] as DbApiKeyRow | undefined;
+  if (!row) throw new Error(`NOT_FOUND_ERROR: api key ${keyId} not found`);
+
+  console.log(
+    `[api-keys] requestId=${ctx.requestId} revoke id=${row.id} prefix=${row.key_prefix}`
+  );
+  return row;
+}
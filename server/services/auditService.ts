@@ -0,0 +1,232 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> audit log service (append-only record of admin writes)
+
+  - builds field-level before/after diffs for control + faq writes
+  - inserts one audit_events row through the caller's transaction (same commit as the write)
+  - reads audit events newest first as a cursor-paginated connection (shared cursor helpers)
+  - audit reads are never cached or served from seed fallback (history must be exact)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { DbQueryAdapter, GraphQLContext } from '../graphql/context'; // transaction client + request-scoped deps
+import { clampFirst, decodeCursor, encodeCursor, toIso } from './pagination'; // shared cursor + page-size helpers
+import { normalizeId } from './validation'; // shared readable id validation
+
+// ---------- args + row shapes ----------
+
+export type AuditEntity = 'control' | 'faq'; // matches the audit_events.entity check constraint
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore'; // matches the audit_events.action check constraint
+
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>; // api field name -> changed values
+
+export type AuditEventInput = {
+  actor: string; // same value the write stored in created_by / updated_by
+  requestId: string; // graphql request id for log correlation
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  before: Record<string, unknown> | null; // db row before the write (null on create + restore)
+  after: Record<string, unknown> | null; // db row after the write (null on delete)
+};
+
+export type AuditEventsArgs = {
+  entity?: AuditEntity; // optional entity filter
+  entityId?: string; // optional record filter
+  first: number; // requested page size
+  after?: string; // optional cursor
+};
+
+export type DbAuditEventRow = {
+  id: string; // uuid primary key
+  actor: string;
+  request_id: string;
+  entity: AuditEntity;
+  entity_id: string;
+  action: AuditAction;
+  diff: AuditDiff; // jsonb comes back parsed from pg
+  created_at: string | Date; // timestamptz
+};
+
+export type AuditEventsPage = {
+  rows: DbAuditEventRow[];
+  hasNextPage: boolean;
+  endCursor: string | null;
+  totalCount: number;
+};
+
+// ---------- audited fields ----------
+
+// db column -> api field name; timestamps + search_text are derived, so they never appear in diffs
+const AUDITED_FIELDS: Record<AuditEntity, Record<string, string>> = {
+  control: {
+    control_key: 'controlKey',
+    title: 'title',
+    description: 'description',
+    section: 'section',
+    category: 'category',
+    subcategory: 'subcategory',
+    tags: 'tags',
+    source_url: 'sourceUrl',
+    status: 'status',
+    visibility: 'visibility', // public | nda
+    frameworks: 'frameworks', // attach / detach writes only ("soc2:CC6.1" style labels)
+    framework_titles: 'frameworkTitles', // requirement renames only ("soc2:CC6.1 Title" labels)
+    evidence: 'evidence' // evidence upload / attach / delete writes only ("title (visibility)" labels)
+  },
+  faq: {
+    faq_key: 'faqKey',
+    question: 'question',
+    answer: 'answer',
+    section: 'section',
+    category: 'category',
+    subcategory: 'subcategory',
+    tags: 'tags',
+    status: 'status',
+    visibility: 'visibility' // public | nda
+  }
+};
+
+// ---------- diff helpers ----------
+
+function normalizeAuditValue(value: unknown): unknown {
+  return value === undefined ? null : value; // jsonb has no undefined, so missing + null read the same
+}
+
+export function buildAuditDiff(
+  entity: AuditEntity,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditDiff {
+  const diff: AuditDiff = {};
+
+  for (const [column, field] of Object.entries(AUDITED_FIELDS[entity])) {
+    const prev = before ? normalizeAuditValue(before[column]) : null;
+    const next = after ? normalizeAuditValue(after[column]) : null;
+
+    if (JSON.stringify(prev) === JSON.stringify(next)) continue; // unchanged fields stay out of the diff
+
+    diff[field] = { before: prev, after: next };
+  }
+
+  return diff;
+}
+
+// ---------- write path ----------
+
+export async function recordAuditEvent(
+  tx: DbQueryAdapter,
+  event: AuditEventInput
+): Promise<void> {
+  const diff = buildAuditDiff(event.entity, event.before, event.after);
+
+  await tx.query(
+    `
+      insert into public.audit_events (
+        actor,
+        request_id,
+        entity,
+        entity_id,
+        action,
+        diff
+      )
+      values ($1, $2, $3, $4::uuid, $5, $6::jsonb)
+    `,
+    [
+      event.actor,
+      event.requestId,
+      event.entity,
+      event.entityId,
+      event.action,
+      JSON.stringify(diff)
+    ]
+  ); // runs on the caller's transaction client, so the audit row commits or rolls back with the write
+}
+
+// ---------- read path ----------
+
+export async function getAuditEventsPage(
+  args: AuditEventsArgs,
+  ctx: GraphQLContext
+): Promise<AuditEventsPage> {
+  const firstClamped = clampFirst(args.first); // enforce safe page size
+  const parts: string[] = []; // sql predicates
+  const params: unknown[] = []; // parameter bag
+
+  if (args.entity !== undefined) {
+    params.push(args.entity);
+    parts.push(`entity = $${params.length}`);
+  }
+
+  if (args.entityId !== undefined) {
+    params.push(normalizeId(args.entityId)); // blank ids fail readably before sql runs
+    parts.push(`entity_id = $${params.length}::uuid`);
+  }
+
+  const whereSql = parts.length ? `where ${parts.join(' and ')}` : ''; // join predicates when present
+
+  const countRes = await ctx.db.query(
+    `
+      select count(*)::int as count
+      from public.audit_events
+      ${whereSql}
+    `,
+    params
+  ); // total count for connection metadata (post-filter, pre-page)
+  const totalCount = Number(countRes.rows?.[0]?.count ?? 0); // normalize count result defensively
+
+  let boundarySql = ''; // desc boundary --> (created_at, id) must be strictly less than cursor tuple
+  const boundaryParams: unknown[] = [];
+
+  if (args.after) {
+    const decoded = decodeCursor(args.after);
+    if (!decoded || decoded.rank !== undefined) {
+      throw new Error('CURSOR_ERROR: invalid after cursor'); // ranked search cursors never page the audit log
+    }
+
+    const p1 = params.length + 1; // param index for sortValue
+    const p2 = params.length + 2; // param index for id
+    boundarySql = `
+      and (
+        created_at < $${p1}::timestamptz
+        or (created_at = $${p1}::timestamptz and id < $${p2}::uuid)
+      )
+    `;
+    boundaryParams.push(decoded.sortValue, decoded.id);
+  }
+
+  const pageRes = await ctx.db.query(
+    `
+      select
+        id,
+        actor,
+        request_id,
+        entity,
+        entity_id,
+        action,
+        diff,
+        created_at
+      from public.audit_events
+      ${whereSql}
+      ${whereSql ? '' : 'where true'}
+      ${boundarySql}
+      order by created_at desc, id desc
+      limit $${params.length + boundaryParams.length + 1}
+    `,
+    [...params, ...boundaryParams, firstClamped + 1]
+  ); // overfetch by 1 to compute hasNextPage
+  const fetched = (pageRes.rows ?? []) as DbAuditEventRow[];
+
+  const hasNextPage = fetched.length > firstClamped; // extra row means more data exists
+  const rows = hasNextPage ? fetched.slice(0, firstClamped) : fetched; // trim extra row for response
+  const last = rows.length ? rows[rows.length - 1] : null; // last visible row determines endCursor
+
+  return {
+    rows,
+    hasNextPage,
+    endCursor: last ? buildAuditCursor(last) : null,
+    totalCount
+  };
+}
+
+export function buildAuditCursor(row: DbAuditEventRow): string {
+  return encodeCursor({ sortValue: toIso(row.created_at), id: row.id }); // same cursor shape as controls/faqs, keyed on created_at
+}
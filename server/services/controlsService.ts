@@ -3,16 +3,46 @@
 
   - builds sql for controlsConnection (filters + cursor boundary + deterministic order)
   - keeps pagination behavior identical to previous resolver implementation
+  - supports SUBSTRING + FULLTEXT search modes (FULLTEXT orders by ts_rank and encodes rank in cursors)
   - supports seed json fallback when db is unavailable (mvp resilience)
+  - attaches search highlights to db + fallback pages after the shared cache (same output for both sources)
   - dedupes duplicate reads within one graphql request using request-scoped memoization
   - adds shared read cache (LRU TTL) for db-backed results across requests
   - exposes admin create/update/delete methods with validation, search_text recompute, and cache invalidation
+  - writes every admin change, its audit_events row, and its content_revisions snapshot in one transaction
+  - deletes are soft (deleted_at); public reads skip deleted rows, admins can includeDeleted or restore
+  - public reads only return published rows; admin-created rows start as drafts and move through review
+  - changing a published row in place (update / revert / delete / restore / taxonomy relabel / evidence / framework mappings) also needs content:publish
+  - reverts replay a stored revision through create validation + search_text recompute
+  - asOf reads rebuild the list from content_revisions snapshots (same filters, order, and cursors)
+  - taxonomy renames / merges relabel stored rows (search_text + audit + revision) inside the taxonomy transaction
+  - bulk import upserts by natural key through the same insert / update helpers as the admin writes
+  - pages carry each control's framework mappings (one extra query per page); framework filter in sql + memory
+  - admins attach / detach framework requirements (audited as an update of the frameworks field)
+  - requirement renames audit every mapped control (frameworkTitles field); attach never renames
+  - pages carry each control's evidence; admins upload files / attach links / delete (audited as the evidence field)
+  - read cache keys are scoped by the request's role set (shared rbac helper)
+  - nda rows read as locked teasers (no description / source / evidence) for viewers without nda clearance and never match their searches
+  - admins flip a control between public and nda (audited as an update of the visibility field)
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
-import type { GraphQLContext } from '../graphql/context'; // request-scoped deps (db + memo + cache + auth)
+import type { DbQueryAdapter, GraphQLContext } from '../graphql/context'; // request-scoped deps (db + memo + cache + auth)
+import {
+  assertCanChangePublished,
+  getAuthScopeForReadCache,
+  hasNdaAccess
+} from '../auth'; // published-row write gate, read cache scope + nda clearance derived from the request auth
 import { buildControlsReadCacheKey } from '../cache/keys'; // normalized cache key builder (includes auth scope)
 import { invalidateControls } from '../cache/invalidation'; // entity-level invalidation helper for post-write cache clearing
 import { memoizePromise } from './memo'; // request-scoped promise dedupe helper
+import type { TaxonomyRelabel } from '../taxonomy'; // rename / merge cascade shape
+import { attachHighlights, type SearchHighlight } from './highlights'; // per-request search snippets (db + fallback parity)
+import { recordAuditEvent } from './auditService'; // append-only audit row written inside each write transaction
+import {
+  getRevisionForRevert,
+  getSnapshotsAsOf,
+  recordRevision
+} from './revisionService'; // immutable row snapshots (written inside each write transaction, replayed by asOf reads)
 import {
   getSeedControlsRows,
   getSeedControlSearchText,
@@ -22,21 +52,51 @@ import {
 import {
   buildAfterBoundary,
   buildCategorySearchWhere,
+  buildOrderBySql,
+  buildRowCursor,
   filterRowsByCategorySearch,
   pageFromRows,
-  toIso,
-  encodeCursor,
-  clampFirst
+  clampFirst,
+  type SearchMode,
+  type TagMatch,
+  type TaxonomyFilterArgs
 } from './pagination';
 import { buildControlSearchText } from './searchText'; // shared backend search_text recomputation for create/update writes
+import {
+  attachControlFrameworks,
+  buildFrameworkFilterSql,
+  deleteControlFramework,
+  insertControlFramework,
+  matchesFramework,
+  updateFrameworkRequirementTitle,
+  type ComplianceFramework,
+  type ControlFrameworkMapping
+} from './frameworkService'; // SOC 2 / ISO 27001 / NIST CSF requirement mappings
+import {
+  attachEvidenceToControls,
+  buildEvidenceBlobKey,
+  deleteControlEvidenceRow,
+  findEvidenceControlId,
+  insertControlEvidence,
+  type DbControlEvidenceRow
+} from './evidenceService'; // evidence files + links (metadata in postgres, bytes in the blob store)
 import {
   type CreateControlInput,
   type UpdateControlInput,
   type NormalizedControlWrite,
   type NormalizedControlPatch,
+  type ContentStatus,
+  type ContentVisibility,
+  assertStatusTransition,
   normalizeId,
+  normalizeRequirementId,
+  normalizeRequirementTitle,
   validateCreateControlInput,
-  validateUpdateControlInput
+  validateEvidenceFileInput,
+  validateEvidenceLinkInput,
+  validateUpdateControlInput,
+  type ControlEvidenceFileInput,
+  type ControlEvidenceLinkInput
 } from './validation';
 
 // ---------- args + row shapes ----------
@@ -46,6 +106,15 @@ export type ControlsConnectionArgs = {
   after?: string; // optional cursor
   category?: string; // optional category filter
   search?: string; // optional search filter
+  searchMode?: SearchMode; // SUBSTRING (default) or FULLTEXT
+  section?: string; // optional section filter
+  subcategory?: string; // optional subcategory filter
+  tags?: string[]; // optional tag filter
+  tagMatch?: TagMatch; // ANY (default) or ALL requested tags
+  framework?: ComplianceFramework; // optional: mapped to at least one requirement of this framework
+  includeDeleted?: boolean; // admin-only: also return soft-deleted rows
+  status?: ContentStatus; // admin-only: read another workflow status (default published)
+  asOf?: string; // normalized iso timestamp for point-in-time reads
 };
 
 export type DbControlRow = {
@@ -59,6 +128,27 @@ export type DbControlRow = {
   tags: string[] | null; // normalized tag list
   source_url: string | null; // optional url
   updated_at: string | Date; // timestamptz
+  deleted_at?: string | Date | null; // soft delete marker (null = live row; seed rows omit it)
+  status?: ContentStatus; // workflow status (seed rows omit it and read as published)
+  visibility?: ContentVisibility; // public | nda (seed rows omit it and read as public)
+  locked?: boolean; // set per request when an nda row is redacted for the viewer (never cached)
+  rank?: number; // ts_rank relevance (FULLTEXT reads only)
+  highlights?: SearchHighlight[]; // matched fragments (search reads only, never cached)
+  frameworks?: ControlFrameworkMapping[]; // attached by page reads (writes leave it unset)
+  evidence?: DbControlEvidenceRow[]; // attached by page reads (writes leave it unset)
+};
+
+export type ControlFrameworkArgs = {
+  framework: ComplianceFramework;
+  requirementId: unknown; // validated in the service
+  requirementTitle?: unknown; // attach (new requirements only) + rename
+};
+
+export type FrameworkRequirementRename = {
+  framework: ComplianceFramework;
+  requirementId: string; // stored spelling
+  requirementTitle: string;
+  affectedControls: number; // mapped controls whose title changed (0 for a no-op)
 };
 
 export type ControlsPage = {
@@ -77,11 +167,6 @@ export type DeleteControlResult = {
 
 const CONTROLS_READ_CACHE_TTL_SECONDS = 60; // short prototype ttl keeps repeated UI reads fast while staying reasonably fresh
 
-function getAuthScopeForReadCache(ctx: GraphQLContext): string {
-  if (ctx.auth.isAdmin) return 'admin'; // placeholder until real auth scopes land
-  return 'public'; // current prototype reads behave as public
-}
-
 function getWriteActor(ctx: GraphQLContext): string {
   return ctx.auth.userEmail ?? 'local-dev'; // local-dev bypass still needs a readable actor value for audit columns
 }
@@ -91,22 +176,74 @@ function buildControlsReadIdentity(
   ctx: GraphQLContext
 ): string {
   return buildControlsReadCacheKey(args, {
-    authScope: getAuthScopeForReadCache(ctx)
+    authScope: getAuthScopeForReadCache(ctx.auth)
   }); // compute one normalized read identity so request memo + shared cache stay aligned
 }
 
-function buildControlsWhereArgs(args: ControlsConnectionArgs): {
+function buildControlsWhereArgs(
+  args: ControlsConnectionArgs,
+  auth: GraphQLContext['auth']
+): {
   category?: string;
   search?: string;
-} {
-  const out: { category?: string; search?: string } = {}; // omit undefined props for exactOptionalPropertyTypes
+  searchMode?: SearchMode;
+  excludeDeleted: boolean;
+  status: ContentStatus;
+  searchPublicOnly: boolean;
+} & TaxonomyFilterArgs {
+  const out: {
+    category?: string;
+    search?: string;
+    searchMode?: SearchMode;
+    excludeDeleted: boolean;
+    status: ContentStatus;
+    searchPublicOnly: boolean;
+  } & TaxonomyFilterArgs = {
+    excludeDeleted: args.includeDeleted !== true, // soft-deleted rows are hidden unless an admin asks for them
+    status: args.status ?? 'published', // public reads only ever see published rows
+    searchPublicOnly: !hasNdaAccess(auth) // locked nda teasers never match on text the viewer cannot read
+  };
 
   if (args.category !== undefined) out.category = args.category; // preserve caller category only when present
   if (args.search !== undefined) out.search = args.search; // preserve caller search only when present
+  if (args.searchMode !== undefined) out.searchMode = args.searchMode; // preserve caller search mode only when present
+  if (args.section !== undefined) out.section = args.section;
+  if (args.subcategory !== undefined) out.subcategory = args.subcategory;
+  if (args.tags !== undefined) out.tags = args.tags;
+  if (args.tagMatch !== undefined) out.tagMatch = args.tagMatch;
 
   return out; // exactOptionalPropertyTypes-safe filter arg bag
 }
 
+function withFrameworkFilter<T extends { whereSql: string; params: unknown[] }>(
+  where: T,
+  framework: ComplianceFramework | undefined
+): T {
+  if (!framework) return where;
+
+  const params = [...where.params, framework]; // appended last, so rank + cursor param indexes stay valid
+  const predicate = buildFrameworkFilterSql(params.length);
+  return {
+    ...where,
+    params,
+    whereSql: where.whereSql
+      ? `${where.whereSql} and ${predicate}`
+      : `where ${predicate}`
+  };
+}
+
+function formatFrameworkAuditValue(
+  mappings: ControlFrameworkMapping[]
+): string[] {
+  return mappings.map(
+    mapping => `${mapping.framework}:${mapping.requirement_id}`
+  ); // short labels keep audit diffs readable
+}
+
+function formatEvidenceAuditValue(evidence: DbControlEvidenceRow[]): string[] {
+  return evidence.map(item => `${item.title} (${item.visibility})`); // titles, not ids, keep audit diffs readable
+}
+
 function logControlsInvalidation(args: {
   requestId: string;
   prefix: string;
@@ -162,11 +299,37 @@ function mergeControlPatch(
   }; // merge partial updates into one complete write shape before recomputing search_text
 }
 
+function buildControlInputFromRow(row: DbControlRow): CreateControlInput {
+  return {
+    controlKey: row.control_key,
+    title: row.title,
+    description: row.description,
+    section: row.section,
+    category: row.category,
+    subcategory: row.subcategory,
+    tags: row.tags,
+    sourceUrl: row.source_url
+  }; // revision snapshots use db column names; revert feeds them back through create validation
+}
+
+function getControlSnapshotSearchText(row: DbControlRow): string {
+  return buildControlSearchText({
+    controlKey: row.control_key,
+    title: row.title,
+    description: row.description,
+    section: row.section,
+    category: row.category,
+    subcategory: row.subcategory,
+    tags: row.tags,
+    sourceUrl: row.source_url
+  }); // snapshots exclude search_text, so asOf reads rebuild it with the write-path builder
+}
+
 async function getControlByIdForWrite(
   id: string,
-  ctx: GraphQLContext
+  db: DbQueryAdapter
 ): Promise<DbControlRow> {
-  const res = await ctx.db.query(
+  const res = await db.query(
     `
       select
         id,
@@ -178,13 +341,18 @@ async function getControlByIdForWrite(
         subcategory,
         tags,
         source_url,
-        updated_at
+        updated_at,
+        deleted_at,
+        status,
+        visibility
       from public.controls
       where id = $1::uuid
+        and deleted_at is null
       limit 1
+      for update
     `,
     [id]
-  ); // fetch current row so partial updates can merge cleanly and missing ids can fail readably
+  ); // lock + fetch the current row so partial updates merge cleanly and the audit diff sees exactly what was replaced
 
   const row = res.rows?.[0] as DbControlRow | undefined;
   if (!row) {
@@ -194,6 +362,128 @@ async function getControlByIdForWrite(
   return row; // existing row is required for partial update merge semantics
 }
 
+async function writeControlContent(
+  tx: DbQueryAdapter,
+  id: string,
+  merged: NormalizedControlWrite,
+  actor: string
+): Promise<DbControlRow> {
+  const searchText = buildControlSearchPayload(merged); // recompute search_text from the post-write shape
+
+  const res = await tx.query(
+    `
+      update public.controls
+      set
+        control_key = $2,
+        title = $3,
+        description = $4,
+        section = $5,
+        category = $6,
+        subcategory = $7,
+        tags = $8::text[],
+        source_url = $9,
+        search_text = $10,
+        updated_by = $11,
+        updated_at = now()
+      where id = $1::uuid
+        and deleted_at is null
+      returning
+        id,
+        control_key,
+        title,
+        description,
+        section,
+        category,
+        subcategory,
+        tags,
+        source_url,
+        updated_at,
+        deleted_at,
+        status,
+        visibility
+    `,
+    [
+      id,
+      merged.controlKey,
+      merged.title,
+      merged.description,
+      merged.section,
+      merged.category,
+      merged.subcategory,
+      merged.tags,
+      merged.sourceUrl,
+      searchText,
+      actor
+    ]
+  ); // full merged update keeps SQL simple while preserving partial-update semantics at the service boundary
+
+  const row = res.rows?.[0] as DbControlRow | undefined;
+  if (!row) {
+    throw new Error('NOT_FOUND_ERROR: control not found');
+  }
+
+  return row; // post-write row for the audit diff + revision snapshot
+}
+
+async function insertControlContent(
+  tx: DbQueryAdapter,
+  input: NormalizedControlWrite,
+  actor: string
+): Promise<DbControlRow> {
+  const res = await tx.query(
+    `
+      insert into public.controls (
+        control_key,
+        title,
+        description,
+        section,
+        category,
+        subcategory,
+        tags,
+        source_url,
+        search_text,
+        created_by,
+        updated_by,
+        status
+      )
+      values ($1, $2, $3, $4, $5, $6, $7::text[], $8, $9, $10, $10, 'draft')
+      returning
+        id,
+        control_key,
+        title,
+        description,
+        section,
+        category,
+        subcategory,
+        tags,
+        source_url,
+        updated_at,
+        deleted_at,
+        status,
+        visibility
+    `,
+    [
+      input.controlKey,
+      input.title,
+      input.description,
+      input.section,
+      input.category,
+      input.subcategory,
+      input.tags,
+      input.sourceUrl,
+      buildControlSearchPayload(input), // recompute search_text server-side
+      actor
+    ]
+  ); // single parameterized insert keeps db writes safe and deterministic (admin-created rows start as drafts)
+
+  const row = res.rows?.[0] as DbControlRow | undefined;
+  if (!row) {
+    throw new Error('WRITE_ERROR: control create returned no row');
+  }
+
+  return row; // inserted row for the audit diff + revision snapshot
+}
+
 // ---------- db read path (cacheable) ----------
 
 async function getControlsPageFromDb(
@@ -201,10 +491,15 @@ async function getControlsPageFromDb(
   ctx: GraphQLContext
 ): Promise<ControlsPage> {
   const firstClamped = clampFirst(args.first); // enforce safe page size
-  const { whereSql, params } = buildCategorySearchWhere(
-    buildControlsWhereArgs(args)
-  ); // build shared filter predicates
-  const afterBoundary = buildAfterBoundary(args.after, params.length + 1); // build cursor boundary predicate
+  const { whereSql, params, rankSql } = withFrameworkFilter(
+    buildCategorySearchWhere(buildControlsWhereArgs(args, ctx.auth)),
+    args.framework
+  ); // build shared filter predicates (+ controls-only framework filter)
+  const afterBoundary = buildAfterBoundary(
+    args.after,
+    params.length + 1,
+    rankSql
+  ); // build cursor boundary predicate
 
   const countSql = `
     select count(*)::int as count
@@ -226,12 +521,16 @@ async function getControlsPageFromDb(
       subcategory,
       tags,
       source_url,
-      updated_at
+      updated_at,
+      deleted_at,
+      status,
+      visibility
+      ${rankSql ? `, ${rankSql} as rank` : ''}
     from public.controls
     ${whereSql}
     ${whereSql ? '' : 'where true'}
     ${afterBoundary.sql}
-    order by updated_at desc, id desc
+    ${buildOrderBySql(rankSql)}
     limit $${params.length + afterBoundary.params.length + 1}
   `; // deterministic desc ordering with cursor boundary + overfetch by 1
 
@@ -241,15 +540,57 @@ async function getControlsPageFromDb(
   const fetched = (pageRes.rows ?? []) as DbControlRow[]; // cast row shape from query result
 
   const hasNextPage = fetched.length > firstClamped; // extra row means more data exists
-  const rows = hasNextPage ? fetched.slice(0, firstClamped) : fetched; // trim extra row for response
+  const rows = await attachEvidenceToControls(
+    await attachControlFrameworks(
+      hasNextPage ? fetched.slice(0, firstClamped) : fetched,
+      ctx.db
+    ),
+    ctx.db
+  ); // trim extra row, then load framework mappings + evidence for the visible page (one query each)
   const last = rows.length ? rows[rows.length - 1] : null; // last visible row determines endCursor
-  const endCursor = last
-    ? encodeCursor({ sortValue: toIso(last.updated_at), id: last.id })
-    : null; // null when page is empty
+  const endCursor = last ? buildRowCursor(last) : null; // null when page is empty
 
   return { rows, hasNextPage, endCursor, totalCount, source: 'db' }; // db-backed page result
 }
 
+async function getControlsPageAsOfFromDb(
+  args: ControlsConnectionArgs & { asOf: string },
+  ctx: GraphQLContext
+): Promise<ControlsPage> {
+  const whereArgs = buildControlsWhereArgs(args, ctx.auth); // same visibility + filter args as the live sql path
+  const snapshots = await getSnapshotsAsOf<DbControlRow>(
+    'control',
+    args.asOf,
+    ctx.db,
+    { includeDeleted: !whereArgs.excludeDeleted, status: whereArgs.status }
+  );
+
+  const candidates = args.framework
+    ? (await attachControlFrameworks(snapshots, ctx.db)).filter(row =>
+        matchesFramework(row, args.framework)
+      )
+    : snapshots; // mappings are not versioned, so history reads show current ones
+  const filtered = filterRowsByCategorySearch(candidates, whereArgs, {
+    getCategory: row => row.category,
+    getSearchText: getControlSnapshotSearchText
+  });
+
+  const pageArgs = {
+    first: args.first,
+    ...(args.after !== undefined ? { after: args.after } : {})
+  }; // omit undefined props for exactOptionalPropertyTypes
+
+  const page = pageFromRows(filtered, pageArgs);
+  const rows = await attachEvidenceToControls(
+    args.framework
+      ? page.rows
+      : await attachControlFrameworks(page.rows, ctx.db),
+    ctx.db
+  ); // one mappings query + one evidence query for the visible page
+
+  return { ...page, rows, source: 'db' }; // cursors encode snapshot (updated_at, id), so they stay valid for the same asOf
+}
+
 async function getControlsPageDbCached(
   args: ControlsConnectionArgs,
   ctx: GraphQLContext
@@ -259,7 +600,10 @@ async function getControlsPageDbCached(
   const page = await ctx.cache.getOrSet(
     cacheKey,
     CONTROLS_READ_CACHE_TTL_SECONDS,
-    async () => getControlsPageFromDb(args, ctx) // only db-backed reads belong in the shared cross-request cache
+    async () =>
+      args.asOf !== undefined
+        ? getControlsPageAsOfFromDb({ ...args, asOf: args.asOf }, ctx) // history reads replay revision snapshots
+        : getControlsPageFromDb(args, ctx) // only db-backed reads belong in the shared cross-request cache
   );
 
   return page as ControlsPage; // cache interface is generic/unknown-friendly, so cast to service return type
@@ -267,41 +611,89 @@ async function getControlsPageDbCached(
 
 // ---------- main read path ----------
 
-export async function getControlsPage(
+function getControlHighlightFields(row: DbControlRow) {
+  return [
+    { field: 'title', text: row.title },
+    { field: 'description', text: row.description }
+  ]; // display fields that can carry search highlights
+}
+
+async function getControlsPageWithFallback(
   args: ControlsConnectionArgs,
   ctx: GraphQLContext
 ): Promise<ControlsPage> {
-  const readIdentity = buildControlsReadIdentity(args, ctx); // compute once so memo identity and shared cache identity cannot drift
-  const memoKey = `controlsService:getControlsPage:${readIdentity}`; // namespace request memo identity to keep traceable service ownership
-
-  return memoizePromise(ctx.memo, memoKey, async () => {
-    try {
-      return await getControlsPageDbCached(args, ctx); // request memo wraps shared read cache so one request never duplicates work
-    } catch (error) {
-      if (!shouldUseSeedFallback(error)) throw error; // only known demo-safe failures should route into fallback mode
+  try {
+    return await getControlsPageDbCached(args, ctx); // request memo wraps shared read cache so one request never duplicates work
+  } catch (error) {
+    if (!shouldUseSeedFallback(error)) throw error; // only known demo-safe failures should route into fallback mode
 
-      const reason = error instanceof Error ? error.message : String(error); // normalize unknown errors into one loggable string
+    const reason = error instanceof Error ? error.message : String(error); // normalize unknown errors into one loggable string
 
-      logSeedFallback({
-        requestId: ctx.requestId, // tie fallback log to the same request trace used by gql/cache/db/data logs
-        resolverName: 'controlsConnection', // identify which resolver path fell back
-        reason // keep the db/env failure reason visible for debugging
-      });
+    logSeedFallback({
+      requestId: ctx.requestId, // tie fallback log to the same request trace used by gql/cache/db/data logs
+      resolverName: 'controlsConnection', // identify which resolver path fell back
+      reason // keep the db/env failure reason visible for debugging
+    });
 
-      const seedRows = await getSeedControlsRows(); // load normalized controls seed rows from the centralized fallback module
-      const filtered = filterRowsByCategorySearch(seedRows, args, {
+    const seedRows = await getSeedControlsRows(); // load normalized controls seed rows from the centralized fallback module
+    const visibleRows =
+      (args.status ?? 'published') === 'published' ? seedRows : []; // seed content is all published, so other statuses read empty
+    const filtered = filterRowsByCategorySearch(
+      visibleRows.filter(row => matchesFramework(row, args.framework)), // seed rows carry frameworks.json mappings
+      args,
+      {
         getCategory: row => row.category, // category source for shared in-memory filter helper
         getSearchText: getSeedControlSearchText // reuse the precomputed fallback search_text so services do not drift from seed normalization
-      });
+      }
+    );
 
-      const pageArgs = {
-        first: args.first,
-        ...(args.after !== undefined ? { after: args.after } : {})
-      }; // omit undefined props for exactOptionalPropertyTypes
+    const pageArgs = {
+      first: args.first,
+      ...(args.after !== undefined ? { after: args.after } : {})
+    }; // omit undefined props for exactOptionalPropertyTypes
 
-      const page = pageFromRows(filtered, pageArgs); // paginate the filtered seed rows using the same in-memory helper as before
-      return { ...page, source: 'mock' }; // preserve resolver contract while clearly signaling fallback mode
-    }
+    const page = pageFromRows(filtered, pageArgs); // paginate the filtered seed rows using the same in-memory helper as before
+    return { ...page, source: 'mock' }; // preserve resolver contract while clearly signaling fallback mode
+  }
+}
+
+function lockNdaControls(
+  page: ControlsPage,
+  auth: GraphQLContext['auth']
+): ControlsPage {
+  if (hasNdaAccess(auth) || !page.rows.some(row => row.visibility === 'nda')) {
+    return page;
+  }
+
+  return {
+    ...page,
+    rows: page.rows.map(row =>
+      row.visibility === 'nda'
+        ? {
+            ...row,
+            description: '',
+            source_url: null,
+            evidence: [],
+            locked: true
+          }
+        : row
+    )
+  }; // teaser keeps title + taxonomy + framework mappings so the viewer knows what to request
+}
+
+export async function getControlsPage(
+  args: ControlsConnectionArgs,
+  ctx: GraphQLContext
+): Promise<ControlsPage> {
+  const readIdentity = buildControlsReadIdentity(args, ctx); // compute once so memo identity and shared cache identity cannot drift
+  const memoKey = `controlsService:getControlsPage:${readIdentity}`; // namespace request memo identity to keep traceable service ownership
+
+  return memoizePromise(ctx.memo, memoKey, async () => {
+    const page = lockNdaControls(
+      await getControlsPageWithFallback(args, ctx), // db (cached) or seed fallback page
+      ctx.auth
+    ); // nda rows are redacted per request, after the shared cache
+    return attachHighlights(page, args, getControlHighlightFields); // highlights are per-request, so they are added after the shared cache
   });
 }
 
@@ -313,12 +705,116 @@ export async function createControl(
 ): Promise<DbControlRow> {
   const actor = getWriteActor(ctx); // write actor feeds audit columns
   const normalized = validateCreateControlInput(input); // validate and normalize before any sql runs
-  const searchText = buildControlSearchPayload(normalized); // recompute search_text server-side
 
   try {
-    const res = await ctx.db.query(
+    const row = await ctx.db.transaction(async tx => {
+      const created = await insertControlContent(tx, normalized, actor); // admin-created rows start as drafts
+
+      await recordAuditEvent(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'control',
+        entityId: created.id,
+        action: 'create',
+        before: null,
+        after: created
+      });
+      await recordRevision(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'control',
+        entityId: created.id,
+        action: 'create',
+        row: created
+      });
+
+      return created;
+    }); // insert + audit event + revision commit together
+
+    const invalidatedPrefix = await invalidateControls(ctx.cache); // clear stale controls reads only after a successful write
+    logControlsInvalidation({
+      requestId: ctx.requestId,
+      prefix: invalidatedPrefix
+    });
+
+    return row; // mutation resolver will map the row into GraphQL shape
+  } catch (error) {
+    mapControlsConflict(error); // translate natural-key conflicts into readable app errors
+  }
+}
+
+export async function updateControl(
+  id: string,
+  input: UpdateControlInput,
+  ctx: GraphQLContext
+): Promise<DbControlRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx); // write actor feeds updated_by
+  const patch = validateUpdateControlInput(input); // validate partial update shape before db work
+
+  try {
+    const row = await ctx.db.transaction(async tx => {
+      const existing = await getControlByIdForWrite(normalizedId, tx); // fetch (and lock) current row for merge semantics and readable not-found handling
+      assertCanChangePublished(ctx.auth, existing.status); // editing a live row changes the public site
+      const merged = mergeControlPatch(existing, patch); // compute the post-update row shape once
+      const updated = await writeControlContent(
+        tx,
+        normalizedId,
+        merged,
+        actor
+      ); // same content write path as adminRevertControl
+
+      await recordAuditEvent(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'control',
+        entityId: updated.id,
+        action: 'update',
+        before: existing,
+        after: updated
+      });
+      await recordRevision(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'control',
+        entityId: updated.id,
+        action: 'update',
+        row: updated
+      });
+
+      return updated;
+    }); // update + audit event + revision commit together
+
+    const invalidatedPrefix = await invalidateControls(ctx.cache); // clear stale controls reads only after a successful write
+    logControlsInvalidation({
+      requestId: ctx.requestId,
+      prefix: invalidatedPrefix
+    });
+
+    return row; // mutation resolver will map the row into GraphQL shape
+  } catch (error) {
+    mapControlsConflict(error); // translate natural-key conflicts into readable app errors
+  }
+}
+
+export async function deleteControl(
+  id: string,
+  ctx: GraphQLContext
+): Promise<DeleteControlResult> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx); // deletes are audited with the same actor value as other writes
+
+  const row = await ctx.db.transaction(async tx => {
+    const res = await tx.query(
       `
-        insert into public.controls (
+        update public.controls
+        set
+          deleted_at = now(),
+          deleted_by = $2
+        where id = $1::uuid
+          and deleted_at is null
+        returning
+          id,
           control_key,
           title,
           description,
@@ -327,11 +823,66 @@ export async function createControl(
           subcategory,
           tags,
           source_url,
-          search_text,
-          created_by,
-          updated_by
-        )
-        values ($1, $2, $3, $4, $5, $6, $7::text[], $8, $9, $10, $10)
+          updated_at,
+          deleted_at,
+          status,
+          visibility
+      `,
+      [normalizedId, actor]
+    ); // soft delete keeps the row (and its natural key) so adminRestoreControl can bring it back
+
+    const deleted = res.rows?.[0] as DbControlRow | undefined;
+    if (!deleted) {
+      throw new Error('NOT_FOUND_ERROR: control not found');
+    }
+    assertCanChangePublished(ctx.auth, deleted.status); // taking a live row down is a publish decision; throwing rolls the delete back
+
+    await recordAuditEvent(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: deleted.id,
+      action: 'delete',
+      before: deleted,
+      after: null
+    });
+    await recordRevision(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: deleted.id,
+      action: 'delete',
+      row: deleted
+    });
+
+    return deleted;
+  }); // delete + audit event + revision commit together
+
+  const invalidatedPrefix = await invalidateControls(ctx.cache); // clear stale controls reads only after a successful delete
+  logControlsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return { id: row.id }; // mutation resolver wraps this in DeleteResult
+}
+
+export async function restoreControl(
+  id: string,
+  ctx: GraphQLContext
+): Promise<DbControlRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx); // restores are audited with the same actor value as other writes
+
+  const row = await ctx.db.transaction(async tx => {
+    const res = await tx.query(
+      `
+        update public.controls
+        set
+          deleted_at = null,
+          deleted_by = null
+        where id = $1::uuid
+          and deleted_at is not null
         returning
           id,
           control_key,
@@ -342,66 +893,68 @@ export async function createControl(
           subcategory,
           tags,
           source_url,
-          updated_at
+          updated_at,
+          deleted_at,
+          status,
+          visibility
       `,
-      [
-        normalized.controlKey,
-        normalized.title,
-        normalized.description,
-        normalized.section,
-        normalized.category,
-        normalized.subcategory,
-        normalized.tags,
-        normalized.sourceUrl,
-        searchText,
-        actor
-      ]
-    ); // single parameterized insert keeps db writes safe and deterministic
+      [normalizedId]
+    ); // updated_at is left alone so the row returns to its original list position
 
-    const row = res.rows?.[0] as DbControlRow | undefined;
-    if (!row) {
-      throw new Error('WRITE_ERROR: control create returned no row');
+    const restored = res.rows?.[0] as DbControlRow | undefined;
+    if (!restored) {
+      throw new Error('NOT_FOUND_ERROR: deleted control not found');
     }
+    assertCanChangePublished(ctx.auth, restored.status); // a restored published row is live again; throwing rolls the restore back
 
-    const invalidatedPrefix = invalidateControls(ctx.cache); // clear stale controls reads only after a successful write
-    logControlsInvalidation({
+    await recordAuditEvent(tx, {
+      actor,
       requestId: ctx.requestId,
-      prefix: invalidatedPrefix
+      entity: 'control',
+      entityId: restored.id,
+      action: 'restore',
+      before: null,
+      after: restored
+    });
+    await recordRevision(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: restored.id,
+      action: 'restore',
+      row: restored
     });
 
-    return row; // mutation resolver will map the row into GraphQL shape
-  } catch (error) {
-    mapControlsConflict(error); // translate natural-key conflicts into readable app errors
-  }
+    return restored;
+  }); // restore + audit event + revision commit together
+
+  const invalidatedPrefix = await invalidateControls(ctx.cache); // clear stale controls reads only after a successful restore
+  logControlsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return row; // mutation resolver will map the row into GraphQL shape
 }
 
-export async function updateControl(
+export async function transitionControlStatus(
   id: string,
-  input: UpdateControlInput,
+  to: ContentStatus,
   ctx: GraphQLContext
 ): Promise<DbControlRow> {
   const normalizedId = normalizeId(id); // reject blank ids before touching the db
-  const actor = getWriteActor(ctx); // write actor feeds updated_by
-  const patch = validateUpdateControlInput(input); // validate partial update shape before db work
-  const existing = await getControlByIdForWrite(normalizedId, ctx); // fetch current row for merge semantics and readable not-found handling
-  const merged = mergeControlPatch(existing, patch); // compute the post-update row shape once
-  const searchText = buildControlSearchPayload(merged); // recompute search_text from the merged post-update shape
+  const actor = getWriteActor(ctx); // status changes are audited with the same actor value as other writes
 
-  try {
-    const res = await ctx.db.query(
+  const row = await ctx.db.transaction(async tx => {
+    const existing = await getControlByIdForWrite(normalizedId, tx); // lock the row so two reviewers cannot race the same transition
+    assertStatusTransition(existing.status ?? 'published', to); // reject moves the workflow does not allow
+
+    const res = await tx.query(
       `
         update public.controls
         set
-          control_key = $2,
-          title = $3,
-          description = $4,
-          section = $5,
-          category = $6,
-          subcategory = $7,
-          tags = $8::text[],
-          source_url = $9,
-          search_text = $10,
-          updated_by = $11,
+          status = $2,
+          updated_by = $3,
           updated_at = now()
         where id = $1::uuid
         returning
@@ -414,65 +967,653 @@ export async function updateControl(
           subcategory,
           tags,
           source_url,
-          updated_at
+          updated_at,
+          deleted_at,
+          status,
+          visibility
       `,
-      [
-        normalizedId,
-        merged.controlKey,
-        merged.title,
-        merged.description,
-        merged.section,
-        merged.category,
-        merged.subcategory,
-        merged.tags,
-        merged.sourceUrl,
-        searchText,
-        actor
-      ]
-    ); // full merged update keeps SQL simple while preserving partial-update semantics at the service boundary
+      [normalizedId, to, actor]
+    ); // updated_at moves so newly published content sorts first
+
+    const updated = res.rows?.[0] as DbControlRow | undefined;
+    if (!updated) {
+      throw new Error('NOT_FOUND_ERROR: control not found');
+    }
+
+    await recordAuditEvent(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: updated.id,
+      action: 'update',
+      before: existing,
+      after: updated
+    });
+    await recordRevision(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: updated.id,
+      action: 'update',
+      row: updated
+    }); // the audit diff carries the status change; the revision keeps the full row
+
+    return updated;
+  }); // status update + audit event + revision commit together
+
+  const invalidatedPrefix = await invalidateControls(ctx.cache); // published reads change, so clear them only after a successful write
+  logControlsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return row; // mutation resolver maps the row into the status payload
+}
+
+export async function setControlVisibility(
+  id: string,
+  visibility: ContentVisibility,
+  ctx: GraphQLContext
+): Promise<DbControlRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx); // visibility changes are audited with the same actor value as other writes
+
+  const { row, changed } = await ctx.db.transaction(async tx => {
+    const existing = await getControlByIdForWrite(normalizedId, tx); // lock the row so concurrent changes serialize
+    if ((existing.visibility ?? 'public') === visibility) {
+      return { row: existing, changed: false }; // already there  -->  no audit noise
+    }
 
-    const row = res.rows?.[0] as DbControlRow | undefined;
-    if (!row) {
+    const res = await tx.query(
+      `
+        update public.controls
+        set
+          visibility = $2,
+          updated_by = $3,
+          updated_at = now()
+        where id = $1::uuid
+        returning
+          id,
+          control_key,
+          title,
+          description,
+          section,
+          category,
+          subcategory,
+          tags,
+          source_url,
+          updated_at,
+          deleted_at,
+          status,
+          visibility
+      `,
+      [normalizedId, visibility, actor]
+    );
+
+    const updated = res.rows?.[0] as DbControlRow | undefined;
+    if (!updated) {
       throw new Error('NOT_FOUND_ERROR: control not found');
     }
 
-    const invalidatedPrefix = invalidateControls(ctx.cache); // clear stale controls reads only after a successful write
+    await recordAuditEvent(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: updated.id,
+      action: 'update',
+      before: existing,
+      after: updated
+    });
+    await recordRevision(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: updated.id,
+      action: 'update',
+      row: updated
+    }); // the audit diff carries the visibility change; the revision keeps the full row
+
+    return { row: updated, changed: true };
+  }); // visibility update + audit event + revision commit together
+
+  if (!changed) return row; // unchanged: nothing to invalidate
+
+  const invalidatedPrefix = await invalidateControls(ctx.cache); // public teasers + nda reads change together
+  logControlsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return row;
+}
+
+export async function attachControlFramework(
+  id: string,
+  args: ControlFrameworkArgs,
+  ctx: GraphQLContext
+): Promise<DbControlRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const input = {
+    framework: args.framework,
+    requirementId: normalizeRequirementId(args.requirementId),
+    requirementTitle: normalizeRequirementTitle(args.requirementTitle)
+  };
+  const actor = getWriteActor(ctx);
+
+  const row = await ctx.db.transaction(async tx => {
+    const existing = await getControlByIdForWrite(normalizedId, tx); // lock the live control so concurrent mapping writes queue
+    assertCanChangePublished(ctx.auth, existing.status); // a new mapping shows on the public page at once
+    const [before] = await attachControlFrameworks([existing], tx);
+
+    const inserted = await insertControlFramework(
+      tx,
+      existing.id,
+      input,
+      actor
+    );
+    if (!inserted) {
+      throw new Error(
+        `CONFLICT_ERROR: control is already mapped to ${input.framework} ${input.requirementId}`
+      );
+    }
+
+    const [after] = await attachControlFrameworks([existing], tx);
+
+    await recordAuditEvent(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: existing.id,
+      action: 'update',
+      before: {
+        frameworks: formatFrameworkAuditValue(before?.frameworks ?? [])
+      },
+      after: { frameworks: formatFrameworkAuditValue(after?.frameworks ?? []) }
+    }); // mappings are not part of revision snapshots, so the audit log is their history
+
+    return after ?? existing;
+  });
+
+  const invalidatedPrefix = await invalidateControls(ctx.cache); // cached pages carry frameworks + the framework filter
+  logControlsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return row;
+}
+
+export async function detachControlFramework(
+  id: string,
+  args: ControlFrameworkArgs,
+  ctx: GraphQLContext
+): Promise<DbControlRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const requirementId = normalizeRequirementId(args.requirementId);
+  const actor = getWriteActor(ctx);
+
+  const row = await ctx.db.transaction(async tx => {
+    const existing = await getControlByIdForWrite(normalizedId, tx);
+    assertCanChangePublished(ctx.auth, existing.status); // same gate as attaching
+    const [before] = await attachControlFrameworks([existing], tx);
+
+    const deleted = await deleteControlFramework(
+      tx,
+      existing.id,
+      args.framework,
+      requirementId
+    );
+    if (!deleted) {
+      throw new Error(
+        `NOT_FOUND_ERROR: control is not mapped to ${args.framework} ${requirementId}`
+      );
+    }
+
+    const [after] = await attachControlFrameworks([existing], tx);
+
+    await recordAuditEvent(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: existing.id,
+      action: 'update',
+      before: {
+        frameworks: formatFrameworkAuditValue(before?.frameworks ?? [])
+      },
+      after: { frameworks: formatFrameworkAuditValue(after?.frameworks ?? []) }
+    });
+
+    return after ?? existing;
+  });
+
+  const invalidatedPrefix = await invalidateControls(ctx.cache);
+  logControlsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return row;
+}
+
+export async function renameFrameworkRequirement(
+  args: ControlFrameworkArgs,
+  ctx: GraphQLContext
+): Promise<FrameworkRequirementRename> {
+  const requirementId = normalizeRequirementId(args.requirementId);
+  const title = normalizeRequirementTitle(args.requirementTitle);
+  const actor = getWriteActor(ctx);
+
+  const renamed = await ctx.db.transaction(async tx => {
+    const result = await updateFrameworkRequirementTitle(
+      tx,
+      args.framework,
+      requirementId,
+      title,
+      actor
+    );
+    if (!result) {
+      throw new Error(
+        `NOT_FOUND_ERROR: ${args.framework} requirement ${requirementId} not found`
+      );
+    }
+    if (result.before === title) return { ...result, changed: false }; // same title: no write, no audit
+
+    const label = `${args.framework}:${result.requirement_id}`;
+    for (const controlId of result.controlIds) {
+      await recordAuditEvent(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'control',
+        entityId: controlId,
+        action: 'update',
+        before: { framework_titles: [`${label} ${result.before}`] },
+        after: { framework_titles: [`${label} ${title}`] }
+      });
+    } // every mapped control shows the title, so each one's history records the rename
+
+    return { ...result, changed: true };
+  });
+
+  if (renamed.changed) {
+    const invalidatedPrefix = await invalidateControls(ctx.cache); // cached pages + coverage carry requirement titles
     logControlsInvalidation({
       requestId: ctx.requestId,
       prefix: invalidatedPrefix
     });
+  }
 
-    return row; // mutation resolver will map the row into GraphQL shape
+  return {
+    framework: args.framework,
+    requirementId: renamed.requirement_id,
+    requirementTitle: title,
+    affectedControls: renamed.changed ? renamed.controlIds.length : 0
+  };
+}
+
+type EvidenceInsert = Parameters<typeof insertControlEvidence>[2];
+
+async function addControlEvidence(
+  id: string,
+  input: EvidenceInsert,
+  ctx: GraphQLContext
+): Promise<DbControlRow> {
+  const actor = getWriteActor(ctx);
+
+  const row = await ctx.db.transaction(async tx => {
+    const existing = await getControlByIdForWrite(id, tx); // lock the live control so concurrent evidence writes queue
+    assertCanChangePublished(ctx.auth, existing.status); // evidence on a published control is public content; the caller drops the stored file on throw
+    const [before] = await attachEvidenceToControls([existing], tx);
+
+    await insertControlEvidence(tx, existing.id, input, actor);
+
+    const [after] = await attachEvidenceToControls([existing], tx);
+
+    await recordAuditEvent(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: existing.id,
+      action: 'update',
+      before: { evidence: formatEvidenceAuditValue(before?.evidence ?? []) },
+      after: { evidence: formatEvidenceAuditValue(after?.evidence ?? []) }
+    }); // evidence is not part of revision snapshots, so the audit log is its history
+
+    return after ?? existing;
+  });
+
+  const invalidatedPrefix = await invalidateControls(ctx.cache); // cached pages carry evidence
+  logControlsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return row;
+}
+
+export async function uploadControlEvidence(
+  id: string,
+  input: ControlEvidenceFileInput,
+  ctx: GraphQLContext
+): Promise<DbControlRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const { body, ...file } = validateEvidenceFileInput(input);
+  const blobKey = buildEvidenceBlobKey();
+
+  await ctx.blobs.put(blobKey, body, { contentType: file.contentType }); // bytes first, so a committed row always has its file
+
+  try {
+    return await addControlEvidence(
+      normalizedId,
+      { ...file, kind: 'file', blobKey, byteSize: body.length },
+      ctx
+    );
   } catch (error) {
-    mapControlsConflict(error); // translate natural-key conflicts into readable app errors
+    await ctx.blobs.delete(blobKey).catch(() => {}); // rolled-back row  -->  drop the orphaned file
+    throw error;
   }
 }
 
-export async function deleteControl(
+export async function attachControlEvidenceLink(
   id: string,
+  input: ControlEvidenceLinkInput,
   ctx: GraphQLContext
-): Promise<DeleteControlResult> {
+): Promise<DbControlRow> {
   const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  return addControlEvidence(
+    normalizedId,
+    { ...validateEvidenceLinkInput(input), kind: 'link' },
+    ctx
+  );
+}
 
-  const res = await ctx.db.query(
-    `
-      delete from public.controls
-      where id = $1::uuid
-      returning id
-    `,
-    [normalizedId]
-  ); // delete returns the removed id so GraphQL can prove what was deleted
+export async function deleteControlEvidence(
+  evidenceId: string,
+  ctx: GraphQLContext
+): Promise<DbControlRow> {
+  const normalizedId = normalizeId(evidenceId); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx);
 
-  const row = res.rows?.[0] as { id: string } | undefined;
-  if (!row) {
-    throw new Error('NOT_FOUND_ERROR: control not found');
+  const { row, removed } = await ctx.db.transaction(async tx => {
+    const controlId = await findEvidenceControlId(tx, normalizedId);
+    const existing = await getControlByIdForWrite(controlId, tx);
+    assertCanChangePublished(ctx.auth, existing.status); // same gate as adding evidence
+    const [before] = await attachEvidenceToControls([existing], tx);
+
+    const removed = await deleteControlEvidenceRow(
+      tx,
+      existing.id,
+      normalizedId
+    );
+    if (!removed) {
+      throw new Error(`NOT_FOUND_ERROR: evidence ${normalizedId} not found`); // deleted by a concurrent request
+    }
+
+    const [after] = await attachEvidenceToControls([existing], tx);
+
+    await recordAuditEvent(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'control',
+      entityId: existing.id,
+      action: 'update',
+      before: { evidence: formatEvidenceAuditValue(before?.evidence ?? []) },
+      after: { evidence: formatEvidenceAuditValue(after?.evidence ?? []) }
+    });
+
+    return { row: after ?? existing, removed };
+  });
+
+  if (removed.blob_key) {
+    await ctx.blobs.delete(removed.blob_key).catch(error => {
+      console.warn(
+        `[evidence] requestId=${ctx.requestId} blob delete failed key=${removed.blob_key}: ${String(error)}`
+      ); // the row is gone, so a leftover file is unreachable rather than leaked
+    });
   }
 
-  const invalidatedPrefix = invalidateControls(ctx.cache); // clear stale controls reads only after a successful delete
+  const invalidatedPrefix = await invalidateControls(ctx.cache);
   logControlsInvalidation({
     requestId: ctx.requestId,
     prefix: invalidatedPrefix
   });
 
-  return { id: row.id }; // mutation resolver wraps this in DeleteResult
+  return row;
+}
+
+export async function revertControl(
+  id: string,
+  revisionId: string,
+  ctx: GraphQLContext
+): Promise<DbControlRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx); // reverts are audited with the same actor value as other writes
+
+  try {
+    const row = await ctx.db.transaction(async tx => {
+      const existing = await getControlByIdForWrite(normalizedId, tx); // lock the live row (deleted rows must be restored first)
+      assertCanChangePublished(ctx.auth, existing.status); // a revert rewrites the content in place, like an update
+      const revision = await getRevisionForRevert<DbControlRow>(
+        'control',
+        normalizedId,
+        revisionId,
+        tx
+      );
+      const reverted = validateCreateControlInput(
+        buildControlInputFromRow(revision.snapshot)
+      ); // old snapshots may predate current validation rules, so they must pass them again
+      const updated = await writeControlContent(
+        tx,
+        normalizedId,
+        reverted,
+        actor
+      ); // recomputes search_text like any other update
+
+      await recordAuditEvent(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'control',
+        entityId: updated.id,
+        action: 'update',
+        before: existing,
+        after: updated
+      });
+      await recordRevision(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'control',
+        entityId: updated.id,
+        action: 'update',
+        row: updated,
+        revertedFrom: revision.id
+      });
+
+      return updated;
+    }); // revert + audit event + revision commit together
+
+    const invalidatedPrefix = await invalidateControls(ctx.cache); // clear stale reads only after a successful revert
+    logControlsInvalidation({
+      requestId: ctx.requestId,
+      prefix: invalidatedPrefix
+    });
+
+    return row; // mutation resolver will map the row into GraphQL shape
+  } catch (error) {
+    mapControlsConflict(error); // the reverted key may now belong to another row
+  }
+}
+
+// ---------- taxonomy cascade (runs inside the taxonomy admin transaction) ----------
+
+export async function relabelControlsTaxonomy(
+  tx: DbQueryAdapter,
+  relabel: TaxonomyRelabel,
+  meta: { actor: string; requestId: string },
+  auth: GraphQLContext['auth'] | null // null for trusted callers (the taxonomy seed)
+): Promise<number> {
+  const predicates: string[] = [];
+  const params: unknown[] = [];
+
+  for (const field of ['section', 'category', 'subcategory'] as const) {
+    const value = relabel.match[field];
+    if (value === undefined) continue;
+    params.push(value.toLowerCase());
+    predicates.push(`lower(${field}) = $${params.length}`); // column names come from the fixed list above
+  }
+
+  if (predicates.length === 0) return 0; // an empty match would relabel every row
+
+  const res = await tx.query(
+    `
+      select
+        id,
+        control_key,
+        title,
+        description,
+        section,
+        category,
+        subcategory,
+        tags,
+        source_url,
+        updated_at,
+        deleted_at,
+        status,
+        visibility
+      from public.controls
+      where ${predicates.join(' and ')}
+      for update
+    `,
+    params
+  ); // soft-deleted rows are relabeled too, so a later restore never brings back a retired label
+
+  const rows = (res.rows ?? []) as DbControlRow[];
+
+  for (const existing of rows) {
+    if (auth && !existing.deleted_at) {
+      assertCanChangePublished(auth, existing.status); // a relabel moves live rows on the public site; deleted rows are not live
+    }
+
+    const merged = mergeControlPatch(existing, relabel.set); // only taxonomy labels change
+    const updateRes = await tx.query(
+      `
+        update public.controls
+        set
+          section = $2,
+          category = $3,
+          subcategory = $4,
+          search_text = $5,
+          updated_by = $6,
+          updated_at = now()
+        where id = $1::uuid
+        returning
+          id,
+          control_key,
+          title,
+          description,
+          section,
+          category,
+          subcategory,
+          tags,
+          source_url,
+          updated_at,
+          deleted_at,
+          status,
+          visibility
+      `,
+      [
+        existing.id,
+        merged.section,
+        merged.category,
+        merged.subcategory,
+        buildControlSearchPayload(merged),
+        meta.actor
+      ]
+    ); // search_text embeds the taxonomy labels, so it is recomputed with them
+
+    const updated = updateRes.rows?.[0] as DbControlRow | undefined;
+    if (!updated) continue;
+
+    await recordAuditEvent(tx, {
+      ...meta,
+      entity: 'control',
+      entityId: updated.id,
+      action: 'update',
+      before: existing,
+      after: updated
+    });
+    await recordRevision(tx, {
+      ...meta,
+      entity: 'control',
+      entityId: updated.id,
+      action: 'update',
+      row: updated
+    }); // asOf reads after the cascade see the new label
+  }
+
+  return rows.length; // caller invalidates after commit
+}
+
+// ---------- bulk import (runs inside the import transaction) ----------
+
+export async function getControlsByKeys(
+  keys: string[],
+  db: DbQueryAdapter,
+  opts: { lock: boolean }
+): Promise<DbControlRow[]> {
+  const res = await db.query(
+    `
+      select
+        id,
+        control_key,
+        title,
+        description,
+        section,
+        category,
+        subcategory,
+        tags,
+        source_url,
+        updated_at,
+        deleted_at,
+        status,
+        visibility
+      from public.controls
+      where control_key = any($1::text[])
+      ${opts.lock ? 'for update' : ''}
+    `,
+    [keys]
+  ); // includes soft-deleted rows so the import can report their keys instead of failing on the unique index
+
+  return (res.rows ?? []) as DbControlRow[];
+}
+
+export function toControlWrite(row: DbControlRow): NormalizedControlWrite {
+  return mergeControlPatch(row, {}); // stored row in the same shape validateCreateControlInput returns
+}
+
+export async function importControl(
+  tx: DbQueryAdapter,
+  write: NormalizedControlWrite,
+  existing: DbControlRow | null,
+  meta: { actor: string; requestId: string }
+): Promise<DbControlRow> {
+  const row = existing
+    ? await writeControlContent(tx, existing.id, write, meta.actor) // status is left alone on updates
+    : await insertControlContent(tx, write, meta.actor); // new rows start as drafts, like adminCreateControl
+
+  await recordAuditEvent(tx, {
+    ...meta,
+    entity: 'control',
+    entityId: row.id,
+    action: existing ? 'update' : 'create',
+    before: existing,
+    after: row
+  });
+  await recordRevision(tx, {
+    ...meta,
+    entity: 'control',
+    entityId: row.id,
+    action: existing ? 'update' : 'create',
+    row
+  });
+
+  return row; // caller invalidates once after the whole import commits
 }
@@ -0,0 +1,387 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> framework coverage matrix (control categories x compliance frameworks)
+
+  - one column per framework with per-requirement control counts; requirements with no control are gaps
+  - one row per control category (taxonomy manifest order) with a mapped-control count per framework
+  - a cell is a gap when none of the category's controls map to that framework
+  - counts cover live, published controls (same visibility as public list reads)
+  - the db path is two grouped queries, so the grid never pages through controlsConnection
+  - cached under the controls list prefix; control writes and mapping attach / detach refresh it
+  - seed fallback aggregates seed rows + frameworks.json into the same count rows
+  - read cache keys are scoped by the request's role set (shared rbac helper)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { GraphQLContext } from '../graphql/context'; // request-scoped deps (db + memo + cache + auth)
+import { getAuthScopeForReadCache } from '../auth'; // read cache scope derived from the rbac role set
+import { buildFrameworkCoverageReadCacheKey } from '../cache/keys'; // lives under the controls list prefix
+import { memoizePromise } from './memo'; // request-scoped promise dedupe helper
+import {
+  getSeedControlsRows,
+  getSeedTaxonomyManifest,
+  logSeedFallback,
+  shouldUseSeedFallback,
+  type SeedControlRow
+} from './seedFallback'; // shared fallback decision + seed rows
+import { getTaxonomyManifest } from './taxonomyService'; // stored vocabulary drives row order
+import {
+  COMPLIANCE_FRAMEWORKS,
+  FRAMEWORK_LABELS,
+  getSeedFrameworkRequirements,
+  sortFrameworkMappings,
+  type ComplianceFramework,
+  type ControlFrameworkMapping
+} from './frameworkService'; // framework ids, labels, and ordering
+import type { TaxonomyManifest } from '../taxonomy'; // manifest contract type
+
+// ---------- return shapes ----------
+
+export type FrameworkCoverageRequirement = {
+  requirementId: string;
+  requirementTitle: string;
+  controlCount: number; // live, published controls mapped to the requirement
+  isGap: boolean; // no control covers the requirement
+};
+
+export type FrameworkCoverageColumn = {
+  framework: ComplianceFramework;
+  label: string;
+  controlCount: number; // distinct controls mapped to any requirement of the framework
+  requirementCount: number;
+  coveredRequirementCount: number;
+  requirements: FrameworkCoverageRequirement[]; // natural requirement id order
+};
+
+export type FrameworkCoverageCell = {
+  framework: ComplianceFramework;
+  controlCount: number; // the category's controls mapped to the framework
+  requirementCount: number; // distinct requirements those controls cover
+  isGap: boolean;
+};
+
+export type FrameworkCoverageRow = {
+  section: string;
+  category: string;
+  controlCount: number; // every live, published control in the category
+  cells: FrameworkCoverageCell[]; // same order as the columns
+};
+
+export type FrameworkCoverage = {
+  totalControls: number;
+  frameworks: FrameworkCoverageColumn[];
+  categories: FrameworkCoverageRow[];
+  source: 'db' | 'mock';
+};
+
+// ---------- count row shapes (db + seed) ----------
+
+export type CoverageRequirementCountRow = ControlFrameworkMapping & {
+  control_count: number;
+};
+
+export type CoverageCategoryCountRow = {
+  section: string;
+  category: string;
+  framework: ComplianceFramework | null; // null = category total
+  control_count: number;
+  requirement_count: number;
+};
+
+// ---------- config ----------
+
+const COVERAGE_READ_CACHE_TTL_SECONDS = 60; // same ttl as the list reads it summarizes
+
+// ---------- matrix building ----------
+
+function labelKey(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase(); // taxonomy labels match case-insensitively everywhere else too
+}
+
+export function buildFrameworkCoverage(
+  manifest: TaxonomyManifest,
+  requirementRows: CoverageRequirementCountRow[],
+  categoryRows: CoverageCategoryCountRow[]
+): Omit<FrameworkCoverage, 'source'> {
+  const frameworks = COMPLIANCE_FRAMEWORKS.map(
+    (framework): FrameworkCoverageColumn => {
+      const requirements = sortFrameworkMappings(
+        requirementRows.filter(row => row.framework === framework)
+      ).map(row => {
+        const controlCount = Number(row.control_count); // pg may return bigint counts as strings
+        return {
+          requirementId: row.requirement_id,
+          requirementTitle: row.requirement_title,
+          controlCount,
+          isGap: controlCount === 0
+        };
+      });
+
+      return {
+        framework,
+        label: FRAMEWORK_LABELS[framework],
+        controlCount: 0, // summed from the category cells below
+        requirementCount: requirements.length,
+        coveredRequirementCount: requirements.filter(item => !item.isGap)
+          .length,
+        requirements
+      };
+    }
+  );
+
+  const rowsByCategory = new Map<string, FrameworkCoverageRow>();
+  const rowFor = (row: CoverageCategoryCountRow) => {
+    const key = labelKey(row.category);
+    const existing = rowsByCategory.get(key);
+    if (existing) return existing;
+
+    const created: FrameworkCoverageRow = {
+      section: row.section,
+      category: row.category,
+      controlCount: 0,
+      cells: COMPLIANCE_FRAMEWORKS.map(framework => ({
+        framework,
+        controlCount: 0,
+        requirementCount: 0,
+        isGap: true
+      }))
+    };
+    rowsByCategory.set(key, created);
+    return created;
+  };
+
+  let totalControls = 0;
+
+  for (const row of categoryRows) {
+    const target = rowFor(row);
+    const controlCount = Number(row.control_count);
+
+    if (row.framework === null) {
+      target.controlCount += controlCount;
+      totalControls += controlCount;
+      continue;
+    }
+
+    const cell = target.cells.find(item => item.framework === row.framework);
+    if (!cell) continue; // unknown framework values never reach the grid
+
+    cell.controlCount += controlCount;
+    cell.requirementCount += Number(row.requirement_count);
+    cell.isGap = cell.controlCount === 0;
+  }
+
+  const manifestOrder = Object.keys(manifest.controls.categories).map(labelKey);
+  const position = (category: string) => {
+    const index = manifestOrder.indexOf(labelKey(category));
+    return index === -1 ? manifestOrder.length : index; // unknown labels land after the manifest entries
+  };
+
+  const categories = [...rowsByCategory.values()]
+    .filter(row => row.controlCount > 0)
+    .sort(
+      (a, b) =>
+        position(a.category) - position(b.category) ||
+        a.category.localeCompare(b.category)
+    );
+
+  for (const column of frameworks) {
+    column.controlCount = categories.reduce(
+      (sum, row) =>
+        sum +
+        (row.cells.find(cell => cell.framework === column.framework)
+          ?.controlCount ?? 0),
+      0
+    ); // a control sits in exactly one category, so the cells add up without double counting
+  }
+
+  return { totalControls, frameworks, categories };
+}
+
+// ---------- count sources ----------
+
+async function getCoverageCountsFromDb(ctx: GraphQLContext): Promise<{
+  requirementRows: CoverageRequirementCountRow[];
+  categoryRows: CoverageCategoryCountRow[];
+}> {
+  const [requirementRes, categoryRes] = await Promise.all([
+    ctx.db.query(
+      `
+        select
+          fr.framework,
+          fr.requirement_id,
+          fr.title as requirement_title,
+          count(c.id)::int as control_count
+        from public.framework_requirements fr
+        left join public.control_frameworks cf on cf.requirement_id = fr.id
+        left join public.controls c
+          on c.id = cf.control_id
+          and c.deleted_at is null
+          and c.status = 'published'
+        group by fr.id, fr.framework, fr.requirement_id, fr.title
+      `
+    ), // every requirement, including the ones no live control covers
+    ctx.db.query(
+      `
+        select
+          c.section,
+          c.category,
+          case when grouping(fr.framework) = 0 then fr.framework end as framework,
+          grouping(fr.framework) = 1 as is_category_total,
+          count(distinct c.id)::int as control_count,
+          count(distinct fr.id)::int as requirement_count
+        from public.controls c
+        left join public.control_frameworks cf on cf.control_id = c.id
+        left join public.framework_requirements fr on fr.id = cf.requirement_id
+        where c.deleted_at is null
+          and c.status = 'published'
+        group by grouping sets (
+          (c.section, c.category),
+          (c.section, c.category, fr.framework)
+        )
+      `
+    ) // category totals + per-framework counts in one scan
+  ]);
+
+  const categoryRows = (
+    (categoryRes.rows ?? []) as Array<
+      CoverageCategoryCountRow & { is_category_total: boolean }
+    >
+  )
+    .filter(row => row.is_category_total || row.framework !== null) // drop the unmapped-controls bucket of the framework grouping
+    .map(row => ({
+      section: row.section,
+      category: row.category,
+      framework: row.is_category_total ? null : row.framework,
+      control_count: row.control_count,
+      requirement_count: row.requirement_count
+    }));
+
+  return {
+    requirementRows: (requirementRes.rows ??
+      []) as CoverageRequirementCountRow[],
+    categoryRows
+  };
+}
+
+export function aggregateSeedCoverage(
+  rows: Pick<SeedControlRow, 'section' | 'category' | 'frameworks'>[],
+  requirements: ControlFrameworkMapping[]
+): {
+  requirementRows: CoverageRequirementCountRow[];
+  categoryRows: CoverageCategoryCountRow[];
+} {
+  const requirementKey = (mapping: ControlFrameworkMapping) =>
+    `${mapping.framework}:${mapping.requirement_id.toLowerCase()}`;
+
+  const controlsByRequirement = new Map<string, number>();
+  const cells = new Map<
+    string,
+    CoverageCategoryCountRow & { requirements: Set<string> }
+  >();
+
+  const cellFor = (
+    row: Pick<SeedControlRow, 'section' | 'category'>,
+    framework: ComplianceFramework | null
+  ) => {
+    const key = `${row.section}\u0000${row.category}\u0000${framework ?? ''}`;
+    const existing = cells.get(key);
+    if (existing) return existing;
+
+    const created = {
+      section: row.section,
+      category: row.category,
+      framework,
+      control_count: 0,
+      requirement_count: 0,
+      requirements: new Set<string>()
+    };
+    cells.set(key, created);
+    return created;
+  };
+
+  for (const row of rows) {
+    cellFor(row, null).control_count += 1;
+
+    const frameworksSeen = new Set<ComplianceFramework>();
+    for (const mapping of row.frameworks) {
+      const key = requirementKey(mapping);
+      controlsByRequirement.set(key, (controlsByRequirement.get(key) ?? 0) + 1);
+
+      const cell = cellFor(row, mapping.framework);
+      cell.requirements.add(key);
+      if (!frameworksSeen.has(mapping.framework)) cell.control_count += 1; // one control counts once per framework
+      frameworksSeen.add(mapping.framework);
+    }
+  }
+
+  return {
+    requirementRows: requirements.map(requirement => ({
+      ...requirement,
+      control_count: controlsByRequirement.get(requirementKey(requirement)) ?? 0
+    })),
+    categoryRows: [...cells.values()].map(
+      ({ requirements: covered, ...cell }) => ({
+        ...cell,
+        requirement_count: covered.size
+      })
+    )
+  };
+}
+
+// ---------- main read path ----------
+
+async function getFrameworkCoverageWithFallback(
+  ctx: GraphQLContext
+): Promise<FrameworkCoverage> {
+  try {
+    const coverage = await ctx.cache.getOrSet(
+      buildFrameworkCoverageReadCacheKey({
+        authScope: getAuthScopeForReadCache(ctx.auth)
+      }),
+      COVERAGE_READ_CACHE_TTL_SECONDS,
+      async () => {
+        const counts = await getCoverageCountsFromDb(ctx);
+        return {
+          ...buildFrameworkCoverage(
+            await getTaxonomyManifest(ctx.db),
+            counts.requirementRows,
+            counts.categoryRows
+          ),
+          source: 'db' as const
+        };
+      }
+    );
+
+    return coverage as FrameworkCoverage; // cache interface is generic/unknown-friendly, so cast to service return type
+  } catch (error) {
+    if (!shouldUseSeedFallback(error)) throw error; // only known demo-safe failures should route into fallback mode
+
+    logSeedFallback({
+      requestId: ctx.requestId,
+      resolverName: 'frameworkCoverage',
+      reason: error instanceof Error ? error.message : String(error)
+    });
+
+    const [manifest, rows, requirements] = await Promise.all([
+      getSeedTaxonomyManifest(),
+      getSeedControlsRows(),
+      getSeedFrameworkRequirements()
+    ]);
+    const counts = aggregateSeedCoverage(rows, requirements);
+
+    return {
+      ...buildFrameworkCoverage(
+        manifest,
+        counts.requirementRows,
+        counts.categoryRows
+      ),
+      source: 'mock'
+    };
+  }
+}
+
+export async function getFrameworkCoverage(
+  ctx: GraphQLContext
+): Promise<FrameworkCoverage> {
+  return memoizePromise(ctx.memo, 'coverageService:getFrameworkCoverage', () =>
+    getFrameworkCoverageWithFallback(ctx)
+  );
+}
@@ -0,0 +1,108 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> small RFC 4180 csv reader + writer (no dependency)
+
+  - parses quoted fields, doubled quotes, embedded commas + newlines, and CRLF line endings
+  - first row is the header; every later row becomes one record keyed by header name
+  - parseCsvHeader returns just the trimmed column names
+  - blank lines are skipped so trailing newlines never become empty records
+  - malformed quoting fails with a VALIDATION_ERROR that names the line
+  - the writer quotes only when needed, ends lines with CRLF, and neutralizes spreadsheet formulas
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+export type CsvRecord = Record<string, string>;
+
+// ---------- tokenizer ----------
+
+function parseCsvRows(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1; // for error messages only
+
+  const text = input.replace(/^﻿/, ''); // spreadsheet exports often start with a byte-order mark
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"'; // doubled quote inside a quoted field
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line += 1;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field !== '') {
+        throw new Error(
+          `VALIDATION_ERROR: csv line ${line} has a quote inside an unquoted field`
+        );
+      }
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1; // CRLF counts as one line break
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      line += 1;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`VALIDATION_ERROR: csv line ${line} has an unclosed quote`);
+  }
+
+  row.push(field);
+  rows.push(row); // last line may not end with a newline
+
+  return rows.filter(cells => !(cells.length === 1 && cells[0]?.trim() === '')); // drop blank lines
+}
+
+// ---------- records ----------
+
+export function parseCsvHeader(input: string): string[] {
+  const [header] = parseCsvRows(input);
+  return (header ?? []).map(column => column.trim()); // column names only (db:import infers the entity from them)
+}
+
+export function parseCsv(input: string): CsvRecord[] {
+  const [header, ...body] = parseCsvRows(input);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+
+  return body.map(cells => {
+    const record: CsvRecord = {};
+    columns.forEach((column, index) => {
+      if (column !== '') record[column] = cells[index] ?? ''; // short rows read as blank cells
+    });
+    return record;
+  });
+}
+
+// ---------- writer ----------
+
+export const CSV_BOM = '\uFEFF'; // lets Excel detect utf-8 instead of guessing the local code page
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/; // cells spreadsheets would evaluate as formulas
+
+function formatCsvCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value; // exported content must never run as a formula
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function formatCsvRow(cells: string[]): string {
+  return `${cells.map(formatCsvCell).join(',')}\r\n`;
+}
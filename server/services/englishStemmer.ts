@@ -0,0 +1,316 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> english snowball stemmer (porter2)
+
+  - mirrors the english_stem dictionary postgres uses for to_tsvector('english', ...)
+  - lets the seed fallback build the same lexemes the db stores in search_vector
+  - input is one lowercase word token; output is its stem
+  - pure + synchronous so the in-memory full-text path stays cheap
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+// ---------- constants ----------
+
+const VOWELS = 'aeiouy'; // "Y" (consonant y) is deliberately not a vowel
+const DOUBLES = ['bb', 'dd', 'ff', 'gg', 'mm', 'nn', 'pp', 'rr', 'tt']; // step 1b undoubling targets
+const VALID_LI_ENDINGS = 'cdeghkmnrt'; // letters allowed before a removable "li"
+const R1_PREFIXES = ['gener', 'commun', 'arsen']; // snowball special cases for region 1
+
+// whole-word exceptions checked before any suffix work
+const EXCEPTIONS: Record<string, string> = {
+  skis: 'ski',
+  skies: 'sky',
+  dying: 'die',
+  lying: 'lie',
+  tying: 'tie',
+  idly: 'idl',
+  gently: 'gentl',
+  ugly: 'ugli',
+  early: 'earli',
+  only: 'onli',
+  singly: 'singl',
+  sky: 'sky',
+  news: 'news',
+  howe: 'howe',
+  atlas: 'atlas',
+  cosmos: 'cosmos',
+  bias: 'bias',
+  andes: 'andes'
+};
+
+// words left alone once step 1a has run
+const STEP_1A_INVARIANTS = new Set([
+  'inning',
+  'outing',
+  'canning',
+  'herring',
+  'earring',
+  'proceed',
+  'exceed',
+  'succeed'
+]);
+
+// suffix tables are ordered longest-first so the first hit is the longest match
+const STEP_2_SUFFIXES: Array<[string, string]> = [
+  ['ization', 'ize'],
+  ['ational', 'ate'],
+  ['fulness', 'ful'],
+  ['ousness', 'ous'],
+  ['iveness', 'ive'],
+  ['tional', 'tion'],
+  ['biliti', 'ble'],
+  ['lessli', 'less'],
+  ['entli', 'ent'],
+  ['ation', 'ate'],
+  ['alism', 'al'],
+  ['aliti', 'al'],
+  ['ousli', 'ous'],
+  ['iviti', 'ive'],
+  ['fulli', 'ful'],
+  ['enci', 'ence'],
+  ['anci', 'ance'],
+  ['abli', 'able'],
+  ['izer', 'ize'],
+  ['ator', 'ate'],
+  ['alli', 'al'],
+  ['bli', 'ble'],
+  ['ogi', 'og'],
+  ['li', '']
+];
+
+const STEP_3_SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'],
+  ['tional', 'tion'],
+  ['alize', 'al'],
+  ['icate', 'ic'],
+  ['iciti', 'ic'],
+  ['ative', ''],
+  ['ical', 'ic'],
+  ['ness', ''],
+  ['ful', '']
+];
+
+const STEP_4_SUFFIXES = [
+  'ement',
+  'ance',
+  'ence',
+  'able',
+  'ible',
+  'ment',
+  'ant',
+  'ent',
+  'ism',
+  'ate',
+  'iti',
+  'ous',
+  'ive',
+  'ize',
+  'ion',
+  'al',
+  'er',
+  'ic'
+];
+
+// ---------- character helpers ----------
+
+function isVowel(ch: string | undefined): boolean {
+  return ch !== undefined && VOWELS.includes(ch); // undefined (out of range) is never a vowel
+}
+
+function hasVowel(text: string): boolean {
+  for (const ch of text) {
+    if (isVowel(ch)) return true;
+  }
+
+  return false;
+}
+
+// region start = index after the first non-vowel that follows a vowel (scanning from `from`)
+function findRegionStart(word: string, from: number): number {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!isVowel(word[i]) && isVowel(word[i - 1])) return i + 1;
+  }
+
+  return word.length; // empty region
+}
+
+function findR1(word: string): number {
+  for (const prefix of R1_PREFIXES) {
+    if (word.startsWith(prefix)) return prefix.length;
+  }
+
+  return findRegionStart(word, 0);
+}
+
+// short syllable = non-vowel, vowel, non-vowel (not w/x/Y) at the end, or vowel + non-vowel for two-letter stems
+function endsWithShortSyllable(word: string): boolean {
+  const n = word.length;
+
+  if (n === 2) return isVowel(word[0]) && !isVowel(word[1]);
+  if (n < 3) return false;
+
+  const last = word[n - 1] ?? '';
+
+  return (
+    !isVowel(word[n - 3]) &&
+    isVowel(word[n - 2]) &&
+    !isVowel(last) &&
+    !'wxY'.includes(last)
+  );
+}
+
+function isShortWord(word: string, r1: number): boolean {
+  return r1 >= word.length && endsWithShortSyllable(word); // r1 must be empty for a word to count as short
+}
+
+function findSuffix<T extends string | [string, string]>(
+  word: string,
+  table: T[]
+): T | undefined {
+  return table.find(entry =>
+    word.endsWith(typeof entry === 'string' ? entry : entry[0])
+  ); // tables are longest-first, so this is the longest match
+}
+
+// ---------- steps ----------
+
+function step1a(word: string): string {
+  if (word.endsWith('sses')) return word.slice(0, -2);
+
+  if (word.endsWith('ied') || word.endsWith('ies')) {
+    return word.length > 4 ? word.slice(0, -2) : word.slice(0, -1); // "cries" -> "cri", "ties" -> "tie"
+  }
+
+  if (word.endsWith('us') || word.endsWith('ss')) return word;
+
+  if (word.endsWith('s') && hasVowel(word.slice(0, -2))) {
+    return word.slice(0, -1); // vowel must appear before the letter preceding the s ("gas" stays, "gaps" -> "gap")
+  }
+
+  return word;
+}
+
+function step1b(word: string, r1: number): string {
+  const suffix = findSuffix(word, [
+    'eedly',
+    'ingly',
+    'edly',
+    'eed',
+    'ing',
+    'ed'
+  ]);
+  if (!suffix) return word;
+
+  if (suffix === 'eed' || suffix === 'eedly') {
+    return word.length - suffix.length >= r1
+      ? `${word.slice(0, -suffix.length)}ee`
+      : word;
+  }
+
+  const stem = word.slice(0, -suffix.length);
+  if (!hasVowel(stem)) return word; // "sing" keeps its ending
+
+  if (stem.endsWith('at') || stem.endsWith('bl') || stem.endsWith('iz')) {
+    return `${stem}e`;
+  }
+
+  if (DOUBLES.some(pair => stem.endsWith(pair))) return stem.slice(0, -1);
+  if (isShortWord(stem, r1)) return `${stem}e`;
+
+  return stem;
+}
+
+function step1c(word: string): string {
+  const last = word[word.length - 1];
+  if (last !== 'y' && last !== 'Y') return word;
+  if (word.length <= 2 || isVowel(word[word.length - 2])) return word; // preceding non-vowel must not be the first letter
+
+  return `${word.slice(0, -1)}i`;
+}
+
+function step2(word: string, r1: number): string {
+  const match = findSuffix(word, STEP_2_SUFFIXES);
+  if (!match) return word;
+
+  const [suffix, replacement] = match;
+  const stem = word.slice(0, -suffix.length);
+
+  if (stem.length < r1) return word; // suffix must sit inside r1
+  if (suffix === 'ogi' && !stem.endsWith('l')) return word;
+  if (
+    suffix === 'li' &&
+    !VALID_LI_ENDINGS.includes(stem[stem.length - 1] ?? '')
+  ) {
+    return word;
+  }
+
+  return `${stem}${replacement}`;
+}
+
+function step3(word: string, r1: number, r2: number): string {
+  const match = findSuffix(word, STEP_3_SUFFIXES);
+  if (!match) return word;
+
+  const [suffix, replacement] = match;
+  const stem = word.slice(0, -suffix.length);
+
+  if (stem.length < r1) return word;
+  if (suffix === 'ative' && stem.length < r2) return word; // "ative" additionally needs r2
+
+  return `${stem}${replacement}`;
+}
+
+function step4(word: string, r2: number): string {
+  const suffix = findSuffix(word, STEP_4_SUFFIXES);
+  if (!suffix) return word;
+
+  const stem = word.slice(0, -suffix.length);
+
+  if (stem.length < r2) return word;
+  if (suffix === 'ion' && !stem.endsWith('s') && !stem.endsWith('t')) {
+    return word;
+  }
+
+  return stem;
+}
+
+function step5(word: string, r1: number, r2: number): string {
+  const stem = word.slice(0, -1);
+
+  if (word.endsWith('e')) {
+    if (stem.length >= r2) return stem;
+    if (stem.length >= r1 && !endsWithShortSyllable(stem)) return stem;
+    return word;
+  }
+
+  if (word.endsWith('l') && stem.length >= r2 && stem.endsWith('l')) {
+    return stem; // "controll" -> "control"
+  }
+
+  return word;
+}
+
+// ---------- public api ----------
+
+export function stemEnglish(word: string): string {
+  if (word.length <= 2) return word; // snowball leaves one/two letter words alone
+
+  const exception = EXCEPTIONS[word];
+  if (exception !== undefined) return exception;
+
+  // mark consonant y ("Y") so vowel checks treat it correctly
+  let w = word.replace(/^y/, 'Y').replace(/([aeiouy])y/g, '$1Y');
+
+  const r1 = findR1(w);
+  const r2 = findRegionStart(w, r1);
+
+  w = step1a(w);
+  if (STEP_1A_INVARIANTS.has(w)) return w;
+
+  w = step1b(w, r1);
+  w = step1c(w);
+  w = step2(w, r1);
+  w = step3(w, r1, r2);
+  w = step4(w, r2);
+  w = step5(w, r1, r2);
+
+  return w.replace(/Y/g, 'y'); // restore plain y in the final stem
+}
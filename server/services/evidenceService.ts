@@ -0,0 +1,272 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> control evidence (files + links with effective / expiry dates and public / nda visibility)
+
+  - control_evidence rows hold the metadata (migration 012); file bytes live in the blob store
+  - loads evidence for a page of controls in one query, so connection reads never go n+1
+  - every viewer sees the evidence list; nda items are only downloadable by viewers cleared for nda content
+  - insert / delete run on the caller's transaction (controlsService owns the control row + audit)
+  - downloads resolve through one lookup that re-checks control visibility + evidence visibility
+  - api keys with the read:nda scope may download nda items
+  - clearance is the shared hasNdaAccess check (roles, read:nda keys, approved access grants); evidence on an nda control counts as nda
+  - downloads send an ascii filename plus an rfc 5987 utf-8 filename*, so non-latin names never break the header
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { randomUUID } from 'node:crypto'; // blob keys
+import type { Readable } from 'node:stream';
+import type { DbQueryAdapter, GraphQLContext } from '../graphql/context'; // pool adapter or transaction client
+import { hasNdaAccess, hasPermission, type AuthState } from '../auth'; // who is downloading
+import type {
+  EvidenceVisibility,
+  NormalizedEvidenceFile,
+  NormalizedEvidenceLink
+} from './validation'; // validated write shapes
+
+// ---------- shapes ----------
+
+export type EvidenceKind = 'file' | 'link'; // matches the control_evidence kind check constraint
+
+export type DbControlEvidenceRow = {
+  id: string;
+  control_id: string;
+  title: string;
+  kind: EvidenceKind;
+  url: string | null; // link evidence only (never sent to clients; downloads redirect)
+  blob_key: string | null; // file evidence only
+  file_name: string | null;
+  content_type: string | null;
+  byte_size: number | null;
+  effective_date: string; // YYYY-MM-DD (selected as text so no timezone shift)
+  expires_on: string | null; // YYYY-MM-DD
+  visibility: EvidenceVisibility;
+  created_at: string | Date;
+};
+
+export type EvidenceDownload =
+  | { kind: 'link'; url: string }
+  | {
+      kind: 'file';
+      body: Readable;
+      fileName: string;
+      contentType: string;
+      byteSize: number | null;
+    };
+
+// ---------- config ----------
+
+const EVIDENCE_COLUMNS = `
+  ce.id,
+  ce.control_id,
+  ce.title,
+  ce.kind,
+  ce.url,
+  ce.blob_key,
+  ce.file_name,
+  ce.content_type,
+  ce.byte_size,
+  ce.effective_date::text as effective_date,
+  ce.expires_on::text as expires_on,
+  ce.visibility,
+  ce.created_at
+`; // dates as text keep YYYY-MM-DD exactly as written
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ---------- visibility ----------
+
+export function canDownloadNdaEvidence(auth: AuthState): boolean {
+  return hasNdaAccess(auth); // same clearance as nda controls + faqs
+}
+
+export function isEvidenceExpired(
+  row: Pick<DbControlEvidenceRow, 'expires_on'>,
+  today: string = new Date().toISOString().slice(0, 10)
+): boolean {
+  return row.expires_on !== null && row.expires_on < today; // expires at the end of the expiry day (utc)
+}
+
+export function getEvidenceDownloadPath(evidenceId: string): string {
+  return `/api/evidence/${encodeURIComponent(evidenceId)}`; // relative, so the vite proxy + any deploy origin both work
+}
+
+export function buildEvidenceBlobKey(): string {
+  return `evidence/${randomUUID()}`; // opaque, service-generated keys only
+}
+
+// ---------- db read path ----------
+
+export async function loadControlEvidence(
+  db: DbQueryAdapter,
+  controlIds: string[]
+): Promise<Map<string, DbControlEvidenceRow[]>> {
+  const byControl = new Map<string, DbControlEvidenceRow[]>();
+  if (controlIds.length === 0) return byControl; // empty pages skip the round-trip
+
+  const res = await db.query(
+    `
+      select ${EVIDENCE_COLUMNS}
+      from public.control_evidence ce
+      where ce.control_id = any($1::uuid[])
+      order by ce.effective_date desc, ce.created_at desc, ce.id
+    `,
+    [controlIds]
+  ); // one query per page of controls, newest evidence first
+
+  for (const row of (res.rows ?? []) as DbControlEvidenceRow[]) {
+    const list = byControl.get(row.control_id) ?? [];
+    list.push(row);
+    byControl.set(row.control_id, list);
+  }
+  return byControl;
+}
+
+export async function attachEvidenceToControls<T extends { id: string }>(
+  rows: T[],
+  db: DbQueryAdapter
+): Promise<Array<T & { evidence: DbControlEvidenceRow[] }>> {
+  const byControl = await loadControlEvidence(
+    db,
+    rows.map(row => row.id)
+  );
+  return rows.map(row => ({ ...row, evidence: byControl.get(row.id) ?? [] }));
+}
+
+// ---------- write path (caller's transaction) ----------
+
+export async function insertControlEvidence(
+  tx: DbQueryAdapter,
+  controlId: string,
+  input:
+    | (NormalizedEvidenceLink & { kind: 'link' })
+    | (Omit<NormalizedEvidenceFile, 'body'> & {
+        kind: 'file';
+        blobKey: string;
+        byteSize: number;
+      }),
+  actor: string
+): Promise<DbControlEvidenceRow> {
+  const res = await tx.query(
+    `
+      insert into public.control_evidence as ce (
+        control_id, title, kind, url, blob_key, file_name, content_type, byte_size,
+        effective_date, expires_on, visibility, created_by
+      )
+      values ($1::uuid, $2, $3, $4, $5, $6, $7, $8, $9::date, $10::date, $11, $12)
+      returning ${EVIDENCE_COLUMNS}
+    `,
+    [
+      controlId,
+      input.title,
+      input.kind,
+      input.kind === 'link' ? input.url : null,
+      input.kind === 'file' ? input.blobKey : null,
+      input.kind === 'file' ? input.fileName : null,
+      input.kind === 'file' ? input.contentType : null,
+      input.kind === 'file' ? input.byteSize : null,
+      input.effectiveDate,
+      input.expiresOn,
+      input.visibility,
+      actor
+    ]
+  );
+
+  const row = res.rows?.[0] as DbControlEvidenceRow | undefined;
+  if (!row) throw new Error('WRITE_ERROR: evidence insert returned no row');
+  return row;
+}
+
+export async function findEvidenceControlId(
+  db: DbQueryAdapter,
+  evidenceId: string
+): Promise<string> {
+  const res = await db.query(
+    `
+      select control_id
+      from public.control_evidence
+      where id = $1::uuid
+    `,
+    [evidenceId]
+  );
+
+  const row = res.rows?.[0] as { control_id: string } | undefined;
+  if (!row)
+    throw new Error(`NOT_FOUND_ERROR: evidence ${evidenceId} not found`);
+  return row.control_id;
+}
+
+export async function deleteControlEvidenceRow(
+  tx: DbQueryAdapter,
+  controlId: string,
+  evidenceId: string
+): Promise<DbControlEvidenceRow | null> {
+  const res = await tx.query(
+    `
+      delete from public.control_evidence ce
+      where ce.id = $1::uuid
+        and ce.control_id = $2::uuid
+      returning ${EVIDENCE_COLUMNS}
+    `,
+    [evidenceId, controlId]
+  ); // blob removal happens after commit (a rolled-back delete must keep its file)
+
+  return (res.rows?.[0] as DbControlEvidenceRow | undefined) ?? null;
+}
+
+// ---------- download ----------
+
+export function getEvidenceContentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_'); // latin-1 only in a header value; older clients read this one
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  ); // rfc 5987 attr-char: encodeURIComponent leaves these five unescaped
+
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`; // never render uploads inline
+}
+
+export async function getEvidenceDownload(
+  evidenceId: string,
+  ctx: Pick<GraphQLContext, 'db' | 'auth' | 'blobs'>
+): Promise<EvidenceDownload> {
+  if (!UUID_PATTERN.test(evidenceId)) {
+    throw new Error(`NOT_FOUND_ERROR: evidence ${evidenceId} not found`); // bad ids are a 404, not a pg cast error
+  }
+
+  const res = await ctx.db.query(
+    `
+      select ${EVIDENCE_COLUMNS}, c.visibility as control_visibility
+      from public.control_evidence ce
+      join public.controls c on c.id = ce.control_id
+      where ce.id = $1::uuid
+        and c.deleted_at is null
+        and ($2::boolean or c.status = 'published')
+    `,
+    [evidenceId, hasPermission(ctx.auth, 'content:write')]
+  ); // evidence of drafts / deleted controls is as invisible as the control itself (content team excepted)
+
+  const row = res.rows?.[0] as
+    | (DbControlEvidenceRow & { control_visibility?: string })
+    | undefined;
+  if (!row)
+    throw new Error(`NOT_FOUND_ERROR: evidence ${evidenceId} not found`);
+
+  const isNda = row.visibility === 'nda' || row.control_visibility === 'nda'; // an nda control's evidence is nda too
+  if (isNda && !canDownloadNdaEvidence(ctx.auth)) {
+    throw new Error('FORBIDDEN: evidence is available under NDA only');
+  }
+
+  if (row.kind === 'link') return { kind: 'link', url: row.url ?? '' };
+
+  const body = row.blob_key ? await ctx.blobs.open(row.blob_key) : null;
+  if (!body) {
+    throw new Error(`NOT_FOUND_ERROR: evidence ${evidenceId} file is missing`);
+  }
+
+  return {
+    kind: 'file',
+    body,
+    fileName: row.file_name ?? 'evidence',
+    contentType: row.content_type ?? 'application/octet-stream',
+    byteSize: row.byte_size
+  };
+}
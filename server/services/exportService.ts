@@ -0,0 +1,326 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> published content export (controls / faqs -> csv or json)
+
+  - pages through getControlsPage / getFaqsPage, so exports share the connection filters, cache, and seed fallback
+  - only published, live rows are exported (the default public read, whatever the caller's auth)
+  - yields text chunks one page at a time so the http route can stream large exports
+  - csv starts with a byte-order mark + CRLF lines so Excel opens it as a utf-8 spreadsheet
+  - columns use the bulk-import names (control_key, tags as "a; b"), so an export can be re-imported as-is
+  - json uses the seed-file shape ({ "controls": [...] })
+  - the same page-by-page readers feed the pdf trust report
+  - locked nda rows are skipped (a viewer without nda clearance exports, reports, and answers from public rows only)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { GraphQLContext } from '../graphql/context'; // request-scoped deps (db + memo + cache + auth)
+import { CSV_BOM, formatCsvRow } from './csv'; // dependency-free csv writer
+import { getControlsPage, type DbControlRow } from './controlsService'; // controls read path
+import { getFaqsPage, type DbFaqRow } from './faqsService'; // faqs read path
+import type { SearchMode, TagMatch } from './pagination'; // connection filter enums
+import type { TaxonomyEntityName } from '../taxonomy'; // controls | faqs
+
+// ---------- args + shapes ----------
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportFilters = {
+  category?: string;
+  section?: string;
+  subcategory?: string;
+  tags?: string[];
+  tagMatch?: TagMatch;
+  search?: string;
+  searchMode?: SearchMode;
+};
+
+export type ExportArgs = {
+  entity: TaxonomyEntityName;
+  format: ExportFormat;
+  filters: ExportFilters;
+};
+
+type ExportValue = string | string[] | null;
+
+type ExportRecord = Record<string, ExportValue>;
+
+type ExportPage<TRow> = {
+  rows: TRow[];
+  hasNextPage: boolean;
+  endCursor: string | null;
+};
+
+type EntityExporter<TRow> = {
+  columns: readonly string[]; // csv header + json key order
+  readPage: (
+    args: ExportFilters & { first: number; after?: string },
+    ctx: GraphQLContext
+  ) => Promise<ExportPage<TRow>>;
+  toRecord: (row: TRow) => ExportRecord;
+};
+
+// ---------- config ----------
+
+const EXPORT_PAGE_SIZE = 50; // connection max page size; every page is one cached read
+
+const CSV_TAG_SEPARATOR = '; '; // same separator the bulk importer splits on
+
+const EXPORT_FILE_PATTERN = /^(controls|faqs)\.(csv|json)$/;
+
+const SEARCH_MODES: readonly SearchMode[] = ['SUBSTRING', 'FULLTEXT'];
+
+const TAG_MATCHES: readonly TagMatch[] = ['ANY', 'ALL'];
+
+function toIsoString(value: string | Date): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+const controlsExporter: EntityExporter<DbControlRow> = {
+  columns: [
+    'control_key',
+    'title',
+    'description',
+    'section',
+    'category',
+    'subcategory',
+    'tags',
+    'source_url',
+    'updated_at'
+  ],
+  readPage: getControlsPage,
+  toRecord: row => ({
+    control_key: row.control_key,
+    title: row.title,
+    description: row.description,
+    section: row.section,
+    category: row.category,
+    subcategory: row.subcategory,
+    tags: row.tags ?? [],
+    source_url: row.source_url,
+    updated_at: toIsoString(row.updated_at)
+  })
+};
+
+const faqsExporter: EntityExporter<DbFaqRow> = {
+  columns: [
+    'faq_key',
+    'question',
+    'answer',
+    'section',
+    'category',
+    'subcategory',
+    'tags',
+    'updated_at'
+  ],
+  readPage: getFaqsPage,
+  toRecord: row => ({
+    faq_key: row.faq_key,
+    question: row.question,
+    answer: row.answer,
+    section: row.section,
+    category: row.category,
+    subcategory: row.subcategory,
+    tags: row.tags ?? [],
+    updated_at: toIsoString(row.updated_at)
+  })
+};
+
+// ---------- request parsing ----------
+
+export function parseExportFile(
+  file: string
+): Pick<ExportArgs, 'entity' | 'format'> {
+  const match = EXPORT_FILE_PATTERN.exec(file.toLowerCase());
+  if (!match) {
+    throw new Error(
+      'VALIDATION_ERROR: export must be controls or faqs as .csv or .json'
+    );
+  }
+
+  return {
+    entity: match[1] as TaxonomyEntityName,
+    format: match[2] as ExportFormat
+  };
+}
+
+function readQueryText(
+  query: Record<string, unknown>,
+  name: string
+): string | undefined {
+  const value = query[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') {
+    throw new Error(`VALIDATION_ERROR: ${name} must be given once`); // ?category=a&category=b has no single meaning
+  }
+  return value;
+}
+
+function readQueryEnum<T extends string>(
+  query: Record<string, unknown>,
+  name: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = readQueryText(query, name)?.trim().toUpperCase();
+  if (!value) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new Error(
+      `VALIDATION_ERROR: ${name} must be one of ${allowed.join(', ')}`
+    );
+  }
+  return value as T;
+}
+
+function readQueryTags(query: Record<string, unknown>): string[] | undefined {
+  const value = query.tags;
+  if (value === undefined) return undefined;
+
+  const values = Array.isArray(value) ? value : [value]; // ?tags=a&tags=b or ?tags=a,b
+  if (values.some(item => typeof item !== 'string')) {
+    throw new Error('VALIDATION_ERROR: tags must be plain strings');
+  }
+
+  return (values as string[]).flatMap(item => item.split(','));
+}
+
+export function parseExportFilters(
+  query: Record<string, unknown>
+): ExportFilters {
+  const filters: ExportFilters = {};
+
+  for (const name of [
+    'category',
+    'section',
+    'subcategory',
+    'search'
+  ] as const) {
+    const value = readQueryText(query, name);
+    if (value !== undefined) filters[name] = value; // the read path trims + ignores blanks
+  }
+
+  const tags = readQueryTags(query);
+  const tagMatch = readQueryEnum(query, 'tagMatch', TAG_MATCHES);
+  const searchMode = readQueryEnum(query, 'searchMode', SEARCH_MODES);
+
+  if (tags !== undefined) filters.tags = tags;
+  if (tagMatch !== undefined) filters.tagMatch = tagMatch;
+  if (searchMode !== undefined) filters.searchMode = searchMode;
+
+  return filters; // exactOptionalPropertyTypes-safe (absent keys stay absent)
+}
+
+// ---------- response metadata ----------
+
+export function getExportFileName(
+  args: Pick<ExportArgs, 'entity' | 'format'>
+): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `trust-center-${args.entity}-${date}.${args.format}`;
+}
+
+export function getExportContentType(format: ExportFormat): string {
+  return format === 'csv'
+    ? 'text/csv; charset=utf-8'
+    : 'application/json; charset=utf-8';
+}
+
+// ---------- formatting ----------
+
+function formatCsvRecord(
+  columns: readonly string[],
+  record: ExportRecord
+): string {
+  return formatCsvRow(
+    columns.map(column => {
+      const value = record[column] ?? null;
+      if (Array.isArray(value)) return value.join(CSV_TAG_SEPARATOR);
+      return value ?? '';
+    })
+  );
+}
+
+function formatJsonRecord(record: ExportRecord): string {
+  return `    ${JSON.stringify(record)}`; // one row per line keeps large exports diffable
+}
+
+// ---------- streaming ----------
+
+async function* readAllRows<TRow extends { locked?: boolean }>(
+  exporter: EntityExporter<TRow>,
+  filters: ExportFilters,
+  ctx: GraphQLContext
+): AsyncGenerator<TRow[]> {
+  let after: string | undefined;
+
+  do {
+    const page = await exporter.readPage(
+      {
+        ...filters,
+        first: EXPORT_PAGE_SIZE,
+        ...(after !== undefined ? { after } : {})
+      },
+      ctx
+    ); // same service call as the connection resolvers, page by page
+
+    yield page.rows.filter(row => row.locked !== true); // teasers carry no content worth exporting
+
+    after =
+      page.hasNextPage && page.endCursor !== null ? page.endCursor : undefined;
+  } while (after !== undefined);
+}
+
+async function* streamRecords<TRow extends { locked?: boolean }>(
+  exporter: EntityExporter<TRow>,
+  args: ExportArgs,
+  ctx: GraphQLContext
+): AsyncGenerator<string> {
+  let rowCount = 0;
+
+  for await (const rows of readAllRows(exporter, args.filters, ctx)) {
+    const records = rows.map(exporter.toRecord);
+
+    if (args.format === 'csv') {
+      const header =
+        rowCount === 0 ? CSV_BOM + formatCsvRow([...exporter.columns]) : '';
+      yield header +
+        records
+          .map(record => formatCsvRecord(exporter.columns, record))
+          .join('');
+    } else {
+      const opening = rowCount === 0 ? `{\n  "${args.entity}": [\n` : ',\n';
+      if (records.length > 0) {
+        yield opening + records.map(formatJsonRecord).join(',\n');
+      } else if (rowCount === 0) {
+        yield opening.trimEnd(); // empty export still opens the array
+      }
+    }
+
+    rowCount += records.length;
+  } // the first chunk is only yielded after the first page read, so read errors surface before any bytes are sent
+
+  if (args.format === 'json') yield rowCount === 0 ? ']\n}\n' : '\n  ]\n}\n';
+
+  console.log(
+    `[export]  requestId = ${ctx.requestId}  entity = ${args.entity}  format = ${args.format}  rows = ${rowCount}`
+  );
+}
+
+export function readAllControlRows(
+  filters: ExportFilters,
+  ctx: GraphQLContext
+): AsyncGenerator<DbControlRow[]> {
+  return readAllRows(controlsExporter, filters, ctx); // also feeds the pdf trust report
+}
+
+export function readAllFaqRows(
+  filters: ExportFilters,
+  ctx: GraphQLContext
+): AsyncGenerator<DbFaqRow[]> {
+  return readAllRows(faqsExporter, filters, ctx); // also feeds the pdf trust report
+}
+
+export function streamExport(
+  args: ExportArgs,
+  ctx: GraphQLContext
+): AsyncGenerator<string> {
+  return args.entity === 'controls'
+    ? streamRecords(controlsExporter, args, ctx)
+    : streamRecords(faqsExporter, args, ctx);
+}
@@ -3,21 +3,47 @@
 
   - builds sql for faqsConnection (filters + cursor boundary + deterministic order)
   - keeps pagination behavior identical to previous resolver implementation
+  - supports SUBSTRING + FULLTEXT search modes (FULLTEXT orders by ts_rank and encodes rank in cursors)
   - supports seed json fallback when db is unavailable (mvp resilience)
+  - attaches search highlights to db + fallback pages after the shared cache (same output for both sources)
   - dedupes duplicate reads within one graphql request using request-scoped memoization
   - adds shared read cache (LRU TTL) for db-backed results across requests
   - exposes admin create/update/delete methods with validation, search_text recompute, and cache invalidation
+  - writes every admin change, its audit_events row, and its content_revisions snapshot in one transaction
+  - deletes are soft (deleted_at); public reads skip deleted rows, admins can includeDeleted or restore
+  - public reads only return published rows; admin-created rows start as drafts and move through review
+  - changing a published row in place (update / revert / delete / restore / taxonomy relabel) also needs content:publish
+  - reverts replay a stored revision through create validation + search_text recompute
+  - asOf reads rebuild the list from content_revisions snapshots (same filters, order, and cursors)
+  - taxonomy renames / merges relabel stored rows (search_text + audit + revision) inside the taxonomy transaction
+  - bulk import upserts by natural key through the same insert / update helpers as the admin writes
+  - read cache keys are scoped by the request's role set (shared rbac helper)
+  - nda rows read as locked teasers (question only) for viewers without nda clearance and never match their searches
+  - admins flip a faq between public and nda (audited as an update of the visibility field)
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import fs from 'node:fs/promises'; // read seed json files when db is unavailable
 import path from 'node:path'; // resolve data folder paths
 import { fileURLToPath } from 'node:url'; // resolve current file location in ESM
 import { createHash } from 'node:crypto'; // stable id fallback when seed mode is active
-import type { GraphQLContext } from '../graphql/context'; // request-scoped deps (db + memo + cache + auth)
+import type { DbQueryAdapter, GraphQLContext } from '../graphql/context'; // request-scoped deps (db + memo + cache + auth)
+import {
+  assertCanChangePublished,
+  getAuthScopeForReadCache,
+  hasNdaAccess
+} from '../auth'; // published-row write gate, read cache scope + nda clearance derived from the request auth
 import { buildFaqsKey } from '../cache'; // deterministic memo key builder (raw args for readability)
 import { buildFaqsReadCacheKey } from '../cache/keys'; // normalized cache key builder (includes auth scope)
 import { invalidateFaqs } from '../cache/invalidation'; // entity-level invalidation helper for post-write cache clearing
 import { memoizePromise } from './memo'; // request-scoped promise dedupe helper
+import type { TaxonomyRelabel } from '../taxonomy'; // rename / merge cascade shape
+import { attachHighlights, type SearchHighlight } from './highlights'; // per-request search snippets (db + fallback parity)
+import { recordAuditEvent } from './auditService'; // append-only audit row written inside each write transaction
+import {
+  getRevisionForRevert,
+  getSnapshotsAsOf,
+  recordRevision
+} from './revisionService'; // immutable row snapshots (written inside each write transaction, replayed by asOf reads)
 import {
   getSeedFaqsRows,
   getSeedFaqSearchText,
@@ -27,11 +53,14 @@ import {
 import {
   buildAfterBoundary,
   buildCategorySearchWhere,
+  buildOrderBySql,
+  buildRowCursor,
   filterRowsByCategorySearch,
   pageFromRows,
-  toIso,
-  encodeCursor,
-  clampFirst
+  clampFirst,
+  type SearchMode,
+  type TagMatch,
+  type TaxonomyFilterArgs
 } from './pagination';
 import { buildFaqSearchText } from './searchText'; // shared backend search_text recomputation for create/update writes
 import {
@@ -39,6 +68,9 @@ import {
   type UpdateFaqInput,
   type NormalizedFaqWrite,
   type NormalizedFaqPatch,
+  type ContentStatus,
+  type ContentVisibility,
+  assertStatusTransition,
   normalizeId,
   validateCreateFaqInput,
   validateUpdateFaqInput
@@ -51,6 +83,14 @@ export type FaqsConnectionArgs = {
   after?: string; // optional cursor
   category?: string; // optional category filter
   search?: string; // optional search filter
+  searchMode?: SearchMode; // SUBSTRING (default) or FULLTEXT
+  section?: string; // optional section filter
+  subcategory?: string; // optional subcategory filter
+  tags?: string[]; // optional tag filter
+  tagMatch?: TagMatch; // ANY (default) or ALL requested tags
+  includeDeleted?: boolean; // admin-only: also return soft-deleted rows
+  status?: ContentStatus; // admin-only: read another workflow status (default published)
+  asOf?: string; // normalized iso timestamp for point-in-time reads
 };
 
 export type DbFaqRow = {
@@ -63,6 +103,12 @@ export type DbFaqRow = {
   subcategory: string | null; // finer taxonomy bucket
   tags: string[] | null; // normalized tag list
   updated_at: string | Date; // timestamptz
+  deleted_at?: string | Date | null; // soft delete marker (null = live row; seed rows omit it)
+  status?: ContentStatus; // workflow status (seed rows omit it and read as published)
+  visibility?: ContentVisibility; // public | nda (seed rows omit it and read as public)
+  locked?: boolean; // set per request when an nda row is redacted for the viewer (never cached)
+  rank?: number; // ts_rank relevance (FULLTEXT reads only)
+  highlights?: SearchHighlight[]; // matched fragments (search reads only, never cached)
 };
 
 export type FaqsPage = {
@@ -95,11 +141,6 @@ function logReadCache(
   console.log(`[cache] ${event} key=${key} ttl=${ttlSeconds}s`); // single-line terminal log for quick perf checks
 }
 
-function getAuthScopeForReadCache(ctx: GraphQLContext): string {
-  if (ctx.auth.isAdmin) return 'admin'; // placeholder until real auth scopes land
-  return 'public'; // current prototype reads behave as public
-}
-
 function getWriteActor(ctx: GraphQLContext): string {
   return ctx.auth.userEmail ?? 'local-dev'; // local-dev bypass still needs a readable actor value for audit columns
 }
@@ -109,18 +150,41 @@ function buildFaqsReadIdentity(
   ctx: GraphQLContext
 ): string {
   return buildFaqsReadCacheKey(args, {
-    authScope: getAuthScopeForReadCache(ctx)
+    authScope: getAuthScopeForReadCache(ctx.auth)
   }); // compute one normalized read identity so request memo + shared cache stay aligned
 }
 
-function buildFaqsWhereArgs(args: FaqsConnectionArgs): {
+function buildFaqsWhereArgs(
+  args: FaqsConnectionArgs,
+  auth: GraphQLContext['auth']
+): {
   category?: string;
   search?: string;
-} {
-  const out: { category?: string; search?: string } = {}; // omit undefined props for exactOptionalPropertyTypes
+  searchMode?: SearchMode;
+  excludeDeleted: boolean;
+  status: ContentStatus;
+  searchPublicOnly: boolean;
+} & TaxonomyFilterArgs {
+  const out: {
+    category?: string;
+    search?: string;
+    searchMode?: SearchMode;
+    excludeDeleted: boolean;
+    status: ContentStatus;
+    searchPublicOnly: boolean;
+  } & TaxonomyFilterArgs = {
+    excludeDeleted: args.includeDeleted !== true, // soft-deleted rows are hidden unless an admin asks for them
+    status: args.status ?? 'published', // public reads only ever see published rows
+    searchPublicOnly: !hasNdaAccess(auth) // locked nda teasers never match on text the viewer cannot read
+  };
 
   if (args.category !== undefined) out.category = args.category; // preserve caller category only when present
   if (args.search !== undefined) out.search = args.search; // preserve caller search only when present
+  if (args.searchMode !== undefined) out.searchMode = args.searchMode; // preserve caller search mode only when present
+  if (args.section !== undefined) out.section = args.section;
+  if (args.subcategory !== undefined) out.subcategory = args.subcategory;
+  if (args.tags !== undefined) out.tags = args.tags;
+  if (args.tagMatch !== undefined) out.tagMatch = args.tagMatch;
 
   return out; // exactOptionalPropertyTypes-safe filter arg bag
 }
@@ -177,11 +241,35 @@ function mergeFaqPatch(
   }; // merge partial updates into one complete write shape before recomputing search_text
 }
 
+function buildFaqInputFromRow(row: DbFaqRow): CreateFaqInput {
+  return {
+    faqKey: row.faq_key,
+    question: row.question,
+    answer: row.answer,
+    section: row.section,
+    category: row.category,
+    subcategory: row.subcategory,
+    tags: row.tags
+  }; // revision snapshots use db column names; revert feeds them back through create validation
+}
+
+function getFaqSnapshotSearchText(row: DbFaqRow): string {
+  return buildFaqSearchText({
+    faqKey: row.faq_key,
+    question: row.question,
+    answer: row.answer,
+    section: row.section,
+    category: row.category,
+    subcategory: row.subcategory,
+    tags: row.tags
+  }); // snapshots exclude search_text, so asOf reads rebuild it with the write-path builder
+}
+
 async function getFaqByIdForWrite(
   id: string,
-  ctx: GraphQLContext
+  db: DbQueryAdapter
 ): Promise<DbFaqRow> {
-  const res = await ctx.db.query(
+  const res = await db.query(
     `
       select
         id,
@@ -192,13 +280,18 @@ async function getFaqByIdForWrite(
         category,
         subcategory,
         tags,
-        updated_at
+        updated_at,
+        deleted_at,
+        status,
+        visibility
       from public.faqs
       where id = $1::uuid
+        and deleted_at is null
       limit 1
+      for update
     `,
     [id]
-  ); // fetch current row so partial updates can merge cleanly and missing ids can fail readably
+  ); // lock + fetch the current row so partial updates merge cleanly and the audit diff sees exactly what was replaced
 
   const row = res.rows?.[0] as DbFaqRow | undefined;
   if (!row) {
@@ -208,6 +301,122 @@ async function getFaqByIdForWrite(
   return row; // existing row is required for partial update merge semantics
 }
 
+async function writeFaqContent(
+  tx: DbQueryAdapter,
+  id: string,
+  merged: NormalizedFaqWrite,
+  actor: string
+): Promise<DbFaqRow> {
+  const searchText = buildFaqSearchPayload(merged); // recompute search_text from the post-write shape
+
+  const res = await tx.query(
+    `
+      update public.faqs
+      set
+        faq_key = $2,
+        question = $3,
+        answer = $4,
+        section = $5,
+        category = $6,
+        subcategory = $7,
+        tags = $8::text[],
+        search_text = $9,
+        updated_by = $10,
+        updated_at = now()
+      where id = $1::uuid
+        and deleted_at is null
+      returning
+        id,
+        faq_key,
+        question,
+        answer,
+        section,
+        category,
+        subcategory,
+        tags,
+        updated_at,
+        deleted_at,
+        status,
+        visibility
+    `,
+    [
+      id,
+      merged.faqKey,
+      merged.question,
+      merged.answer,
+      merged.section,
+      merged.category,
+      merged.subcategory,
+      merged.tags,
+      searchText,
+      actor
+    ]
+  ); // full merged update keeps SQL simple while preserving partial-update semantics at the service boundary
+
+  const row = res.rows?.[0] as DbFaqRow | undefined;
+  if (!row) {
+    throw new Error('NOT_FOUND_ERROR: faq not found');
+  }
+
+  return row; // post-write row for the audit diff + revision snapshot
+}
+
+async function insertFaqContent(
+  tx: DbQueryAdapter,
+  input: NormalizedFaqWrite,
+  actor: string
+): Promise<DbFaqRow> {
+  const res = await tx.query(
+    `
+      insert into public.faqs (
+        faq_key,
+        question,
+        answer,
+        section,
+        category,
+        subcategory,
+        tags,
+        search_text,
+        created_by,
+        updated_by,
+        status
+      )
+      values ($1, $2, $3, $4, $5, $6, $7::text[], $8, $9, $9, 'draft')
+      returning
+        id,
+        faq_key,
+        question,
+        answer,
+        section,
+        category,
+        subcategory,
+        tags,
+        updated_at,
+        deleted_at,
+        status,
+        visibility
+    `,
+    [
+      input.faqKey,
+      input.question,
+      input.answer,
+      input.section,
+      input.category,
+      input.subcategory,
+      input.tags,
+      buildFaqSearchPayload(input), // recompute search_text server-side
+      actor
+    ]
+  ); // single parameterized insert keeps db writes safe and deterministic (admin-created rows start as drafts)
+
+  const row = res.rows?.[0] as DbFaqRow | undefined;
+  if (!row) {
+    throw new Error('WRITE_ERROR: faq create returned no row');
+  }
+
+  return row; // inserted row for the audit diff + revision snapshot
+}
+
 // ---------- db read path (cacheable) ----------
 
 async function getFaqsPageFromDb(
@@ -215,10 +424,14 @@ async function getFaqsPageFromDb(
   ctx: GraphQLContext
 ): Promise<FaqsPage> {
   const firstClamped = clampFirst(args.first); // enforce safe page size
-  const { whereSql, params } = buildCategorySearchWhere(
-    buildFaqsWhereArgs(args)
+  const { whereSql, params, rankSql } = buildCategorySearchWhere(
+    buildFaqsWhereArgs(args, ctx.auth)
   ); // build shared filter predicates
-  const afterBoundary = buildAfterBoundary(args.after, params.length + 1); // build cursor boundary predicate
+  const afterBoundary = buildAfterBoundary(
+    args.after,
+    params.length + 1,
+    rankSql
+  ); // build cursor boundary predicate
 
   const countSql = `
     select count(*)::int as count
@@ -239,12 +452,16 @@ async function getFaqsPageFromDb(
       category,
       subcategory,
       tags,
-      updated_at
+      updated_at,
+      deleted_at,
+      status,
+      visibility
+      ${rankSql ? `, ${rankSql} as rank` : ''}
     from public.faqs
     ${whereSql}
     ${whereSql ? '' : 'where true'}
     ${afterBoundary.sql}
-    order by updated_at desc, id desc
+    ${buildOrderBySql(rankSql)}
     limit $${params.length + afterBoundary.params.length + 1}
   `; // deterministic desc ordering with cursor boundary + overfetch by 1
 
@@ -256,13 +473,34 @@ async function getFaqsPageFromDb(
   const hasNextPage = fetched.length > firstClamped; // extra row means more data exists
   const rows = hasNextPage ? fetched.slice(0, firstClamped) : fetched; // trim extra row for response
   const last = rows.length ? rows[rows.length - 1] : null; // last visible row determines endCursor
-  const endCursor = last
-    ? encodeCursor({ sortValue: toIso(last.updated_at), id: last.id })
-    : null; // null when page is empty
+  const endCursor = last ? buildRowCursor(last) : null; // null when page is empty
 
   return { rows, hasNextPage, endCursor, totalCount, source: 'db' }; // db-backed page result
 }
 
+async function getFaqsPageAsOfFromDb(
+  args: FaqsConnectionArgs & { asOf: string },
+  ctx: GraphQLContext
+): Promise<FaqsPage> {
+  const whereArgs = buildFaqsWhereArgs(args, ctx.auth); // same visibility + filter args as the live sql path
+  const snapshots = await getSnapshotsAsOf<DbFaqRow>('faq', args.asOf, ctx.db, {
+    includeDeleted: !whereArgs.excludeDeleted,
+    status: whereArgs.status
+  });
+
+  const filtered = filterRowsByCategorySearch(snapshots, whereArgs, {
+    getCategory: row => row.category,
+    getSearchText: getFaqSnapshotSearchText
+  });
+
+  const pageArgs = {
+    first: args.first,
+    ...(args.after !== undefined ? { after: args.after } : {})
+  }; // omit undefined props for exactOptionalPropertyTypes
+
+  return { ...pageFromRows(filtered, pageArgs), source: 'db' }; // cursors encode snapshot (updated_at, id), so they stay valid for the same asOf
+}
+
 async function getFaqsPageDbCached(
   args: FaqsConnectionArgs,
   ctx: GraphQLContext
@@ -272,7 +510,10 @@ async function getFaqsPageDbCached(
   const page = await ctx.cache.getOrSet(
     cacheKey,
     FAQS_READ_CACHE_TTL_SECONDS,
-    async () => getFaqsPageFromDb(args, ctx) // cache DB-backed result only (fallback is handled outside)
+    async () =>
+      args.asOf !== undefined
+        ? getFaqsPageAsOfFromDb({ ...args, asOf: args.asOf }, ctx) // history reads replay revision snapshots
+        : getFaqsPageFromDb(args, ctx) // cache DB-backed result only (fallback is handled outside)
   );
 
   return page as FaqsPage; // cache interface is generic/unknown-friendly, so cast to service return type
@@ -280,41 +521,74 @@ async function getFaqsPageDbCached(
 
 // ---------- main read path ----------
 
-export async function getFaqsPage(
+function getFaqHighlightFields(row: DbFaqRow) {
+  return [
+    { field: 'question', text: row.question },
+    { field: 'answer', text: row.answer }
+  ]; // display fields that can carry search highlights
+}
+
+async function getFaqsPageWithFallback(
   args: FaqsConnectionArgs,
   ctx: GraphQLContext
 ): Promise<FaqsPage> {
-  const readIdentity = buildFaqsReadIdentity(args, ctx); // compute once so memo identity and shared cache identity cannot drift
-  const memoKey = `faqsService:getFaqsPage:${readIdentity}`; // namespace request memo identity to keep traceable service ownership
+  try {
+    return await getFaqsPageDbCached(args, ctx); // shared read cache sits inside request memo for best of both
+  } catch (error) {
+    if (!shouldUseSeedFallback(error)) throw error; // only known demo-safe failures should route into fallback mode
 
-  return memoizePromise(ctx.memo, memoKey, async () => {
-    try {
-      return await getFaqsPageDbCached(args, ctx); // shared read cache sits inside request memo for best of both
-    } catch (error) {
-      if (!shouldUseSeedFallback(error)) throw error; // only known demo-safe failures should route into fallback mode
+    const reason = error instanceof Error ? error.message : String(error); // normalize unknown errors into one loggable string
 
-      const reason = error instanceof Error ? error.message : String(error); // normalize unknown errors into one loggable string
+    logSeedFallback({
+      requestId: ctx.requestId, // tie fallback log to the same request trace used by gql/cache/db/data logs
+      resolverName: 'faqsConnection', // identify which resolver path fell back
+      reason // keep the db/env failure reason visible for debugging
+    });
 
-      logSeedFallback({
-        requestId: ctx.requestId, // tie fallback log to the same request trace used by gql/cache/db/data logs
-        resolverName: 'faqsConnection', // identify which resolver path fell back
-        reason // keep the db/env failure reason visible for debugging
-      });
+    const seedRows = await getSeedFaqsRows(); // load normalized faq seed rows from the centralized fallback module
+    const visibleRows =
+      (args.status ?? 'published') === 'published' ? seedRows : []; // seed content is all published, so other statuses read empty
+    const filtered = filterRowsByCategorySearch(visibleRows, args, {
+      getCategory: row => row.category, // category source for shared in-memory filter helper
+      getSearchText: getSeedFaqSearchText // reuse the precomputed fallback search_text so services do not drift from seed normalization
+    });
 
-      const seedRows = await getSeedFaqsRows(); // load normalized faq seed rows from the centralized fallback module
-      const filtered = filterRowsByCategorySearch(seedRows, args, {
-        getCategory: row => row.category, // category source for shared in-memory filter helper
-        getSearchText: getSeedFaqSearchText // reuse the precomputed fallback search_text so services do not drift from seed normalization
-      });
+    const pageArgs = {
+      first: args.first,
+      ...(args.after !== undefined ? { after: args.after } : {})
+    }; // omit undefined props for exactOptionalPropertyTypes
+
+    const page = pageFromRows(filtered, pageArgs); // shared in-memory paging helper
+    return { ...page, source: 'mock' }; // preserve resolver contract while signaling fallback source
+  }
+}
 
-      const pageArgs = {
-        first: args.first,
-        ...(args.after !== undefined ? { after: args.after } : {})
-      }; // omit undefined props for exactOptionalPropertyTypes
+function lockNdaFaqs(page: FaqsPage, auth: GraphQLContext['auth']): FaqsPage {
+  if (hasNdaAccess(auth) || !page.rows.some(row => row.visibility === 'nda')) {
+    return page;
+  }
 
-      const page = pageFromRows(filtered, pageArgs); // shared in-memory paging helper
-      return { ...page, source: 'mock' }; // preserve resolver contract while signaling fallback source
-    }
+  return {
+    ...page,
+    rows: page.rows.map(row =>
+      row.visibility === 'nda' ? { ...row, answer: '', locked: true } : row
+    )
+  }; // teaser keeps the question + taxonomy so the viewer knows what to request
+}
+
+export async function getFaqsPage(
+  args: FaqsConnectionArgs,
+  ctx: GraphQLContext
+): Promise<FaqsPage> {
+  const readIdentity = buildFaqsReadIdentity(args, ctx); // compute once so memo identity and shared cache identity cannot drift
+  const memoKey = `faqsService:getFaqsPage:${readIdentity}`; // namespace request memo identity to keep traceable service ownership
+
+  return memoizePromise(ctx.memo, memoKey, async () => {
+    const page = lockNdaFaqs(
+      await getFaqsPageWithFallback(args, ctx), // db (cached) or seed fallback page
+      ctx.auth
+    ); // nda rows are redacted per request, after the shared cache
+    return attachHighlights(page, args, getFaqHighlightFields); // highlights are per-request, so they are added after the shared cache
   });
 }
 
@@ -326,12 +600,111 @@ export async function createFaq(
 ): Promise<DbFaqRow> {
   const actor = getWriteActor(ctx); // write actor feeds audit columns
   const normalized = validateCreateFaqInput(input); // validate and normalize before any sql runs
-  const searchText = buildFaqSearchPayload(normalized); // recompute search_text server-side
 
   try {
-    const res = await ctx.db.query(
+    const row = await ctx.db.transaction(async tx => {
+      const created = await insertFaqContent(tx, normalized, actor); // admin-created rows start as drafts
+
+      await recordAuditEvent(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'faq',
+        entityId: created.id,
+        action: 'create',
+        before: null,
+        after: created
+      });
+      await recordRevision(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'faq',
+        entityId: created.id,
+        action: 'create',
+        row: created
+      });
+
+      return created;
+    }); // insert + audit event + revision commit together
+
+    const invalidatedPrefix = await invalidateFaqs(ctx.cache); // clear stale faq reads only after a successful write
+    logFaqsInvalidation({
+      requestId: ctx.requestId,
+      prefix: invalidatedPrefix
+    });
+
+    return row; // mutation resolver will map the row into GraphQL shape
+  } catch (error) {
+    mapFaqsConflict(error); // translate natural-key conflicts into readable app errors
+  }
+}
+
+export async function updateFaq(
+  id: string,
+  input: UpdateFaqInput,
+  ctx: GraphQLContext
+): Promise<DbFaqRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx); // write actor feeds updated_by
+  const patch = validateUpdateFaqInput(input); // validate partial update shape before db work
+
+  try {
+    const row = await ctx.db.transaction(async tx => {
+      const existing = await getFaqByIdForWrite(normalizedId, tx); // fetch (and lock) current row for merge semantics and readable not-found handling
+      assertCanChangePublished(ctx.auth, existing.status); // editing a live row changes the public site
+      const merged = mergeFaqPatch(existing, patch); // compute the post-update row shape once
+      const updated = await writeFaqContent(tx, normalizedId, merged, actor); // same content write path as adminRevertFaq
+
+      await recordAuditEvent(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'faq',
+        entityId: updated.id,
+        action: 'update',
+        before: existing,
+        after: updated
+      });
+      await recordRevision(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'faq',
+        entityId: updated.id,
+        action: 'update',
+        row: updated
+      });
+
+      return updated;
+    }); // update + audit event + revision commit together
+
+    const invalidatedPrefix = await invalidateFaqs(ctx.cache); // clear stale faq reads only after a successful write
+    logFaqsInvalidation({
+      requestId: ctx.requestId,
+      prefix: invalidatedPrefix
+    });
+
+    return row; // mutation resolver will map the row into GraphQL shape
+  } catch (error) {
+    mapFaqsConflict(error); // translate natural-key conflicts into readable app errors
+  }
+}
+
+export async function deleteFaq(
+  id: string,
+  ctx: GraphQLContext
+): Promise<DeleteFaqResult> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx); // deletes are audited with the same actor value as other writes
+
+  const row = await ctx.db.transaction(async tx => {
+    const res = await tx.query(
       `
-        insert into public.faqs (
+        update public.faqs
+        set
+          deleted_at = now(),
+          deleted_by = $2
+        where id = $1::uuid
+          and deleted_at is null
+        returning
+          id,
           faq_key,
           question,
           answer,
@@ -339,11 +712,66 @@ export async function createFaq(
           category,
           subcategory,
           tags,
-          search_text,
-          created_by,
-          updated_by
-        )
-        values ($1, $2, $3, $4, $5, $6, $7::text[], $8, $9, $9)
+          updated_at,
+          deleted_at,
+          status,
+          visibility
+      `,
+      [normalizedId, actor]
+    ); // soft delete keeps the row (and its natural key) so adminRestoreFaq can bring it back
+
+    const deleted = res.rows?.[0] as DbFaqRow | undefined;
+    if (!deleted) {
+      throw new Error('NOT_FOUND_ERROR: faq not found');
+    }
+    assertCanChangePublished(ctx.auth, deleted.status); // taking a live row down is a publish decision; throwing rolls the delete back
+
+    await recordAuditEvent(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'faq',
+      entityId: deleted.id,
+      action: 'delete',
+      before: deleted,
+      after: null
+    });
+    await recordRevision(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'faq',
+      entityId: deleted.id,
+      action: 'delete',
+      row: deleted
+    });
+
+    return deleted;
+  }); // delete + audit event + revision commit together
+
+  const invalidatedPrefix = await invalidateFaqs(ctx.cache); // clear stale faq reads only after a successful delete
+  logFaqsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return { id: row.id }; // mutation resolver wraps this in DeleteResult
+}
+
+export async function restoreFaq(
+  id: string,
+  ctx: GraphQLContext
+): Promise<DbFaqRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx); // restores are audited with the same actor value as other writes
+
+  const row = await ctx.db.transaction(async tx => {
+    const res = await tx.query(
+      `
+        update public.faqs
+        set
+          deleted_at = null,
+          deleted_by = null
+        where id = $1::uuid
+          and deleted_at is not null
         returning
           id,
           faq_key,
@@ -353,64 +781,68 @@ export async function createFaq(
           category,
           subcategory,
           tags,
-          updated_at
+          updated_at,
+          deleted_at,
+          status,
+          visibility
       `,
-      [
-        normalized.faqKey,
-        normalized.question,
-        normalized.answer,
-        normalized.section,
-        normalized.category,
-        normalized.subcategory,
-        normalized.tags,
-        searchText,
-        actor
-      ]
-    ); // single parameterized insert keeps db writes safe and deterministic
+      [normalizedId]
+    ); // updated_at is left alone so the row returns to its original list position
 
-    const row = res.rows?.[0] as DbFaqRow | undefined;
-    if (!row) {
-      throw new Error('WRITE_ERROR: faq create returned no row');
+    const restored = res.rows?.[0] as DbFaqRow | undefined;
+    if (!restored) {
+      throw new Error('NOT_FOUND_ERROR: deleted faq not found');
     }
+    assertCanChangePublished(ctx.auth, restored.status); // a restored published row is live again; throwing rolls the restore back
 
-    const invalidatedPrefix = invalidateFaqs(ctx.cache); // clear stale faq reads only after a successful write
-    logFaqsInvalidation({
+    await recordAuditEvent(tx, {
+      actor,
       requestId: ctx.requestId,
-      prefix: invalidatedPrefix
+      entity: 'faq',
+      entityId: restored.id,
+      action: 'restore',
+      before: null,
+      after: restored
+    });
+    await recordRevision(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'faq',
+      entityId: restored.id,
+      action: 'restore',
+      row: restored
     });
 
-    return row; // mutation resolver will map the row into GraphQL shape
-  } catch (error) {
-    mapFaqsConflict(error); // translate natural-key conflicts into readable app errors
-  }
+    return restored;
+  }); // restore + audit event + revision commit together
+
+  const invalidatedPrefix = await invalidateFaqs(ctx.cache); // clear stale faq reads only after a successful restore
+  logFaqsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return row; // mutation resolver will map the row into GraphQL shape
 }
 
-export async function updateFaq(
+export async function transitionFaqStatus(
   id: string,
-  input: UpdateFaqInput,
+  to: ContentStatus,
   ctx: GraphQLContext
 ): Promise<DbFaqRow> {
   const normalizedId = normalizeId(id); // reject blank ids before touching the db
-  const actor = getWriteActor(ctx); // write actor feeds updated_by
-  const patch = validateUpdateFaqInput(input); // validate partial update shape before db work
-  const existing = await getFaqByIdForWrite(normalizedId, ctx); // fetch current row for merge semantics and readable not-found handling
-  const merged = mergeFaqPatch(existing, patch); // compute the post-update row shape once
-  const searchText = buildFaqSearchPayload(merged); // recompute search_text from the merged post-update shape
+  const actor = getWriteActor(ctx); // status changes are audited with the same actor value as other writes
 
-  try {
-    const res = await ctx.db.query(
+  const row = await ctx.db.transaction(async tx => {
+    const existing = await getFaqByIdForWrite(normalizedId, tx); // lock the row so two reviewers cannot race the same transition
+    assertStatusTransition(existing.status ?? 'published', to); // reject moves the workflow does not allow
+
+    const res = await tx.query(
       `
         update public.faqs
         set
-          faq_key = $2,
-          question = $3,
-          answer = $4,
-          section = $5,
-          category = $6,
-          subcategory = $7,
-          tags = $8::text[],
-          search_text = $9,
-          updated_by = $10,
+          status = $2,
+          updated_by = $3,
           updated_at = now()
         where id = $1::uuid
         returning
@@ -422,28 +854,171 @@ export async function updateFaq(
           category,
           subcategory,
           tags,
-          updated_at
+          updated_at,
+          deleted_at,
+          status,
+          visibility
       `,
-      [
-        normalizedId,
-        merged.faqKey,
-        merged.question,
-        merged.answer,
-        merged.section,
-        merged.category,
-        merged.subcategory,
-        merged.tags,
-        searchText,
-        actor
-      ]
-    ); // full merged update keeps SQL simple while preserving partial-update semantics at the service boundary
+      [normalizedId, to, actor]
+    ); // updated_at moves so newly published content sorts first
+
+    const updated = res.rows?.[0] as DbFaqRow | undefined;
+    if (!updated) {
+      throw new Error('NOT_FOUND_ERROR: faq not found');
+    }
+
+    await recordAuditEvent(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'faq',
+      entityId: updated.id,
+      action: 'update',
+      before: existing,
+      after: updated
+    });
+    await recordRevision(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'faq',
+      entityId: updated.id,
+      action: 'update',
+      row: updated
+    }); // the audit diff carries the status change; the revision keeps the full row
+
+    return updated;
+  }); // status update + audit event + revision commit together
+
+  const invalidatedPrefix = await invalidateFaqs(ctx.cache); // published reads change, so clear them only after a successful write
+  logFaqsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return row; // mutation resolver maps the row into the status payload
+}
+
+export async function setFaqVisibility(
+  id: string,
+  visibility: ContentVisibility,
+  ctx: GraphQLContext
+): Promise<DbFaqRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx); // visibility changes are audited with the same actor value as other writes
+
+  const { row, changed } = await ctx.db.transaction(async tx => {
+    const existing = await getFaqByIdForWrite(normalizedId, tx); // lock the row so concurrent changes serialize
+    if ((existing.visibility ?? 'public') === visibility) {
+      return { row: existing, changed: false }; // already there  -->  no audit noise
+    }
 
-    const row = res.rows?.[0] as DbFaqRow | undefined;
-    if (!row) {
+    const res = await tx.query(
+      `
+        update public.faqs
+        set
+          visibility = $2,
+          updated_by = $3,
+          updated_at = now()
+        where id = $1::uuid
+        returning
+          id,
+          faq_key,
+          question,
+          answer,
+          section,
+          category,
+          subcategory,
+          tags,
+          updated_at,
+          deleted_at,
+          status,
+          visibility
+      `,
+      [normalizedId, visibility, actor]
+    );
+
+    const updated = res.rows?.[0] as DbFaqRow | undefined;
+    if (!updated) {
       throw new Error('NOT_FOUND_ERROR: faq not found');
     }
 
-    const invalidatedPrefix = invalidateFaqs(ctx.cache); // clear stale faq reads only after a successful write
+    await recordAuditEvent(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'faq',
+      entityId: updated.id,
+      action: 'update',
+      before: existing,
+      after: updated
+    });
+    await recordRevision(tx, {
+      actor,
+      requestId: ctx.requestId,
+      entity: 'faq',
+      entityId: updated.id,
+      action: 'update',
+      row: updated
+    }); // the audit diff carries the visibility change; the revision keeps the full row
+
+    return { row: updated, changed: true };
+  }); // visibility update + audit event + revision commit together
+
+  if (!changed) return row; // unchanged: nothing to invalidate
+
+  const invalidatedPrefix = await invalidateFaqs(ctx.cache); // public teasers + nda reads change together
+  logFaqsInvalidation({
+    requestId: ctx.requestId,
+    prefix: invalidatedPrefix
+  });
+
+  return row;
+}
+
+export async function revertFaq(
+  id: string,
+  revisionId: string,
+  ctx: GraphQLContext
+): Promise<DbFaqRow> {
+  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+  const actor = getWriteActor(ctx); // reverts are audited with the same actor value as other writes
+
+  try {
+    const row = await ctx.db.transaction(async tx => {
+      const existing = await getFaqByIdForWrite(normalizedId, tx); // lock the live row (deleted rows must be restored first)
+      assertCanChangePublished(ctx.auth, existing.status); // a revert rewrites the content in place, like an update
+      const revision = await getRevisionForRevert<DbFaqRow>(
+        'faq',
+        normalizedId,
+        revisionId,
+        tx
+      );
+      const reverted = validateCreateFaqInput(
+        buildFaqInputFromRow(revision.snapshot)
+      ); // old snapshots may predate current validation rules, so they must pass them again
+      const updated = await writeFaqContent(tx, normalizedId, reverted, actor); // recomputes search_text like any other update
+
+      await recordAuditEvent(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'faq',
+        entityId: updated.id,
+        action: 'update',
+        before: existing,
+        after: updated
+      });
+      await recordRevision(tx, {
+        actor,
+        requestId: ctx.requestId,
+        entity: 'faq',
+        entityId: updated.id,
+        action: 'update',
+        row: updated,
+        revertedFrom: revision.id
+      });
+
+      return updated;
+    }); // revert + audit event + revision commit together
+
+    const invalidatedPrefix = await invalidateFaqs(ctx.cache); // clear stale reads only after a successful revert
     logFaqsInvalidation({
       requestId: ctx.requestId,
       prefix: invalidatedPrefix
@@ -451,35 +1026,179 @@ export async function updateFaq(
 
     return row; // mutation resolver will map the row into GraphQL shape
   } catch (error) {
-    mapFaqsConflict(error); // translate natural-key conflicts into readable app errors
+    mapFaqsConflict(error); // the reverted key may now belong to another row
   }
 }
 
-export async function deleteFaq(
-  id: string,
-  ctx: GraphQLContext
-): Promise<DeleteFaqResult> {
-  const normalizedId = normalizeId(id); // reject blank ids before touching the db
+// ---------- taxonomy cascade (runs inside the taxonomy admin transaction) ----------
+
+export async function relabelFaqsTaxonomy(
+  tx: DbQueryAdapter,
+  relabel: TaxonomyRelabel,
+  meta: { actor: string; requestId: string },
+  auth: GraphQLContext['auth'] | null // null for trusted callers (the taxonomy seed)
+): Promise<number> {
+  const predicates: string[] = [];
+  const params: unknown[] = [];
 
-  const res = await ctx.db.query(
+  for (const field of ['section', 'category', 'subcategory'] as const) {
+    const value = relabel.match[field];
+    if (value === undefined) continue;
+    params.push(value.toLowerCase());
+    predicates.push(`lower(${field}) = $${params.length}`); // column names come from the fixed list above
+  }
+
+  if (predicates.length === 0) return 0; // an empty match would relabel every row
+
+  const res = await tx.query(
     `
-      delete from public.faqs
-      where id = $1::uuid
-      returning id
+      select
+        id,
+        faq_key,
+        question,
+        answer,
+        section,
+        category,
+        subcategory,
+        tags,
+        updated_at,
+        deleted_at,
+        status,
+        visibility
+      from public.faqs
+      where ${predicates.join(' and ')}
+      for update
     `,
-    [normalizedId]
-  ); // delete returns the removed id so GraphQL can prove what was deleted
+    params
+  ); // soft-deleted rows are relabeled too, so a later restore never brings back a retired label
 
-  const row = res.rows?.[0] as { id: string } | undefined;
-  if (!row) {
-    throw new Error('NOT_FOUND_ERROR: faq not found');
+  const rows = (res.rows ?? []) as DbFaqRow[];
+
+  for (const existing of rows) {
+    if (auth && !existing.deleted_at) {
+      assertCanChangePublished(auth, existing.status); // a relabel moves live rows on the public site; deleted rows are not live
+    }
+
+    const merged = mergeFaqPatch(existing, relabel.set); // only taxonomy labels change
+    const updateRes = await tx.query(
+      `
+        update public.faqs
+        set
+          section = $2,
+          category = $3,
+          subcategory = $4,
+          search_text = $5,
+          updated_by = $6,
+          updated_at = now()
+        where id = $1::uuid
+        returning
+          id,
+          faq_key,
+          question,
+          answer,
+          section,
+          category,
+          subcategory,
+          tags,
+          updated_at,
+          deleted_at,
+          status,
+          visibility
+      `,
+      [
+        existing.id,
+        merged.section,
+        merged.category,
+        merged.subcategory,
+        buildFaqSearchPayload(merged),
+        meta.actor
+      ]
+    ); // search_text embeds the taxonomy labels, so it is recomputed with them
+
+    const updated = updateRes.rows?.[0] as DbFaqRow | undefined;
+    if (!updated) continue;
+
+    await recordAuditEvent(tx, {
+      ...meta,
+      entity: 'faq',
+      entityId: updated.id,
+      action: 'update',
+      before: existing,
+      after: updated
+    });
+    await recordRevision(tx, {
+      ...meta,
+      entity: 'faq',
+      entityId: updated.id,
+      action: 'update',
+      row: updated
+    }); // asOf reads after the cascade see the new label
   }
 
-  const invalidatedPrefix = invalidateFaqs(ctx.cache); // clear stale faq reads only after a successful delete
-  logFaqsInvalidation({
-    requestId: ctx.requestId,
-    prefix: invalidatedPrefix
+  return rows.length; // caller invalidates after commit
+}
+
+// ---------- bulk import (runs inside the import transaction) ----------
+
+export async function getFaqsByKeys(
+  keys: string[],
+  db: DbQueryAdapter,
+  opts: { lock: boolean }
+): Promise<DbFaqRow[]> {
+  const res = await db.query(
+    `
+      select
+        id,
+        faq_key,
+        question,
+        answer,
+        section,
+        category,
+        subcategory,
+        tags,
+        updated_at,
+        deleted_at,
+        status,
+        visibility
+      from public.faqs
+      where faq_key = any($1::text[])
+      ${opts.lock ? 'for update' : ''}
+    `,
+    [keys]
+  ); // includes soft-deleted rows so the import can report their keys instead of failing on the unique index
+
+  return (res.rows ?? []) as DbFaqRow[];
+}
+
+export function toFaqWrite(row: DbFaqRow): NormalizedFaqWrite {
+  return mergeFaqPatch(row, {}); // stored row in the same shape validateCreateFaqInput returns
+}
+
+export async function importFaq(
+  tx: DbQueryAdapter,
+  write: NormalizedFaqWrite,
+  existing: DbFaqRow | null,
+  meta: { actor: string; requestId: string }
+): Promise<DbFaqRow> {
+  const row = existing
+    ? await writeFaqContent(tx, existing.id, write, meta.actor) // status is left alone on updates
+    : await insertFaqContent(tx, write, meta.actor); // new rows start as drafts, like adminCreateFaq
+
+  await recordAuditEvent(tx, {
+    ...meta,
+    entity: 'faq',
+    entityId: row.id,
+    action: existing ? 'update' : 'create',
+    before: existing,
+    after: row
+  });
+  await recordRevision(tx, {
+    ...meta,
+    entity: 'faq',
+    entityId: row.id,
+    action: existing ? 'update' : 'create',
+    row
   });
 
-  return { id: row.id }; // mutation resolver wraps this in DeleteResult
+  return row; // caller invalidates once after the whole import commits
 }
@@ -0,0 +1,463 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> compliance framework mappings (SOC 2 / ISO 27001 / NIST CSF requirements <-> controls)
+
+  - framework_requirements + control_frameworks store a many-to-many mapping (migration 011)
+  - frameworks.json (next to taxonomy.json) seeds the tables once and backs seed fallback
+  - loads every mapping for a page of controls in one query, so connection reads never go n+1
+  - builds the controlsConnection framework filter for sql and for in-memory (seed / asOf) rows
+  - attach / detach writes run on the caller's transaction (controlsService owns the control row + audit)
+  - attaching an existing requirement keeps its stored title; renames are their own write (every mapped control sees them)
+  - lists every requirement in frameworks.json so seed-mode coverage can report unmapped requirements
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import fs from 'node:fs/promises'; // read the mapping file
+import path from 'node:path'; // resolve db/data from this module
+import { fileURLToPath } from 'node:url'; // ESM-safe __dirname
+
+import type { DbQueryAdapter } from '../graphql/context'; // pool adapter or transaction client
+
+// ---------- shapes ----------
+
+export type ComplianceFramework = 'soc2' | 'iso27001' | 'nist_csf'; // matches the framework_requirements check constraint
+
+export type ControlFrameworkMapping = {
+  framework: ComplianceFramework;
+  requirement_id: string; // the framework's own id (CC6.1, A.5.15, PR.AA-01)
+  requirement_title: string;
+};
+
+export type FrameworkRequirementSeed = {
+  framework: ComplianceFramework;
+  requirementId: string;
+  title: string;
+  controls: string[]; // controlKey values mapped to the requirement (may be empty)
+};
+
+export type FrameworkManifest = {
+  version: number;
+  requirements: FrameworkRequirementSeed[];
+};
+
+export type ControlFrameworkInput = {
+  framework: ComplianceFramework;
+  requirementId: string;
+  requirementTitle: string;
+};
+
+export type FrameworkSeedResult = {
+  requirements: number; // requirement rows inserted
+  mappings: number; // control <-> requirement rows inserted
+};
+
+type DbControlFrameworkRow = ControlFrameworkMapping & { control_id: string };
+
+// ---------- config ----------
+
+export const COMPLIANCE_FRAMEWORKS: readonly ComplianceFramework[] = [
+  'soc2',
+  'iso27001',
+  'nist_csf'
+]; // display order for badges, filters, and the coverage matrix
+
+export const FRAMEWORK_LABELS: Record<ComplianceFramework, string> = {
+  soc2: 'SOC 2',
+  iso27001: 'ISO 27001',
+  nist_csf: 'NIST CSF'
+};
+
+let manifestPromise: Promise<FrameworkManifest> | null = null; // the file only changes with a deploy
+
+// ---------- manifest loading ----------
+
+function getFrameworksPath(): string {
+  const here = path.dirname(fileURLToPath(import.meta.url));
+  return path.resolve(here, '../db/data/frameworks.json'); // lives next to taxonomy.json
+}
+
+export function isComplianceFramework(
+  value: unknown
+): value is ComplianceFramework {
+  return COMPLIANCE_FRAMEWORKS.includes(value as ComplianceFramework);
+}
+
+export function assertValidFrameworkManifest(
+  manifest: unknown,
+  sourceLabel = 'frameworks.json'
+): asserts manifest is FrameworkManifest {
+  const candidate = manifest as Partial<FrameworkManifest> | null;
+
+  if (!candidate || typeof candidate.version !== 'number') {
+    throw new Error(
+      `FRAMEWORK_ERROR: ${sourceLabel} is missing a valid numeric version.`
+    );
+  }
+  if (!Array.isArray(candidate.requirements)) {
+    throw new Error(`FRAMEWORK_ERROR: ${sourceLabel} must list requirements.`);
+  }
+
+  const seen = new Set<string>();
+  for (const requirement of candidate.requirements) {
+    const valid =
+      isComplianceFramework(requirement?.framework) &&
+      typeof requirement.requirementId === 'string' &&
+      requirement.requirementId.trim() !== '' &&
+      typeof requirement.title === 'string' &&
+      requirement.title.trim() !== '' &&
+      Array.isArray(requirement.controls) &&
+      requirement.controls.every(key => typeof key === 'string');
+
+    const id = `${String(requirement?.framework)}:${String(requirement?.requirementId).toLowerCase()}`;
+    if (!valid || seen.has(id)) {
+      throw new Error(
+        `FRAMEWORK_ERROR: ${sourceLabel} has an invalid or duplicate requirement "${id}".`
+      );
+    }
+    seen.add(id);
+  }
+}
+
+export async function readFrameworkManifestFile(
+  absolutePath: string = getFrameworksPath()
+): Promise<FrameworkManifest> {
+  const raw = await fs.readFile(absolutePath, 'utf8').catch((err: unknown) => {
+    throw new Error(
+      `FRAMEWORK_ERROR: missing frameworks.json at ${absolutePath}\n${String(err)}`
+    );
+  });
+
+  const parsed = JSON.parse(raw) as unknown;
+  assertValidFrameworkManifest(parsed);
+  return parsed;
+}
+
+function getFrameworkManifest(): Promise<FrameworkManifest> {
+  manifestPromise ??= readFrameworkManifestFile().catch(error => {
+    manifestPromise = null; // a bad file should not poison the process after it is fixed
+    throw error;
+  });
+  return manifestPromise;
+}
+
+// ---------- ordering ----------
+
+export function sortFrameworkMappings<T extends ControlFrameworkMapping>(
+  mappings: T[]
+): T[] {
+  return [...mappings].sort(
+    (a, b) =>
+      COMPLIANCE_FRAMEWORKS.indexOf(a.framework) -
+        COMPLIANCE_FRAMEWORKS.indexOf(b.framework) ||
+      a.requirement_id.localeCompare(b.requirement_id, 'en', {
+        numeric: true
+      })
+  ); // framework order, then CC6.1 before CC6.10
+}
+
+// ---------- seed fallback ----------
+
+export async function getSeedFrameworksByControlKey(): Promise<
+  Map<string, ControlFrameworkMapping[]>
+> {
+  const manifest = await getFrameworkManifest();
+  const byKey = new Map<string, ControlFrameworkMapping[]>();
+
+  for (const requirement of manifest.requirements) {
+    for (const key of requirement.controls) {
+      const list = byKey.get(key) ?? [];
+      list.push({
+        framework: requirement.framework,
+        requirement_id: requirement.requirementId,
+        requirement_title: requirement.title
+      });
+      byKey.set(key, list);
+    }
+  }
+
+  for (const [key, list] of byKey) byKey.set(key, sortFrameworkMappings(list));
+  return byKey;
+}
+
+export async function getSeedFrameworkRequirements(): Promise<
+  ControlFrameworkMapping[]
+> {
+  const manifest = await getFrameworkManifest();
+  return sortFrameworkMappings(
+    manifest.requirements.map(requirement => ({
+      framework: requirement.framework,
+      requirement_id: requirement.requirementId,
+      requirement_title: requirement.title
+    }))
+  ); // includes requirements no control is mapped to yet
+}
+
+// ---------- db read path ----------
+
+export async function loadControlFrameworks(
+  db: DbQueryAdapter,
+  controlIds: string[]
+): Promise<Map<string, ControlFrameworkMapping[]>> {
+  const byControl = new Map<string, ControlFrameworkMapping[]>();
+  if (controlIds.length === 0) return byControl; // empty pages skip the round-trip
+
+  const res = await db.query(
+    `
+      select
+        cf.control_id,
+        fr.framework,
+        fr.requirement_id,
+        fr.title as requirement_title
+      from public.control_frameworks cf
+      join public.framework_requirements fr on fr.id = cf.requirement_id
+      where cf.control_id = any($1::uuid[])
+    `,
+    [controlIds]
+  ); // one query per page of controls
+
+  for (const row of (res.rows ?? []) as DbControlFrameworkRow[]) {
+    const list = byControl.get(row.control_id) ?? [];
+    list.push({
+      framework: row.framework,
+      requirement_id: row.requirement_id,
+      requirement_title: row.requirement_title
+    });
+    byControl.set(row.control_id, list);
+  }
+
+  for (const [id, list] of byControl) {
+    byControl.set(id, sortFrameworkMappings(list));
+  }
+  return byControl;
+}
+
+export async function attachControlFrameworks<T extends { id: string }>(
+  rows: T[],
+  db: DbQueryAdapter
+): Promise<Array<T & { frameworks: ControlFrameworkMapping[] }>> {
+  const byControl = await loadControlFrameworks(
+    db,
+    rows.map(row => row.id)
+  );
+  return rows.map(row => ({ ...row, frameworks: byControl.get(row.id) ?? [] }));
+}
+
+// ---------- framework filter ----------
+
+export function buildFrameworkFilterSql(paramIndex: number): string {
+  // EXPLAIN: Index Scan using control_frameworks_pkey (semi-join per control row)
+  return `exists (
+    select 1
+    from public.control_frameworks cf
+    join public.framework_requirements fr on fr.id = cf.requirement_id
+    where cf.control_id = controls.id
+      and fr.framework = $${paramIndex}
+  )`;
+}
+
+export function matchesFramework(
+  row: { frameworks?: ControlFrameworkMapping[] },
+  framework: ComplianceFramework | undefined
+): boolean {
+  if (!framework) return true;
+  return (row.frameworks ?? []).some(
+    mapping => mapping.framework === framework
+  ); // same rule as the sql exists() filter
+}
+
+// ---------- write path (caller's transaction) ----------
+
+export async function insertControlFramework(
+  tx: DbQueryAdapter,
+  controlId: string,
+  input: ControlFrameworkInput,
+  actor: string
+): Promise<boolean> {
+  const requirement = await tx.query(
+    `
+      insert into public.framework_requirements (framework, requirement_id, title, updated_by)
+      values ($1, $2, $3, $4)
+      on conflict (framework, lower(requirement_id)) do nothing
+      returning id
+    `,
+    [input.framework, input.requirementId, input.requirementTitle, actor]
+  ); // the title only names a new requirement; other controls share an existing one, so its title stays
+
+  const requirementId =
+    (requirement.rows?.[0] as { id: string } | undefined)?.id ??
+    (await findRequirementId(tx, input.framework, input.requirementId)); // existing requirements return no row from the insert
+
+  if (!requirementId) {
+    throw new Error(
+      'WRITE_ERROR: framework requirement upsert returned no row'
+    );
+  }
+
+  const res = await tx.query(
+    `
+      insert into public.control_frameworks (control_id, requirement_id, created_by)
+      values ($1::uuid, $2::uuid, $3)
+      on conflict do nothing
+      returning control_id
+    `,
+    [controlId, requirementId, actor]
+  );
+
+  return (res.rows?.length ?? 0) > 0; // false when the control was already mapped
+}
+
+async function findRequirementId(
+  tx: DbQueryAdapter,
+  framework: ComplianceFramework,
+  requirementId: string
+): Promise<string | undefined> {
+  const res = await tx.query(
+    `
+      select id
+      from public.framework_requirements
+      where framework = $1
+        and lower(requirement_id) = lower($2)
+      limit 1
+    `,
+    [framework, requirementId]
+  );
+  return (res.rows?.[0] as { id: string } | undefined)?.id;
+}
+
+export async function updateFrameworkRequirementTitle(
+  tx: DbQueryAdapter,
+  framework: ComplianceFramework,
+  requirementId: string,
+  title: string,
+  actor: string
+): Promise<{
+  id: string;
+  requirement_id: string;
+  before: string;
+  controlIds: string[];
+} | null> {
+  const locked = await tx.query(
+    `
+      select id, requirement_id, title
+      from public.framework_requirements
+      where framework = $1
+        and lower(requirement_id) = lower($2)
+      for update
+    `,
+    [framework, requirementId]
+  ); // concurrent renames of one requirement queue here
+
+  const existing = locked.rows?.[0] as
+    | { id: string; requirement_id: string; title: string }
+    | undefined;
+  if (!existing) return null;
+
+  if (existing.title !== title) {
+    await tx.query(
+      `
+        update public.framework_requirements
+        set title = $2, updated_by = $3, updated_at = now()
+        where id = $1::uuid
+      `,
+      [existing.id, title, actor]
+    );
+  }
+
+  const mapped = await tx.query(
+    `
+      select control_id
+      from public.control_frameworks
+      where requirement_id = $1::uuid
+      order by control_id
+    `,
+    [existing.id]
+  ); // every control that shows the title (the caller audits each one)
+
+  return {
+    id: existing.id,
+    requirement_id: existing.requirement_id,
+    before: existing.title,
+    controlIds: ((mapped.rows ?? []) as Array<{ control_id: string }>).map(
+      row => row.control_id
+    )
+  };
+}
+
+export async function deleteControlFramework(
+  tx: DbQueryAdapter,
+  controlId: string,
+  framework: ComplianceFramework,
+  requirementId: string
+): Promise<boolean> {
+  const res = await tx.query(
+    `
+      delete from public.control_frameworks cf
+      using public.framework_requirements fr
+      where cf.requirement_id = fr.id
+        and cf.control_id = $1::uuid
+        and fr.framework = $2
+        and lower(fr.requirement_id) = lower($3)
+      returning cf.control_id
+    `,
+    [controlId, framework, requirementId]
+  ); // the requirement row stays, so coverage still lists it as a gap
+
+  return (res.rows?.length ?? 0) > 0;
+}
+
+// ---------- seed import ----------
+
+export async function applyFrameworkManifest(
+  tx: DbQueryAdapter,
+  manifest: FrameworkManifest,
+  actor: string
+): Promise<FrameworkSeedResult> {
+  const requirements = await tx.query(
+    `
+      insert into public.framework_requirements (framework, requirement_id, title, updated_by)
+      select framework, requirement_id, title, $2
+      from jsonb_to_recordset($1::jsonb) as rows(framework text, requirement_id text, title text)
+      on conflict (framework, lower(requirement_id)) do nothing
+      returning id
+    `,
+    [
+      JSON.stringify(
+        manifest.requirements.map(requirement => ({
+          framework: requirement.framework,
+          requirement_id: requirement.requirementId,
+          title: requirement.title
+        }))
+      ),
+      actor
+    ]
+  );
+
+  const mappings = await tx.query(
+    `
+      insert into public.control_frameworks (control_id, requirement_id, created_by)
+      select c.id, fr.id, $2
+      from jsonb_to_recordset($1::jsonb) as rows(framework text, requirement_id text, control_key text)
+      join public.framework_requirements fr
+        on fr.framework = rows.framework
+        and lower(fr.requirement_id) = lower(rows.requirement_id)
+      join public.controls c on lower(c.control_key) = lower(rows.control_key)
+      on conflict do nothing
+      returning control_id
+    `,
+    [
+      JSON.stringify(
+        manifest.requirements.flatMap(requirement =>
+          requirement.controls.map(controlKey => ({
+            framework: requirement.framework,
+            requirement_id: requirement.requirementId,
+            control_key: controlKey
+          }))
+        )
+      ),
+      actor
+    ]
+  ); // unknown control keys are skipped, not fatal (seed content can shrink)
+
+  return {
+    requirements: requirements.rows?.length ?? 0,
+    mappings: mappings.rows?.length ?? 0
+  };
+}
@@ -0,0 +1,295 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> in-memory full-text search (seed fallback parity)
+
+  - mirrors to_tsvector('english', search_text) for the seed rows (stopwords + porter2 stems + positions)
+  - mirrors websearch_to_tsquery('english', ...) syntax: words, "quoted phrases", or, -negation
+  - mirrors postgres @@ matching and ts_rank (default weights, normalization 0)
+  - keeps db + fallback FULLTEXT reads ordered the same way so cursors behave identically
+  - exports the word + lexeme helpers so search highlights mark exactly the words a query matched
+
+  known gaps vs postgres:
+    - the postgres parser has url/email/host token types; here every non-alphanumeric char is a separator
+    - hyphenated compounds are indexed + queried as adjacent parts (postgres also stores the whole compound)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { stemEnglish } from './englishStemmer'; // same stemming rules as postgres english_stem
+
+// ---------- public types ----------
+
+// lexeme -> 1-based word positions (the in-memory equivalent of a tsvector)
+export type SearchVector = Map<string, number[]>;
+
+// one AND-ed query operand: a single lexeme (one entry) or a phrase (several entries with relative offsets)
+export type FullTextOperand = {
+  lexemes: Array<{ lexeme: string; offset: number }>;
+  negated: boolean; // "-term" / -"phrase"
+};
+
+// parsed query = OR of AND groups (matches websearch_to_tsquery precedence)
+export type FullTextQuery = {
+  groups: FullTextOperand[][];
+};
+
+// ---------- constants ----------
+
+// postgres english.stop (snowball english stopword list)
+const STOPWORDS = new Set(
+  (
+    'i me my myself we our ours ourselves you your yours yourself yourselves ' +
+    'he him his himself she her hers herself it its itself they them their theirs themselves ' +
+    'what which who whom this that these those am is are was were be been being ' +
+    'have has had having do does did doing a an the and but if or because as until while ' +
+    'of at by for with about against between into through during before after above below ' +
+    'to from up down in out on off over under again further then once here there when where ' +
+    'why how all any both each few more most other some such no nor not only own same so ' +
+    'than too very s t can will just don should now'
+  ).split(' ')
+);
+
+const DEFAULT_WEIGHT = 0.1; // ts_rank weight for class D (search_vector never calls setweight)
+const MAX_WORD_DISTANCE = 16383; // postgres MAXENTRYPOS - 1, used when two positions coincide
+const RANK_OR_NORMALIZER = 1.64493406685; // pi^2 / 6, the limit postgres divides by
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu; // letters + digits form words; everything else separates them
+const WORD_AT_START = /^[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*/u; // query scanner reads one word (or hyphenated compound) at a time
+
+// ---------- lexeme helpers ----------
+
+export function toLexeme(word: string): string | null {
+  const lower = word.toLowerCase();
+
+  if (STOPWORDS.has(lower)) return null; // stopwords consume a position but never become lexemes
+  if (/\p{N}/u.test(lower)) return lower; // numeric tokens use the simple dictionary in postgres (no stemming)
+
+  return stemEnglish(lower);
+}
+
+function splitWords(text: string): string[] {
+  return text.match(WORD_PATTERN) ?? [];
+}
+
+// same word split as splitWords, but keeps each word's character range in the source text
+export function splitWordSpans(
+  text: string
+): Array<{ word: string; start: number; end: number }> {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    word: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+}
+
+// lexemes a document word must produce to satisfy the query (negated operands never count as hits)
+export function getPositiveLexemes(query: FullTextQuery): Set<string> {
+  return new Set(
+    query.groups.flatMap(group =>
+      group
+        .filter(operand => !operand.negated)
+        .flatMap(operand => operand.lexemes.map(item => item.lexeme))
+    )
+  );
+}
+
+// ---------- document vectors ----------
+
+export function buildSearchVector(text: string): SearchVector {
+  const vector: SearchVector = new Map();
+
+  splitWords(text).forEach((word, index) => {
+    const lexeme = toLexeme(word);
+    if (!lexeme) return;
+
+    const positions = vector.get(lexeme) ?? [];
+    positions.push(index + 1); // tsvector positions are 1-based and count stopwords
+    vector.set(lexeme, positions);
+  });
+
+  return vector;
+}
+
+// ---------- query parsing (websearch_to_tsquery) ----------
+
+function buildPhraseOperand(
+  words: string[],
+  negated: boolean
+): FullTextOperand {
+  const lexemes: FullTextOperand['lexemes'] = [];
+
+  words.forEach((word, offset) => {
+    const lexeme = toLexeme(word);
+    if (lexeme) lexemes.push({ lexeme, offset }); // stopwords inside a phrase widen the gap instead of disappearing
+  });
+
+  const base = lexemes[0]?.offset ?? 0;
+  return {
+    lexemes: lexemes.map(item => ({ ...item, offset: item.offset - base })), // first kept lexeme anchors the phrase
+    negated
+  };
+}
+
+export function parseWebSearchQuery(text: string): FullTextQuery {
+  const groups: FullTextOperand[][] = [[]];
+  let pendingOr = false; // "or" only splits groups when another operand follows it
+
+  const addOperand = (words: string[], negated: boolean) => {
+    const operand = buildPhraseOperand(words, negated);
+    if (operand.lexemes.length === 0) return; // all-stopword operands drop out of the query
+
+    if (pendingOr) {
+      groups.push([]);
+      pendingOr = false;
+    }
+
+    groups[groups.length - 1]?.push(operand);
+  };
+
+  for (let i = 0; i < text.length; ) {
+    const negated =
+      text[i] === '-' && (i === 0 || /\s/.test(text[i - 1] ?? '')); // "multi-factor" is a compound, not a negation
+    const start = negated ? i + 1 : i;
+
+    if (text[start] === '"') {
+      const close = text.indexOf('"', start + 1);
+      const end = close === -1 ? text.length : close; // an unclosed quote runs to the end of the query
+      addOperand(splitWords(text.slice(start + 1, end)), negated);
+      i = end + 1;
+      continue;
+    }
+
+    const word = WORD_AT_START.exec(text.slice(start))?.[0];
+    if (!word) {
+      i += 1; // separators and stray operators are skipped
+      continue;
+    }
+
+    if (!negated && word.toLowerCase() === 'or') {
+      pendingOr = (groups[groups.length - 1]?.length ?? 0) > 0; // leading / repeated "or" is ignored like postgres does
+    } else {
+      addOperand(splitWords(word), negated); // hyphenated compounds become phrases, like postgres
+    }
+
+    i = start + word.length;
+  }
+
+  return { groups: groups.filter(group => group.length > 0) };
+}
+
+// ---------- matching (@@) ----------
+
+function matchesOperand(
+  vector: SearchVector,
+  operand: FullTextOperand
+): boolean {
+  const [head, ...rest] = operand.lexemes;
+  if (!head) return false;
+
+  const starts = vector.get(head.lexeme) ?? [];
+  const found = starts.some(start =>
+    rest.every(item =>
+      (vector.get(item.lexeme) ?? []).includes(start + item.offset)
+    )
+  ); // phrase lexemes must appear at the same relative positions
+
+  return operand.negated ? !found : found;
+}
+
+export function matchesFullTextQuery(
+  vector: SearchVector,
+  query: FullTextQuery
+): boolean {
+  return query.groups.some(group =>
+    group.every(operand => matchesOperand(vector, operand))
+  ); // empty query (only stopwords) matches nothing, same as postgres
+}
+
+// ---------- ranking (ts_rank) ----------
+
+function getUniqueLexemes(query: FullTextQuery): string[] {
+  const lexemes = query.groups.flatMap(group =>
+    group.flatMap(operand => operand.lexemes.map(item => item.lexeme))
+  ); // negated operands still count as query items in postgres ranking
+
+  return Array.from(new Set(lexemes)).sort();
+}
+
+// postgres picks calc_rank_and when the query root is an AND or phrase operator
+function isAndRooted(query: FullTextQuery): boolean {
+  if (query.groups.length !== 1) return false; // OR root
+  const group = query.groups[0] ?? [];
+  if (group.length > 1) return true; // AND root
+
+  const only = group[0];
+  return !!only && !only.negated && only.lexemes.length > 1; // phrase root
+}
+
+function wordDistance(distance: number): number {
+  if (distance > 100) return 1e-30;
+  return Math.fround(1 / (1.005 + 0.05 * Math.exp(distance / 1.5 - 2)));
+}
+
+function rankOr(vector: SearchVector, lexemes: string[]): number {
+  let res = 0;
+
+  for (const lexeme of lexemes) {
+    const positions = vector.get(lexeme);
+    if (!positions) continue;
+
+    let resj = 0;
+    positions.forEach((_position, j) => {
+      resj = Math.fround(
+        resj + Math.fround(DEFAULT_WEIGHT / ((j + 1) * (j + 1)))
+      );
+    }); // every occurrence adds a shrinking 1/n^2 share
+
+    res = Math.fround(res + resj / RANK_OR_NORMALIZER); // uniform weights keep the max-weight term at j = 0
+  }
+
+  return lexemes.length > 0 ? Math.fround(res / lexemes.length) : 0;
+}
+
+function rankAnd(vector: SearchVector, lexemes: string[]): number {
+  if (lexemes.length < 2) return rankOr(vector, lexemes);
+
+  let res = -1;
+
+  lexemes.forEach((lexeme, i) => {
+    const positions = vector.get(lexeme);
+    if (!positions) return;
+
+    for (const earlier of lexemes.slice(0, i)) {
+      const earlierPositions = vector.get(earlier);
+      if (!earlierPositions) continue;
+
+      for (const position of positions) {
+        for (const earlierPosition of earlierPositions) {
+          const distance =
+            Math.abs(position - earlierPosition) || MAX_WORD_DISTANCE;
+          const curw = Math.fround(
+            Math.sqrt(
+              Math.fround(DEFAULT_WEIGHT * DEFAULT_WEIGHT) *
+                wordDistance(distance)
+            )
+          ); // closer pairs of query words score higher
+
+          res = res < 0 ? curw : Math.fround(1 - (1 - res) * (1 - curw));
+        }
+      }
+    }
+  });
+
+  return res;
+}
+
+export function rankFullTextMatch(
+  vector: SearchVector,
+  query: FullTextQuery
+): number {
+  const lexemes = getUniqueLexemes(query);
+  if (vector.size === 0 || lexemes.length === 0) return 0;
+
+  const res = isAndRooted(query)
+    ? rankAnd(vector, lexemes)
+    : rankOr(vector, lexemes);
+
+  return res < 0 ? Math.fround(1e-20) : res; // postgres floors "no pairs found" at a tiny positive rank
+}
@@ -0,0 +1,185 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> search highlight fragments for Control + Faq nodes
+
+  - the ts_headline equivalent: matched words wrapped in <mark>…</mark>, long fields cut into short fragments
+  - runs in the service layer on db + seed fallback pages alike, so both sources return identical highlights
+  - SUBSTRING marks every case-insensitive occurrence of the search term
+  - FULLTEXT marks every word whose english lexeme the query asks for (stems, phrase parts, or-branches)
+  - highlights are derived per request and never stored in the shared read cache
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import {
+  getPositiveLexemes,
+  parseWebSearchQuery,
+  splitWordSpans,
+  toLexeme
+} from './fullTextSearch'; // same tokenizer + stemmer the FULLTEXT match used
+import {
+  isFullTextSearch,
+  normalizeSearchInput,
+  type SearchMode
+} from './pagination'; // shared search normalization + mode detection
+
+// ---------- public types ----------
+
+export type SearchHighlight = {
+  field: string; // graphql field name the fragment was cut from (title, description, question, answer)
+  fragment: string; // plain text with matches wrapped in HIGHLIGHT_START / HIGHLIGHT_END
+};
+
+export type HighlightField = {
+  field: string; // graphql field name
+  text: string; // raw field value
+};
+
+export type HighlightArgs = {
+  search?: string; // raw search term from the connection args
+  searchMode?: SearchMode; // SUBSTRING (default) or FULLTEXT
+};
+
+type MatchRange = { start: number; end: number }; // [start, end) character range inside one field
+
+type Highlighter = (fields: HighlightField[]) => SearchHighlight[];
+
+// ---------- constants ----------
+
+export const HIGHLIGHT_START = '<mark>'; // ts_headline StartSel
+export const HIGHLIGHT_END = '</mark>'; // ts_headline StopSel
+
+const FRAGMENT_ELLIPSIS = '…'; // shown where a fragment cuts into the field text
+const MAX_WHOLE_FIELD_WORDS = 35; // ts_headline MaxWords: shorter fields come back whole
+const FRAGMENT_CONTEXT_WORDS = 6; // words kept on each side of a match inside a fragment
+const MAX_FRAGMENTS_PER_FIELD = 2; // ts_headline MaxFragments
+
+// ---------- match finders ----------
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildSubstringPattern(search: string): RegExp {
+  return new RegExp(escapeRegExp(search).replace(/ /g, '\\s+'), 'giu'); // normalized search collapsed whitespace, so field whitespace may vary
+}
+
+function findSubstringRanges(text: string, pattern: RegExp): MatchRange[] {
+  return Array.from(text.matchAll(pattern), match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+}
+
+function findLexemeRanges(text: string, lexemes: Set<string>): MatchRange[] {
+  return splitWordSpans(text)
+    .filter(span => {
+      const lexeme = toLexeme(span.word);
+      return lexeme !== null && lexemes.has(lexeme);
+    })
+    .map(span => ({ start: span.start, end: span.end }));
+}
+
+// ---------- fragment building ----------
+
+function markRanges(
+  text: string,
+  ranges: MatchRange[],
+  from: number,
+  to: number
+): string {
+  let out = '';
+  let cursor = from;
+
+  for (const range of ranges) {
+    const start = Math.max(range.start, from);
+    const end = Math.min(range.end, to);
+    if (start >= end || start < cursor) continue; // outside this fragment (or already covered)
+
+    out += `${text.slice(cursor, start)}${HIGHLIGHT_START}${text.slice(start, end)}${HIGHLIGHT_END}`;
+    cursor = end;
+  }
+
+  return out + text.slice(cursor, to);
+}
+
+function buildFragments(text: string, ranges: MatchRange[]): string[] {
+  const words = Array.from(text.matchAll(/\S+/g), match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  })); // whitespace-delimited words keep punctuation attached to fragment edges
+
+  if (words.length <= MAX_WHOLE_FIELD_WORDS) {
+    return [markRanges(text, ranges, 0, text.length)];
+  }
+
+  const windows: Array<{ first: number; last: number }> = [];
+
+  for (const range of ranges) {
+    const firstHit = words.findIndex(word => word.end > range.start);
+    const lastHit = words.findIndex(word => word.end >= range.end);
+    const first = Math.max(0, firstHit - FRAGMENT_CONTEXT_WORDS);
+    const last = Math.min(words.length - 1, lastHit + FRAGMENT_CONTEXT_WORDS);
+    const previous = windows[windows.length - 1];
+
+    if (previous && first <= previous.last + 1) {
+      previous.last = Math.max(previous.last, last); // overlapping windows merge into one fragment
+    } else {
+      windows.push({ first, last });
+    }
+  }
+
+  return windows.slice(0, MAX_FRAGMENTS_PER_FIELD).map(window => {
+    const from = words[window.first]?.start ?? 0;
+    const to = words[window.last]?.end ?? text.length;
+    const lead = window.first > 0 ? FRAGMENT_ELLIPSIS : '';
+    const tail = window.last < words.length - 1 ? FRAGMENT_ELLIPSIS : '';
+
+    return `${lead}${markRanges(text, ranges, from, to)}${tail}`;
+  });
+}
+
+// ---------- public api ----------
+
+export function createHighlighter(args: HighlightArgs): Highlighter | null {
+  const search = normalizeSearchInput(args.search);
+  if (search === undefined) return null; // no search term -> nothing to highlight
+
+  let findRanges: (text: string) => MatchRange[];
+
+  if (isFullTextSearch(args)) {
+    const lexemes = getPositiveLexemes(parseWebSearchQuery(search)); // parse once per page, not once per row
+    findRanges = text => findLexemeRanges(text, lexemes);
+  } else {
+    const pattern = buildSubstringPattern(search);
+    findRanges = text => findSubstringRanges(text, pattern);
+  }
+
+  return fields =>
+    fields.flatMap(({ field, text }) => {
+      const ranges = findRanges(text);
+      if (ranges.length === 0) return []; // fields without a hit contribute no fragment
+
+      return buildFragments(text, ranges).map(fragment => ({
+        field,
+        fragment
+      }));
+    });
+}
+
+export function attachHighlights<
+  TRow extends { highlights?: SearchHighlight[] },
+  TPage extends { rows: TRow[] }
+>(
+  page: TPage,
+  args: HighlightArgs,
+  getFields: (row: TRow) => HighlightField[]
+): TPage {
+  const highlighter = createHighlighter(args);
+  if (!highlighter) return page; // plain list reads keep highlights unset (null in graphql)
+
+  return {
+    ...page,
+    rows: page.rows.map(row => ({
+      ...row,
+      highlights: highlighter(getFields(row))
+    })) // copy rows so the cached page is never mutated
+  };
+}
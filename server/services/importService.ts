@@ -0,0 +1,451 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> bulk import service (csv / json -> controls or faqs)
+
+  - parses csv (header row) or json (seed-file shape or a bare array) into raw records
+  - accepts camelCase or snake_case column names (controlKey / control_key)
+  - every record runs through validateCreateControlInput / validateCreateFaqInput + resolveTaxonomy
+  - reports every bad record (row number, natural key, message) instead of stopping at the first one
+  - dry-run classifies rows as created / updated / unchanged without writing anything
+  - a real import writes nothing unless every row is valid, then upserts by natural key in one transaction
+  - changing a published row needs content:publish (reported per row, like validation errors)
+  - one cache invalidation after commit (not one per row)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { DbQueryAdapter, GraphQLContext } from '../graphql/context'; // request-scoped deps (db + cache + auth)
+import type { Cache } from '../cache/cache'; // invalidation target
+import { canChangePublished } from '../auth'; // published rows need content:publish, same gate as adminUpdate
+import { invalidateControls, invalidateFaqs } from '../cache/invalidation'; // one invalidation per import
+import { parseCsv } from './csv'; // dependency-free csv reader
+import {
+  getControlsByKeys,
+  importControl,
+  toControlWrite,
+  type DbControlRow
+} from './controlsService'; // controls upsert helpers
+import {
+  getFaqsByKeys,
+  importFaq,
+  toFaqWrite,
+  type DbFaqRow
+} from './faqsService'; // faqs upsert helpers
+import { getTaxonomyManifest } from './taxonomyService'; // admin-managed vocabulary (falls back to taxonomy.json)
+import {
+  validateCreateControlInput,
+  validateCreateFaqInput,
+  type CreateControlInput,
+  type CreateFaqInput,
+  type NormalizedControlWrite,
+  type NormalizedFaqWrite
+} from './validation'; // same write validation as adminCreateControl / adminCreateFaq
+import {
+  resolveTaxonomy,
+  type TaxonomyEntityName,
+  type TaxonomyManifest
+} from '../taxonomy'; // canonical section / category / subcategory labels
+
+// ---------- args + result shapes ----------
+
+export type ImportFormat = 'csv' | 'json';
+
+export type ImportArgs = {
+  entity: TaxonomyEntityName;
+  format: ImportFormat;
+  content: string;
+  dryRun: boolean;
+};
+
+export type ImportRowError = {
+  row: number; // 1-based record number (csv header not counted)
+  key: string | null; // natural key when the record had one
+  message: string;
+};
+
+export type ImportReport = {
+  entity: TaxonomyEntityName;
+  dryRun: boolean;
+  applied: boolean; // true only when a real import committed
+  totalRows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  errors: ImportRowError[];
+};
+
+type RawRecord = Record<string, unknown>;
+
+type PlannedRow<TWrite, TRow> = {
+  row: number;
+  write: TWrite;
+  existing: TRow | null;
+};
+
+type EntityImporter<
+  TWrite,
+  TRow extends { deleted_at?: unknown; status?: string }
+> = {
+  label: string; // error wording
+  keyField: string; // camelCase natural key field
+  validate: (record: RawRecord) => TWrite; // record -> create input -> normalized write (throws VALIDATION_ERROR)
+  keyOf: (write: TWrite) => string;
+  getByKeys: (
+    keys: string[],
+    db: DbQueryAdapter,
+    opts: { lock: boolean }
+  ) => Promise<TRow[]>;
+  rowKeyOf: (row: TRow) => string;
+  toWrite: (row: TRow) => TWrite;
+  write: (
+    tx: DbQueryAdapter,
+    write: TWrite,
+    existing: TRow | null,
+    meta: { actor: string; requestId: string }
+  ) => Promise<TRow>;
+  invalidate: (cache: Cache) => Promise<string>;
+};
+
+// ---------- config ----------
+
+const MAX_IMPORT_ROWS = 5_000; // one transaction; larger files should be split
+
+const CSV_TAG_SEPARATOR = ';'; // tags column in csv files: "iam; sso"
+
+// ---------- record parsing ----------
+
+function normalizeColumnName(name: string): string {
+  return name.replace(/[_\s-]/g, '').toLowerCase(); // control_key, controlKey, and "Control Key" all match
+}
+
+function readField(record: RawRecord, field: string): unknown {
+  const wanted = normalizeColumnName(field);
+  for (const [column, value] of Object.entries(record)) {
+    if (normalizeColumnName(column) === wanted) return value;
+  }
+  return undefined;
+}
+
+function readOptionalText(record: RawRecord, field: string): unknown {
+  const value = readField(record, field);
+  return typeof value === 'string' && value.trim() === '' ? null : value; // blank csv cells mean "no value"
+}
+
+function readTags(record: RawRecord): unknown {
+  const value = readField(record, 'tags');
+  if (typeof value !== 'string') return value ?? null; // json arrays pass straight to validation
+
+  const tags = value
+    .split(CSV_TAG_SEPARATOR)
+    .map(tag => tag.trim())
+    .filter(tag => tag !== '');
+  return tags.length > 0 ? tags : null;
+}
+
+function parseRecords(
+  entity: TaxonomyEntityName,
+  format: ImportFormat,
+  content: string
+): RawRecord[] {
+  if (format === 'csv') return parseCsv(content);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('VALIDATION_ERROR: import content must be valid JSON');
+  }
+
+  const records = Array.isArray(parsed)
+    ? parsed
+    : (parsed as Record<string, unknown> | null)?.[entity]; // seed-file shape: { "controls": [...] }
+
+  if (!Array.isArray(records)) {
+    throw new Error(
+      `VALIDATION_ERROR: JSON import must be an array or an object with a "${entity}" array`
+    );
+  }
+
+  return records.map(record =>
+    record && typeof record === 'object' ? (record as RawRecord) : {}
+  ); // non-object entries fail validation with a row number instead of crashing
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// ---------- entity importers ----------
+
+function readControlInput(record: RawRecord): CreateControlInput {
+  return {
+    controlKey: readField(record, 'controlKey') as string,
+    title: readField(record, 'title') as string,
+    description: readField(record, 'description') as string,
+    section: readField(record, 'section') as string,
+    category: readField(record, 'category') as string,
+    subcategory: readOptionalText(record, 'subcategory') as string | null,
+    tags: readTags(record) as string[] | null,
+    sourceUrl: readOptionalText(record, 'sourceUrl') as string | null
+  }; // validation does the real type checks
+}
+
+function readFaqInput(record: RawRecord): CreateFaqInput {
+  return {
+    faqKey: readField(record, 'faqKey') as string,
+    question: readField(record, 'question') as string,
+    answer: readField(record, 'answer') as string,
+    section: readField(record, 'section') as string,
+    category: readField(record, 'category') as string,
+    subcategory: readOptionalText(record, 'subcategory') as string | null,
+    tags: readTags(record) as string[] | null
+  };
+}
+
+const controlsImporter: EntityImporter<NormalizedControlWrite, DbControlRow> = {
+  label: 'control',
+  keyField: 'controlKey',
+  validate: record => validateCreateControlInput(readControlInput(record)),
+  keyOf: write => write.controlKey,
+  getByKeys: getControlsByKeys,
+  rowKeyOf: row => row.control_key,
+  toWrite: toControlWrite,
+  write: importControl,
+  invalidate: invalidateControls
+};
+
+const faqsImporter: EntityImporter<NormalizedFaqWrite, DbFaqRow> = {
+  label: 'faq',
+  keyField: 'faqKey',
+  validate: record => validateCreateFaqInput(readFaqInput(record)),
+  keyOf: write => write.faqKey,
+  getByKeys: getFaqsByKeys,
+  rowKeyOf: row => row.faq_key,
+  toWrite: toFaqWrite,
+  write: importFaq,
+  invalidate: invalidateFaqs
+};
+
+// ---------- planning (shared by dry-run + real import) ----------
+
+function sameWrite(a: object, b: object): boolean {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+
+  return Object.keys(left).every(field => {
+    const l = field === 'tags' ? (left[field] ?? []) : left[field];
+    const r = field === 'tags' ? (right[field] ?? []) : right[field];
+    return JSON.stringify(l) === JSON.stringify(r); // null tags and [] mean the same thing
+  });
+}
+
+function validateRecords<
+  TWrite extends object,
+  TRow extends { deleted_at?: unknown; status?: string }
+>(
+  importer: EntityImporter<TWrite, TRow>,
+  entity: TaxonomyEntityName,
+  records: RawRecord[],
+  manifest: TaxonomyManifest,
+  errors: ImportRowError[]
+): Array<{ row: number; write: TWrite }> {
+  const valid: Array<{ row: number; write: TWrite }> = [];
+  const seenKeys = new Map<string, number>();
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const rawKey = readField(record, importer.keyField);
+    const key =
+      typeof rawKey === 'string' && rawKey.trim() !== '' ? rawKey.trim() : null;
+
+    try {
+      const normalized = importer.validate(record);
+      const write = {
+        ...normalized,
+        ...resolveTaxonomy(manifest, entity, normalized as RawRecord)
+      } as TWrite; // canonical manifest labels (and default subcategory) replace the typed ones
+
+      const writeKey = importer.keyOf(write);
+      const firstRow = seenKeys.get(writeKey); // natural keys are case-sensitive, same as the unique index
+      if (firstRow !== undefined) {
+        throw new Error(
+          `VALIDATION_ERROR: duplicate ${importer.keyField} (first seen on row ${firstRow})`
+        );
+      }
+
+      seenKeys.set(writeKey, row);
+      valid.push({ row, write });
+    } catch (error) {
+      errors.push({ row, key, message: errorMessage(error) });
+    }
+  });
+
+  return valid;
+}
+
+async function planRows<
+  TWrite extends object,
+  TRow extends { deleted_at?: unknown; status?: string }
+>(
+  importer: EntityImporter<TWrite, TRow>,
+  rows: Array<{ row: number; write: TWrite }>,
+  ctx: Pick<GraphQLContext, 'auth'> & { db: DbQueryAdapter },
+  lock: boolean,
+  errors: ImportRowError[]
+): Promise<Array<PlannedRow<TWrite, TRow>>> {
+  if (rows.length === 0) return [];
+
+  const existingRows = await importer.getByKeys(
+    rows.map(row => importer.keyOf(row.write)),
+    ctx.db,
+    { lock }
+  );
+  const byKey = new Map(existingRows.map(row => [importer.rowKeyOf(row), row]));
+  const planned: Array<PlannedRow<TWrite, TRow>> = [];
+
+  for (const { row, write } of rows) {
+    const key = importer.keyOf(write);
+    const existing = byKey.get(key) ?? null;
+
+    if (existing?.deleted_at) {
+      errors.push({
+        row,
+        key,
+        message: `CONFLICT_ERROR: ${importer.keyField} belongs to a deleted ${importer.label}; restore it first`
+      }); // same rule as adminCreate: a soft-deleted row keeps its natural key
+      continue;
+    }
+
+    if (
+      existing &&
+      !canChangePublished(ctx.auth, existing.status) &&
+      !sameWrite(write, importer.toWrite(existing))
+    ) {
+      errors.push({
+        row,
+        key,
+        message: `FORBIDDEN: content:publish permission required to change a published ${importer.label}`
+      }); // unchanged published rows are fine; they are skipped on write
+      continue;
+    }
+
+    planned.push({ row, write, existing });
+  }
+
+  return planned;
+}
+
+function countOutcomes<
+  TWrite extends object,
+  TRow extends { deleted_at?: unknown; status?: string }
+>(
+  importer: EntityImporter<TWrite, TRow>,
+  planned: Array<PlannedRow<TWrite, TRow>>
+): Pick<ImportReport, 'created' | 'updated' | 'unchanged'> {
+  let created = 0;
+  let updated = 0;
+  let unchanged = 0;
+
+  for (const { write, existing } of planned) {
+    if (!existing) created += 1;
+    else if (sameWrite(write, importer.toWrite(existing))) unchanged += 1;
+    else updated += 1;
+  }
+
+  return { created, updated, unchanged };
+}
+
+// ---------- main import path ----------
+
+async function runImport<
+  TWrite extends object,
+  TRow extends { deleted_at?: unknown; status?: string }
+>(
+  importer: EntityImporter<TWrite, TRow>,
+  args: ImportArgs,
+  ctx: GraphQLContext
+): Promise<ImportReport> {
+  const records = parseRecords(args.entity, args.format, args.content);
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(
+      `VALIDATION_ERROR: import is limited to ${MAX_IMPORT_ROWS} rows per file`
+    );
+  }
+
+  const errors: ImportRowError[] = [];
+  const manifest = await getTaxonomyManifest(ctx.db);
+  const valid = validateRecords(
+    importer,
+    args.entity,
+    records,
+    manifest,
+    errors
+  );
+  const preview = await planRows(importer, valid, ctx, false, errors);
+
+  const report: ImportReport = {
+    entity: args.entity,
+    dryRun: args.dryRun,
+    applied: false,
+    totalRows: records.length,
+    ...countOutcomes(importer, preview),
+    errors: errors.sort((a, b) => a.row - b.row)
+  };
+
+  if (args.dryRun || errors.length > 0 || records.length === 0) return report; // all-or-nothing: any bad row blocks the write
+
+  const meta = {
+    actor: ctx.auth.userEmail ?? 'local-dev',
+    requestId: ctx.requestId
+  };
+
+  const outcome = await ctx.db.transaction(async tx => {
+    const lockErrors: ImportRowError[] = [];
+    const planned = await planRows(
+      importer,
+      valid,
+      { auth: ctx.auth, db: tx },
+      true,
+      lockErrors
+    ); // re-read under row locks so concurrent writes cannot slip in
+
+    if (lockErrors.length > 0) {
+      throw new Error(
+        `CONFLICT_ERROR: ${lockErrors.length} row(s) changed during import; run it again`
+      );
+    }
+
+    const counts = countOutcomes(importer, planned);
+
+    for (const { write, existing } of planned) {
+      if (existing && sameWrite(write, importer.toWrite(existing))) continue; // no audit noise for untouched rows
+      await importer.write(tx, write, existing, meta);
+    }
+
+    return counts;
+  }); // every upsert, audit row, and revision commits together
+
+  const prefix = await importer.invalidate(ctx.cache); // one invalidation for the whole import
+  console.log(
+    `[import] requestId=${ctx.requestId} entity=${args.entity} created=${outcome.created} updated=${outcome.updated} unchanged=${outcome.unchanged} invalidate prefix=${prefix}`
+  );
+
+  return { ...report, ...outcome, applied: true };
+}
+
+export async function importContent(
+  args: ImportArgs,
+  ctx: GraphQLContext
+): Promise<ImportReport> {
+  try {
+    return args.entity === 'controls'
+      ? await runImport(controlsImporter, args, ctx)
+      : await runImport(faqsImporter, args, ctx);
+  } catch (error) {
+    const pgError = error as { code?: string } | undefined;
+    if (pgError?.code === '23505') {
+      throw new Error(
+        'CONFLICT_ERROR: natural key conflict during import; run it again'
+      ); // another writer created one of the keys after planning
+    }
+    throw error;
+  }
+}
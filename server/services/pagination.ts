@@ -6,18 +6,58 @@
   - provides shared sql helpers (where + after cursor boundary)
   - provides shared in-memory helpers (seed-mode filtering + slicing)
   - freezes one shared search contract for connection queries + overview search
+  - supports SUBSTRING (ILIKE) and FULLTEXT (websearch_to_tsquery + ts_rank) search modes
+  - filters on section, subcategory, and tags (ANY / ALL) with the same rules in sql + seed mode
+  - searchPublicOnly keeps nda rows out of search matches for viewers without nda clearance (sql + memory)
+  - exports MAX_PAGE_SIZE so the graphql cost limit prices pages the way the services clamp them
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
+import {
+  buildSearchVector,
+  matchesFullTextQuery,
+  parseWebSearchQuery,
+  rankFullTextMatch
+} from './fullTextSearch'; // in-memory mirror of postgres full-text matching + ranking
+import type { ContentStatus } from './validation'; // workflow status values shared with admin writes
+
 // ----------  cursor payload (base64url json)  ----------
 
 export type CursorPayload = {
   sortValue: string; // updated_at iso string
   id: string; // uuid tie-breaker
+  rank?: number; // ts_rank of the row (FULLTEXT reads only)
+};
+
+// ----------  search modes  ----------
+
+// SUBSTRING = case-insensitive contains match (default)
+// FULLTEXT = stemmed word match via search_vector, ordered by relevance
+export type SearchMode = 'SUBSTRING' | 'FULLTEXT';
+
+// ----------  taxonomy filters  ----------
+
+// ANY = row carries at least one requested tag (default)
+// ALL = row carries every requested tag
+export type TagMatch = 'ANY' | 'ALL';
+
+export type TaxonomyFilterArgs = {
+  section?: string; // case-insensitive exact match
+  subcategory?: string; // case-insensitive exact match
+  tags?: string[]; // case-insensitive tag list
+  tagMatch?: TagMatch; // how tags combine (default ANY)
 };
 
+// a locked nda teaser still lists its title, but matching on hidden text would leak what it says
+export type SearchVisibilityArgs = {
+  searchPublicOnly?: boolean; // true  -->  search terms only match public rows
+};
+
+// shared postgres text search config  -->  must match the search_vector generated column in 001_init.sql
+const FULLTEXT_CONFIG = 'english';
+
 // ----------  constants  ----------
 
-const MAX_PAGE_SIZE = 50; // safety cap --> avoids accidental heavy queries
+export const MAX_PAGE_SIZE = 50; // safety cap --> avoids accidental heavy queries
 const SEARCH_MIN_LENGTH = 2; // shortest useful overview search term (e.g. "ai")
 const SEARCH_MAX_LENGTH = 80; // defensive cap keeps the prototype contract bounded
 
@@ -55,6 +95,25 @@ export function normalizeSearchInput(
   return normalized; // return one canonical search term for downstream callers
 }
 
+export function normalizeTaxonomyFilter(
+  value: string | undefined
+): string | undefined {
+  if (value == null) return undefined; // omitted filter (graphql may send an explicit null)
+  const normalized = normalizeText(value).toLowerCase(); // case-insensitive exact match on both sides
+  return normalized === '' ? undefined : normalized; // blank filter behaves like no filter (same as category)
+}
+
+export function normalizeTagFilter(
+  tags: string[] | undefined
+): string[] | undefined {
+  if (tags == null) return undefined; // omitted filter (graphql may send an explicit null)
+
+  const normalized = new Set(
+    tags.map(tag => normalizeText(tag).toLowerCase()).filter(tag => tag !== '')
+  ); // same trim/collapse/lowercase identity as tag writes, blanks dropped
+  return normalized.size > 0 ? [...normalized].sort() : undefined; // sorted so equivalent lists share sql params + cache keys
+}
+
 function assertSearchLength(value: string): string {
   if (value.length < SEARCH_MIN_LENGTH) {
     throw new Error(
@@ -71,6 +130,16 @@ function assertSearchLength(value: string): string {
   return value; // validated length is safe to reuse across service/db/fallback paths
 }
 
+export function isFullTextSearch(args: {
+  search?: string;
+  searchMode?: SearchMode;
+}): boolean {
+  return (
+    args.searchMode === 'FULLTEXT' &&
+    normalizeSearchInput(args.search) !== undefined
+  ); // FULLTEXT without a search term has nothing to rank, so it reads like a plain list
+}
+
 export function assertOverviewSearchInput(value: string): string {
   const normalized = normalizeSearchInput(value); // overview search starts from the same normalization path as existing reads
 
@@ -110,8 +179,13 @@ export function decodeCursor(cursor: string): CursorPayload | null {
     if (!parsed || typeof parsed !== 'object') return null; // reject non-object
     if (typeof parsed.sortValue !== 'string') return null; // reject missing timestamp
     if (typeof parsed.id !== 'string') return null; // reject missing id
+    if (parsed.rank !== undefined && !Number.isFinite(parsed.rank)) {
+      return null; // reject non-numeric rank
+    }
 
-    return { sortValue: parsed.sortValue, id: parsed.id }; // return typed payload
+    return parsed.rank !== undefined
+      ? { sortValue: parsed.sortValue, id: parsed.id, rank: parsed.rank }
+      : { sortValue: parsed.sortValue, id: parsed.id }; // return typed payload
   } catch {
     return null; // reject invalid base64/json
   }
@@ -121,15 +195,55 @@ export function isValidCursor(cursor: string): boolean {
   return decodeCursor(cursor) !== null; // validator built on decodeCursor
 }
 
+export function buildRowCursor(row: {
+  id: string;
+  updated_at: string | Date;
+  rank?: number;
+}): string {
+  return encodeCursor({
+    sortValue: toIso(row.updated_at), // keep cursor aligned with db sort order
+    id: row.id, // id is the tie-breaker to keep ordering stable
+    ...(row.rank !== undefined ? { rank: row.rank } : {}) // ranked reads sort by rank first, so the cursor must carry it
+  });
+}
+
+function assertCursorMatchesMode(
+  decoded: CursorPayload,
+  ranked: boolean
+): void {
+  if (ranked !== (decoded.rank !== undefined)) {
+    throw new Error(
+      'CURSOR_ERROR: after cursor was issued for a different search mode'
+    ); // rank cursors only make sense against ranked ordering (and vice versa)
+  }
+}
+
 // ---------- sql helpers (category + search filters) ----------
 
-export function buildCategorySearchWhere(args: {
-  category?: string;
-  search?: string;
-}): { whereSql: string; params: unknown[] } {
+export function buildCategorySearchWhere(
+  args: {
+    category?: string;
+    search?: string;
+    searchMode?: SearchMode;
+    excludeDeleted?: boolean; // true for every read except admin includeDeleted reads
+    status?: ContentStatus; // workflow status filter (services default it to published)
+  } & TaxonomyFilterArgs &
+    SearchVisibilityArgs
+): { whereSql: string; params: unknown[]; rankSql?: string } {
   const parts: string[] = []; // sql predicates
   const params: unknown[] = []; // parameter bag
 
+  if (args.excludeDeleted) {
+    // EXPLAIN: Index Scan using controls_live_updated_at_id_idx / faqs_live_updated_at_id_idx
+    parts.push('deleted_at is null'); // soft-deleted rows stay out of public reads
+  }
+
+  if (args.status) {
+    // EXPLAIN: Index Scan using controls_published_updated_at_id_idx / faqs_published_updated_at_id_idx (public reads)
+    params.push(args.status);
+    parts.push(`status = $${params.length}`); // drafts + in-review + archived rows stay out of public reads
+  }
+
   const categoryNorm =
     args.category && normalizeText(args.category) !== ''
       ? normalizeText(args.category)
@@ -145,25 +259,64 @@ export function buildCategorySearchWhere(args: {
     parts.push(`lower(category) = $${params.length}`); // index-friendly: lower() only on column, not param
   }
 
-  if (searchNorm) {
+  const sectionNorm = normalizeTaxonomyFilter(args.section);
+  if (sectionNorm) {
+    // EXPLAIN: Index Scan using controls_section_lower_idx / faqs_section_lower_idx
+    params.push(sectionNorm);
+    parts.push(`lower(section) = $${params.length}`);
+  }
+
+  const subcategoryNorm = normalizeTaxonomyFilter(args.subcategory);
+  if (subcategoryNorm) {
+    // EXPLAIN: Index Scan using controls_subcategory_lower_idx / faqs_subcategory_lower_idx
+    params.push(subcategoryNorm);
+    parts.push(`lower(subcategory) = $${params.length}`);
+  }
+
+  const tagsNorm = normalizeTagFilter(args.tags);
+  if (tagsNorm) {
+    // EXPLAIN: Bitmap Index Scan on controls_tags_lower_gin / faqs_tags_lower_gin
+    params.push(tagsNorm);
+    const operator = args.tagMatch === 'ALL' ? '@>' : '&&'; // ALL = contains every tag, ANY = overlaps at least one
+    parts.push(`public.lower_tags(tags) ${operator} $${params.length}::text[]`); // lower_tags() matches the gin expression index in 009
+  }
+
+  let rankSql: string | undefined; // only FULLTEXT reads produce a rank expression
+
+  if (searchNorm && args.searchMode === 'FULLTEXT') {
+    params.push(searchNorm); // websearch_to_tsquery does its own lowercasing + stemming
+    const tsQuery = `websearch_to_tsquery('${FULLTEXT_CONFIG}', $${params.length})`; // accepts "phrases", or, -negation without syntax errors
+    // EXPLAIN: Bitmap Index Scan on controls_search_vector_gin / faqs_search_vector_gin
+    parts.push(`search_vector @@ ${tsQuery}`);
+    rankSql = `ts_rank(search_vector, ${tsQuery})`; // default weights + normalization; mirrored in fullTextSearch.ts
+  } else if (searchNorm) {
     const needle = escapeLike(searchNorm.toLowerCase()); // normalize + escape wildcard chars
     params.push(`%${needle}%`); // param: contains pattern
-    // prototype: ILIKE is a seq scan but acceptable for current dataset size
-    // production path: switch to search_vector @@ plainto_tsquery('english', $N)
-    // to use the GIN index (controls_search_vector_gin / faqs_search_vector_gin)
-    // validate search semantics with UI team before switching (substring vs word-stem match)
+    // ILIKE is a seq scan but acceptable for current dataset size
+    // kept as the default because substring matching is what the UI search box was built around
     parts.push(`search_text ILIKE $${params.length} ESCAPE '\\'`); // explicit one-char escape for backslash
   }
 
+  if (searchNorm && args.searchPublicOnly) {
+    parts.push(`visibility = 'public'`); // no param: a fixed literal
+  }
+
   const whereSql = parts.length ? `where ${parts.join(' and ')}` : ''; // join predicates when present
-  return { whereSql, params }; // return clause + params
+  return rankSql ? { whereSql, params, rankSql } : { whereSql, params }; // rank expression only exists for FULLTEXT reads
+}
+
+export function buildOrderBySql(rankSql?: string): string {
+  return rankSql
+    ? 'order by rank desc, updated_at desc, id desc' // relevance first, then the usual deterministic tie-breakers
+    : 'order by updated_at desc, id desc';
 }
 
 // ----------  sql helpers (cursor boundary: desc order)  ----------
 
 export function buildAfterBoundary(
   after: string | undefined,
-  startingIndex: number
+  startingIndex: number,
+  rankSql?: string
 ): {
   sql: string;
   params: unknown[];
@@ -172,6 +325,30 @@ export function buildAfterBoundary(
 
   const decoded = decodeCursor(after); // decode cursor payload
   if (!decoded) throw new Error('CURSOR_ERROR: invalid after cursor'); // readable failure for UI
+  assertCursorMatchesMode(decoded, rankSql !== undefined);
+
+  if (rankSql !== undefined) {
+    const p0 = startingIndex; // param index for rank
+    const p1 = startingIndex + 1; // param index for sortValue
+    const p2 = startingIndex + 2; // param index for id
+
+    // desc boundary --> (rank, updated_at, id) must be strictly less than cursor tuple
+    // ts_rank returns real, so comparing against ::real keeps the round-tripped cursor value exact
+    const sql = `
+    and (
+      ${rankSql} < $${p0}::real
+      or (
+        ${rankSql} = $${p0}::real
+        and (
+          updated_at < $${p1}::timestamptz
+          or (updated_at = $${p1}::timestamptz and id < $${p2}::uuid)
+        )
+      )
+    )
+  `;
+
+    return { sql, params: [decoded.rank, decoded.sortValue, decoded.id] };
+  }
 
   const p1 = startingIndex; // param index for sortValue
   const p2 = startingIndex + 1; // param index for id
@@ -189,14 +366,64 @@ export function buildAfterBoundary(
 
 // ----------  in-memory helpers (seed mode)  ----------
 
-export function filterRowsByCategorySearch<T>(
-  rows: T[],
-  args: { category?: string; search?: string },
+type TaxonomyRow = {
+  section?: string;
+  subcategory?: string | null;
+  tags?: string[] | null;
+}; // db, snapshot, and seed rows all carry these columns
+
+function matchesTaxonomy(row: TaxonomyRow, args: TaxonomyFilterArgs): boolean {
+  const sectionNorm = normalizeTaxonomyFilter(args.section);
+  if (
+    sectionNorm &&
+    normalizeText(row.section ?? '').toLowerCase() !== sectionNorm
+  ) {
+    return false;
+  }
+
+  const subcategoryNorm = normalizeTaxonomyFilter(args.subcategory);
+  if (
+    subcategoryNorm &&
+    normalizeText(row.subcategory ?? '').toLowerCase() !== subcategoryNorm
+  ) {
+    return false;
+  }
+
+  const tagsNorm = normalizeTagFilter(args.tags);
+  if (!tagsNorm) return true;
+
+  const rowTags = new Set((row.tags ?? []).map(tag => tag.toLowerCase())); // mirrors public.lower_tags(tags)
+  return args.tagMatch === 'ALL'
+    ? tagsNorm.every(tag => rowTags.has(tag)) // same as @>
+    : tagsNorm.some(tag => rowTags.has(tag)); // same as &&
+}
+
+export function filterRowsByCategorySearch<
+  T extends {
+    id: string;
+    updated_at: string | Date;
+    visibility?: string;
+  } & TaxonomyRow
+>(
+  allRows: T[],
+  args: {
+    category?: string;
+    search?: string;
+    searchMode?: SearchMode;
+  } & TaxonomyFilterArgs &
+    SearchVisibilityArgs,
   opts: {
     getCategory: (row: T) => string;
     getSearchText: (row: T) => string;
   }
-): T[] {
+): Array<T & { rank?: number }> {
+  const rows =
+    args.searchPublicOnly && normalizeSearchInput(args.search)
+      ? allRows.filter(row => row.visibility !== 'nda') // seed rows omit visibility and read as public
+      : allRows; // same rule as the sql visibility predicate
+
+  if (isFullTextSearch(args)) return rankRowsByFullText(rows, args, opts); // FULLTEXT filters + reorders by relevance
+
   const categoryNorm = args.category
     ? normalizeText(args.category).toLowerCase()
     : ''; // normalize optional category
@@ -210,12 +437,44 @@ export function filterRowsByCategorySearch<T>(
       ? opts.getSearchText(row).toLowerCase().includes(searchNorm)
       : true; // search filter is simple contains
 
-    return catOk && searchOk; // keep row when all filters match
+    return catOk && searchOk && matchesTaxonomy(row, args); // keep row when all filters match
   });
 }
 
+function rankRowsByFullText<
+  T extends { id: string; updated_at: string | Date } & TaxonomyRow
+>(
+  rows: T[],
+  args: { category?: string; search?: string } & TaxonomyFilterArgs,
+  opts: {
+    getCategory: (row: T) => string;
+    getSearchText: (row: T) => string;
+  }
+): Array<T & { rank: number }> {
+  const query = parseWebSearchQuery(normalizeSearchInput(args.search) ?? ''); // same query syntax as websearch_to_tsquery
+  const { search: _search, ...filterArgs } = args; // everything but the search term
+  const categoryRows = filterRowsByCategorySearch(rows, filterArgs, opts); // category + taxonomy filter semantics stay identical across modes
+
+  const ranked: Array<T & { rank: number }> = [];
+
+  for (const row of categoryRows) {
+    const vector = buildSearchVector(opts.getSearchText(row)); // in-memory stand-in for the search_vector column
+    if (!matchesFullTextQuery(vector, query)) continue; // mirrors search_vector @@ query
+
+    ranked.push({ ...row, rank: rankFullTextMatch(vector, query) });
+  }
+
+  return ranked.sort((a, b) => {
+    if (a.rank !== b.rank) return b.rank - a.rank; // relevance desc
+    const aTime = toIso(a.updated_at);
+    const bTime = toIso(b.updated_at);
+    if (aTime !== bTime) return aTime < bTime ? 1 : -1; // updated_at desc
+    return a.id < b.id ? 1 : a.id > b.id ? -1 : 0; // id desc
+  }); // same ordering as the db FULLTEXT query
+}
+
 export function pageFromRows<
-  T extends { id: string; updated_at: string | Date }
+  T extends { id: string; updated_at: string | Date; rank?: number }
 >(
   rows: T[],
   args: { first: number; after?: string }
@@ -227,9 +486,16 @@ export function pageFromRows<
 } {
   const firstClamped = clampFirst(args.first); // enforce safe page size
   const decoded = args.after ? decodeCursor(args.after) : null; // decode cursor when present
+  const ranked = rows.some(r => r.rank !== undefined); // ranked rows come from FULLTEXT search
+  if (decoded && rows.length > 0) assertCursorMatchesMode(decoded, ranked); // same mismatch rule as the sql boundary
 
   const filtered = decoded
     ? rows.filter(r => {
+        if (decoded.rank !== undefined && r.rank !== undefined) {
+          if (r.rank < decoded.rank) return true; // lower relevance comes after the cursor
+          if (r.rank > decoded.rank) return false;
+        }
+
         const rTime = toIso(r.updated_at); // normalize row timestamp
         const cTime = decoded.sortValue; // cursor timestamp
 
@@ -246,9 +512,7 @@ export function pageFromRows<
   const pageRows = hasNextPage ? slice.slice(0, firstClamped) : slice; // drop extra row
 
   const last = pageRows.length ? pageRows[pageRows.length - 1] : null; // pick last row for endCursor
-  const endCursor = last
-    ? encodeCursor({ sortValue: toIso(last.updated_at), id: last.id })
-    : null; // compute endCursor
+  const endCursor = last ? buildRowCursor(last) : null; // compute endCursor
 
   return { rows: pageRows, hasNextPage, endCursor, totalCount };
 }
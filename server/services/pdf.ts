@@ -0,0 +1,316 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> small PDF 1.4 writer (no dependency, no headless browser)
+
+  - draws text, rules, and link areas onto US Letter pages in PDF points (origin bottom-left)
+  - uses the built-in Helvetica family, so no font files are embedded
+  - text is WinAnsi encoded; curly quotes, dashes, and bullets are mapped, other characters become "?"
+  - measures + wraps text with the standard Helvetica widths so layout code can flow paragraphs
+  - internal links jump to a page + y position (table of contents); uri links open in the browser
+  - page content streams are deflated with node:zlib
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { deflateSync } from 'node:zlib'; // FlateDecode content streams
+
+// ---------- shapes ----------
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+export type PdfColor = [number, number, number]; // rgb, 0..1 per channel
+
+export type PdfRect = { x: number; y: number; width: number; height: number };
+
+type PdfLink =
+  | { rect: PdfRect; kind: 'page'; pageIndex: number; top: number }
+  | { rect: PdfRect; kind: 'uri'; uri: string };
+
+export type PdfPage = {
+  ops: string[]; // content stream operators
+  links: PdfLink[];
+};
+
+export type PdfDocument = {
+  title: string;
+  createdAt: Date;
+  pages: PdfPage[];
+};
+
+export type PdfTextOptions = {
+  x: number;
+  y: number; // baseline
+  size: number;
+  font?: PdfFont; // regular by default
+  color?: PdfColor; // black by default
+};
+
+// ---------- page + font config ----------
+
+export const PDF_PAGE_WIDTH = 612; // US Letter, 8.5in x 72pt
+export const PDF_PAGE_HEIGHT = 792; // US Letter, 11in x 72pt
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { name: 'F3', baseFont: 'Helvetica-Oblique' }
+};
+
+// Adobe core font metrics for WinAnsi codes 32..126 (1/1000 em); Oblique shares the regular widths
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584
+];
+
+const FALLBACK_WIDTH = 556; // latin-1 letters outside the ascii table are close to an average glyph
+
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99
+}; // common unicode punctuation that WinAnsi carries outside latin-1
+
+// ---------- text encoding + metrics ----------
+
+function toWinAnsi(text: string): string {
+  let out = '';
+  for (const char of text.replace(/\s+/g, ' ')) {
+    const code = char.codePointAt(0) ?? 63;
+    const extra = WIN_ANSI_EXTRAS[char];
+
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      out += char; // ascii + latin-1 map 1:1
+    } else if (extra !== undefined) {
+      out += String.fromCharCode(extra);
+    } else {
+      out += '?'; // no glyph in the built-in fonts
+    }
+  }
+  return out;
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function glyphWidth(code: number, font: PdfFont): number {
+  const table = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return code >= 32 && code <= 126
+    ? (table[code - 32] ?? FALLBACK_WIDTH)
+    : FALLBACK_WIDTH;
+}
+
+export function measureText(text: string, font: PdfFont, size: number): number {
+  let units = 0;
+  for (const char of toWinAnsi(text)) {
+    units += glyphWidth(char.charCodeAt(0), font);
+  }
+  return (units * size) / 1000;
+}
+
+export function wrapText(
+  text: string,
+  font: PdfFont,
+  size: number,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measureText(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) lines.push(line);
+    line = word;
+
+    while (measureText(line, font, size) > maxWidth && line.length > 1) {
+      let cut = line.length - 1;
+      while (
+        cut > 1 &&
+        measureText(line.slice(0, cut), font, size) > maxWidth
+      ) {
+        cut -= 1;
+      }
+      lines.push(line.slice(0, cut)); // long urls / tokens break mid-word
+      line = line.slice(cut);
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+// ---------- drawing ----------
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString(); // compact operands keep streams small
+}
+
+function formatColor(color: PdfColor): string {
+  return color.map(formatNumber).join(' ');
+}
+
+export function createPdfDocument(title: string, createdAt: Date): PdfDocument {
+  return { title, createdAt, pages: [] };
+}
+
+export function addPdfPage(doc: PdfDocument): PdfPage {
+  const page: PdfPage = { ops: [], links: [] };
+  doc.pages.push(page);
+  return page;
+}
+
+export function drawText(
+  page: PdfPage,
+  text: string,
+  options: PdfTextOptions
+): void {
+  const font = FONT_RESOURCES[options.font ?? 'regular'].name;
+  page.ops.push(
+    `BT ${formatColor(options.color ?? [0, 0, 0])} rg /${font} ${formatNumber(options.size)} Tf ${formatNumber(options.x)} ${formatNumber(options.y)} Td (${escapePdfString(toWinAnsi(text))}) Tj ET`
+  );
+}
+
+export function drawLine(
+  page: PdfPage,
+  from: [number, number],
+  to: [number, number],
+  options: { width?: number; color?: PdfColor } = {}
+): void {
+  page.ops.push(
+    `${formatColor(options.color ?? [0, 0, 0])} RG ${formatNumber(options.width ?? 1)} w ${formatNumber(from[0])} ${formatNumber(from[1])} m ${formatNumber(to[0])} ${formatNumber(to[1])} l S`
+  );
+}
+
+export function addPageLink(
+  page: PdfPage,
+  rect: PdfRect,
+  pageIndex: number,
+  top: number
+): void {
+  page.links.push({ rect, kind: 'page', pageIndex, top });
+}
+
+export function addUriLink(page: PdfPage, rect: PdfRect, uri: string): void {
+  page.links.push({ rect, kind: 'uri', uri });
+}
+
+// ---------- serialization ----------
+
+function formatPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+function formatRect(rect: PdfRect): string {
+  return [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height]
+    .map(formatNumber)
+    .join(' ');
+}
+
+export function renderPdf(doc: PdfDocument): Buffer {
+  const fonts = Object.values(FONT_RESOURCES);
+  const firstPageObject = 4 + fonts.length; // 1 catalog, 2 pages, 3 info, then fonts
+  const pageObject = (index: number) => firstPageObject + index * 2; // each page is followed by its content stream
+
+  const objects: Buffer[] = [];
+  const text = (body: string) => Buffer.from(body, 'latin1');
+
+  objects.push(text('<< /Type /Catalog /Pages 2 0 R >>'));
+  objects.push(
+    text(
+      `<< /Type /Pages /Count ${doc.pages.length} /Kids [${doc.pages.map((_, index) => `${pageObject(index)} 0 R`).join(' ')}] >>`
+    )
+  );
+  objects.push(
+    text(
+      `<< /Title (${escapePdfString(toWinAnsi(doc.title))}) /Producer (trust-center) /CreationDate (${formatPdfDate(doc.createdAt)}) >>`
+    )
+  );
+  for (const font of fonts) {
+    objects.push(
+      text(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`
+      )
+    );
+  }
+
+  const fontDict = fonts
+    .map((font, index) => `/${font.name} ${4 + index} 0 R`)
+    .join(' ');
+
+  doc.pages.forEach((page, index) => {
+    const annots = page.links.map(link =>
+      link.kind === 'page'
+        ? `<< /Type /Annot /Subtype /Link /Border [0 0 0] /Rect [${formatRect(link.rect)}] /Dest [${pageObject(link.pageIndex)} 0 R /XYZ null ${formatNumber(link.top)} null] >>`
+        : `<< /Type /Annot /Subtype /Link /Border [0 0 0] /Rect [${formatRect(link.rect)}] /A << /S /URI /URI (${escapePdfString(toWinAnsi(link.uri))}) >> >>`
+    );
+
+    objects.push(
+      text(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << ${fontDict} >> >> /Contents ${pageObject(index) + 1} 0 R${annots.length ? ` /Annots [${annots.join(' ')}]` : ''} >>`
+      )
+    );
+
+    const stream = deflateSync(text(page.ops.join('\n')));
+    objects.push(
+      Buffer.concat([
+        text(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        text('\nendstream')
+      ])
+    );
+  });
+
+  const chunks: Buffer[] = [text('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')]; // binary comment marks the file as binary for transfer tools
+  const offsets: number[] = [];
+  let length = chunks[0]?.length ?? 0;
+
+  objects.forEach((body, index) => {
+    const chunk = Buffer.concat([
+      text(`${index + 1} 0 obj\n`),
+      body,
+      text('\nendobj\n')
+    ]);
+    offsets.push(length);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `)
+  ].join('\n');
+
+  chunks.push(
+    text(
+      `${xref}\ntrailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${length}\n%%EOF\n`
+    )
+  );
+
+  return Buffer.concat(chunks);
+}
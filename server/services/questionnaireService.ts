@@ -0,0 +1,353 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> standardized questionnaire answers (CAIQ / SIG-style question ids -> published content)
+
+  - questionnaires.json (next to taxonomy.json) maps each question id to controlKey / faqKey values
+  - answers are pre-filled from published rows read through the export page readers (same cache + seed fallback)
+  - faq answers come first, then "title: description" for each mapped control; control source urls become source links
+  - every question without an answer is listed as a gap: unmapped (no keys yet) or missing_source (keys not published)
+  - csv (Excel-friendly, same writer as the content exports) + json formatting for the export route
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import fs from 'node:fs/promises'; // read the mapping file
+import path from 'node:path'; // resolve db/data from this module
+import { fileURLToPath } from 'node:url'; // ESM-safe __dirname
+
+import type { GraphQLContext } from '../graphql/context'; // request-scoped deps (db + memo + cache + auth)
+import { CSV_BOM, formatCsvRow } from './csv'; // dependency-free csv writer
+import type { DbControlRow } from './controlsService'; // controls row shape
+import type { DbFaqRow } from './faqsService'; // faqs row shape
+import { readAllControlRows, readAllFaqRows } from './exportService'; // page-by-page published reads
+
+// ---------- manifest shapes ----------
+
+export type QuestionnaireQuestion = {
+  id: string; // standard question id (e.g. IAM-14.1)
+  domain: string; // questionnaire domain / section heading
+  question: string;
+  controls: string[]; // controlKey values that answer it
+  faqs: string[]; // faqKey values that answer it
+};
+
+export type QuestionnaireDefinition = {
+  id: string; // url-safe slug (caiq, sig-lite)
+  name: string;
+  questions: QuestionnaireQuestion[];
+};
+
+export type QuestionnaireManifest = {
+  version: number;
+  questionnaires: QuestionnaireDefinition[];
+};
+
+// ---------- result shapes ----------
+
+export type QuestionnaireAnswerStatus =
+  | 'answered'
+  | 'unmapped'
+  | 'missing_source';
+
+export type QuestionnaireSource = {
+  kind: 'control' | 'faq';
+  key: string;
+  title: string; // control title / faq question
+  sourceUrl: string | null;
+};
+
+export type QuestionnaireAnswer = {
+  questionId: string;
+  domain: string;
+  question: string;
+  status: QuestionnaireAnswerStatus;
+  answer: string | null; // null for gaps
+  sources: QuestionnaireSource[];
+  missingKeys: string[]; // mapped keys with no published row
+};
+
+export type QuestionnaireResult = {
+  id: string;
+  name: string;
+  totalQuestions: number;
+  answeredCount: number;
+  answers: QuestionnaireAnswer[]; // every question, in manifest order
+  unmapped: QuestionnaireAnswer[]; // the gaps, in manifest order
+};
+
+export type QuestionnaireFormat = 'csv' | 'json';
+
+// ---------- manifest loading ----------
+
+const QUESTIONNAIRE_FILE_PATTERN = /^([a-z0-9][a-z0-9-]*)\.(csv|json)$/;
+
+const QUESTIONNAIRE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+let manifestPromise: Promise<QuestionnaireManifest> | null = null; // the file only changes with a deploy
+
+function getQuestionnairesPath(): string {
+  const here = path.dirname(fileURLToPath(import.meta.url));
+  return path.resolve(here, '../db/data/questionnaires.json'); // lives next to taxonomy.json
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+export function assertValidQuestionnaireManifest(
+  manifest: unknown,
+  sourceLabel = 'questionnaires.json'
+): asserts manifest is QuestionnaireManifest {
+  const candidate = manifest as Partial<QuestionnaireManifest> | null;
+
+  if (!candidate || typeof candidate.version !== 'number') {
+    throw new Error(
+      `QUESTIONNAIRE_ERROR: ${sourceLabel} is missing a valid numeric version.`
+    );
+  }
+  if (!Array.isArray(candidate.questionnaires)) {
+    throw new Error(
+      `QUESTIONNAIRE_ERROR: ${sourceLabel} must list questionnaires.`
+    );
+  }
+
+  const ids = new Set<string>();
+  for (const questionnaire of candidate.questionnaires) {
+    if (!QUESTIONNAIRE_ID_PATTERN.test(String(questionnaire?.id))) {
+      throw new Error(
+        `QUESTIONNAIRE_ERROR: ${sourceLabel} questionnaire ids must be lowercase slugs. Received "${String(questionnaire?.id)}".`
+      );
+    }
+    if (ids.has(questionnaire.id)) {
+      throw new Error(
+        `QUESTIONNAIRE_ERROR: ${sourceLabel} lists questionnaire "${questionnaire.id}" twice.`
+      );
+    }
+    ids.add(questionnaire.id);
+
+    const questionIds = new Set<string>();
+    for (const question of questionnaire.questions ?? []) {
+      const valid =
+        typeof question?.id === 'string' &&
+        typeof question.domain === 'string' &&
+        typeof question.question === 'string' &&
+        isStringArray(question.controls) &&
+        isStringArray(question.faqs);
+
+      if (!valid || questionIds.has(question.id)) {
+        throw new Error(
+          `QUESTIONNAIRE_ERROR: ${sourceLabel} "${questionnaire.id}" has an invalid or duplicate question "${String(question?.id)}".`
+        );
+      }
+      questionIds.add(question.id);
+    }
+  }
+}
+
+export async function readQuestionnaireManifestFile(
+  absolutePath: string = getQuestionnairesPath()
+): Promise<QuestionnaireManifest> {
+  const raw = await fs.readFile(absolutePath, 'utf8').catch((err: unknown) => {
+    throw new Error(
+      `QUESTIONNAIRE_ERROR: missing questionnaires.json at ${absolutePath}\n${String(err)}`
+    );
+  });
+
+  const parsed = JSON.parse(raw) as unknown;
+  assertValidQuestionnaireManifest(parsed);
+  return parsed;
+}
+
+function getQuestionnaireManifest(): Promise<QuestionnaireManifest> {
+  manifestPromise ??= readQuestionnaireManifestFile().catch(error => {
+    manifestPromise = null; // a bad file should not poison the process after it is fixed
+    throw error;
+  });
+  return manifestPromise;
+}
+
+// ---------- answer building ----------
+
+function indexBy<TRow>(rows: TRow[], keyOf: (row: TRow) => string) {
+  return new Map(rows.map(row => [keyOf(row), row]));
+}
+
+export function buildQuestionnaireAnswers(
+  definition: QuestionnaireDefinition,
+  controls: DbControlRow[],
+  faqs: DbFaqRow[]
+): QuestionnaireResult {
+  const controlsByKey = indexBy(controls, row => row.control_key);
+  const faqsByKey = indexBy(faqs, row => row.faq_key);
+
+  const answers = definition.questions.map((question): QuestionnaireAnswer => {
+    const matchedFaqs = question.faqs.flatMap(key => {
+      const row = faqsByKey.get(key);
+      return row ? [row] : [];
+    });
+    const matchedControls = question.controls.flatMap(key => {
+      const row = controlsByKey.get(key);
+      return row ? [row] : [];
+    });
+    const missingKeys = [
+      ...question.faqs.filter(key => !faqsByKey.has(key)),
+      ...question.controls.filter(key => !controlsByKey.has(key))
+    ]; // drafts, archived, deleted, or mistyped keys
+
+    const parts = [
+      ...matchedFaqs.map(row => row.answer),
+      ...matchedControls.map(row => `${row.title}: ${row.description}`)
+    ];
+
+    const mappedCount = question.faqs.length + question.controls.length;
+    const status: QuestionnaireAnswerStatus =
+      parts.length > 0
+        ? 'answered'
+        : mappedCount === 0
+          ? 'unmapped'
+          : 'missing_source';
+
+    return {
+      questionId: question.id,
+      domain: question.domain,
+      question: question.question,
+      status,
+      answer: parts.length > 0 ? parts.join('\n\n') : null,
+      sources: [
+        ...matchedFaqs.map(row => ({
+          kind: 'faq' as const,
+          key: row.faq_key,
+          title: row.question,
+          sourceUrl: null
+        })),
+        ...matchedControls.map(row => ({
+          kind: 'control' as const,
+          key: row.control_key,
+          title: row.title,
+          sourceUrl: row.source_url
+        }))
+      ],
+      missingKeys
+    };
+  });
+
+  const unmapped = answers.filter(answer => answer.status !== 'answered');
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    totalQuestions: answers.length,
+    answeredCount: answers.length - unmapped.length,
+    answers,
+    unmapped
+  };
+}
+
+// ---------- public api ----------
+
+export async function listQuestionnaires(): Promise<
+  { id: string; name: string; totalQuestions: number }[]
+> {
+  const manifest = await getQuestionnaireManifest();
+  return manifest.questionnaires.map(questionnaire => ({
+    id: questionnaire.id,
+    name: questionnaire.name,
+    totalQuestions: questionnaire.questions.length
+  }));
+}
+
+export async function getQuestionnaire(
+  id: string,
+  ctx: GraphQLContext
+): Promise<QuestionnaireResult> {
+  const manifest = await getQuestionnaireManifest();
+  const definition = manifest.questionnaires.find(
+    questionnaire => questionnaire.id === id.trim().toLowerCase()
+  );
+
+  if (!definition) {
+    throw new Error(
+      `NOT_FOUND_ERROR: unknown questionnaire "${id}". Available: ${manifest.questionnaires.map(questionnaire => questionnaire.id).join(', ')}`
+    );
+  }
+
+  const controls: DbControlRow[] = [];
+  const faqs: DbFaqRow[] = [];
+  for await (const rows of readAllControlRows({}, ctx)) controls.push(...rows);
+  for await (const rows of readAllFaqRows({}, ctx)) faqs.push(...rows);
+
+  const result = buildQuestionnaireAnswers(definition, controls, faqs);
+
+  console.log(
+    `[questionnaire]  requestId = ${ctx.requestId}  id = ${result.id}  answered = ${result.answeredCount}/${result.totalQuestions}`
+  );
+
+  return result;
+}
+
+// ---------- export formatting ----------
+
+export function parseQuestionnaireFile(file: string): {
+  id: string;
+  format: QuestionnaireFormat;
+} {
+  const match = QUESTIONNAIRE_FILE_PATTERN.exec(file.toLowerCase());
+  if (!match) {
+    throw new Error(
+      'VALIDATION_ERROR: questionnaire export must be <id>.csv or <id>.json'
+    );
+  }
+  return { id: match[1] ?? '', format: match[2] as QuestionnaireFormat };
+}
+
+export function getQuestionnaireFileName(
+  id: string,
+  format: QuestionnaireFormat
+): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `trust-center-questionnaire-${id}-${date}.${format}`;
+}
+
+export function formatQuestionnaire(
+  result: QuestionnaireResult,
+  format: QuestionnaireFormat
+): string {
+  if (format === 'json') {
+    return `${JSON.stringify(
+      {
+        questionnaire: { id: result.id, name: result.name },
+        totalQuestions: result.totalQuestions,
+        answeredCount: result.answeredCount,
+        answers: result.answers,
+        unmapped: result.unmapped.map(answer => answer.questionId)
+      },
+      null,
+      2
+    )}\n`;
+  }
+
+  const header = formatCsvRow([
+    'question_id',
+    'domain',
+    'question',
+    'status',
+    'answer',
+    'sources',
+    'source_urls',
+    'missing_keys'
+  ]);
+
+  const rows = result.answers.map(answer =>
+    formatCsvRow([
+      answer.questionId,
+      answer.domain,
+      answer.question,
+      answer.status,
+      answer.answer ?? '',
+      answer.sources.map(source => source.key).join('; '),
+      answer.sources
+        .flatMap(source => (source.sourceUrl ? [source.sourceUrl] : []))
+        .join('; '),
+      answer.missingKeys.join('; ')
+    ])
+  );
+
+  return CSV_BOM + header + rows.join('');
+}
@@ -0,0 +1,487 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> printable trust report (published controls + faqs + resource links -> pdf)
+
+  - reads every published row through the export page readers (same service read path, cache, and seed fallback)
+  - groups rows by section, then category, in first-seen order (the order aon-control-card renders)
+  - cover page with the generation timestamp + counts, then a linked table of contents, then the chapters
+  - resource documents + external links come from resources-shared.ts, the same rows the resources page renders
+  - nda rows never reach the pdf (the export readers drop locked rows); nda documents are labelled as such
+  - layout runs in two passes: content first (records toc page numbers), then the reserved toc pages + footers
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { GraphQLContext } from '../graphql/context'; // request-scoped deps (db + memo + cache + auth)
+import type { DbControlRow } from './controlsService'; // controls row shape
+import type { DbFaqRow } from './faqsService'; // faqs row shape
+import { readAllControlRows, readAllFaqRows } from './exportService'; // page-by-page published reads
+import {
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  addPageLink,
+  addPdfPage,
+  addUriLink,
+  createPdfDocument,
+  drawLine,
+  drawText,
+  measureText,
+  renderPdf,
+  wrapText,
+  type PdfColor,
+  type PdfDocument,
+  type PdfFont,
+  type PdfPage
+} from './pdf'; // dependency-free pdf writer
+import { resourceDocuments, resourceLinks } from '../../resources-shared'; // resources page rows
+
+// ---------- shapes ----------
+
+export type TrustReportData = {
+  generatedAt: Date;
+  controls: DbControlRow[];
+  faqs: DbFaqRow[];
+};
+
+type ReportItem = {
+  title: string; // control title / faq question
+  body: string; // control description / faq answer
+  meta: string; // subcategory + tags line ('' when empty)
+};
+
+type ReportCategory = { name: string; items: ReportItem[] };
+
+type ReportSection = { name: string; categories: ReportCategory[] };
+
+type TocEntry = {
+  title: string;
+  level: 0 | 1 | 2; // chapter, section, category
+  pageIndex: number;
+  top: number; // y of the heading, for the link destination
+};
+
+type Layout = {
+  doc: PdfDocument;
+  page: PdfPage;
+  pageIndex: number;
+  y: number; // next baseline
+  toc: TocEntry[];
+};
+
+// ---------- layout config ----------
+
+const REPORT_TITLE = 'Trust Center Report';
+
+const MARGIN_X = 56;
+const CONTENT_TOP = PDF_PAGE_HEIGHT - 64;
+const CONTENT_BOTTOM = 64; // footer sits below this line
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN_X * 2;
+
+const TOC_LINE_HEIGHT = 16;
+const TOC_LINES_PER_PAGE = 36; // fits below the "Contents" heading
+
+const INK: PdfColor = [0.1, 0.12, 0.16];
+const ACCENT: PdfColor = [0.05, 0.22, 0.45];
+const MUTED: PdfColor = [0.42, 0.44, 0.48];
+const RULE: PdfColor = [0.8, 0.81, 0.84];
+
+const HEADING_STYLES: Record<TocEntry['level'], { size: number; gap: number }> =
+  {
+    0: { size: 20, gap: 14 },
+    1: { size: 14, gap: 10 },
+    2: { size: 11.5, gap: 6 }
+  };
+
+// ---------- data ----------
+
+export async function loadTrustReportData(
+  ctx: GraphQLContext,
+  generatedAt: Date = new Date()
+): Promise<TrustReportData> {
+  const controls: DbControlRow[] = [];
+  const faqs: DbFaqRow[] = [];
+
+  for await (const rows of readAllControlRows({}, ctx)) controls.push(...rows);
+  for await (const rows of readAllFaqRows({}, ctx)) faqs.push(...rows);
+
+  return { generatedAt, controls, faqs };
+}
+
+function formatMeta(subcategory: string | null, tags: string[] | null): string {
+  const parts: string[] = [];
+  if (subcategory) parts.push(subcategory);
+  if (tags?.length) parts.push(`Tags: ${tags.join(', ')}`);
+  return parts.join('  •  ');
+}
+
+function groupItems<TRow extends { section: string; category: string }>(
+  rows: TRow[],
+  toItem: (row: TRow) => ReportItem
+): ReportSection[] {
+  const sections = new Map<string, Map<string, ReportItem[]>>(); // insertion order = first-seen order
+
+  for (const row of rows) {
+    const sectionName = row.section.trim() || 'General';
+    const categoryName = row.category.trim() || 'General'; // same fallback as the card grouping
+    const categories = sections.get(sectionName) ?? new Map();
+    const items = categories.get(categoryName) ?? [];
+
+    items.push(toItem(row));
+    categories.set(categoryName, items);
+    sections.set(sectionName, categories);
+  }
+
+  return [...sections].map(([name, categories]) => ({
+    name,
+    categories: [...categories].map(([categoryName, items]) => ({
+      name: categoryName,
+      items
+    }))
+  }));
+}
+
+function formatTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+export function getTrustReportFileName(generatedAt: Date): string {
+  return `trust-center-report-${generatedAt.toISOString().slice(0, 10)}.pdf`;
+}
+
+// ---------- flow helpers ----------
+
+function startPage(layout: Layout): void {
+  layout.page = addPdfPage(layout.doc);
+  layout.pageIndex = layout.doc.pages.length - 1;
+  layout.y = CONTENT_TOP;
+}
+
+function ensureSpace(layout: Layout, height: number): void {
+  if (layout.y - height < CONTENT_BOTTOM) startPage(layout);
+}
+
+function writeLines(
+  layout: Layout,
+  text: string,
+  style: { font: PdfFont; size: number; color: PdfColor; indent?: number }
+): void {
+  const indent = style.indent ?? 0;
+  const leading = style.size * 1.4;
+
+  for (const line of wrapText(
+    text,
+    style.font,
+    style.size,
+    CONTENT_WIDTH - indent
+  )) {
+    ensureSpace(layout, leading);
+    layout.y -= leading;
+    drawText(layout.page, line, {
+      x: MARGIN_X + indent,
+      y: layout.y,
+      size: style.size,
+      font: style.font,
+      color: style.color
+    });
+  }
+}
+
+function writeHeading(
+  layout: Layout,
+  title: string,
+  level: TocEntry['level']
+): void {
+  const { size, gap } = HEADING_STYLES[level];
+
+  ensureSpace(layout, gap + size * 1.4 + 48); // keep the heading with the first lines below it
+  layout.y -= gap;
+  layout.toc.push({ title, level, pageIndex: layout.pageIndex, top: layout.y });
+  writeLines(layout, title, {
+    font: 'bold',
+    size,
+    color: level === 2 ? INK : ACCENT
+  });
+
+  if (level === 0) {
+    layout.y -= 8;
+    drawLine(
+      layout.page,
+      [MARGIN_X, layout.y],
+      [MARGIN_X + CONTENT_WIDTH, layout.y],
+      { width: 1.2, color: ACCENT }
+    );
+  }
+}
+
+function writeItem(layout: Layout, item: ReportItem): void {
+  ensureSpace(layout, 44); // title + first body line stay together
+  layout.y -= 6;
+  writeLines(layout, item.title, { font: 'bold', size: 10.5, color: INK });
+  writeLines(layout, item.body, { font: 'regular', size: 9.5, color: INK });
+  if (item.meta) {
+    writeLines(layout, item.meta, { font: 'italic', size: 8, color: MUTED });
+  }
+}
+
+function writeChapter(
+  layout: Layout,
+  title: string,
+  intro: string,
+  sections: ReportSection[]
+): void {
+  startPage(layout);
+  writeHeading(layout, title, 0);
+  layout.y -= 4;
+  writeLines(layout, intro, { font: 'regular', size: 10, color: MUTED });
+
+  for (const section of sections) {
+    writeHeading(layout, section.name, 1);
+    for (const category of section.categories) {
+      writeHeading(layout, category.name, 2);
+      for (const item of category.items) writeItem(layout, item);
+    }
+  }
+}
+
+function writeResources(layout: Layout): void {
+  startPage(layout);
+  writeHeading(layout, 'Resources', 0);
+  layout.y -= 4;
+  writeLines(
+    layout,
+    'Documents are available from the Resources page of the Trust Center. External links open in your browser.',
+    { font: 'regular', size: 10, color: MUTED }
+  );
+
+  layout.y -= 10;
+  writeLines(layout, 'Documents', { font: 'bold', size: 12, color: ACCENT });
+  for (const doc of resourceDocuments) {
+    const label =
+      doc.visibility === 'nda'
+        ? `${doc.label} (available under NDA)`
+        : doc.label; // the report is a public artifact
+    writeLines(layout, `•  ${label}`, {
+      font: 'regular',
+      size: 10,
+      color: INK,
+      indent: 8
+    });
+  }
+
+  layout.y -= 10;
+  writeLines(layout, 'External links', {
+    font: 'bold',
+    size: 12,
+    color: ACCENT
+  });
+  for (const link of resourceLinks) {
+    writeLines(layout, `•  ${link.label}`, {
+      font: 'regular',
+      size: 10,
+      color: INK,
+      indent: 8
+    });
+    writeLines(layout, link.href, {
+      font: 'regular',
+      size: 9,
+      color: ACCENT,
+      indent: 20
+    });
+    addUriLink(
+      layout.page,
+      {
+        x: MARGIN_X + 20,
+        y: layout.y - 3,
+        width: measureText(link.href, 'regular', 9),
+        height: 12
+      },
+      link.href
+    );
+  }
+}
+
+// ---------- fixed pages ----------
+
+function writeCover(
+  page: PdfPage,
+  data: TrustReportData,
+  sectionCount: number
+): void {
+  drawLine(page, [MARGIN_X, 560], [MARGIN_X + 120, 560], {
+    width: 4,
+    color: ACCENT
+  });
+  drawText(page, REPORT_TITLE, {
+    x: MARGIN_X,
+    y: 520,
+    size: 30,
+    font: 'bold',
+    color: INK
+  });
+  drawText(
+    page,
+    'Security controls, frequently asked questions, and resources.',
+    { x: MARGIN_X, y: 492, size: 13, color: MUTED }
+  );
+
+  const facts = [
+    `Generated ${formatTimestamp(data.generatedAt)}`,
+    `${data.controls.length} published controls across ${sectionCount} sections`,
+    `${data.faqs.length} published FAQs`
+  ];
+  facts.forEach((fact, index) => {
+    drawText(page, fact, {
+      x: MARGIN_X,
+      y: 440 - index * 18,
+      size: 11,
+      color: INK
+    });
+  });
+
+  drawText(
+    page,
+    'This report reflects published content at the time it was generated.',
+    { x: MARGIN_X, y: 96, size: 9, font: 'italic', color: MUTED }
+  );
+}
+
+function writeToc(doc: PdfDocument, toc: TocEntry[]): void {
+  toc.forEach((entry, index) => {
+    const pageIndex = 1 + Math.floor(index / TOC_LINES_PER_PAGE); // toc pages follow the cover
+    const page = doc.pages[pageIndex];
+    if (!page) return;
+
+    const row = index % TOC_LINES_PER_PAGE;
+    if (row === 0 && pageIndex === 1) {
+      drawText(page, 'Contents', {
+        x: MARGIN_X,
+        y: CONTENT_TOP - 20,
+        size: 20,
+        font: 'bold',
+        color: ACCENT
+      });
+    }
+
+    const y = CONTENT_TOP - 60 - row * TOC_LINE_HEIGHT;
+    const x = MARGIN_X + entry.level * 16;
+    const font: PdfFont = entry.level === 0 ? 'bold' : 'regular';
+    const size = entry.level === 0 ? 11 : 10;
+    const pageLabel = String(entry.pageIndex + 1);
+    const labelWidth = measureText(pageLabel, font, size);
+    const right = MARGIN_X + CONTENT_WIDTH;
+    const maxTitleWidth = right - x - labelWidth - 24;
+    const title = wrapText(entry.title, font, size, maxTitleWidth)[0] ?? '';
+    const titleEnd = x + measureText(title, font, size) + 4;
+
+    drawText(page, title, { x, y, size, font, color: INK });
+    drawText(page, pageLabel, {
+      x: right - labelWidth,
+      y,
+      size,
+      font,
+      color: INK
+    });
+    drawLine(page, [titleEnd, y], [right - labelWidth - 4, y], {
+      width: 0.4,
+      color: RULE
+    }); // leader rule between title and page number
+    addPageLink(
+      page,
+      { x, y: y - 4, width: right - x, height: TOC_LINE_HEIGHT },
+      entry.pageIndex,
+      entry.top
+    ); // jumps to the top of the heading
+  });
+}
+
+function writeFooters(doc: PdfDocument, generatedAt: Date): void {
+  const total = doc.pages.length;
+
+  doc.pages.forEach((page, index) => {
+    if (index === 0) return; // cover stays clean
+
+    const label = `Page ${index + 1} of ${total}`;
+    drawLine(
+      page,
+      [MARGIN_X, CONTENT_BOTTOM - 16],
+      [MARGIN_X + CONTENT_WIDTH, CONTENT_BOTTOM - 16],
+      { width: 0.5, color: RULE }
+    );
+    drawText(
+      page,
+      `${REPORT_TITLE}  •  generated ${formatTimestamp(generatedAt)}`,
+      { x: MARGIN_X, y: CONTENT_BOTTOM - 30, size: 8, color: MUTED }
+    );
+    drawText(page, label, {
+      x: MARGIN_X + CONTENT_WIDTH - measureText(label, 'regular', 8),
+      y: CONTENT_BOTTOM - 30,
+      size: 8,
+      color: MUTED
+    });
+  });
+}
+
+// ---------- public api ----------
+
+export function buildTrustReport(data: TrustReportData): Buffer {
+  const controlSections = groupItems(data.controls, row => ({
+    title: row.title,
+    body: row.description,
+    meta: formatMeta(row.subcategory, row.tags)
+  }));
+  const faqSections = groupItems(data.faqs, row => ({
+    title: row.question,
+    body: row.answer,
+    meta: formatMeta(row.subcategory, row.tags)
+  }));
+
+  const tocLength =
+    3 + // controls, faqs, resources chapters
+    [...controlSections, ...faqSections].reduce(
+      (count, section) => count + 1 + section.categories.length,
+      0
+    );
+  const tocPages = Math.max(1, Math.ceil(tocLength / TOC_LINES_PER_PAGE)); // reserved before content so page numbers are final
+
+  const doc = createPdfDocument(REPORT_TITLE, data.generatedAt);
+  const cover = addPdfPage(doc);
+  for (let index = 0; index < tocPages; index += 1) addPdfPage(doc);
+
+  const layout: Layout = {
+    doc,
+    page: cover,
+    pageIndex: 0,
+    y: CONTENT_TOP,
+    toc: []
+  };
+
+  writeChapter(
+    layout,
+    'Controls',
+    `${data.controls.length} published controls, grouped by section and category.`,
+    controlSections
+  );
+  writeChapter(
+    layout,
+    'FAQs',
+    `${data.faqs.length} published answers to common security questions.`,
+    faqSections
+  );
+  writeResources(layout);
+
+  writeCover(cover, data, controlSections.length);
+  writeToc(doc, layout.toc);
+  writeFooters(doc, data.generatedAt);
+
+  return renderPdf(doc);
+}
+
+export async function renderTrustReport(
+  ctx: GraphQLContext
+): Promise<{ fileName: string; pdf: Buffer }> {
+  const data = await loadTrustReportData(ctx);
+  const pdf = buildTrustReport(data);
+
+  console.log(
+    `[report]  requestId = ${ctx.requestId}  controls = ${data.controls.length}  faqs = ${data.faqs.length}  bytes = ${pdf.length}`
+  );
+
+  return { fileName: getTrustReportFileName(data.generatedAt), pdf };
+}
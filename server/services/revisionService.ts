@@ -0,0 +1,218 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> revision service (immutable snapshots of every control + faq write)
+
+  - inserts one content_revisions row through the caller's transaction (same commit as the write)
+  - numbers revisions per record so admins can say "revision 3" instead of quoting uuids
+  - reads a record's revisions newest first for the admin-only Control.revisions / Faq.revisions fields
+  - loads one revision for adminRevertControl / adminRevertFaq
+  - rebuilds point-in-time content for asOf reads (latest revision per record at or before asOf)
+  - revision reads are never cached or served from seed fallback (history must be exact)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { DbQueryAdapter, GraphQLContext } from '../graphql/context'; // transaction client + request-scoped deps
+import type { AuditAction, AuditEntity } from './auditService'; // revisions share the audit vocabulary
+import { memoizePromise } from './memo'; // one revisions query per record per request
+import { clampFirst, toIso } from './pagination'; // shared page-size clamp + timestamp normalization
+import { normalizeId, type ContentStatus } from './validation'; // shared readable id validation + workflow values
+
+// ---------- args + row shapes ----------
+
+export type RevisionInput = {
+  actor: string; // same value the write stored in created_by / updated_by
+  requestId: string; // graphql request id for log correlation
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  row: Record<string, unknown>; // db row after the write
+  revertedFrom?: string; // source revision id when the write was a revert
+};
+
+export type DbRevisionRow<TSnapshot = Record<string, unknown>> = {
+  id: string; // uuid primary key
+  entity: AuditEntity;
+  entity_id: string;
+  revision: number; // per-record sequence number
+  action: AuditAction;
+  snapshot: TSnapshot; // jsonb comes back parsed from pg
+  reverted_from: string | null;
+  actor: string;
+  request_id: string;
+  created_at: string | Date; // timestamptz
+};
+
+// ---------- snapshot helpers ----------
+
+// per-request fields that never belong in a stored snapshot
+const TRANSIENT_ROW_FIELDS = ['rank', 'highlights'];
+
+function buildSnapshot(row: Record<string, unknown>): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+
+  for (const [column, value] of Object.entries(row)) {
+    if (TRANSIENT_ROW_FIELDS.includes(column)) continue;
+    snapshot[column] = value instanceof Date ? value.toISOString() : value; // timestamps stay iso strings inside jsonb
+  }
+
+  return snapshot;
+}
+
+// ---------- write path ----------
+
+export async function recordRevision(
+  tx: DbQueryAdapter,
+  input: RevisionInput
+): Promise<void> {
+  await tx.query(
+    `
+      insert into public.content_revisions (
+        entity,
+        entity_id,
+        revision,
+        action,
+        snapshot,
+        reverted_from,
+        actor,
+        request_id
+      )
+      select
+        $1,
+        $2::uuid,
+        coalesce(max(revision), 0) + 1,
+        $3,
+        $4::jsonb,
+        $5::uuid,
+        $6,
+        $7
+      from public.content_revisions
+      where entity = $1
+        and entity_id = $2::uuid
+    `,
+    [
+      input.entity,
+      input.entityId,
+      input.action,
+      JSON.stringify(buildSnapshot(input.row)),
+      input.revertedFrom ?? null,
+      input.actor,
+      input.requestId
+    ]
+  ); // the write already holds the record's row lock, so next-revision numbering cannot race
+}
+
+// ---------- read path ----------
+
+export async function getRevisions<TSnapshot>(
+  entity: AuditEntity,
+  entityId: string,
+  first: number,
+  ctx: GraphQLContext
+): Promise<DbRevisionRow<TSnapshot>[]> {
+  const firstClamped = clampFirst(first); // enforce safe page size
+  const memoKey = `revisionService:getRevisions:${entity}:${entityId}:${firstClamped}`; // the same record can be selected more than once per request
+
+  return memoizePromise(ctx.memo, memoKey, async () => {
+    const res = await ctx.db.query(
+      `
+        select
+          id,
+          entity,
+          entity_id,
+          revision,
+          action,
+          snapshot,
+          reverted_from,
+          actor,
+          request_id,
+          created_at
+        from public.content_revisions
+        where entity = $1
+          and entity_id = $2::uuid
+        order by revision desc
+        limit $3
+      `,
+      [entity, entityId, firstClamped]
+    );
+
+    return (res.rows ?? []) as DbRevisionRow<TSnapshot>[];
+  });
+}
+
+export async function getRevisionForRevert<TSnapshot>(
+  entity: AuditEntity,
+  entityId: string,
+  revisionId: string,
+  db: DbQueryAdapter
+): Promise<DbRevisionRow<TSnapshot>> {
+  const res = await db.query(
+    `
+      select
+        id,
+        entity,
+        entity_id,
+        revision,
+        action,
+        snapshot,
+        reverted_from,
+        actor,
+        request_id,
+        created_at
+      from public.content_revisions
+      where id = $1::uuid
+        and entity = $2
+        and entity_id = $3::uuid
+      limit 1
+    `,
+    [normalizeId(revisionId), entity, entityId]
+  ); // scoped to the record so a revision id from another control/faq never applies
+
+  const row = res.rows?.[0] as DbRevisionRow<TSnapshot> | undefined;
+  if (!row) {
+    throw new Error(`NOT_FOUND_ERROR: ${entity} revision not found`);
+  }
+
+  return row;
+}
+
+// ---------- point-in-time reads ----------
+
+export type SnapshotRow = {
+  id: string;
+  updated_at: string | Date;
+  deleted_at?: string | Date | null;
+  status?: ContentStatus;
+}; // the snapshot fields asOf visibility + ordering depend on
+
+function compareSnapshotsDesc(a: SnapshotRow, b: SnapshotRow): number {
+  const aTime = toIso(a.updated_at);
+  const bTime = toIso(b.updated_at);
+
+  if (aTime !== bTime) return aTime > bTime ? -1 : 1; // newest first, same as the live sql order
+  return a.id === b.id ? 0 : a.id > b.id ? -1 : 1; // id tie-breaker keeps cursor boundaries deterministic
+}
+
+export async function getSnapshotsAsOf<TSnapshot extends SnapshotRow>(
+  entity: AuditEntity,
+  asOf: string,
+  db: DbQueryAdapter,
+  visibility: { includeDeleted: boolean; status: ContentStatus }
+): Promise<TSnapshot[]> {
+  const res = await db.query(
+    `
+      select distinct on (entity_id) snapshot
+      from public.content_revisions
+      where entity = $1
+        and created_at <= $2::timestamptz
+      order by entity_id, revision desc
+    `,
+    [entity, asOf]
+  ); // latest revision per record that existed at asOf
+
+  return ((res.rows ?? []) as Array<{ snapshot: TSnapshot }>)
+    .map(row => row.snapshot)
+    .filter(
+      row =>
+        (visibility.includeDeleted || !row.deleted_at) &&
+        (row.status ?? 'published') === visibility.status
+    ) // same deleted + status rules as live reads, applied to the historical row
+    .sort(compareSnapshotsDesc); // pageFromRows expects (updated_at, id) desc order
+}
@@ -5,13 +5,19 @@
   - reuses existing entity read services instead of inventing a second search engine
   - validates + normalizes the overview search term once at the service boundary
   - dedupes duplicate overview-search calls within one graphql request
+  - passes an optional asOf through to both entity reads (one snapshot time for the whole overview)
   - intentionally stays request-scoped only for now because underlying entity reads already own shared cross-request caching + invalidation domains
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import type { GraphQLContext } from '../graphql/context'; // request-scoped deps (db + memo + cache + auth)
 import { buildOverviewSearchKey } from '../cache/keys'; // deterministic grouped-search key builder for request memo identity
 import { memoizePromise } from './memo'; // request-scoped promise dedupe helper
-import { assertOverviewSearchInput, clampFirst } from './pagination'; // shared search contract + page size safety
+import {
+  assertOverviewSearchInput,
+  clampFirst,
+  type SearchMode
+} from './pagination'; // shared search contract + page size safety
+import { normalizeAsOf } from './validation'; // shared point-in-time timestamp rules
 import { getControlsPage, type ControlsPage } from './controlsService'; // existing controls read path stays the single source of truth
 import { getFaqsPage, type FaqsPage } from './faqsService'; // existing faqs read path stays the single source of truth
 
@@ -20,10 +26,13 @@ import { getFaqsPage, type FaqsPage } from './faqsService'; // existing faqs rea
 export type OverviewSearchArgs = {
   search: string; // required overview search term from graphql
   firstPerKind?: number; // optional per-entity page size cap
+  searchMode?: SearchMode; // SUBSTRING (default) or FULLTEXT, applied to both buckets
+  asOf?: string | null; // optional point-in-time read, applied to both buckets
 };
 
 export type OverviewSearchPage = {
   search: string; // normalized search term actually used by both entity reads
+  searchMode: SearchMode; // search mode actually used by both entity reads
   controlsPage: ControlsPage; // grouped controls bucket returned by the existing controls service
   faqsPage: FaqsPage; // grouped faqs bucket returned by the existing faqs service
   totalCount: number; // sum of controls + faqs total counts
@@ -34,11 +43,20 @@ export type OverviewSearchPage = {
 function normalizeOverviewArgs(args: OverviewSearchArgs): {
   search: string;
   firstPerKind: number;
+  searchMode: SearchMode;
+  asOf?: string;
 } {
   const search = assertOverviewSearchInput(args.search); // freeze shared overview-search rules once
   const firstPerKind = clampFirst(args.firstPerKind ?? 5); // clamp once so grouped reads and memo identity stay aligned
+  const searchMode = args.searchMode ?? 'SUBSTRING'; // omitted mode keeps the original substring contract
+  const asOf = normalizeAsOf(args.asOf); // canonical iso string so both buckets + memo identity agree
 
-  return { search, firstPerKind }; // normalized grouped-search inputs
+  return {
+    search,
+    firstPerKind,
+    searchMode,
+    ...(asOf !== undefined ? { asOf } : {})
+  }; // normalized grouped-search inputs
 }
 
 // ---------- main read path ----------
@@ -55,14 +73,18 @@ export async function getOverviewSearch(
       getControlsPage(
         {
           first: normalized.firstPerKind,
-          search: normalized.search
+          search: normalized.search,
+          searchMode: normalized.searchMode,
+          ...(normalized.asOf !== undefined ? { asOf: normalized.asOf } : {})
         },
         ctx
       ), // controls bucket reuses the existing controls read path with shared db/cache/fallback behavior
       getFaqsPage(
         {
           first: normalized.firstPerKind,
-          search: normalized.search
+          search: normalized.search,
+          searchMode: normalized.searchMode,
+          ...(normalized.asOf !== undefined ? { asOf: normalized.asOf } : {})
         },
         ctx
       ) // faqs bucket reuses the existing faqs read path with shared db/cache/fallback behavior
@@ -70,6 +92,7 @@ export async function getOverviewSearch(
 
     return {
       search: normalized.search, // echo the normalized search term so graphql can return what the backend actually used
+      searchMode: normalized.searchMode, // echo the mode so clients can tell ranked from unranked buckets
       controlsPage, // grouped controls bucket stays in raw service shape until the resolver maps it
       faqsPage, // grouped faqs bucket stays in raw service shape until the resolver maps it
       totalCount: controlsPage.totalCount + faqsPage.totalCount // grouped total remains deterministic and reviewer-friendly
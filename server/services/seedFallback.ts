@@ -9,6 +9,9 @@
   - respects ALLOW_SEED_FALLBACK so demo mode is explicit
   - logs fallback usage in a request-aware structured format
   - keeps fallback data outside the shared db read cache path
+  - shares the parsed taxonomy manifest with the taxonomy query
+  - attaches framework mappings from frameworks.json to seed controls (badges + framework filter)
+  - seed controls carry an empty evidence list so Control.evidence never needs the db in fallback mode
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import fs from 'node:fs/promises'; // read local seed json + taxonomy files when db is unavailable
@@ -23,6 +26,11 @@ import {
   resolveTaxonomy,
   type TaxonomyManifest
 } from '../taxonomy'; // reuse the shared taxonomy/search contract so db + fallback do not drift
+import {
+  getSeedFrameworksByControlKey,
+  type ControlFrameworkMapping
+} from './frameworkService'; // frameworks.json mappings keyed by controlKey
+import type { DbControlEvidenceRow } from './evidenceService'; // evidence row contract (seed content has none)
 
 // ---------- shared row shapes ----------
 
@@ -38,6 +46,8 @@ export type SeedControlRow = {
   source_url: string | null; // optional source url
   search_text: string; // taxonomy-aware fallback search text for parity with db seed normalization
   updated_at: string; // deterministic iso timestamp for stable cursor behavior
+  frameworks: ControlFrameworkMapping[]; // frameworks.json mappings (db reads load them from control_frameworks)
+  evidence: DbControlEvidenceRow[]; // always empty (uploaded files only exist alongside a db)
 };
 
 export type SeedFaqRow = {
@@ -204,7 +214,7 @@ let cachedTaxonomyManifest: TaxonomyManifest | null = null; // parsed once per p
 let cachedSeedControls: SeedControlRow[] | null = null; // parsed once per process so repeated fallback reads avoid disk work
 let cachedSeedFaqs: SeedFaqRow[] | null = null; // parsed once per process so repeated fallback reads avoid disk work
 
-async function readTaxonomyManifest(): Promise<TaxonomyManifest> {
+export async function getSeedTaxonomyManifest(): Promise<TaxonomyManifest> {
   if (cachedTaxonomyManifest) return cachedTaxonomyManifest; // reuse parsed manifest within the current node process
 
   const manifest = await readTaxonomyManifestFile(
@@ -228,9 +238,10 @@ export async function getSeedControlsRows(): Promise<SeedControlRow[]> {
   if (cachedSeedControls) return cachedSeedControls; // reuse parsed seed rows within the current node process
 
   const controlsPath = path.join(getDataDir(), 'controls.json'); // concrete controls seed file path
-  const [parsed, taxonomy] = await Promise.all([
+  const [parsed, taxonomy, frameworksByKey] = await Promise.all([
     readJsonFile<SeedControlJson>(controlsPath), // read the normalized controls seed payload
-    readTaxonomyManifest() // read the shared taxonomy manifest once for contract validation
+    getSeedTaxonomyManifest(), // read the shared taxonomy manifest once for contract validation
+    getSeedFrameworksByControlKey() // framework badges + filter still work in fallback mode
   ]);
 
   const rows: SeedControlRow[] = (parsed.controls ?? []).map(
@@ -273,7 +284,9 @@ export async function getSeedControlsRows(): Promise<SeedControlRow[]> {
         tags,
         source_url: sourceUrl,
         search_text: searchText,
-        updated_at: updatedAt
+        updated_at: updatedAt,
+        frameworks: frameworksByKey.get(controlKey) ?? [],
+        evidence: []
       };
     }
   );
@@ -292,7 +305,7 @@ export async function getSeedFaqsRows(): Promise<SeedFaqRow[]> {
   const faqsPath = path.join(getDataDir(), 'faqs.json'); // concrete faqs seed file path
   const [parsed, taxonomy] = await Promise.all([
     readJsonFile<SeedFaqJson>(faqsPath), // read the normalized faqs seed payload
-    readTaxonomyManifest() // read the shared taxonomy manifest once for contract validation
+    getSeedTaxonomyManifest() // read the shared taxonomy manifest once for contract validation
   ]);
 
   const rows: SeedFaqRow[] = (parsed.faqs ?? []).map(
@@ -0,0 +1,1114 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR --> taxonomy service (manifest tree + live item counts)
+
+  - builds sections -> categories -> subcategories from the shared taxonomy manifest
+  - attaches per-node counts of live, published rows (same visibility as public reads)
+  - keeps manifest order so the subnav renders in the order the manifest lists it
+  - appends db values the manifest does not know yet instead of hiding their rows from the counts
+  - counts come from one grouped db query, or from seed rows when seed fallback is active
+  - db-backed trees share the entity's list cache prefix, so every write refreshes the counts
+  - the vocabulary lives in taxonomy_terms (admin-managed); taxonomy.json seeds it and backs seed fallback
+  - admin create / rename / merge / retire re-check the stored manifest with assertValidTaxonomyManifest
+  - renames + merges cascade onto controls / faqs rows in the same transaction, then invalidate
+  - the cascade needs content:publish when it would relabel a published row (same gate as editing it)
+  - json import / export keeps the taxonomy.json file format
+  - read cache keys are scoped by the request's role set (shared rbac helper)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { DbQueryAdapter, GraphQLContext } from '../graphql/context'; // request-scoped deps (db + memo + cache + auth)
+import { getAuthScopeForReadCache } from '../auth'; // read cache scope derived from the rbac role set
+import { buildTaxonomyReadCacheKey } from '../cache/keys'; // entity-scoped cache key (lives under the list prefix)
+import { invalidateControls, invalidateFaqs } from '../cache/invalidation'; // term changes clear the entity's list reads
+import { memoizePromise } from './memo'; // request-scoped promise dedupe helper
+import {
+  getSeedControlsRows,
+  getSeedFaqsRows,
+  getSeedTaxonomyManifest,
+  logSeedFallback,
+  shouldUseSeedFallback
+} from './seedFallback'; // shared manifest + fallback rows
+import { relabelControlsTaxonomy } from './controlsService'; // rename / merge cascade onto controls rows
+import { relabelFaqsTaxonomy } from './faqsService'; // rename / merge cascade onto faqs rows
+import { normalizeId, normalizeTaxonomyTermName } from './validation'; // shared id + label validation
+import {
+  assertValidTaxonomyManifest,
+  type TaxonomyEntityName,
+  type TaxonomyLabels,
+  type TaxonomyManifest,
+  type TaxonomyRelabel
+} from '../taxonomy'; // manifest contract types + validation
+
+// ---------- return shapes ----------
+
+export type TaxonomySubcategoryNode = {
+  name: string;
+  count: number;
+};
+
+export type TaxonomyCategoryNode = {
+  name: string;
+  count: number; // includes rows without a subcategory
+  subcategories: TaxonomySubcategoryNode[];
+};
+
+export type TaxonomySectionNode = {
+  name: string;
+  count: number;
+  categories: TaxonomyCategoryNode[];
+};
+
+export type TaxonomyTree = {
+  entity: TaxonomyEntityName;
+  totalCount: number;
+  sections: TaxonomySectionNode[];
+  source: 'db' | 'mock';
+};
+
+type TaxonomyCountRow = {
+  section: string;
+  category: string;
+  subcategory: string | null;
+  count: number;
+};
+
+// ---------- config ----------
+
+const TAXONOMY_READ_CACHE_TTL_SECONDS = 60; // same ttl as the list reads it summarizes
+
+const ENTITY_TABLES: Record<TaxonomyEntityName, string> = {
+  controls: 'public.controls',
+  faqs: 'public.faqs'
+}; // fixed table names only (never interpolate caller input into sql)
+
+// ---------- tree building ----------
+
+function labelKey(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase(); // taxonomy labels match case-insensitively everywhere else too
+}
+
+function findOrAdd<T extends { name: string }>(
+  nodes: T[],
+  name: string,
+  create: () => T
+): T {
+  const key = labelKey(name);
+  const existing = nodes.find(node => labelKey(node.name) === key);
+  if (existing) return existing;
+
+  const created = create();
+  nodes.push(created); // unknown labels land after the manifest entries
+  return created;
+}
+
+export function buildTaxonomyTree(
+  manifest: TaxonomyManifest,
+  entity: TaxonomyEntityName,
+  counts: TaxonomyCountRow[]
+): Omit<TaxonomyTree, 'source'> {
+  const sections: TaxonomySectionNode[] = [];
+
+  for (const [categoryName, entry] of Object.entries(
+    manifest[entity].categories
+  )) {
+    const section = findOrAdd(sections, entry.section, () => ({
+      name: entry.section,
+      count: 0,
+      categories: []
+    }));
+
+    section.categories.push({
+      name: categoryName,
+      count: 0,
+      subcategories: (entry.subcategories ?? []).map(name => ({
+        name,
+        count: 0
+      }))
+    }); // manifest nodes always show, even at zero
+  }
+
+  let totalCount = 0;
+
+  for (const row of counts) {
+    const count = Number(row.count); // pg may return bigint counts as strings
+    totalCount += count;
+
+    const section = findOrAdd(sections, row.section, () => ({
+      name: row.section,
+      count: 0,
+      categories: []
+    }));
+    section.count += count;
+
+    const category = findOrAdd(section.categories, row.category, () => ({
+      name: row.category,
+      count: 0,
+      subcategories: []
+    }));
+    category.count += count;
+
+    if (row.subcategory === null || row.subcategory.trim() === '') continue; // counted on the category only
+
+    const subcategory = findOrAdd(
+      category.subcategories,
+      row.subcategory,
+      () => ({ name: row.subcategory ?? '', count: 0 })
+    );
+    subcategory.count += count;
+  }
+
+  return { entity, totalCount, sections };
+}
+
+// ---------- count sources ----------
+
+async function getTaxonomyCountsFromDb(
+  entity: TaxonomyEntityName,
+  ctx: GraphQLContext
+): Promise<TaxonomyCountRow[]> {
+  const res = await ctx.db.query(
+    `
+      select section, category, subcategory, count(*)::int as count
+      from ${ENTITY_TABLES[entity]}
+      where deleted_at is null
+        and status = 'published'
+      group by section, category, subcategory
+      order by section, category, subcategory
+    `
+  ); // same visibility as public list reads (live + published)
+
+  return (res.rows ?? []) as TaxonomyCountRow[];
+}
+
+async function getTaxonomyCountsFromSeed(
+  entity: TaxonomyEntityName
+): Promise<TaxonomyCountRow[]> {
+  const rows =
+    entity === 'controls'
+      ? await getSeedControlsRows()
+      : await getSeedFaqsRows();
+
+  return rows.map(row => ({
+    section: row.section,
+    category: row.category,
+    subcategory: row.subcategory,
+    count: 1
+  })); // one count row per seed row; buildTaxonomyTree sums them
+}
+
+// ---------- main read path ----------
+
+async function getTaxonomyTreeWithFallback(
+  entity: TaxonomyEntityName,
+  ctx: GraphQLContext
+): Promise<TaxonomyTree> {
+  try {
+    const tree = await ctx.cache.getOrSet(
+      buildTaxonomyReadCacheKey(entity, {
+        authScope: getAuthScopeForReadCache(ctx.auth)
+      }),
+      TAXONOMY_READ_CACHE_TTL_SECONDS,
+      async () => ({
+        ...buildTaxonomyTree(
+          await getTaxonomyManifest(ctx.db),
+          entity,
+          await getTaxonomyCountsFromDb(entity, ctx)
+        ),
+        source: 'db' as const
+      })
+    );
+
+    return tree as TaxonomyTree; // cache interface is generic/unknown-friendly, so cast to service return type
+  } catch (error) {
+    if (!shouldUseSeedFallback(error)) throw error; // only known demo-safe failures should route into fallback mode
+
+    logSeedFallback({
+      requestId: ctx.requestId,
+      resolverName: 'taxonomy',
+      reason: error instanceof Error ? error.message : String(error)
+    });
+
+    return {
+      ...buildTaxonomyTree(
+        await getSeedTaxonomyManifest(), // the manifest file is the vocabulary when the db is unavailable
+        entity,
+        await getTaxonomyCountsFromSeed(entity)
+      ),
+      source: 'mock'
+    };
+  }
+}
+
+export async function getTaxonomyTree(
+  entity: TaxonomyEntityName,
+  ctx: GraphQLContext
+): Promise<TaxonomyTree> {
+  const memoKey = `taxonomyService:getTaxonomyTree:${entity}`; // the subnav + filter UI may both ask in one request
+
+  return memoizePromise(ctx.memo, memoKey, () =>
+    getTaxonomyTreeWithFallback(entity, ctx)
+  );
+}
+
+// ---------- admin-managed terms ----------
+
+export type TaxonomyKind = 'section' | 'category' | 'subcategory';
+
+export type DbTaxonomyTermRow = {
+  id: string; // uuid primary key
+  entity: TaxonomyEntityName;
+  kind: TaxonomyKind;
+  name: string; // label written onto controls / faqs rows
+  parent_id: string | null; // section (categories) or category (subcategories)
+  is_default: boolean; // defaultSubcategory flag
+  position: number; // sibling order
+  retired_at: string | Date | null;
+};
+
+export type CreateTaxonomyTermInput = {
+  entity: TaxonomyEntityName;
+  kind: TaxonomyKind;
+  name: string;
+  parentId?: string | null;
+  isDefault?: boolean | null;
+};
+
+export type TaxonomyChangeResult = {
+  term: DbTaxonomyTermRow;
+  affectedItems: number; // controls / faqs rows relabeled by the cascade
+};
+
+export type TaxonomyImportResult = {
+  created: number;
+  updated: number;
+  affectedItems: number;
+};
+
+type TaxonomyWriteMeta = {
+  actor: string;
+  requestId: string;
+  auth: GraphQLContext['auth'] | null; // gates the cascade onto published rows; null for the seed
+};
+
+const TAXONOMY_FIELDS = ['section', 'category', 'subcategory']; // same field contract as taxonomy.json
+
+const PARENT_KIND: Record<TaxonomyKind, TaxonomyKind | null> = {
+  section: null,
+  category: 'section',
+  subcategory: 'category'
+};
+
+const TERM_COLUMNS = `
+  id,
+  entity,
+  kind,
+  name,
+  parent_id,
+  is_default,
+  position,
+  retired_at
+`; // one column list for every term read + returning clause
+
+function getWriteActor(ctx: GraphQLContext): string {
+  return ctx.auth.userEmail ?? 'local-dev'; // same actor value the content writes store
+}
+
+function byPosition(a: DbTaxonomyTermRow, b: DbTaxonomyTermRow): number {
+  return a.position - b.position || a.name.localeCompare(b.name); // name tie-breaker keeps exports stable
+}
+
+export function buildManifestFromTerms(
+  rows: DbTaxonomyTermRow[]
+): TaxonomyManifest {
+  const manifest: TaxonomyManifest = {
+    version: 1,
+    fields: [...TAXONOMY_FIELDS],
+    controls: { categories: {} },
+    faqs: { categories: {} }
+  };
+
+  const live = rows.filter(row => !row.retired_at);
+  const byId = new Map(live.map(row => [row.id, row]));
+
+  for (const category of live
+    .filter(row => row.kind === 'category')
+    .sort(byPosition)) {
+    const section = category.parent_id ? byId.get(category.parent_id) : null;
+    if (!section) continue; // a category under a retired section is not part of the vocabulary
+
+    const subcategories = live
+      .filter(
+        row => row.kind === 'subcategory' && row.parent_id === category.id
+      )
+      .sort(byPosition);
+    const defaultSubcategory = subcategories.find(row => row.is_default);
+
+    manifest[category.entity].categories[category.name] = {
+      section: section.name,
+      ...(defaultSubcategory
+        ? { defaultSubcategory: defaultSubcategory.name }
+        : {}),
+      ...(subcategories.length > 0
+        ? { subcategories: subcategories.map(row => row.name) }
+        : {})
+    }; // same key order as taxonomy.json so exports diff cleanly against the file
+  }
+
+  return manifest;
+}
+
+async function getTermRows(
+  db: DbQueryAdapter,
+  opts: { entity?: TaxonomyEntityName; includeRetired: boolean }
+): Promise<DbTaxonomyTermRow[]> {
+  const res = await db.query(
+    `
+      select ${TERM_COLUMNS}
+      from public.taxonomy_terms
+      where ($1::text is null or entity = $1)
+        and ($2::boolean or retired_at is null)
+      order by entity, kind, position, name
+    `,
+    [opts.entity ?? null, opts.includeRetired]
+  );
+
+  return (res.rows ?? []) as DbTaxonomyTermRow[];
+}
+
+export async function getTaxonomyManifest(
+  db: DbQueryAdapter
+): Promise<TaxonomyManifest> {
+  const rows = await getTermRows(db, { includeRetired: false });
+  if (rows.length === 0) return getSeedTaxonomyManifest(); // databases seeded before migration 010 still have a vocabulary
+
+  return buildManifestFromTerms(rows);
+}
+
+export async function listTaxonomyTerms(
+  entity: TaxonomyEntityName,
+  includeRetired: boolean,
+  ctx: GraphQLContext
+): Promise<DbTaxonomyTermRow[]> {
+  return getTermRows(ctx.db, { entity, includeRetired }); // admin-only read, never cached (edits must show immediately)
+}
+
+export async function exportTaxonomyManifest(
+  ctx: GraphQLContext
+): Promise<string> {
+  const manifest = await getTaxonomyManifest(ctx.db);
+  return `${JSON.stringify(manifest, null, 2)}\n`; // same file format as server/db/data/taxonomy.json
+}
+
+// ---------- admin write helpers ----------
+
+async function getTermForWrite(
+  id: string,
+  db: DbQueryAdapter
+): Promise<DbTaxonomyTermRow> {
+  const res = await db.query(
+    `
+      select ${TERM_COLUMNS}
+      from public.taxonomy_terms
+      where id = $1::uuid
+        and retired_at is null
+      limit 1
+      for update
+    `,
+    [normalizeId(id)]
+  ); // retired terms cannot be edited; reuse the name on a new term instead
+
+  const row = res.rows?.[0] as DbTaxonomyTermRow | undefined;
+  if (!row) {
+    throw new Error('NOT_FOUND_ERROR: taxonomy term not found');
+  }
+
+  return row;
+}
+
+async function getParentTerm(
+  term: DbTaxonomyTermRow,
+  db: DbQueryAdapter
+): Promise<DbTaxonomyTermRow | null> {
+  return term.parent_id ? getTermForWrite(term.parent_id, db) : null;
+}
+
+async function getNextPosition(
+  db: DbQueryAdapter,
+  entity: TaxonomyEntityName,
+  kind: TaxonomyKind,
+  parentId: string | null
+): Promise<number> {
+  const res = await db.query(
+    `
+      select coalesce(max(position), -1) + 1 as position
+      from public.taxonomy_terms
+      where entity = $1
+        and kind = $2
+        and ($3::uuid is null or parent_id = $3::uuid)
+        and retired_at is null
+    `,
+    [entity, kind, kind === 'subcategory' ? parentId : null]
+  ); // subcategories order within their category; sections + categories order across the entity (manifest order)
+
+  return Number((res.rows?.[0] as { position?: number })?.position ?? 0);
+}
+
+async function insertTerm(
+  db: DbQueryAdapter,
+  term: Omit<DbTaxonomyTermRow, 'id' | 'retired_at'>,
+  actor: string
+): Promise<DbTaxonomyTermRow> {
+  const res = await db.query(
+    `
+      insert into public.taxonomy_terms (
+        entity,
+        kind,
+        name,
+        parent_id,
+        is_default,
+        position,
+        updated_by
+      )
+      values ($1, $2, $3, $4::uuid, $5, $6, $7)
+      returning ${TERM_COLUMNS}
+    `,
+    [
+      term.entity,
+      term.kind,
+      term.name,
+      term.parent_id,
+      term.is_default,
+      term.position,
+      actor
+    ]
+  );
+
+  return res.rows?.[0] as DbTaxonomyTermRow;
+}
+
+async function updateTerm(
+  db: DbQueryAdapter,
+  id: string,
+  patch: Partial<
+    Pick<DbTaxonomyTermRow, 'name' | 'parent_id' | 'is_default' | 'position'>
+  > & { retire?: boolean },
+  actor: string
+): Promise<DbTaxonomyTermRow> {
+  const res = await db.query(
+    `
+      update public.taxonomy_terms
+      set
+        name = coalesce($2, name),
+        parent_id = coalesce($3::uuid, parent_id),
+        is_default = coalesce($4, is_default),
+        position = coalesce($5, position),
+        retired_at = case when $6::boolean then now() else retired_at end,
+        updated_by = $7,
+        updated_at = now()
+      where id = $1::uuid
+      returning ${TERM_COLUMNS}
+    `,
+    [
+      id,
+      patch.name ?? null,
+      patch.parent_id ?? null,
+      patch.is_default ?? null,
+      patch.position ?? null,
+      patch.retire ?? false,
+      actor
+    ]
+  ); // null params keep the current value, so callers pass only what changes
+
+  return res.rows?.[0] as DbTaxonomyTermRow;
+}
+
+async function clearSiblingDefaults(
+  db: DbQueryAdapter,
+  parentId: string,
+  keepId: string | null,
+  actor: string
+): Promise<void> {
+  await db.query(
+    `
+      update public.taxonomy_terms
+      set is_default = false, updated_by = $3, updated_at = now()
+      where parent_id = $1::uuid
+        and is_default
+        and ($2::uuid is null or id <> $2::uuid)
+    `,
+    [parentId, keepId, actor]
+  ); // a category has at most one defaultSubcategory
+}
+
+function relabelItems(
+  entity: TaxonomyEntityName,
+  tx: DbQueryAdapter,
+  relabel: TaxonomyRelabel,
+  meta: TaxonomyWriteMeta
+): Promise<number> {
+  const { auth, ...audit } = meta; // audit rows only carry actor + requestId
+  return entity === 'controls'
+    ? relabelControlsTaxonomy(tx, relabel, audit, auth)
+    : relabelFaqsTaxonomy(tx, relabel, audit, auth);
+}
+
+async function countLiveItems(
+  entity: TaxonomyEntityName,
+  tx: DbQueryAdapter,
+  labels: TaxonomyLabels
+): Promise<number> {
+  const predicates: string[] = [];
+  const params: unknown[] = [];
+
+  for (const field of TAXONOMY_FIELDS as Array<keyof TaxonomyLabels>) {
+    const value = labels[field];
+    if (value === undefined) continue;
+    params.push(value.toLowerCase());
+    predicates.push(`lower(${field}) = $${params.length}`); // column names come from the fixed field list
+  }
+
+  const res = await tx.query(
+    `
+      select count(*)::int as count
+      from ${ENTITY_TABLES[entity]}
+      where deleted_at is null
+        and ${predicates.join(' and ')}
+    `,
+    params
+  ); // drafts + archived rows count too; only soft-deleted rows may keep a retired label
+
+  return Number((res.rows?.[0] as { count?: number })?.count ?? 0);
+}
+
+function termLabels(
+  term: DbTaxonomyTermRow,
+  parent: DbTaxonomyTermRow | null
+): TaxonomyLabels {
+  if (term.kind === 'section') return { section: term.name };
+  if (term.kind === 'category') return { category: term.name };
+  return { category: parent?.name ?? '', subcategory: term.name }; // subcategory names only mean something inside their category
+}
+
+async function assertStoredManifestValid(tx: DbQueryAdapter): Promise<void> {
+  const rows = await getTermRows(tx, { includeRetired: false });
+  assertValidTaxonomyManifest(buildManifestFromTerms(rows), 'taxonomy terms'); // same contract taxonomy.json must meet, checked before the write commits
+}
+
+function mapTaxonomyConflict(error: unknown): never {
+  const pgError = error as { code?: string; constraint?: string } | undefined;
+
+  if (
+    pgError?.code === '23505' &&
+    (pgError.constraint === 'taxonomy_terms_live_name_idx' ||
+      pgError.constraint === 'taxonomy_terms_live_category_idx')
+  ) {
+    throw new Error(
+      'CONFLICT_ERROR: a live taxonomy term with that name already exists; merge the terms instead'
+    );
+  }
+
+  throw error instanceof Error ? error : new Error(String(error));
+}
+
+async function invalidateTaxonomyEntities(
+  entities: TaxonomyEntityName[],
+  ctx: GraphQLContext
+): Promise<void> {
+  for (const entity of new Set(entities)) {
+    const prefix =
+      entity === 'controls'
+        ? await invalidateControls(ctx.cache)
+        : await invalidateFaqs(ctx.cache); // relabeled rows + the taxonomy tree share the list prefix
+
+    console.log(
+      `[taxonomy] requestId=${ctx.requestId} invalidate scope=${entity} prefix=${prefix}`
+    );
+  }
+}
+
+async function runTaxonomyWrite<T extends { term: DbTaxonomyTermRow }>(
+  ctx: GraphQLContext,
+  work: (tx: DbQueryAdapter, meta: TaxonomyWriteMeta) => Promise<T>
+): Promise<T> {
+  const meta = {
+    actor: getWriteActor(ctx),
+    requestId: ctx.requestId,
+    auth: ctx.auth
+  };
+
+  try {
+    const result = await ctx.db.transaction(async tx => {
+      const value = await work(tx, meta);
+      await assertStoredManifestValid(tx);
+      return value;
+    }); // term change + item cascade + audit rows commit together
+
+    await invalidateTaxonomyEntities([result.term.entity], ctx); // clear stale reads only after a successful commit
+    return result;
+  } catch (error) {
+    mapTaxonomyConflict(error);
+  }
+}
+
+// ---------- admin writes ----------
+
+export async function createTaxonomyTerm(
+  input: CreateTaxonomyTermInput,
+  ctx: GraphQLContext
+): Promise<TaxonomyChangeResult> {
+  const name = normalizeTaxonomyTermName(input.name);
+  const parentKind = PARENT_KIND[input.kind];
+
+  if (input.isDefault && input.kind !== 'subcategory') {
+    throw new Error('VALIDATION_ERROR: only subcategories can be default');
+  }
+
+  if (parentKind === null && input.parentId != null) {
+    throw new Error('VALIDATION_ERROR: sections cannot have a parent');
+  }
+
+  if (parentKind !== null && input.parentId == null) {
+    throw new Error(
+      `VALIDATION_ERROR: a ${input.kind} needs a parent ${parentKind}`
+    );
+  }
+
+  return runTaxonomyWrite(ctx, async (tx, meta) => {
+    const parent =
+      input.parentId != null ? await getTermForWrite(input.parentId, tx) : null;
+
+    if (
+      parent &&
+      (parent.kind !== parentKind || parent.entity !== input.entity)
+    ) {
+      throw new Error(
+        `VALIDATION_ERROR: parent must be a live ${input.entity} ${parentKind}`
+      );
+    }
+
+    const parentId = parent?.id ?? null;
+    const term = await insertTerm(
+      tx,
+      {
+        entity: input.entity,
+        kind: input.kind,
+        name,
+        parent_id: parentId,
+        is_default: input.isDefault === true,
+        position: await getNextPosition(tx, input.entity, input.kind, parentId)
+      },
+      meta.actor
+    );
+
+    if (term.is_default && parentId) {
+      await clearSiblingDefaults(tx, parentId, term.id, meta.actor);
+    }
+
+    return { term, affectedItems: 0 }; // a new term has no items yet
+  });
+}
+
+export async function renameTaxonomyTerm(
+  id: string,
+  name: string,
+  ctx: GraphQLContext
+): Promise<TaxonomyChangeResult> {
+  const nextName = normalizeTaxonomyTermName(name);
+
+  return runTaxonomyWrite(ctx, async (tx, meta) => {
+    const existing = await getTermForWrite(id, tx);
+    if (existing.name === nextName) {
+      return { term: existing, affectedItems: 0 }; // no-op rename
+    }
+
+    const parent = await getParentTerm(existing, tx);
+    const term = await updateTerm(
+      tx,
+      existing.id,
+      { name: nextName },
+      meta.actor
+    );
+    const match = termLabels(existing, parent);
+    const affectedItems = await relabelItems(
+      existing.entity,
+      tx,
+      { match, set: { [existing.kind]: nextName } },
+      meta
+    ); // rows store labels, so the rename rewrites them (and their search_text) in the same commit
+
+    return { term, affectedItems };
+  });
+}
+
+export async function mergeTaxonomyTerms(
+  sourceId: string,
+  targetId: string,
+  ctx: GraphQLContext
+): Promise<TaxonomyChangeResult> {
+  if (normalizeId(sourceId) === normalizeId(targetId)) {
+    throw new Error(
+      'VALIDATION_ERROR: cannot merge a taxonomy term into itself'
+    );
+  }
+
+  return runTaxonomyWrite(ctx, async (tx, meta) => {
+    const source = await getTermForWrite(sourceId, tx);
+    const target = await getTermForWrite(targetId, tx);
+
+    if (source.entity !== target.entity || source.kind !== target.kind) {
+      throw new Error(
+        'VALIDATION_ERROR: only terms of the same entity and kind can be merged'
+      );
+    }
+
+    const entity = source.entity;
+    let affectedItems = 0;
+
+    if (source.kind === 'section') {
+      await tx.query(
+        `
+          update public.taxonomy_terms
+          set parent_id = $2::uuid, updated_by = $3, updated_at = now()
+          where parent_id = $1::uuid
+            and retired_at is null
+        `,
+        [source.id, target.id, meta.actor]
+      ); // categories move under the surviving section
+
+      affectedItems += await relabelItems(
+        entity,
+        tx,
+        { match: { section: source.name }, set: { section: target.name } },
+        meta
+      );
+    }
+
+    if (source.kind === 'category') {
+      const targetSection = await getParentTerm(target, tx);
+      const live = await getTermRows(tx, { entity, includeRetired: false });
+      const targetChildren = live.filter(row => row.parent_id === target.id);
+      const sourceChildren = live.filter(row => row.parent_id === source.id);
+
+      for (const child of sourceChildren) {
+        const twin = targetChildren.find(
+          row => labelKey(row.name) === labelKey(child.name)
+        );
+
+        if (twin) {
+          await updateTerm(
+            tx,
+            child.id,
+            { is_default: false, retire: true },
+            meta.actor
+          ); // same-named subcategories collapse into the target's
+          affectedItems += await relabelItems(
+            entity,
+            tx,
+            {
+              match: { category: source.name, subcategory: child.name },
+              set: {
+                section: targetSection?.name ?? '',
+                category: target.name,
+                subcategory: twin.name
+              }
+            },
+            meta
+          );
+          continue;
+        }
+
+        await updateTerm(
+          tx,
+          child.id,
+          {
+            parent_id: target.id,
+            is_default: false,
+            position: await getNextPosition(
+              tx,
+              entity,
+              'subcategory',
+              target.id
+            )
+          },
+          meta.actor
+        ); // the target keeps its own default
+      }
+
+      affectedItems += await relabelItems(
+        entity,
+        tx,
+        {
+          match: { category: source.name },
+          set: { section: targetSection?.name ?? '', category: target.name }
+        },
+        meta
+      ); // rows take the target's section too, since categories belong to one section
+    }
+
+    if (source.kind === 'subcategory') {
+      if (source.parent_id !== target.parent_id) {
+        throw new Error(
+          'VALIDATION_ERROR: subcategories can only be merged within one category'
+        );
+      }
+
+      const parent = await getParentTerm(source, tx);
+      if (source.is_default) {
+        await updateTerm(tx, target.id, { is_default: true }, meta.actor); // the default survives the merge
+      }
+
+      affectedItems += await relabelItems(
+        entity,
+        tx,
+        {
+          match: { category: parent?.name ?? '', subcategory: source.name },
+          set: { subcategory: target.name }
+        },
+        meta
+      );
+    }
+
+    await updateTerm(
+      tx,
+      source.id,
+      { is_default: false, retire: true },
+      meta.actor
+    ); // the merged-away term is kept for history, not deleted
+
+    return {
+      term: await getTermForWrite(target.id, tx),
+      affectedItems
+    };
+  });
+}
+
+export async function retireTaxonomyTerm(
+  id: string,
+  ctx: GraphQLContext
+): Promise<TaxonomyChangeResult> {
+  return runTaxonomyWrite(ctx, async (tx, meta) => {
+    const existing = await getTermForWrite(id, tx);
+    const parent = await getParentTerm(existing, tx);
+    const inUse = await countLiveItems(
+      existing.entity,
+      tx,
+      termLabels(existing, parent)
+    );
+
+    if (inUse > 0) {
+      throw new Error(
+        `CONFLICT_ERROR: taxonomy term is still used by ${inUse} item(s); merge it into another term first`
+      ); // retiring must never orphan live content
+    }
+
+    await tx.query(
+      `
+        with recursive subtree as (
+          select id from public.taxonomy_terms where id = $1::uuid
+          union all
+          select t.id
+          from public.taxonomy_terms t
+          join subtree s on t.parent_id = s.id
+        )
+        update public.taxonomy_terms
+        set retired_at = now(), is_default = false, updated_by = $2, updated_at = now()
+        where id in (select id from subtree)
+          and retired_at is null
+      `,
+      [existing.id, meta.actor]
+    ); // children of a retired term retire with it
+
+    return { term: { ...existing, retired_at: new Date() }, affectedItems: 0 };
+  });
+}
+
+// ---------- json import ----------
+
+function parseManifestJson(raw: string): TaxonomyManifest {
+  let manifest: TaxonomyManifest;
+
+  try {
+    manifest = JSON.parse(raw) as TaxonomyManifest;
+  } catch {
+    throw new Error('VALIDATION_ERROR: manifest must be valid JSON');
+  }
+
+  assertValidTaxonomyManifest(manifest, 'imported taxonomy manifest'); // same rules as taxonomy.json on disk
+  return manifest;
+}
+
+export async function applyTaxonomyManifest(
+  tx: DbQueryAdapter,
+  manifest: TaxonomyManifest,
+  meta: TaxonomyWriteMeta
+): Promise<TaxonomyImportResult> {
+  const result: TaxonomyImportResult = {
+    created: 0,
+    updated: 0,
+    affectedItems: 0
+  };
+
+  for (const entity of ['controls', 'faqs'] as const) {
+    const live = await getTermRows(tx, { entity, includeRetired: false });
+    const findLive = (
+      kind: TaxonomyKind,
+      name: string,
+      parentId: string | null
+    ) =>
+      live.find(
+        row =>
+          row.kind === kind &&
+          labelKey(row.name) === labelKey(name) &&
+          (kind === 'category' || row.parent_id === parentId)
+      ); // category names are unique per entity, so they match across sections
+
+    const upsert = async (
+      kind: TaxonomyKind,
+      name: string,
+      parent: DbTaxonomyTermRow | null,
+      position: number,
+      isDefault: boolean
+    ): Promise<DbTaxonomyTermRow> => {
+      const existing = findLive(kind, name, parent?.id ?? null);
+
+      if (!existing) {
+        const created = await insertTerm(
+          tx,
+          {
+            entity,
+            kind,
+            name,
+            parent_id: parent?.id ?? null,
+            is_default: isDefault,
+            position
+          },
+          meta.actor
+        );
+        live.push(created);
+        result.created += 1;
+        return created;
+      }
+
+      const moved = kind === 'category' && existing.parent_id !== parent?.id;
+      const renamed = existing.name !== name; // case / spacing fixes still cascade
+
+      if (
+        !moved &&
+        !renamed &&
+        existing.position === position &&
+        existing.is_default === isDefault
+      ) {
+        return existing;
+      }
+
+      const updated = await updateTerm(
+        tx,
+        existing.id,
+        {
+          name,
+          parent_id: parent?.id ?? null,
+          is_default: isDefault,
+          position
+        },
+        meta.actor
+      );
+      live.splice(live.indexOf(existing), 1, updated);
+      result.updated += 1;
+
+      if (moved || renamed) {
+        const sectionLabel = moved && parent ? { section: parent.name } : {};
+        result.affectedItems += await relabelItems(
+          entity,
+          tx,
+          {
+            match:
+              kind === 'subcategory' && parent
+                ? { category: parent.name, subcategory: existing.name }
+                : { [kind]: existing.name },
+            set: { ...sectionLabel, [kind]: name }
+          },
+          meta
+        );
+      }
+
+      return updated;
+    };
+
+    const sections = new Map<string, DbTaxonomyTermRow>();
+    let categoryPosition = 0;
+
+    for (const [categoryName, entry] of Object.entries(
+      manifest[entity].categories
+    )) {
+      const sectionName = normalizeTaxonomyTermName(entry.section);
+      let section = sections.get(labelKey(sectionName));
+      if (!section) {
+        section = await upsert(
+          'section',
+          sectionName,
+          null,
+          sections.size,
+          false
+        );
+        sections.set(labelKey(sectionName), section);
+      }
+
+      const category = await upsert(
+        'category',
+        normalizeTaxonomyTermName(categoryName),
+        section,
+        categoryPosition++,
+        false
+      );
+
+      const defaultName = entry.defaultSubcategory
+        ? normalizeTaxonomyTermName(entry.defaultSubcategory)
+        : null;
+      const subcategoryNames = (entry.subcategories ?? []).map(name =>
+        normalizeTaxonomyTermName(name)
+      );
+      if (
+        defaultName &&
+        !subcategoryNames.some(name => labelKey(name) === labelKey(defaultName))
+      ) {
+        subcategoryNames.push(defaultName); // the default must be an allowed subcategory
+      }
+
+      for (const [index, name] of subcategoryNames.entries()) {
+        await upsert(
+          'subcategory',
+          name,
+          category,
+          index,
+          defaultName !== null && labelKey(name) === labelKey(defaultName)
+        );
+      }
+    }
+  }
+
+  return result; // terms missing from the manifest are left alone (retire them explicitly)
+}
+
+export async function importTaxonomyManifest(
+  raw: string,
+  ctx: GraphQLContext
+): Promise<TaxonomyImportResult> {
+  const manifest = parseManifestJson(raw);
+  const meta = {
+    actor: getWriteActor(ctx),
+    requestId: ctx.requestId,
+    auth: ctx.auth
+  };
+
+  try {
+    const result = await ctx.db.transaction(async tx => {
+      const value = await applyTaxonomyManifest(tx, manifest, meta);
+      await assertStoredManifestValid(tx);
+      return value;
+    });
+
+    await invalidateTaxonomyEntities(['controls', 'faqs'], ctx);
+    return result;
+  } catch (error) {
+    mapTaxonomyConflict(error);
+  }
+}
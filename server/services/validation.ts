@@ -5,8 +5,18 @@
   - keeps validation out of resolvers so service boundaries stay clean
   - provides readable VALIDATION_ERROR messages for GraphiQL verification
   - supports partial-update semantics without letting empty updates through
+  - owns the DRAFT -> IN_REVIEW -> PUBLISHED -> ARCHIVED transition rules
+  - normalizes asOf timestamps for point-in-time reads
+  - normalizes admin taxonomy term names (same length cap as the row labels they become)
+  - normalizes framework requirement ids + titles for control framework mappings
+  - validates control evidence inputs (dates, visibility, link url, base64 file payload + size cap)
+  - validates api key issue inputs (name + a non-empty set of known scopes)
+  - validates nda access requests (company / reason) and grant lengths (1-365 days)
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
+import path from 'node:path'; // strip directories from uploaded file names
+import { isApiKeyScope, type ApiKeyScope } from '../auth'; // scope names stored on api_keys rows
+
 // ---------- input contracts ----------
 
 export type CreateControlInput = {
@@ -160,29 +170,34 @@ function normalizeNullableString(
   return normalized; // canonical nullable field
 }
 
-function normalizeOptionalUrl(value: unknown): string | null {
+function normalizeOptionalUrl(
+  value: unknown,
+  fieldName = 'sourceUrl'
+): string | null {
   if (value == null) return null; // explicit null clears sourceUrl
 
   if (typeof value !== 'string') {
-    validationError('sourceUrl must be a string or null');
+    validationError(`${fieldName} must be a string or null`);
   }
 
   const normalized = value.trim(); // urls should not get internal whitespace collapsing
   if (normalized === '') return null; // blank string behaves like clearing the field
 
   if (normalized.length > MAX_URL_LENGTH) {
-    validationError(`sourceUrl must be at most ${MAX_URL_LENGTH} characters`);
+    validationError(
+      `${fieldName} must be at most ${MAX_URL_LENGTH} characters`
+    );
   }
 
   let parsed: URL;
   try {
     parsed = new URL(normalized); // use WHATWG URL parsing for a minimal sanity check
   } catch {
-    validationError('sourceUrl must be a valid absolute URL');
+    validationError(`${fieldName} must be a valid absolute URL`);
   }
 
   if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
-    validationError('sourceUrl must use http or https');
+    validationError(`${fieldName} must use http or https`);
   }
 
   return normalized; // keep the original normalized string for db writes
@@ -472,3 +487,292 @@ export function validateUpdateFaqInput(
 
   return patch; // patch only contains fields the caller actually provided
 }
+
+// ---------- status workflow ----------
+
+export type ContentStatus = 'draft' | 'in_review' | 'published' | 'archived'; // matches the controls/faqs status check constraint
+
+// allowed moves per current status  -->  publishing always goes through review
+const STATUS_TRANSITIONS: Record<ContentStatus, ContentStatus[]> = {
+  draft: ['in_review', 'archived'],
+  in_review: ['published', 'archived'],
+  published: ['archived'],
+  archived: ['in_review'] // archived content must be reviewed again before it is public
+};
+
+function formatStatus(status: string): string {
+  return status.toUpperCase(); // error messages use the graphql enum spelling
+}
+
+export function assertStatusTransition(
+  from: ContentStatus,
+  to: ContentStatus
+): void {
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    validationError(
+      `cannot move from ${formatStatus(from)} to ${formatStatus(to)}`
+    );
+  }
+}
+
+// ---------- point-in-time reads ----------
+
+export function normalizeAsOf(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined; // omitted asOf means "now" (live rows)
+
+  const parsed =
+    typeof value === 'string' && value.trim() !== ''
+      ? new Date(value.trim())
+      : null;
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    validationError('asOf must be an ISO timestamp');
+  }
+
+  if (parsed.getTime() > Date.now()) {
+    validationError('asOf cannot be in the future'); // future snapshots would be cached before their content exists
+  }
+
+  return parsed.toISOString(); // one canonical spelling keeps cache keys + sql params stable
+}
+
+// ---------- taxonomy terms ----------
+
+export function normalizeTaxonomyTermName(value: unknown): string {
+  return normalizeRequiredString(value, 'name', MAX_SHORT_TEXT_LENGTH); // term names are written into section / category / subcategory columns
+}
+
+// ---------- framework mappings ----------
+
+const MAX_REQUIREMENT_ID_LENGTH = 40; // CC6.1, A.5.15, PR.AA-01 style ids
+
+export function normalizeRequirementId(value: unknown): string {
+  return normalizeRequiredString(
+    value,
+    'requirementId',
+    MAX_REQUIREMENT_ID_LENGTH
+  );
+}
+
+export function normalizeRequirementTitle(value: unknown): string {
+  return normalizeRequiredString(
+    value,
+    'requirementTitle',
+    MAX_SHORT_TEXT_LENGTH
+  );
+}
+
+// ---------- control evidence ----------
+
+export type EvidenceVisibility = 'public' | 'nda'; // matches the control_evidence visibility check constraint
+
+export type ControlEvidenceInput = {
+  title: string;
+  effectiveDate: string; // YYYY-MM-DD
+  expiresOn?: string | null; // YYYY-MM-DD, on or after effectiveDate
+  visibility?: EvidenceVisibility | null; // default public
+};
+
+export type ControlEvidenceFileInput = ControlEvidenceInput & {
+  fileName: string;
+  contentType?: string | null; // default application/octet-stream
+  contentBase64: string;
+};
+
+export type ControlEvidenceLinkInput = ControlEvidenceInput & {
+  url: string;
+};
+
+export type NormalizedEvidenceWrite = {
+  title: string;
+  effectiveDate: string;
+  expiresOn: string | null;
+  visibility: EvidenceVisibility;
+};
+
+export type NormalizedEvidenceFile = NormalizedEvidenceWrite & {
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+};
+
+export type NormalizedEvidenceLink = NormalizedEvidenceWrite & {
+  url: string;
+};
+
+const MAX_EVIDENCE_BYTES = 10 * 1024 * 1024; // graphql carries the file as base64, so keep uploads modest
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CONTENT_TYPE_PATTERN = /^[\w.+-]+\/[\w.+-]+$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+function normalizeDate(value: unknown, fieldName: string): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  const parsed = DATE_PATTERN.test(text) ? new Date(`${text}T00:00:00Z`) : null;
+
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    validationError(`${fieldName} must be a YYYY-MM-DD date`);
+  }
+  if (parsed.toISOString().slice(0, 10) !== text) {
+    validationError(`${fieldName} is not a real calendar date`); // 2026-02-30 parses but rolls over
+  }
+
+  return text;
+}
+
+function validateEvidenceInput(
+  input: ControlEvidenceInput
+): NormalizedEvidenceWrite {
+  const effectiveDate = normalizeDate(input.effectiveDate, 'effectiveDate');
+  const expiresOn =
+    input.expiresOn == null || String(input.expiresOn).trim() === ''
+      ? null
+      : normalizeDate(input.expiresOn, 'expiresOn');
+
+  if (expiresOn !== null && expiresOn < effectiveDate) {
+    validationError('expiresOn cannot be before effectiveDate'); // iso dates compare as strings
+  }
+
+  const visibility = input.visibility ?? 'public';
+  if (visibility !== 'public' && visibility !== 'nda') {
+    validationError('visibility must be public or nda');
+  }
+
+  return {
+    title: normalizeRequiredString(input.title, 'title', MAX_SHORT_TEXT_LENGTH),
+    effectiveDate,
+    expiresOn,
+    visibility
+  };
+}
+
+export function validateEvidenceLinkInput(
+  input: ControlEvidenceLinkInput
+): NormalizedEvidenceLink {
+  const url = normalizeOptionalUrl(input.url, 'url');
+  if (url === null) validationError('url is required');
+
+  return { ...validateEvidenceInput(input), url };
+}
+
+export function validateEvidenceFileInput(
+  input: ControlEvidenceFileInput
+): NormalizedEvidenceFile {
+  const fileName = path
+    .basename(
+      normalizeRequiredString(input.fileName, 'fileName', MAX_SHORT_TEXT_LENGTH)
+    )
+    .replace(/["\\\u0000-\u001f]/g, '_'); // stored name goes into Content-Disposition on download
+
+  const contentType =
+    (input.contentType ?? '').trim().toLowerCase() ||
+    'application/octet-stream';
+  if (!CONTENT_TYPE_PATTERN.test(contentType)) {
+    validationError('contentType must look like type/subtype');
+  }
+
+  const encoded =
+    typeof input.contentBase64 === 'string'
+      ? input.contentBase64.replace(/\s+/g, '')
+      : '';
+  if (encoded === '' || !BASE64_PATTERN.test(encoded)) {
+    validationError('contentBase64 must be a non-empty base64 string');
+  }
+
+  const body = Buffer.from(encoded, 'base64');
+  if (body.length > MAX_EVIDENCE_BYTES) {
+    validationError(
+      `evidence files must be at most ${MAX_EVIDENCE_BYTES / (1024 * 1024)} MB`
+    );
+  }
+
+  return { ...validateEvidenceInput(input), fileName, contentType, body };
+}
+
+// ---------- api keys ----------
+
+export type IssueApiKeyInput = {
+  name: string;
+  scopes: string[];
+};
+
+export type NormalizedApiKeyInput = {
+  name: string;
+  scopes: ApiKeyScope[];
+};
+
+export function validateIssueApiKeyInput(
+  input: IssueApiKeyInput
+): NormalizedApiKeyInput {
+  const name = normalizeRequiredString(
+    input.name,
+    'name',
+    MAX_SHORT_TEXT_LENGTH
+  );
+
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    validationError('scopes must include at least one scope');
+  }
+
+  const scopes = new Set<ApiKeyScope>();
+  for (const scope of input.scopes) {
+    const normalized = String(scope).trim().toLowerCase();
+    if (!isApiKeyScope(normalized)) {
+      validationError(`unknown api key scope: ${String(scope)}`);
+    }
+    scopes.add(normalized);
+  }
+
+  return { name, scopes: [...scopes] };
+}
+
+// ---------- nda access ----------
+
+export type ContentVisibility = 'public' | 'nda'; // matches the controls/faqs visibility check constraint
+
+export type AccessRequestInput = {
+  company?: string | null;
+  reason?: string | null;
+};
+
+export type NormalizedAccessRequest = {
+  company: string | null;
+  reason: string | null;
+};
+
+const DEFAULT_GRANT_DAYS = 30; // typical nda review window
+const MAX_GRANT_DAYS = 365; // grants always end; renewals go through a new request
+
+export function validateAccessRequestInput(
+  input: AccessRequestInput
+): NormalizedAccessRequest {
+  return {
+    company: normalizeNullableString(
+      input.company,
+      'company',
+      MAX_SHORT_TEXT_LENGTH
+    ),
+    reason: normalizeNullableString(
+      input.reason,
+      'reason',
+      MAX_LONG_TEXT_LENGTH
+    )
+  };
+}
+
+export function normalizeGrantDays(value: unknown): number {
+  if (value == null) return DEFAULT_GRANT_DAYS;
+
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < 1 ||
+    value > MAX_GRANT_DAYS
+  ) {
+    validationError(`days must be a whole number from 1 to ${MAX_GRANT_DAYS}`);
+  }
+
+  return value;
+}
+
+export function normalizeDecisionNote(value: unknown): string | null {
+  return normalizeNullableString(value, 'note', MAX_LONG_TEXT_LENGTH);
+}
@@ -6,6 +6,7 @@
   - resolves section/category/subcategory from one shared manifest
   - exposes normalized search-text helpers used by seed + fallback paths
   - keeps runtime taxonomy logic out of seed-runner / fallback-loader orchestration files
+  - describes rename / merge cascades onto stored controls + faqs labels
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import fs from 'node:fs/promises'; // read shared taxonomy manifest json from disk
@@ -31,6 +32,17 @@ export type TaxonomyManifest = {
   faqs: TaxonomyEntityManifest; // faqs taxonomy vocabulary
 };
 
+export type TaxonomyLabels = {
+  section?: string;
+  category?: string;
+  subcategory?: string;
+}; // label values as stored on controls / faqs rows
+
+export type TaxonomyRelabel = {
+  match: TaxonomyLabels; // rows whose labels equal these (case-insensitive)
+  set: TaxonomyLabels; // replacement labels written onto those rows
+}; // one rename / merge cascade step
+
 export type ResolvedTaxonomy = {
   section: string; // canonical section resolved from the manifest
   category: string; // canonical category label preserved for compatibility
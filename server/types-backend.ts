@@ -5,3 +5,53 @@
   - defines langgraph state shape + keeps ai pipeline predictable
   - keeps backend internals out of shared types
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+// ---------- ai retrieval shapes ----------
+
+export type AiSourceKind = 'CONTROL' | 'FAQ'; // matches the graphql AiCitationKind enum values
+
+export type AiSource = {
+  ref: string; // prompt-facing citation handle (e.g. "S1")
+  kind: AiSourceKind; // which entity family produced this source
+  id: string; // db/fallback row id
+  controlKey: string | null; // natural key when kind = CONTROL
+  faqKey: string | null; // natural key when kind = FAQ
+  title: string; // control title or faq question
+  body: string; // control description or faq answer
+  category: string; // taxonomy category for citation display
+  sourceUrl: string | null; // optional proof link (controls only)
+  score: number; // retrieval score used for ordering (higher = better)
+};
+
+// ---------- ai provider contract ----------
+
+export type AiGenerateInput = {
+  question: string; // normalized user question
+  systemPrompt: string; // fixed guardrail prompt
+  userPrompt: string; // question + formatted retrieval context
+  sources: AiSource[]; // raw sources so local providers can answer without an llm
+  maxTokens: number; // upper bound for provider output
+  temperature: number; // sampling temperature for remote providers
+};
+
+export type AiGenerateOutput = {
+  text: string; // raw provider answer (may include [S1]-style citations)
+  model: string; // provider model id for debugging
+};
+
+export interface AiProvider {
+  name: string; // provider label echoed back on the graphql response
+
+  // turns a grounded prompt into an answer  -->  must not fetch its own context
+  generate(input: AiGenerateInput): Promise<AiGenerateOutput>;
+}
+
+// ---------- ai pipeline state (retrieve -> generate -> validate -> format) ----------
+
+export type AiPipelineState = {
+  question: string; // normalized question
+  sources: AiSource[]; // retrieve step output
+  draft: AiGenerateOutput | null; // generate step output
+  citedRefs: string[]; // validate step output  -->  only refs that exist in sources
+  answer: string; // validate step output  -->  cleaned answer text
+};
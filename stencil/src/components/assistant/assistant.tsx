@@ -0,0 +1,329 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  trust center assistant chat card
+
+  - stencil renders only; react owns networking through api.ts
+  - keeps the conversation history (question + answer turns) in component state
+  - emits aonAssistantAsk for each question; react answers through reply-json
+  - renders cited controls/faqs as links; hash links emit aonAssistantJump so react can scroll shadow-dom targets
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import {
+  Component,
+  Prop,
+  State,
+  Watch,
+  Event as StencilEvent,
+  EventEmitter,
+  h
+} from '@stencil/core';
+
+// ---------- local types (json payload shape from react) ----------
+
+type AssistantCitation = {
+  label: string; // visible citation text (control title / faq question)
+  href: string; // fragment target on the current page or full href to another page
+  tag: string; // short chip text (citation handle matching the answer text)
+};
+
+type AssistantReply = {
+  askId: number; // matches the askId emitted with aonAssistantAsk
+  answer: string; // answer text (empty when error is set)
+  grounded: boolean; // false when no valid citation survived backend validation
+  citations: AssistantCitation[]; // cited sources in first-mention order
+  error: string; // readable error text (empty on success)
+};
+
+type AssistantTurn = {
+  askId: number; // stable key for render + reply matching
+  question: string; // user question as submitted
+  reply: AssistantReply | null; // null while react is still answering
+};
+
+type AssistantAskDetail = {
+  askId: number; // react echoes this back inside reply-json
+  question: string; // trimmed question text
+};
+
+type AssistantJumpDetail = {
+  href: string; // original citation href clicked by user
+  id: string; // parsed fragment id without "#"
+};
+
+// ---------- constants ----------
+
+const MAX_TURNS = 20; // keeps long sessions from growing the rail forever
+const MAX_QUESTION_LENGTH = 500; // mirrors backend aiAnswer question limit
+
+@Component({
+  tag: 'aon-assistant',
+  styleUrl: './assistant.css',
+  shadow: true
+})
+export class AonAssistant {
+  // ---------- public api ----------
+
+  @Prop() assistantTitle: string = 'Assistant'; // heading text
+  @Prop() introText: string = ''; // optional helper copy under the heading
+  @Prop() placeholder: string = 'Ask a question'; // textarea placeholder
+  @Prop() replyJson: string = ''; // react passes the latest serialized reply
+
+  // ---------- public events ----------
+
+  @StencilEvent({
+    eventName: 'aonAssistantAsk',
+    bubbles: true,
+    composed: true
+  })
+  assistantAsk!: EventEmitter<AssistantAskDetail>; // react listens and calls the aiAnswer api
+
+  @StencilEvent({
+    eventName: 'aonAssistantJump',
+    bubbles: true,
+    composed: true
+  })
+  assistantJump!: EventEmitter<AssistantJumpDetail>; // react listens and performs shadow-dom scroll
+
+  // ---------- internal state ----------
+
+  @State() turns: AssistantTurn[] = [];
+  @State() draft: string = '';
+
+  private nextAskId = 1; // monotonic id so late replies land on the right turn
+
+  // ---------- watchers ----------
+
+  @Watch('replyJson')
+  onReplyJsonChange(next: string) {
+    const reply = this.parseReply(next);
+
+    if (!reply) return; // ignore blank/malformed payloads
+
+    this.turns = this.turns.map(turn =>
+      turn.askId === reply.askId ? { ...turn, reply } : turn
+    ); // replies for turns already trimmed from history are dropped quietly
+  }
+
+  // ---------- parsing ----------
+
+  private parseCitations(raw: unknown): AssistantCitation[] {
+    if (!Array.isArray(raw)) return [];
+
+    return raw
+      .filter((item): item is AssistantCitation => {
+        if (!item || typeof item !== 'object') return false;
+
+        const candidate = item as Partial<AssistantCitation>;
+
+        return (
+          typeof candidate.label === 'string' &&
+          candidate.label.trim().length > 0 &&
+          typeof candidate.href === 'string' &&
+          candidate.href.trim().length > 0
+        );
+      })
+      .map(item => ({
+        label: item.label.trim(),
+        href: item.href.trim(),
+        tag: typeof item.tag === 'string' ? item.tag.trim() : ''
+      }));
+  }
+
+  private parseReply(raw: string): AssistantReply | null {
+    const text = (raw ?? '').trim();
+
+    if (!text) return null;
+
+    try {
+      const parsed = JSON.parse(text) as Partial<AssistantReply> | null;
+
+      if (!parsed || typeof parsed !== 'object') return null;
+      if (typeof parsed.askId !== 'number') return null; // unmatched replies are useless
+
+      return {
+        askId: parsed.askId,
+        answer: typeof parsed.answer === 'string' ? parsed.answer.trim() : '',
+        grounded: parsed.grounded === true,
+        citations: this.parseCitations(parsed.citations),
+        error: typeof parsed.error === 'string' ? parsed.error.trim() : ''
+      };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+
+      console.warn('[aon-assistant] reply-json parse failed:', msg);
+
+      return null;
+    }
+  }
+
+  // ---------- input helpers ----------
+
+  private isPending(): boolean {
+    return this.turns.some(turn => turn.reply === null); // one question in flight at a time
+  }
+
+  private submit() {
+    const question = (this.draft ?? '').trim().replace(/\s+/g, ' ');
+
+    if (!question) return; // nothing to ask
+    if (this.isPending()) return; // wait for the current answer first
+
+    const askId = this.nextAskId++;
+
+    this.turns = [...this.turns, { askId, question, reply: null }].slice(
+      -MAX_TURNS
+    ); // newest turns win when history is capped
+    this.draft = '';
+
+    this.assistantAsk.emit({
+      askId,
+      question
+    }); // react fetches and answers through reply-json
+  }
+
+  private onFormSubmit(ev: Event) {
+    ev.preventDefault(); // component owns submit; no page navigation
+    this.submit();
+  }
+
+  private onKeyDown(ev: KeyboardEvent) {
+    if (ev.key !== 'Enter' || ev.shiftKey) return; // shift+enter keeps multi-line input
+
+    ev.preventDefault();
+    this.submit();
+  }
+
+  // ---------- click helpers ----------
+
+  private getHashId(href: string): string {
+    const text = (href ?? '').trim();
+
+    if (!text.startsWith('#')) return '';
+
+    return text.slice(1).trim();
+  } // hash-only citations are handled through the custom event so react can jump inside sibling shadow roots
+
+  private onCitationClick(ev: MouseEvent, citation: AssistantCitation) {
+    // ignore modified clicks so browser keeps native behavior (new tab, etc.)
+    if (ev.defaultPrevented) return;
+    if (ev.button !== 0) return;
+    if (ev.metaKey || ev.ctrlKey || ev.shiftKey || ev.altKey) return;
+
+    const id = this.getHashId(citation.href);
+
+    // cross-page citations keep normal anchor navigation
+    if (!id) return;
+
+    ev.preventDefault(); // browser hash jump cannot see ids inside another component shadow root
+
+    this.assistantJump.emit({
+      href: citation.href,
+      id
+    }); // react page scrolls the cited card shadow-root section
+  }
+
+  // ---------- render helpers ----------
+
+  private renderReply(reply: AssistantReply | null) {
+    if (!reply) {
+      return (
+        <div
+          class="assistant-msg assistant-msg-bot is-pending"
+          aria-busy="true"
+        >
+          Thinking...
+        </div>
+      );
+    }
+
+    if (reply.error) {
+      return (
+        <div class="assistant-msg assistant-msg-bot is-error" role="alert">
+          {reply.error}
+        </div>
+      );
+    }
+
+    return (
+      <div class="assistant-msg assistant-msg-bot">
+        <p class="assistant-answer">{reply.answer}</p>
+
+        {reply.citations.length > 0 ? (
+          <ul class="assistant-citations" aria-label="Sources">
+            {reply.citations.map(citation => (
+              <li key={`${citation.tag}:${citation.href}`}>
+                <a
+                  href={citation.href}
+                  onClick={ev => this.onCitationClick(ev, citation)}
+                >
+                  {citation.tag ? (
+                    <span class="assistant-chip">{citation.tag}</span>
+                  ) : null}
+                  {citation.label}
+                </a>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        {!reply.grounded ? (
+          <div class="assistant-note">
+            No matching trust center source was found for this answer.
+          </div>
+        ) : null}
+      </div>
+    );
+  }
+
+  // ---------- render ----------
+
+  render() {
+    const title = (this.assistantTitle ?? '').trim() || 'Assistant';
+    const intro = (this.introText ?? '').trim();
+    const pending = this.isPending();
+
+    return (
+      <section class="assistant-card" aria-label={title}>
+        <div class="assistant-head">
+          <h3 class="assistant-title">{title}</h3>
+
+          {intro ? <p class="assistant-text">{intro}</p> : null}
+        </div>
+
+        <div class="assistant-log" aria-live="polite">
+          {this.turns.map(turn => (
+            <div class="assistant-turn" key={turn.askId}>
+              <div class="assistant-msg assistant-msg-user">
+                {turn.question}
+              </div>
+
+              {this.renderReply(turn.reply)}
+            </div>
+          ))}
+        </div>
+
+        <form class="assistant-form" onSubmit={ev => this.onFormSubmit(ev)}>
+          <textarea
+            class="assistant-input"
+            rows={2}
+            maxLength={MAX_QUESTION_LENGTH}
+            placeholder={this.placeholder}
+            aria-label={this.placeholder}
+            value={this.draft}
+            onInput={ev => {
+              this.draft = (ev.target as HTMLTextAreaElement).value;
+            }}
+            onKeyDown={ev => this.onKeyDown(ev)}
+          />
+
+          <button
+            class="assistant-send"
+            type="submit"
+            disabled={pending || this.draft.trim().length === 0}
+          >
+            Ask
+          </button>
+        </form>
+      </section>
+    );
+  }
+}
@@ -5,11 +5,24 @@
   - stencil owns parsing/grouping/rendering + per-category expand state
   - optional tile header derives meta from parsed controls connection data
   - no stencil network requests (pure prop-driven ui component)
+  - renders one badge per framework requirement (SOC 2 CC6.1, ISO 27001 A.5.15) under each row title
+  - lists each control's evidence (download links, dates, NDA / expired tags) in the expanded row
+  - renders locked nda teasers (title + badges + NDA tag) with a request-access button (aonRequestAccess event)
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
-import { Component, Prop, State, Watch, h } from '@stencil/core';
+import {
+  Component,
+  Prop,
+  State,
+  Watch,
+  Event as StencilEvent,
+  EventEmitter,
+  h
+} from '@stencil/core';
 import type {
   Control,
+  ControlEvidence,
+  ControlFramework,
   ControlGroup,
   ControlsConnection
 } from '../../../../types-shared';
@@ -21,6 +34,11 @@ type ParsedControlsResult = {
   totalCount: number;
 };
 
+type RequestAccessDetail = {
+  id: string; // locked control the viewer clicked
+  title: string; // its teaser title
+};
+
 @Component({
   tag: 'aon-control-card',
   styleUrl: 'control-card.css',
@@ -40,6 +58,15 @@ export class ControlCard {
   @Prop() errorText: string = ''; // react-controlled error state (api/network layer)
   @Prop() sectionIdPrefix: string = 'controls-category'; // fragment id prefix used by api-driven subnav links
 
+  // ---------- public events ----------
+
+  @StencilEvent({
+    eventName: 'aonRequestAccess',
+    bubbles: true,
+    composed: true
+  })
+  requestAccess!: EventEmitter<RequestAccessDetail>; // react listens and calls the requestAccess mutation
+
   // ---------- internal state ----------
 
   @State() groups: ControlGroup[] = []; // grouped data derived from controls-json
@@ -177,7 +204,10 @@ export class ControlCard {
       list.push({
         id: node.id,
         title,
-        description: (node.description || '').trim()
+        description: (node.description || '').trim(),
+        frameworks: Array.isArray(node.frameworks) ? node.frameworks : [], // older payloads omit mappings
+        evidence: Array.isArray(node.evidence) ? node.evidence : [], // older payloads omit evidence
+        locked: node.locked === true // nda teaser for this viewer
       });
 
       map.set(category, list);
@@ -245,6 +275,91 @@ export class ControlCard {
     );
   }
 
+  private renderFrameworkBadges(frameworks: ControlFramework[] | undefined) {
+    if (!frameworks || frameworks.length === 0) return null; // unmapped controls render no badge row
+
+    return (
+      <ul class="frameworks" aria-label="Framework mappings">
+        {frameworks.map(f => (
+          <li
+            class="framework-badge"
+            key={`${f.framework}:${f.requirementId}`}
+            title={f.requirementTitle}
+          >
+            {f.label} {f.requirementId}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  private renderEvidence(evidence: ControlEvidence[] | undefined) {
+    if (!evidence || evidence.length === 0) return null; // controls without evidence render description only
+
+    return (
+      <ul class="evidence" aria-label="Evidence">
+        {evidence.map(item => (
+          <li
+            class={`evidence-item${item.isExpired ? ' is-expired' : ''}`}
+            key={item.id}
+          >
+            {/* nda items still link: the download route answers 403 for viewers who are not cleared */}
+            <a
+              class="evidence-link"
+              href={item.downloadUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              {item.title}
+            </a>
+
+            <span class="evidence-dates">
+              Effective {item.effectiveDate}
+              {item.expiresOn ? `, expires ${item.expiresOn}` : ''}
+            </span>
+
+            {item.visibility === 'NDA' && <span class="evidence-tag">NDA</span>}
+
+            {item.isExpired && (
+              <span class="evidence-tag is-expired">Expired</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  private renderLockedRow(c: ControlGroup['items'][number]) {
+    return (
+      <li class="row is-locked" key={c.id} role="row">
+        <div class="row-left" role="cell">
+          <div class="row-title">
+            {c.title} <span class="evidence-tag">NDA</span>
+          </div>
+
+          {this.renderFrameworkBadges(c.frameworks)}
+
+          <div class="locked-note">
+            Available under NDA.{' '}
+            <button
+              class="locked-request"
+              type="button"
+              onClick={() =>
+                this.requestAccess.emit({ id: c.id, title: c.title })
+              }
+            >
+              Request access
+            </button>
+          </div>
+        </div>
+
+        <div class="row-right" role="cell">
+          {this.renderStatusIcon()}
+        </div>
+      </li>
+    );
+  }
+
   private renderTileHeader() {
     if (!this.showTile) return null; // caller opted out of tile header
 
@@ -311,19 +426,28 @@ export class ControlCard {
 
         <ul class="rows" role="rowgroup">
           {group.items.map(c => {
+            if (c.locked) return this.renderLockedRow(c); // server already blanked the detail
+
             const hasDesc = (c.description ?? '').trim().length > 0; // reveal body is optional per row
 
+            const hasEvidence = (c.evidence ?? []).length > 0; // evidence shares the reveal body
+
             return (
               <li class="row" key={c.id} role="row">
                 <div class="row-left" role="cell">
                   <div class="row-title">{c.title}</div>
 
-                  {hasDesc && (
+                  {this.renderFrameworkBadges(c.frameworks)}
+
+                  {(hasDesc || hasEvidence) && (
                     <div
                       class={`aon-reveal-wrap${expanded ? ' is-open' : ''}`}
                       aria-hidden={!expanded}
                     >
-                      <div class="aon-reveal-inner">{c.description}</div>
+                      <div class="aon-reveal-inner">
+                        {c.description}
+                        {this.renderEvidence(c.evidence)}
+                      </div>
                     </div>
                   )}
                 </div>
@@ -0,0 +1,336 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  --> framework coverage matrix (control categories x compliance frameworks)
+
+  - react owns fetching and passes coverage-json + loading/error props
+  - stencil owns parsing + rendering + per-framework expand state
+  - grid rows are control categories, columns are frameworks, cells count mapped controls
+  - cells with no mapped control and requirements with no control are marked as gaps
+  - one expandable card per framework lists every requirement with its control count
+  - no stencil network requests (pure prop-driven ui component)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { Component, Prop, State, Watch, h } from '@stencil/core';
+import type {
+  FrameworkCoverage,
+  FrameworkCoverageCell,
+  FrameworkCoverageColumn
+} from '../../../../types-shared';
+
+@Component({
+  tag: 'aon-coverage-matrix',
+  styleUrl: 'coverage-matrix.css',
+  shadow: true
+})
+export class CoverageMatrix {
+  // ---------- public api (attributes) ----------
+
+  @Prop() titleText?: string; // tile title text
+  @Prop() subtitleText?: string; // tile subtitle / helper copy
+  @Prop() coverageJson: string = ''; // react -> stencil serialized FrameworkCoverage
+  @Prop() isLoading: boolean = false; // react-controlled loading state
+  @Prop() errorText: string = ''; // react-controlled error state (api/network layer)
+
+  // ---------- internal state ----------
+
+  @State() coverage: FrameworkCoverage | null = null; // parsed matrix payload
+  @State() expandedByKey: Record<string, boolean> = {}; // per-framework open/closed ui state
+  @State() parseErrorText: string = ''; // local parse/shape validation error
+
+  // ---------- lifecycle ----------
+
+  componentWillLoad() {
+    this.syncCoverageFromJson(this.coverageJson); // initialize internal state from incoming props
+  }
+
+  // ---------- watchers ----------
+
+  @Watch('coverageJson')
+  onCoverageJsonChange() {
+    this.syncCoverageFromJson(this.coverageJson);
+  }
+
+  // ---------- data (react-fed json -> stencil ui state) ----------
+
+  private syncCoverageFromJson(raw: string) {
+    const text = (raw ?? '').trim(); // normalize null/undefined/whitespace payloads
+
+    // empty payload is not a parse error --> it represents "no data yet"
+    if (!text) {
+      this.coverage = null;
+      this.parseErrorText = '';
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(text) as FrameworkCoverage; // caller passes the serialized graphql payload
+
+      if (
+        !Array.isArray(parsed?.frameworks) ||
+        !Array.isArray(parsed?.categories)
+      )
+        throw new Error('missing frameworks or categories');
+
+      this.coverage = parsed;
+
+      this.parseErrorText = '';
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+
+      console.warn('[aon-coverage-matrix] coverage-json parse failed:', msg);
+
+      this.coverage = null;
+
+      this.parseErrorText = `INVALID_COVERAGE_JSON: ${msg}`;
+    }
+  }
+
+  private getDisplayErrorText(): string {
+    // api/network error from react layer wins over local parse error
+    const externalError = (this.errorText ?? '').trim();
+
+    if (externalError.length > 0) return externalError;
+
+    return (this.parseErrorText ?? '').trim();
+  }
+
+  // ---------- ui helpers ----------
+
+  private isExpanded(key: string): boolean {
+    return Boolean(this.expandedByKey[key]); // missing keys are closed by default
+  }
+
+  private toggleExpanded(key: string) {
+    // immutable update so stencil change detection sees a new object reference
+    this.expandedByKey = {
+      ...this.expandedByKey,
+      [key]: !this.isExpanded(key)
+    };
+  }
+
+  private renderToggle(expanded: boolean) {
+    // shared aon toggle icon pattern (plus -> minus animation handled in css)
+    return (
+      <span
+        class={`aon-toggle-icon${expanded ? ' is-open' : ''}`}
+        aria-hidden="true"
+      >
+        <span class="aon-toggle-bar-h" />
+        <span class="aon-toggle-bar-v" />
+      </span>
+    );
+  }
+
+  private renderTileHeader(coverage: FrameworkCoverage) {
+    const title = (this.titleText ?? '').trim(); // normalize optional strings
+
+    const subtitle = (this.subtitleText ?? '').trim();
+
+    const gapCount = coverage.frameworks.reduce(
+      (sum, column) =>
+        sum + column.requirementCount - column.coveredRequirementCount,
+      0
+    ); // requirements with no mapped control, across frameworks
+
+    const metaText = `${coverage.totalControls} controls ${coverage.categories.length} categories ${gapCount} requirement gaps`;
+
+    return (
+      <header class="tile-header">
+        <div class="tile-text">
+          {title.length > 0 && <h2 class="tile-title">{title}</h2>}
+
+          <div class="tile-meta">{metaText}</div>
+
+          {subtitle.length > 0 && <div class="tile-subtitle">{subtitle}</div>}
+        </div>
+      </header>
+    );
+  }
+
+  private renderCell(cell: FrameworkCoverageCell | undefined, label: string) {
+    if (!cell || cell.isGap) {
+      return (
+        <td class="cell is-gap" aria-label={`${label}: gap`}>
+          Gap
+        </td>
+      );
+    }
+
+    return (
+      <td class="cell">
+        <span class="cell-count">{cell.controlCount}</span>
+        <span class="cell-detail">
+          {cell.requirementCount}{' '}
+          {cell.requirementCount === 1 ? 'requirement' : 'requirements'}
+        </span>
+      </td>
+    );
+  }
+
+  private renderMatrix(coverage: FrameworkCoverage) {
+    return (
+      <div class="card matrix-card">
+        <div class="matrix-scroll">
+          <table class="matrix">
+            <thead>
+              <tr>
+                <th scope="col" class="col-category">
+                  Category
+                </th>
+                <th scope="col" class="col-total">
+                  Controls
+                </th>
+                {coverage.frameworks.map(column => (
+                  <th scope="col" key={column.framework}>
+                    <span class="col-label">{column.label}</span>
+                    <span class="col-detail">
+                      {column.coveredRequirementCount}/{column.requirementCount}{' '}
+                      requirements
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+
+            <tbody>
+              {coverage.categories.map(row => (
+                <tr key={`${row.section}:${row.category}`}>
+                  <th scope="row" class="col-category">
+                    <span class="row-category">{row.category}</span>
+                    <span class="row-section">{row.section}</span>
+                  </th>
+                  <td class="col-total">{row.controlCount}</td>
+                  {coverage.frameworks.map(column =>
+                    this.renderCell(
+                      row.cells.find(
+                        cell => cell.framework === column.framework
+                      ),
+                      `${row.category} ${column.label}`
+                    )
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  }
+
+  private renderFrameworkCard(column: FrameworkCoverageColumn) {
+    const key = column.framework; // framework id acts as expand-state key
+
+    const expanded = this.isExpanded(key);
+
+    const gapCount = column.requirementCount - column.coveredRequirementCount;
+
+    return (
+      <section
+        class="card"
+        key={key}
+        aria-label={`${column.label} requirements`}
+      >
+        <button
+          class="card-header"
+          type="button"
+          aria-expanded={expanded}
+          onClick={() => this.toggleExpanded(key)}
+        >
+          <div class="card-header-left">
+            <h3 class="card-title">{column.label}</h3>
+            <div class="card-meta">
+              {column.controlCount} controls {column.coveredRequirementCount}/
+              {column.requirementCount} requirements covered
+              {gapCount > 0 ? ` ${gapCount} gaps` : ''}
+            </div>
+          </div>
+
+          <div class="card-header-right">{this.renderToggle(expanded)}</div>
+        </button>
+
+        <div
+          class={`aon-reveal-wrap${expanded ? ' is-open' : ''}`}
+          aria-hidden={!expanded}
+        >
+          <div class="aon-reveal-inner">
+            <ul class="requirements">
+              {column.requirements.map(requirement => (
+                <li
+                  class={`requirement${requirement.isGap ? ' is-gap' : ''}`}
+                  key={requirement.requirementId}
+                >
+                  <span class="requirement-id">
+                    {requirement.requirementId}
+                  </span>
+                  <span class="requirement-title">
+                    {requirement.requirementTitle}
+                  </span>
+                  <span class="requirement-count">
+                    {requirement.isGap
+                      ? 'Gap'
+                      : `${requirement.controlCount} ${requirement.controlCount === 1 ? 'control' : 'controls'}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </section>
+    );
+  }
+
+  private renderStatusMessage() {
+    const finalErrorText = this.getDisplayErrorText(); // react error or local parse error
+
+    // error state has highest priority so users do not miss failures
+    if (finalErrorText.length > 0) {
+      return (
+        <div role="alert" aria-live="assertive">
+          {finalErrorText}
+        </div>
+      );
+    }
+
+    // show loading text only when there is no renderable data yet
+    if (this.isLoading && !this.coverage) {
+      return (
+        <div role="status" aria-live="polite">
+          Loading coverage...
+        </div>
+      );
+    }
+
+    // empty state after loading completes (or empty payload provided)
+    if (!this.coverage || this.coverage.categories.length === 0) {
+      return (
+        <div role="status" aria-live="polite">
+          No coverage available.
+        </div>
+      );
+    }
+
+    return null; // caller can render the matrix
+  }
+
+  // ---------- render ----------
+
+  render() {
+    const statusMessage = this.renderStatusMessage(); // compute once for render branch clarity
+
+    const coverage = this.coverage;
+
+    return (
+      <div class="wrap">
+        {statusMessage ??
+          (coverage && [
+            this.renderTileHeader(coverage),
+            this.renderMatrix(coverage),
+            <div class="frameworks">
+              {coverage.frameworks.map(column =>
+                this.renderFrameworkCard(column)
+              )}
+            </div>
+          ])}
+      </div>
+    );
+  }
+}
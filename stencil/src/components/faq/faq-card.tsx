@@ -5,10 +5,17 @@
   - react passes faqs-json + loading/error props
   - stencil owns parsing/grouping + expand/collapse + rendering
   - supports grouped faqs mode and single faq mode
+  - search reads can carry highlights; matched fragments render as <mark> (never innerHTML)
+  - locked nda faqs expand to an "Available under NDA." note (the server never sends the answer)
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 import { Component, Prop, State, Watch, h } from '@stencil/core';
-import type { Faq, FaqGroup, FaqsConnection } from '../../../../types-shared';
+import type {
+  Faq,
+  FaqGroup,
+  FaqsConnection,
+  SearchHighlight
+} from '../../../../types-shared';
 
 // ---------- local helpers ----------
 
@@ -16,8 +23,11 @@ type FaqRowItem = {
   id: string;
   question: string;
   answer: string;
+  highlights?: SearchHighlight[];
 };
 
+const MARK_SPLIT_PATTERN = /<mark>(.*?)<\/mark>/; // backend highlight markers (server/services/highlights.ts)
+
 @Component({
   tag: 'aon-faq-card',
   styleUrl: 'faq-card.css',
@@ -171,7 +181,9 @@ export class FaqCard {
 
       const question = (node.question || '').trim(); // normalize strings before rendering
 
-      const answer = (node.answer || '').trim();
+      const answer = node.locked
+        ? 'Available under NDA. Request access from the controls page.'
+        : (node.answer || '').trim(); // locked rows arrive with a blank answer
 
       if (!question) continue; // defensive skip (filter above already checks truthy, but trim may empty it)
 
@@ -180,7 +192,8 @@ export class FaqCard {
       list.push({
         id: node.id,
         question,
-        answer
+        answer,
+        ...(node.highlights?.length ? { highlights: node.highlights } : {}) // search reads only
       });
 
       map.set(category, list);
@@ -277,11 +290,26 @@ export class FaqCard {
     );
   }
 
+  private renderMarked(fragment: string) {
+    // split marker text into plain strings + <mark> nodes so highlight text is never parsed as html
+    return fragment
+      .split(MARK_SPLIT_PATTERN)
+      .map((part, index) =>
+        index % 2 === 1 ? <mark class="hit">{part}</mark> : part
+      ); // capture group puts every marked hit at an odd index
+  }
+
   private renderFaqRow(item: FaqRowItem) {
     const expanded = this.isExpanded(item.id); // row-local expand state
 
     const hasAnswer = (item.answer ?? '').trim().length > 0; // answer body can be absent
 
+    const highlights = item.highlights ?? [];
+
+    const questionHit = highlights.find(h => h.field === 'question'); // marked question replaces the plain one
+
+    const answerHits = highlights.filter(h => h.field === 'answer'); // answer matches preview under the question while collapsed
+
     return (
       <li class="row" key={item.id}>
         <button
@@ -290,7 +318,18 @@ export class FaqCard {
           aria-expanded={expanded}
           onClick={() => this.toggleExpanded(item.id)}
         >
-          <div class="row-question">{item.question}</div>
+          <div class="row-question">
+            {questionHit
+              ? this.renderMarked(questionHit.fragment)
+              : item.question}
+
+            {!expanded &&
+              answerHits.map(hit => (
+                <span class="row-snippet">
+                  {this.renderMarked(hit.fragment)}
+                </span>
+              ))}
+          </div>
           <div class="row-toggle">{this.renderToggle(expanded)}</div>
         </button>
 
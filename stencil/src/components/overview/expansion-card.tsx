@@ -9,17 +9,21 @@
   - no network requests in stencil
   - react passes controls-json + loading/error props
   - stencil groups controls by category + renders view-all behavior
+  - search reads can carry highlights; matched fragments render as <mark> (never innerHTML)
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~*/
 
 import { Component, Prop, State, Watch, h } from '@stencil/core';
 import type {
   Control,
   ControlsConnection,
-  ExpansionControlGroup
+  ExpansionControlGroup,
+  SearchHighlight
 } from '../../../../types-shared';
 
 // ---------- local helpers ----------
 
+const MARK_SPLIT_PATTERN = /<mark>(.*?)<\/mark>/; // backend highlight markers (server/services/highlights.ts)
+
 type ParsedExpansionControlsResult = {
   groupedCategories: ExpansionControlGroup[];
   totalControls: number;
@@ -227,6 +231,10 @@ export class ExpansionCard {
 
   private groupByCategory(nodes: Control[]): ExpansionControlGroup[] {
     const map = new Map<string, string[]>(); // category -> control titles
+    const highlightsByCategory = new Map<
+      string,
+      Record<string, SearchHighlight[]>
+    >(); // category -> title -> matched fragments (search reads only)
 
     nodes.forEach(node => {
       const category = (node.category || 'General').trim() || 'General'; // safe category fallback
@@ -239,14 +247,24 @@ export class ExpansionCard {
       next.push(title);
 
       map.set(category, next);
+
+      if (node.highlights?.length) {
+        highlightsByCategory.set(category, {
+          ...highlightsByCategory.get(category),
+          [title]: node.highlights
+        });
+      }
     });
 
     const groups: ExpansionControlGroup[] = [];
 
     map.forEach((titles, category) => {
+      const highlights = highlightsByCategory.get(category);
+
       groups.push({
         category,
-        titles: [...titles].sort((a, b) => a.localeCompare(b)) // stable alphabetical order in each category
+        titles: [...titles].sort((a, b) => a.localeCompare(b)), // stable alphabetical order in each category
+        ...(highlights ? { highlights } : {})
       });
     });
 
@@ -285,8 +303,20 @@ export class ExpansionCard {
 
   /* ---------- shared row render ---------- */
 
-  private renderBulletRow(text: string) {
+  private renderMarked(fragment: string) {
+    // split marker text into plain strings + <mark> nodes so highlight text is never parsed as html
+    return fragment
+      .split(MARK_SPLIT_PATTERN)
+      .map((part, index) =>
+        index % 2 === 1 ? <mark class="hit">{part}</mark> : part
+      ); // capture group puts every marked hit at an odd index
+  }
+
+  private renderBulletRow(text: string, highlights: SearchHighlight[] = []) {
     // shared row renderer used in both static mode and controls mode
+    const titleHit = highlights.find(h => h.field === 'title'); // marked title replaces the plain one
+    const snippets = highlights.filter(h => h.field === 'description'); // description matches show under the title
+
     return (
       <li class="item" key={text}>
         {this.iconSrc ? (
@@ -303,7 +333,13 @@ export class ExpansionCard {
           <span class="icon-dot" aria-hidden="true" />
         )}
 
-        <span class="text">{text}</span>
+        <span class="text">
+          {titleHit ? this.renderMarked(titleHit.fragment) : text}
+
+          {snippets.map(snippet => (
+            <span class="snippet">{this.renderMarked(snippet.fragment)}</span>
+          ))}
+        </span>
       </li>
     );
   }
@@ -456,7 +492,9 @@ export class ExpansionCard {
               </header>
 
               <ul class="list" role="list">
-                {visibleTitles.map(title => this.renderBulletRow(title))}
+                {visibleTitles.map(title =>
+                  this.renderBulletRow(title, group.highlights?.[title])
+                )}
 
                 {!isOpen && hiddenCount > 0 && (
                   <li class="more" aria-hidden="true">
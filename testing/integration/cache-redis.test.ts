@@ -0,0 +1,508 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  redis cache adapter integration coverage
+
+  what this file proves:
+    - RedisAdapter speaks real RESP over tcp (json values, SET EX ttl, namespaced keys)
+    - invalidatePrefix walks SCAN cursors and only deletes matching keys
+    - getOrSet is single-flight and never caches failed fetches
+    - redis outages degrade to cache misses instead of failed requests
+    - CACHE_ADAPTER=redis wires the adapter into the real graphql read + invalidation path
+
+  test strategy:
+    - an in-process redis-protocol stand-in (node:net) replaces a real redis server
+    - the graphql case forces seed fallback (no DATABASE_URL) like the taxonomy fallback tests
+    - server modules are imported dynamically so CACHE_ADAPTER is set before the cache singleton is created
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import type { Server as HttpServer } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { RedisAdapter } from '../../server/cache/redis';
+
+// ---------- in-process redis stand-in ----------
+
+type StoredValue = { value: string; expiresAt: number | null }; // expiresAt in epoch ms (null = no ttl)
+
+type Reply =
+  | { kind: 'simple'; text: string }
+  | { kind: 'error'; text: string }
+  | { kind: 'int'; value: number }
+  | { kind: 'bulk'; value: string | null }
+  | { kind: 'array'; items: Reply[] };
+
+function encodeReply(reply: Reply): string {
+  switch (reply.kind) {
+    case 'simple':
+      return `+${reply.text}\r\n`;
+    case 'error':
+      return `-${reply.text}\r\n`;
+    case 'int':
+      return `:${reply.value}\r\n`;
+    case 'bulk':
+      return reply.value === null
+        ? '$-1\r\n'
+        : `$${Buffer.byteLength(reply.value)}\r\n${reply.value}\r\n`;
+    case 'array':
+      return `*${reply.items.length}\r\n${reply.items.map(encodeReply).join('')}`;
+  }
+}
+
+// parses as many complete RESP arrays as the buffer holds; returns leftover bytes for the next chunk
+function parseCommands(buffer: Buffer): { commands: string[][]; rest: Buffer } {
+  const commands: string[][] = [];
+  let offset = 0;
+
+  outer: while (offset < buffer.length) {
+    if (buffer[offset] !== 0x2a) break; // clients always send arrays ("*")
+
+    let lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) break;
+
+    const count = Number(buffer.toString('utf8', offset + 1, lineEnd));
+    let cursor = lineEnd + 2;
+    const args: string[] = [];
+
+    for (let i = 0; i < count; i += 1) {
+      lineEnd = buffer.indexOf('\r\n', cursor);
+      if (lineEnd === -1) break outer;
+
+      const len = Number(buffer.toString('utf8', cursor + 1, lineEnd));
+      const start = lineEnd + 2;
+      if (buffer.length < start + len + 2) break outer;
+
+      args.push(buffer.toString('utf8', start, start + len));
+      cursor = start + len + 2;
+    }
+
+    commands.push(args);
+    offset = cursor;
+  }
+
+  return { commands, rest: buffer.subarray(offset) };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i] ?? '';
+
+    if (char === '\\') {
+      const next = pattern[i + 1] ?? '';
+      source += next.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      i += 1;
+    } else if (char === '*') source += '.*';
+    else if (char === '?') source += '.';
+    else source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+class RedisStandIn {
+  store = new Map<string, StoredValue>();
+  private keyOrder: string[] = []; // append-only, so SCAN cursors stay valid while keys are deleted
+  commandLog: string[] = []; // upper-cased command names in arrival order
+  private server = net.createServer(socket => this.onConnection(socket));
+  private sockets = new Set<net.Socket>();
+
+  async start(): Promise<number> {
+    await new Promise<void>(resolve =>
+      this.server.listen(0, '127.0.0.1', resolve)
+    );
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  ttlSecondsOf(key: string): number | null {
+    const entry = this.store.get(key);
+    if (!entry || entry.expiresAt === null) return null;
+    return Math.round((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  seed(key: string, value: unknown): void {
+    this.execute(['SET', key, JSON.stringify(value)]); // same path a client write takes
+  }
+
+  expireNow(key: string): void {
+    const entry = this.store.get(key);
+    if (entry) entry.expiresAt = Date.now() - 1; // simulates ttl elapsing without sleeping
+  }
+
+  private live(key: string): StoredValue | null {
+    const entry = this.store.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.store.delete(key); // lazy expiry like real redis
+      return null;
+    }
+    return entry;
+  }
+
+  private onConnection(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    let pending = Buffer.alloc(0);
+
+    socket.on('data', chunk => {
+      const parsed = parseCommands(Buffer.concat([pending, chunk]));
+      pending = parsed.rest;
+
+      for (const args of parsed.commands) {
+        socket.write(encodeReply(this.execute(args)));
+      }
+    });
+  }
+
+  private execute(args: string[]): Reply {
+    const name = (args[0] ?? '').toUpperCase();
+    this.commandLog.push(name);
+
+    switch (name) {
+      case 'PING':
+        return { kind: 'simple', text: 'PONG' };
+      case 'INFO':
+        return {
+          kind: 'bulk',
+          value: '# Server\r\nredis_version:7.0.0\r\nloading:0\r\n'
+        };
+      case 'SELECT':
+      case 'CLIENT':
+        return { kind: 'simple', text: 'OK' };
+      case 'QUIT':
+        return { kind: 'simple', text: 'OK' };
+      case 'GET':
+        return { kind: 'bulk', value: this.live(args[1] ?? '')?.value ?? null };
+      case 'SET': {
+        const [, key = '', value = ''] = args;
+        if (!this.keyOrder.includes(key)) this.keyOrder.push(key);
+        const exIndex = args.findIndex(arg => arg.toUpperCase() === 'EX');
+        const seconds = exIndex === -1 ? null : Number(args[exIndex + 1]);
+        this.store.set(key, {
+          value,
+          expiresAt: seconds === null ? null : Date.now() + seconds * 1000
+        });
+        return { kind: 'simple', text: 'OK' };
+      }
+      case 'DEL': {
+        let removed = 0;
+        for (const key of args.slice(1)) {
+          if (this.live(key) && this.store.delete(key)) removed += 1;
+        }
+        return { kind: 'int', value: removed };
+      }
+      case 'SCAN': {
+        const start = Number(args[1] ?? '0');
+        const matchIndex = args.findIndex(arg => arg.toUpperCase() === 'MATCH');
+        const countIndex = args.findIndex(arg => arg.toUpperCase() === 'COUNT');
+        const regex = globToRegExp(
+          matchIndex === -1 ? '*' : (args[matchIndex + 1] ?? '*')
+        );
+        const count = countIndex === -1 ? 10 : Number(args[countIndex + 1]);
+
+        const batch = this.keyOrder.slice(start, start + count); // cursor = position in the append-only key order
+        const next = start + count >= this.keyOrder.length ? 0 : start + count;
+
+        return {
+          kind: 'array',
+          items: [
+            { kind: 'bulk', value: String(next) },
+            {
+              kind: 'array',
+              items: batch
+                .filter(key => regex.test(key) && this.live(key) !== null)
+                .map(key => ({ kind: 'bulk' as const, value: key }))
+            }
+          ]
+        };
+      }
+      default:
+        return { kind: 'error', text: `ERR unknown command '${name}'` };
+    }
+  }
+}
+
+// ---------- shared lifecycle ----------
+
+const standIn = new RedisStandIn();
+let redisUrl = '';
+
+let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+
+beforeAll(async () => {
+  consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+  const port = await standIn.start();
+  redisUrl = `redis://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  await standIn.stop();
+
+  consoleLogSpy.mockRestore();
+  consoleWarnSpy.mockRestore();
+});
+
+async function withAdapter(
+  keyPrefix: string,
+  run: (adapter: RedisAdapter) => Promise<void>
+): Promise<void> {
+  const adapter = new RedisAdapter({ url: redisUrl, keyPrefix });
+
+  try {
+    await run(adapter);
+  } finally {
+    await adapter.close();
+  }
+}
+
+// ---------- adapter contract ----------
+
+describe('RedisAdapter against a redis-protocol stand-in', () => {
+  it('round-trips json values under namespaced keys with SET EX ttl', async () => {
+    await withAdapter('t1:', async adapter => {
+      const value = { edges: [{ id: 'a', tags: ['x'] }], totalCount: 1 };
+
+      await adapter.set('controls:list:page', value, 30);
+
+      expect(await adapter.get('controls:list:page')).toEqual(value);
+      expect(standIn.store.has('t1:controls:list:page')).toBe(true); // namespace applied once
+      expect(standIn.ttlSecondsOf('t1:controls:list:page')).toBe(30);
+      expect(await adapter.get('missing')).toBeNull();
+    });
+  });
+
+  it('treats expired and deleted keys as misses', async () => {
+    await withAdapter('t2:', async adapter => {
+      await adapter.set('a', 'one', 60);
+      await adapter.set('b', 'two', 60);
+
+      standIn.expireNow('t2:a');
+      await adapter.del('b');
+
+      expect(await adapter.get('a')).toBeNull();
+      expect(await adapter.get('b')).toBeNull();
+    });
+  });
+
+  it('invalidatePrefix scans every batch and only deletes matching keys', async () => {
+    await withAdapter('t3:', async adapter => {
+      for (let i = 0; i < 450; i += 1) {
+        await adapter.set(`controls:list:${i}`, i, 60); // more keys than one SCAN batch
+      }
+      await adapter.set('faqs:list:0', 'keep', 60);
+      standIn.seed('other-app:controls:list:0', 'foreign'); // same logical prefix in another namespace
+
+      await adapter.invalidatePrefix('controls:list:');
+
+      const remaining = [...standIn.store.keys()].filter(key =>
+        key.startsWith('t3:')
+      );
+      expect(remaining).toEqual(['t3:faqs:list:0']);
+      expect(standIn.store.has('other-app:controls:list:0')).toBe(true);
+    });
+  });
+
+  it('matches glob characters in prefixes literally', async () => {
+    await withAdapter('t4:', async adapter => {
+      await adapter.set('search:a*b:1', 1, 60);
+      await adapter.set('search:axxb:1', 2, 60);
+
+      await adapter.invalidatePrefix('search:a*b:');
+
+      expect(await adapter.get('search:a*b:1')).toBeNull();
+      expect(await adapter.get('search:axxb:1')).toBe(2);
+    });
+  });
+
+  it('getOrSet runs one fetch for concurrent misses and serves later reads from redis', async () => {
+    await withAdapter('t5:', async adapter => {
+      const fn = vi.fn(async () => ({ rows: [1, 2, 3] }));
+
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => adapter.getOrSet('k', 60, fn))
+      );
+
+      expect(fn).toHaveBeenCalledTimes(1);
+      for (const result of results) expect(result).toEqual({ rows: [1, 2, 3] });
+
+      expect(await adapter.getOrSet('k', 60, fn)).toEqual({ rows: [1, 2, 3] });
+      expect(fn).toHaveBeenCalledTimes(1); // second read is a redis hit
+    });
+  });
+
+  it('getOrSet does not cache failed fetches', async () => {
+    await withAdapter('t6:', async adapter => {
+      const failing = vi.fn(async () => {
+        throw new Error('db down');
+      });
+
+      await expect(adapter.getOrSet('k', 60, failing)).rejects.toThrow(
+        'db down'
+      );
+      expect(standIn.store.has('t6:k')).toBe(false);
+
+      const ok = vi.fn(async () => 'fresh');
+      expect(await adapter.getOrSet('k', 60, ok)).toBe('fresh');
+      expect(ok).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('degrades to misses when redis is unreachable', async () => {
+    const closed = net.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise<void>(resolve => closed.close(() => resolve())); // port is now refused
+
+    const adapter = new RedisAdapter({
+      url: `redis://127.0.0.1:${port}`,
+      keyPrefix: 't7:',
+      commandTimeoutMs: 200
+    });
+
+    try {
+      expect(await adapter.get('k')).toBeNull();
+      expect(await adapter.getOrSet('k', 60, async () => 'from-db')).toBe(
+        'from-db'
+      );
+      await expect(adapter.invalidatePrefix('k')).resolves.toBeUndefined();
+    } finally {
+      await adapter.close();
+    }
+  });
+});
+
+// ---------- graphql wiring ----------
+
+describe('CACHE_ADAPTER=redis graphql wiring', () => {
+  const originalEnv = {
+    CACHE_ADAPTER: process.env.CACHE_ADAPTER,
+    REDIS_URL: process.env.REDIS_URL,
+    REDIS_KEY_PREFIX: process.env.REDIS_KEY_PREFIX,
+    DATABASE_URL: process.env.DATABASE_URL,
+    ALLOW_SEED_FALLBACK: process.env.ALLOW_SEED_FALLBACK
+  };
+
+  let server: HttpServer;
+  let origin = '';
+  let sharedCache: RedisAdapter;
+  let closeDbPool: () => Promise<void>;
+
+  beforeAll(async () => {
+    process.env.CACHE_ADAPTER = 'redis';
+    process.env.REDIS_URL = redisUrl;
+    process.env.REDIS_KEY_PREFIX = 'gql:';
+    process.env.ALLOW_SEED_FALLBACK = 'true';
+    delete process.env.DATABASE_URL; // force seed fallback reads
+
+    const db = await import('../../server/db');
+    closeDbPool = db.closeDbPool;
+    await closeDbPool();
+
+    const cacheModule = await import('../../server/cache');
+    sharedCache = cacheModule.cache as RedisAdapter; // singleton built from the env above
+
+    const { createServer } = await import('../../server/server');
+    const app = createServer();
+
+    server = await new Promise<HttpServer>((resolve, reject) => {
+      const listener = app.listen(0, '127.0.0.1', () => resolve(listener));
+      listener.on('error', reject);
+    });
+
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    });
+
+    await sharedCache.close();
+    await closeDbPool();
+
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  async function postGraphQL(query: string) {
+    const response = await fetch(`${origin}/graphql`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ query })
+    });
+
+    return (await response.json()) as {
+      data?: Record<string, unknown>;
+      errors?: Array<{ message: string }>;
+    };
+  }
+
+  it('serves list reads from redis and clears them through adminInvalidateControlsReads', async () => {
+    const { buildControlsReadCacheKey } =
+      await import('../../server/cache/keys');
+    const redisKey = `gql:${buildControlsReadCacheKey({ first: 3 }, { authScope: 'public' })}`;
+
+    standIn.seed(redisKey, {
+      rows: [
+        {
+          id: 'redis-row-1',
+          control_key: 'redis_cached_control',
+          title: 'Served from redis',
+          description: 'cached page written by another server instance',
+          section: 'General',
+          category: 'General',
+          subcategory: null,
+          tags: [],
+          source_url: null,
+          updated_at: '2026-01-01T00:00:00.000Z' // json round-trip turns Date into string
+        }
+      ],
+      hasNextPage: false,
+      endCursor: null,
+      totalCount: 1,
+      source: 'db'
+    }); // only db-backed pages are cached, so seed the entry a db-backed instance would have written
+
+    const query =
+      '{ controlsConnection(first: 3) { totalCount edges { node { controlKey updatedAt } } } }';
+
+    const cachedRead = await postGraphQL(query);
+    expect(cachedRead.errors).toBeUndefined();
+    expect(cachedRead.data).toEqual({
+      controlsConnection: {
+        totalCount: 1,
+        edges: [
+          {
+            node: {
+              controlKey: 'redis_cached_control',
+              updatedAt: '2026-01-01T00:00:00.000Z'
+            }
+          }
+        ]
+      }
+    });
+
+    const invalidate = await postGraphQL(
+      'mutation { adminInvalidateControlsReads { invalidatedPrefix } }'
+    );
+    expect(invalidate.errors).toBeUndefined();
+    expect(standIn.store.has(redisKey)).toBe(false); // invalidation reached redis before the mutation returned
+
+    const freshRead = await postGraphQL(query);
+    expect(freshRead.errors).toBeUndefined();
+    expect(
+      (freshRead.data?.controlsConnection as { totalCount: number }).totalCount
+    ).toBeGreaterThan(1); // cache miss now falls through to the seed-backed read path
+  });
+});
@@ -0,0 +1,235 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  graphql integration coverage for the aiAnswer query
+
+  what this file proves:
+    - aiAnswer is queryable over the real http + yoga + schema path
+    - retrieval goes through the existing controls/faqs read paths (forced seed fallback here)
+    - the default local stub provider returns a deterministic, cited answer
+    - every citation points at a real controlKey/faqKey
+    - invalid questions surface as graphql errors instead of an answer
+
+  test strategy:
+    - explicitly enable ALLOW_SEED_FALLBACK and remove DATABASE_URL (same as taxonomy fallback coverage)
+    - force LLM_PROVIDER=stub so no network provider is ever selected
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { AddressInfo } from 'node:net';
+import type { Server as HttpServer } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServer } from '../../server/server';
+import { closeDbPool } from '../../server/db';
+import { cache } from '../../server/cache';
+import { resetSeedFallbackCachesForTests } from '../../server/services/seedFallback';
+import { setAiProviderForTests } from '../../server/ai/providers';
+
+// ---------- test server lifecycle ----------
+
+let server: HttpServer; // ephemeral listener created per test file run
+let origin = ''; // base url for fetch calls (http://127.0.0.1:PORT)
+
+// ---------- env snapshot ----------
+
+const originalDatabaseUrl = process.env.DATABASE_URL;
+const originalAllowSeedFallback = process.env.ALLOW_SEED_FALLBACK;
+const originalLlmProvider = process.env.LLM_PROVIDER;
+
+// ---------- optional log silencing ----------
+
+let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+
+// ---------- shared graphql test types ----------
+
+type GraphQLResponse<TData> = {
+  data?: TData;
+  errors?: Array<{ message: string }>;
+};
+
+type AiAnswerShape = {
+  question: string;
+  answer: string;
+  grounded: boolean;
+  provider: string;
+  requestId: string;
+  citations: Array<{
+    ref: string;
+    kind: 'CONTROL' | 'FAQ';
+    id: string;
+    controlKey: string | null;
+    faqKey: string | null;
+    title: string;
+    category: string;
+  }>;
+};
+
+const AI_ANSWER_QUERY = /* GraphQL */ `
+  query AiAnswer($question: String!) {
+    aiAnswer(question: $question) {
+      question
+      answer
+      grounded
+      provider
+      requestId
+      citations {
+        ref
+        kind
+        id
+        controlKey
+        faqKey
+        title
+        category
+      }
+    }
+  }
+`;
+
+// ---------- test environment helpers ----------
+
+function clearReadCaches(): void {
+  cache.invalidatePrefix?.('controls:list');
+  cache.invalidatePrefix?.('faqs:list');
+}
+
+function restoreEnvValue(
+  key: 'DATABASE_URL' | 'ALLOW_SEED_FALLBACK' | 'LLM_PROVIDER',
+  value: string | undefined
+): void {
+  if (value === undefined) delete process.env[key];
+  else process.env[key] = value;
+}
+
+beforeAll(async () => {
+  consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  await closeDbPool(); // never reuse a real db pool from another file
+  clearReadCaches();
+  resetSeedFallbackCachesForTests();
+  setAiProviderForTests(null); // re-read LLM_PROVIDER below
+
+  process.env.ALLOW_SEED_FALLBACK = 'true';
+  process.env.LLM_PROVIDER = 'stub';
+  delete process.env.DATABASE_URL; // force retrieval through seed fallback
+
+  const app = createServer();
+
+  server = await new Promise<HttpServer>((resolve, reject) => {
+    const listener = app.listen(0, '127.0.0.1', () => resolve(listener));
+    listener.on('error', reject);
+  });
+
+  const address = server.address();
+  if (!address || typeof address === 'string') {
+    throw new Error('graphql ai test server failed to bind to a TCP port');
+  }
+
+  origin = `http://127.0.0.1:${(address as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve, reject) => {
+    server.close(error => (error ? reject(error) : resolve()));
+  });
+
+  await closeDbPool();
+  clearReadCaches();
+  resetSeedFallbackCachesForTests();
+  setAiProviderForTests(null);
+  restoreEnvValue('DATABASE_URL', originalDatabaseUrl);
+  restoreEnvValue('ALLOW_SEED_FALLBACK', originalAllowSeedFallback);
+  restoreEnvValue('LLM_PROVIDER', originalLlmProvider);
+
+  consoleLogSpy.mockRestore();
+  consoleWarnSpy.mockRestore();
+  consoleErrorSpy.mockRestore();
+});
+
+// ---------- graphql test helper ----------
+
+async function postGraphQL<TData>(query: string, variables?: unknown) {
+  const response = await fetch(`${origin}/graphql`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ query, variables })
+  });
+
+  const json = (await response.json()) as GraphQLResponse<TData>;
+  return { response, json };
+}
+
+// ---------- aiAnswer coverage ----------
+
+describe('graphql aiAnswer integration', () => {
+  it('returns a grounded stub answer with controlKey/faqKey citations', async () => {
+    const { response, json } = await postGraphQL<{ aiAnswer: AiAnswerShape }>(
+      AI_ANSWER_QUERY,
+      { question: '  Is multi-factor authentication enforced?  ' }
+    );
+
+    expect(response.status).toBe(200);
+    expect(json.errors).toBeUndefined();
+
+    const result = json.data?.aiAnswer;
+    expect(result?.question).toBe('Is multi-factor authentication enforced?'); // question is normalized before retrieval
+    expect(result?.provider).toBe('local-stub');
+    expect(result?.grounded).toBe(true);
+    expect(result?.citations.length).toBeGreaterThan(0);
+    expect(result?.requestId.length).toBeGreaterThan(0);
+
+    for (const citation of result?.citations ?? []) {
+      expect(result?.answer).toContain(`[${citation.ref}]`); // every citation is referenced in the answer text
+      if (citation.kind === 'CONTROL') {
+        expect(typeof citation.controlKey).toBe('string');
+        expect(citation.faqKey).toBeNull();
+      } else {
+        expect(typeof citation.faqKey).toBe('string');
+        expect(citation.controlKey).toBeNull();
+      }
+    }
+  });
+
+  it('is deterministic for the same question', async () => {
+    const variables = { question: 'How is encryption key rotation handled?' };
+    const first = await postGraphQL<{ aiAnswer: AiAnswerShape }>(
+      AI_ANSWER_QUERY,
+      variables
+    );
+    const second = await postGraphQL<{ aiAnswer: AiAnswerShape }>(
+      AI_ANSWER_QUERY,
+      variables
+    );
+
+    expect(first.json.errors).toBeUndefined();
+    expect(first.json.data?.aiAnswer.answer).toBe(
+      second.json.data?.aiAnswer.answer
+    );
+    expect(first.json.data?.aiAnswer.citations).toEqual(
+      second.json.data?.aiAnswer.citations
+    );
+  });
+
+  it('returns an ungrounded answer when nothing matches', async () => {
+    const { json } = await postGraphQL<{ aiAnswer: AiAnswerShape }>(
+      AI_ANSWER_QUERY,
+      { question: 'zzqx flibbertigibbet' }
+    );
+
+    expect(json.errors).toBeUndefined();
+    expect(json.data?.aiAnswer.grounded).toBe(false);
+    expect(json.data?.aiAnswer.citations).toEqual([]);
+    expect(json.data?.aiAnswer.answer).toContain('could not find');
+  });
+
+  it('rejects blank questions with a validation error', async () => {
+    const { response, json } = await postGraphQL<{ aiAnswer: AiAnswerShape }>(
+      AI_ANSWER_QUERY,
+      { question: '   ' }
+    );
+
+    expect(response.status).toBe(200); // graphql application errors still use 200
+    expect(Array.isArray(json.errors)).toBe(true); // invalid questions fail through graphql errors[]
+    expect(json.data?.aiAnswer).toBeUndefined(); // no partial answer for rejected input
+  });
+});
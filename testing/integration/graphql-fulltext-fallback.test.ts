@@ -0,0 +1,400 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  graphql FULLTEXT search coverage in seed fallback mode
+
+  what this file proves:
+    - searchMode: FULLTEXT is accepted by controlsConnection, faqsConnection, and overviewSearch
+    - FULLTEXT matches stemmed words that SUBSTRING search misses
+    - FULLTEXT edges come back most-relevant first with rank-carrying cursors
+    - paging with a rank cursor walks the same ordering as one big page
+    - cursors from one search mode are rejected by the other
+    - search reads return marked highlights on Control + Faq nodes (null on plain list reads)
+
+  test strategy:
+    - explicitly enable ALLOW_SEED_FALLBACK and remove DATABASE_URL (same as taxonomy fallback coverage)
+    - the seed path uses the in-memory mirror of websearch_to_tsquery + ts_rank
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import type { AddressInfo } from 'node:net';
+import type { Server as HttpServer } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServer } from '../../server/server';
+import { closeDbPool } from '../../server/db';
+import { cache } from '../../server/cache';
+import { resetSeedFallbackCachesForTests } from '../../server/services/seedFallback';
+import { decodeCursor } from '../../server/services/pagination';
+
+// ---------- test server lifecycle ----------
+
+let server: HttpServer; // ephemeral listener created per test file run
+let origin = ''; // base url for fetch calls (http://127.0.0.1:PORT)
+
+// ---------- env snapshot ----------
+
+const originalDatabaseUrl = process.env.DATABASE_URL;
+const originalAllowSeedFallback = process.env.ALLOW_SEED_FALLBACK;
+
+// ---------- optional log silencing ----------
+
+let consoleLogSpy: ReturnType<typeof vi.spyOn>;
+let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+
+// ---------- shared graphql test types ----------
+
+type GraphQLResponse<TData> = {
+  data?: TData;
+  errors?: Array<{ message: string }>;
+};
+
+type ControlsConnectionShape = {
+  totalCount: number;
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  edges: Array<{
+    cursor: string;
+    node: { controlKey: string; title: string; description: string };
+  }>;
+};
+
+const CONTROLS_SEARCH_QUERY = /* GraphQL */ `
+  query ControlsSearch(
+    $first: Int!
+    $after: String
+    $search: String
+    $searchMode: SearchMode
+  ) {
+    controlsConnection(
+      first: $first
+      after: $after
+      search: $search
+      searchMode: $searchMode
+    ) {
+      totalCount
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      edges {
+        cursor
+        node {
+          controlKey
+          title
+          description
+        }
+      }
+    }
+  }
+`;
+
+// ---------- test environment helpers ----------
+
+function clearReadCaches(): void {
+  cache.invalidatePrefix?.('controls:list');
+  cache.invalidatePrefix?.('faqs:list');
+}
+
+function restoreEnvValue(
+  key: 'DATABASE_URL' | 'ALLOW_SEED_FALLBACK',
+  value: string | undefined
+): void {
+  if (value === undefined) delete process.env[key];
+  else process.env[key] = value;
+}
+
+beforeAll(async () => {
+  consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  await closeDbPool(); // never reuse a real db pool from another file
+  clearReadCaches();
+  resetSeedFallbackCachesForTests();
+
+  process.env.ALLOW_SEED_FALLBACK = 'true';
+  delete process.env.DATABASE_URL; // force reads through seed fallback
+
+  const app = createServer();
+
+  server = await new Promise<HttpServer>((resolve, reject) => {
+    const listener = app.listen(0, '127.0.0.1', () => resolve(listener));
+    listener.on('error', reject);
+  });
+
+  const address = server.address();
+  if (!address || typeof address === 'string') {
+    throw new Error(
+      'graphql fulltext test server failed to bind to a TCP port'
+    );
+  }
+
+  origin = `http://127.0.0.1:${(address as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve, reject) => {
+    server.close(error => (error ? reject(error) : resolve()));
+  });
+
+  await closeDbPool();
+  clearReadCaches();
+  resetSeedFallbackCachesForTests();
+  restoreEnvValue('DATABASE_URL', originalDatabaseUrl);
+  restoreEnvValue('ALLOW_SEED_FALLBACK', originalAllowSeedFallback);
+
+  consoleLogSpy.mockRestore();
+  consoleWarnSpy.mockRestore();
+  consoleErrorSpy.mockRestore();
+});
+
+// ---------- graphql test helper ----------
+
+async function postGraphQL<TData>(query: string, variables?: unknown) {
+  const response = await fetch(`${origin}/graphql`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ query, variables })
+  });
+
+  const json = (await response.json()) as GraphQLResponse<TData>;
+  return { response, json };
+}
+
+async function searchControls(variables: {
+  first: number;
+  after?: string;
+  search: string;
+  searchMode?: 'SUBSTRING' | 'FULLTEXT';
+}) {
+  return postGraphQL<{ controlsConnection: ControlsConnectionShape }>(
+    CONTROLS_SEARCH_QUERY,
+    variables
+  );
+}
+
+// ---------- FULLTEXT coverage ----------
+
+describe('graphql FULLTEXT search (seed fallback)', () => {
+  it('matches stemmed words that substring search misses', async () => {
+    const substring = await searchControls({ first: 50, search: 'encrypting' });
+    const fulltext = await searchControls({
+      first: 50,
+      search: 'encrypting',
+      searchMode: 'FULLTEXT'
+    });
+
+    expect(substring.json.errors).toBeUndefined();
+    expect(fulltext.json.errors).toBeUndefined();
+    expect(substring.json.data?.controlsConnection.totalCount).toBe(0); // no seed text contains "encrypting" literally
+
+    const edges = fulltext.json.data?.controlsConnection.edges ?? [];
+    expect(edges.length).toBeGreaterThan(0); // "encrypting", "encrypted", and "encryption" share one stem
+    expect(
+      edges.every(edge =>
+        `${edge.node.title} ${edge.node.description}`
+          .toLowerCase()
+          .includes('encrypt')
+      )
+    ).toBe(true);
+  });
+
+  it('returns edges most-relevant first with rank-carrying cursors', async () => {
+    const { json } = await searchControls({
+      first: 50,
+      search: 'access review',
+      searchMode: 'FULLTEXT'
+    });
+
+    expect(json.errors).toBeUndefined();
+
+    const ranks = (json.data?.controlsConnection.edges ?? []).map(
+      edge => decodeCursor(edge.cursor)?.rank
+    );
+
+    expect(ranks.length).toBeGreaterThan(1);
+    expect(ranks.every(rank => typeof rank === 'number')).toBe(true); // every FULLTEXT cursor encodes its rank
+    expect([...ranks].sort((a, b) => (b ?? 0) - (a ?? 0))).toEqual(ranks); // ranks never increase down the page
+  });
+
+  it('pages through FULLTEXT results with rank cursors in the same order as one big page', async () => {
+    const search = 'authentication or authorization';
+    const full = await searchControls({
+      first: 50,
+      search,
+      searchMode: 'FULLTEXT'
+    });
+    const expectedKeys = (full.json.data?.controlsConnection.edges ?? []).map(
+      edge => edge.node.controlKey
+    );
+
+    expect(expectedKeys.length).toBeGreaterThan(3); // enough rows to need several pages
+
+    const pagedKeys: string[] = [];
+    let after: string | undefined;
+
+    for (let i = 0; i < expectedKeys.length; i++) {
+      const { json } = await searchControls({
+        first: 3,
+        search,
+        searchMode: 'FULLTEXT',
+        ...(after ? { after } : {})
+      });
+      const connection = json.data?.controlsConnection;
+
+      expect(json.errors).toBeUndefined();
+      pagedKeys.push(...(connection?.edges ?? []).map(e => e.node.controlKey));
+
+      if (!connection?.pageInfo.hasNextPage) break;
+      after = connection.pageInfo.endCursor ?? undefined;
+    }
+
+    expect(pagedKeys).toEqual(expectedKeys); // no rows skipped or repeated across page boundaries
+  });
+
+  it('rejects cursors issued for the other search mode', async () => {
+    const ranked = await searchControls({
+      first: 1,
+      search: 'access',
+      searchMode: 'FULLTEXT'
+    });
+    const rankCursor =
+      ranked.json.data?.controlsConnection.pageInfo.endCursor ?? '';
+
+    expect(decodeCursor(rankCursor)?.rank).toBeTypeOf('number');
+
+    const { json } = await searchControls({
+      first: 1,
+      after: rankCursor,
+      search: 'access'
+    });
+
+    expect(Array.isArray(json.errors)).toBe(true); // ranked cursor cannot page a substring read
+  });
+
+  it('applies the search mode to both overviewSearch buckets', async () => {
+    const { json } = await postGraphQL<{
+      overviewSearch: {
+        search: string;
+        searchMode: string;
+        controls: { totalCount: number; edges: Array<{ cursor: string }> };
+        faqs: { totalCount: number; edges: Array<{ cursor: string }> };
+      };
+    }>(
+      /* GraphQL */ `
+        query Overview($search: String!) {
+          overviewSearch(
+            search: $search
+            firstPerKind: 3
+            searchMode: FULLTEXT
+          ) {
+            search
+            searchMode
+            controls {
+              totalCount
+              edges {
+                cursor
+              }
+            }
+            faqs {
+              totalCount
+              edges {
+                cursor
+              }
+            }
+          }
+        }
+      `,
+      { search: 'encrypted data' }
+    );
+
+    expect(json.errors).toBeUndefined();
+    expect(json.data?.overviewSearch.searchMode).toBe('FULLTEXT'); // backend echoes the mode it used
+
+    const cursors = [
+      ...(json.data?.overviewSearch.controls.edges ?? []),
+      ...(json.data?.overviewSearch.faqs.edges ?? [])
+    ].map(edge => decodeCursor(edge.cursor));
+
+    expect(cursors.length).toBeGreaterThan(0);
+    expect(cursors.every(cursor => typeof cursor?.rank === 'number')).toBe(
+      true
+    ); // both buckets went through the ranked path
+  });
+
+  it('returns marked highlights for search reads and null for plain lists', async () => {
+    const { json } = await postGraphQL<{
+      controlsConnection: {
+        edges: Array<{
+          node: { highlights: Array<{ field: string; fragment: string }> };
+        }>;
+      };
+      faqsConnection: {
+        edges: Array<{
+          node: { highlights: Array<{ field: string; fragment: string }> };
+        }>;
+      };
+      plain: { edges: Array<{ node: { highlights: unknown } }> };
+    }>(
+      /* GraphQL */ `
+        query Highlights($search: String!) {
+          controlsConnection(first: 5, search: $search, searchMode: FULLTEXT) {
+            edges {
+              node {
+                highlights {
+                  field
+                  fragment
+                }
+              }
+            }
+          }
+          faqsConnection(first: 5, search: $search) {
+            edges {
+              node {
+                highlights {
+                  field
+                  fragment
+                }
+              }
+            }
+          }
+          plain: controlsConnection(first: 2) {
+            edges {
+              node {
+                highlights {
+                  field
+                }
+              }
+            }
+          }
+        }
+      `,
+      { search: 'encrypted' }
+    );
+
+    expect(json.errors).toBeUndefined();
+
+    const controlHighlights = (
+      json.data?.controlsConnection.edges ?? []
+    ).flatMap(edge => edge.node.highlights);
+    const faqHighlights = (json.data?.faqsConnection.edges ?? []).flatMap(
+      edge => edge.node.highlights
+    );
+
+    expect(controlHighlights.length).toBeGreaterThan(0);
+    expect(
+      controlHighlights.every(
+        item =>
+          ['title', 'description'].includes(item.field) &&
+          /<mark>encrypt\w*<\/mark>/i.test(item.fragment)
+      )
+    ).toBe(true); // FULLTEXT marks every stemmed form of the term
+    expect(
+      faqHighlights.every(item =>
+        /<mark>encrypted<\/mark>/i.test(item.fragment)
+      )
+    ).toBe(true); // SUBSTRING marks the literal term
+    expect(
+      (json.data?.plain.edges ?? []).every(
+        edge => edge.node.highlights === null
+      )
+    ).toBe(true); // no search term -> nothing to highlight
+  });
+});
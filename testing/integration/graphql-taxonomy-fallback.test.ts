@@ -7,6 +7,7 @@
     - faqsConnection exposes section/category/subcategory/tags without a db
     - fallback mode is actually exercised (not silently bypassed) because the resolver logs fallback_to_seed
     - category/search args still work while returning the expanded node contract
+    - frameworkCoverage builds the category x framework grid from seed rows without a db
 
   test strategy:
     - explicitly enable ALLOW_SEED_FALLBACK
@@ -206,7 +207,7 @@ function expectFallbackTaxonomyNodeShape(
 }
 
 function expectFallbackWarning(
-  resolverName: 'controlsConnection' | 'faqsConnection'
+  resolverName: 'controlsConnection' | 'faqsConnection' | 'frameworkCoverage'
 ): void {
   const warnLines = getWarnLines();
 
@@ -341,4 +342,62 @@ describe('graphql taxonomy fallback integration', () => {
     expect(typeof firstNode?.question).toBe('string'); // existing field should still work
     expectFallbackWarning('faqsConnection');
   });
+
+  it('returns the framework coverage grid in forced fallback mode', async () => {
+    const { response, json } = await postGraphQL<{
+      frameworkCoverage: {
+        totalControls: number;
+        frameworks: Array<{
+          framework: string;
+          requirementCount: number;
+          coveredRequirementCount: number;
+        }>;
+        categories: Array<{
+          category: string;
+          controlCount: number;
+          cells: Array<{ framework: string; isGap: boolean }>;
+        }>;
+      };
+    }>(/* GraphQL */ `
+      query FrameworkCoverageFallback {
+        frameworkCoverage {
+          totalControls
+          frameworks {
+            framework
+            requirementCount
+            coveredRequirementCount
+          }
+          categories {
+            category
+            controlCount
+            cells {
+              framework
+              isGap
+            }
+          }
+        }
+      }
+    `);
+
+    expectSuccessfulGraphQLResponse({ response, json });
+
+    const coverage = json.data?.frameworkCoverage;
+    expect(coverage?.totalControls).toBeGreaterThan(0); // seed corpus has published controls
+    expect(coverage?.frameworks.map(column => column.framework)).toEqual([
+      'SOC2',
+      'ISO27001',
+      'NIST_CSF'
+    ]); // graphql enum values, fixed column order
+    expect(
+      coverage?.frameworks.some(
+        column => column.coveredRequirementCount < column.requirementCount
+      )
+    ).toBe(true); // frameworks.json ships uncovered requirements as gaps
+    expect(
+      coverage?.categories.every(
+        row => row.cells.length === coverage.frameworks.length
+      )
+    ).toBe(true); // every row has one cell per column
+    expectFallbackWarning('frameworkCoverage');
+  });
 });
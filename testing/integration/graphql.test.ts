@@ -6,6 +6,9 @@
     - debug/root graphql queries execute without db access
     - per-request graphql context is created (requestId + auth defaults)
     - request headers can derive demo-grade admin auth state
+    - narrower rbac roles are denied with a structured FORBIDDEN error code
+    - a bearer token that cannot be verified answers 401 with an UNAUTHENTICATED code
+    - a too-deep document is rejected at validation (no data + QUERY_TOO_DEEP) and the response carries RateLimit headers
     - invalid cursor validation returns a graphql error response (200 + errors[])
 
   why this is a strong first graphql integration test:
@@ -79,6 +82,11 @@ async function postGraphQL<T = unknown>(
   return { response, json };
 }
 
+function restoreEnv(name: string, previous: string | undefined): void {
+  if (previous === undefined) delete process.env[name];
+  else process.env[name] = previous;
+}
+
 // ---------- integration smoke tests ----------
 
 describe('graphql integration smoke', () => {
@@ -120,7 +128,9 @@ describe('graphql integration smoke', () => {
 
   it('derives admin auth state from x-admin-token when ADMIN_SECRET matches', async () => {
     const previousAdminSecret = process.env.ADMIN_SECRET; // preserve ambient env so this test does not leak state
+    const previousDevTokens = process.env.AUTH_DEV_TOKENS;
     process.env.ADMIN_SECRET = 'replace-me'; // demo secret used by the test request header
+    process.env.AUTH_DEV_TOKENS = 'true'; // the shared-secret header is opt-in dev mode
 
     try {
       const { response, json } = await postGraphQL<{
@@ -156,9 +166,139 @@ describe('graphql integration smoke', () => {
       } else {
         process.env.ADMIN_SECRET = previousAdminSecret; // restore original env value
       }
+      restoreEnv('AUTH_DEV_TOKENS', previousDevTokens);
+    }
+  });
+
+  it('denies an editor token the cache:invalidate permission with a FORBIDDEN code', async () => {
+    const previousEditorSecret = process.env.EDITOR_SECRET; // preserve ambient env so this test does not leak state
+    const previousDevTokens = process.env.AUTH_DEV_TOKENS;
+    process.env.EDITOR_SECRET = 'editor-token'; // demo editor secret used by the test request header
+    process.env.AUTH_DEV_TOKENS = 'true'; // the shared-secret header is opt-in dev mode
+
+    try {
+      const { json } = await postGraphQL<{
+        data?: unknown;
+        errors?: Array<{
+          message: string;
+          extensions?: { code?: string; requiredPermission?: string };
+        }>;
+      }>(
+        /* GraphQL */ `
+          mutation EditorInvalidateSmoke {
+            adminInvalidateControlsReads {
+              ok
+            }
+          }
+        `,
+        undefined,
+        {
+          'x-admin-token': 'editor-token'
+        }
+      );
+
+      expect(json.errors?.[0]?.message).toBe(
+        'FORBIDDEN: cache:invalidate permission required'
+      );
+      expect(json.errors?.[0]?.extensions).toMatchObject({
+        code: 'FORBIDDEN',
+        requiredPermission: 'cache:invalidate'
+      }); // structured code survives yoga error masking
+
+      const debug = await postGraphQL<{
+        data?: { debugContext: { roles: string[]; permissions: string[] } };
+      }>(
+        /* GraphQL */ `
+          query EditorDebugSmoke {
+            debugContext {
+              roles
+              permissions
+            }
+          }
+        `,
+        undefined,
+        {
+          'x-admin-token': 'editor-token'
+        }
+      );
+
+      expect(debug.json.data?.debugContext).toEqual({
+        roles: ['editor'],
+        permissions: ['content:write']
+      });
+    } finally {
+      if (previousEditorSecret === undefined) {
+        delete process.env.EDITOR_SECRET; // restore prior missing state
+      } else {
+        process.env.EDITOR_SECRET = previousEditorSecret; // restore original env value
+      }
+      restoreEnv('AUTH_DEV_TOKENS', previousDevTokens);
     }
   });
 
+  it('answers 401 for a bearer token the server cannot verify', async () => {
+    const { response, json } = await postGraphQL<{
+      errors?: Array<{ message: string; extensions?: { code?: string } }>;
+    }>(
+      /* GraphQL */ `
+        query BearerSmoke {
+          debugContext {
+            requestId
+          }
+        }
+      `,
+      undefined,
+      {
+        authorization: 'Bearer not.a.token'
+      }
+    );
+
+    expect(response.status).toBe(401); // a presented credential never downgrades to anonymous
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    expect(json.errors?.[0]?.extensions?.code).toBe('UNAUTHENTICATED');
+  });
+
+  it('rejects a document past the depth limit before execution, with rate limit headers', async () => {
+    const { response, json } = await postGraphQL<{
+      data?: unknown;
+      errors?: Array<{ message: string; extensions?: { code?: string } }>;
+    }>(/* GraphQL */ `
+      query TooDeep {
+        controlsConnection(first: 1) {
+          edges {
+            node {
+              revisions(first: 1) {
+                control {
+                  revisions(first: 1) {
+                    control {
+                      revisions(first: 1) {
+                        control {
+                          revisions(first: 1) {
+                            control {
+                              id
+                            }
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `);
+
+    expect(response.status).toBe(200); // validation errors ride in errors[] like other graphql errors
+    expect(response.headers.get('ratelimit-limit')).toBe('120'); // default per-ip bucket
+    expect(json.data).toBeUndefined(); // rejected before execution  -->  no resolver or db work ran
+    expect(json.errors?.[0]?.extensions?.code).toBe('QUERY_TOO_DEEP');
+    expect(json.errors?.[0]?.message).toBe(
+      'QUERY_TOO_DEEP: query depth 12 exceeds the limit of 10'
+    );
+  });
+
   it('returns a graphql error for invalid controlsConnection cursor (pre-service validation)', async () => {
     const { response, json } = await postGraphQL<{
       data?: unknown;
@@ -5,6 +5,8 @@
     - vitest can import and boot the express app
     - /api/health responds with the expected JSON contract
     - unknown routes return the shared JSON 404 shape
+    - bad export file names return a JSON 400 before any db work
+    - unknown questionnaire exports return a JSON 404 from the mapping file alone
 
   why this is a strong first integration test:
     - fast
@@ -91,4 +93,29 @@ describe('server integration smoke', () => {
       error: 'not found'
     }); // verifies your standardized 404 JSON contract
   });
+
+  it('returns JSON 400 for unsupported export formats', async () => {
+    const response = await fetch(`${origin}/api/export/controls.xml`);
+
+    expect(response.status).toBe(400); // validation runs before the stream starts
+    expect(await response.json()).toEqual({
+      ok: false,
+      error:
+        'VALIDATION_ERROR: export must be controls or faqs as .csv or .json'
+    });
+  });
+
+  it('returns JSON 404 for unknown questionnaires', async () => {
+    const response = await fetch(
+      `${origin}/api/export/questionnaires/not-a-questionnaire.csv`
+    );
+
+    expect(response.status).toBe(404); // the manifest lookup fails before any content read
+    expect(await response.json()).toMatchObject({
+      ok: false,
+      error: expect.stringMatching(
+        /^NOT_FOUND_ERROR: unknown questionnaire "not-a-questionnaire"/
+      )
+    });
+  });
 });
@@ -0,0 +1,257 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  ai pipeline unit coverage (no db, no network)
+
+  - keyword extraction drops filler words and bounds fan-out
+  - the local stub provider is deterministic and cites its sources
+  - the openai provider sends max_completion_tokens, skips temperature for gpt-5, and times out (fetch stubbed)
+  - validation strips citations that do not point at retrieved sources
+  - context formatting respects the character budget
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AiPipelineState, AiSource } from '../../server/types-backend';
+import { extractKeywords } from '../../server/ai/kb';
+import {
+  createAiProviderFromEnv,
+  LocalStubProvider
+} from '../../server/ai/providers';
+import { format, normalizeQuestion, validate } from '../../server/ai/graph';
+import {
+  buildContextBlock,
+  NO_ANSWER_TEXT,
+  SYSTEM_PROMPT
+} from '../../server/ai/prompts';
+
+// ---------- fixtures ----------
+
+function makeSource(ref: string, overrides: Partial<AiSource> = {}): AiSource {
+  return {
+    ref,
+    kind: 'CONTROL',
+    id: `id-${ref}`,
+    controlKey: `control_${ref.toLowerCase()}`,
+    faqKey: null,
+    title: `Title ${ref}`,
+    body: `Body sentence for ${ref}. Second sentence is ignored.`,
+    category: 'Access Control',
+    sourceUrl: null,
+    score: 1,
+    ...overrides
+  };
+}
+
+function makeState(overrides: Partial<AiPipelineState>): AiPipelineState {
+  return {
+    question: 'question',
+    sources: [],
+    draft: null,
+    citedRefs: [],
+    answer: '',
+    ...overrides
+  };
+}
+
+// ---------- keyword extraction ----------
+
+describe('ai keyword extraction', () => {
+  it('drops stopwords and short fragments, longest keywords first', () => {
+    expect(extractKeywords('How does CyQu enforce MFA for admins?')).toEqual([
+      'enforce',
+      'admins',
+      'cyqu',
+      'mfa'
+    ]);
+  });
+
+  it('caps keyword fan-out', () => {
+    const many = 'alpha bravo charlie delta echoes foxtrot golfer hotels';
+    expect(extractKeywords(many)).toHaveLength(6);
+  });
+});
+
+// ---------- stub provider ----------
+
+describe('local stub provider', () => {
+  it('quotes lead sentences with citations deterministically', async () => {
+    const provider = new LocalStubProvider();
+    const input = {
+      question: 'q',
+      systemPrompt: SYSTEM_PROMPT,
+      userPrompt: 'u',
+      sources: [makeSource('S1'), makeSource('S2', { kind: 'FAQ' })],
+      maxTokens: 100,
+      temperature: 0
+    };
+
+    const first = await provider.generate(input);
+    const second = await provider.generate(input);
+
+    expect(first.text).toBe(
+      'Body sentence for S1 [S1]. Body sentence for S2 [S2].'
+    );
+    expect(second.text).toBe(first.text);
+  });
+
+  it('returns the fixed no-answer copy without sources', async () => {
+    const out = await new LocalStubProvider().generate({
+      question: 'q',
+      systemPrompt: SYSTEM_PROMPT,
+      userPrompt: 'u',
+      sources: [],
+      maxTokens: 100,
+      temperature: 0
+    });
+
+    expect(out.text).toBe(NO_ANSWER_TEXT);
+  });
+});
+
+// ---------- openai-compatible provider ----------
+
+describe('openai-compatible provider', () => {
+  const INPUT = {
+    question: 'q',
+    systemPrompt: SYSTEM_PROMPT,
+    userPrompt: 'u',
+    sources: [],
+    maxTokens: 100,
+    temperature: 0.2
+  };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  function stubFetch() {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      Response.json({ choices: [{ message: { content: 'ok [S1]' } }] })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  function sentBody(fetchMock: ReturnType<typeof stubFetch>) {
+    return JSON.parse(String(fetchMock.mock.calls[0]?.[1].body)) as Record<
+      string,
+      unknown
+    >;
+  }
+
+  it('sends max_completion_tokens and leaves temperature out for gpt-5', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('OPENAI_MODEL', 'gpt-5-nano'); // the default model
+    const fetchMock = stubFetch();
+
+    const out = await createAiProviderFromEnv().generate(INPUT);
+
+    expect(out).toEqual({ text: 'ok [S1]', model: 'gpt-5-nano' });
+    const body = sentBody(fetchMock);
+    expect(body.max_completion_tokens).toBe(100);
+    expect(body).not.toHaveProperty('max_tokens');
+    expect(body).not.toHaveProperty('temperature'); // gpt-5 rejects anything but its default
+    expect(fetchMock.mock.calls[0]?.[1].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('keeps temperature for models that take it', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('OPENAI_MODEL', 'gpt-4.1-mini');
+    const fetchMock = stubFetch();
+
+    await createAiProviderFromEnv().generate(INPUT);
+
+    expect(sentBody(fetchMock).temperature).toBe(0.2);
+  });
+
+  it('gives up after LLM_TIMEOUT_MS', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('LLM_TIMEOUT_MS', '20');
+    vi.stubGlobal(
+      'fetch',
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () =>
+            reject(init.signal?.reason)
+          );
+        })
+    ); // a provider that never answers
+
+    await expect(createAiProviderFromEnv().generate(INPUT)).rejects.toThrow(
+      'AI_PROVIDER_ERROR: openai request failed: timed out after 20ms'
+    );
+  });
+});
+
+// ---------- validate + format ----------
+
+describe('ai validate + format steps', () => {
+  it('keeps known citations in first-mention order and strips invented ones', () => {
+    const sources = [makeSource('S1'), makeSource('S2')];
+    const validated = validate(
+      makeState({
+        sources,
+        draft: { text: 'B is true [S2]. A is true [S1] [S9]. [S2]', model: 'm' }
+      })
+    );
+
+    expect(validated.citedRefs).toEqual(['S2', 'S1']);
+    expect(validated.answer).toBe('B is true [S2]. A is true [S1]. [S2]');
+
+    const formatted = format(validated, new LocalStubProvider());
+    expect(formatted.grounded).toBe(true);
+    expect(formatted.citations.map(c => c.controlKey)).toEqual([
+      'control_s2',
+      'control_s1'
+    ]);
+  });
+
+  it('marks answers without valid citations as ungrounded', () => {
+    const validated = validate(
+      makeState({
+        sources: [makeSource('S1')],
+        draft: { text: 'Made up claim [S4].', model: 'm' }
+      })
+    );
+
+    const formatted = format(validated, new LocalStubProvider());
+    expect(formatted.grounded).toBe(false);
+    expect(formatted.citations).toEqual([]);
+    expect(formatted.answer).toBe('Made up claim.');
+  });
+
+  it('falls back to the no-answer copy for empty provider output', () => {
+    const validated = validate(
+      makeState({
+        sources: [makeSource('S1')],
+        draft: { text: ' ', model: 'm' }
+      })
+    );
+
+    expect(validated.answer).toBe(NO_ANSWER_TEXT);
+  });
+});
+
+// ---------- input + context bounds ----------
+
+describe('ai input + context bounds', () => {
+  it('normalizes and bounds questions', () => {
+    expect(normalizeQuestion('  is   data encrypted? ')).toBe(
+      'is data encrypted?'
+    );
+    expect(() => normalizeQuestion('hi')).toThrow('VALIDATION_ERROR');
+    expect(() => normalizeQuestion('x'.repeat(501))).toThrow(
+      'VALIDATION_ERROR'
+    );
+  });
+
+  it('keeps at least one source and stops at the character budget', () => {
+    const sources = [makeSource('S1'), makeSource('S2'), makeSource('S3')];
+    const context = buildContextBlock(sources, 150);
+
+    expect(context).toContain('[S1]');
+    expect(context).not.toContain('[S3]');
+  });
+});
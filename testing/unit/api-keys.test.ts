@@ -0,0 +1,228 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  machine-client api key unit coverage (no db)
+
+  what this file proves:
+    - issued keys are stored as a hash only and the plaintext comes back once
+    - issue inputs need a name and at least one known scope
+    - x-api-key resolves the key, bumps its usage counters, and carries its identity on AuthState
+    - scopes map onto access: admin -> admin role, read:nda -> nda downloads, read:public -> neither
+    - unknown / revoked keys fail with a 401 instead of going anonymous, and skip the local-dev bypass
+    - only apikeys:manage can issue keys
+
+  test strategy:
+    - fake db adapter records every statement instead of talking to postgres
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import {
+  assertPermission,
+  buildRoleAuth,
+  extractAuth,
+  hashApiKey
+} from '../../server/auth';
+import {
+  issueApiKey,
+  revokeApiKey,
+  type DbApiKeyRow
+} from '../../server/services/apiKeyService';
+import { canDownloadNdaEvidence } from '../../server/services/evidenceService';
+import { validateIssueApiKeyInput } from '../../server/services/validation';
+import { mutationResolvers } from '../../server/graphql/mutations';
+
+// ---------- fixtures ----------
+
+const KEY_ID = '00000000-0000-4000-8000-0000000000a1';
+
+function makeKeyRow(overrides: Partial<DbApiKeyRow> = {}): DbApiKeyRow {
+  return {
+    id: KEY_ID,
+    name: 'Partner portal',
+    key_prefix: 'tc_abcdefgh',
+    scopes: ['read:public'],
+    usage_count: '0',
+    last_used_at: null,
+    created_at: '2026-10-01T00:00:00.000Z',
+    created_by: 'admin@local',
+    revoked_at: null,
+    revoked_by: null,
+    ...overrides
+  };
+}
+
+function makeDb(rows: unknown[] = []) {
+  const query = vi.fn(async (_sql: string, _params?: unknown[]) => ({
+    rows
+  }));
+  return { query };
+}
+
+function keyRequest(key: string, headers: Record<string, string> = {}) {
+  return new Request('http://localhost/graphql', {
+    headers: { 'x-api-key': key, ...headers }
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+// ---------- issue + revoke ----------
+
+describe('api key admin writes', () => {
+  it('stores only the hash and returns the plaintext key once', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {}); // issue log line
+    const db = makeDb([makeKeyRow({ scopes: ['read:public', 'read:nda'] })]);
+
+    const issued = await issueApiKey(
+      { name: '  Partner   portal ', scopes: ['read:nda', 'read:public'] },
+      {
+        db,
+        auth: buildRoleAuth('admin@local', ['admin']),
+        requestId: 'req-keys'
+      } as unknown as GraphQLContext
+    );
+
+    expect(issued.key).toMatch(/^tc_[\w-]{43}$/);
+    const params = db.query.mock.calls[0]?.[1] ?? [];
+    expect(params).toEqual([
+      'Partner portal',
+      issued.key.slice(0, 11),
+      hashApiKey(issued.key),
+      ['read:nda', 'read:public'],
+      'admin@local'
+    ]);
+    expect(JSON.stringify(db.query.mock.calls)).not.toContain(issued.key); // plaintext never reaches sql
+  });
+
+  it('validates names + scopes before any db work', () => {
+    expect(
+      validateIssueApiKeyInput({
+        name: 'Portal',
+        scopes: ['read:public', 'READ:PUBLIC']
+      }).scopes
+    ).toEqual(['read:public']);
+    expect(() =>
+      validateIssueApiKeyInput({ name: 'Portal', scopes: [] })
+    ).toThrow('VALIDATION_ERROR: scopes must include at least one scope');
+    expect(() =>
+      validateIssueApiKeyInput({ name: 'Portal', scopes: ['write:all'] })
+    ).toThrow('VALIDATION_ERROR: unknown api key scope: write:all');
+    expect(() =>
+      validateIssueApiKeyInput({ name: ' ', scopes: ['admin'] })
+    ).toThrow('VALIDATION_ERROR: name is required');
+  });
+
+  it('reports unknown ids as not found', async () => {
+    const ctx = {
+      db: makeDb([]),
+      auth: buildRoleAuth('admin@local', ['admin']),
+      requestId: 'req-keys'
+    } as unknown as GraphQLContext;
+
+    await expect(revokeApiKey('not-a-uuid', ctx)).rejects.toThrow(
+      'NOT_FOUND_ERROR: api key not-a-uuid not found'
+    );
+    await expect(revokeApiKey(KEY_ID, ctx)).rejects.toThrow(
+      `NOT_FOUND_ERROR: api key ${KEY_ID} not found`
+    );
+  });
+
+  it('lets only apikeys:manage issue keys', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const db = makeDb();
+
+    await expect(
+      mutationResolvers.Mutation.adminIssueApiKey(
+        null,
+        { input: { name: 'Portal', scopes: ['ADMIN'] } },
+        {
+          requestId: 'req-keys',
+          auth: buildRoleAuth('reviewer@local', ['reviewer']),
+          db
+        } as unknown as GraphQLContext
+      )
+    ).rejects.toMatchObject({
+      extensions: { code: 'FORBIDDEN', requiredPermission: 'apikeys:manage' }
+    });
+    expect(db.query).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- request auth ----------
+
+describe('extractAuth api keys', () => {
+  it('resolves the key by hash and carries its identity', async () => {
+    const db = makeDb([
+      {
+        id: KEY_ID,
+        name: 'Ops bot',
+        key_prefix: 'tc_opsbot00',
+        scopes: ['admin']
+      }
+    ]);
+
+    const auth = await extractAuth(keyRequest('tc_opsbot00-secret'), db);
+
+    expect(auth).toEqual({
+      userEmail: 'api-key:tc_opsbot00',
+      roles: ['admin'],
+      isAdmin: true,
+      apiKey: {
+        id: KEY_ID,
+        name: 'Ops bot',
+        prefix: 'tc_opsbot00',
+        scopes: ['admin']
+      }
+    });
+    const [sql, params] = db.query.mock.calls[0] ?? [];
+    expect(sql).toMatch(/usage_count = usage_count \+ 1/);
+    expect(sql).toMatch(/revoked_at is null/);
+    expect(params).toEqual([hashApiKey('tc_opsbot00-secret')]);
+  });
+
+  it('maps read scopes onto nda access without granting a role', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    const ndaKey = await extractAuth(
+      keyRequest('tc_partner'),
+      makeDb([makeKeyRow({ scopes: ['read:public', 'read:nda'] })])
+    );
+    const publicKey = await extractAuth(
+      keyRequest('tc_partner'),
+      makeDb([makeKeyRow()])
+    );
+
+    expect(ndaKey.roles).toEqual([]);
+    expect(canDownloadNdaEvidence(ndaKey)).toBe(true);
+    expect(canDownloadNdaEvidence(publicKey)).toBe(false);
+    expect(() => assertPermission(publicKey, 'content:write')).toThrow(
+      /^FORBIDDEN:/
+    ); // a keyed request is never the anonymous local-dev bypass
+  });
+
+  it('fails unknown, revoked, and doubled-up credentials with a 401', async () => {
+    const revoked = makeDb([]); // the lookup filters revoked keys out
+    await expect(
+      extractAuth(keyRequest('tc_revoked'), revoked)
+    ).rejects.toMatchObject({
+      message: 'UNAUTHENTICATED: api key is not valid',
+      extensions: { code: 'UNAUTHENTICATED', http: { status: 401 } }
+    });
+
+    const foreign = makeDb([makeKeyRow()]);
+    await expect(
+      extractAuth(keyRequest('sk_live_123'), foreign)
+    ).rejects.toThrow('UNAUTHENTICATED: api key is not valid');
+    expect(foreign.query).not.toHaveBeenCalled(); // keys without our prefix never hit the db
+
+    await expect(
+      extractAuth(
+        keyRequest('tc_partner', { authorization: 'Bearer a.b.c' }),
+        makeDb([makeKeyRow()])
+      )
+    ).rejects.toThrow(
+      'UNAUTHENTICATED: send either a bearer token or an api key, not both'
+    );
+  });
+});
@@ -0,0 +1,178 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  point-in-time (asOf) read unit coverage (no db)
+
+  what this file proves:
+    - asOf must be a past ISO timestamp and is normalized to one spelling
+    - asOf reads rebuild pages from the latest revision snapshot per record
+    - deleted + unpublished snapshots stay hidden, same as live reads
+    - cursors page through one snapshot time deterministically
+    - asOf reads never share a cache key with current reads
+
+  test strategy:
+    - fake db adapter answers the content_revisions query with fixed snapshots
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import {
+  buildControlsReadCacheKey,
+  buildOverviewSearchKey
+} from '../../server/cache/keys';
+import { normalizeAsOf } from '../../server/services/validation';
+import {
+  getControlsPage,
+  type DbControlRow
+} from '../../server/services/controlsService';
+
+// ---------- fixtures ----------
+
+const AS_OF = '2026-03-01T00:00:00.000Z';
+
+function makeSnapshot(
+  id: string,
+  overrides: Partial<DbControlRow> = {}
+): DbControlRow {
+  return {
+    id,
+    control_key: `control_${id.slice(-1)}`,
+    title: `Control ${id.slice(-1)}`,
+    description: 'Historical description',
+    section: 'Security',
+    category: 'Access Control',
+    subcategory: null,
+    tags: null,
+    source_url: null,
+    updated_at: '2026-02-01T00:00:00.000Z',
+    deleted_at: null,
+    status: 'published',
+    ...overrides
+  };
+}
+
+const SNAPSHOTS = [
+  makeSnapshot('00000000-0000-4000-8000-000000000001'),
+  makeSnapshot('00000000-0000-4000-8000-000000000002', {
+    updated_at: '2026-02-10T00:00:00.000Z'
+  }),
+  makeSnapshot('00000000-0000-4000-8000-000000000003', {
+    deleted_at: '2026-02-15T00:00:00.000Z'
+  }),
+  makeSnapshot('00000000-0000-4000-8000-000000000004', { status: 'draft' })
+];
+
+type RecordedStatement = { sql: string; params: unknown[] | undefined };
+
+function makeContext() {
+  const statements: RecordedStatement[] = [];
+  const cacheKeys: string[] = [];
+
+  const ctx = {
+    requestId: 'req-as-of-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (key: string, _ttl: number, load: () => unknown) => {
+        cacheKeys.push(key);
+        return load();
+      },
+      invalidatePrefix: async () => {}
+    },
+    auth: { userEmail: null, roles: [], isAdmin: false },
+    db: {
+      query: async (sql: string, params?: unknown[]) => {
+        statements.push({ sql, params });
+        if (/from public\.control_frameworks/.test(sql)) return { rows: [] }; // no framework mappings
+        return { rows: SNAPSHOTS.map(snapshot => ({ snapshot })) };
+      }
+    }
+  } as unknown as GraphQLContext; // only the fields the read path touches are faked
+
+  return { ctx, statements, cacheKeys };
+}
+
+// ---------- asOf validation ----------
+
+describe('normalizeAsOf', () => {
+  it('normalizes ISO input and treats omitted as current', () => {
+    expect(normalizeAsOf(undefined)).toBeUndefined();
+    expect(normalizeAsOf(null)).toBeUndefined();
+    expect(normalizeAsOf(' 2026-03-01T01:00:00+01:00 ')).toBe(AS_OF);
+  });
+
+  it('rejects unparseable and future timestamps', () => {
+    expect(() => normalizeAsOf('last tuesday')).toThrow(
+      'VALIDATION_ERROR: asOf must be an ISO timestamp'
+    );
+    expect(() => normalizeAsOf('2999-01-01T00:00:00Z')).toThrow(
+      'VALIDATION_ERROR: asOf cannot be in the future'
+    );
+  });
+});
+
+// ---------- snapshot reads ----------
+
+describe('asOf controls reads', () => {
+  it('reads the latest snapshot per record at or before asOf', async () => {
+    const { ctx, statements } = makeContext();
+
+    const page = await getControlsPage({ first: 10, asOf: AS_OF }, ctx);
+
+    expect(statements).toHaveLength(3); // snapshots + framework mappings + evidence for the page, no live controls query
+    expect(statements[0]?.sql).toMatch(/distinct on \(entity_id\)/);
+    expect(statements[0]?.params).toEqual(['control', AS_OF]);
+    expect(page.source).toBe('db');
+    expect(page.rows.map(row => row.id)).toEqual([
+      '00000000-0000-4000-8000-000000000002',
+      '00000000-0000-4000-8000-000000000001'
+    ]); // deleted + draft snapshots hidden, newest first
+    expect(page.totalCount).toBe(2);
+  });
+
+  it('pages through one snapshot time with stable cursors', async () => {
+    const { ctx } = makeContext();
+
+    const first = await getControlsPage({ first: 1, asOf: AS_OF }, ctx);
+    expect(first.hasNextPage).toBe(true);
+
+    const second = await getControlsPage(
+      { first: 1, asOf: AS_OF, after: first.endCursor ?? '' },
+      ctx
+    );
+    expect(second.rows.map(row => row.id)).toEqual([
+      '00000000-0000-4000-8000-000000000001'
+    ]);
+    expect(second.hasNextPage).toBe(false);
+  });
+
+  it('applies search filters to the historical text', async () => {
+    const { ctx } = makeContext();
+
+    const page = await getControlsPage(
+      { first: 10, asOf: AS_OF, search: 'control_1' },
+      ctx
+    );
+
+    expect(page.rows.map(row => row.control_key)).toEqual(['control_1']);
+  });
+});
+
+// ---------- cache identity ----------
+
+describe('asOf cache keys', () => {
+  it('keeps point-in-time reads under their own key', async () => {
+    const { ctx, cacheKeys } = makeContext();
+
+    await getControlsPage({ first: 10, asOf: AS_OF }, ctx);
+
+    expect(cacheKeys).toEqual([
+      `controls:list:role=public:first=10:asOf=${AS_OF}`
+    ]);
+    expect(buildControlsReadCacheKey({ first: 10 })).toBe(
+      'controls:list:role=public:first=10'
+    ); // current reads keep their existing key
+    expect(buildOverviewSearchKey({ search: 'mfa', asOf: AS_OF })).toBe(
+      `overview-search:list:search=mfa:firstPerKind=5:asOf=${AS_OF}`
+    );
+  });
+});
@@ -0,0 +1,168 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  audit log unit coverage (no db)
+
+  what this file proves:
+    - audit diffs only list changed fields, keyed by api field names
+    - create/delete diffs record the full row on one side
+    - service writes insert the audit row on the same transaction client as the write
+    - a failed audit insert fails the whole write (nothing is committed or invalidated)
+
+  test strategy:
+    - fake db adapter records every statement per transaction instead of talking to postgres
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import { buildAuditDiff } from '../../server/services/auditService';
+import {
+  deleteControl,
+  updateControl,
+  type DbControlRow
+} from '../../server/services/controlsService';
+
+// ---------- fixtures ----------
+
+const CONTROL_ID = '00000000-0000-4000-8000-000000000001';
+
+function makeControlRow(overrides: Partial<DbControlRow> = {}): DbControlRow {
+  return {
+    id: CONTROL_ID,
+    control_key: 'access_reviews',
+    title: 'Access reviews',
+    description: 'Quarterly access reviews',
+    section: 'Security',
+    category: 'Access Control',
+    subcategory: null,
+    tags: ['iam'],
+    source_url: null,
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+type RecordedStatement = { sql: string; params: unknown[] | undefined };
+
+function makeContext(options: {
+  rowsFor: (sql: string) => unknown[];
+  failOn?: RegExp;
+}) {
+  const transactions: RecordedStatement[][] = [];
+  const invalidatePrefix = vi.fn(async () => {});
+
+  const ctx = {
+    requestId: 'req-audit-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (_key: string, _ttl: number, load: () => unknown) =>
+        load(),
+      invalidatePrefix
+    },
+    auth: { userEmail: 'admin@local', roles: ['admin'], isAdmin: true },
+    db: {
+      query: async () => {
+        throw new Error('writes must run inside db.transaction');
+      },
+      transaction: async <T>(
+        callback: (tx: {
+          query: (sql: string, params?: unknown[]) => Promise<unknown>;
+        }) => Promise<T>
+      ): Promise<T> => {
+        const statements: RecordedStatement[] = [];
+        transactions.push(statements);
+
+        return callback({
+          query: async (sql: string, params?: unknown[]) => {
+            statements.push({ sql, params });
+            if (options.failOn?.test(sql))
+              throw new Error('audit insert failed');
+            return { rows: options.rowsFor(sql) };
+          }
+        });
+      }
+    }
+  } as unknown as GraphQLContext; // only the fields the write path touches are faked
+
+  return { ctx, transactions, invalidatePrefix };
+}
+
+// ---------- diff building ----------
+
+describe('audit diffs', () => {
+  it('lists only changed fields under api field names', () => {
+    const before = makeControlRow();
+    const after = makeControlRow({
+      title: 'User access reviews',
+      source_url: 'https://example.com/proof',
+      updated_at: '2026-02-01T00:00:00.000Z'
+    });
+
+    expect(buildAuditDiff('control', before, after)).toEqual({
+      title: { before: 'Access reviews', after: 'User access reviews' },
+      sourceUrl: { before: null, after: 'https://example.com/proof' }
+    }); // updated_at is derived, so it never shows up
+  });
+
+  it('records the full row on one side for creates and deletes', () => {
+    const row = makeControlRow();
+
+    expect(buildAuditDiff('control', null, row).controlKey).toEqual({
+      before: null,
+      after: 'access_reviews'
+    });
+    expect(buildAuditDiff('control', row, null).tags).toEqual({
+      before: ['iam'],
+      after: null
+    });
+  });
+});
+
+// ---------- service writes ----------
+
+describe('audited control writes', () => {
+  it('writes the row and its audit event on the same transaction', async () => {
+    const existing = makeControlRow();
+    const updated = makeControlRow({ title: 'User access reviews' });
+    const { ctx, transactions, invalidatePrefix } = makeContext({
+      rowsFor: sql =>
+        /for update/.test(sql)
+          ? [existing]
+          : /update public\.controls/.test(sql)
+            ? [updated]
+            : []
+    });
+
+    await updateControl(CONTROL_ID, { title: 'User access reviews' }, ctx);
+
+    expect(transactions).toHaveLength(1); // one atomic unit per write
+    const [lock, write, audit] = transactions[0] ?? [];
+
+    expect(lock?.sql).toMatch(/for update/);
+    expect(write?.sql).toMatch(/update public\.controls/);
+    expect(audit?.sql).toMatch(/insert into public\.audit_events/);
+    expect(audit?.params).toEqual([
+      'admin@local',
+      'req-audit-test',
+      'control',
+      CONTROL_ID,
+      'update',
+      JSON.stringify({
+        title: { before: 'Access reviews', after: 'User access reviews' }
+      })
+    ]);
+    expect(invalidatePrefix).toHaveBeenCalledTimes(1); // cache clears only after commit
+  });
+
+  it('fails the whole write when the audit insert fails', async () => {
+    const { ctx, invalidatePrefix } = makeContext({
+      rowsFor: () => [makeControlRow()],
+      failOn: /audit_events/
+    });
+
+    await expect(deleteControl(CONTROL_ID, ctx)).rejects.toThrow(
+      'audit insert failed'
+    );
+    expect(invalidatePrefix).not.toHaveBeenCalled(); // nothing committed, so nothing to invalidate
+  });
+});
@@ -0,0 +1,272 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  bulk import unit coverage (no db)
+
+  what this file proves:
+    - the csv reader handles quotes, embedded commas / newlines, CRLF, and a byte-order mark
+    - every row runs through create validation + taxonomy resolution, with per-row errors
+    - dry-run classifies rows as created / updated / unchanged and never opens a transaction
+    - a real import writes nothing when any row is bad
+    - a clean import upserts in one transaction and invalidates once
+    - the db:import cli infers the entity from the csv header; --entity only overrides
+
+  test strategy:
+    - fake db adapter routes statements by sql shape; taxonomy comes from taxonomy.json (no stored terms)
+    - cli files are written to a temp dir and removed afterwards
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { readImportArgs } from '../../server/db/import';
+import type { GraphQLContext } from '../../server/graphql/context';
+import { parseCsv } from '../../server/services/csv';
+import { importContent } from '../../server/services/importService';
+import type { DbControlRow } from '../../server/services/controlsService';
+
+// ---------- fixtures ----------
+
+const EXISTING: DbControlRow = {
+  id: '00000000-0000-4000-8000-000000000001',
+  control_key: 'mfa_enforced',
+  title: 'MFA is enforced',
+  description: 'All staff use MFA.',
+  section: 'Identity & Access',
+  category: 'Access Control',
+  subcategory: 'Authentication',
+  tags: ['mfa'],
+  source_url: null,
+  updated_at: '2026-02-01T00:00:00.000Z',
+  deleted_at: null,
+  status: 'published'
+};
+
+const CSV = [
+  'control_key,title,description,section,category,subcategory,tags',
+  'mfa_enforced,MFA is enforced,All staff use MFA.,Identity & Access,Access Control,Authentication,mfa',
+  'sso_required,SSO is required,"Apps use SSO, never local passwords.",identity & access,access control,,sso; iam',
+  'no_title,,Missing a title,Identity & Access,Access Control,,',
+  'bad_category,Bad category,Unknown category,Identity & Access,Not A Category,,'
+].join('\n');
+
+type RecordedStatement = { sql: string; params: unknown[] | undefined };
+
+function makeContext(existing: DbControlRow[] = [EXISTING]) {
+  const statements: RecordedStatement[] = [];
+  const invalidatePrefix = vi.fn(async () => {});
+  const transaction = vi.fn();
+
+  const run = async (sql: string, params?: unknown[]) => {
+    statements.push({ sql, params });
+    if (/from public\.taxonomy_terms/.test(sql)) return { rows: [] };
+    if (/control_key = any/.test(sql)) return { rows: existing };
+    if (/insert into public\.controls/.test(sql)) {
+      return {
+        rows: [{ ...EXISTING, id: '00000000-0000-4000-8000-000000000002' }]
+      };
+    }
+    return { rows: [EXISTING] };
+  };
+
+  const ctx = {
+    requestId: 'req-import-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (_key: string, _ttl: number, load: () => unknown) =>
+        load(),
+      invalidatePrefix
+    },
+    auth: { userEmail: 'admin@local', roles: ['admin'], isAdmin: true },
+    db: {
+      query: run,
+      transaction: async <T>(
+        callback: (tx: { query: typeof run }) => Promise<T>
+      ): Promise<T> => {
+        transaction();
+        return callback({ query: run });
+      }
+    }
+  } as unknown as GraphQLContext; // only the fields the import path touches are faked
+
+  return { ctx, statements, invalidatePrefix, transaction };
+}
+
+// ---------- csv reader ----------
+
+describe('parseCsv', () => {
+  it('reads quoted fields, embedded newlines, CRLF, and a BOM', () => {
+    const records = parseCsv(
+      '﻿key,text\r\na,"one, two"\r\nb,"say ""hi""\nagain"\r\n\r\n'
+    );
+
+    expect(records).toEqual([
+      { key: 'a', text: 'one, two' },
+      { key: 'b', text: 'say "hi"\nagain' }
+    ]);
+  });
+
+  it('rejects an unclosed quote with its line number', () => {
+    expect(() => parseCsv('key,text\na,"open')).toThrow(
+      'VALIDATION_ERROR: csv line 2 has an unclosed quote'
+    );
+  });
+});
+
+// ---------- dry run ----------
+
+describe('importContent dry run', () => {
+  it('reports per-row errors and outcome counts without writing', async () => {
+    const { ctx, transaction } = makeContext();
+
+    const report = await importContent(
+      { entity: 'controls', format: 'csv', content: CSV, dryRun: true },
+      ctx
+    );
+
+    expect(report).toMatchObject({
+      dryRun: true,
+      applied: false,
+      totalRows: 4,
+      created: 1,
+      updated: 0,
+      unchanged: 1 // same content as the stored row
+    });
+    expect(report.errors.map(error => [error.row, error.key])).toEqual([
+      [3, 'no_title'],
+      [4, 'bad_category']
+    ]);
+    expect(report.errors[0]?.message).toBe(
+      'VALIDATION_ERROR: title is required'
+    );
+    expect(report.errors[1]?.message).toMatch(
+      /^TAXONOMY_ERROR: unknown controls category/
+    );
+    expect(transaction).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- real import ----------
+
+describe('importContent', () => {
+  it('writes nothing when any row is bad', async () => {
+    const { ctx, transaction, invalidatePrefix } = makeContext();
+
+    const report = await importContent(
+      { entity: 'controls', format: 'csv', content: CSV, dryRun: false },
+      ctx
+    );
+
+    expect(report.applied).toBe(false);
+    expect(transaction).not.toHaveBeenCalled();
+    expect(invalidatePrefix).not.toHaveBeenCalled();
+  });
+
+  it('upserts valid json rows in one transaction and invalidates once', async () => {
+    const { ctx, statements, transaction, invalidatePrefix } = makeContext();
+    const content = JSON.stringify({
+      controls: [
+        {
+          control_key: 'mfa_enforced',
+          title: 'MFA is enforced everywhere',
+          description: 'All staff use MFA.',
+          section: 'Identity & Access',
+          category: 'Access Control',
+          subcategory: 'Authentication',
+          tags: ['mfa']
+        },
+        {
+          controlKey: 'sso_required',
+          title: 'SSO is required',
+          description: 'Apps use SSO.',
+          section: 'Identity & Access',
+          category: 'Access Control'
+        }
+      ]
+    }); // seed-file shape, mixed snake_case + camelCase keys
+
+    const report = await importContent(
+      { entity: 'controls', format: 'json', content, dryRun: false },
+      ctx
+    );
+
+    expect(report).toMatchObject({ applied: true, created: 1, updated: 1 });
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expect(invalidatePrefix).toHaveBeenCalledTimes(1);
+    expect(invalidatePrefix).toHaveBeenCalledWith('controls:list:');
+
+    const insert = statements.find(statement =>
+      /insert into public\.controls/.test(statement.sql)
+    );
+    expect(insert?.params?.[5]).toBe('General'); // taxonomy default subcategory applied
+    expect(
+      statements.filter(statement =>
+        /insert into public\.audit_events/.test(statement.sql)
+      )
+    ).toHaveLength(2);
+  });
+});
+
+// ---------- db:import cli ----------
+
+describe('db:import cli args', () => {
+  const dirs: string[] = [];
+
+  afterAll(async () => {
+    await Promise.all(
+      dirs.map(dir => fs.rm(dir, { recursive: true, force: true }))
+    );
+  });
+
+  async function writeImportFile(name: string, content: string) {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'db-import-'));
+    dirs.push(dir);
+    const file = path.join(dir, name);
+    await fs.writeFile(file, content, 'utf8');
+    return file;
+  }
+
+  it('imports a controls csv without --entity', async () => {
+    const file = await writeImportFile(
+      'controls.csv',
+      CSV.split('\n').slice(0, 3).join('\n') // header + the two valid rows
+    );
+    const { ctx } = makeContext();
+
+    const args = await readImportArgs([file, '--dry-run']);
+    const report = await importContent(args, ctx);
+
+    expect(args).toMatchObject({ entity: 'controls', format: 'csv' });
+    expect(report).toMatchObject({
+      entity: 'controls',
+      totalRows: 2,
+      created: 1,
+      unchanged: 1
+    });
+    expect(report.errors).toEqual([]);
+  });
+
+  it('reads a faqKey header as faqs and lets --entity override', async () => {
+    const faqs = await writeImportFile(
+      'faqs.csv',
+      'faqKey,question,answer\nretention,How long?,90 days.'
+    );
+    const odd = await writeImportFile('odd.csv', 'key,title\nmfa,MFA');
+
+    await expect(readImportArgs([faqs])).resolves.toMatchObject({
+      entity: 'faqs'
+    });
+    await expect(
+      readImportArgs([odd, '--entity', 'controls'])
+    ).resolves.toMatchObject({ entity: 'controls' });
+  });
+
+  it('fails readably when the header names neither key', async () => {
+    const file = await writeImportFile('odd.csv', 'key,title\nmfa,MFA');
+
+    await expect(readImportArgs([file])).rejects.toThrow(
+      /^VALIDATION_ERROR: csv header must include exactly one of controlKey \(controls\) or faqKey \(faqs\)/
+    );
+  });
+});
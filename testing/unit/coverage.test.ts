@@ -0,0 +1,263 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  framework coverage matrix unit coverage (no db)
+
+  what this file proves:
+    - rows follow taxonomy manifest order, columns follow the framework list, gaps are flagged
+    - framework column control counts add up from the category cells
+    - the seed aggregation counts each control once per framework and keeps uncovered requirements
+    - the db path runs grouped count queries under the controls list cache prefix
+
+  test strategy:
+    - hand-made count rows for the pure matrix builder
+    - shipped seed data for the seed aggregation
+    - fake db adapter routes sql by regex instead of talking to postgres
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import {
+  aggregateSeedCoverage,
+  buildFrameworkCoverage,
+  getFrameworkCoverage,
+  type CoverageCategoryCountRow,
+  type CoverageRequirementCountRow
+} from '../../server/services/coverageService';
+import { getSeedFrameworkRequirements } from '../../server/services/frameworkService';
+import {
+  getSeedControlsRows,
+  getSeedTaxonomyManifest
+} from '../../server/services/seedFallback';
+
+// ---------- fixtures ----------
+
+const REQUIREMENT_ROWS: CoverageRequirementCountRow[] = [
+  {
+    framework: 'soc2',
+    requirement_id: 'CC6.1',
+    requirement_title: 'Logical access security',
+    control_count: 2
+  },
+  {
+    framework: 'soc2',
+    requirement_id: 'CC3.2',
+    requirement_title: 'Risk identification and analysis',
+    control_count: 0
+  },
+  {
+    framework: 'iso27001',
+    requirement_id: 'A.8.24',
+    requirement_title: 'Use of cryptography',
+    control_count: 1
+  }
+];
+
+const CATEGORY_ROWS: CoverageCategoryCountRow[] = [
+  {
+    section: 'Security',
+    category: 'Data Security',
+    framework: null,
+    control_count: 3,
+    requirement_count: 0
+  },
+  {
+    section: 'Security',
+    category: 'Data Security',
+    framework: 'iso27001',
+    control_count: 1,
+    requirement_count: 1
+  },
+  {
+    section: 'Security',
+    category: 'Access Control',
+    framework: null,
+    control_count: 4,
+    requirement_count: 0
+  },
+  {
+    section: 'Security',
+    category: 'Access Control',
+    framework: 'soc2',
+    control_count: 2,
+    requirement_count: 1
+  },
+  {
+    section: 'Security',
+    category: 'Privacy',
+    framework: null,
+    control_count: 0,
+    requirement_count: 0
+  }
+];
+
+function makeContext() {
+  const statements: string[] = [];
+  const cacheKeys: string[] = [];
+
+  const ctx = {
+    requestId: 'req-coverage-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (key: string, _ttl: number, load: () => unknown) => {
+        cacheKeys.push(key);
+        return load();
+      },
+      invalidatePrefix: async () => {}
+    },
+    auth: { userEmail: null, roles: [], isAdmin: false },
+    db: {
+      query: async (sql: string) => {
+        statements.push(sql);
+        if (/grouping sets/.test(sql)) {
+          return {
+            rows: [
+              ...CATEGORY_ROWS.map(row => ({
+                ...row,
+                is_category_total: row.framework === null
+              })),
+              {
+                section: 'Security',
+                category: 'Access Control',
+                framework: null,
+                is_category_total: false, // controls with no mapping at all
+                control_count: 2,
+                requirement_count: 0
+              }
+            ]
+          };
+        }
+        if (/from public\.framework_requirements fr/.test(sql))
+          return { rows: REQUIREMENT_ROWS };
+        return { rows: [] }; // empty taxonomy_terms --> seed manifest
+      }
+    }
+  } as unknown as GraphQLContext; // only the fields the read path touches are faked
+
+  return { ctx, statements, cacheKeys };
+}
+
+// ---------- matrix builder ----------
+
+describe('buildFrameworkCoverage', () => {
+  it('orders rows by manifest, flags gaps, and sums column counts from cells', async () => {
+    const coverage = buildFrameworkCoverage(
+      await getSeedTaxonomyManifest(),
+      REQUIREMENT_ROWS,
+      CATEGORY_ROWS
+    );
+
+    expect(coverage.totalControls).toBe(7);
+    expect(coverage.categories.map(row => row.category)).toEqual([
+      'Access Control',
+      'Data Security'
+    ]); // manifest order; empty categories are dropped
+
+    const [access] = coverage.categories;
+    expect(access?.cells.map(cell => [cell.framework, cell.isGap])).toEqual([
+      ['soc2', false],
+      ['iso27001', true],
+      ['nist_csf', true]
+    ]);
+
+    const [soc2, iso] = coverage.frameworks;
+    expect(soc2?.label).toBe('SOC 2');
+    expect(soc2?.controlCount).toBe(2);
+    expect(soc2?.requirements.map(item => item.requirementId)).toEqual([
+      'CC3.2',
+      'CC6.1'
+    ]);
+    expect(soc2?.requirements[0]?.isGap).toBe(true);
+    expect(soc2?.coveredRequirementCount).toBe(1);
+    expect(iso?.controlCount).toBe(1);
+  });
+});
+
+// ---------- seed aggregation ----------
+
+describe('aggregateSeedCoverage', () => {
+  it('counts each control once per framework and keeps uncovered requirements', () => {
+    const counts = aggregateSeedCoverage(
+      [
+        {
+          section: 'Security',
+          category: 'Access Control',
+          frameworks: [
+            {
+              framework: 'soc2',
+              requirement_id: 'CC6.1',
+              requirement_title: ''
+            },
+            {
+              framework: 'soc2',
+              requirement_id: 'CC6.2',
+              requirement_title: ''
+            }
+          ]
+        },
+        { section: 'Security', category: 'Access Control', frameworks: [] }
+      ],
+      [
+        { framework: 'soc2', requirement_id: 'CC6.1', requirement_title: '' },
+        { framework: 'soc2', requirement_id: 'CC3.2', requirement_title: '' }
+      ]
+    );
+
+    expect(counts.categoryRows).toEqual([
+      {
+        section: 'Security',
+        category: 'Access Control',
+        framework: null,
+        control_count: 2,
+        requirement_count: 0
+      },
+      {
+        section: 'Security',
+        category: 'Access Control',
+        framework: 'soc2',
+        control_count: 1,
+        requirement_count: 2
+      }
+    ]);
+    expect(counts.requirementRows.map(row => row.control_count)).toEqual([
+      1, 0
+    ]);
+  });
+
+  it('reports the shipped uncovered requirements as gaps', async () => {
+    const [manifest, rows, requirements] = await Promise.all([
+      getSeedTaxonomyManifest(),
+      getSeedControlsRows(),
+      getSeedFrameworkRequirements()
+    ]);
+    const counts = aggregateSeedCoverage(rows, requirements);
+    const coverage = buildFrameworkCoverage(
+      manifest,
+      counts.requirementRows,
+      counts.categoryRows
+    );
+
+    expect(coverage.totalControls).toBe(rows.length);
+    expect(
+      coverage.frameworks
+        .find(column => column.framework === 'soc2')
+        ?.requirements.find(item => item.requirementId === 'CC3.2')?.isGap
+    ).toBe(true);
+  });
+});
+
+// ---------- db read path ----------
+
+describe('getFrameworkCoverage', () => {
+  it('reads grouped counts under the controls list cache prefix', async () => {
+    const { ctx, statements, cacheKeys } = makeContext();
+
+    const coverage = await getFrameworkCoverage(ctx);
+
+    expect(cacheKeys).toEqual(['controls:list:coverage:role=public']);
+    expect(statements.filter(sql => /count\(/.test(sql))).toHaveLength(2); // never pages through controls
+    expect(coverage.source).toBe('db');
+    expect(coverage.categories[0]?.controlCount).toBe(4); // unmapped bucket is not a category total
+    expect(coverage.categories[0]?.cells[0]?.controlCount).toBe(2);
+  });
+});
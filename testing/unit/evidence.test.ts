@@ -0,0 +1,470 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  control evidence unit coverage (no db)
+
+  what this file proves:
+    - evidence inputs validate dates, visibility, base64 payloads, and sanitize file names
+    - the local blob store round-trips bytes and refuses keys that could escape its root
+    - uploads store the file before the row, audit the evidence diff, and drop the file on rollback
+    - downloads refuse nda evidence for anonymous viewers and never expose the stored link url to the page
+    - public evidence on an nda control is nda too, and the evidence queries only read tables they join
+    - download headers survive non-latin file names (ascii filename + rfc 5987 filename*)
+    - deleting evidence removes its file only after the row is gone
+    - evidence writes on a published control need content:publish (editor refused, reviewer allowed)
+
+  test strategy:
+    - fake db adapter records every statement instead of talking to postgres
+    - rowFromSelect projects the fake rows through the statement's own select list, so a column the sql never selects (or an alias it never joins) shows up in the test
+    - in-memory fake blob store for the service paths; a temp directory for the local adapter
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import fs from 'node:fs/promises';
+import { validateHeaderValue } from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import { LocalBlobStore } from '../../server/blob/local';
+import {
+  attachControlEvidenceLink,
+  deleteControlEvidence,
+  uploadControlEvidence,
+  type DbControlRow
+} from '../../server/services/controlsService';
+import {
+  getEvidenceContentDisposition,
+  getEvidenceDownload,
+  loadControlEvidence,
+  type DbControlEvidenceRow
+} from '../../server/services/evidenceService';
+import {
+  validateEvidenceFileInput,
+  validateEvidenceLinkInput
+} from '../../server/services/validation';
+import { mapControlEvidenceNode } from '../../server/graphql/nodeMappers';
+
+// ---------- fixtures ----------
+
+const CONTROL_ID = '00000000-0000-4000-8000-000000000001';
+const EVIDENCE_ID = '00000000-0000-4000-8000-0000000000e1';
+
+const CONTROL: DbControlRow = {
+  id: CONTROL_ID,
+  control_key: 'auth_standard',
+  title: 'Authentication standard is documented and reviewed',
+  description: 'Documented authentication standard',
+  section: 'Security',
+  category: 'Access Control',
+  subcategory: null,
+  tags: ['iam'],
+  source_url: null,
+  updated_at: '2026-01-01T00:00:00.000Z',
+  deleted_at: null
+};
+
+const FILE_EVIDENCE: DbControlEvidenceRow = {
+  id: EVIDENCE_ID,
+  control_id: CONTROL_ID,
+  title: 'Authentication standard v3',
+  kind: 'file',
+  url: null,
+  blob_key: 'evidence/abc',
+  file_name: 'auth-standard.pdf',
+  content_type: 'application/pdf',
+  byte_size: 5,
+  effective_date: '2026-01-01',
+  expires_on: '2027-01-01',
+  visibility: 'nda',
+  created_at: '2026-01-02T00:00:00.000Z'
+};
+
+const UPLOAD_INPUT = {
+  title: 'Authentication standard v3',
+  fileName: 'auth-standard.pdf',
+  contentType: 'application/pdf',
+  contentBase64: Buffer.from('hello').toString('base64'),
+  effectiveDate: '2026-01-01',
+  expiresOn: '2027-01-01'
+};
+
+type RecordedStatement = { sql: string; params: unknown[] | undefined };
+
+function makeBlobs() {
+  const files = new Map<string, Buffer>();
+  return {
+    files,
+    put: vi.fn(async (key: string, body: Buffer) => {
+      files.set(key, body);
+    }),
+    open: vi.fn(async (key: string) => {
+      const body = files.get(key);
+      return body ? Readable.from([body]) : null;
+    }),
+    delete: vi.fn(async (key: string) => {
+      files.delete(key);
+    })
+  };
+}
+
+function makeContext(
+  rowsFor: (sql: string) => unknown[],
+  auth = { userEmail: 'admin@local', roles: ['admin'], isAdmin: true }
+) {
+  const statements: RecordedStatement[] = [];
+  const blobs = makeBlobs();
+  const invalidatePrefix = vi.fn(async () => {});
+
+  const run = async (sql: string, params?: unknown[]) => {
+    statements.push({ sql, params });
+    return { rows: rowsFor(sql) };
+  };
+
+  const ctx = {
+    requestId: 'req-evidence-test',
+    memo: new Map(),
+    cache: { invalidatePrefix },
+    blobs,
+    auth,
+    db: {
+      query: run,
+      transaction: async <T>(
+        callback: (tx: { query: typeof run }) => Promise<T>
+      ): Promise<T> => callback({ query: run })
+    }
+  } as unknown as GraphQLContext; // only the fields the write + download paths touch are faked
+
+  return { ctx, statements, blobs, invalidatePrefix };
+}
+
+// projects table rows through the sql's own select list  -->  `ce.visibility`, `c.visibility as control_visibility`, ...
+function rowFromSelect(
+  sql: string,
+  tables: Record<string, Record<string, unknown>>
+): Record<string, unknown> {
+  const selectList = /select([\s\S]*?)\bfrom\b/i.exec(sql)?.[1] ?? '';
+  const row: Record<string, unknown> = {};
+
+  for (const column of selectList.split(',')) {
+    const match = /^\s*(\w+)\.(\w+)(?:::\w+)?(?:\s+as\s+(\w+))?\s*$/i.exec(
+      column
+    );
+    if (!match) throw new Error(`unparsed select column: ${column.trim()}`);
+    const [, alias = '', name = '', as] = match;
+
+    if (!new RegExp(`public\\.\\w+ ${alias}\\b`).test(sql)) {
+      throw new Error(`missing FROM-clause entry for table "${alias}"`); // what postgres would answer
+    }
+    row[as ?? name] = tables[alias]?.[name];
+  }
+
+  return row;
+}
+
+// ---------- validation ----------
+
+describe('evidence validation', () => {
+  it('normalizes file input and strips directories from the file name', () => {
+    const file = validateEvidenceFileInput({
+      ...UPLOAD_INPUT,
+      fileName: '../../etc/"auth".pdf',
+      contentType: ' Application/PDF '
+    });
+
+    expect(file.fileName).toBe('_auth_.pdf');
+    expect(file.contentType).toBe('application/pdf');
+    expect(file.visibility).toBe('public'); // default when omitted
+    expect(file.body.toString()).toBe('hello');
+  });
+
+  it('rejects bad dates, inverted ranges, bad base64, and non-http links', () => {
+    expect(() =>
+      validateEvidenceFileInput({
+        ...UPLOAD_INPUT,
+        effectiveDate: '2026-02-30'
+      })
+    ).toThrow(/^VALIDATION_ERROR: effectiveDate is not a real calendar date/);
+    expect(() =>
+      validateEvidenceFileInput({ ...UPLOAD_INPUT, expiresOn: '2025-12-31' })
+    ).toThrow(/^VALIDATION_ERROR: expiresOn cannot be before effectiveDate/);
+    expect(() =>
+      validateEvidenceFileInput({
+        ...UPLOAD_INPUT,
+        contentBase64: 'not base64!'
+      })
+    ).toThrow(/^VALIDATION_ERROR: contentBase64/);
+    expect(() =>
+      validateEvidenceLinkInput({
+        title: 'Policy',
+        url: 'ftp://example.com/policy.pdf',
+        effectiveDate: '2026-01-01'
+      })
+    ).toThrow('VALIDATION_ERROR: url must use http or https');
+  });
+});
+
+// ---------- local blob store ----------
+
+describe('LocalBlobStore', () => {
+  it('round-trips bytes and refuses keys outside its root', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'tc-blobs-'));
+    const store = new LocalBlobStore(root);
+
+    try {
+      await store.put('evidence/one', Buffer.from('bytes'), {
+        contentType: 'text/plain'
+      });
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of (await store.open('evidence/one')) ?? [])
+        chunks.push(chunk as Buffer);
+      expect(Buffer.concat(chunks).toString()).toBe('bytes');
+
+      await store.delete('evidence/one');
+      expect(await store.open('evidence/one')).toBeNull();
+      await expect(store.delete('evidence/one')).resolves.toBeUndefined(); // deletes are safe to retry
+
+      await expect(store.open('../outside')).rejects.toThrow(/^BLOB_ERROR:/);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
+
+// ---------- writes ----------
+
+describe('evidence writes', () => {
+  it('stores the file, inserts the row, and audits the evidence diff', async () => {
+    let evidenceReads = 0;
+    const { ctx, statements, blobs, invalidatePrefix } = makeContext(sql => {
+      if (/for update/.test(sql)) return [CONTROL];
+      if (/insert into public\.control_evidence/.test(sql))
+        return [FILE_EVIDENCE];
+      if (/from public\.control_evidence/.test(sql))
+        return evidenceReads++ === 0 ? [] : [FILE_EVIDENCE]; // before: none, after: the upload
+      return [];
+    });
+
+    const row = await uploadControlEvidence(CONTROL_ID, UPLOAD_INPUT, ctx);
+
+    const blobKey = blobs.put.mock.calls[0]?.[0];
+    expect(blobKey).toMatch(/^evidence\//);
+    const insert = statements.find(statement =>
+      /insert into public\.control_evidence/.test(statement.sql)
+    );
+    expect(insert?.params).toContain(blobKey);
+    expect(insert?.params).toContain('public');
+
+    const audit = statements.find(statement =>
+      /insert into public\.audit_events/.test(statement.sql)
+    );
+    expect(audit?.params).toContain(
+      JSON.stringify({
+        evidence: { before: [], after: ['Authentication standard v3 (nda)'] }
+      })
+    );
+    expect(row.evidence).toHaveLength(1);
+    expect(invalidatePrefix).toHaveBeenCalled();
+  });
+
+  it('drops the stored file when the row write fails', async () => {
+    const { ctx, blobs, invalidatePrefix } = makeContext(() => []); // no live control  -->  lock finds nothing
+
+    await expect(
+      uploadControlEvidence(CONTROL_ID, UPLOAD_INPUT, ctx)
+    ).rejects.toThrow(/^NOT_FOUND_ERROR:/);
+
+    expect(blobs.put).toHaveBeenCalledTimes(1);
+    expect(blobs.files.size).toBe(0); // the orphaned file was removed again
+    expect(invalidatePrefix).not.toHaveBeenCalled();
+  });
+
+  it('removes the file after the evidence row is deleted', async () => {
+    const { ctx, blobs } = makeContext(sql => {
+      if (/select control_id/.test(sql)) return [{ control_id: CONTROL_ID }];
+      if (/for update/.test(sql)) return [CONTROL];
+      if (/delete from public\.control_evidence/.test(sql))
+        return [FILE_EVIDENCE];
+      return [];
+    });
+    blobs.files.set('evidence/abc', Buffer.from('hello'));
+
+    const row = await deleteControlEvidence(EVIDENCE_ID, ctx);
+
+    expect(blobs.delete).toHaveBeenCalledWith('evidence/abc');
+    expect(row.evidence).toEqual([]);
+  });
+});
+
+describe('evidence writes on published controls', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const PUBLISHED: DbControlRow = { ...CONTROL, status: 'published' };
+  const EDITOR = {
+    userEmail: 'editor@local',
+    roles: ['editor'],
+    isAdmin: false
+  };
+  const REVIEWER = {
+    userEmail: 'reviewer@local',
+    roles: ['reviewer'],
+    isAdmin: false
+  };
+
+  function rowsFor(sql: string): unknown[] {
+    if (/select control_id/.test(sql)) return [{ control_id: CONTROL_ID }];
+    if (/for update/.test(sql)) return [PUBLISHED];
+    if (/insert into public\.control_evidence/.test(sql))
+      return [FILE_EVIDENCE];
+    if (/delete from public\.control_evidence/.test(sql))
+      return [FILE_EVIDENCE];
+    return [];
+  }
+
+  it('refuses an editor and keeps the stored files as they were', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, statements, blobs } = makeContext(rowsFor, EDITOR);
+    blobs.files.set('evidence/abc', Buffer.from('hello'));
+
+    await expect(
+      uploadControlEvidence(CONTROL_ID, UPLOAD_INPUT, ctx)
+    ).rejects.toMatchObject({
+      extensions: { code: 'FORBIDDEN', requiredPermission: 'content:publish' }
+    });
+    await expect(
+      attachControlEvidenceLink(
+        CONTROL_ID,
+        {
+          title: 'Status page',
+          url: 'https://status.example.com',
+          effectiveDate: '2026-01-01'
+        },
+        ctx
+      )
+    ).rejects.toThrow(/^FORBIDDEN:/);
+    await expect(deleteControlEvidence(EVIDENCE_ID, ctx)).rejects.toThrow(
+      /^FORBIDDEN:/
+    );
+
+    expect([...blobs.files.keys()]).toEqual(['evidence/abc']); // the refused upload was dropped, the existing file kept
+    expect(
+      statements.some(statement =>
+        /(insert into|delete from) public\.control_evidence/.test(statement.sql)
+      )
+    ).toBe(false);
+  });
+
+  it('lets a reviewer add and delete evidence', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, invalidatePrefix } = makeContext(rowsFor, REVIEWER);
+
+    await uploadControlEvidence(CONTROL_ID, UPLOAD_INPUT, ctx);
+    await deleteControlEvidence(EVIDENCE_ID, ctx);
+
+    expect(invalidatePrefix).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------- downloads ----------
+
+describe('evidence downloads', () => {
+  it('refuses nda evidence for anonymous viewers and streams it for admins', async () => {
+    const anonymous = makeContext(() => [FILE_EVIDENCE], {
+      userEmail: null as unknown as string,
+      roles: [],
+      isAdmin: false
+    });
+    await expect(
+      getEvidenceDownload(EVIDENCE_ID, anonymous.ctx)
+    ).rejects.toThrow(/^FORBIDDEN:/);
+    expect(anonymous.statements[0]?.params).toEqual([EVIDENCE_ID, false]); // drafts stay hidden from the public
+
+    const admin = makeContext(() => [FILE_EVIDENCE]);
+    admin.blobs.files.set('evidence/abc', Buffer.from('hello'));
+    const download = await getEvidenceDownload(EVIDENCE_ID, admin.ctx);
+
+    expect(download.kind).toBe('file');
+    if (download.kind === 'file') {
+      expect(download.fileName).toBe('auth-standard.pdf');
+      expect(download.contentType).toBe('application/pdf');
+    }
+  });
+
+  it('treats public evidence on an nda control as nda', async () => {
+    const tables = (controlVisibility: string) => ({
+      ce: { ...FILE_EVIDENCE, visibility: 'public' },
+      c: { ...CONTROL, visibility: controlVisibility }
+    });
+    const anonymousAuth = {
+      userEmail: null as unknown as string,
+      roles: [],
+      isAdmin: false
+    };
+
+    const ndaControl = makeContext(
+      sql => [rowFromSelect(sql, tables('nda'))],
+      anonymousAuth
+    );
+    await expect(
+      getEvidenceDownload(EVIDENCE_ID, ndaControl.ctx)
+    ).rejects.toThrow('FORBIDDEN: evidence is available under NDA only');
+
+    const publicControl = makeContext(
+      sql => [rowFromSelect(sql, tables('public'))],
+      anonymousAuth
+    );
+    publicControl.blobs.files.set('evidence/abc', Buffer.from('hello'));
+    const download = await getEvidenceDownload(EVIDENCE_ID, publicControl.ctx);
+    expect(download.kind).toBe('file');
+  });
+
+  it('loads control evidence without reading the controls table', async () => {
+    const { ctx } = makeContext(sql => [
+      rowFromSelect(sql, { ce: FILE_EVIDENCE })
+    ]);
+
+    const byControl = await loadControlEvidence(ctx.db, [CONTROL_ID]);
+
+    expect(byControl.get(CONTROL_ID)).toEqual([FILE_EVIDENCE]);
+  });
+
+  it('answers not found for malformed ids without querying', async () => {
+    const { ctx, statements } = makeContext(() => []);
+
+    await expect(getEvidenceDownload('nope', ctx)).rejects.toThrow(
+      /^NOT_FOUND_ERROR:/
+    );
+    expect(statements).toHaveLength(0);
+  });
+
+  it('sends non-latin file names as an ascii fallback plus a utf-8 filename*', () => {
+    const header = getEvidenceContentDisposition('SOC 2 отчёт (final).pdf');
+
+    expect(header).toBe(
+      `attachment; filename="SOC 2 _____ (final).pdf"; filename*=UTF-8''SOC%202%20%D0%BE%D1%82%D1%87%D1%91%D1%82%20%28final%29.pdf`
+    );
+    expect(() =>
+      validateHeaderValue('Content-Disposition', header)
+    ).not.toThrow(); // the check res.setHeader runs (ERR_INVALID_CHAR on the raw name)
+    expect(() =>
+      validateHeaderValue('Content-Disposition', 'filename="отчёт.pdf"')
+    ).toThrow();
+  });
+
+  it('maps link evidence to the download route instead of the stored url', () => {
+    const node = mapControlEvidenceNode({
+      ...FILE_EVIDENCE,
+      kind: 'link',
+      url: 'https://example.com/private-report',
+      blob_key: null,
+      expires_on: '2000-01-01',
+      effective_date: '1999-01-01'
+    });
+
+    expect(node.downloadUrl).toBe(`/api/evidence/${EVIDENCE_ID}`);
+    expect(JSON.stringify(node)).not.toContain('private-report');
+    expect(node.isExpired).toBe(true);
+    expect(node.visibility).toBe('NDA');
+  });
+});
@@ -0,0 +1,170 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  controls / faqs export unit coverage (no db)
+
+  what this file proves:
+    - the csv writer quotes only when needed, uses CRLF, and neutralizes spreadsheet formulas
+    - query-string filters parse into the same args the connection reads take
+    - a csv export pages through the read path and starts with a byte-order mark + header row
+    - a json export uses the seed-file shape, so it can be re-imported as-is
+
+  test strategy:
+    - fake db adapter serves a full first page then a short second page (forces one cursor hop)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import { formatCsvRow, parseCsv } from '../../server/services/csv';
+import {
+  parseExportFile,
+  parseExportFilters,
+  streamExport,
+  type ExportArgs
+} from '../../server/services/exportService';
+import type { DbFaqRow } from '../../server/services/faqsService';
+
+// ---------- fixtures ----------
+
+function makeFaq(index: number): DbFaqRow {
+  return {
+    id: `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`,
+    faq_key: `faq_${index}`,
+    question: `Question ${index}?`,
+    answer: index === 1 ? '=HYPERLINK("x")' : `Answer, number ${index}`,
+    section: 'General',
+    category: 'General',
+    subcategory: null,
+    tags: ['alpha', 'beta'],
+    updated_at: new Date(Date.UTC(2026, 0, 1) - index * 1_000),
+    deleted_at: null,
+    status: 'published'
+  };
+}
+
+const ALL_FAQS = Array.from({ length: 52 }, (_, index) => makeFaq(index + 1)); // 50-row page + 2-row page
+
+function makeContext() {
+  const statements: { sql: string; params: unknown[] | undefined }[] = [];
+  let pageReads = 0;
+
+  const ctx = {
+    requestId: 'req-export-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (_key: string, _ttl: number, load: () => unknown) =>
+        load(),
+      invalidatePrefix: async () => {}
+    },
+    auth: { userEmail: null, roles: [], isAdmin: false },
+    db: {
+      query: async (sql: string, params?: unknown[]) => {
+        statements.push({ sql, params });
+        if (/count\(\*\)/.test(sql)) return { rows: [{ count: 52 }] };
+
+        pageReads += 1;
+        return {
+          rows: pageReads === 1 ? ALL_FAQS.slice(0, 51) : ALL_FAQS.slice(50)
+        }; // overfetch by one signals a next page
+      }
+    }
+  } as unknown as GraphQLContext; // only the fields the read path touches are faked
+
+  return { ctx, statements };
+}
+
+async function collect(args: ExportArgs, ctx: GraphQLContext) {
+  let text = '';
+  for await (const chunk of streamExport(args, ctx)) text += chunk;
+  return text;
+}
+
+// ---------- csv writer ----------
+
+describe('formatCsvRow', () => {
+  it('quotes only when needed and neutralizes formulas', () => {
+    expect(formatCsvRow(['plain', 'a, b', 'say "hi"', '=1+1', '@x'])).toBe(
+      'plain,"a, b","say ""hi""",\'=1+1,\'@x\r\n'
+    );
+  });
+});
+
+// ---------- request parsing ----------
+
+describe('export request parsing', () => {
+  it('maps file names and query strings onto connection args', () => {
+    expect(parseExportFile('FAQS.json')).toEqual({
+      entity: 'faqs',
+      format: 'json'
+    });
+    expect(() => parseExportFile('controls.xlsx')).toThrow(
+      /^VALIDATION_ERROR: export must be/
+    );
+
+    expect(
+      parseExportFilters({
+        category: 'Privacy',
+        search: 'retention',
+        searchMode: 'fulltext',
+        tags: ['gdpr,dpa', 'ccpa']
+      })
+    ).toEqual({
+      category: 'Privacy',
+      search: 'retention',
+      searchMode: 'FULLTEXT',
+      tags: ['gdpr', 'dpa', 'ccpa']
+    });
+    expect(() => parseExportFilters({ tagMatch: 'SOME' })).toThrow(
+      'VALIDATION_ERROR: tagMatch must be one of ANY, ALL'
+    );
+  });
+});
+
+// ---------- streaming ----------
+
+describe('streamExport', () => {
+  it('pages through every published row as csv', async () => {
+    const { ctx, statements } = makeContext();
+
+    const csv = await collect(
+      { entity: 'faqs', format: 'csv', filters: { category: 'General' } },
+      ctx
+    );
+
+    expect(csv.startsWith('﻿faq_key,question,answer,')).toBe(true);
+
+    const records = parseCsv(csv);
+    expect(records).toHaveLength(52);
+    expect(records[0]).toMatchObject({
+      faq_key: 'faq_1',
+      answer: '\'=HYPERLINK("x")',
+      tags: 'alpha; beta'
+    });
+
+    const pageQueries = statements.filter(
+      statement => !/count\(\*\)/.test(statement.sql)
+    );
+    expect(pageQueries).toHaveLength(2); // second read follows the first page cursor
+    expect(pageQueries[0]?.params).toEqual(['published', 'general', 51]); // public status + category filter reach the sql
+  });
+
+  it('writes the seed-file json shape', async () => {
+    const { ctx } = makeContext();
+
+    const json = JSON.parse(
+      await collect({ entity: 'faqs', format: 'json', filters: {} }, ctx)
+    ) as { faqs: Record<string, unknown>[] };
+
+    expect(json.faqs).toHaveLength(52);
+    expect(json.faqs[1]).toEqual({
+      faq_key: 'faq_2',
+      question: 'Question 2?',
+      answer: 'Answer, number 2',
+      section: 'General',
+      category: 'General',
+      subcategory: null,
+      tags: ['alpha', 'beta'],
+      updated_at: '2025-12-31T23:59:58.000Z'
+    });
+  });
+});
@@ -0,0 +1,482 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  compliance framework mapping unit coverage (no db)
+
+  what this file proves:
+    - the shipped frameworks.json is valid and only maps control keys that exist in controls.json
+    - the framework filter adds an exists(...) predicate with its own param and its own cache key
+    - attaching a mapping runs on the write transaction, audits the framework diff, and invalidates reads
+    - attaching an existing mapping / detaching a missing one fail readably without an audit row
+    - mapping writes on a published control need content:publish (editor refused, reviewer allowed)
+    - attaching with a different title keeps the shared requirement's stored title for every control
+    - renaming a requirement is its own write: one audit row per mapped control, then invalidation
+
+  test strategy:
+    - fake db adapter records every statement instead of talking to postgres
+    - the manifest is read straight from disk
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import fs from 'node:fs/promises';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import {
+  attachControlFramework,
+  detachControlFramework,
+  getControlsPage,
+  renameFrameworkRequirement,
+  type DbControlRow
+} from '../../server/services/controlsService';
+import {
+  assertValidFrameworkManifest,
+  attachControlFrameworks,
+  readFrameworkManifestFile,
+  sortFrameworkMappings
+} from '../../server/services/frameworkService';
+
+// ---------- fixtures ----------
+
+const CONTROL_ID = '00000000-0000-4000-8000-000000000001';
+
+const CONTROL: DbControlRow = {
+  id: CONTROL_ID,
+  control_key: 'access_reviews',
+  title: 'Access reviews',
+  description: 'Quarterly access reviews',
+  section: 'Security',
+  category: 'Access Control',
+  subcategory: null,
+  tags: ['iam'],
+  source_url: null,
+  updated_at: '2026-01-01T00:00:00.000Z',
+  deleted_at: null
+};
+
+const MAPPING_ROW = {
+  control_id: CONTROL_ID,
+  framework: 'soc2',
+  requirement_id: 'CC6.1',
+  requirement_title: 'Logical access security'
+};
+
+type RecordedStatement = { sql: string; params: unknown[] | undefined };
+
+function makeContext(
+  rowsFor: (sql: string, callIndex: number, params?: unknown[]) => unknown[],
+  auth = { userEmail: 'admin@local', roles: ['admin'], isAdmin: true }
+) {
+  const statements: RecordedStatement[] = [];
+  const cacheKeys: string[] = [];
+  const invalidatePrefix = vi.fn(async () => {});
+
+  const run = async (sql: string, params?: unknown[]) => {
+    statements.push({ sql, params });
+    return { rows: rowsFor(sql, statements.length - 1, params) };
+  };
+
+  const ctx = {
+    requestId: 'req-frameworks-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (key: string, _ttl: number, load: () => unknown) => {
+        cacheKeys.push(key);
+        return load();
+      },
+      invalidatePrefix
+    },
+    auth,
+    db: {
+      query: run,
+      transaction: async <T>(
+        callback: (tx: { query: typeof run }) => Promise<T>
+      ): Promise<T> => callback({ query: run })
+    }
+  } as unknown as GraphQLContext; // only the fields the read + write paths touch are faked
+
+  return { ctx, statements, cacheKeys, invalidatePrefix };
+}
+
+async function readSeedControlKeys(): Promise<Set<string>> {
+  const raw = await fs.readFile(
+    new URL('../../server/db/data/controls.json', import.meta.url),
+    'utf8'
+  );
+  const parsed = JSON.parse(raw) as Record<string, { control_key?: string }[]>;
+  return new Set(
+    Object.values(parsed)
+      .flat()
+      .map(row => row.control_key ?? '')
+  );
+}
+
+// ---------- manifest ----------
+
+describe('frameworks.json', () => {
+  it('is valid and only maps control keys from the seed file', async () => {
+    const manifest = await readFrameworkManifestFile();
+    const controlKeys = await readSeedControlKeys();
+
+    expect(manifest.requirements.length).toBeGreaterThan(0);
+    for (const requirement of manifest.requirements) {
+      for (const key of requirement.controls)
+        expect(controlKeys).toContain(key);
+    }
+  });
+
+  it('rejects unknown frameworks and duplicate requirement ids', () => {
+    expect(() =>
+      assertValidFrameworkManifest({
+        version: 1,
+        requirements: [
+          { framework: 'pci', requirementId: '1.1', title: 'x', controls: [] }
+        ]
+      })
+    ).toThrow(/^FRAMEWORK_ERROR:/);
+
+    expect(() =>
+      assertValidFrameworkManifest({
+        version: 1,
+        requirements: [
+          {
+            framework: 'soc2',
+            requirementId: 'CC6.1',
+            title: 'a',
+            controls: []
+          },
+          {
+            framework: 'soc2',
+            requirementId: 'cc6.1',
+            title: 'b',
+            controls: []
+          }
+        ]
+      })
+    ).toThrow(/^FRAMEWORK_ERROR:/);
+  });
+
+  it('orders mappings by framework, then natural requirement id', () => {
+    const sorted = sortFrameworkMappings([
+      {
+        framework: 'iso27001',
+        requirement_id: 'A.5.15',
+        requirement_title: ''
+      },
+      { framework: 'soc2', requirement_id: 'CC6.10', requirement_title: '' },
+      { framework: 'soc2', requirement_id: 'CC6.2', requirement_title: '' }
+    ]);
+
+    expect(sorted.map(row => row.requirement_id)).toEqual([
+      'CC6.2',
+      'CC6.10',
+      'A.5.15'
+    ]);
+  });
+});
+
+// ---------- framework filter ----------
+
+describe('framework filter', () => {
+  it('adds an exists predicate with its own param and cache key segment', async () => {
+    const { ctx, statements, cacheKeys } = makeContext(
+      sql =>
+        /count\(\*\)/.test(sql)
+          ? [{ count: 1 }]
+          : /control_id = any/.test(sql)
+            ? [MAPPING_ROW]
+            : [CONTROL] // the page sql also names control_frameworks inside its exists filter
+    );
+
+    const page = await getControlsPage({ first: 10, framework: 'soc2' }, ctx);
+
+    const [count] = statements;
+    expect(count?.sql).toMatch(/exists \(/);
+    expect(count?.sql).toMatch(/fr\.framework = \$\d+/);
+    expect(count?.params?.at(-1)).toBe('soc2'); // appended last so search/cursor params keep their slots
+    expect(cacheKeys[0]).toMatch(/:framework=soc2/);
+    expect(page.rows[0]?.frameworks).toEqual([
+      {
+        framework: 'soc2',
+        requirement_id: 'CC6.1',
+        requirement_title: 'Logical access security'
+      }
+    ]);
+  });
+});
+
+// ---------- mapping writes ----------
+
+describe('framework mapping writes', () => {
+  it('attaches on the write transaction and audits the framework diff', async () => {
+    let mappingReads = 0;
+    const { ctx, statements, invalidatePrefix } = makeContext(sql => {
+      if (/for update/.test(sql)) return [CONTROL];
+      if (/insert into public\.framework_requirements/.test(sql))
+        return [{ id: 'req-1' }];
+      if (/insert into public\.control_frameworks/.test(sql))
+        return [{ control_id: CONTROL_ID }];
+      if (/from public\.control_frameworks/.test(sql))
+        return mappingReads++ === 0 ? [] : [MAPPING_ROW]; // before: none, after: the new mapping
+      return [];
+    });
+
+    const row = await attachControlFramework(
+      CONTROL_ID,
+      {
+        framework: 'soc2',
+        requirementId: ' CC6.1 ',
+        requirementTitle: 'Logical access security'
+      },
+      ctx
+    );
+
+    const audit = statements.find(statement =>
+      /insert into public\.audit_events/.test(statement.sql)
+    );
+    expect(audit?.params).toContain(
+      JSON.stringify({ frameworks: { before: [], after: ['soc2:CC6.1'] } })
+    );
+    expect(row.frameworks).toHaveLength(1);
+    expect(invalidatePrefix).toHaveBeenCalled();
+  });
+
+  it('rejects duplicate attaches and missing detaches without an audit row', async () => {
+    const { ctx, statements, invalidatePrefix } = makeContext(
+      sql =>
+        /for update/.test(sql)
+          ? [CONTROL]
+          : /insert into public\.framework_requirements/.test(sql)
+            ? [{ id: 'req-1' }]
+            : [] // mapping insert hits "on conflict do nothing"; delete matches nothing
+    );
+
+    await expect(
+      attachControlFramework(
+        CONTROL_ID,
+        { framework: 'soc2', requirementId: 'CC6.1', requirementTitle: 'x' },
+        ctx
+      )
+    ).rejects.toThrow(
+      'CONFLICT_ERROR: control is already mapped to soc2 CC6.1'
+    );
+    await expect(
+      detachControlFramework(
+        CONTROL_ID,
+        { framework: 'iso27001', requirementId: 'A.5.15' },
+        ctx
+      )
+    ).rejects.toThrow(/^NOT_FOUND_ERROR: control is not mapped/);
+
+    expect(
+      statements.some(statement =>
+        /insert into public\.audit_events/.test(statement.sql)
+      )
+    ).toBe(false);
+    expect(invalidatePrefix).not.toHaveBeenCalled();
+  });
+});
+
+describe('framework mapping writes on published controls', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const PUBLISHED: DbControlRow = { ...CONTROL, status: 'published' };
+
+  function rowsFor(sql: string): unknown[] {
+    if (/for update/.test(sql)) return [PUBLISHED];
+    if (/public\.framework_requirements/.test(sql)) return [{ id: 'req-1' }];
+    if (/insert into public\.control_frameworks/.test(sql))
+      return [{ control_id: CONTROL_ID }];
+    if (/delete from public\.control_frameworks/.test(sql))
+      return [{ control_id: CONTROL_ID }];
+    return [];
+  }
+
+  const ATTACH = {
+    framework: 'soc2',
+    requirementId: 'CC6.1',
+    requirementTitle: 'Logical access security'
+  } as const;
+  const DETACH = { framework: 'soc2', requirementId: 'CC6.1' } as const;
+
+  it('refuses an editor before any mapping write', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, statements } = makeContext(rowsFor, {
+      userEmail: 'editor@local',
+      roles: ['editor'],
+      isAdmin: false
+    });
+
+    await expect(
+      attachControlFramework(CONTROL_ID, ATTACH, ctx)
+    ).rejects.toMatchObject({
+      extensions: { code: 'FORBIDDEN', requiredPermission: 'content:publish' }
+    });
+    await expect(
+      detachControlFramework(CONTROL_ID, DETACH, ctx)
+    ).rejects.toThrow(/^FORBIDDEN:/);
+
+    expect(
+      statements.every(statement => /for update/.test(statement.sql))
+    ).toBe(true); // only the row locks ran
+  });
+
+  it('lets a reviewer attach and detach', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, invalidatePrefix } = makeContext(rowsFor, {
+      userEmail: 'reviewer@local',
+      roles: ['reviewer'],
+      isAdmin: false
+    });
+
+    await attachControlFramework(CONTROL_ID, ATTACH, ctx);
+    await detachControlFramework(CONTROL_ID, DETACH, ctx);
+
+    expect(invalidatePrefix).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------- shared requirement titles ----------
+
+describe('shared requirement titles', () => {
+  const OTHER_ID = '00000000-0000-4000-8000-000000000002';
+
+  function makeRequirementStore() {
+    const requirement = { id: 'req-1', title: 'Logical access security' };
+    const mappedControls = [OTHER_ID]; // another control already maps CC6.1
+
+    const rowsFor = (
+      sql: string,
+      _callIndex: number,
+      params?: unknown[]
+    ): unknown[] => {
+      if (/from public\.controls[\s\S]*for update/.test(sql)) return [CONTROL];
+      if (/insert into public\.framework_requirements/.test(sql)) {
+        if (!/do update/.test(sql)) return []; // CC6.1 already exists, so the insert conflicts
+        requirement.title = String(params?.[2]); // an upsert would overwrite the shared title
+        return [{ id: requirement.id }];
+      }
+      if (/from public\.framework_requirements[\s\S]*for update/.test(sql))
+        return [
+          {
+            id: requirement.id,
+            requirement_id: 'CC6.1',
+            title: requirement.title
+          }
+        ];
+      if (/update public\.framework_requirements/.test(sql)) return [];
+      if (/from public\.framework_requirements/.test(sql))
+        return [{ id: requirement.id }];
+      if (/insert into public\.control_frameworks/.test(sql)) {
+        mappedControls.push(CONTROL_ID);
+        return [{ control_id: CONTROL_ID }];
+      }
+      if (/select control_id\s+from public\.control_frameworks/.test(sql))
+        return mappedControls.map(control_id => ({ control_id }));
+      if (/from public\.control_frameworks/.test(sql))
+        return mappedControls.map(control_id => ({
+          ...MAPPING_ROW,
+          control_id,
+          requirement_title: requirement.title
+        }));
+      return [];
+    };
+
+    return { requirement, rowsFor };
+  }
+
+  it('keeps the stored title when another control attaches with a different one', async () => {
+    const { requirement, rowsFor } = makeRequirementStore();
+    const { ctx, statements } = makeContext(rowsFor);
+
+    const row = await attachControlFramework(
+      CONTROL_ID,
+      {
+        framework: 'soc2',
+        requirementId: 'CC6.1',
+        requirementTitle: 'Something else entirely'
+      },
+      ctx
+    );
+
+    const [other] = await attachControlFrameworks([{ id: OTHER_ID }], ctx.db);
+    expect(requirement.title).toBe('Logical access security');
+    expect(other?.frameworks[0]?.requirement_title).toBe(
+      'Logical access security'
+    );
+    expect(row.frameworks[0]?.requirement_title).toBe(
+      'Logical access security'
+    );
+    expect(
+      statements.some(statement =>
+        /update public\.framework_requirements/.test(statement.sql)
+      )
+    ).toBe(false);
+  });
+
+  it('renames on its own write, auditing every mapped control', async () => {
+    const { rowsFor } = makeRequirementStore();
+    const { ctx, statements, invalidatePrefix } = makeContext(rowsFor);
+
+    const result = await renameFrameworkRequirement(
+      {
+        framework: 'soc2',
+        requirementId: ' cc6.1 ',
+        requirementTitle: 'Logical access controls'
+      },
+      ctx
+    );
+
+    expect(result).toEqual({
+      framework: 'soc2',
+      requirementId: 'CC6.1',
+      requirementTitle: 'Logical access controls',
+      affectedControls: 1
+    });
+    const update = statements.find(statement =>
+      /update public\.framework_requirements/.test(statement.sql)
+    );
+    expect(update?.params?.slice(0, 2)).toEqual([
+      'req-1',
+      'Logical access controls'
+    ]);
+    const audits = statements.filter(statement =>
+      /insert into public\.audit_events/.test(statement.sql)
+    );
+    expect(audits).toHaveLength(1);
+    expect(audits[0]?.params).toContain(OTHER_ID);
+    expect(audits[0]?.params).toContain(
+      JSON.stringify({
+        frameworkTitles: {
+          before: ['soc2:CC6.1 Logical access security'],
+          after: ['soc2:CC6.1 Logical access controls']
+        }
+      })
+    );
+    expect(invalidatePrefix).toHaveBeenCalled();
+  });
+
+  it('skips the write, audit, and invalidation when the title is unchanged', async () => {
+    const { rowsFor } = makeRequirementStore();
+    const { ctx, statements, invalidatePrefix } = makeContext(rowsFor);
+
+    const result = await renameFrameworkRequirement(
+      {
+        framework: 'soc2',
+        requirementId: 'CC6.1',
+        requirementTitle: 'Logical access security'
+      },
+      ctx
+    );
+
+    expect(result.affectedControls).toBe(0);
+    expect(
+      statements.some(statement =>
+        /update public\.framework_requirements|insert into public\.audit_events/.test(
+          statement.sql
+        )
+      )
+    ).toBe(false);
+    expect(invalidatePrefix).not.toHaveBeenCalled();
+  });
+});
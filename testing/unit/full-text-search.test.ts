@@ -0,0 +1,136 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  unit tests for the in-memory full-text mirror
+
+  what this file proves:
+    - the english stemmer produces the same lexemes postgres stores in search_vector
+    - websearch-style queries parse into the same and/or/phrase/negation shape
+    - matching + ts_rank values line up with known postgres results
+
+  why this is high-value:
+    - seed fallback FULLTEXT reads must order rows exactly like the db path
+    - drift here would silently change which rows a rank cursor skips
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it } from 'vitest';
+import { stemEnglish } from '../../server/services/englishStemmer';
+import {
+  buildSearchVector,
+  matchesFullTextQuery,
+  parseWebSearchQuery,
+  rankFullTextMatch
+} from '../../server/services/fullTextSearch';
+
+// ---------- helpers ----------
+
+function matches(text: string, query: string): boolean {
+  return matchesFullTextQuery(
+    buildSearchVector(text),
+    parseWebSearchQuery(query)
+  );
+}
+
+function rank(text: string, query: string): number {
+  return rankFullTextMatch(buildSearchVector(text), parseWebSearchQuery(query));
+}
+
+// ---------- stemmer ----------
+
+describe('english stemmer', () => {
+  it('matches postgres english_stem output for common trust center words', () => {
+    const expected: Record<string, string> = {
+      authentication: 'authent',
+      security: 'secur',
+      policies: 'polici',
+      encryption: 'encrypt',
+      encrypted: 'encrypt',
+      controlled: 'control',
+      monitoring: 'monitor',
+      availability: 'avail',
+      privacy: 'privaci',
+      organization: 'organ',
+      quarterly: 'quarter',
+      hopeful: 'hope'
+    }; // values taken from to_tsvector('english', word)
+
+    for (const [word, stem] of Object.entries(expected)) {
+      expect(stemEnglish(word)).toBe(stem);
+    }
+  });
+
+  it('leaves short words and listed exceptions alone', () => {
+    expect(stemEnglish('is')).toBe('is'); // two letters or fewer are never stemmed
+    expect(stemEnglish('news')).toBe('news'); // invariant exception
+    expect(stemEnglish('skies')).toBe('sky'); // irregular exception
+  });
+});
+
+// ---------- query parsing ----------
+
+describe('websearch query parsing', () => {
+  it('drops stopwords and ANDs the remaining words', () => {
+    expect(parseWebSearchQuery('how is the data encrypted')).toEqual({
+      groups: [
+        [
+          { lexemes: [{ lexeme: 'data', offset: 0 }], negated: false },
+          { lexemes: [{ lexeme: 'encrypt', offset: 0 }], negated: false }
+        ]
+      ]
+    });
+  });
+
+  it('supports or, -negation, quoted phrases, and hyphenated compounds', () => {
+    const query = parseWebSearchQuery(
+      '"access review" or mfa -sms multi-factor'
+    );
+
+    expect(query.groups).toHaveLength(2); // or splits the query into two AND groups
+    expect(query.groups[0]?.[0]?.lexemes).toEqual([
+      { lexeme: 'access', offset: 0 },
+      { lexeme: 'review', offset: 1 }
+    ]); // phrase keeps relative positions
+    expect(query.groups[1]?.map(operand => operand.negated)).toEqual([
+      false,
+      true,
+      false
+    ]); // only the leading "-" negates
+    expect(query.groups[1]?.[2]?.lexemes).toEqual([
+      { lexeme: 'multi', offset: 0 },
+      { lexeme: 'factor', offset: 1 }
+    ]); // "multi-factor" reads as an adjacent pair, not a negation
+  });
+
+  it('returns an empty query when only stopwords remain', () => {
+    expect(parseWebSearchQuery('the and or of')).toEqual({ groups: [] });
+    expect(matches('the and or of', 'the')).toBe(false); // empty query matches nothing, like postgres
+  });
+});
+
+// ---------- matching + ranking ----------
+
+describe('full-text matching + ranking', () => {
+  const text =
+    'Access reviews are completed quarterly for every production access grant';
+
+  it('matches stems, phrases, or-groups, and negation', () => {
+    expect(matches(text, 'reviewed')).toBe(true); // stemmed match
+    expect(matches(text, '"access reviews"')).toBe(true); // adjacent phrase
+    expect(matches(text, '"reviews access"')).toBe(false); // phrase order matters
+    expect(matches(text, 'encryption or quarterly')).toBe(true); // one satisfied group is enough
+    expect(matches(text, 'access -production')).toBe(false); // negated word is present
+  });
+
+  it('reproduces ts_rank values for single-word queries', () => {
+    expect(rank('the cat sat', 'cat')).toBeCloseTo(0.0607927, 6); // ts_rank('cat') with one occurrence
+    expect(rank('the cat sat on the cat', 'cat')).toBeCloseTo(0.0759909, 6); // second occurrence adds 1/4 weight
+  });
+
+  it('ranks closer AND matches above distant ones', () => {
+    const near = rank('access review evidence retained', 'access review');
+    const far = rank(
+      'access is granted by owners and later evidence is kept for review',
+      'access review'
+    );
+
+    expect(near).toBeGreaterThan(far); // calc_rank_and rewards word proximity
+  });
+});
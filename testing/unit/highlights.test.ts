@@ -0,0 +1,115 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  unit tests for search highlight fragments
+
+  what this file proves:
+    - SUBSTRING highlights mark the literal term (case-insensitive) and keep the original casing
+    - FULLTEXT highlights mark stemmed matches but skip negated words
+    - long fields are cut into short ellipsis-bounded fragments around each match
+    - reads without a search term produce no highlighter (graphql returns null)
+
+  why this is high-value:
+    - db + seed fallback pages share this code, so its output is the contract the cards render
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  attachHighlights,
+  createHighlighter
+} from '../../server/services/highlights';
+
+// ---------- helpers ----------
+
+function highlight(
+  text: string,
+  search: string,
+  searchMode?: 'SUBSTRING' | 'FULLTEXT'
+) {
+  const highlighter = createHighlighter({
+    search,
+    ...(searchMode ? { searchMode } : {})
+  });
+
+  return highlighter?.([{ field: 'description', text }]) ?? [];
+}
+
+const LONG_TEXT =
+  'Access reviews are completed quarterly for every production access grant. ' +
+  'Owners confirm each grant against the current role catalog and remove anything stale. '.repeat(
+    4
+  ) +
+  'Exceptions are reviewed by security leadership.'; // > 35 words so fragments kick in
+
+// ---------- SUBSTRING ----------
+
+describe('search highlights (SUBSTRING)', () => {
+  it('marks every case-insensitive occurrence and keeps source casing', () => {
+    expect(highlight('User ACCESS review for access logs', 'access')).toEqual([
+      {
+        field: 'description',
+        fragment: 'User <mark>ACCESS</mark> review for <mark>access</mark> logs'
+      }
+    ]);
+  });
+
+  it('returns no fragment for fields without a hit', () => {
+    expect(highlight('Encrypted backups', 'access')).toEqual([]);
+  });
+});
+
+// ---------- FULLTEXT ----------
+
+describe('search highlights (FULLTEXT)', () => {
+  it('marks stemmed matches and ignores negated words', () => {
+    expect(
+      highlight(
+        'Data is encrypted at rest; SMS codes are not used',
+        'encryption -sms',
+        'FULLTEXT'
+      )
+    ).toEqual([
+      {
+        field: 'description',
+        fragment:
+          'Data is <mark>encrypted</mark> at rest; SMS codes are not used'
+      }
+    ]);
+  });
+
+  it('cuts long fields into ellipsis-bounded fragments around matches', () => {
+    const fragments = highlight(LONG_TEXT, 'review', 'FULLTEXT').map(
+      item => item.fragment
+    );
+
+    expect(fragments).toEqual([
+      'Access <mark>reviews</mark> are completed quarterly for every production…',
+      '…and remove anything stale. Exceptions are <mark>reviewed</mark> by security leadership.'
+    ]); // two separate matches far apart -> two fragments
+  });
+});
+
+// ---------- page wiring ----------
+
+describe('attachHighlights', () => {
+  const page = {
+    rows: [{ id: 'a', title: 'Access review' }],
+    hasNextPage: false
+  };
+
+  it('leaves pages untouched when the read had no search term', () => {
+    expect(createHighlighter({ search: '   ' })).toBeNull();
+    expect(
+      attachHighlights(page, {}, row => [{ field: 'title', text: row.title }])
+    ).toBe(page);
+  });
+
+  it('copies rows instead of mutating the (possibly cached) page', () => {
+    const next = attachHighlights(page, { search: 'review' }, row => [
+      { field: 'title', text: row.title }
+    ]);
+
+    expect(next.rows[0]?.highlights).toEqual([
+      { field: 'title', fragment: 'Access <mark>review</mark>' }
+    ]);
+    expect(page.rows[0]).not.toHaveProperty('highlights');
+  });
+});
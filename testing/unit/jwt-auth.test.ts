@@ -0,0 +1,310 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  bearer jwt auth unit coverage (no network, no issuer)
+
+  what this file proves:
+    - RS256 / ES256 tokens verify against a jwks file and map email + roles claims onto AuthState
+    - bad signatures, wrong issuer / audience, expiry, and "none" / HS256 algorithms are rejected
+    - a url jwks is fetched once, cached, and refreshed when a token names a rotated kid
+    - a presented bearer token never downgrades to anonymous; x-admin-token only works in dev mode
+    - role-less tokens pick up an active nda grant; a failed grant lookup leaves them uncleared
+
+  test strategy:
+    - key pairs are generated in-process and tokens are signed with node:crypto
+    - the jwks file lives in a temp directory; the url source gets an injected fetch
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  generateKeyPairSync,
+  sign,
+  type JsonWebKey,
+  type KeyObject
+} from 'node:crypto';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi
+} from 'vitest';
+import { extractAuth } from '../../server/auth';
+import { createJwksResolver } from '../../server/auth/jwks';
+import { verifyJwt } from '../../server/auth/jwt';
+
+// ---------- fixtures ----------
+
+const ISSUER = 'https://issuer.example.com/';
+const AUDIENCE = 'trust-center';
+const NOW = 1_800_000_000; // pinned unix seconds for claim checks
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+function toPublicJwk(key: KeyObject, kid: string, alg: string): JsonWebKey {
+  return { ...key.export({ format: 'jwk' }), kid, alg, use: 'sig' };
+}
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signJwt(
+  claims: Record<string, unknown>,
+  opts: { key?: KeyObject; kid?: string; alg?: 'RS256' | 'ES256' } = {}
+): string {
+  const alg = opts.alg ?? 'RS256';
+  const body = `${encode({ alg, kid: opts.kid ?? 'rsa-1', typ: 'JWT' })}.${encode(claims)}`;
+  const signature = sign('sha256', Buffer.from(body), {
+    key: opts.key ?? rsa.privateKey,
+    ...(alg === 'ES256' ? { dsaEncoding: 'ieee-p1363' as const } : {})
+  });
+  return `${body}.${signature.toString('base64url')}`;
+}
+
+function validClaims(overrides: Record<string, unknown> = {}) {
+  return {
+    iss: ISSUER,
+    aud: AUDIENCE,
+    sub: 'user-123',
+    email: 'reviewer@example.com',
+    roles: ['reviewer', 'billing'],
+    exp: NOW + 300,
+    ...overrides
+  };
+}
+
+function bearerRequest(token: string): Request {
+  return new Request('http://localhost/graphql', {
+    headers: { authorization: `Bearer ${token}` }
+  });
+}
+
+let tempDir = '';
+let jwksFile = '';
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tc-jwks-'));
+  jwksFile = path.join(tempDir, 'jwks.json');
+  await fs.writeFile(
+    jwksFile,
+    JSON.stringify({
+      keys: [
+        toPublicJwk(rsa.publicKey, 'rsa-1', 'RS256'),
+        toPublicJwk(ec.publicKey, 'ec-1', 'ES256')
+      ]
+    })
+  );
+});
+
+afterAll(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+// ---------- verification ----------
+
+describe('verifyJwt', () => {
+  const resolveKey = () => createJwksResolver({ kind: 'file', path: jwksFile });
+  const opts = { issuer: ISSUER, audience: AUDIENCE, now: NOW };
+
+  it('accepts RS256 and ES256 tokens signed by a jwks key', async () => {
+    const resolver = resolveKey();
+
+    await expect(
+      verifyJwt(signJwt(validClaims()), resolver, opts)
+    ).resolves.toMatchObject({ sub: 'user-123' });
+    await expect(
+      verifyJwt(
+        signJwt(validClaims(), {
+          key: ec.privateKey,
+          kid: 'ec-1',
+          alg: 'ES256'
+        }),
+        resolver,
+        opts
+      )
+    ).resolves.toMatchObject({ sub: 'user-123' });
+  });
+
+  it('rejects bad signatures, claims, and algorithms', async () => {
+    const resolver = resolveKey();
+    const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const unsigned = `${encode({ alg: 'none' })}.${encode(validClaims())}.`;
+    const hmac = `${encode({ alg: 'HS256', kid: 'rsa-1' })}.${encode(validClaims())}.c2ln`;
+
+    const cases: Array<[string, RegExp]> = [
+      [
+        signJwt(validClaims(), { key: other.privateKey }),
+        /signature is invalid/
+      ],
+      [signJwt(validClaims({ iss: 'https://evil.example.com/' })), /issuer/],
+      [signJwt(validClaims({ aud: ['other-app'] })), /audience/],
+      [signJwt(validClaims({ exp: NOW - 120 })), /expired/],
+      [signJwt(validClaims({ exp: undefined })), /no exp claim/],
+      [signJwt(validClaims({ nbf: NOW + 600 })), /not valid yet/],
+      [signJwt(validClaims(), { kid: 'missing' }), /key is unknown/],
+      [unsigned, /algorithm none is not accepted/],
+      [hmac, /algorithm HS256 is not accepted/],
+      ['not-a-jwt', /not a signed jwt/]
+    ];
+
+    for (const [token, reason] of cases) {
+      await expect(verifyJwt(token, resolver, opts)).rejects.toThrow(
+        /^UNAUTHENTICATED:/
+      );
+      await expect(verifyJwt(token, resolver, opts)).rejects.toThrow(reason);
+    }
+  });
+
+  it('caches a url jwks and refreshes it once for a rotated kid', async () => {
+    let served = [toPublicJwk(rsa.publicKey, 'rsa-1', 'RS256')];
+    const fetchJwks = vi.fn(
+      async () => new Response(JSON.stringify({ keys: served }))
+    );
+    let clock = 0;
+    const resolver = createJwksResolver(
+      { kind: 'url', url: 'https://issuer.example.com/jwks.json' },
+      { fetch: fetchJwks as unknown as typeof fetch, now: () => clock }
+    );
+
+    await verifyJwt(signJwt(validClaims()), resolver, opts);
+    await verifyJwt(signJwt(validClaims()), resolver, opts);
+    expect(fetchJwks).toHaveBeenCalledTimes(1); // second token hits the cache
+
+    served = [toPublicJwk(ec.publicKey, 'ec-2', 'ES256')];
+    const rotated = signJwt(validClaims(), {
+      key: ec.privateKey,
+      kid: 'ec-2',
+      alg: 'ES256'
+    });
+
+    await expect(verifyJwt(rotated, resolver, opts)).rejects.toThrow(
+      /key is unknown/
+    ); // refreshes are throttled right after a load
+    clock = 60_000;
+    await expect(verifyJwt(rotated, resolver, opts)).resolves.toBeDefined();
+    expect(fetchJwks).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------- request auth ----------
+
+describe('extractAuth bearer tokens', () => {
+  function stubJwksEnv() {
+    vi.stubEnv('AUTH_JWKS_FILE', jwksFile);
+    vi.stubEnv('AUTH_JWKS_URL', '');
+    vi.stubEnv('AUTH_ISSUER', ISSUER);
+    vi.stubEnv('AUTH_AUDIENCE', AUDIENCE);
+    vi.useFakeTimers({ now: NOW * 1000, toFake: ['Date'] });
+  }
+
+  it('maps verified email + known roles onto the auth state', async () => {
+    stubJwksEnv();
+
+    expect(await extractAuth(bearerRequest(signJwt(validClaims())))).toEqual({
+      userEmail: 'reviewer@example.com',
+      roles: ['reviewer'], // "billing" is not an rbac role here
+      isAdmin: false
+    });
+  });
+
+  it('reads nested role claims and falls back to sub without an email', async () => {
+    stubJwksEnv();
+    vi.stubEnv('AUTH_ROLES_CLAIM', 'realm_access.roles');
+
+    const token = signJwt(
+      validClaims({
+        email: undefined,
+        roles: undefined,
+        realm_access: { roles: ['Admin'] }
+      })
+    );
+
+    expect(await extractAuth(bearerRequest(token))).toEqual({
+      userEmail: 'user-123',
+      roles: ['admin'],
+      isAdmin: true
+    });
+  });
+
+  it('attaches an active nda grant to role-less tokens and fails closed', async () => {
+    stubJwksEnv();
+    const token = signJwt(validClaims({ roles: [] }));
+    const granted = {
+      query: vi.fn(async () => ({
+        rows: [{ expires_at: new Date('2026-11-01T00:00:00.000Z') }]
+      }))
+    };
+
+    expect(await extractAuth(bearerRequest(token), granted)).toEqual({
+      userEmail: 'reviewer@example.com',
+      roles: [],
+      isAdmin: false,
+      ndaAccessExpiresAt: '2026-11-01T00:00:00.000Z'
+    });
+    expect(granted.query.mock.calls[0]).toEqual([
+      expect.stringMatching(/expires_at > now\(\)/),
+      ['reviewer@example.com']
+    ]);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken = {
+      query: vi.fn(async () => {
+        throw new Error('connect ECONNREFUSED');
+      })
+    };
+    expect(await extractAuth(bearerRequest(token), broken)).toEqual({
+      userEmail: 'reviewer@example.com',
+      roles: [],
+      isAdmin: false
+    }); // db outage hides nda content instead of failing the request
+    expect(warn).toHaveBeenCalledWith(
+      '[auth] nda grant lookup failed: connect ECONNREFUSED'
+    );
+
+    const roleDb = { query: vi.fn() };
+    await extractAuth(bearerRequest(signJwt(validClaims())), roleDb);
+    expect(roleDb.query).not.toHaveBeenCalled(); // roles are already cleared
+    warn.mockRestore();
+  });
+
+  it('fails the request with a 401 error instead of going anonymous', async () => {
+    stubJwksEnv();
+
+    await expect(
+      extractAuth(bearerRequest(signJwt(validClaims({ exp: NOW - 600 }))))
+    ).rejects.toMatchObject({
+      message: 'UNAUTHENTICATED: token has expired',
+      extensions: { code: 'UNAUTHENTICATED', http: { status: 401 } }
+    });
+    await expect(
+      extractAuth(
+        new Request('http://localhost/graphql', {
+          headers: { authorization: 'Basic dXNlcjpwYXNz' }
+        })
+      )
+    ).rejects.toThrow('UNAUTHENTICATED: authorization must be a bearer token');
+  });
+
+  it('only honours x-admin-token when dev tokens are enabled', async () => {
+    vi.stubEnv('ADMIN_SECRET', 'admin-token');
+    const request = () =>
+      new Request('http://localhost/graphql', {
+        headers: { 'x-admin-token': 'admin-token' }
+      });
+
+    vi.stubEnv('AUTH_DEV_TOKENS', '');
+    expect((await extractAuth(request())).roles).toEqual([]);
+
+    vi.stubEnv('AUTH_DEV_TOKENS', 'true');
+    expect((await extractAuth(request())).roles).toEqual(['admin']);
+  });
+});
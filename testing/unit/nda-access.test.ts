@@ -0,0 +1,466 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  nda visibility tier + access request unit coverage (no db)
+
+  what this file proves:
+    - roles, read:nda / admin api keys, and active grants clear a viewer; the read cache splits public / nda
+    - uncleared reads lock nda rows into teasers, search skips them, and exports drop them
+    - requestAccess needs a signed-in person; approve / deny validate before writing and map conflicts
+    - adminSetVisibility needs content:publish and audits only real changes
+
+  test strategy:
+    - fake db adapter records every statement instead of talking to postgres
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import {
+  buildRoleAuth,
+  getAuthScopeForReadCache,
+  hasNdaAccess,
+  type AuthState
+} from '../../server/auth';
+import {
+  getControlsPage,
+  setControlVisibility,
+  type DbControlRow
+} from '../../server/services/controlsService';
+import { getFaqsPage } from '../../server/services/faqsService';
+import { readAllControlRows } from '../../server/services/exportService';
+import {
+  approveAccessRequest,
+  createAccessRequest,
+  denyAccessRequest,
+  isGrantActive,
+  type DbAccessRequestRow
+} from '../../server/services/accessRequestService';
+import { mapControlNode } from '../../server/graphql/nodeMappers';
+import { mutationResolvers } from '../../server/graphql/mutations';
+
+// ---------- fixtures ----------
+
+const CONTROL_ID = '00000000-0000-4000-8000-000000000001';
+const NDA_CONTROL_ID = '00000000-0000-4000-8000-000000000002';
+const REQUEST_ID = '00000000-0000-4000-8000-0000000000b1';
+
+const ANONYMOUS: AuthState = { userEmail: null, roles: [], isAdmin: false };
+const GRANTED: AuthState = {
+  userEmail: 'buyer@example.com',
+  roles: [],
+  isAdmin: false,
+  ndaAccessExpiresAt: '2026-11-01T00:00:00.000Z'
+};
+
+function makeControlRow(overrides: Partial<DbControlRow> = {}): DbControlRow {
+  return {
+    id: CONTROL_ID,
+    control_key: 'access_reviews',
+    title: 'Access reviews',
+    description: 'Quarterly access reviews',
+    section: 'Security',
+    category: 'Access Control',
+    subcategory: null,
+    tags: ['iam'],
+    source_url: 'https://example.com/access-reviews',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    deleted_at: null,
+    status: 'published',
+    visibility: 'public',
+    ...overrides
+  };
+}
+
+const NDA_CONTROL = makeControlRow({
+  id: NDA_CONTROL_ID,
+  control_key: 'pen_test_results',
+  title: 'Penetration test results',
+  description: 'Findings from the 2026 external test',
+  visibility: 'nda'
+});
+
+function makeRequestRow(
+  overrides: Partial<DbAccessRequestRow> = {}
+): DbAccessRequestRow {
+  return {
+    id: REQUEST_ID,
+    requester_email: 'buyer@example.com',
+    company: 'Acme',
+    reason: 'Vendor review',
+    status: 'pending',
+    created_at: '2026-10-01T00:00:00.000Z',
+    decided_at: null,
+    decided_by: null,
+    decision_note: null,
+    expires_at: null,
+    ...overrides
+  };
+}
+
+type RecordedStatement = { sql: string; params: unknown[] | undefined };
+
+function makeContext(auth: AuthState, rowsFor: (sql: string) => unknown[]) {
+  const statements: RecordedStatement[] = [];
+  const cacheKeys: string[] = [];
+
+  const run = async (sql: string, params?: unknown[]) => {
+    statements.push({ sql, params });
+    return { rows: rowsFor(sql) };
+  };
+
+  const ctx = {
+    requestId: 'req-nda-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (key: string, _ttl: number, load: () => unknown) => {
+        cacheKeys.push(key);
+        return load();
+      },
+      invalidatePrefix: vi.fn(async () => {})
+    },
+    auth,
+    db: {
+      query: run,
+      transaction: async <T>(
+        callback: (tx: { query: typeof run }) => Promise<T>
+      ): Promise<T> => callback({ query: run })
+    }
+  } as unknown as GraphQLContext; // only the fields the read + write paths touch are faked
+
+  return { ctx, statements, cacheKeys };
+}
+
+const pageRows = (sql: string) =>
+  /count\(\*\)/.test(sql)
+    ? [{ count: 2 }]
+    : /control_id = any/.test(sql)
+      ? [] // framework mappings + evidence loads
+      : [makeControlRow(), NDA_CONTROL];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+// ---------- clearance ----------
+
+describe('nda clearance', () => {
+  it('clears roles, nda-scoped api keys, and active grants', () => {
+    const key = (scopes: string[]) => ({
+      ...buildRoleAuth('api-key:tc_partner', []),
+      apiKey: { id: 'k', name: 'Partner', prefix: 'tc_partner', scopes }
+    });
+
+    expect(hasNdaAccess(ANONYMOUS)).toBe(false);
+    expect(hasNdaAccess(buildRoleAuth('editor@local', ['editor']))).toBe(true);
+    expect(hasNdaAccess(key(['read:nda']))).toBe(true);
+    expect(hasNdaAccess(key(['read:public']))).toBe(false);
+    expect(hasNdaAccess(GRANTED)).toBe(true);
+  });
+
+  it('splits the read cache between public and nda viewers', () => {
+    expect(getAuthScopeForReadCache(ANONYMOUS)).toBe('public');
+    expect(getAuthScopeForReadCache(GRANTED)).toBe('nda');
+    expect(getAuthScopeForReadCache({ roles: ['admin'] })).toBe('admin'); // role sets keep their own scope
+  });
+
+  it('treats only unexpired approvals as active grants', () => {
+    const now = new Date('2026-10-15T00:00:00.000Z');
+
+    expect(
+      isGrantActive(
+        { status: 'approved', expires_at: '2026-11-01T00:00:00.000Z' },
+        now
+      )
+    ).toBe(true);
+    expect(
+      isGrantActive(
+        { status: 'approved', expires_at: '2026-10-01T00:00:00.000Z' },
+        now
+      )
+    ).toBe(false);
+    expect(isGrantActive({ status: 'denied', expires_at: null }, now)).toBe(
+      false
+    );
+  });
+});
+
+// ---------- reads ----------
+
+describe('nda reads', () => {
+  it('locks nda rows for uncleared viewers and keeps the teaser fields', async () => {
+    const { ctx, cacheKeys } = makeContext(ANONYMOUS, pageRows);
+
+    const page = await getControlsPage({ first: 10 }, ctx);
+
+    expect(cacheKeys[0]).toBe('controls:list:role=public:first=10');
+    expect(page.rows[0]?.locked).toBeUndefined();
+    expect(page.rows[1]).toMatchObject({
+      title: 'Penetration test results',
+      category: 'Access Control',
+      description: '',
+      source_url: null,
+      evidence: [],
+      locked: true
+    });
+    expect(mapControlNode(page.rows[1] as DbControlRow)).toMatchObject({
+      visibility: 'NDA',
+      locked: true
+    });
+  });
+
+  it('serves cleared viewers the full row under the nda cache scope', async () => {
+    const { ctx, cacheKeys } = makeContext(GRANTED, pageRows);
+
+    const page = await getControlsPage({ first: 10 }, ctx);
+
+    expect(cacheKeys[0]).toBe('controls:list:role=nda:first=10');
+    expect(page.rows[1]?.description).toBe(
+      'Findings from the 2026 external test'
+    );
+    expect(page.rows[1]?.locked).toBeUndefined();
+  });
+
+  it('keeps nda rows out of uncleared search matches', async () => {
+    const emptySearch = (sql: string) =>
+      /count\(\*\)/.test(sql) ? [{ count: 0 }] : [];
+
+    const publicRead = makeContext(ANONYMOUS, emptySearch);
+    await getControlsPage({ first: 10, search: 'pen test' }, publicRead.ctx);
+    expect(publicRead.statements[0]?.sql).toMatch(/visibility = 'public'/);
+
+    const clearedRead = makeContext(GRANTED, emptySearch);
+    await getControlsPage({ first: 10, search: 'pen test' }, clearedRead.ctx);
+    expect(clearedRead.statements[0]?.sql).not.toMatch(/visibility/);
+  });
+
+  it('blanks locked faq answers', async () => {
+    const { ctx } = makeContext(ANONYMOUS, sql =>
+      /count\(\*\)/.test(sql)
+        ? [{ count: 1 }]
+        : [
+            {
+              id: CONTROL_ID,
+              faq_key: 'pen_test',
+              question: 'Can we see the pen test report?',
+              answer: 'Yes, the 2026 report is attached.',
+              section: 'Security',
+              category: 'Testing',
+              subcategory: null,
+              tags: [],
+              updated_at: '2026-01-01T00:00:00.000Z',
+              deleted_at: null,
+              status: 'published',
+              visibility: 'nda'
+            }
+          ]
+    );
+
+    const page = await getFaqsPage({ first: 10 }, ctx);
+
+    expect(page.rows[0]).toMatchObject({
+      question: 'Can we see the pen test report?',
+      answer: '',
+      locked: true
+    });
+  });
+
+  it('drops locked rows from exports', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {}); // data-source log lines
+    const { ctx } = makeContext(ANONYMOUS, pageRows);
+
+    const rows: DbControlRow[] = [];
+    for await (const chunk of readAllControlRows({}, ctx)) rows.push(...chunk);
+
+    expect(rows.map(row => row.id)).toEqual([CONTROL_ID]);
+  });
+});
+
+// ---------- access requests ----------
+
+describe('access requests', () => {
+  it('files requests for the signed-in email only', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {}); // request log line
+    const { ctx, statements } = makeContext(
+      buildRoleAuth('buyer@example.com', []),
+      () => [makeRequestRow()]
+    );
+
+    const node = await mutationResolvers.Mutation.requestAccess(
+      null,
+      { input: { company: '  Acme ', reason: 'Vendor review' } },
+      ctx
+    );
+
+    expect(node).toMatchObject({ status: 'PENDING', isActive: false });
+    expect(statements[0]?.params).toEqual([
+      'buyer@example.com',
+      'Acme',
+      'Vendor review'
+    ]);
+
+    for (const auth of [
+      ANONYMOUS,
+      {
+        ...buildRoleAuth('api-key:tc_partner', []),
+        apiKey: {
+          id: 'k',
+          name: 'Partner',
+          prefix: 'tc_partner',
+          scopes: ['read:public']
+        }
+      }
+    ]) {
+      await expect(
+        mutationResolvers.Mutation.requestAccess(
+          null,
+          {},
+          makeContext(auth, () => []).ctx
+        )
+      ).rejects.toMatchObject({
+        message: 'UNAUTHENTICATED: sign in to request nda access',
+        extensions: { code: 'UNAUTHENTICATED' }
+      });
+    }
+  });
+
+  it('answers a second pending request with a conflict', async () => {
+    const { ctx } = makeContext(GRANTED, () => {
+      throw Object.assign(new Error('duplicate key'), {
+        code: '23505',
+        constraint: 'nda_access_requests_pending_idx'
+      });
+    });
+
+    await expect(
+      createAccessRequest('buyer@example.com', {}, ctx)
+    ).rejects.toThrow(
+      'CONFLICT_ERROR: an nda access request is already pending for this account'
+    );
+  });
+
+  it('validates approvals before writing and refuses denied requests', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {}); // decision log lines
+    const admin = buildRoleAuth('admin@local', ['admin']);
+
+    const invalid = makeContext(admin, () => []);
+    await expect(
+      approveAccessRequest(REQUEST_ID, 0, invalid.ctx)
+    ).rejects.toThrow(
+      'VALIDATION_ERROR: days must be a whole number from 1 to 365'
+    );
+    await expect(
+      approveAccessRequest('not-a-uuid', 30, invalid.ctx)
+    ).rejects.toThrow('NOT_FOUND_ERROR: access request not-a-uuid not found');
+    expect(invalid.statements).toHaveLength(0);
+
+    const approved = makeContext(admin, () => [
+      makeRequestRow({
+        status: 'approved',
+        expires_at: '2026-11-01T00:00:00.000Z'
+      })
+    ]);
+    await approveAccessRequest(REQUEST_ID, null, approved.ctx);
+    expect(approved.statements[0]?.params).toEqual([
+      REQUEST_ID,
+      30,
+      'admin@local'
+    ]); // days default to 30
+
+    const denied = makeContext(admin, sql =>
+      /^\s*update/.test(sql) ? [] : [makeRequestRow({ status: 'denied' })]
+    );
+    await expect(
+      approveAccessRequest(REQUEST_ID, 30, denied.ctx)
+    ).rejects.toThrow(
+      `CONFLICT_ERROR: access request ${REQUEST_ID} was denied; the requester must file a new one`
+    );
+  });
+
+  it('revokes grants on deny and keeps the first decision', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {}); // decision log line
+    const admin = buildRoleAuth('admin@local', ['admin']);
+
+    const first = makeContext(admin, () => [
+      makeRequestRow({ status: 'denied' })
+    ]);
+    await denyAccessRequest(REQUEST_ID, '  no NDA on file ', first.ctx);
+    expect(first.statements[0]?.sql).toMatch(/expires_at = null/);
+    expect(first.statements[0]?.params).toEqual([
+      REQUEST_ID,
+      'admin@local',
+      'no NDA on file'
+    ]);
+
+    const again = makeContext(admin, sql =>
+      /^\s*update/.test(sql) ? [] : [makeRequestRow({ status: 'denied' })]
+    );
+    const row = await denyAccessRequest(REQUEST_ID, null, again.ctx);
+    expect(row.status).toBe('denied');
+    expect(again.statements).toHaveLength(2); // no-op update + read back
+  });
+
+  it('lets only access:manage decide requests', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, statements } = makeContext(
+      buildRoleAuth('reviewer@local', ['reviewer']),
+      () => []
+    );
+
+    await expect(
+      mutationResolvers.Mutation.adminApproveAccessRequest(
+        null,
+        { id: REQUEST_ID },
+        ctx
+      )
+    ).rejects.toMatchObject({
+      extensions: { code: 'FORBIDDEN', requiredPermission: 'access:manage' }
+    });
+    expect(statements).toHaveLength(0);
+  });
+});
+
+// ---------- visibility writes ----------
+
+describe('adminSetVisibility', () => {
+  it('needs content:publish', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, statements } = makeContext(
+      buildRoleAuth('editor@local', ['editor']),
+      () => []
+    );
+
+    await expect(
+      mutationResolvers.Mutation.adminSetVisibility(
+        null,
+        { entity: 'CONTROL', id: CONTROL_ID, visibility: 'NDA' },
+        ctx
+      )
+    ).rejects.toMatchObject({
+      extensions: { code: 'FORBIDDEN', requiredPermission: 'content:publish' }
+    });
+    expect(statements).toHaveLength(0);
+  });
+
+  it('audits real changes and skips no-ops', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {}); // invalidation log line
+    const admin = buildRoleAuth('admin@local', ['admin']);
+
+    const change = makeContext(admin, sql =>
+      /for update/.test(sql)
+        ? [makeControlRow()]
+        : [makeControlRow({ visibility: 'nda' })]
+    );
+    const row = await setControlVisibility(CONTROL_ID, 'nda', change.ctx);
+    expect(row.visibility).toBe('nda');
+    const [, write, audit] = change.statements;
+    expect(write?.params).toEqual([CONTROL_ID, 'nda', 'admin@local']);
+    expect(audit?.params?.[5]).toBe(
+      JSON.stringify({ visibility: { before: 'public', after: 'nda' } })
+    );
+
+    const noop = makeContext(admin, () => [makeControlRow()]);
+    await setControlVisibility(CONTROL_ID, 'public', noop.ctx);
+    expect(noop.statements).toHaveLength(1); // only the locking select ran
+  });
+});
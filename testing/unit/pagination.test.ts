@@ -6,6 +6,8 @@
     - page size/input normalization is safe
     - sql helper builders produce expected params + clauses
     - in-memory filtering + pagination behave like connection pagination
+    - FULLTEXT mode builds ranked sql + rank-aware cursors on both db and seed paths
+    - section / subcategory / tags (ANY | ALL) filters match the same rows in sql + seed mode
 
   why this is high-value:
     - these helpers are reused across resolvers/services
@@ -24,9 +26,11 @@ import {
   isValidCursor,
   buildCategorySearchWhere,
   buildAfterBoundary,
+  buildOrderBySql,
   filterRowsByCategorySearch,
   pageFromRows
 } from '../../server/services/pagination';
+import { buildControlsReadCacheKey } from '../../server/cache/keys';
 
 // ---------- test fixtures ----------
 
@@ -137,6 +141,18 @@ describe('pagination helpers', () => {
     expect(result.whereSql.startsWith('where ')).toBe(true); // clause should be prefixed with WHERE
   });
 
+  it('buildCategorySearchWhere hides soft-deleted rows without shifting param indexes', () => {
+    const result = buildCategorySearchWhere({
+      category: 'Security',
+      excludeDeleted: true
+    });
+
+    expect(result.whereSql).toBe(
+      'where deleted_at is null and lower(category) = $1'
+    ); // deleted filter is a literal predicate, so it adds no param
+    expect(result.params).toEqual(['security']);
+  });
+
   it('buildAfterBoundary returns sql + params for a valid cursor and throws for invalid cursor', () => {
     const after = encodeCursor({
       sortValue: '2026-02-24T12:00:00.000Z',
@@ -220,3 +236,189 @@ describe('pagination helpers', () => {
     expect(page.endCursor).toBeNull(); // no rows means no endCursor
   });
 });
+
+// ---------- FULLTEXT mode coverage ----------
+
+describe('pagination helpers (FULLTEXT mode)', () => {
+  const getText = (row: Row) => `${row.title} ${row.description}`; // same text shape as the substring tests above
+
+  it('buildCategorySearchWhere builds a websearch_to_tsquery predicate + rank expression', () => {
+    const result = buildCategorySearchWhere({
+      category: 'Security',
+      search: '  zero   trust ',
+      searchMode: 'FULLTEXT'
+    });
+
+    expect(result.params).toEqual(['security', 'zero trust']); // search term is normalized but not LIKE-escaped
+    expect(result.whereSql).toContain(
+      "search_vector @@ websearch_to_tsquery('english', $2)"
+    ); // GIN-indexed predicate
+    expect(result.rankSql).toBe(
+      "ts_rank(search_vector, websearch_to_tsquery('english', $2))"
+    ); // rank reuses the same param
+    expect(buildOrderBySql(result.rankSql)).toBe(
+      'order by rank desc, updated_at desc, id desc'
+    ); // relevance first, then the usual tie-breakers
+  });
+
+  it('FULLTEXT without a search term behaves like an unranked read', () => {
+    expect(
+      buildCategorySearchWhere({ search: '   ', searchMode: 'FULLTEXT' })
+    ).toEqual({ whereSql: '', params: [] }); // nothing to rank
+    expect(buildOrderBySql(undefined)).toBe(
+      'order by updated_at desc, id desc'
+    ); // default ordering
+  });
+
+  it('buildAfterBoundary adds the rank to the boundary tuple and rejects cursors from the other mode', () => {
+    const rankSql =
+      "ts_rank(search_vector, websearch_to_tsquery('english', $1))";
+    const rankCursor = encodeCursor({
+      sortValue: '2026-02-24T12:00:00.000Z',
+      id: '00000000-0000-0000-0000-000000000003',
+      rank: 0.0607927
+    });
+    const plainCursor = encodeCursor({
+      sortValue: '2026-02-24T12:00:00.000Z',
+      id: '00000000-0000-0000-0000-000000000003'
+    });
+
+    const boundary = buildAfterBoundary(rankCursor, 2, rankSql);
+
+    expect(boundary.params).toEqual([
+      0.0607927,
+      '2026-02-24T12:00:00.000Z',
+      '00000000-0000-0000-0000-000000000003'
+    ]); // (rank, updated_at, id) tuple order
+    expect(boundary.sql).toContain(`${rankSql} < $2::real`); // rank compared as real so cursor values round-trip exactly
+    expect(boundary.sql).toContain('id < $4::uuid'); // id param index shifts by one
+
+    expect(() => buildAfterBoundary(plainCursor, 2, rankSql)).toThrow(
+      'CURSOR_ERROR: after cursor was issued for a different search mode'
+    ); // substring cursor cannot page a ranked read
+    expect(() => buildAfterBoundary(rankCursor, 2)).toThrow(
+      'CURSOR_ERROR: after cursor was issued for a different search mode'
+    ); // ranked cursor cannot page a substring read
+  });
+
+  it('filterRowsByCategorySearch matches stemmed words in FULLTEXT mode', () => {
+    const args = { search: 'reviewed' };
+
+    expect(
+      filterRowsByCategorySearch(ROWS_DESC, args, {
+        getCategory: row => row.category,
+        getSearchText: getText
+      })
+    ).toHaveLength(0); // substring "reviewed" never appears literally
+
+    const ranked = filterRowsByCategorySearch(
+      ROWS_DESC,
+      { ...args, searchMode: 'FULLTEXT' },
+      { getCategory: row => row.category, getSearchText: getText }
+    );
+
+    expect(ranked.map(row => row.title)).toEqual(['Access Reviews']); // "reviewed" and "review" share the stem "review"
+    expect(ranked[0]?.rank).toBeGreaterThan(0); // matched rows always carry a rank
+  });
+
+  it('orders FULLTEXT rows by rank before recency and pages with rank cursors', () => {
+    const ranked = filterRowsByCategorySearch(
+      ROWS_DESC,
+      { search: 'vendor risk or patch', searchMode: 'FULLTEXT' },
+      { getCategory: row => row.category, getSearchText: getText }
+    );
+
+    expect(ranked.map(row => row.id)).toEqual([
+      '00000000-0000-0000-0000-000000000001',
+      '00000000-0000-0000-0000-000000000003'
+    ]); // oldest row wins because it matches more query words
+
+    const firstPage = pageFromRows(ranked, { first: 1 });
+    const firstCursor = decodeCursor(firstPage.endCursor as string);
+
+    expect(firstCursor?.rank).toBe(ranked[0]?.rank); // endCursor carries the rank of the last row
+
+    const secondPage = pageFromRows(ranked, {
+      first: 1,
+      after: firstPage.endCursor as string
+    });
+
+    expect(secondPage.rows.map(row => row.id)).toEqual([
+      '00000000-0000-0000-0000-000000000003'
+    ]); // rank boundary keeps the newer, lower-ranked row for page two
+    expect(secondPage.hasNextPage).toBe(false);
+
+    const plainCursor = pageFromRows(ROWS_DESC, { first: 1 })
+      .endCursor as string;
+    expect(() =>
+      pageFromRows(ranked, { first: 1, after: plainCursor })
+    ).toThrow(
+      'CURSOR_ERROR: after cursor was issued for a different search mode'
+    ); // seed paging enforces the same mode rule as the sql boundary
+  });
+});
+
+// ---------- taxonomy filter coverage ----------
+
+describe('pagination helpers (taxonomy filters)', () => {
+  const TAXONOMY_ROWS = ROWS_DESC.map((row, index) => ({
+    ...row,
+    section: index === 2 ? 'Governance' : 'Security',
+    subcategory: index === 0 ? 'Patching' : null,
+    tags: index === 0 ? ['ops', 'Patching'] : index === 1 ? ['iam'] : null
+  }));
+  const opts = {
+    getCategory: (row: Row) => row.category,
+    getSearchText: (row: Row) => `${row.title} ${row.description}`
+  };
+
+  it('buildCategorySearchWhere builds lowercased section, subcategory, and tag predicates', () => {
+    const result = buildCategorySearchWhere({
+      section: ' Security ',
+      subcategory: 'PATCHING',
+      tags: ['Ops', ' patching ', 'ops', '  ']
+    });
+
+    expect(result.whereSql).toBe(
+      'where lower(section) = $1 and lower(subcategory) = $2 and public.lower_tags(tags) && $3::text[]'
+    ); // ANY is the default tag match
+    expect(result.params).toEqual([
+      'security',
+      'patching',
+      ['ops', 'patching']
+    ]); // tags deduped, blanks dropped, sorted
+
+    expect(
+      buildCategorySearchWhere({ tags: ['ops'], tagMatch: 'ALL' }).whereSql
+    ).toBe('where public.lower_tags(tags) @> $1::text[]');
+  });
+
+  it('filterRowsByCategorySearch applies the same taxonomy rules in seed mode', () => {
+    const ids = (args: Parameters<typeof filterRowsByCategorySearch>[1]) =>
+      filterRowsByCategorySearch(TAXONOMY_ROWS, args, opts).map(row =>
+        row.id.slice(-1)
+      );
+
+    expect(ids({ section: 'security' })).toEqual(['3', '2']);
+    expect(ids({ subcategory: 'patching' })).toEqual(['3']);
+    expect(ids({ tags: ['IAM', 'patching'] })).toEqual(['3', '2']); // ANY
+    expect(ids({ tags: ['ops', 'PATCHING'], tagMatch: 'ALL' })).toEqual(['3']);
+    expect(ids({ tags: ['iam', 'ops'], tagMatch: 'ALL' })).toEqual([]);
+  });
+
+  it('normalizes taxonomy filters into one cache key', () => {
+    expect(
+      buildControlsReadCacheKey({
+        first: 10,
+        section: ' Security ',
+        tags: ['Patching', 'ops', 'ops'],
+        tagMatch: 'ALL'
+      })
+    ).toBe(
+      'controls:list:role=public:first=10:section=security:tags=ops,patching:tagMatch=all'
+    );
+    expect(
+      buildControlsReadCacheKey({ first: 10, tags: ['ops'], tagMatch: 'ALL' })
+    ).toBe('controls:list:role=public:first=10:tags=ops'); // one tag reads the same either way
+  });
+});
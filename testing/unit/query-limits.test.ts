@@ -0,0 +1,225 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  graphql query depth + cost limit unit coverage (no db)
+
+  what this file proves:
+    - the shipped client queries fit inside the default depth + cost limits
+    - too-deep documents fail with QUERY_TOO_DEEP, following fragments
+    - paged fields multiply their selection by the clamped page size (literal, default, or worst case for $variables)
+    - too-costly documents fail with QUERY_TOO_COSTLY and report the measured cost
+    - a fragment spread chain (each spreading the next twice) is measured in linear time, not 2^n
+    - introspection is free, and 0 switches a check off
+    - GRAPHQL_MAX_DEPTH / GRAPHQL_MAX_COST override the defaults
+
+  test strategy:
+    - run graphql's own validate() against the real schema with only the limits rule
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildASTSchema,
+  getIntrospectionQuery,
+  parse,
+  validate
+} from 'graphql';
+import { typeDefs } from '../../server/graphql/schema';
+import {
+  createQueryLimitsRule,
+  getQueryLimitsFromEnv,
+  type QueryLimits
+} from '../../server/graphql/queryLimits';
+import {
+  AI_ANSWER_QUERY,
+  CONTROLS_CONNECTION_QUERY,
+  FAQS_CONNECTION_QUERY,
+  FRAMEWORK_COVERAGE_QUERY,
+  OVERVIEW_SEARCH_QUERY
+} from '../../client/src/api';
+
+// ---------- helpers ----------
+
+const schema = buildASTSchema(parse(typeDefs));
+const DEFAULT_LIMITS: QueryLimits = { maxDepth: 10, maxCost: 5_000 };
+
+function check(source: string, limits: QueryLimits = DEFAULT_LIMITS) {
+  return validate(schema, parse(source), [createQueryLimitsRule(limits)]);
+}
+
+// measuring stops once a limit is passed, so probe both sides of the exact cost
+function expectCost(source: string, cost: number): void {
+  expect(check(source, { maxDepth: 0, maxCost: cost })).toEqual([]);
+  expect(
+    check(source, { maxDepth: 0, maxCost: cost - 1 })[0]?.extensions.code
+  ).toBe('QUERY_TOO_COSTLY');
+}
+
+// F0 spreads F1 twice, F1 spreads F2 twice, ...  -->  2^n leaves if every spread is re-measured
+function fragmentChain(length: number): string {
+  const fragments = Array.from({ length }, (_, index) =>
+    index === length - 1
+      ? `fragment F${index} on Control { id }`
+      : `fragment F${index} on Control { ...F${index + 1} ...F${index + 1} }`
+  );
+  return `{ controlsConnection(first: 1) { edges { node { ...F0 } } } }\n${fragments.join('\n')}`;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// ---------- tests ----------
+
+describe('graphql query limits', () => {
+  it('accepts every query the client ships with the default limits', () => {
+    for (const query of [
+      CONTROLS_CONNECTION_QUERY,
+      FAQS_CONNECTION_QUERY,
+      OVERVIEW_SEARCH_QUERY,
+      AI_ANSWER_QUERY,
+      FRAMEWORK_COVERAGE_QUERY
+    ]) {
+      expect(check(query)).toEqual([]);
+    }
+  });
+
+  it('rejects documents nested past the depth limit, through fragments', () => {
+    const errors = check(
+      /* GraphQL */ `
+        query Deep {
+          controlsConnection(first: 1) {
+            edges {
+              node {
+                ...Revisions
+              }
+            }
+          }
+        }
+
+        fragment Revisions on Control {
+          revisions(first: 1) {
+            control {
+              revisions(first: 1) {
+                control {
+                  id
+                }
+              }
+            }
+          }
+        }
+      `,
+      { maxDepth: 6, maxCost: 0 }
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.message).toBe(
+      'QUERY_TOO_DEEP: query depth 8 exceeds the limit of 6'
+    );
+    expect(errors[0]?.extensions).toMatchObject({
+      code: 'QUERY_TOO_DEEP',
+      depth: 8, // leaf fields count as a level
+      maxDepth: 6
+    });
+  });
+
+  it('multiplies paged selections by the clamped page size', () => {
+    expectCost(
+      '{ controlsConnection(first: 2) { edges { node { id } } } }',
+      1 + 2 * 3
+    ); // connection + 2 x (edges + node + id)
+
+    expectCost(
+      '{ controlsConnection(first: 500) { edges { node { id } } } }',
+      1 + 50 * 3
+    ); // services clamp to 50, so the price does too
+
+    expectCost(
+      'query Page($first: Int!) { controlsConnection(first: $first) { edges { node { id } } } }',
+      1 + 50 * 3
+    ); // variables are priced at the worst case
+
+    expectCost(
+      '{ overviewSearch(search: "mfa") { controls { id } totalControls } }',
+      1 + 5 * 3
+    ); // firstPerKind defaults to 5
+  });
+
+  it('rejects documents over the cost limit with the measured cost', () => {
+    const errors = check(/* GraphQL */ `
+      {
+        controlsConnection(first: 50) {
+          edges {
+            node {
+              revisions {
+                control {
+                  id
+                  title
+                  description
+                  section
+                  category
+                }
+              }
+            }
+          }
+        }
+      }
+    `);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.message).toMatch(
+      /^QUERY_TOO_COSTLY: query cost \d+ exceeds the limit of 5000/
+    );
+    expect(errors[0]?.extensions.code).toBe('QUERY_TOO_COSTLY');
+    expect(Number(errors[0]?.extensions.cost)).toBeGreaterThan(5_000);
+  });
+
+  it('prices aiAnswer above a plain read', () => {
+    expectCost('{ aiAnswer(question: "mfa?") { answer } }', 100 + 1);
+  });
+
+  it('measures each fragment once, so spread chains stay cheap to check', () => {
+    const started = performance.now();
+    const errors = check(fragmentChain(40), { maxDepth: 0, maxCost: 0 }); // 2^40 leaves without memoization
+
+    expect(errors).toEqual([]);
+    expect(performance.now() - started).toBeLessThan(1_000);
+
+    expectCost(fragmentChain(4), 1 + 1 * (1 + 1 + 2 ** 3)); // connection + edges + node + 8 ids
+  });
+
+  it('stops measuring once a limit is passed', () => {
+    const errors = check(fragmentChain(1_100), {
+      maxDepth: 10,
+      maxCost: 5_000
+    }); // 2^1100 overflows to Infinity unless measuring stops early
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.extensions.code).toBe('QUERY_TOO_COSTLY');
+    expect(Number(errors[0]?.extensions.cost)).toBeGreaterThan(5_000);
+    expect(Number.isFinite(Number(errors[0]?.extensions.cost))).toBe(true);
+  });
+
+  it('lets introspection through and switches checks off at 0', () => {
+    expect(
+      check(getIntrospectionQuery(), { maxDepth: 3, maxCost: 10 })
+    ).toEqual([]);
+
+    expect(
+      check('{ controlsConnection(first: 50) { edges { node { id } } } }', {
+        maxDepth: 0,
+        maxCost: 0
+      })
+    ).toEqual([]);
+  });
+
+  it('reads the limits from env', () => {
+    expect(getQueryLimitsFromEnv()).toEqual(DEFAULT_LIMITS);
+
+    vi.stubEnv('GRAPHQL_MAX_DEPTH', '4');
+    vi.stubEnv('GRAPHQL_MAX_COST', '250');
+    expect(getQueryLimitsFromEnv()).toEqual({ maxDepth: 4, maxCost: 250 });
+
+    vi.stubEnv('GRAPHQL_MAX_COST', 'lots');
+    expect(() => getQueryLimitsFromEnv()).toThrow(
+      'ENV_ERROR: invalid GRAPHQL_MAX_COST'
+    );
+  });
+});
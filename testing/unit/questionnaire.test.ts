@@ -0,0 +1,209 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  questionnaire mapping unit coverage (no db)
+
+  what this file proves:
+    - the shipped questionnaires.json is valid and only maps keys that exist in the seed files
+    - mapped answers put faq text first, then "title: description" per control, with control source links
+    - gaps are split into unmapped (no keys) and missing_source (keys not published)
+    - the csv export lists every question with status, sources, and missing keys
+
+  test strategy:
+    - pure answer building from in-memory rows; the manifest is read straight from disk
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import fs from 'node:fs/promises';
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from '../../server/services/csv';
+import type { DbControlRow } from '../../server/services/controlsService';
+import type { DbFaqRow } from '../../server/services/faqsService';
+import {
+  assertValidQuestionnaireManifest,
+  buildQuestionnaireAnswers,
+  formatQuestionnaire,
+  parseQuestionnaireFile,
+  readQuestionnaireManifestFile,
+  type QuestionnaireDefinition
+} from '../../server/services/questionnaireService';
+
+// ---------- fixtures ----------
+
+const CONTROL: DbControlRow = {
+  id: '00000000-0000-4000-8000-000000000001',
+  control_key: 'mfa_enforced',
+  title: 'MFA is enforced',
+  description: 'All staff use MFA.',
+  section: 'Identity & Access',
+  category: 'Access Control',
+  subcategory: 'Authentication',
+  tags: ['mfa'],
+  source_url: 'https://example.com/mfa',
+  updated_at: '2026-02-01T00:00:00.000Z',
+  deleted_at: null,
+  status: 'published'
+};
+
+const FAQ: DbFaqRow = {
+  id: '00000000-0000-4000-8000-000000000002',
+  faq_key: 'mfa_faq',
+  question: 'Do you use MFA?',
+  answer: 'Yes, for every workforce account.',
+  section: 'General',
+  category: 'General',
+  subcategory: null,
+  tags: [],
+  updated_at: '2026-02-01T00:00:00.000Z',
+  deleted_at: null,
+  status: 'published'
+};
+
+const DEFINITION: QuestionnaireDefinition = {
+  id: 'test',
+  name: 'Test questionnaire',
+  questions: [
+    {
+      id: 'IAM-1',
+      domain: 'Identity',
+      question: 'Is MFA required?',
+      controls: ['mfa_enforced'],
+      faqs: ['mfa_faq']
+    },
+    {
+      id: 'IAM-2',
+      domain: 'Identity',
+      question: 'Are accounts reviewed?',
+      controls: ['access_reviews'],
+      faqs: []
+    },
+    {
+      id: 'BCR-1',
+      domain: 'Resilience',
+      question: 'Is there a DR plan?',
+      controls: [],
+      faqs: []
+    }
+  ]
+};
+
+async function readSeedKeys(file: string, field: string): Promise<string[]> {
+  const raw = await fs.readFile(
+    new URL(`../../server/db/data/${file}`, import.meta.url),
+    'utf8'
+  );
+  const parsed = JSON.parse(raw) as Record<string, Record<string, string>[]>;
+  return Object.values(parsed)
+    .flat()
+    .map(row => row[field] ?? '');
+}
+
+// ---------- manifest ----------
+
+describe('questionnaires.json', () => {
+  it('is valid and only maps keys from the seed content', async () => {
+    const manifest = await readQuestionnaireManifestFile();
+    const controlKeys = new Set(
+      await readSeedKeys('controls.json', 'control_key')
+    );
+    const faqKeys = new Set(await readSeedKeys('faqs.json', 'faq_key'));
+
+    const questions = manifest.questionnaires.flatMap(q => q.questions);
+    expect(questions.length).toBeGreaterThan(0);
+    for (const question of questions) {
+      for (const key of question.controls) expect(controlKeys).toContain(key);
+      for (const key of question.faqs) expect(faqKeys).toContain(key);
+    }
+  });
+
+  it('rejects duplicate question ids', () => {
+    const question = DEFINITION.questions[0];
+    expect(() =>
+      assertValidQuestionnaireManifest({
+        version: 1,
+        questionnaires: [{ ...DEFINITION, questions: [question, question] }]
+      })
+    ).toThrow(/^QUESTIONNAIRE_ERROR: .* duplicate question "IAM-1"/);
+  });
+});
+
+// ---------- answers ----------
+
+describe('buildQuestionnaireAnswers', () => {
+  it('pre-fills mapped answers and lists the gaps', () => {
+    const result = buildQuestionnaireAnswers(DEFINITION, [CONTROL], [FAQ]);
+
+    expect(result).toMatchObject({ totalQuestions: 3, answeredCount: 1 });
+    expect(result.answers[0]).toEqual({
+      questionId: 'IAM-1',
+      domain: 'Identity',
+      question: 'Is MFA required?',
+      status: 'answered',
+      answer:
+        'Yes, for every workforce account.\n\nMFA is enforced: All staff use MFA.',
+      sources: [
+        {
+          kind: 'faq',
+          key: 'mfa_faq',
+          title: 'Do you use MFA?',
+          sourceUrl: null
+        },
+        {
+          kind: 'control',
+          key: 'mfa_enforced',
+          title: 'MFA is enforced',
+          sourceUrl: 'https://example.com/mfa'
+        }
+      ],
+      missingKeys: []
+    });
+    expect(
+      result.unmapped.map(answer => [answer.questionId, answer.status])
+    ).toEqual([
+      ['IAM-2', 'missing_source'],
+      ['BCR-1', 'unmapped']
+    ]);
+    expect(result.unmapped[0]?.missingKeys).toEqual(['access_reviews']);
+  });
+});
+
+// ---------- export ----------
+
+describe('questionnaire export', () => {
+  it('parses <id>.csv / <id>.json file names', () => {
+    expect(parseQuestionnaireFile('CAIQ.csv')).toEqual({
+      id: 'caiq',
+      format: 'csv'
+    });
+    expect(() => parseQuestionnaireFile('caiq.xlsx')).toThrow(
+      'VALIDATION_ERROR: questionnaire export must be <id>.csv or <id>.json'
+    );
+  });
+
+  it('writes one csv row per question, gaps included', () => {
+    const csv = formatQuestionnaire(
+      buildQuestionnaireAnswers(DEFINITION, [CONTROL], [FAQ]),
+      'csv'
+    );
+
+    expect(csv.startsWith('﻿question_id,domain,question,status')).toBe(true);
+    const records = parseCsv(csv);
+    expect(records.map(record => record.status)).toEqual([
+      'answered',
+      'missing_source',
+      'unmapped'
+    ]);
+    expect(records[0]?.sources).toBe('mfa_faq; mfa_enforced');
+    expect(records[0]?.source_urls).toBe('https://example.com/mfa');
+    expect(records[1]?.missing_keys).toBe('access_reviews');
+  });
+
+  it('lists unmapped question ids in the json export', () => {
+    const json = JSON.parse(
+      formatQuestionnaire(
+        buildQuestionnaireAnswers(DEFINITION, [CONTROL], [FAQ]),
+        'json'
+      )
+    ) as { unmapped: string[]; answeredCount: number };
+
+    expect(json.answeredCount).toBe(1);
+    expect(json.unmapped).toEqual(['IAM-2', 'BCR-1']);
+  });
+});
@@ -0,0 +1,336 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  token bucket rate limiting unit coverage (no server)
+
+  what this file proves:
+    - a fresh bucket allows a full burst, then refills at the configured rate
+    - the memory store drops the least recently seen client past maxKeys
+    - requests spend from the ip bucket until their x-api-key succeeds; then from a hashed key bucket
+    - made-up keys never open a bucket (no ip-limit bypass, no store flooding) and a 401 drops a known key's bucket
+    - a limited request answers 429 with Retry-After (graphql or { ok, error } shape by route)
+    - capacity 0 switches a tier off, and a failing store lets requests through
+    - RATE_LIMIT_* env settings parse like DB_POOL_* and bad values fail at boot
+
+  test strategy:
+    - fake express req / res objects + an injected clock, so no listener or timers are needed
+    - run() finishes each passed request with a chosen status, like the auth layer behind the limiter would
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { hashApiKey } from '../../server/auth';
+import {
+  MemoryRateLimitStore,
+  createRateLimitStoreFromEnv,
+  createRateLimiter,
+  getRateLimitConfig,
+  getRateLimitKeys,
+  type RateLimitConfig,
+  type RateLimitStore
+} from '../../server/rateLimit';
+
+// ---------- fixtures ----------
+
+const CONFIG: RateLimitConfig = {
+  ip: { capacity: 2, refillPerSecond: 1 },
+  apiKey: { capacity: 5, refillPerSecond: 1 }
+};
+
+function makeRequest(
+  options: { ip?: string; apiKey?: string; baseUrl?: string } = {}
+): Request {
+  return {
+    ip: options.ip ?? '203.0.113.7',
+    socket: {},
+    baseUrl: options.baseUrl ?? '/api',
+    originalUrl: `${options.baseUrl ?? '/api'}/export/controls.csv`,
+    get: (name: string) =>
+      name.toLowerCase() === 'x-api-key' ? options.apiKey : undefined
+  } as unknown as Request;
+}
+
+function makeResponse() {
+  const sent: {
+    status: number | null;
+    headers: Record<string, string>;
+    body: unknown;
+  } = { status: null, headers: {}, body: null };
+  const finishListeners: Array<() => void> = [];
+
+  const res = {
+    statusCode: 200,
+    on(event: string, listener: () => void) {
+      if (event === 'finish') finishListeners.push(listener);
+      return res;
+    },
+    finish(statusCode: number) {
+      res.statusCode = statusCode;
+      finishListeners.forEach(listener => listener());
+    },
+    setHeader(name: string, value: string) {
+      sent.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    }
+  };
+
+  return { res: res as unknown as Response, finish: res.finish, sent };
+}
+
+async function run(
+  limiter: ReturnType<typeof createRateLimiter>,
+  req: Request = makeRequest(),
+  statusCode = 200 // what the route behind the limiter answers
+) {
+  const { res, finish, sent } = makeResponse();
+  const next = vi.fn();
+  await limiter(req, res, next);
+
+  const passed = next.mock.calls.length === 1;
+  finish(passed ? statusCode : (sent.status ?? 500));
+  await new Promise(resolve => setImmediate(resolve)); // let the finish bookkeeping settle
+  return { sent, passed };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+// ---------- memory store ----------
+
+describe('memory rate limit store', () => {
+  it('allows a full burst, then refills at the configured rate', () => {
+    const store = new MemoryRateLimitStore(100);
+    const rule = { capacity: 2, refillPerSecond: 0.5 };
+
+    expect(store.take('ip:a', rule, 0)).toEqual({
+      allowed: true,
+      remaining: 1,
+      retryAfterSeconds: 0
+    });
+    expect(store.take('ip:a', rule, 0).allowed).toBe(true);
+    expect(store.take('ip:a', rule, 0)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 2 // one token at 0.5/s
+    });
+
+    expect(store.take('ip:a', rule, 1_000).allowed).toBe(false); // half a token so far
+    expect(store.take('ip:a', rule, 2_000).allowed).toBe(true);
+    expect(store.take('ip:b', rule, 2_000).allowed).toBe(true); // buckets are per key
+  });
+
+  it('never refills past capacity', () => {
+    const store = new MemoryRateLimitStore(100);
+    const rule = { capacity: 2, refillPerSecond: 1 };
+
+    store.take('ip:a', rule, 0);
+    expect(store.take('ip:a', rule, 60_000).remaining).toBe(1); // full (2) minus this request
+  });
+
+  it('drops the least recently seen client past maxKeys', () => {
+    const store = new MemoryRateLimitStore(2);
+    const rule = { capacity: 1, refillPerSecond: 0.001 };
+
+    store.take('ip:a', rule, 0);
+    store.take('ip:b', rule, 0);
+    store.take('ip:a', rule, 0); // a is now the most recent (and empty)
+    store.take('ip:c', rule, 0); // evicts b
+
+    expect(store.size()).toBe(2);
+    expect(store.take('ip:a', rule, 0).allowed).toBe(false); // still tracked
+    expect(store.take('ip:b', rule, 0).allowed).toBe(true); // starts over with a full bucket
+  });
+});
+
+// ---------- middleware ----------
+
+describe('rate limit middleware', () => {
+  it('keys every request by ip and api key requests by the key hash too', () => {
+    expect(getRateLimitKeys(makeRequest({ ip: '198.51.100.4' }))).toEqual({
+      ip: 'ip:198.51.100.4',
+      apiKey: null
+    });
+
+    const keyed = getRateLimitKeys(makeRequest({ apiKey: 'tc_live_secret' }));
+    expect(keyed.ip).toBe('ip:203.0.113.7');
+    expect(keyed.apiKey).toBe(
+      `key:${hashApiKey('tc_live_secret').slice(0, 32)}`
+    );
+    expect(keyed.apiKey).not.toContain('secret'); // plaintext never reaches the store
+  });
+
+  it('sets RateLimit headers and answers 429 with Retry-After once the bucket is empty', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const limiter = createRateLimiter({
+      config: CONFIG,
+      store: new MemoryRateLimitStore(100),
+      now: () => 0
+    });
+
+    const first = await run(limiter);
+    expect(first.passed).toBe(true);
+    expect(first.sent.headers).toMatchObject({
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '1'
+    });
+
+    await run(limiter);
+    const limited = await run(limiter);
+
+    expect(limited.passed).toBe(false);
+    expect(limited.sent.status).toBe(429);
+    expect(limited.sent.headers['Retry-After']).toBe('1');
+    expect(limited.sent.body).toEqual({
+      ok: false,
+      error: 'RATE_LIMITED: too many requests, retry in 1s'
+    });
+  });
+
+  it('answers /graphql with a graphql error envelope', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const limiter = createRateLimiter({
+      config: { ...CONFIG, ip: { capacity: 1, refillPerSecond: 0.25 } },
+      store: new MemoryRateLimitStore(100),
+      now: () => 0
+    });
+    const req = makeRequest({ baseUrl: '/graphql' });
+
+    await run(limiter, req);
+    const limited = await run(limiter, req);
+
+    expect(limited.sent.status).toBe(429);
+    expect(limited.sent.body).toEqual({
+      errors: [
+        {
+          message: 'RATE_LIMITED: too many requests, retry in 4s',
+          extensions: { code: 'RATE_LIMITED', retryAfterSeconds: 4 }
+        }
+      ]
+    });
+  });
+
+  it('moves an api key onto its own larger bucket once it authenticates', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = new MemoryRateLimitStore(100);
+    const limiter = createRateLimiter({ config: CONFIG, store, now: () => 0 });
+    const keyed = makeRequest({ apiKey: 'tc_live_secret' });
+    const keyBucket = getRateLimitKeys(keyed).apiKey ?? '';
+
+    const first = await run(limiter, keyed); // spends from the ip bucket
+    expect(first.sent.headers['RateLimit-Limit']).toBe('2');
+    expect(store.has(keyBucket)).toBe(true); // succeeded  -->  bucket opened (its first token paid for this request)
+
+    for (let i = 0; i < 4; i += 1) {
+      const result = await run(limiter, keyed);
+      expect(result.passed).toBe(true);
+      expect(result.sent.headers['RateLimit-Limit']).toBe('5');
+    }
+    expect((await run(limiter, keyed)).passed).toBe(false); // key bucket empty
+
+    await run(limiter);
+    expect((await run(limiter)).passed).toBe(false); // the ip bucket has its own budget
+  });
+
+  it('keeps made-up api keys on the ip bucket and never opens a bucket for them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = new MemoryRateLimitStore(100);
+    const limiter = createRateLimiter({ config: CONFIG, store, now: () => 0 });
+
+    const results = [];
+    for (let i = 0; i < 4; i += 1) {
+      results.push(
+        await run(limiter, makeRequest({ apiKey: `tc_random_${i}` }), 401)
+      ); // auth rejects every one of them
+    }
+
+    expect(results.map(result => result.passed)).toEqual([
+      true,
+      true,
+      false,
+      false
+    ]); // a fresh key per request still spends the one ip bucket
+    expect(store.size()).toBe(1); // only ip:203.0.113.7
+  });
+
+  it('drops a known key bucket when the key stops authenticating', async () => {
+    const store = new MemoryRateLimitStore(100);
+    const limiter = createRateLimiter({ config: CONFIG, store, now: () => 0 });
+    const keyed = makeRequest({ apiKey: 'tc_live_secret' });
+    const keyBucket = getRateLimitKeys(keyed).apiKey ?? '';
+
+    await run(limiter, keyed);
+    expect(store.has(keyBucket)).toBe(true);
+
+    await run(limiter, keyed, 401); // revoked
+    expect(store.has(keyBucket)).toBe(false);
+  });
+
+  it('skips tiers with capacity 0 and fails open when the store errors', async () => {
+    const off = createRateLimiter({
+      config: { ...CONFIG, ip: { capacity: 0, refillPerSecond: 0 } },
+      store: new MemoryRateLimitStore(100)
+    });
+    for (let i = 0; i < 5; i += 1) {
+      const result = await run(off);
+      expect(result.passed).toBe(true);
+      expect(result.sent.headers).toEqual({}); // nothing is tracked
+    }
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken: RateLimitStore = {
+      take: () => Promise.reject(new Error('store down')),
+      has: () => Promise.reject(new Error('store down')),
+      delete: () => Promise.reject(new Error('store down'))
+    };
+    const failOpen = createRateLimiter({ config: CONFIG, store: broken });
+    expect((await run(failOpen)).passed).toBe(true);
+    expect(
+      (await run(failOpen, makeRequest({ apiKey: 'tc_live_secret' }))).passed
+    ).toBe(true);
+  });
+});
+
+// ---------- env config ----------
+
+describe('rate limit env config', () => {
+  it('uses the defaults and honours overrides', () => {
+    expect(getRateLimitConfig()).toEqual({
+      ip: { capacity: 120, refillPerSecond: 2 },
+      apiKey: { capacity: 600, refillPerSecond: 10 }
+    });
+
+    vi.stubEnv('RATE_LIMIT_CAPACITY', '30');
+    vi.stubEnv('RATE_LIMIT_REFILL_PER_SECOND', '0.5');
+    vi.stubEnv('RATE_LIMIT_API_KEY_CAPACITY', '0');
+    expect(getRateLimitConfig()).toEqual({
+      ip: { capacity: 30, refillPerSecond: 0.5 },
+      apiKey: { capacity: 0, refillPerSecond: 10 }
+    });
+  });
+
+  it('fails at boot on bad values or an unknown store', () => {
+    vi.stubEnv('RATE_LIMIT_CAPACITY', 'many');
+    expect(() => getRateLimitConfig()).toThrow(
+      'ENV_ERROR: invalid RATE_LIMIT_CAPACITY'
+    );
+
+    vi.stubEnv('RATE_LIMIT_CAPACITY', '10');
+    vi.stubEnv('RATE_LIMIT_REFILL_PER_SECOND', '0');
+    expect(() => getRateLimitConfig()).toThrow(
+      'ENV_ERROR: invalid RATE_LIMIT_REFILL_PER_SECOND'
+    );
+
+    vi.stubEnv('RATE_LIMIT_STORE', 'redis');
+    expect(() => createRateLimitStoreFromEnv()).toThrow(
+      'ENV_ERROR: unknown RATE_LIMIT_STORE "redis"'
+    );
+  });
+});
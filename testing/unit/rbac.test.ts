@@ -0,0 +1,335 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  role-based access control unit coverage (no db)
+
+  what this file proves:
+    - editor / reviewer / admin map to the expected permission sets
+    - forbidden calls throw a GraphQLError with a FORBIDDEN extensions code
+    - anonymous local dev still passes; requests that carry a role are always enforced
+    - the read cache scope is derived from the role set, not the admin flag
+    - demo secrets hand out the matching role, and resolvers check before any db work
+    - renaming a shared framework requirement needs content:publish
+    - editors cannot change published rows in place (update, delete, taxonomy cascade, import)
+
+  test strategy:
+    - env is stubbed per test; the fake db throws if a denied resolver ever reaches it
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import {
+  assertPermission,
+  buildRoleAuth,
+  canChangePublished,
+  extractAuth,
+  getAuthScopeForReadCache,
+  getPermissions
+} from '../../server/auth';
+import { mutationResolvers } from '../../server/graphql/mutations';
+import {
+  relabelControlsTaxonomy,
+  updateControl,
+  type DbControlRow
+} from '../../server/services/controlsService';
+import { deleteFaq } from '../../server/services/faqsService';
+import { importContent } from '../../server/services/importService';
+
+afterEach(() => {
+  vi.unstubAllEnvs(); // every test starts from the ambient env
+});
+
+// ---------- permission model ----------
+
+describe('role permissions', () => {
+  it('grants each role its permission set', () => {
+    expect(getPermissions({ roles: ['editor'] })).toEqual(['content:write']);
+    expect(getPermissions({ roles: ['reviewer'] })).toEqual([
+      'audit:read',
+      'content:publish',
+      'content:write'
+    ]);
+    expect(getPermissions({ roles: ['admin'] })).toEqual([
+      'access:manage',
+      'apikeys:manage',
+      'audit:read',
+      'cache:invalidate',
+      'content:publish',
+      'content:write'
+    ]);
+    expect(getPermissions({ roles: ['owner'] })).toEqual([]); // unknown roles grant nothing
+  });
+
+  it('throws a structured FORBIDDEN error for a missing permission', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    let caught: unknown;
+    try {
+      assertPermission({ roles: ['editor'] }, 'content:publish');
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toMatchObject({
+      name: 'GraphQLError',
+      message: 'FORBIDDEN: content:publish permission required'
+    });
+    expect((caught as { extensions: unknown }).extensions).toMatchObject({
+      code: 'FORBIDDEN',
+      requiredPermission: 'content:publish'
+    });
+    expect(() =>
+      assertPermission({ roles: ['reviewer'] }, 'content:publish')
+    ).not.toThrow();
+  });
+
+  it('keeps the anonymous local-dev bypass but enforces requests with roles', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+
+    expect(() => assertPermission({ roles: [] }, 'audit:read')).not.toThrow();
+    expect(() => assertPermission({ roles: ['editor'] }, 'audit:read')).toThrow(
+      /^FORBIDDEN:/
+    );
+
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => assertPermission({ roles: [] }, 'content:write')).toThrow(
+      /^FORBIDDEN:/
+    );
+  });
+
+  it('derives the read cache scope from the role set', () => {
+    expect(getAuthScopeForReadCache({ roles: [] })).toBe('public');
+    expect(getAuthScopeForReadCache({ roles: ['admin'] })).toBe('admin');
+    expect(getAuthScopeForReadCache({ roles: ['reviewer', 'editor'] })).toBe(
+      'editor+reviewer'
+    ); // fixed order, so role order never splits the cache
+    expect(getAuthScopeForReadCache({ roles: ['owner'] })).toBe('public');
+  });
+});
+
+// ---------- auth extraction ----------
+
+describe('extractAuth roles', () => {
+  function requestWithToken(token: string): Request {
+    return new Request('http://localhost/graphql', {
+      headers: { 'x-admin-token': token }
+    });
+  }
+
+  it('hands out the role whose secret matches the demo token header', async () => {
+    vi.stubEnv('AUTH_DEV_TOKENS', 'true');
+    vi.stubEnv('ADMIN_SECRET', 'admin-token');
+    vi.stubEnv('REVIEWER_SECRET', 'reviewer-token');
+    vi.stubEnv('EDITOR_SECRET', '');
+
+    expect(await extractAuth(requestWithToken('reviewer-token'))).toEqual({
+      userEmail: 'reviewer@local',
+      roles: ['reviewer'],
+      isAdmin: false
+    });
+    expect((await extractAuth(requestWithToken('admin-token'))).isAdmin).toBe(
+      true
+    );
+    expect((await extractAuth(requestWithToken(''))).roles).toEqual([]); // a blank editor secret never matches
+  });
+});
+
+// ---------- resolver boundary ----------
+
+describe('mutation permissions', () => {
+  function makeContext(roles: string[]) {
+    const query = vi.fn(async () => {
+      throw new Error('db should not be reached');
+    });
+
+    const ctx = {
+      requestId: 'req-rbac-test',
+      memo: new Map(),
+      cache: { invalidatePrefix: vi.fn(async () => {}) },
+      auth: buildRoleAuth('user@local', roles),
+      db: { query, transaction: query }
+    } as unknown as GraphQLContext; // only the fields the resolver gate touches are faked
+
+    return { ctx, query };
+  }
+
+  it('rejects an editor publishing before any db work', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, query } = makeContext(['editor']);
+
+    await expect(
+      mutationResolvers.Mutation.adminPublish(
+        null,
+        { entity: 'CONTROL', id: '00000000-0000-4000-8000-000000000001' },
+        ctx
+      )
+    ).rejects.toMatchObject({
+      extensions: { code: 'FORBIDDEN', requiredPermission: 'content:publish' }
+    });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('rejects an editor renaming a shared framework requirement', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, query } = makeContext(['editor']);
+
+    await expect(
+      mutationResolvers.Mutation.adminRenameFrameworkRequirement(
+        null,
+        { framework: 'SOC2', requirementId: 'CC6.1', title: 'Renamed' },
+        ctx
+      )
+    ).rejects.toMatchObject({
+      extensions: { code: 'FORBIDDEN', requiredPermission: 'content:publish' }
+    });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('lets only admins invalidate read caches', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.spyOn(console, 'log').mockImplementation(() => {}); // invalidation log line
+
+    await expect(
+      mutationResolvers.Mutation.adminInvalidateFaqsReads(
+        null,
+        null,
+        makeContext(['reviewer']).ctx
+      )
+    ).rejects.toThrow('FORBIDDEN: cache:invalidate permission required');
+
+    const result = await mutationResolvers.Mutation.adminInvalidateFaqsReads(
+      null,
+      null,
+      makeContext(['admin']).ctx
+    );
+    expect(result.ok).toBe(true);
+  });
+});
+
+// ---------- published content ----------
+
+describe('published content writes', () => {
+  const CONTROL: DbControlRow = {
+    id: '00000000-0000-4000-8000-000000000001',
+    control_key: 'mfa_enforced',
+    title: 'MFA is enforced',
+    description: 'All staff use MFA.',
+    section: 'Identity & Access',
+    category: 'Access Control',
+    subcategory: 'Authentication',
+    tags: ['mfa'],
+    source_url: null,
+    updated_at: '2026-02-01T00:00:00.000Z',
+    deleted_at: null,
+    status: 'published'
+  };
+
+  function makeContentContext(roles: string[], row: DbControlRow) {
+    const statements: string[] = [];
+    const run = async (sql: string) => {
+      statements.push(sql);
+      if (/from public\.taxonomy_terms/.test(sql)) return { rows: [] }; // taxonomy.json fallback
+      return { rows: [row] };
+    };
+
+    const ctx = {
+      requestId: 'req-rbac-test',
+      memo: new Map(),
+      cache: { invalidatePrefix: vi.fn(async () => {}) },
+      auth: buildRoleAuth('user@local', roles),
+      db: {
+        query: run,
+        transaction: async <T>(
+          callback: (tx: { query: typeof run }) => Promise<T>
+        ): Promise<T> => callback({ query: run })
+      }
+    } as unknown as GraphQLContext; // only the fields the write paths touch are faked
+
+    return { ctx, statements };
+  }
+
+  const forbidden = {
+    message:
+      'FORBIDDEN: content:publish permission required to change published content',
+    extensions: { code: 'FORBIDDEN', requiredPermission: 'content:publish' }
+  };
+
+  it('leaves drafts to editors and published rows to publishers', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(canChangePublished({ roles: ['editor'] }, 'draft')).toBe(true);
+    expect(canChangePublished({ roles: ['editor'] }, 'in_review')).toBe(true);
+    expect(canChangePublished({ roles: ['editor'] }, 'published')).toBe(false);
+    expect(canChangePublished({ roles: ['editor'] }, undefined)).toBe(false); // seed rows read as published
+    expect(canChangePublished({ roles: ['reviewer'] }, 'published')).toBe(true);
+  });
+
+  it('rejects an editor updating a published control before the write', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, statements } = makeContentContext(['editor'], CONTROL);
+
+    await expect(
+      updateControl(CONTROL.id, { title: 'MFA everywhere' }, ctx)
+    ).rejects.toMatchObject(forbidden);
+    expect(statements).toHaveLength(1); // only the row lock ran
+    expect(statements[0]).toMatch(/for update/);
+
+    const draft = makeContentContext(['editor'], {
+      ...CONTROL,
+      status: 'draft'
+    });
+    await updateControl(CONTROL.id, { title: 'MFA everywhere' }, draft.ctx);
+    expect(
+      draft.statements.some(sql => /update public\.controls/.test(sql))
+    ).toBe(true);
+  });
+
+  it('rolls back an editor deleting a published faq before it is audited', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, statements } = makeContentContext(['editor'], CONTROL); // only id + status are read before the gate
+
+    await expect(deleteFaq(CONTROL.id, ctx)).rejects.toMatchObject(forbidden);
+    expect(statements.some(sql => /audit_events/.test(sql))).toBe(false);
+  });
+
+  it('stops an editor taxonomy cascade from relabeling published rows', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx, statements } = makeContentContext(['editor'], CONTROL);
+    const relabel = {
+      match: { category: 'Access Control' },
+      set: { category: 'Access Management' }
+    };
+    const meta = { actor: 'user@local', requestId: 'req-rbac-test' };
+
+    await expect(
+      relabelControlsTaxonomy(ctx.db, relabel, meta, ctx.auth)
+    ).rejects.toMatchObject(forbidden);
+    expect(statements).toHaveLength(1); // the locking select, no relabel update
+
+    await expect(
+      relabelControlsTaxonomy(ctx.db, relabel, meta, null)
+    ).resolves.toBe(1); // the taxonomy seed is trusted
+  });
+
+  it('reports published rows an editor import would change', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const { ctx } = makeContentContext(['editor'], CONTROL);
+    const csv = [
+      'control_key,title,description,section,category,subcategory,tags',
+      'mfa_enforced,MFA everywhere,All staff use MFA.,Identity & Access,Access Control,Authentication,mfa'
+    ].join('\n');
+
+    const report = await importContent(
+      { entity: 'controls', format: 'csv', content: csv, dryRun: true },
+      ctx
+    );
+
+    expect(report.errors).toEqual([
+      {
+        row: 1,
+        key: 'mfa_enforced',
+        message:
+          'FORBIDDEN: content:publish permission required to change a published control'
+      }
+    ]);
+    expect(report.updated).toBe(0);
+  });
+});
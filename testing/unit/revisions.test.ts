@@ -0,0 +1,182 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  revision history + revert unit coverage (no db)
+
+  what this file proves:
+    - every update stores a revision snapshot after its audit row, in the same transaction
+    - revert replays a stored snapshot through validation + search_text recompute
+    - reverts record which revision they came from
+    - invalid snapshots and foreign revision ids fail before any write
+
+  test strategy:
+    - fake db adapter records every statement instead of talking to postgres
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import { buildControlSearchText } from '../../server/services/searchText';
+import {
+  revertControl,
+  updateControl,
+  type DbControlRow
+} from '../../server/services/controlsService';
+
+// ---------- fixtures ----------
+
+const CONTROL_ID = '00000000-0000-4000-8000-000000000001';
+const REVISION_ID = '00000000-0000-4000-8000-0000000000aa';
+
+function makeControlRow(overrides: Partial<DbControlRow> = {}): DbControlRow {
+  return {
+    id: CONTROL_ID,
+    control_key: 'access_reviews',
+    title: 'User access reviews',
+    description: 'Quarterly access reviews',
+    section: 'Security',
+    category: 'Access Control',
+    subcategory: null,
+    tags: ['iam'],
+    source_url: null,
+    updated_at: '2026-02-01T00:00:00.000Z',
+    deleted_at: null,
+    status: 'published',
+    ...overrides
+  };
+}
+
+function makeRevisionRow(snapshot: DbControlRow) {
+  return {
+    id: REVISION_ID,
+    entity: 'control',
+    entity_id: CONTROL_ID,
+    revision: 1,
+    action: 'create',
+    snapshot,
+    reverted_from: null,
+    actor: 'admin@local',
+    request_id: 'req-create',
+    created_at: '2026-01-01T00:00:00.000Z'
+  };
+}
+
+type RecordedStatement = { sql: string; params: unknown[] | undefined };
+
+function makeContext(rowsFor: (sql: string) => unknown[]) {
+  const statements: RecordedStatement[] = [];
+  const invalidatePrefix = vi.fn(async () => {});
+
+  const run = async (sql: string, params?: unknown[]) => {
+    statements.push({ sql, params });
+    return { rows: rowsFor(sql) };
+  };
+
+  const ctx = {
+    requestId: 'req-revision-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (_key: string, _ttl: number, load: () => unknown) =>
+        load(),
+      invalidatePrefix
+    },
+    auth: { userEmail: 'admin@local', roles: ['admin'], isAdmin: true },
+    db: {
+      query: async () => {
+        throw new Error('writes must run inside db.transaction');
+      },
+      transaction: async <T>(
+        callback: (tx: { query: typeof run }) => Promise<T>
+      ): Promise<T> => callback({ query: run })
+    }
+  } as unknown as GraphQLContext; // only the fields the write path touches are faked
+
+  return { ctx, statements, invalidatePrefix };
+}
+
+// ---------- revision writes ----------
+
+describe('revision snapshots', () => {
+  it('stores the post-update row as the next revision', async () => {
+    const updated = makeControlRow({ title: 'Access reviews v2' });
+    const { ctx, statements } = makeContext(sql =>
+      /for update/.test(sql) ? [makeControlRow()] : [updated]
+    );
+
+    await updateControl(CONTROL_ID, { title: 'Access reviews v2' }, ctx);
+
+    const revision = statements[3];
+    expect(revision?.sql).toMatch(/insert into public\.content_revisions/);
+    expect(revision?.sql).toMatch(/coalesce\(max\(revision\), 0\) \+ 1/); // numbered per record
+    expect(revision?.params?.slice(0, 3)).toEqual([
+      'control',
+      CONTROL_ID,
+      'update'
+    ]);
+    expect(JSON.parse(String(revision?.params?.[3]))).toEqual(updated); // full row, not a diff
+    expect(revision?.params?.[4]).toBeNull(); // not a revert
+  });
+});
+
+// ---------- revert ----------
+
+describe('revertControl', () => {
+  it('replays the snapshot through validation and search_text recompute', async () => {
+    const snapshot = makeControlRow({
+      title: '  Access   reviews ',
+      updated_at: '2026-01-01T00:00:00.000Z'
+    });
+    const { ctx, statements, invalidatePrefix } = makeContext(sql =>
+      /for update/.test(sql)
+        ? [makeControlRow()]
+        : /from public\.content_revisions/.test(sql) && !/insert/.test(sql)
+          ? [makeRevisionRow(snapshot)]
+          : [makeControlRow({ title: 'Access reviews' })]
+    );
+
+    await revertControl(CONTROL_ID, REVISION_ID, ctx);
+
+    const [lock, lookup, write, audit, revision] = statements;
+    expect(lock?.sql).toMatch(/for update/);
+    expect(lookup?.params).toEqual([REVISION_ID, 'control', CONTROL_ID]); // scoped to this record
+    expect(write?.params?.[2]).toBe('Access reviews'); // validation normalized the stored title
+    expect(write?.params?.[9]).toBe(
+      buildControlSearchText({
+        controlKey: 'access_reviews',
+        title: 'Access reviews',
+        description: 'Quarterly access reviews',
+        section: 'Security',
+        category: 'Access Control',
+        subcategory: null,
+        tags: ['iam'],
+        sourceUrl: null
+      })
+    );
+    expect(audit?.params?.[4]).toBe('update');
+    expect(revision?.params?.[4]).toBe(REVISION_ID); // reverted_from
+    expect(invalidatePrefix).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects snapshots that no longer pass validation', async () => {
+    const { ctx, statements } = makeContext(sql =>
+      /for update/.test(sql)
+        ? [makeControlRow()]
+        : [makeRevisionRow(makeControlRow({ title: '   ' }))]
+    );
+
+    await expect(revertControl(CONTROL_ID, REVISION_ID, ctx)).rejects.toThrow(
+      /^VALIDATION_ERROR:/
+    );
+    expect(statements).toHaveLength(2); // lock + lookup only
+  });
+
+  it('fails readably when the revision belongs to another record', async () => {
+    const { ctx, invalidatePrefix } = makeContext(sql =>
+      /for update/.test(sql) ? [makeControlRow()] : []
+    );
+
+    await expect(revertControl(CONTROL_ID, REVISION_ID, ctx)).rejects.toThrow(
+      'NOT_FOUND_ERROR: control revision not found'
+    );
+    expect(invalidatePrefix).not.toHaveBeenCalled();
+  });
+});
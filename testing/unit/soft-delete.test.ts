@@ -0,0 +1,161 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  soft delete + restore unit coverage (no db)
+
+  what this file proves:
+    - deletes mark deleted_at instead of removing the row, and are audited as "delete"
+    - restores clear deleted_at, are audited as "restore", and invalidate controls reads
+    - restoring a row that is not deleted fails readably
+    - public reads filter deleted rows; includeDeleted reads skip the filter under their own cache key
+
+  test strategy:
+    - fake db adapter records every statement instead of talking to postgres
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import { buildControlsReadCacheKey } from '../../server/cache/keys';
+import {
+  deleteControl,
+  getControlsPage,
+  restoreControl,
+  type DbControlRow
+} from '../../server/services/controlsService';
+
+// ---------- fixtures ----------
+
+const CONTROL_ID = '00000000-0000-4000-8000-000000000001';
+
+function makeControlRow(overrides: Partial<DbControlRow> = {}): DbControlRow {
+  return {
+    id: CONTROL_ID,
+    control_key: 'access_reviews',
+    title: 'Access reviews',
+    description: 'Quarterly access reviews',
+    section: 'Security',
+    category: 'Access Control',
+    subcategory: null,
+    tags: ['iam'],
+    source_url: null,
+    updated_at: '2026-01-01T00:00:00.000Z',
+    deleted_at: null,
+    ...overrides
+  };
+}
+
+type RecordedStatement = { sql: string; params: unknown[] | undefined };
+
+function makeContext(rowsFor: (sql: string) => unknown[]) {
+  const statements: RecordedStatement[] = [];
+  const cacheKeys: string[] = [];
+  const invalidatePrefix = vi.fn(async () => {});
+
+  const run = async (sql: string, params?: unknown[]) => {
+    statements.push({ sql, params });
+    return { rows: rowsFor(sql) };
+  };
+
+  const ctx = {
+    requestId: 'req-soft-delete-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (key: string, _ttl: number, load: () => unknown) => {
+        cacheKeys.push(key);
+        return load();
+      },
+      invalidatePrefix
+    },
+    auth: { userEmail: 'admin@local', roles: ['admin'], isAdmin: true },
+    db: {
+      query: run,
+      transaction: async <T>(
+        callback: (tx: { query: typeof run }) => Promise<T>
+      ): Promise<T> => callback({ query: run })
+    }
+  } as unknown as GraphQLContext; // only the fields the read + write paths touch are faked
+
+  return { ctx, statements, cacheKeys, invalidatePrefix };
+}
+
+// ---------- writes ----------
+
+describe('soft delete writes', () => {
+  it('marks deleted_at instead of removing the row', async () => {
+    const { ctx, statements } = makeContext(() => [
+      makeControlRow({ deleted_at: '2026-03-01T00:00:00.000Z' })
+    ]);
+
+    await expect(deleteControl(CONTROL_ID, ctx)).resolves.toEqual({
+      id: CONTROL_ID
+    });
+
+    const [write, audit] = statements;
+    expect(write?.sql).toMatch(/update public\.controls/);
+    expect(write?.sql).toMatch(/deleted_at = now\(\)/);
+    expect(write?.sql).not.toMatch(/delete from/);
+    expect(write?.params).toEqual([CONTROL_ID, 'admin@local']); // actor lands in deleted_by
+    expect(audit?.params?.[4]).toBe('delete');
+  });
+
+  it('restores a deleted row and audits it as a restore', async () => {
+    const { ctx, statements, invalidatePrefix } = makeContext(() => [
+      makeControlRow()
+    ]);
+
+    const row = await restoreControl(CONTROL_ID, ctx);
+
+    expect(row.deleted_at).toBeNull();
+    const [write, audit] = statements;
+    expect(write?.sql).toMatch(/deleted_at = null/);
+    expect(write?.sql).toMatch(/deleted_at is not null/); // only deleted rows can be restored
+    expect(audit?.params?.[4]).toBe('restore');
+    expect(invalidatePrefix).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails readably when the row is not deleted (or does not exist)', async () => {
+    const { ctx, invalidatePrefix } = makeContext(() => []);
+
+    await expect(restoreControl(CONTROL_ID, ctx)).rejects.toThrow(
+      'NOT_FOUND_ERROR: deleted control not found'
+    );
+    expect(invalidatePrefix).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- reads ----------
+
+describe('soft delete reads', () => {
+  const rowsFor = (sql: string) =>
+    /count\(\*\)/.test(sql) ? [{ count: 1 }] : [makeControlRow()];
+
+  it('filters deleted rows from default reads', async () => {
+    const { ctx, statements } = makeContext(rowsFor);
+
+    await getControlsPage({ first: 10 }, ctx);
+
+    expect(statements).toHaveLength(4); // count + page + framework mappings + evidence for the page
+    for (const statement of statements.slice(0, 2)) {
+      expect(statement.sql).toMatch(/deleted_at is null/);
+    }
+  });
+
+  it('skips the filter for includeDeleted reads under a separate cache key', async () => {
+    const { ctx, statements, cacheKeys } = makeContext(rowsFor);
+
+    await getControlsPage({ first: 10, includeDeleted: true }, ctx);
+
+    for (const statement of statements) {
+      expect(statement.sql).not.toMatch(/deleted_at is null/);
+    }
+    expect(cacheKeys).toEqual([
+      'controls:list:role=admin:first=10:deleted=include'
+    ]);
+    expect(
+      buildControlsReadCacheKey(
+        { first: 10, includeDeleted: false },
+        { authScope: 'admin' }
+      )
+    ).toBe('controls:list:role=admin:first=10'); // explicit false shares the default key
+  });
+});
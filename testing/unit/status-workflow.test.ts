@@ -0,0 +1,169 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  publishing workflow unit coverage (no db)
+
+  what this file proves:
+    - only DRAFT -> IN_REVIEW -> PUBLISHED -> ARCHIVED style moves are allowed
+    - status transitions lock the row, write the new status, and audit the change
+    - invalid transitions fail before any write runs
+    - public reads filter on published; admin status reads use their own cache key
+
+  test strategy:
+    - fake db adapter records every statement instead of talking to postgres
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import { buildControlsReadCacheKey } from '../../server/cache/keys';
+import { assertStatusTransition } from '../../server/services/validation';
+import {
+  getControlsPage,
+  transitionControlStatus,
+  type DbControlRow
+} from '../../server/services/controlsService';
+
+// ---------- fixtures ----------
+
+const CONTROL_ID = '00000000-0000-4000-8000-000000000001';
+
+function makeControlRow(overrides: Partial<DbControlRow> = {}): DbControlRow {
+  return {
+    id: CONTROL_ID,
+    control_key: 'access_reviews',
+    title: 'Access reviews',
+    description: 'Quarterly access reviews',
+    section: 'Security',
+    category: 'Access Control',
+    subcategory: null,
+    tags: ['iam'],
+    source_url: null,
+    updated_at: '2026-01-01T00:00:00.000Z',
+    deleted_at: null,
+    status: 'draft',
+    ...overrides
+  };
+}
+
+type RecordedStatement = { sql: string; params: unknown[] | undefined };
+
+function makeContext(rowsFor: (sql: string) => unknown[], isAdmin = true) {
+  const statements: RecordedStatement[] = [];
+  const cacheKeys: string[] = [];
+  const invalidatePrefix = vi.fn(async () => {});
+
+  const run = async (sql: string, params?: unknown[]) => {
+    statements.push({ sql, params });
+    return { rows: rowsFor(sql) };
+  };
+
+  const ctx = {
+    requestId: 'req-status-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (key: string, _ttl: number, load: () => unknown) => {
+        cacheKeys.push(key);
+        return load();
+      },
+      invalidatePrefix
+    },
+    auth: { userEmail: 'admin@local', roles: ['admin'], isAdmin },
+    db: {
+      query: run,
+      transaction: async <T>(
+        callback: (tx: { query: typeof run }) => Promise<T>
+      ): Promise<T> => callback({ query: run })
+    }
+  } as unknown as GraphQLContext; // only the fields the read + write paths touch are faked
+
+  return { ctx, statements, cacheKeys, invalidatePrefix };
+}
+
+// ---------- transition rules ----------
+
+describe('status transitions', () => {
+  it('allows the review path and archiving', () => {
+    expect(() => assertStatusTransition('draft', 'in_review')).not.toThrow();
+    expect(() =>
+      assertStatusTransition('in_review', 'published')
+    ).not.toThrow();
+    expect(() => assertStatusTransition('published', 'archived')).not.toThrow();
+    expect(() => assertStatusTransition('archived', 'in_review')).not.toThrow();
+  });
+
+  it('rejects skipping review or moving backwards', () => {
+    expect(() => assertStatusTransition('draft', 'published')).toThrow(
+      'VALIDATION_ERROR: cannot move from DRAFT to PUBLISHED'
+    );
+    expect(() => assertStatusTransition('published', 'in_review')).toThrow(
+      'VALIDATION_ERROR: cannot move from PUBLISHED to IN_REVIEW'
+    );
+  });
+});
+
+// ---------- writes ----------
+
+describe('status transition writes', () => {
+  it('locks, updates, and audits the status change', async () => {
+    const { ctx, statements, invalidatePrefix } = makeContext(sql =>
+      /for update/.test(sql)
+        ? [makeControlRow()]
+        : [makeControlRow({ status: 'in_review' })]
+    );
+
+    const row = await transitionControlStatus(CONTROL_ID, 'in_review', ctx);
+
+    expect(row.status).toBe('in_review');
+    const [lock, write, audit] = statements;
+    expect(lock?.sql).toMatch(/for update/);
+    expect(write?.params).toEqual([CONTROL_ID, 'in_review', 'admin@local']);
+    expect(audit?.params?.[5]).toBe(
+      JSON.stringify({ status: { before: 'draft', after: 'in_review' } })
+    );
+    expect(invalidatePrefix).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails invalid transitions before writing', async () => {
+    const { ctx, statements, invalidatePrefix } = makeContext(() => [
+      makeControlRow()
+    ]);
+
+    await expect(
+      transitionControlStatus(CONTROL_ID, 'published', ctx)
+    ).rejects.toThrow('VALIDATION_ERROR: cannot move from DRAFT to PUBLISHED');
+    expect(statements).toHaveLength(1); // only the locking select ran
+    expect(invalidatePrefix).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- reads ----------
+
+describe('status-filtered reads', () => {
+  const rowsFor = (sql: string) =>
+    /count\(\*\)/.test(sql) ? [{ count: 0 }] : [];
+
+  it('only reads published rows by default', async () => {
+    const { ctx, statements } = makeContext(rowsFor, false);
+
+    await getControlsPage({ first: 10 }, ctx);
+
+    for (const statement of statements) {
+      expect(statement.sql).toMatch(/status = \$1/);
+      expect(statement.params?.[0]).toBe('published');
+    }
+  });
+
+  it('keeps admin status reads under their own cache key', async () => {
+    const { ctx, statements, cacheKeys } = makeContext(rowsFor);
+
+    await getControlsPage({ first: 10, status: 'draft' }, ctx);
+
+    expect(statements[0]?.params?.[0]).toBe('draft');
+    expect(cacheKeys).toEqual([
+      'controls:list:role=admin:first=10:status=draft'
+    ]);
+    expect(buildControlsReadCacheKey({ first: 10, status: 'published' })).toBe(
+      'controls:list:role=public:first=10'
+    ); // explicit published shares the public key
+  });
+});
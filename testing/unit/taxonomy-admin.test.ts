@@ -0,0 +1,245 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  admin-managed taxonomy unit coverage (no db)
+
+  what this file proves:
+    - stored terms rebuild the taxonomy.json manifest shape (order, defaults, retired terms dropped)
+    - a rename relabels existing rows, recomputes search_text, audits, and invalidates after commit
+    - retiring a term that live items still use fails before anything changes
+    - imports go through the same manifest validation as taxonomy.json
+
+  test strategy:
+    - fake db adapter routes each statement by sql shape instead of talking to postgres
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import type { DbFaqRow } from '../../server/services/faqsService';
+import {
+  buildManifestFromTerms,
+  importTaxonomyManifest,
+  renameTaxonomyTerm,
+  retireTaxonomyTerm,
+  type DbTaxonomyTermRow
+} from '../../server/services/taxonomyService';
+
+// ---------- fixtures ----------
+
+function makeTerm(
+  id: string,
+  overrides: Partial<DbTaxonomyTermRow>
+): DbTaxonomyTermRow {
+  return {
+    id,
+    entity: 'faqs',
+    kind: 'section',
+    name: id,
+    parent_id: null,
+    is_default: false,
+    position: 0,
+    retired_at: null,
+    ...overrides
+  };
+}
+
+const TERMS: DbTaxonomyTermRow[] = [
+  makeTerm('s-gov', { entity: 'controls', name: 'Governance' }),
+  makeTerm('c-org', {
+    entity: 'controls',
+    kind: 'category',
+    name: 'Organizational Security',
+    parent_id: 's-gov',
+    position: 1
+  }),
+  makeTerm('c-risk', {
+    entity: 'controls',
+    kind: 'category',
+    name: 'Risk',
+    parent_id: 's-gov',
+    position: 0
+  }),
+  makeTerm('sc-general', {
+    entity: 'controls',
+    kind: 'subcategory',
+    name: 'General',
+    parent_id: 'c-org',
+    is_default: true,
+    position: 0
+  }),
+  makeTerm('sc-old', {
+    entity: 'controls',
+    kind: 'subcategory',
+    name: 'Legacy',
+    parent_id: 'c-org',
+    position: 1,
+    retired_at: '2026-01-01T00:00:00.000Z'
+  }),
+  makeTerm('s-privacy', { name: 'Privacy' }),
+  makeTerm('c-privacy', {
+    kind: 'category',
+    name: 'Privacy',
+    parent_id: 's-privacy'
+  })
+];
+
+function makeFaqRow(overrides: Partial<DbFaqRow> = {}): DbFaqRow {
+  return {
+    id: '00000000-0000-4000-8000-000000000001',
+    faq_key: 'data_retention',
+    question: 'How long is data kept?',
+    answer: 'Thirty days.',
+    section: 'Privacy',
+    category: 'Privacy',
+    subcategory: null,
+    tags: null,
+    updated_at: '2026-02-01T00:00:00.000Z',
+    deleted_at: null,
+    status: 'published',
+    ...overrides
+  };
+}
+
+type RecordedStatement = { sql: string; params: unknown[] | undefined };
+
+function makeContext(rowsFor: (sql: string) => unknown[]) {
+  const statements: RecordedStatement[] = [];
+  const invalidatePrefix = vi.fn(async () => {});
+
+  const run = async (sql: string, params?: unknown[]) => {
+    statements.push({ sql, params });
+    return { rows: rowsFor(sql) };
+  };
+
+  const ctx = {
+    requestId: 'req-taxonomy-admin-test',
+    memo: new Map(),
+    cache: {
+      get: () => undefined,
+      set: () => {},
+      getOrSet: async (_key: string, _ttl: number, load: () => unknown) =>
+        load(),
+      invalidatePrefix
+    },
+    auth: { userEmail: 'admin@local', roles: ['admin'], isAdmin: true },
+    db: {
+      query: async () => {
+        throw new Error('writes must run inside db.transaction');
+      },
+      transaction: async <T>(
+        callback: (tx: { query: typeof run }) => Promise<T>
+      ): Promise<T> => callback({ query: run })
+    }
+  } as unknown as GraphQLContext; // only the fields the write path touches are faked
+
+  return { ctx, statements, invalidatePrefix };
+}
+
+// ---------- manifest rebuild ----------
+
+describe('buildManifestFromTerms', () => {
+  it('rebuilds the taxonomy.json shape from live terms', () => {
+    const manifest = buildManifestFromTerms(TERMS);
+
+    expect(manifest.fields).toEqual(['section', 'category', 'subcategory']);
+    expect(Object.keys(manifest.controls.categories)).toEqual([
+      'Risk',
+      'Organizational Security'
+    ]); // position order, not insertion order
+    expect(manifest.controls.categories['Organizational Security']).toEqual({
+      section: 'Governance',
+      defaultSubcategory: 'General',
+      subcategories: ['General'] // retired Legacy dropped
+    });
+    expect(manifest.faqs.categories).toEqual({
+      Privacy: { section: 'Privacy' }
+    });
+  });
+});
+
+// ---------- rename cascade ----------
+
+describe('renameTaxonomyTerm', () => {
+  it('relabels rows, recomputes search_text, and invalidates after commit', async () => {
+    const renamed = { ...TERMS[6]!, name: 'Data Privacy' };
+    const { ctx, statements, invalidatePrefix } = makeContext(sql => {
+      if (/from public\.taxonomy_terms\s+where id = \$1::uuid/.test(sql)) {
+        return [TERMS[6]];
+      }
+      if (/update public\.taxonomy_terms/.test(sql)) return [renamed];
+      if (/from public\.taxonomy_terms/.test(sql)) {
+        return TERMS.map(term => (term.id === renamed.id ? renamed : term));
+      }
+      if (/from public\.faqs/.test(sql)) return [makeFaqRow()];
+      if (/update public\.faqs/.test(sql)) {
+        return [makeFaqRow({ category: 'Data Privacy' })];
+      }
+      return [];
+    });
+
+    const result = await renameTaxonomyTerm(
+      'c-privacy',
+      ' Data  Privacy ',
+      ctx
+    );
+
+    expect(result.affectedItems).toBe(1);
+    expect(result.term.name).toBe('Data Privacy');
+
+    const select = statements.find(statement =>
+      /from public\.faqs/.test(statement.sql)
+    );
+    expect(select?.sql).toMatch(/lower\(category\) = \$1/);
+    expect(select?.params).toEqual(['privacy']); // match is case-insensitive
+
+    const write = statements.find(statement =>
+      /update public\.faqs/.test(statement.sql)
+    );
+    expect(write?.params?.[2]).toBe('Data Privacy');
+    expect(String(write?.params?.[4])).toContain('Data Privacy'); // search_text carries the new label
+
+    expect(
+      statements.some(statement =>
+        /insert into public\.audit_events/.test(statement.sql)
+      )
+    ).toBe(true);
+    expect(invalidatePrefix).toHaveBeenCalledWith('faqs:list:');
+  });
+});
+
+// ---------- retire guard ----------
+
+describe('retireTaxonomyTerm', () => {
+  it('refuses to retire a term live items still use', async () => {
+    const { ctx, statements, invalidatePrefix } = makeContext(sql => {
+      if (/from public\.taxonomy_terms/.test(sql)) return [TERMS[6]];
+      if (/count\(\*\)/.test(sql)) return [{ count: 2 }];
+      return [];
+    });
+
+    await expect(retireTaxonomyTerm('c-privacy', ctx)).rejects.toThrow(
+      'CONFLICT_ERROR: taxonomy term is still used by 2 item(s)'
+    );
+    expect(
+      statements.some(statement => /retired_at = now\(\)/.test(statement.sql))
+    ).toBe(false);
+    expect(invalidatePrefix).not.toHaveBeenCalled();
+  });
+});
+
+// ---------- import validation ----------
+
+describe('importTaxonomyManifest', () => {
+  it('applies the taxonomy.json rules before touching the db', async () => {
+    const { ctx, statements } = makeContext(() => []);
+
+    await expect(importTaxonomyManifest('{ not json', ctx)).rejects.toThrow(
+      'VALIDATION_ERROR: manifest must be valid JSON'
+    );
+    await expect(
+      importTaxonomyManifest(
+        JSON.stringify({ version: 1, fields: ['section'] }),
+        ctx
+      )
+    ).rejects.toThrow('TAXONOMY_ERROR: imported taxonomy manifest fields');
+    expect(statements).toHaveLength(0);
+  });
+});
@@ -0,0 +1,158 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  taxonomy(entity) tree + count unit coverage (no db)
+
+  what this file proves:
+    - manifest sections -> categories -> subcategories keep manifest order, even at zero counts
+    - grouped db counts roll up to subcategory, category, section, and total
+    - labels the manifest does not know are appended instead of dropped
+    - the db read counts only live, published rows and caches under the list prefix
+
+  test strategy:
+    - fixed manifest fixture for tree shape
+    - fake db adapter for the grouped count query (no stored terms, so the file manifest applies)
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { describe, expect, it } from 'vitest';
+import type { GraphQLContext } from '../../server/graphql/context';
+import type { TaxonomyManifest } from '../../server/taxonomy';
+import {
+  buildTaxonomyTree,
+  getTaxonomyTree
+} from '../../server/services/taxonomyService';
+
+// ---------- fixtures ----------
+
+const TEST_TAXONOMY: TaxonomyManifest = {
+  version: 1,
+  fields: ['section', 'category', 'subcategory'],
+  controls: {
+    categories: {
+      'Access Control': {
+        section: 'Identity & Access',
+        defaultSubcategory: 'General',
+        subcategories: ['General', 'Authentication']
+      },
+      'Data Security': {
+        section: 'Data Protection',
+        subcategories: ['Encryption']
+      },
+      'Privileged Access': {
+        section: 'Identity & Access'
+      }
+    }
+  },
+  faqs: {
+    categories: {
+      General: { section: 'General' }
+    }
+  }
+};
+
+// ---------- tree building ----------
+
+describe('buildTaxonomyTree', () => {
+  it('keeps manifest order and zero-count nodes', () => {
+    const tree = buildTaxonomyTree(TEST_TAXONOMY, 'controls', []);
+
+    expect(tree.totalCount).toBe(0);
+    expect(tree.sections.map(section => section.name)).toEqual([
+      'Identity & Access',
+      'Data Protection'
+    ]);
+    expect(tree.sections[0]?.categories.map(category => category.name)).toEqual(
+      ['Access Control', 'Privileged Access']
+    ); // categories grouped under their manifest section
+    expect(tree.sections[0]?.categories[0]?.subcategories).toEqual([
+      { name: 'General', count: 0 },
+      { name: 'Authentication', count: 0 }
+    ]);
+  });
+
+  it('rolls grouped counts up the tree and appends unknown labels', () => {
+    const tree = buildTaxonomyTree(TEST_TAXONOMY, 'controls', [
+      {
+        section: 'Identity & Access',
+        category: 'access control',
+        subcategory: 'Authentication',
+        count: 3
+      },
+      {
+        section: 'Identity & Access',
+        category: 'Access Control',
+        subcategory: null,
+        count: 1
+      },
+      {
+        section: 'Data Protection',
+        category: 'Data Security',
+        subcategory: 'Tokenization',
+        count: 2
+      }
+    ]);
+
+    expect(tree.totalCount).toBe(6);
+
+    const [identity, data] = tree.sections;
+    expect(identity?.count).toBe(4);
+    expect(identity?.categories[0]).toEqual({
+      name: 'Access Control', // manifest casing wins over db casing
+      count: 4, // includes the row without a subcategory
+      subcategories: [
+        { name: 'General', count: 0 },
+        { name: 'Authentication', count: 3 }
+      ]
+    });
+    expect(data?.categories[0]?.subcategories).toEqual([
+      { name: 'Encryption', count: 0 },
+      { name: 'Tokenization', count: 2 }
+    ]); // unknown subcategory appended after the manifest entries
+  });
+});
+
+// ---------- db read ----------
+
+describe('getTaxonomyTree', () => {
+  it('counts live published rows under the list cache prefix', async () => {
+    const statements: string[] = [];
+    const cacheKeys: string[] = [];
+
+    const ctx = {
+      requestId: 'req-taxonomy-test',
+      memo: new Map(),
+      cache: {
+        get: () => undefined,
+        set: () => {},
+        getOrSet: async (key: string, _ttl: number, load: () => unknown) => {
+          cacheKeys.push(key);
+          return load();
+        },
+        invalidatePrefix: async () => {}
+      },
+      auth: { userEmail: null, roles: [], isAdmin: false },
+      db: {
+        query: async (sql: string) => {
+          statements.push(sql);
+          if (/from public\.taxonomy_terms/.test(sql)) return { rows: [] }; // no stored terms -> taxonomy.json vocabulary
+          return {
+            rows: [
+              {
+                section: 'Privacy',
+                category: 'Privacy',
+                subcategory: null,
+                count: 2
+              }
+            ]
+          };
+        }
+      }
+    } as unknown as GraphQLContext; // only the fields the read path touches are faked
+
+    const tree = await getTaxonomyTree('faqs', ctx);
+
+    const countQuery = statements.find(sql => /from public\.faqs/.test(sql));
+    expect(countQuery).toMatch(/deleted_at is null\s+and status = 'published'/);
+    expect(cacheKeys).toEqual(['faqs:list:taxonomy:role=public']);
+    expect(tree.source).toBe('db');
+    expect(tree.totalCount).toBe(2);
+  });
+});
@@ -0,0 +1,153 @@
+/* ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+  TL;DR  -->  pdf writer + trust report unit coverage (no db, no browser)
+
+  what this file proves:
+    - text wrapping respects the measured Helvetica widths
+    - the rendered file is structurally valid (header, xref offsets, startxref, page count)
+    - the report has a cover with the generation timestamp, a table of contents with page numbers, and every chapter
+    - controls are grouped by section, then category, in first-seen order
+
+  test strategy:
+    - build the report from fixture rows and inflate the page content streams to read the drawn text
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
+
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { measureText, wrapText } from '../../server/services/pdf';
+import { buildTrustReport } from '../../server/services/reportService';
+import type { DbControlRow } from '../../server/services/controlsService';
+import type { DbFaqRow } from '../../server/services/faqsService';
+
+// ---------- fixtures ----------
+
+function makeControl(
+  key: string,
+  section: string,
+  category: string
+): DbControlRow {
+  return {
+    id: `id-${key}`,
+    control_key: key,
+    title: `Control ${key}`,
+    description:
+      `Description for ${key} (with parentheses) and enough words to wrap. `.repeat(
+        3
+      ),
+    section,
+    category,
+    subcategory: null,
+    tags: ['soc2'],
+    source_url: null,
+    updated_at: '2026-01-01T00:00:00.000Z',
+    status: 'published'
+  };
+}
+
+const CONTROLS = [
+  makeControl('a', 'Identity & Access', 'Access Control'),
+  makeControl('b', 'Data Protection', 'Encryption'),
+  makeControl('c', 'Identity & Access', 'Access Control')
+];
+
+const FAQS: DbFaqRow[] = [
+  {
+    id: 'id-faq',
+    faq_key: 'faq',
+    question: 'Do you encrypt data at rest?',
+    answer: 'Yes — AES-256 everywhere.',
+    section: 'General',
+    category: 'Security',
+    subcategory: null,
+    tags: null,
+    updated_at: '2026-01-01T00:00:00.000Z'
+  }
+];
+
+const GENERATED_AT = new Date('2026-10-19T08:30:00.000Z');
+
+function readPages(pdf: Buffer): string[] {
+  const raw = pdf.toString('latin1');
+  const pages: string[] = [];
+  const pattern = /\/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g;
+
+  for (const match of raw.matchAll(pattern)) {
+    const start = (match.index ?? 0) + match[0].length;
+    const length = Number(match[1]);
+    pages.push(
+      inflateSync(pdf.subarray(start, start + length)).toString('latin1')
+    );
+  }
+  return pages;
+}
+
+// ---------- text layout ----------
+
+describe('wrapText', () => {
+  it('breaks lines on measured width and splits long tokens', () => {
+    const lines = wrapText('alpha beta gamma delta', 'regular', 10, 60);
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line =>
+      expect(measureText(line, 'regular', 10)).toBeLessThanOrEqual(60)
+    );
+    expect(wrapText('x'.repeat(40), 'bold', 10, 50).join('')).toBe(
+      'x'.repeat(40)
+    );
+  });
+});
+
+// ---------- report ----------
+
+describe('buildTrustReport', () => {
+  const pdf = buildTrustReport({
+    generatedAt: GENERATED_AT,
+    controls: CONTROLS,
+    faqs: FAQS
+  });
+  const raw = pdf.toString('latin1');
+
+  it('writes a structurally valid pdf', () => {
+    expect(raw.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(raw.endsWith('%%EOF\n')).toBe(true);
+
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(raw)?.[1]);
+    expect(raw.slice(startxref, startxref + 4)).toBe('xref');
+
+    const offsets = [...raw.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)];
+    offsets.forEach((match, index) => {
+      const offset = Number(match[1]);
+      expect(raw.slice(offset, offset + 12)).toMatch(
+        new RegExp(`^${index + 1} 0 obj\\n`)
+      );
+    }); // every xref entry points at its object
+
+    const pageCount = Number(/\/Type \/Pages \/Count (\d+)/.exec(raw)?.[1]);
+    expect(pageCount).toBe(readPages(pdf).length);
+    expect(pageCount).toBeGreaterThanOrEqual(5); // cover, contents, controls, faqs, resources
+  });
+
+  it('renders the cover, linked contents, and every chapter', () => {
+    const [cover, contents, controls, ...rest] = readPages(pdf);
+
+    expect(cover).toContain('(Trust Center Report) Tj');
+    expect(cover).toContain('(Generated 2026-10-19 08:30 UTC) Tj');
+    expect(cover).toContain('(3 published controls across 2 sections) Tj');
+
+    expect(contents).toContain('(Contents) Tj');
+    expect(contents).toMatch(/\(Access Control\) Tj[\s\S]*?\(3\) Tj/); // category entry with its page number
+    expect(raw).toMatch(/\/Subtype \/Link .*\/Dest \[\d+ 0 R \/XYZ null/); // contents rows jump to their pages
+
+    expect(controls).toContain('(Control a) Tj');
+    expect(controls).toContain('\\(with parentheses\\)'); // pdf string escaping
+    expect(controls?.indexOf('(Control c) Tj')).toBeLessThan(
+      controls?.indexOf('(Data Protection) Tj') ?? -1
+    ); // rows of the first-seen section stay together
+    expect(controls).toContain('(Page 3 of ');
+
+    const tail = rest.join('\n');
+    expect(tail).toContain('(Do you encrypt data at rest?) Tj');
+    expect(tail).toContain('(Yes \x97 AES-256 everywhere.) Tj'); // em dash in WinAnsi
+    expect(tail).toContain('(Resources) Tj');
+    expect(tail).toContain('(https://www.aon.com/) Tj');
+  });
+});
@@ -5,8 +5,15 @@
   - reduces schema drift between frontend api helpers and backend graphql shape
   - keeps ui-only jsx/web-component typing out of shared contracts
   - includes grouped overview-search contracts so 006E can consume the same backend shape
+  - includes aiAnswer contracts consumed by the assistant bridge
   - includes lightweight grouped ui shapes used by stencil renderers
+  - carries optional search highlights so cards can render matched fragments
   - leaves new taxonomy metadata optional so current consumers do not break
+  - includes the taxonomy(entity) tree contract for count-aware subnav + filter UI
+  - carries optional compliance framework mappings so control cards can render badges
+  - includes the frameworkCoverage matrix contract for the coverage view
+  - carries optional control evidence (files + links, public / nda) for the control detail rows
+  - carries optional content visibility + locked flags, and the ndaAccess / requestAccess contracts
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~ */
 
 export type PageInfo = {
@@ -37,6 +44,38 @@ export type OverviewSearchQueryArgs = {
   firstPerKind?: number; // per-entity visible row cap for grouped overview results
 };
 
+export type SearchHighlight = {
+  field: string; // title | description | question | answer
+  fragment: string; // matched fragment with hits wrapped in <mark>...</mark>
+};
+
+export type ContentStatus = 'DRAFT' | 'IN_REVIEW' | 'PUBLISHED' | 'ARCHIVED'; // publishing workflow (public reads only see PUBLISHED)
+
+export type ComplianceFramework = 'SOC2' | 'ISO27001' | 'NIST_CSF'; // graphql ComplianceFramework enum values
+
+export type ControlFramework = {
+  framework: ComplianceFramework;
+  label: string; // display name (SOC 2, ISO 27001, NIST CSF)
+  requirementId: string; // framework's own id (CC6.1, A.5.15, PR.AA-01)
+  requirementTitle: string;
+};
+
+export type EvidenceVisibility = 'PUBLIC' | 'NDA'; // graphql EvidenceVisibility enum values
+
+export type ContentVisibility = 'PUBLIC' | 'NDA'; // graphql ContentVisibility enum values
+
+export type ControlEvidence = {
+  id: string;
+  title: string;
+  kind: 'FILE' | 'LINK';
+  fileName: string | null; // FILE only
+  effectiveDate: string; // YYYY-MM-DD
+  expiresOn: string | null; // YYYY-MM-DD (null = no expiry)
+  isExpired: boolean;
+  visibility: EvidenceVisibility; // NDA items are listed but only download for cleared viewers
+  downloadUrl: string; // /api/evidence/:id (visibility checked server-side)
+};
+
 export type Control = {
   id: string; // stable id from db or seed fallback
   title: string; // display title
@@ -47,8 +86,14 @@ export type Control = {
   description?: string; // optional because some queries omit it
   sourceUrl?: string | null; // optional because some queries omit it
   updatedAt?: string; // optional because some queries omit it
+  deletedAt?: string | null; // set only on admin includeDeleted reads
+  status?: ContentStatus; // optional because some queries omit it
+  visibility?: ContentVisibility; // optional because some queries omit it
+  locked?: boolean; // true  -->  nda teaser (description, sourceUrl, evidence blank for this viewer)
   controlKey?: string; // optional because some queries omit it
-  status?: string; // ui-only legacy support if still referenced
+  highlights?: SearchHighlight[] | null; // present on search reads only
+  frameworks?: ControlFramework[]; // optional because some queries omit it
+  evidence?: ControlEvidence[]; // optional because some queries omit it
 };
 
 export type Faq = {
@@ -60,7 +105,28 @@ export type Faq = {
   subcategory?: string | null; // fine-grained taxonomy bucket
   tags?: string[]; // optional because some queries omit it
   updatedAt?: string; // optional because some queries omit it
+  deletedAt?: string | null; // set only on admin includeDeleted reads
+  status?: ContentStatus; // optional because some queries omit it
+  visibility?: ContentVisibility; // optional because some queries omit it
+  locked?: boolean; // true  -->  nda teaser (answer blank for this viewer)
   faqKey?: string; // optional because some queries omit it
+  highlights?: SearchHighlight[] | null; // present on search reads only
+};
+
+export type AccessRequestStatus = 'PENDING' | 'APPROVED' | 'DENIED'; // graphql AccessRequestStatus enum values
+
+export type AccessRequest = {
+  id: string;
+  status: AccessRequestStatus;
+  createdAt: string;
+  expiresAt: string | null; // APPROVED only
+  isActive: boolean; // APPROVED and not yet expired
+};
+
+export type NdaAccess = {
+  cleared: boolean; // viewer reads nda rows in full
+  expiresAt: string | null; // set when clearance comes from a grant
+  request: AccessRequest | null; // viewer's latest request
 };
 
 export type ControlsConnection = Connection<Control>; // typed alias for controls pages
@@ -73,12 +139,105 @@ export type OverviewSearchResult = {
   totalCount: number; // sum of controls.totalCount + faqs.totalCount
 };
 
+// ----------  framework coverage contracts  ----------
+
+export type FrameworkRequirementCoverage = {
+  requirementId: string;
+  requirementTitle: string;
+  controlCount: number; // live, published controls mapped to the requirement
+  isGap: boolean; // no control covers the requirement
+};
+
+export type FrameworkCoverageColumn = {
+  framework: ComplianceFramework;
+  label: string;
+  controlCount: number; // distinct controls mapped to the framework
+  requirementCount: number;
+  coveredRequirementCount: number;
+  requirements: FrameworkRequirementCoverage[];
+};
+
+export type FrameworkCoverageCell = {
+  framework: ComplianceFramework;
+  controlCount: number; // the category's controls mapped to the framework
+  requirementCount: number; // distinct requirements those controls cover
+  isGap: boolean; // none of the category's controls map to the framework
+};
+
+export type FrameworkCoverageRow = {
+  section: string;
+  category: string;
+  controlCount: number;
+  cells: FrameworkCoverageCell[]; // same order as FrameworkCoverage.frameworks
+};
+
+export type FrameworkCoverage = {
+  totalControls: number;
+  frameworks: FrameworkCoverageColumn[]; // matrix columns
+  categories: FrameworkCoverageRow[]; // matrix rows (taxonomy order)
+};
+
+// ----------  taxonomy contracts  ----------
+
+export type TaxonomyEntity = 'CONTROLS' | 'FAQS'; // graphql ControlsOrFaqs enum values
+
+export type TaxonomySubcategory = {
+  name: string;
+  count: number; // live published rows in this subcategory
+};
+
+export type TaxonomyCategory = {
+  name: string;
+  count: number; // includes rows without a subcategory
+  subcategories: TaxonomySubcategory[];
+};
+
+export type TaxonomySection = {
+  name: string;
+  count: number;
+  categories: TaxonomyCategory[];
+};
+
+export type Taxonomy = {
+  entity: TaxonomyEntity;
+  totalCount: number;
+  sections: TaxonomySection[]; // manifest order, unknown db labels appended
+};
+
+// ----------  ai assistant contracts  ----------
+
+export type AiCitationKind = 'CONTROL' | 'FAQ'; // entity family a citation points at
+
+export type AiCitation = {
+  ref: string; // citation handle used inside the answer text ([S1])
+  kind: AiCitationKind; // CONTROL | FAQ
+  id: string; // row id
+  controlKey: string | null; // present for controls
+  faqKey: string | null; // present for faqs
+  title: string; // control title or faq question
+  category: string; // category used to build jump anchors
+  sourceUrl: string | null; // optional proof link
+};
+
+export type AiAnswerResult = {
+  question: string; // normalized question echoed back by the backend
+  answer: string; // validated answer text
+  citations: AiCitation[]; // cited sources in first-mention order
+  grounded: boolean; // false when no valid citation survived validation
+  provider: string; // provider name for debugging
+  model: string; // provider model id for debugging
+  requestId: string; // backend request id for log correlation
+};
+
 // ----------  grouped UI helper types (used by stencil components)  ----------
 
 export type ControlGroupItem = {
   id: string; // stable id for row key + toggles
   title: string; // control title shown in grouped list
   description: string; // normalized description string (may be empty)
+  frameworks?: ControlFramework[]; // framework badges shown under the row title
+  evidence?: ControlEvidence[]; // evidence list shown in the expanded row
+  locked?: boolean; // nda teaser  -->  title + badges + request-access button instead of the detail
 };
 
 export type ControlGroup = {
@@ -90,6 +249,8 @@ export type FaqGroupItem = {
   id: string; // stable id for row key + expand state
   question: string; // faq question shown in row header
   answer: string; // faq answer revealed on expand
+  locked?: boolean; // nda teaser  -->  locked note instead of the answer
+  highlights?: SearchHighlight[]; // matched question/answer fragments when the rows came from a search
 };
 
 export type FaqGroup = {
@@ -100,4 +261,5 @@ export type FaqGroup = {
 export type ExpansionControlGroup = {
   category: string; // category heading rendered in overview expansion cards
   titles: string[]; // sorted control titles shown under the category
+  highlights?: Record<string, SearchHighlight[]>; // title -> matched fragments when the rows came from a search
 };
@@ -2,7 +2,7 @@
   tl;dr  -->  vite dev / build config
 
   - enables react support
-  - proxies /api/health and /graphql to express server
+  - proxies /api/health, /api/export, /api/report.pdf, /api/evidence, and /graphql to express server
 ~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~*/
 
 import { defineConfig, loadEnv } from 'vite'; // config helper + mode-aware env loader (.env, .env.[mode], etc.)
@@ -32,6 +32,9 @@ export default defineConfig(({ mode }) => {
       proxy: {
         // preserves method + json + headers  -->  no hardcoding,  no path rewriting,  no websocket upgrades needed for MVP
         '/api/health': { target: serverTarget, changeOrigin: true },
+        '/api/export': { target: serverTarget, changeOrigin: true },
+        '/api/report.pdf': { target: serverTarget, changeOrigin: true },
+        '/api/evidence': { target: serverTarget, changeOrigin: true },
         '/graphql': { target: serverTarget, changeOrigin: true }
       }
     },